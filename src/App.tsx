@@ -8,6 +8,7 @@ import { useAuth } from "@/hooks/useAuth";
 import SecurityEnhancedApp from "@/components/SecurityEnhancedApp";
 import { AppSidebar } from "@/components/AppSidebar";
 import PageAccessGuard from "@/components/PageAccessGuard";
+import { CommandPalette } from "@/components/shared/CommandPalette";
 import Dashboard from "./pages/Dashboard";
 import Accounts from "./pages/Accounts";
 import Contacts from "./pages/Contacts";
@@ -19,6 +20,9 @@ import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import Notifications from "./pages/Notifications";
 import Tasks from "./pages/Tasks";
+import Approvals from "./pages/Approvals";
+import Forecast from "./pages/Forecast";
+import ImportHistory from "./pages/ImportHistory";
 import { useState } from "react";
 
 const queryClient = new QueryClient();
@@ -32,6 +36,7 @@ const FixedSidebarLayout = ({ children }: { children: React.ReactNode }) => {
       <div className="fixed top-0 left-0 z-50 h-full">
         <AppSidebar isFixed={true} isOpen={sidebarOpen} onToggle={setSidebarOpen} />
       </div>
+      <CommandPalette />
       <main 
         className="flex-1 bg-background min-h-screen"
         style={{ 
@@ -155,6 +160,21 @@ const AppRouter = () => (
           <Tasks />
         </ProtectedRoute>
       } />
+      <Route path="/approvals" element={
+        <ProtectedRoute>
+          <Approvals />
+        </ProtectedRoute>
+      } />
+      <Route path="/forecast" element={
+        <ProtectedRoute>
+          <Forecast />
+        </ProtectedRoute>
+      } />
+      <Route path="/import-history" element={
+        <ProtectedRoute>
+          <ImportHistory />
+        </ProtectedRoute>
+      } />
       <Route path="/settings" element={
         <ProtectedRoute>
           <Settings />
@@ -5,6 +5,7 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { findPendingApprovalRequest, isApprovalPendingError } from "@/utils/approvalUtils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -15,6 +16,11 @@ import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { X, ChevronDown } from "lucide-react";
 import { Account } from "./AccountTable";
+import { CustomFieldsSection } from "@/components/shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { getCustomFieldValues, validateCustomFieldValues } from "@/utils/customFieldUtils";
+import { CustomFieldValues } from "@/types/customField";
+import { usePicklist } from "@/hooks/usePicklists";
 
 const accountSchema = z.object({
   company_name: z.string()
@@ -42,8 +48,6 @@ interface AccountModalProps {
   onSuccess: () => void;
 }
 
-const regions = ["EU", "US", "ASIA", "LATAM", "MEA", "Other"];
-
 const regionCountries: Record<string, string[]> = {
   EU: ["Germany", "France", "UK", "Italy", "Spain", "Netherlands", "Sweden", "Poland", "Belgium", "Austria", "Switzerland", "Other EU"],
   US: ["United States", "Canada", "Mexico"],
@@ -53,8 +57,6 @@ const regionCountries: Record<string, string[]> = {
   Other: ["Other"]
 };
 
-const statuses = ["New", "Working", "Warm", "Hot", "Nurture", "Closed-Won", "Closed-Lost"];
-
 const tagOptions = [
   "AUTOSAR", "Adaptive AUTOSAR", "Embedded Systems", "BSW", "ECU", "Zone Controller",
   "HCP", "CI/CD", "V&V Testing", "Integration", "Software Architecture", "LINUX",
@@ -62,22 +64,21 @@ const tagOptions = [
   "Vehicle Architecture", "Connected Car", "Platform", "µC/HW"
 ];
 
-const industries = [
-  "Automotive", "Technology", "Manufacturing", "Healthcare", "Finance/Banking",
-  "Retail", "Energy", "Aerospace", "Telecommunications", "Logistics",
-  "Government", "Education", "Consulting", "Software", "Electronics", "Other"
-];
-
 const companyTypes = ["OEM", "Tier-1", "Tier-2", "Startup", "Enterprise", "SMB", "Government", "Non-Profit", "Other"];
 
-const segments = ["prospect", "customer", "partner", "vendor", "competitor"];
-
 export const AccountModal = ({ open, onOpenChange, account, onSuccess }: AccountModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
   const [loading, setLoading] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [availableCountries, setAvailableCountries] = useState<string[]>([]);
+  const { fields: customFields } = useCustomFields('account');
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [customErrors, setCustomErrors] = useState<Record<string, string>>({});
+  const regions = usePicklist('region');
+  const industries = usePicklist('industry');
+  const segments = usePicklist('segment');
+  const statuses = usePicklist('account_status');
 
   const form = useForm<AccountFormData>({
     resolver: zodResolver(accountSchema),
@@ -122,6 +123,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         segment: account.segment || "prospect",
       });
       setSelectedTags(account.tags || []);
+      setCustomValues(getCustomFieldValues(account));
       if (account.region && regionCountries[account.region]) {
         setAvailableCountries(regionCountries[account.region]);
       }
@@ -140,7 +142,9 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         segment: "prospect",
       });
       setSelectedTags([]);
+      setCustomValues({});
     }
+    setCustomErrors({});
   }, [account, form]);
 
   const toggleTag = (tag: string) => {
@@ -150,6 +154,10 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
   };
 
   const onSubmit = async (data: AccountFormData) => {
+    const errors = validateCustomFieldValues(customFields, customValues);
+    setCustomErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -176,6 +184,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
         industry: data.industry || null,
         phone: data.phone || null,
         segment: data.segment || 'prospect',
+        custom_fields: customValues,
         account_owner: user.data.user.id,
         modified_by: user.data.user.id,
       };
@@ -191,6 +200,17 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
 
         if (error) throw error;
 
+        // An approval workflow may hold the change instead of applying it
+        if (await findPendingApprovalRequest('accounts', account.id)) {
+          toast({
+            title: "Submitted for approval",
+            description: "This change requires approval and will be applied once approved",
+          });
+          onSuccess();
+          onOpenChange(false);
+          return;
+        }
+
         await logUpdate('accounts', account.id, accountData, account);
 
         toast({
@@ -211,9 +231,12 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
 
         await logCreate('accounts', newAccount.id, accountData);
 
+        const pendingApproval = await findPendingApprovalRequest('accounts', newAccount.id);
         toast({
-          title: "Success",
-          description: "Account created successfully",
+          title: pendingApproval ? "Submitted for approval" : "Success",
+          description: pendingApproval
+            ? "The new account is locked until its approval request is resolved"
+            : "Account created successfully",
         });
       }
 
@@ -221,8 +244,10 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
       onOpenChange(false);
     } catch (error) {
       toast({
-        title: "Error",
-        description: account ? "Failed to update account" : "Failed to create account",
+        title: isApprovalPendingError(error) ? "Awaiting approval" : "Error",
+        description: isApprovalPendingError(error)
+          ? "This account has a pending approval request and cannot be changed until it is resolved"
+          : account ? "Failed to update account" : "Failed to create account",
         variant: "destructive",
       });
     } finally {
@@ -283,7 +308,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {industries.map((industry) => (
+                        {industries.getOptions(field.value).map((industry) => (
                           <SelectItem key={industry} value={industry}>
                             {industry}
                           </SelectItem>
@@ -308,7 +333,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {regions.map((region) => (
+                        {regions.getOptions(field.value).map((region) => (
                           <SelectItem key={region} value={region}>
                             {region}
                           </SelectItem>
@@ -411,7 +436,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {segments.map((seg) => (
+                        {segments.getOptions(field.value).map((seg) => (
                           <SelectItem key={seg} value={seg}>
                             {seg.charAt(0).toUpperCase() + seg.slice(1)}
                           </SelectItem>
@@ -436,7 +461,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {statuses.map((status) => (
+                        {statuses.getOptions(field.value).map((status) => (
                           <SelectItem key={status} value={status}>
                             {status}
                           </SelectItem>
@@ -519,6 +544,13 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess }: Account
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              fields={customFields}
+              values={customValues}
+              errors={customErrors}
+              onChange={setCustomValues}
+            />
+
             <FormField
               control={form.control}
               name="notes"
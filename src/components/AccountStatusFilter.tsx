@@ -1,24 +1,15 @@
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { usePicklist } from "@/hooks/usePicklists";
 
 interface AccountStatusFilterProps {
   value: string;
   onValueChange: (value: string) => void;
 }
 
-const statuses = [
-  { value: "all", label: "All Statuses" },
-  { value: "New", label: "New" },
-  { value: "Working", label: "Working" },
-  { value: "Warm", label: "Warm" },
-  { value: "Hot", label: "Hot" },
-  { value: "Nurture", label: "Nurture" },
-  { value: "Closed-Won", label: "Closed-Won" },
-  { value: "Closed-Lost", label: "Closed-Lost" },
-];
-
 export const AccountStatusFilter = ({ value, onValueChange }: AccountStatusFilterProps) => {
+  const { options } = usePicklist('account_status');
   const isFiltered = value && value !== "all";
   
   return (
@@ -35,9 +26,10 @@ export const AccountStatusFilter = ({ value, onValueChange }: AccountStatusFilte
         )}
       </SelectTrigger>
       <SelectContent>
-        {statuses.map((status) => (
-          <SelectItem key={status.value} value={status.value}>
-            {status.label}
+        <SelectItem value="all">All Statuses</SelectItem>
+        {options.map((status) => (
+          <SelectItem key={status} value={status}>
+            {status}
           </SelectItem>
         ))}
       </SelectContent>
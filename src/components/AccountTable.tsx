@@ -5,15 +5,15 @@ import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye, Building2 } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye, Building2 } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail } from "./RowActionsDropdown";
 import { AccountModal } from "./AccountModal";
 import { AccountColumnCustomizer, AccountColumnConfig, defaultAccountColumns } from "./AccountColumnCustomizer";
@@ -24,6 +24,15 @@ import { AccountDetailModal } from "./accounts/AccountDetailModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { MissingRateValue } from "./shared/MissingRateNotice";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePicklist } from "@/hooks/usePicklists";
+import { getPicklistBadgeStyle } from "@/utils/picklistUtils";
+import { formatCustomFieldColumn, getCustomFieldName, toCustomFieldSearchFields, withCustomFieldColumns } from "@/utils/customFieldUtils";
+import { MatchingSelection, ServerFilter, advancedSearchFilter, applyServerFilters, applyServerSort, arrayContainsFilter, eqFilter, fetchAllMatchingRows, searchFilter } from "@/utils/serverQueryUtils";
+import { useServerPagination } from "@/hooks/useServerPagination";
 import { useQuery } from "@tanstack/react-query";
 
 // Export ref interface for parent component
@@ -53,6 +62,7 @@ export interface Account {
   total_revenue?: number;
   deal_count?: number;
   contact_count?: number;
+  custom_fields?: unknown;
 }
 interface AccountTableProps {
   showColumnCustomizer: boolean;
@@ -63,8 +73,29 @@ interface AccountTableProps {
   setSelectedAccounts: React.Dispatch<React.SetStateAction<string[]>>;
   onBulkDeleteComplete?: () => void;
   initialStatus?: string;
+  matchingSelection?: MatchingSelection | null;
+  onMatchingSelectionChange?: (selection: MatchingSelection | null) => void;
 }
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+// Searched by the search box; tags match a whole tag
+const ACCOUNT_TEXT_SEARCH_COLUMNS = ['company_name', 'industry', 'country', 'email', 'phone', 'website', 'notes', 'company_type', 'region', 'segment'];
+
+// Accounts are checked for links and deleted this many at a time
+const BULK_DELETE_CHUNK_SIZE = 200;
+
+// Fields offered in the advanced search, ahead of the custom ones
+const ACCOUNT_SEARCH_FIELDS = [
+  { value: 'company_name', label: 'Company Name' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'company_type', label: 'Company Type' },
+  { value: 'region', label: 'Region' },
+  { value: 'country', label: 'Country' },
+  { value: 'status', label: 'Status' },
+  { value: 'segment', label: 'Segment' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+];
 const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   showColumnCustomizer,
   setShowColumnCustomizer,
@@ -73,19 +104,26 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   selectedAccounts,
   setSelectedAccounts,
   onBulkDeleteComplete,
-  initialStatus = "all"
+  initialStatus = "all",
+  matchingSelection = null,
+  onMatchingSelectionChange
 }, ref) => {
   const {
     toast
   } = useToast();
   const {
-    logDelete
+    reportingCurrency,
+    displayCurrency,
+    convert
+  } = useExchangeRates();
+  const {
+    logDelete,
+    logBulkDelete
   } = useCRUDAudit();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
@@ -104,6 +142,22 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   useEffect(() => {
     setLocalColumns(columns);
   }, [columns]);
+  const {
+    fields: customFields
+  } = useCustomFields('account');
+  const {
+    getColor: getStatusColor
+  } = usePicklist('account_status');
+  const tableColumns = useMemo(() => withCustomFieldColumns(localColumns, customFields), [localColumns, customFields]);
+  const advancedSearchFields = useMemo(() => [...ACCOUNT_SEARCH_FIELDS, ...toCustomFieldSearchFields(customFields)], [customFields]);
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
   // Get owner parameter from URL - "me" means filter by current user
   const ownerParam = searchParams.get('owner');
@@ -145,8 +199,6 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(25);
   const [sortField, setSortField] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [emailModalOpen, setEmailModalOpen] = useState(false);
@@ -155,29 +207,10 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const [viewingAccount, setViewingAccount] = useState<Account | null>(null);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
 
-  // Handle viewId from URL (from global search)
-  const viewId = searchParams.get('viewId');
-  useEffect(() => {
-    if (viewId && accounts.length > 0) {
-      const accountToView = accounts.find(a => a.id === viewId);
-      if (accountToView) {
-        setViewingAccount(accountToView);
-        setShowDetailModal(true);
-        // Clear the viewId from URL after opening
-        setSearchParams(prev => {
-          prev.delete('viewId');
-          return prev;
-        }, {
-          replace: true
-        });
-      }
-    }
-  }, [viewId, accounts, setSearchParams]);
-
   // Expose handleBulkDelete to parent via ref
   useImperativeHandle(ref, () => ({
     handleBulkDelete
-  }), [selectedAccounts, accounts]);
+  }), [selectedAccounts, matchingSelection]);
 
   // Fetch all profiles for owner dropdown
   const {
@@ -191,39 +224,21 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       return data || [];
     }
   });
-  useEffect(() => {
-    fetchAccounts();
-  }, []);
-  useEffect(() => {
-    const searchLower = searchTerm.toLowerCase();
-    let filtered = accounts.filter(account => account.company_name?.toLowerCase().includes(searchLower) || account.industry?.toLowerCase().includes(searchLower) || account.country?.toLowerCase().includes(searchLower) || account.email?.toLowerCase().includes(searchLower) || account.phone?.toLowerCase().includes(searchLower) || account.website?.toLowerCase().includes(searchLower) || account.notes?.toLowerCase().includes(searchLower) || account.company_type?.toLowerCase().includes(searchLower) || account.region?.toLowerCase().includes(searchLower) || account.segment?.toLowerCase().includes(searchLower) || account.tags?.some(tag => tag.toLowerCase().includes(searchLower)));
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(account => account.status === statusFilter);
+  // Filters run in the database; the table only loads the page on screen
+  const accountFilters = useMemo(() => {
+    const filters: ServerFilter[] = [];
+    if (debouncedSearchTerm.trim()) {
+      filters.push(searchFilter(debouncedSearchTerm, ACCOUNT_TEXT_SEARCH_COLUMNS, ['tags']));
     }
+    if (statusFilter !== "all") filters.push(eqFilter('status', statusFilter));
 
     // FIX: Use account_owner instead of created_by for owner filtering
-    if (ownerFilter !== "all") {
-      filtered = filtered.filter(account => account.account_owner === ownerFilter);
-    }
-    if (tagFilter) {
-      filtered = filtered.filter(account => account.tags?.includes(tagFilter));
-    }
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Account] || '';
-        const bValue = b[sortField as keyof Account] || '';
-
-        // Handle numeric sorting for score, revenue, counts
-        if (typeof aValue === 'number' && typeof bValue === 'number') {
-          return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-        }
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
-    }
-    setFilteredAccounts(filtered);
-    setCurrentPage(1);
-  }, [accounts, searchTerm, statusFilter, ownerFilter, tagFilter, sortField, sortDirection]);
+    if (ownerFilter !== "all") filters.push(eqFilter('account_owner', ownerFilter));
+    if (tagFilter) filters.push(arrayContainsFilter('tags', tagFilter));
+    const advanced = advancedSearchFilter(searchGroups);
+    if (advanced) filters.push(advanced);
+    return filters;
+  }, [debouncedSearchTerm, statusFilter, ownerFilter, tagFilter, searchGroups]);
   const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -235,48 +250,79 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   const getSortIcon = (field: string) => {
     return null; // Hide sort icons but keep sorting on click
   };
-  const fetchAccounts = async () => {
-    try {
-      setLoading(true);
-      const {
-        data: accountsData,
-        error
-      } = await supabase.from('accounts').select('*').order('created_at', {
-        ascending: false
-      });
-      if (error) throw error;
-
-      // Fetch actual contact counts per account
-      const { data: contactCounts } = await supabase
-        .from('contacts')
-        .select('account_id')
-        .not('account_id', 'is', null);
-
-      // Calculate contact counts
-      const contactCountMap = (contactCounts || []).reduce((acc, c) => {
-        if (c.account_id) {
-          acc[c.account_id] = (acc[c.account_id] || 0) + 1;
-        }
-        return acc;
-      }, {} as Record<string, number>);
-
-      // Merge actual counts into accounts
-      const accountsWithCounts = (accountsData || []).map(account => ({
-        ...account,
-        contact_count: contactCountMap[account.id] || 0,
-      }));
+  const fetchAccountsPage = async (from: number, to: number) => {
+    let query = supabase.from('accounts').select('*', {
+      count: 'exact'
+    });
+    query = applyServerFilters(query, accountFilters);
+    query = sortField ? applyServerSort(query, sortField, sortDirection === 'asc') : query.order('created_at', {
+      ascending: false
+    }).order('id');
+    const {
+      data: accountsData,
+      error,
+      count
+    } = await query.range(from, to);
+    if (error) throw error;
 
-      setAccounts(accountsWithCounts);
-    } catch (error) {
+    // contact_count is kept current by a trigger on contacts, so it shows what the list sorts on
+    const rows = (accountsData || []) as Account[];
+    return { rows, count: count ?? 0 };
+  };
+  const {
+    rows: pageAccounts,
+    totalCount,
+    totalPages,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    startIndex,
+    loading,
+    error: fetchError,
+    refetch
+  } = useServerPagination<Account>({
+    queryKey: ['accounts-page', accountFilters, sortField, sortDirection],
+    fetchPage: fetchAccountsPage
+  });
+  const fetchAccounts = () => {
+    refetch();
+  };
+  useEffect(() => {
+    if (fetchError) {
       toast({
         title: "Error",
         description: "Failed to fetch accounts",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [fetchError, toast]);
+
+  // A selection of everything matching no longer applies once the filters change
+  useEffect(() => {
+    onMatchingSelectionChange?.(null);
+  }, [accountFilters, onMatchingSelectionChange]);
+
+  // Handle viewId from URL (from global search); the account may be on another page
+  const viewId = searchParams.get('viewId');
+  useEffect(() => {
+    if (!viewId) return;
+    const openAccount = async () => {
+      const accountToView = pageAccounts.find(a => a.id === viewId) ?? (await supabase.from('accounts').select('*').eq('id', viewId).maybeSingle()).data as Account | null;
+      if (accountToView) {
+        setViewingAccount(accountToView);
+        setShowDetailModal(true);
+      }
+      // Clear the viewId from URL after opening
+      setSearchParams(prev => {
+        prev.delete('viewId');
+        return prev;
+      }, {
+        replace: true
+      });
+    };
+    openAccount();
+  }, [viewId, setSearchParams, pageAccounts]);
   const handleDelete = async () => {
     if (!accountToDelete?.id) return;
     try {
@@ -319,19 +365,31 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
 
   // Bulk delete handler
   const handleBulkDelete = async () => {
-    if (selectedAccounts.length === 0) return;
+    if (selectedAccounts.length === 0 && !matchingSelection) return;
     setIsBulkDeleting(true);
     try {
-      // Check for linked entities for all selected accounts
-      const {
-        data: linkedContacts
-      } = await supabase.from('contacts').select('account_id').in('account_id', selectedAccounts);
-      const {
-        data: linkedLeads
-      } = await supabase.from('leads').select('account_id').in('account_id', selectedAccounts);
-      const accountsWithLinks = new Set([...(linkedContacts || []).map(c => c.account_id), ...(linkedLeads || []).map(l => l.account_id)]);
-      const deletableAccounts = selectedAccounts.filter(id => !accountsWithLinks.has(id));
-      const skippedCount = selectedAccounts.length - deletableAccounts.length;
+      const accountIds = matchingSelection ? (await fetchAllMatchingRows((from, to) => applyServerFilters(supabase.from('accounts').select('id'), matchingSelection.filters).order('id').range(from, to))).map(account => account.id) : selectedAccounts;
+      const deletableAccounts: string[] = [];
+      for (let i = 0; i < accountIds.length; i += BULK_DELETE_CHUNK_SIZE) {
+        const chunk = accountIds.slice(i, i + BULK_DELETE_CHUNK_SIZE);
+
+        // Check for linked entities for the selected accounts
+        const {
+          data: linkedContacts
+        } = await supabase.from('contacts').select('account_id').in('account_id', chunk);
+        const {
+          data: linkedLeads
+        } = await supabase.from('leads').select('account_id').in('account_id', chunk);
+        const accountsWithLinks = new Set([...(linkedContacts || []).map(c => c.account_id), ...(linkedLeads || []).map(l => l.account_id)]);
+        const deletable = chunk.filter(id => !accountsWithLinks.has(id));
+        if (deletable.length === 0) continue;
+        const {
+          error
+        } = await supabase.from('accounts').delete().in('id', deletable);
+        if (error) throw error;
+        deletableAccounts.push(...deletable);
+      }
+      const skippedCount = accountIds.length - deletableAccounts.length;
       if (deletableAccounts.length === 0) {
         toast({
           title: "Cannot Delete",
@@ -341,16 +399,16 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
         setIsBulkDeleting(false);
         return;
       }
-      const {
-        error
-      } = await supabase.from('accounts').delete().in('id', deletableAccounts);
-      if (error) throw error;
 
-      // Log deletions
-      for (const id of deletableAccounts) {
-        const account = accounts.find(a => a.id === id);
-        if (account) {
-          await logDelete('accounts', id, account);
+      // Log deletions; accounts selected across pages are logged together
+      if (matchingSelection) {
+        await logBulkDelete('accounts', deletableAccounts.length, deletableAccounts);
+      } else {
+        for (const id of deletableAccounts) {
+          const account = pageAccounts.find(a => a.id === id);
+          if (account) {
+            await logDelete('accounts', id, account);
+          }
         }
       }
       toast({
@@ -358,6 +416,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
         description: skippedCount > 0 ? `Deleted ${deletableAccounts.length} accounts. ${skippedCount} skipped (have linked records).` : `Deleted ${deletableAccounts.length} accounts successfully`
       });
       setSelectedAccounts([]);
+      onMatchingSelectionChange?.(null);
       fetchAccounts();
       onBulkDeleteComplete?.();
     } catch (error: any) {
@@ -371,40 +430,36 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     }
   };
   const handleSelectAll = (checked: boolean) => {
+    onMatchingSelectionChange?.(null);
     if (checked) {
-      const pageAccounts = getCurrentPageAccounts().slice(0, 50);
       setSelectedAccounts(pageAccounts.map(a => a.id));
     } else {
       setSelectedAccounts([]);
     }
   };
   const handleSelectAccount = (accountId: string, checked: boolean) => {
+    onMatchingSelectionChange?.(null);
     if (checked) {
       setSelectedAccounts(prev => [...prev, accountId]);
     } else {
       setSelectedAccounts(prev => prev.filter(id => id !== accountId));
     }
   };
-  const getCurrentPageAccounts = () => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredAccounts.slice(startIndex, startIndex + itemsPerPage);
-  };
-  const totalPages = Math.ceil(filteredAccounts.length / itemsPerPage);
 
   // Get owner IDs for display names - use account_owner instead of created_by
   const ownerIds = useMemo(() => {
-    return [...new Set(accounts.map(a => a.account_owner).filter(Boolean))];
-  }, [accounts]);
+    return [...new Set(pageAccounts.map(a => a.account_owner).filter(Boolean))];
+  }, [pageAccounts]);
   const {
     displayNames
   } = useUserDisplayNames(ownerIds);
-  const visibleColumns = localColumns.filter(col => col.visible);
-  const pageAccounts = getCurrentPageAccounts();
+  const visibleColumns = tableColumns.filter(col => col.visible);
 
   // Check if any filters are active
-  const hasActiveFilters = searchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || tagFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || tagFilter !== null || searchGroups.length > 0;
   const clearAllFilters = () => {
     setSearchTerm("");
+    setSearchGroups([]);
     setStatusFilter("all");
     setOwnerFilter("all");
     setTagFilter(null);
@@ -441,22 +496,24 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     const index = name.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0) % colors.length;
     return colors[index];
   };
+  // Account revenue is stored in the reporting currency
   const formatCurrency = (value?: number): React.ReactNode => {
     if (!value) return <span className="block text-center w-full">-</span>;
+    const converted = convert(value, reportingCurrency);
+    if (converted === null) return <MissingRateValue />;
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: displayCurrency,
       notation: 'compact',
       maximumFractionDigits: 1
-    }).format(value);
+    }).format(converted);
   };
   return <div className="flex flex-col h-full space-y-3">
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input placeholder="Search accounts..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="pl-9" inputSize="control" />
+          <div className="w-80">
+            <AdvancedSearchBar fields={advancedSearchFields} onSearch={setSearchGroups} activeGroups={searchGroups} placeholder="Search accounts..." simpleSearch={searchTerm} onSimpleSearchChange={setSearchTerm} />
           </div>
           <AccountStatusFilter value={statusFilter} onValueChange={setStatusFilter} />
           <Select value={ownerFilter} onValueChange={setOwnerFilter}>
@@ -495,6 +552,11 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
         </div>
       </div>
 
+      <SelectAllMatchingBanner selectedCount={selectedAccounts.length} pageCount={pageAccounts.length} totalCount={totalCount} allMatchingSelected={!!matchingSelection} itemType="accounts" onSelectAllMatching={() => onMatchingSelectionChange?.({
+      count: totalCount,
+      filters: accountFilters
+    })} onClearSelection={() => handleSelectAll(false)} />
+
       {/* Table */}
       <Card className="flex-1 min-h-0 flex flex-col">
         <div className="relative overflow-auto flex-1">
@@ -503,7 +565,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
               <TableRow className="sticky top-0 z-20 bg-muted border-b-2">
                 <TableHead className="w-12 text-center font-bold text-foreground">
                   <div className="flex justify-center">
-                    <Checkbox checked={selectedAccounts.length > 0 && selectedAccounts.length === Math.min(pageAccounts.length, 50)} onCheckedChange={handleSelectAll} />
+                    <Checkbox checked={!!matchingSelection || pageAccounts.length > 0 && pageAccounts.every(a => selectedAccounts.includes(a.id))} onCheckedChange={handleSelectAll} />
                   </div>
                 </TableHead>
                 {visibleColumns.map(column => <TableHead key={column.field} className="text-left font-bold text-foreground px-4 py-3 whitespace-nowrap">
@@ -532,10 +594,10 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                         </Button>}
                     </div>
                   </TableCell>
-                </TableRow> : pageAccounts.map(account => <TableRow key={account.id} className="hover:bg-muted/20 border-b group" data-state={selectedAccounts.includes(account.id) ? "selected" : undefined}>
+                </TableRow> : pageAccounts.map(account => <TableRow key={account.id} className="hover:bg-muted/20 border-b group" data-state={matchingSelection || selectedAccounts.includes(account.id) ? "selected" : undefined}>
                     <TableCell className="text-center px-4 py-3">
                       <div className="flex justify-center">
-                        <Checkbox checked={selectedAccounts.includes(account.id)} onCheckedChange={checked => handleSelectAccount(account.id, checked as boolean)} />
+                        <Checkbox checked={!!matchingSelection || selectedAccounts.includes(account.id)} onCheckedChange={checked => handleSelectAccount(account.id, checked as boolean)} />
                       </div>
                     </TableCell>
                     {visibleColumns.map(column => <TableCell key={column.field} className="text-left px-4 py-3 align-middle whitespace-nowrap overflow-hidden text-ellipsis max-w-[200px]">
@@ -546,7 +608,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                               <HighlightedText text={account.company_name} highlight={searchTerm} />
                             </button> : column.field === 'account_owner' ? <span className="truncate block">
                             {account.account_owner ? displayNames[account.account_owner] || "Loading..." : <span className="block text-center w-full">-</span>}
-                          </span> : column.field === 'status' ? (account.status ? <Badge variant="outline" className={`whitespace-nowrap ${getStatusBadgeClasses(account.status)}`}>
+                          </span> : column.field === 'status' ? (account.status ? <Badge variant="outline" className={`whitespace-nowrap ${getStatusBadgeClasses(account.status)}`} style={getPicklistBadgeStyle(getStatusColor(account.status))}>
                             {account.status}
                           </Badge> : <span className="block text-center w-full">-</span>) : column.field === 'score' ? <span className={`font-medium text-center block w-full ${(account.score || 0) >= 70 ? 'text-green-600 dark:text-green-400' : (account.score || 0) >= 40 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}`}>
                             {account.score ?? '-'}
@@ -579,7 +641,9 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                             <span className="truncate max-w-[150px]">
                               {account.website.replace(/^https?:\/\//, '')}
                             </span>
-                          </a> : <span className="block text-center w-full">-</span>) : column.field === 'industry' ? <HighlightedText text={account.industry} highlight={searchTerm} /> : column.field === 'country' ? <HighlightedText text={account.country} highlight={searchTerm} /> : column.field === 'email' ? <HighlightedText text={account.email} highlight={searchTerm} className="text-center" /> : <span title={account[column.field as keyof Account]?.toString() || '-'} className="truncate block text-center">
+                          </a> : <span className="block text-center w-full">-</span>) : column.field === 'industry' ? <HighlightedText text={account.industry} highlight={searchTerm} /> : column.field === 'country' ? <HighlightedText text={account.country} highlight={searchTerm} /> : column.field === 'email' ? <HighlightedText text={account.email} highlight={searchTerm} className="text-center" /> : getCustomFieldName(column.field) ? <span className="truncate block text-center">
+                            {formatCustomFieldColumn(customFields, account, column.field) || '-'}
+                          </span> : <span title={account[column.field as keyof Account]?.toString() || '-'} className="truncate block text-center">
                             {account[column.field as keyof Account]?.toString() || <span className="block text-center w-full">-</span>}
                           </span>}
                       </TableCell>)}
@@ -632,7 +696,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       {totalPages > 0 && <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">
-              Showing {filteredAccounts.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredAccounts.length)} of {filteredAccounts.length} accounts
+              Showing {totalCount === 0 ? 0 : startIndex + 1} to {Math.min(startIndex + itemsPerPage, totalCount)} of {totalCount} accounts
             </span>
           </div>
           <div className="flex items-center gap-2">
@@ -659,7 +723,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       setEditingAccount(null);
     }} />
 
-      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} />
+      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={tableColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} />
 
       <AccountDeleteConfirmDialog open={showDeleteDialog} onConfirm={handleDelete} onCancel={() => {
       setShowDeleteDialog(false);
@@ -1,17 +1,10 @@
 import { 
-  Home, 
-  Users, 
-  UserPlus, 
-  BarChart3, 
-  Settings,
   LogOut,
   ChevronLeft,
   ChevronRight,
   Bell,
   Sun,
-  Moon,
-  Building2,
-  CheckSquare
+  Moon
 } from "lucide-react";
 import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
@@ -34,18 +27,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
-import { Video } from "lucide-react";
-
-const allMenuItems = [
-  { title: "Dashboard", url: "/dashboard", route: "/dashboard", icon: Home },
-  { title: "Accounts", url: "/accounts", route: "/accounts", icon: Building2 },
-  { title: "Contacts", url: "/contacts", route: "/contacts", icon: Users },
-  { title: "Leads", url: "/leads", route: "/leads", icon: UserPlus },
-  { title: "Meetings", url: "/meetings", route: "/meetings", icon: Video },
-  { title: "Deals", url: "/deals", route: "/deals", icon: BarChart3 },
-  { title: "Tasks", url: "/tasks", route: "/tasks", icon: CheckSquare },
-  { title: "Settings", url: "/settings", route: "/settings", icon: Settings },
-];
+import { allMenuItems } from "@/components/menuItems";
 
 interface AppSidebarProps {
   isFixed?: boolean;
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
@@ -11,6 +11,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Mail, Send, Loader2, Users, X } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { buildRecipientContext, loadTemplateContext, useTemplateContext } from "@/hooks/useTemplateContext";
+import { findEmptyVariables, hasTemplateIssues, renderTemplate, validateTemplate } from "@/utils/emailTemplateEngine";
+import { TemplateIssuesWarning } from "@/components/shared/TemplateIssuesWarning";
 
 export interface BulkEmailRecipient {
   id: string;
@@ -49,6 +52,19 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
   const validRecipients = recipients.filter(r => r.email);
   const invalidRecipients = recipients.filter(r => !r.email);
 
+  // The first recipient stands in for everyone in the preview
+  const previewRecipient = validRecipients[0];
+  const usesMergeFields = `${subject}${body}`.includes('{{');
+  const { data: previewContext, isLoading: previewLoading } = useTemplateContext(
+    open && usesMergeFields && previewRecipient ? { type: previewRecipient.type, id: previewRecipient.id } : null,
+    user?.id
+  );
+  const validation = useMemo(() => validateTemplate(subject, body), [subject, body]);
+  const emptyVariables = useMemo(
+    () => (previewContext ? findEmptyVariables(previewContext, subject, body) : []),
+    [previewContext, subject, body]
+  );
+
   useEffect(() => {
     if (open) {
       fetchTemplates();
@@ -89,10 +105,13 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     }
   };
 
-  const replaceVariables = (text: string, recipient: BulkEmailRecipient) => {
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipient.name || '')
-      .replace(/\{\{name\}\}/g, recipient.name || '');
+  const loadRecipientContext = async (recipient: BulkEmailRecipient) => {
+    try {
+      return await loadTemplateContext({ type: recipient.type, id: recipient.id }, user?.id);
+    } catch (error) {
+      console.error(`Failed to load merge fields for ${recipient.email}:`, error);
+      return buildRecipientContext(recipient, { email: senderEmail });
+    }
   };
 
   const handleSendBulkEmail = async () => {
@@ -122,8 +141,9 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
 
     for (const recipient of validRecipients) {
       try {
-        const personalizedSubject = replaceVariables(subject.trim(), recipient);
-        const personalizedBody = replaceVariables(body.trim(), recipient);
+        const context = usesMergeFields ? await loadRecipientContext(recipient) : {};
+        const personalizedSubject = renderTemplate(subject.trim(), context, { escape: false });
+        const personalizedBody = renderTemplate(body.trim(), context);
 
         const { data, error } = await supabase.functions.invoke('send-email', {
           body: {
@@ -228,7 +248,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              Use {"{{name}}"} or {"{{contact_name}}"} to personalize each email.
+              Merge fields such as {'{{first_name | default: "there"}}'} or {"{{account.company_name}}"} are filled in for each recipient.
             </p>
           </div>
 
@@ -253,6 +273,24 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             />
           </div>
 
+          {usesMergeFields && previewRecipient && (
+            <div className="space-y-2">
+              <Label>Preview for {previewRecipient.name}</Label>
+              {previewLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading merge fields...
+                </div>
+              ) : (
+                <div className="rounded-lg border p-3 space-y-2">
+                  <p className="text-sm font-medium">{renderTemplate(subject.trim(), previewContext || {}, { escape: false }) || "(no subject)"}</p>
+                  <p className="text-sm whitespace-pre-wrap text-muted-foreground">{renderTemplate(body.trim(), previewContext || {}, { escape: false })}</p>
+                </div>
+              )}
+              <TemplateIssuesWarning validation={validation} emptyVariables={emptyVariables} />
+            </div>
+          )}
+
           {isSending && (
             <div className="p-3 bg-muted/50 rounded-lg">
               <div className="flex items-center justify-between mb-2">
@@ -287,7 +325,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               ) : (
                 <>
                   <Send className="h-4 w-4" />
-                  Send to {validRecipients.length} Recipients
+                  {hasTemplateIssues(validation) ? "Send Anyway" : `Send to ${validRecipients.length} Recipients`}
                 </>
               )}
             </Button>
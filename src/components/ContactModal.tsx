@@ -14,6 +14,11 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { X, ChevronDown } from "lucide-react";
+import { CustomFieldsSection } from "@/components/shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { getCustomFieldValues, validateCustomFieldValues } from "@/utils/customFieldUtils";
+import { CustomFieldValues } from "@/types/customField";
+import { usePicklist } from "@/hooks/usePicklists";
 
 const contactSchema = z.object({
   contact_name: z.string()
@@ -46,6 +51,7 @@ interface Contact {
   region?: string;
   description?: string;
   tags?: string[];
+  custom_fields?: unknown;
 }
 
 interface Account {
@@ -60,18 +66,6 @@ interface ContactModalProps {
   onSuccess: () => void;
 }
 
-const contactSources = [
-  "Website",
-  "Referral",
-  "LinkedIn",
-  "Cold Call",
-  "Trade Show",
-  "Email Campaign",
-  "Social Media",
-  "Partner",
-  "Other"
-];
-
 const tagOptions = [
   "AUTOSAR", "Adaptive AUTOSAR", "Embedded Systems", "BSW", "ECU", "Zone Controller",
   "HCP", "CI/CD", "V&V Testing", "Integration", "Software Architecture", "LINUX",
@@ -86,6 +80,10 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const { fields: customFields } = useCustomFields('contact');
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [customErrors, setCustomErrors] = useState<Record<string, string>>({});
+  const contactSources = usePicklist('contact_source');
 
   const toggleTag = (tag: string) => {
     setSelectedTags(prev => 
@@ -138,6 +136,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         description: contact.description || "",
       });
       setSelectedTags(contact.tags || []);
+      setCustomValues(getCustomFieldValues(contact));
     } else {
       form.reset({
         contact_name: "",
@@ -150,10 +149,16 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         description: "",
       });
       setSelectedTags([]);
+      setCustomValues({});
     }
+    setCustomErrors({});
   }, [contact, form]);
 
   const onSubmit = async (data: ContactFormData) => {
+    const errors = validateCustomFieldValues(customFields, customValues);
+    setCustomErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -181,6 +186,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         contact_source: data.contact_source || null,
         description: data.description || null,
         tags: selectedTags,
+        custom_fields: customValues,
         created_by: user.data.user.id,
         modified_by: user.data.user.id,
         contact_owner: user.data.user.id,
@@ -373,7 +379,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {contactSources.map((source) => (
+                        {contactSources.getOptions(field.value).map((source) => (
                           <SelectItem key={source} value={source}>
                             {source}
                           </SelectItem>
@@ -437,6 +443,13 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              fields={customFields}
+              values={customValues}
+              errors={customErrors}
+              onChange={setCustomValues}
+            />
+
             <FormField
               control={form.control}
               name="description"
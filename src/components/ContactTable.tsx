@@ -8,22 +8,29 @@ import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye, User, CalendarPlus } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye, User, CalendarPlus, ListOrdered } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail, UserPlus } from "./RowActionsDropdown";
 import { ContactModal } from "./ContactModal";
 import { ContactColumnCustomizer, ContactColumnConfig, defaultContactColumns } from "./ContactColumnCustomizer";
 import { ContactDetailModal } from "./contacts/ContactDetailModal";
 import { AccountViewModal } from "./AccountViewModal";
 import { SendEmailModal } from "./SendEmailModal";
+import { EnrollInSequenceModal } from "./EnrollInSequenceModal";
 import { MeetingModal } from "./MeetingModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePicklist } from "@/hooks/usePicklists";
+import { formatCustomFieldColumn, getCustomFieldName, toCustomFieldSearchFields, withCustomFieldColumns } from "@/utils/customFieldUtils";
+import { MATCH_ALL_FILTER, MatchingSelection, ServerFilter, advancedSearchFilter, applyServerFilters, applyServerSort, arrayContainsFilter, eqFilter, iEqFilter, searchFilter } from "@/utils/serverQueryUtils";
+import { useServerPagination } from "@/hooks/useServerPagination";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useQuery } from "@tanstack/react-query";
 
@@ -65,6 +72,7 @@ interface Contact {
   email_clicks?: number;
   engagement_score?: number;
   last_contacted_at?: string;
+  custom_fields?: unknown;
 }
 
 interface ContactTableProps {
@@ -76,10 +84,31 @@ interface ContactTableProps {
   setSelectedContacts: React.Dispatch<React.SetStateAction<string[]>>;
   refreshTrigger?: number;
   onBulkDeleteComplete?: () => void;
+  matchingSelection?: MatchingSelection | null;
+  onMatchingSelectionChange?: (selection: MatchingSelection | null) => void;
 }
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+// Searched by the search box; tags match a whole tag
+const CONTACT_TEXT_SEARCH_COLUMNS = [
+  'contact_name', 'company_name', 'email', 'phone_no', 'linkedin', 'website',
+  'industry', 'region', 'description', 'position',
+];
+
+// Fields offered in the advanced search, ahead of the custom ones
+const CONTACT_SEARCH_FIELDS = [
+  { value: 'contact_name', label: 'Contact Name' },
+  { value: 'company_name', label: 'Company Name' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'region', label: 'Region' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'segment', label: 'Segment' },
+];
+
 export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   showColumnCustomizer,
   setShowColumnCustomizer,
@@ -88,16 +117,16 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   selectedContacts,
   setSelectedContacts,
   refreshTrigger,
-  onBulkDeleteComplete
+  onBulkDeleteComplete,
+  matchingSelection = null,
+  onMatchingSelectionChange
 }, ref) => {
   const { toast } = useToast();
   const { logDelete, logBulkDelete } = useCRUDAudit();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [contacts, setContacts] = useState<Contact[]>([]);
-  const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
   // Column preferences hook
@@ -112,6 +141,12 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     setLocalColumns(columns);
   }, [columns]);
 
+  const { fields: customFields } = useCustomFields('contact');
+  const { options: sourceOptions } = usePicklist('contact_source');
+  const { options: segmentOptions } = usePicklist('segment');
+  const tableColumns = useMemo(() => withCustomFieldColumns(localColumns, customFields), [localColumns, customFields]);
+  const advancedSearchFields = useMemo(() => [...CONTACT_SEARCH_FIELDS, ...toCustomFieldSearchFields(customFields)], [customFields]);
+
   // Debounce search
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -162,24 +197,6 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [contactToDelete, setContactToDelete] = useState<string | null>(null);
   
-  // Handle viewId from URL (from global search)
-  const viewId = searchParams.get('viewId');
-  useEffect(() => {
-    if (viewId && contacts.length > 0) {
-      const contactToView = contacts.find(c => c.id === viewId);
-      if (contactToView) {
-        setViewingContact(contactToView);
-        setShowDetailModal(true);
-        // Clear the viewId from URL after opening
-        setSearchParams(prev => {
-          prev.delete('viewId');
-          return prev;
-        }, { replace: true });
-      }
-    }
-  }, [viewId, contacts, setSearchParams]);
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(25);
   const [sortField, setSortField] = useState<string | null>(null);
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
@@ -189,13 +206,14 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const [accountViewOpen, setAccountViewOpen] = useState(false);
   const [emailContact, setEmailContact] = useState<Contact | null>(null);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
+  const [sequenceContactId, setSequenceContactId] = useState<string | null>(null);
   const [meetingModalOpen, setMeetingModalOpen] = useState(false);
   const [meetingContact, setMeetingContact] = useState<Contact | null>(null);
 
   // Expose handleBulkDelete to parent via ref
   useImperativeHandle(ref, () => ({
     handleBulkDelete
-  }), [selectedContacts, contacts]);
+  }), [selectedContacts, matchingSelection]);
 
   // Fetch all profiles for owner dropdown
   const { data: allProfiles = [] } = useQuery({
@@ -206,46 +224,81 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     },
   });
 
-  const fetchContacts = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('contacts')
-        .select(`
-          *,
-          accounts:account_id (
-            company_name,
-            industry,
-            region
-          )
-        `)
-        .order('created_time', { ascending: false });
+  // Filters run in the database; the table only loads the page on screen
+  const contactFilters = useMemo(() => {
+    const filters: ServerFilter[] = [];
+    if (debouncedSearchTerm.trim()) {
+      filters.push(searchFilter(debouncedSearchTerm, CONTACT_TEXT_SEARCH_COLUMNS, ['tags']));
+    }
+    if (sourceFilter && sourceFilter !== "all") filters.push(iEqFilter('contact_source', sourceFilter));
+    if (ownerFilter && ownerFilter !== "all") filters.push(eqFilter('contact_owner', ownerFilter));
+    if (segmentFilter && segmentFilter !== "all") filters.push(iEqFilter('segment', segmentFilter));
+    if (tagFilter) filters.push(arrayContainsFilter('tags', tagFilter));
+    const advanced = advancedSearchFilter(searchGroups);
+    if (advanced) filters.push(advanced);
+    return filters;
+  }, [debouncedSearchTerm, sourceFilter, ownerFilter, segmentFilter, tagFilter, searchGroups]);
+
+  const fetchContactsPage = async (from: number, to: number) => {
+    let query = supabase
+      .from('contacts')
+      .select(`
+        *,
+        accounts:account_id (
+          company_name,
+          industry,
+          region
+        )
+      `, { count: 'exact' });
+    query = applyServerFilters(query, contactFilters);
+    query = sortField
+      ? applyServerSort(query, sortField, sortDirection === 'asc')
+      : query.order('created_time', { ascending: false }).order('id');
+
+    const { data, error, count } = await query.range(from, to);
+    if (error) throw error;
+
+    // Transform data to include account fields
+    const rows = (data || []).map(contact => ({
+      ...contact,
+      account_company_name: contact.accounts?.company_name || contact.company_name || null,
+      account_industry: contact.accounts?.industry,
+      account_region: contact.accounts?.region,
+    })) as Contact[];
+
+    return { rows, count: count ?? 0 };
+  };
 
-      if (error) throw error;
+  const {
+    rows: pageContacts,
+    totalCount,
+    totalPages,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    startIndex,
+    loading,
+    error: fetchError,
+    refetch,
+  } = useServerPagination<Contact>({
+    queryKey: ['contacts-page', contactFilters, sortField, sortDirection],
+    fetchPage: fetchContactsPage,
+  });
 
-      // Transform data to include account fields
-      const transformedData = (data || []).map(contact => ({
-        ...contact,
-        account_company_name: contact.accounts?.company_name || contact.company_name || null,
-        account_industry: contact.accounts?.industry,
-        account_region: contact.accounts?.region,
-      }));
+  const fetchContacts = () => {
+    refetch();
+  };
 
-      setContacts(transformedData);
-    } catch (error) {
+  useEffect(() => {
+    if (fetchError) {
       toast({
         title: "Error",
         description: "Failed to fetch contacts. Please refresh the page.",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
-  };
-
-  useEffect(() => {
-    fetchContacts();
-  }, []);
+  }, [fetchError, toast]);
 
   useEffect(() => {
     if (refreshTrigger && refreshTrigger > 0) {
@@ -253,64 +306,30 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     }
   }, [refreshTrigger]);
 
-  // Filter and sort contacts
+  // A selection of everything matching no longer applies once the filters change
   useEffect(() => {
-    const searchLower = debouncedSearchTerm.toLowerCase();
-    let filtered = contacts.filter(contact =>
-      contact.contact_name?.toLowerCase().includes(searchLower) ||
-      contact.company_name?.toLowerCase().includes(searchLower) ||
-      contact.account_company_name?.toLowerCase().includes(searchLower) ||
-      contact.email?.toLowerCase().includes(searchLower) ||
-      contact.phone_no?.toLowerCase().includes(searchLower) ||
-      contact.linkedin?.toLowerCase().includes(searchLower) ||
-      contact.website?.toLowerCase().includes(searchLower) ||
-      contact.industry?.toLowerCase().includes(searchLower) ||
-      contact.region?.toLowerCase().includes(searchLower) ||
-      contact.description?.toLowerCase().includes(searchLower) ||
-      contact.position?.toLowerCase().includes(searchLower) ||
-      contact.tags?.some(tag => tag.toLowerCase().includes(searchLower))
-    );
-
-    // Apply source filter
-    if (sourceFilter && sourceFilter !== "all") {
-      filtered = filtered.filter(contact =>
-        contact.contact_source?.toLowerCase() === sourceFilter.toLowerCase()
-      );
-    }
-
-    // Apply owner filter
-    if (ownerFilter && ownerFilter !== "all") {
-      filtered = filtered.filter(contact => contact.contact_owner === ownerFilter);
-    }
-
-    // Apply segment filter
-    if (segmentFilter && segmentFilter !== "all") {
-      filtered = filtered.filter(contact => contact.segment === segmentFilter);
-    }
-
-    // Apply tag filter
-    if (tagFilter) {
-      filtered = filtered.filter(contact => contact.tags?.includes(tagFilter));
-    }
-
-    // Apply sorting
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Contact] || '';
-        const bValue = b[sortField as keyof Contact] || '';
-
-        if (typeof aValue === 'number' && typeof bValue === 'number') {
-          return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-        }
-
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
-    }
+    onMatchingSelectionChange?.(null);
+  }, [contactFilters, onMatchingSelectionChange]);
 
-    setFilteredContacts(filtered);
-    setCurrentPage(1);
-  }, [contacts, debouncedSearchTerm, sourceFilter, ownerFilter, segmentFilter, tagFilter, sortField, sortDirection]);
+  // Handle viewId from URL (from global search); the contact may be on another page
+  const viewId = searchParams.get('viewId');
+  useEffect(() => {
+    if (!viewId) return;
+    const openContact = async () => {
+      const contactToView = pageContacts.find(c => c.id === viewId)
+        ?? (await supabase.from('contacts').select('*').eq('id', viewId).maybeSingle()).data as Contact | null;
+      if (contactToView) {
+        setViewingContact(contactToView);
+        setShowDetailModal(true);
+      }
+      // Clear the viewId from URL after opening
+      setSearchParams(prev => {
+        prev.delete('viewId');
+        return prev;
+      }, { replace: true });
+    };
+    openContact();
+  }, [viewId, setSearchParams, pageContacts]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -330,7 +349,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
 
   const handleDelete = async (id: string) => {
     try {
-      const contactToDelete = contacts.find(c => c.id === id);
+      const contactToDelete = pageContacts.find(c => c.id === id);
 
       const { error } = await supabase
         .from('contacts')
@@ -358,25 +377,28 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
 
   // Bulk delete handler
   const handleBulkDelete = async () => {
-    if (selectedContacts.length === 0) return;
+    if (selectedContacts.length === 0 && !matchingSelection) return;
 
     setIsBulkDeleting(true);
     try {
-      const { error } = await supabase
-        .from('contacts')
-        .delete()
-        .in('id', selectedContacts);
+      const deleteQuery = supabase.from('contacts').delete();
+      const { data, error } = await (matchingSelection
+        ? applyServerFilters(deleteQuery, [MATCH_ALL_FILTER, ...matchingSelection.filters])
+        : deleteQuery.in('id', selectedContacts)
+      ).select('id');
 
       if (error) throw error;
 
-      await logBulkDelete('contacts', selectedContacts.length, selectedContacts);
+      const deletedIds = (data || []).map(row => row.id);
+      await logBulkDelete('contacts', deletedIds.length, deletedIds);
 
       toast({
         title: "Success",
-        description: `Deleted ${selectedContacts.length} contacts successfully`
+        description: `Deleted ${deletedIds.length} contacts successfully`
       });
 
       setSelectedContacts([]);
+      onMatchingSelectionChange?.(null);
       fetchContacts();
       onBulkDeleteComplete?.();
     } catch (error: any) {
@@ -433,15 +455,16 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   };
 
   const handleSelectAll = (checked: boolean) => {
+    onMatchingSelectionChange?.(null);
     if (checked) {
-      const pageContactIds = pageContacts.slice(0, 50).map(c => c.id);
-      setSelectedContacts(pageContactIds);
+      setSelectedContacts(pageContacts.map(c => c.id));
     } else {
       setSelectedContacts([]);
     }
   };
 
   const handleSelectContact = (contactId: string, checked: boolean) => {
+    onMatchingSelectionChange?.(null);
     if (checked) {
       setSelectedContacts(prev => [...prev, contactId]);
     } else {
@@ -459,26 +482,24 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     setShowDetailModal(true);
   };
 
-  const visibleColumns = localColumns.filter(col => col.visible);
-  const totalPages = Math.ceil(filteredContacts.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const pageContacts = filteredContacts.slice(startIndex, startIndex + itemsPerPage);
+  const visibleColumns = tableColumns.filter(col => col.visible);
 
   // Get owner IDs for display names
   const ownerIds = useMemo(() => {
     return [...new Set([
-      ...contacts.map(c => c.contact_owner).filter(Boolean),
-      ...contacts.map(c => c.created_by).filter(Boolean)
+      ...pageContacts.map(c => c.contact_owner).filter(Boolean),
+      ...pageContacts.map(c => c.created_by).filter(Boolean)
     ])];
-  }, [contacts]);
+  }, [pageContacts]);
 
   const { displayNames } = useUserDisplayNames(ownerIds);
 
   // Check if any filters are active
-  const hasActiveFilters = debouncedSearchTerm !== "" || sourceFilter !== "all" || ownerFilter !== "all" || segmentFilter !== "all" || tagFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || sourceFilter !== "all" || ownerFilter !== "all" || segmentFilter !== "all" || tagFilter !== null || searchGroups.length > 0;
 
   const clearAllFilters = () => {
     setSearchTerm("");
+    setSearchGroups([]);
     setSourceFilter("all");
     setOwnerFilter("all");
     setSegmentFilter("all");
@@ -512,7 +533,10 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       if (!contact.created_by) return '-';
       return displayNames[contact.created_by] || "Loading...";
     }
-    return contact[columnField as keyof Contact] || '-';
+    if (getCustomFieldName(columnField)) {
+      return formatCustomFieldColumn(customFields, contact, columnField) || '-';
+    }
+    return (contact[columnField as keyof Contact] as React.ReactNode) || '-';
   };
 
   return (
@@ -520,14 +544,14 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input
+          <div className="w-80">
+            <AdvancedSearchBar
+              fields={advancedSearchFields}
+              onSearch={setSearchGroups}
+              activeGroups={searchGroups}
               placeholder="Search contacts..."
-              value={searchTerm}
-              onChange={e => setSearchTerm(e.target.value)}
-              className="pl-9"
-              inputSize="control"
+              simpleSearch={searchTerm}
+              onSimpleSearchChange={setSearchTerm}
             />
           </div>
 
@@ -537,15 +561,9 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Sources</SelectItem>
-              <SelectItem value="Website">Website</SelectItem>
-              <SelectItem value="Referral">Referral</SelectItem>
-              <SelectItem value="LinkedIn">LinkedIn</SelectItem>
-              <SelectItem value="Cold Call">Cold Call</SelectItem>
-              <SelectItem value="Trade Show">Trade Show</SelectItem>
-              <SelectItem value="Email Campaign">Email Campaign</SelectItem>
-              <SelectItem value="Social Media">Social Media</SelectItem>
-              <SelectItem value="Partner">Partner</SelectItem>
-              <SelectItem value="Other">Other</SelectItem>
+              {sourceOptions.map(source => (
+                <SelectItem key={source} value={source}>{source}</SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
@@ -569,10 +587,11 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Segments</SelectItem>
-              <SelectItem value="prospect">Prospect</SelectItem>
-              <SelectItem value="customer">Customer</SelectItem>
-              <SelectItem value="partner">Partner</SelectItem>
-              <SelectItem value="vendor">Vendor</SelectItem>
+              {segmentOptions.map(segment => (
+                <SelectItem key={segment} value={segment}>
+                  {segment.charAt(0).toUpperCase() + segment.slice(1)}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
 
@@ -604,6 +623,16 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         </div>
       </div>
 
+      <SelectAllMatchingBanner
+        selectedCount={selectedContacts.length}
+        pageCount={pageContacts.length}
+        totalCount={totalCount}
+        allMatchingSelected={!!matchingSelection}
+        itemType="contacts"
+        onSelectAllMatching={() => onMatchingSelectionChange?.({ count: totalCount, filters: contactFilters })}
+        onClearSelection={() => handleSelectAll(false)}
+      />
+
       {/* Table */}
       <Card className="flex-1 min-h-0 flex flex-col">
         <div className="relative overflow-auto flex-1">
@@ -613,7 +642,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                 <TableHead className="w-12 text-center font-bold text-foreground">
                   <div className="flex justify-center">
                     <Checkbox
-                      checked={selectedContacts.length > 0 && selectedContacts.length === Math.min(pageContacts.length, 50)}
+                      checked={!!matchingSelection || (pageContacts.length > 0 && pageContacts.every(c => selectedContacts.includes(c.id)))}
                       onCheckedChange={handleSelectAll}
                     />
                   </div>
@@ -663,12 +692,12 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                   <TableRow
                     key={contact.id}
                     className="hover:bg-muted/20 border-b group"
-                    data-state={selectedContacts.includes(contact.id) ? "selected" : undefined}
+                    data-state={matchingSelection || selectedContacts.includes(contact.id) ? "selected" : undefined}
                   >
                     <TableCell className="text-center px-4 py-3">
                       <div className="flex justify-center">
                         <Checkbox
-                          checked={selectedContacts.includes(contact.id)}
+                          checked={!!matchingSelection || selectedContacts.includes(contact.id)}
                           onCheckedChange={checked => handleSelectContact(contact.id, checked as boolean)}
                         />
                       </div>
@@ -810,6 +839,12 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                               },
                               disabled: !contact.email
                             },
+                            {
+                              label: "Enroll in Sequence",
+                              icon: <ListOrdered className="w-4 h-4" />,
+                              onClick: () => setSequenceContactId(contact.id),
+                              disabled: !contact.email
+                            },
                             {
                               label: "Create Meeting",
                               icon: <CalendarPlus className="w-4 h-4" />,
@@ -851,7 +886,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">
-              Showing {filteredContacts.length === 0 ? 0 : startIndex + 1} to {Math.min(startIndex + itemsPerPage, filteredContacts.length)} of {filteredContacts.length} contacts
+              Showing {totalCount === 0 ? 0 : startIndex + 1} to {Math.min(startIndex + itemsPerPage, totalCount)} of {totalCount} contacts
             </span>
           </div>
           <div className="flex items-center gap-2">
@@ -909,7 +944,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       <ContactColumnCustomizer
         open={showColumnCustomizer}
         onOpenChange={setShowColumnCustomizer}
-        columns={localColumns}
+        columns={tableColumns}
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSaving}
@@ -956,6 +991,13 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         onEmailSent={fetchContacts}
       />
 
+      <EnrollInSequenceModal
+        open={!!sequenceContactId}
+        onOpenChange={(open) => !open && setSequenceContactId(null)}
+        recordType="contact"
+        recordIds={sequenceContactId ? [sequenceContactId] : []}
+      />
+
       {/* Meeting Modal */}
       <MeetingModal
         open={meetingModalOpen}
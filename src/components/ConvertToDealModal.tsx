@@ -13,6 +13,7 @@ interface Lead {
   id: string;
   lead_name: string;
   company_name?: string;
+  account_id?: string | null;
   country?: string;
   contact_owner?: string;
   created_by?: string;
@@ -57,6 +58,7 @@ export const ConvertToDealModal = ({ open, onOpenChange, lead, onSuccess }: Conv
         project_name: dealData.project_name || '',
         customer_name: dealData.customer_name || lead.company_name || '',
         lead_name: dealData.lead_name || lead.lead_name,
+        ...((dealData.account_id || lead.account_id) && { account_id: dealData.account_id || lead.account_id }),
         lead_owner: dealData.lead_owner || leadOwnerDisplayName,
         region: dealData.region || lead.country || '',
         priority: dealData.priority || 3,
@@ -3,7 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Deal, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { format } from "date-fns";
 import { Trash2, XCircle } from "lucide-react";
 
@@ -15,6 +15,7 @@ interface DealCardProps {
   selectionMode?: boolean;
   onDelete?: (dealId: string) => void;
   onStageChange?: (dealId: string, newStage: any) => void;
+  dropStage?: DealStage;
 }
 
 export const DealCard = ({ 
@@ -24,7 +25,8 @@ export const DealCard = ({
   isSelected, 
   selectionMode, 
   onDelete, 
-  onStageChange 
+  onStageChange,
+  dropStage
 }: DealCardProps) => {
   const formatCurrency = (amount: number, currency: string = 'EUR') => {
     const symbols = { USD: '$', EUR: '€', INR: '₹' };
@@ -33,8 +35,8 @@ export const DealCard = ({
 
   const handleMoveToDropped = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onStageChange) {
-      onStageChange(deal.id, 'Dropped');
+    if (onStageChange && dropStage) {
+      onStageChange(deal.id, dropStage);
     }
   };
 
@@ -53,13 +55,13 @@ export const DealCard = ({
             {deal.project_name || 'Untitled Deal'}
           </CardTitle>
           <div className="flex items-center gap-1">
-            {!selectionMode && deal.stage === 'Offered' && onStageChange && (
+            {!selectionMode && dropStage && onStageChange && (
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={handleMoveToDropped}
                 className="opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 h-6 w-6 bg-amber-50 hover:bg-amber-100 text-amber-700"
-                title="Move to Dropped"
+                title={`Move to ${dropStage}`}
               >
                 <XCircle className="w-3 h-3" />
               </Button>
@@ -4,14 +4,20 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Deal, DealStage, getNextStage, getFinalStageOptions, getStageIndex, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { useToast } from "@/hooks/use-toast";
-import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum } from "./deal-form/validation";
+import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum, getMissingRequiredFields, parseStageGateError } from "./deal-form/validation";
+import { getDealFieldLabel } from "./deal-form/fieldLabels";
 import { DealStageForm } from "./deal-form/DealStageForm";
 import { TaskModal } from "./tasks/TaskModal";
 import { useTasks } from "@/hooks/useTasks";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { formatCurrency } from "@/utils/formatUtils";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
+import { customFieldKey, getCustomFieldValues, validateCustomFieldValues } from "@/utils/customFieldUtils";
 
 interface DealFormProps {
   deal: Deal | null;
@@ -29,9 +35,12 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   const [showPreviousStages, setShowPreviousStages] = useState(false);
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [showValidationErrors, setShowValidationErrors] = useState(false);
+  const [customErrors, setCustomErrors] = useState<Record<string, string>>({});
+  const { fields: customFields } = useCustomFields('deal');
   const [taskModalOpen, setTaskModalOpen] = useState(false);
   const { toast } = useToast();
   const { createTask } = useTasks();
+  const { allStages, stageNames, openStageNames, getNextStage, getDefaultProbability, getProbabilityForStageChange, getFormFields } = usePipelineStages();
 
   // NEW: Track current user id for default Lead Owner
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -87,6 +96,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       // Set default values for new deals
       const defaultData: Partial<Deal> = {
         stage: initialStage,
+        probability: getDefaultProbability(initialStage),
         currency_type: 'EUR', // Default to EUR
         quarterly_revenue_q1: 0,
         quarterly_revenue_q2: 0,
@@ -97,14 +107,59 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       setShowValidationErrors(false);
     }
     setShowPreviousStages(false);
-  }, [deal, isCreating, initialStage, isOpen]);
+    setFieldErrors({});
+    setCustomErrors({});
+  }, [deal, isCreating, initialStage, isOpen, getDefaultProbability]);
+
+  const currentStage = formData.stage || openStageNames[0] || 'Lead';
 
-  const currentStage = formData.stage || 'Lead';
+  // Custom fields placed on a stage form are edited there instead of in the custom fields section
+  const stageFormFields = new Set(allStages.flatMap(stage => getFormFields(stage.stage_name)));
+  const sectionCustomFields = customFields.filter(field => !stageFormFields.has(customFieldKey(field.field_name)));
+  const stageFieldErrors = {
+    ...Object.fromEntries(Object.entries(customErrors).map(([fieldName, error]) => [customFieldKey(fieldName), error])),
+    ...fieldErrors,
+  };
 
-  // No field errors since validation is removed
+  // Stage gate errors clear as soon as the field is filled in
   useEffect(() => {
-    setFieldErrors({});
-  }, [formData, currentStage, showValidationErrors]);
+    setFieldErrors(prev => {
+      const remaining = Object.keys(prev).filter(field => getMissingRequiredFields(formData, [field]).length > 0);
+      if (remaining.length === Object.keys(prev).length) return prev;
+      return Object.fromEntries(remaining.map(field => [field, prev[field]]));
+    });
+  }, [formData]);
+
+  // Highlight the fields the backend requires before the deal can enter a stage
+  const handleStageGateError = (error: unknown) => {
+    const violation = parseStageGateError(error);
+    if (!violation) return false;
+
+    setFormData(prev => ({ ...prev, stage: violation.stage }));
+    setFieldErrors(Object.fromEntries(
+      violation.missingFields.map(field => [field, `Required to move to ${violation.stage}`])
+    ));
+    setShowPreviousStages(true);
+    toast({
+      title: "Complete required fields",
+      description: `${violation.stage} requires: ${violation.missingFields.map(field => getDealFieldLabel(field, customFields)).join(', ')}`,
+      variant: "destructive",
+    });
+    return true;
+  };
+
+  // Custom fields are checked on every save path, stage moves included
+  const hasCustomFieldErrors = () => {
+    const errors = validateCustomFieldValues(customFields, getCustomFieldValues(formData));
+    setCustomErrors(errors);
+    if (Object.keys(errors).length === 0) return false;
+    toast({
+      title: "Complete custom fields",
+      description: Object.values(errors).join(', '),
+      variant: "destructive",
+    });
+    return true;
+  };
 
   const handleFieldChange = (field: string, value: any) => {
     console.log(`=== FIELD UPDATE DEBUG ===`);
@@ -127,6 +182,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
 
     try {
@@ -160,6 +216,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     } catch (error) {
       console.error("=== DEAL FORM SAVE ERROR ===");
       console.error("Error details:", error);
+      if (handleStageGateError(error)) return;
       
       toast({
         title: "Error",
@@ -172,6 +229,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   };
 
   const handleMoveToNextStage = async () => {
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
     
     try {
@@ -182,6 +240,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         const updatedData = {
           ...formData,
           stage: nextStage,
+          probability: getProbabilityForStageChange(deal?.stage, nextStage, formData.probability),
           deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
           modified_at: new Date().toISOString(),
           modified_by: deal?.created_by || formData.created_by
@@ -201,6 +260,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       }
     } catch (error) {
       console.error("Error moving deal to next stage:", error);
+      if (handleStageGateError(error)) return;
       toast({
         title: "Error",
         description: "Failed to move deal to next stage",
@@ -212,6 +272,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   };
 
   const handleMoveToFinalStage = async (finalStage: DealStage) => {
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
     
     try {
@@ -220,6 +281,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       const updatedData = {
         ...formData,
         stage: finalStage,
+        probability: getProbabilityForStageChange(deal?.stage, finalStage, formData.probability),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
@@ -239,6 +301,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       }
     } catch (error) {
       console.error("Error moving deal to final stage:", error);
+      if (handleStageGateError(error)) return;
       toast({
         title: "Error",
         description: `Failed to move deal to ${finalStage} stage`,
@@ -250,6 +313,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   };
 
   const handleMoveToSpecificStage = async (targetStage: DealStage) => {
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
     
     try {
@@ -258,6 +322,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       const updatedData = {
         ...formData,
         stage: targetStage,
+        probability: getProbabilityForStageChange(deal?.stage, targetStage, formData.probability),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
@@ -277,6 +342,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       }
     } catch (error) {
       console.error("Error moving deal to stage:", error);
+      if (handleStageGateError(error)) return;
       toast({
         title: "Error",
         description: `Failed to move deal to ${targetStage} stage`,
@@ -287,10 +353,9 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   };
 
-  // Allow movement to any stage - no restrictions
+  // Allow movement to any active stage - no restrictions
   const getAvailableStagesForMoveTo = (): DealStage[] => {
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return allStages.filter(stage => stage !== currentStage);
+    return stageNames.filter(stage => stage !== currentStage);
   };
 
   // No validation - always allow movement and saving
@@ -346,7 +411,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
               <p className="text-xs text-muted-foreground">Contract Value</p>
               <p className="font-medium text-primary">
                 {formData.total_contract_value 
-                  ? `€${formData.total_contract_value.toLocaleString()}`
+                  ? formatCurrency(formData.total_contract_value, formData.currency_type || 'EUR')
                   : '-'}
               </p>
             </div>
@@ -370,11 +435,18 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
             formData={formData}
             onFieldChange={handleFieldChange}
             onLeadSelect={handleLeadSelect}
-            fieldErrors={fieldErrors}
+            fieldErrors={stageFieldErrors}
             stage={currentStage}
             showPreviousStages={showPreviousStages}
           />
 
+          <CustomFieldsSection
+            fields={sectionCustomFields}
+            values={getCustomFieldValues(formData)}
+            errors={customErrors}
+            onChange={values => handleFieldChange('custom_fields', values)}
+          />
+
           {/* Action Buttons */}
           <div className="flex justify-between items-center">
             <div className="flex gap-2">
@@ -10,7 +10,9 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Filter, X, Save, FolderOpen, Trash2, Search } from "lucide-react";
-import { DealStage, DEAL_STAGES } from "@/types/deal";
+import { DealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { usePicklist } from "@/hooks/usePicklists";
 import { cn } from "@/lib/utils";
 import { useSavedFilters } from "@/hooks/useSavedFilters";
 
@@ -46,7 +48,6 @@ const initialFilters: AdvancedFilterState = {
   probabilityRange: [0, 100]
 };
 
-const REGION_OPTIONS = ["EU", "US", "Asia", "Other"];
 const PRIORITY_OPTIONS = ["1", "2", "3", "4", "5"];
 const PROBABILITY_OPTIONS = ["10", "20", "30", "40", "50", "60", "70", "80", "90", "100"];
 
@@ -66,6 +67,8 @@ export const DealsAdvancedFilter = ({
   const filterRef = useRef<HTMLDivElement>(null);
 
   const { savedFilters, loading, saveFilter, deleteFilter } = useSavedFilters('deals');
+  const { stageNames } = usePipelineStages();
+  const { options: regionOptions } = usePicklist('region');
 
   // Sync local filters with props
   useEffect(() => {
@@ -277,8 +280,8 @@ export const DealsAdvancedFilter = ({
               <div className="grid grid-cols-2 gap-6">
                 {/* Left Column */}
                 <div className="space-y-4">
-                  {renderMultiSelectSection("Stages", "stages", DEAL_STAGES)}
-                  {renderMultiSelectSection("Regions", "regions", REGION_OPTIONS)}
+                  {renderMultiSelectSection("Stages", "stages", stageNames)}
+                  {renderMultiSelectSection("Regions", "regions", regionOptions)}
                   {renderMultiSelectSection("Priorities", "priorities", PRIORITY_OPTIONS)}
                 </div>
 
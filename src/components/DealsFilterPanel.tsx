@@ -9,7 +9,8 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { CalendarIcon, Filter, X } from "lucide-react";
 import { format } from "date-fns";
-import { DealStage, DEAL_STAGES } from "@/types/deal";
+import { DealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { cn } from "@/lib/utils";
 
 export interface FilterState {
@@ -47,6 +48,7 @@ const initialFilters: FilterState = {
 export const DealsFilterPanel = ({ filters, onFiltersChange, children }: DealsFilterPanelProps) => {
   const [localFilters, setLocalFilters] = useState<FilterState>(filters);
   const [isOpen, setIsOpen] = useState(false);
+  const { stageNames } = usePipelineStages();
 
   useEffect(() => {
     setLocalFilters(filters);
@@ -112,7 +114,7 @@ export const DealsFilterPanel = ({ filters, onFiltersChange, children }: DealsFi
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Stages</SelectItem>
-                {DEAL_STAGES.map(stage => (
+                {stageNames.map(stage => (
                   <SelectItem key={stage} value={stage}>
                     {stage}
                   </SelectItem>
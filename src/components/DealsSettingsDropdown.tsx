@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -6,13 +6,16 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Settings, Upload, Download, Columns } from "lucide-react";
+import { Settings, Upload, Download, Columns, FileSpreadsheet } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Deal } from "@/types/deal";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
+import { ExportFormat } from "@/utils/exportUtils";
 
 interface DealsSettingsDropdownProps {
-  deals: Deal[];
+  // Without deals, "Export All" loads every deal from the database
+  deals?: Deal[];
   onRefresh: () => void;
   selectedDeals?: Deal[];
   onColumnCustomize?: () => void;
@@ -29,56 +32,71 @@ export const DealsSettingsDropdown = ({
   const { handleImport, handleExportAll, handleExportSelected } = useDealsImportExport({
     onRefresh
   });
+  const [importFile, setImportFile] = useState<File | null>(null);
 
-  const handleExportClick = () => {
+  const handleExportClick = (exportFormat: ExportFormat) => {
     if (selectedDeals.length > 0) {
       const selectedIds = selectedDeals.map(deal => deal.id);
-      handleExportSelected(deals, selectedIds);
+      handleExportSelected(selectedDeals, selectedIds, exportFormat);
     } else {
-      handleExportAll(deals);
+      handleExportAll(deals, exportFormat);
     }
   };
 
   const handleImportClick = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.csv';
-    input.onchange = async (e) => {
+    input.accept = '.csv,.xlsx';
+    input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        try {
-          await handleImport(file);
-        } catch (error) {
-          console.error('Import failed:', error);
-        }
-      }
+      if (file) setImportFile(file);
     };
     input.click();
   };
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="sm">
-          Actions
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="bg-popover border z-50">
-            <DropdownMenuItem onClick={handleImportClick}>
-              <Upload className="w-4 h-4 mr-2" />
-              Import
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={handleExportClick}>
-              <Download className="w-4 h-4 mr-2" />
-              Export {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
-            </DropdownMenuItem>
-            {showColumns && onColumnCustomize && (
-              <DropdownMenuItem onClick={onColumnCustomize}>
-                <Columns className="w-4 h-4 mr-2" />
-                Columns
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            Actions
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="bg-popover border z-50">
+              <DropdownMenuItem onClick={handleImportClick}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import
               </DropdownMenuItem>
-            )}
-      </DropdownMenuContent>
-    </DropdownMenu>
+              <DropdownMenuItem onClick={() => handleExportClick('csv')}>
+                <Download className="w-4 h-4 mr-2" />
+                Export CSV {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportClick('xlsx')}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Export Excel {selectedDeals.length > 0 ? `(${selectedDeals.length})` : 'All'}
+              </DropdownMenuItem>
+              {showColumns && onColumnCustomize && (
+                <DropdownMenuItem onClick={onColumnCustomize}>
+                  <Columns className="w-4 h-4 mr-2" />
+                  Columns
+                </DropdownMenuItem>
+              )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ImportMappingDialog
+        file={importFile}
+        entity="deals"
+        onCancel={() => setImportFile(null)}
+        onConfirm={async (file, mapping) => {
+          setImportFile(null);
+          try {
+            await handleImport(file, mapping);
+          } catch (error) {
+            console.error('Import failed:', error);
+          }
+        }}
+      />
+    </>
   );
 };
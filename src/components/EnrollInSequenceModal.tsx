@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListOrdered, Loader2 } from "lucide-react";
+import { useEmailSequences, useSequenceMutations } from "@/hooks/useEmailSequences";
+
+interface EnrollInSequenceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  recordType: 'lead' | 'contact';
+  recordIds: string[];
+  onEnrolled?: () => void;
+}
+
+export const EnrollInSequenceModal = ({ open, onOpenChange, recordType, recordIds, onEnrolled }: EnrollInSequenceModalProps) => {
+  const { toast } = useToast();
+  const { data: sequences = [], isLoading } = useEmailSequences();
+  const { enroll } = useSequenceMutations();
+  const [sequenceId, setSequenceId] = useState("");
+
+  // Only sequences that would actually send something
+  const available = useMemo(() => sequences.filter(sequence => sequence.is_active && sequence.steps.length > 0), [sequences]);
+  const selected = available.find(sequence => sequence.id === sequenceId);
+
+  useEffect(() => {
+    if (open) setSequenceId("");
+  }, [open]);
+
+  const noun = `${recordType}${recordIds.length === 1 ? "" : "s"}`;
+
+  const handleEnroll = async () => {
+    if (!sequenceId) return;
+    try {
+      const enrolled = await enroll.mutateAsync({
+        sequenceId,
+        leadIds: recordType === 'lead' ? recordIds : [],
+        contactIds: recordType === 'contact' ? recordIds : [],
+      });
+      const skipped = recordIds.length - enrolled;
+      toast({
+        title: "Enrolled in sequence",
+        description: `${enrolled} ${recordType}${enrolled === 1 ? "" : "s"} enrolled in ${selected?.name}` +
+          (skipped > 0 ? `; ${skipped} skipped (already enrolled or unsubscribed)` : ""),
+      });
+      onOpenChange(false);
+      onEnrolled?.();
+    } catch (error) {
+      console.error('Error enrolling in sequence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to enroll in sequence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Enroll in Sequence
+          </DialogTitle>
+          <DialogDescription>
+            {recordIds.length} {noun} will get the sequence's emails and tasks until they reply, book a meeting or unsubscribe.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Sequence</Label>
+          <Select value={sequenceId} onValueChange={setSequenceId} disabled={isLoading || available.length === 0}>
+            <SelectTrigger>
+              <SelectValue placeholder={isLoading ? "Loading sequences..." : available.length ? "Choose a sequence" : "No active sequences yet"} />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map(sequence => (
+                <SelectItem key={sequence.id} value={sequence.id}>
+                  {sequence.name} ({sequence.steps.length} step{sequence.steps.length === 1 ? "" : "s"})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selected?.description && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+          {!isLoading && available.length === 0 && (
+            <p className="text-xs text-muted-foreground">Create a sequence under Settings → Email Center → Sequences.</p>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={enroll.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleEnroll} disabled={!sequenceId || recordIds.length === 0 || enroll.isPending} className="gap-2">
+            {enroll.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Enroll {recordIds.length} {noun}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
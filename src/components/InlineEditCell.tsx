@@ -6,7 +6,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Check, X, Edit3 } from "lucide-react";
-import { Deal, DealStage, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface InlineEditCellProps {
   value: any;
@@ -31,6 +32,7 @@ export const InlineEditCell = ({
 }: InlineEditCellProps) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(value || '');
+  const { stageNames } = usePipelineStages();
 
   const handleSave = () => {
     let processedValue = editValue;
@@ -190,7 +192,7 @@ export const InlineEditCell = ({
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {DEAL_STAGES.map(stage => (
+              {stageNames.map(stage => (
                 <SelectItem key={stage} value={stage}>
                   {stage}
                 </SelectItem>
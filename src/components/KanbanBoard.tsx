@@ -1,6 +1,6 @@
 import { useState, useMemo, useEffect } from "react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { DealCard } from "./DealCard";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -10,6 +10,9 @@ import { useToast } from "@/hooks/use-toast";
 import { BulkActionsBar } from "./BulkActionsBar";
 import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter";
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { StageGateDialog } from "./deal-form/StageGateDialog";
+import { getMissingRequiredFields, parseStageGateError } from "./deal-form/validation";
 
 interface KanbanBoardProps {
   deals: Deal[];
@@ -47,6 +50,28 @@ export const KanbanBoard = ({
     probabilityRange: [0, 100],
   });
   const { toast } = useToast();
+  const { stageNames, allStages, openStageNames, closedStageNames, isLostStage, isDropStage, getStageStyle, getRequiredFields } = usePipelineStages();
+  const [stageGate, setStageGate] = useState<{ deal: Deal; stage: DealStage; missingFields: string[] } | null>(null);
+
+  // Open the "complete these fields" dialog instead of moving a deal past a stage gate
+  const openStageGateIfBlocked = (deal: Deal, newStage: DealStage) => {
+    const missingFields = getMissingRequiredFields(deal, getRequiredFields(newStage));
+    if (missingFields.length === 0) return false;
+    setStageGate({ deal, stage: newStage, missingFields });
+    return true;
+  };
+
+  const handleStageGateError = (error: unknown, deal: Deal) => {
+    const violation = parseStageGateError(error);
+    if (!violation) return false;
+    setStageGate({ deal, stage: violation.stage, missingFields: violation.missingFields });
+    return true;
+  };
+
+  // Quick "drop" action on cards in the last open stage
+  const activeLostStages = closedStageNames.filter(stage => isLostStage(stage));
+  const dropStage = activeLostStages.find(stage => isDropStage(stage)) ?? activeLostStages[0];
+  const lastOpenStage = openStageNames[openStageNames.length - 1];
 
   // Generate available options for multi-select filters
   const availableOptions = useMemo(() => {
@@ -116,17 +141,19 @@ export const KanbanBoard = ({
     return filteredDeals.filter(deal => deal.stage === stage);
   };
 
-  const getVisibleStages = () => {
-    const leadDeals = getDealsByStage('Lead');
-    const lostDeals = getDealsByStage('Lost');
-    const droppedDeals = getDealsByStage('Dropped');
-    
-    return DEAL_STAGES.filter(stage => {
-      if (stage === 'Lead') return leadDeals.length > 0;
-      if (stage === 'Lost') return lostDeals.length > 0;
-      if (stage === 'Dropped') return droppedDeals.length > 0;
-      return true;
-    });
+  // Active stages are columns; the entry stage and lost stages only show when they hold deals.
+  // Inactive stages still get a column while deals sit on them awaiting reassignment.
+  const getVisibleStages = (): DealStage[] => {
+    const entryStage = openStageNames[0];
+
+    return allStages
+      .filter(stage => {
+        const hasDeals = getDealsByStage(stage.stage_name).length > 0;
+        if (stage.is_active === false) return hasDeals;
+        if (stage.stage_name === entryStage || stage.is_lost_stage) return hasDeals;
+        return true;
+      })
+      .map(stage => stage.stage_name);
   };
 
   const onDragStart = (start: any) => {
@@ -144,8 +171,19 @@ export const KanbanBoard = ({
     
     if (!deal || deal.stage === newStage) return;
 
+    if (!stageNames.includes(newStage)) {
+      toast({
+        title: "Stage Inactive",
+        description: `${newStage} is no longer an active stage. Move the deal to an active stage instead.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     console.log(`Moving deal from ${deal.stage} to ${newStage}`);
 
+    if (openStageGateIfBlocked(deal, newStage)) return;
+
     try {
       console.log(`Moving deal ${draggableId} to stage ${newStage}`);
       
@@ -168,6 +206,7 @@ export const KanbanBoard = ({
       });
     } catch (error) {
       console.error("Error updating deal stage:", error);
+      if (handleStageGateError(error, deal)) return;
       toast({
         title: "Error",
         description: "Failed to update deal stage",
@@ -230,6 +269,9 @@ export const KanbanBoard = ({
   };
 
   const handleDealCardAction = async (dealId: string, newStage: DealStage) => {
+    const deal = deals.find(d => d.id === dealId);
+    if (deal && openStageGateIfBlocked(deal, newStage)) return;
+
     try {
       console.log(`Card action: Moving deal ${dealId} to stage ${newStage}`);
       
@@ -246,6 +288,7 @@ export const KanbanBoard = ({
       });
     } catch (error) {
       console.error("Error updating deal stage:", error);
+      if (deal && handleStageGateError(error, deal)) return;
       toast({
         title: "Error",
         description: "Failed to update deal stage",
@@ -349,7 +392,7 @@ export const KanbanBoard = ({
                 const allSelected = selectedInStage === stageDeals.length && stageDeals.length > 0;
                 
                 return (
-                  <div key={stage} className={`p-2 rounded-lg border-2 ${STAGE_COLORS[stage]} transition-all hover:shadow-md`}>
+                  <div key={stage} className="p-2 rounded-lg border-2 transition-all hover:shadow-md" style={getStageStyle(stage)}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 min-w-0 flex-1">
                         {selectionMode && (
@@ -368,7 +411,7 @@ export const KanbanBoard = ({
                             <span className="text-primary ml-1">({selectedInStage})</span>
                           )}
                         </span>
-                        {stage === 'Lead' && (
+                        {stage === openStageNames[0] && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -450,6 +493,7 @@ export const KanbanBoard = ({
                                       setDeleteDialogOpen(true);
                                     }}
                                     onStageChange={handleDealCardAction}
+                                    dropStage={deal.stage === lastOpenStage ? dropStage : undefined}
                                   />
                                 </div>
                               )}
@@ -495,6 +539,14 @@ export const KanbanBoard = ({
         itemName={dealToDelete?.project_name || 'this deal'}
         itemType="deal"
       />
+
+      <StageGateDialog
+        deal={stageGate?.deal || null}
+        targetStage={stageGate?.stage || null}
+        missingFields={stageGate?.missingFields || []}
+        onClose={() => setStageGate(null)}
+        onUpdateDeal={onUpdateDeal}
+      />
     </div>
   );
 };
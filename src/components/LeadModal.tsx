@@ -5,12 +5,18 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { findPendingApprovalRequest, isApprovalPendingError } from "@/utils/approvalUtils";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { CustomFieldsSection } from "@/components/shared/CustomFieldsSection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { getCustomFieldValues, validateCustomFieldValues } from "@/utils/customFieldUtils";
+import { CustomFieldValues } from "@/types/customField";
+import { usePicklist } from "@/hooks/usePicklists";
 
 const leadSchema = z.object({
   lead_name: z.string()
@@ -44,6 +50,7 @@ interface Lead {
   country?: string;
   description?: string;
   lead_status?: string;
+  custom_fields?: unknown;
 }
 
 interface Account {
@@ -58,29 +65,17 @@ interface LeadModalProps {
   onSuccess: () => void;
 }
 
-const leadSources = [
-  "LinkedIn",
-  "Website",
-  "Referral", 
-  "Social Media",
-  "Email Campaign",
-  "Other"
-];
-
-const leadStatuses = [
-  "New",
-  "Attempted",
-  "Follow-up",
-  "Qualified",
-  "Disqualified"
-];
-
 export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
   const [loading, setLoading] = useState(false);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
+  const { fields: customFields } = useCustomFields('lead');
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [customErrors, setCustomErrors] = useState<Record<string, string>>({});
+  const leadSources = usePicklist('contact_source');
+  const leadStatuses = usePicklist('lead_status');
 
   const form = useForm<LeadFormData>({
     resolver: zodResolver(leadSchema),
@@ -128,6 +123,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         lead_status: lead.lead_status || "New",
         description: lead.description || "",
       });
+      setCustomValues(getCustomFieldValues(lead));
     } else {
       form.reset({
         lead_name: "",
@@ -140,10 +136,16 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         lead_status: "New",
         description: "",
       });
+      setCustomValues({});
     }
+    setCustomErrors({});
   }, [lead, form]);
 
   const onSubmit = async (data: LeadFormData) => {
+    const errors = validateCustomFieldValues(customFields, customValues);
+    setCustomErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -168,6 +170,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         contact_source: data.contact_source || null,
         lead_status: data.lead_status || 'New',
         description: data.description || null,
+        custom_fields: customValues,
         modified_by: user.data.user.id,
       };
 
@@ -193,6 +196,17 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
 
         if (error) throw error;
 
+        // An approval workflow may hold the change instead of applying it
+        if (await findPendingApprovalRequest('leads', lead.id)) {
+          toast({
+            title: "Submitted for approval",
+            description: "This change requires approval and will be applied once approved",
+          });
+          onSuccess();
+          onOpenChange(false);
+          return;
+        }
+
         await logUpdate('leads', lead.id, baseLeadData, lead);
 
         toast({
@@ -225,9 +239,12 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
 
         await logCreate('leads', newLead.id, newLeadData);
 
+        const pendingApproval = await findPendingApprovalRequest('leads', newLead.id);
         toast({
-          title: "Success",
-          description: "Lead created successfully",
+          title: pendingApproval ? "Submitted for approval" : "Success",
+          description: pendingApproval
+            ? "The new lead is locked until its approval request is resolved"
+            : "Lead created successfully",
         });
       }
 
@@ -235,8 +252,10 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
       onOpenChange(false);
     } catch (error) {
       toast({
-        title: "Error",
-        description: lead ? "Failed to update lead" : "Failed to create lead",
+        title: isApprovalPendingError(error) ? "Awaiting approval" : "Error",
+        description: isApprovalPendingError(error)
+          ? "This lead has a pending approval request and cannot be changed until it is resolved"
+          : lead ? "Failed to update lead" : "Failed to create lead",
         variant: "destructive",
       });
     } finally {
@@ -383,7 +402,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {leadSources.map((source) => (
+                        {leadSources.getOptions(field.value).map((source) => (
                           <SelectItem key={source} value={source}>
                             {source}
                           </SelectItem>
@@ -408,7 +427,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {leadStatuses.map((status) => (
+                        {leadStatuses.getOptions(field.value).map((status) => (
                           <SelectItem key={status} value={status}>
                             {status}
                           </SelectItem>
@@ -421,6 +440,13 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
               />
             </div>
 
+            <CustomFieldsSection
+              fields={customFields}
+              values={customValues}
+              errors={customErrors}
+              onChange={setCustomValues}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -12,6 +12,7 @@ interface Lead {
   id: string;
   lead_name: string;
   company_name?: string;
+  account_id?: string | null;
   country?: string;
   created_by?: string;
 }
@@ -53,7 +54,7 @@ export const LeadSearchableDropdown = ({
       setLoading(true);
       const { data, error } = await supabase
         .from('leads')
-        .select('id, lead_name, company_name, country, created_by, lead_status')
+        .select('id, lead_name, company_name, account_id, country, created_by, lead_status')
         .neq('lead_status', 'Converted') // Only show leads that haven't been converted to deals yet
         .order('lead_name', { ascending: true });
 
@@ -1,5 +1,6 @@
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { cn } from "@/lib/utils";
+import { usePicklist } from "@/hooks/usePicklists";
 
 interface LeadStatusFilterProps {
   value: string;
@@ -7,6 +8,7 @@ interface LeadStatusFilterProps {
 }
 
 export const LeadStatusFilter = ({ value, onValueChange }: LeadStatusFilterProps) => {
+  const { options } = usePicklist('lead_status');
   const isActive = value !== "all";
   
   return (
@@ -21,12 +23,9 @@ export const LeadStatusFilter = ({ value, onValueChange }: LeadStatusFilterProps
       </SelectTrigger>
       <SelectContent>
         <SelectItem value="all">All Statuses</SelectItem>
-        <SelectItem value="New">New</SelectItem>
-        <SelectItem value="Attempted">Attempted</SelectItem>
-        <SelectItem value="Follow-up">Follow-up</SelectItem>
-        <SelectItem value="Qualified">Qualified</SelectItem>
-        <SelectItem value="Disqualified">Disqualified</SelectItem>
-        <SelectItem value="Converted">Converted</SelectItem>
+        {options.map((status) => (
+          <SelectItem key={status} value={status}>{status}</SelectItem>
+        ))}
       </SelectContent>
     </Select>
   );
@@ -9,12 +9,11 @@ import { useColumnPreferences } from "@/hooks/useColumnPreferences";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus, Eye, User } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus, Eye, User, ListOrdered } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail, RefreshCw } from "./RowActionsDropdown";
 import { LeadModal } from "./LeadModal";
 import { LeadColumnCustomizer, LeadColumnConfig, defaultLeadColumns } from "./LeadColumnCustomizer";
@@ -23,12 +22,21 @@ import { ConvertToDealModal } from "./ConvertToDealModal";
 import { LeadDeleteConfirmDialog } from "./LeadDeleteConfirmDialog";
 import { AccountViewModal } from "./AccountViewModal";
 import { SendEmailModal, EmailRecipient } from "./SendEmailModal";
+import { EnrollInSequenceModal } from "./EnrollInSequenceModal";
 import { MeetingModal } from "./MeetingModal";
 import { TaskModal } from "./tasks/TaskModal";
 import { LeadDetailModal } from "./leads/LeadDetailModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { TableSkeleton } from "./shared/Skeletons";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePicklist } from "@/hooks/usePicklists";
+import { getPicklistBadgeStyle } from "@/utils/picklistUtils";
+import { formatCustomFieldColumn, getCustomFieldName, toCustomFieldSearchFields, withCustomFieldColumns } from "@/utils/customFieldUtils";
+import { MatchingSelection, ServerFilter, advancedSearchFilter, applyServerFilters, applyServerSort, eqFilter, fetchAllMatchingRows, gteFilter, lteFilter, searchFilter } from "@/utils/serverQueryUtils";
+import { useServerPagination } from "@/hooks/useServerPagination";
 import { useTasks } from "@/hooks/useTasks";
 import { useQuery } from "@tanstack/react-query";
 
@@ -58,6 +66,7 @@ interface Lead {
   modified_by?: string;
   country: string | null;
   industry: string | null;
+  custom_fields?: unknown;
 }
 
 const defaultColumns: LeadColumnConfig[] = [{
@@ -111,10 +120,31 @@ interface LeadTableProps {
   setSelectedLeads: React.Dispatch<React.SetStateAction<string[]>>;
   initialStatus?: string;
   onBulkDeleteComplete?: () => void;
+  matchingSelection?: MatchingSelection | null;
+  onMatchingSelectionChange?: (selection: MatchingSelection | null) => void;
 }
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+// Searched by the search box
+const LEAD_TEXT_SEARCH_COLUMNS = ['lead_name', 'company_name', 'email', 'phone_no', 'position', 'linkedin', 'website'];
+
+// Linked records are cleaned up this many leads at a time
+const BULK_DELETE_CHUNK_SIZE = 200;
+
+// Fields offered in the advanced search, ahead of the custom ones
+const LEAD_SEARCH_FIELDS = [
+  { value: 'lead_name', label: 'Lead Name' },
+  { value: 'company_name', label: 'Company Name' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'country', label: 'Country' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'lead_status', label: 'Lead Status' },
+  { value: 'contact_source', label: 'Source' },
+];
+
 const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   showColumnCustomizer,
   setShowColumnCustomizer,
@@ -123,16 +153,16 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   selectedLeads,
   setSelectedLeads,
   initialStatus = "all",
-  onBulkDeleteComplete
+  onBulkDeleteComplete,
+  matchingSelection = null,
+  onMatchingSelectionChange
 }, ref) => {
   const { toast } = useToast();
   const { logDelete, logBulkDelete } = useCRUDAudit();
   const { userRole } = useUserRole();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [leads, setLeads] = useState<Lead[]>([]);
-  const [filteredLeads, setFilteredLeads] = useState<Lead[]>([]);
-  const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -189,23 +219,6 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [leadToDelete, setLeadToDelete] = useState<Lead | null>(null);
   
-  // Handle viewId from URL (from global search)
-  const viewId = searchParams.get('viewId');
-  useEffect(() => {
-    if (viewId && leads.length > 0) {
-      const leadToView = leads.find(l => l.id === viewId);
-      if (leadToView) {
-        setViewingLead(leadToView);
-        setShowDetailModal(true);
-        // Clear the viewId from URL after opening
-        setSearchParams(prev => {
-          prev.delete('viewId');
-          return prev;
-        }, { replace: true });
-      }
-    }
-  }, [viewId, leads, setSearchParams]);
-  
   // Column preferences hook
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'leads',
@@ -217,8 +230,11 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     setLocalColumns(columns);
   }, [columns]);
 
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(25);
+  const { fields: customFields } = useCustomFields('lead');
+  const { getColor: getStatusColor } = usePicklist('lead_status');
+  const tableColumns = useMemo(() => withCustomFieldColumns(localColumns, customFields), [localColumns, customFields]);
+  const advancedSearchFields = useMemo(() => [...LEAD_SEARCH_FIELDS, ...toCustomFieldSearchFields(customFields)], [customFields]);
+
   const [showConvertModal, setShowConvertModal] = useState(false);
   const [leadToConvert, setLeadToConvert] = useState<Lead | null>(null);
   const [sortField, setSortField] = useState<string | null>(null);
@@ -227,6 +243,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const [accountViewOpen, setAccountViewOpen] = useState(false);
   const [emailModalOpen, setEmailModalOpen] = useState(false);
   const [emailRecipient, setEmailRecipient] = useState<EmailRecipient | null>(null);
+  const [sequenceLeadId, setSequenceLeadId] = useState<string | null>(null);
   const [meetingModalOpen, setMeetingModalOpen] = useState(false);
   const [meetingLead, setMeetingLead] = useState<Lead | null>(null);
   const [taskModalOpen, setTaskModalOpen] = useState(false);
@@ -243,60 +260,19 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     },
   });
 
-  useEffect(() => {
-    fetchLeads();
-  }, []);
-
-  useEffect(() => {
-    const searchLower = debouncedSearchTerm.toLowerCase();
-    let filtered = leads.filter(lead => 
-      lead.lead_name?.toLowerCase().includes(searchLower) || 
-      lead.company_name?.toLowerCase().includes(searchLower) || 
-      lead.account_company_name?.toLowerCase().includes(searchLower) ||
-      lead.email?.toLowerCase().includes(searchLower) ||
-      lead.phone_no?.toLowerCase().includes(searchLower) ||
-      lead.position?.toLowerCase().includes(searchLower) ||
-      lead.linkedin?.toLowerCase().includes(searchLower) ||
-      lead.website?.toLowerCase().includes(searchLower)
-    );
-    
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(lead => lead.lead_status === statusFilter);
-    }
-    
+  // Filters run in the database; the table only loads the page on screen
+  const leadFilters = useMemo(() => {
+    const filters: ServerFilter[] = [];
+    if (debouncedSearchTerm.trim()) filters.push(searchFilter(debouncedSearchTerm, LEAD_TEXT_SEARCH_COLUMNS));
+    if (statusFilter !== "all") filters.push(eqFilter('lead_status', statusFilter));
     // FIX: Use contact_owner instead of created_by for owner filtering
-    if (ownerFilter !== "all") {
-      filtered = filtered.filter(lead => lead.contact_owner === ownerFilter);
-    }
-    
-    // Apply date range filtering
-    if (dateFromFilter) {
-      const fromDate = new Date(dateFromFilter);
-      filtered = filtered.filter(lead => {
-        if (!lead.created_time) return false;
-        return new Date(lead.created_time) >= fromDate;
-      });
-    }
-    if (dateToFilter) {
-      const toDate = new Date(dateToFilter);
-      filtered = filtered.filter(lead => {
-        if (!lead.created_time) return false;
-        return new Date(lead.created_time) <= toDate;
-      });
-    }
-
-    // Apply sorting
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Lead] || '';
-        const bValue = b[sortField as keyof Lead] || '';
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
-    }
-    setFilteredLeads(filtered);
-    setCurrentPage(1);
-  }, [leads, debouncedSearchTerm, statusFilter, ownerFilter, dateFromFilter, dateToFilter, sortField, sortDirection]);
+    if (ownerFilter !== "all") filters.push(eqFilter('contact_owner', ownerFilter));
+    if (dateFromFilter) filters.push(gteFilter('created_time', new Date(dateFromFilter).toISOString()));
+    if (dateToFilter) filters.push(lteFilter('created_time', new Date(dateToFilter).toISOString()));
+    const advanced = advancedSearchFilter(searchGroups);
+    if (advanced) filters.push(advanced);
+    return filters;
+  }, [debouncedSearchTerm, statusFilter, ownerFilter, dateFromFilter, dateToFilter, searchGroups]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
@@ -314,35 +290,85 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     return sortDirection === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />;
   };
 
-  const fetchLeads = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase.from('leads').select(`
-        *,
-        accounts:account_id (
-          company_name
-        )
-      `).order('created_time', { ascending: false });
-      
-      if (error) throw error;
-      
-      // Transform data to include account_company_name
-      const transformedData = (data || []).map(lead => ({
-        ...lead,
-        account_company_name: lead.accounts?.company_name || lead.company_name || null
-      }));
-      
-      setLeads(transformedData);
-    } catch (error) {
+  const fetchLeadsPage = async (from: number, to: number) => {
+    let query = supabase.from('leads').select(`
+      *,
+      accounts:account_id (
+        company_name
+      )
+    `, { count: 'exact' });
+    query = applyServerFilters(query, leadFilters);
+    query = sortField
+      ? applyServerSort(query, sortField === 'account_company_name' ? 'company_name' : sortField, sortDirection === 'asc')
+      : query.order('created_time', { ascending: false }).order('id');
+
+    const { data, error, count } = await query.range(from, to);
+    if (error) throw error;
+
+    // Transform data to include account_company_name
+    const rows = (data || []).map(lead => ({
+      ...lead,
+      account_company_name: lead.accounts?.company_name || lead.company_name || null
+    })) as Lead[];
+
+    return { rows, count: count ?? 0 };
+  };
+
+  const {
+    rows: pageLeads,
+    totalCount,
+    totalPages,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    startIndex,
+    loading,
+    error: fetchError,
+    refetch,
+  } = useServerPagination<Lead>({
+    queryKey: ['leads-page', leadFilters, sortField, sortDirection],
+    fetchPage: fetchLeadsPage,
+  });
+
+  const fetchLeads = () => {
+    refetch();
+  };
+
+  useEffect(() => {
+    if (fetchError) {
       toast({
         title: "Error",
         description: "Failed to fetch leads",
         variant: "destructive"
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [fetchError, toast]);
+
+  // A selection of everything matching no longer applies once the filters change
+  useEffect(() => {
+    onMatchingSelectionChange?.(null);
+  }, [leadFilters, onMatchingSelectionChange]);
+
+  // Handle viewId from URL (from global search); the lead may be on another page
+  const viewId = searchParams.get('viewId');
+  useEffect(() => {
+    if (!viewId) return;
+    const openLead = async () => {
+      const leadToView = pageLeads.find(l => l.id === viewId)
+        ?? (await supabase.from('leads').select('*').eq('id', viewId).maybeSingle()).data as Lead | null;
+      if (leadToView) {
+        setViewingLead(leadToView);
+        setShowDetailModal(true);
+      }
+      // Clear the viewId from URL after opening
+      setSearchParams(prev => {
+        prev.delete('viewId');
+        return prev;
+      }, { replace: true });
+    };
+    openLead();
+  }, [viewId, setSearchParams, pageLeads]);
 
   const handleDelete = async (deleteLinkedRecords: boolean = true) => {
     if (!leadToDelete?.id) {
@@ -396,36 +422,47 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
 
   // Bulk delete handler exposed via ref
   const handleBulkDelete = async (deleteLinkedRecords: boolean = true) => {
-    if (selectedLeads.length === 0) return;
+    if (selectedLeads.length === 0 && !matchingSelection) return;
     
     setIsBulkDeleting(true);
     try {
-      if (deleteLinkedRecords) {
-        // Delete notifications for all selected leads
-        await supabase.from('notifications').delete().in('lead_id', selectedLeads);
-        
-        // Get all action items for selected leads
-        const { data: actionItems } = await supabase.from('lead_action_items').select('id').in('lead_id', selectedLeads);
-        if (actionItems && actionItems.length > 0) {
-          const actionItemIds = actionItems.map(item => item.id);
-          await supabase.from('notifications').delete().in('action_item_id', actionItemIds);
+      const leadIds = matchingSelection
+        ? (await fetchAllMatchingRows((from, to) =>
+            applyServerFilters(supabase.from('leads').select('id'), matchingSelection.filters).order('id').range(from, to)
+          )).map(lead => lead.id)
+        : selectedLeads;
+
+      for (let i = 0; i < leadIds.length; i += BULK_DELETE_CHUNK_SIZE) {
+        const chunk = leadIds.slice(i, i + BULK_DELETE_CHUNK_SIZE);
+
+        if (deleteLinkedRecords) {
+          // Delete notifications for the selected leads
+          await supabase.from('notifications').delete().in('lead_id', chunk);
+          
+          // Get action items for the selected leads
+          const { data: actionItems } = await supabase.from('lead_action_items').select('id').in('lead_id', chunk);
+          if (actionItems && actionItems.length > 0) {
+            const actionItemIds = actionItems.map(item => item.id);
+            await supabase.from('notifications').delete().in('action_item_id', actionItemIds);
+          }
+          
+          // Delete their action items
+          await supabase.from('lead_action_items').delete().in('lead_id', chunk);
         }
         
-        // Delete all action items
-        await supabase.from('lead_action_items').delete().in('lead_id', selectedLeads);
+        const { error } = await supabase.from('leads').delete().in('id', chunk);
+        if (error) throw error;
       }
       
-      const { error } = await supabase.from('leads').delete().in('id', selectedLeads);
-      if (error) throw error;
-      
-      await logBulkDelete('leads', selectedLeads.length, selectedLeads);
+      await logBulkDelete('leads', leadIds.length, leadIds);
       
       toast({
         title: "Success",
-        description: `Deleted ${selectedLeads.length} leads successfully`
+        description: `Deleted ${leadIds.length} leads successfully`
       });
       
       setSelectedLeads([]);
+      onMatchingSelectionChange?.(null);
       fetchLeads();
       onBulkDeleteComplete?.();
     } catch (error: any) {
@@ -442,11 +479,11 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   // Expose handleBulkDelete to parent via ref
   useImperativeHandle(ref, () => ({
     handleBulkDelete
-  }), [selectedLeads, leads]);
+  }), [selectedLeads, matchingSelection]);
 
   const handleSelectAll = (checked: boolean) => {
+    onMatchingSelectionChange?.(null);
     if (checked) {
-      const pageLeads = getCurrentPageLeads().slice(0, 50);
       setSelectedLeads(pageLeads.map(l => l.id));
     } else {
       setSelectedLeads([]);
@@ -454,6 +491,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   };
 
   const handleSelectLead = (leadId: string, checked: boolean) => {
+    onMatchingSelectionChange?.(null);
     if (checked) {
       setSelectedLeads(prev => [...prev, leadId]);
     } else {
@@ -461,31 +499,24 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     }
   };
 
-  const getCurrentPageLeads = () => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredLeads.slice(startIndex, startIndex + itemsPerPage);
-  };
-
-  const totalPages = Math.ceil(filteredLeads.length / itemsPerPage);
-
   // Get owner IDs for display names - use contact_owner
   const ownerIds = useMemo(() => {
     return [...new Set([
-      ...leads.map(l => l.contact_owner).filter(Boolean),
-      ...leads.map(l => l.created_by).filter(Boolean)
+      ...pageLeads.map(l => l.contact_owner).filter(Boolean),
+      ...pageLeads.map(l => l.created_by).filter(Boolean)
     ])];
-  }, [leads]);
+  }, [pageLeads]);
 
   const { displayNames } = useUserDisplayNames(ownerIds);
   
-  const visibleColumns = localColumns.filter(col => col.visible);
-  const pageLeads = getCurrentPageLeads();
+  const visibleColumns = tableColumns.filter(col => col.visible);
 
   // Check if any filters are active
-  const hasActiveFilters = debouncedSearchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || dateFromFilter !== null || dateToFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || dateFromFilter !== null || dateToFilter !== null || searchGroups.length > 0;
 
   const clearAllFilters = () => {
     setSearchTerm("");
+    setSearchGroups([]);
     setStatusFilter("all");
     setOwnerFilter("all");
     setDateFromFilter(null);
@@ -505,11 +536,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
           lead_status: 'Converted'
         }).eq('id', leadToConvert.id);
         
-        if (!error) {
-          setLeads(prevLeads => prevLeads.map(lead => 
-            lead.id === leadToConvert.id ? { ...lead, lead_status: 'Converted' } : lead
-          ));
-        }
+        if (error) throw error;
       } catch (error) {
         // Silent fail for status update
       }
@@ -571,14 +598,14 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input 
-              placeholder="Search leads..." 
-              value={searchTerm} 
-              onChange={e => setSearchTerm(e.target.value)} 
-              className="pl-9" 
-              inputSize="control" 
+          <div className="w-80">
+            <AdvancedSearchBar
+              fields={advancedSearchFields}
+              onSearch={setSearchGroups}
+              activeGroups={searchGroups}
+              placeholder="Search leads..."
+              simpleSearch={searchTerm}
+              onSimpleSearchChange={setSearchTerm}
             />
           </div>
           <LeadStatusFilter value={statusFilter} onValueChange={setStatusFilter} />
@@ -612,6 +639,16 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         </div>
       </div>
 
+      <SelectAllMatchingBanner
+        selectedCount={selectedLeads.length}
+        pageCount={pageLeads.length}
+        totalCount={totalCount}
+        allMatchingSelected={!!matchingSelection}
+        itemType="leads"
+        onSelectAllMatching={() => onMatchingSelectionChange?.({ count: totalCount, filters: leadFilters })}
+        onClearSelection={() => handleSelectAll(false)}
+      />
+
       {/* Table */}
       <Card className="flex-1 min-h-0 flex flex-col">
         <div className="relative overflow-auto flex-1">
@@ -624,7 +661,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                   <TableHead className="w-12 text-center font-bold text-foreground">
                     <div className="flex justify-center">
                       <Checkbox 
-                        checked={selectedLeads.length > 0 && selectedLeads.length === Math.min(pageLeads.length, 50)} 
+                        checked={!!matchingSelection || (pageLeads.length > 0 && pageLeads.every(l => selectedLeads.includes(l.id)))} 
                         onCheckedChange={handleSelectAll} 
                       />
                     </div>
@@ -678,12 +715,12 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                     <TableRow 
                       key={lead.id} 
                       className="group hover:bg-muted/20 border-b" 
-                      data-state={selectedLeads.includes(lead.id) ? "selected" : undefined}
+                      data-state={matchingSelection || selectedLeads.includes(lead.id) ? "selected" : undefined}
                     >
                       <TableCell className="text-center px-4 py-3">
                         <div className="flex justify-center">
                           <Checkbox 
-                            checked={selectedLeads.includes(lead.id)} 
+                            checked={!!matchingSelection || selectedLeads.includes(lead.id)} 
                             onCheckedChange={checked => handleSelectLead(lead.id, checked as boolean)} 
                           />
                         </div>
@@ -718,7 +755,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                               {lead.contact_owner ? displayNames[lead.contact_owner] || "Loading..." : '-'}
                             </span>
                           ) : column.field === 'lead_status' && lead.lead_status ? (
-                            <Badge variant="outline" className={getStatusBadgeClasses(lead.lead_status)}>
+                            <Badge variant="outline" className={getStatusBadgeClasses(lead.lead_status)} style={getPicklistBadgeStyle(getStatusColor(lead.lead_status))}>
                               {lead.lead_status}
                             </Badge>
                           ) : column.field === 'email' ? (
@@ -727,9 +764,13 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                             <HighlightedText text={lead.phone_no} highlight={debouncedSearchTerm} />
                           ) : column.field === 'position' ? (
                             <HighlightedText text={lead.position} highlight={debouncedSearchTerm} />
+                          ) : getCustomFieldName(column.field) ? (
+                            <span className="truncate block">
+                              {formatCustomFieldColumn(customFields, lead, column.field) || '-'}
+                            </span>
                           ) : (
                             <span className="truncate block" title={lead[column.field as keyof Lead]?.toString() || '-'}>
-                              {lead[column.field as keyof Lead] || '-'}
+                              {(lead[column.field as keyof Lead] as React.ReactNode) || '-'}
                             </span>
                           )}
                         </TableCell>
@@ -765,6 +806,12 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                                 },
                                 disabled: !lead.email
                               },
+                              {
+                                label: "Enroll in Sequence",
+                                icon: <ListOrdered className="w-4 h-4" />,
+                                onClick: () => setSequenceLeadId(lead.id),
+                                disabled: !lead.email
+                              },
                               {
                                 label: "Create Meeting",
                                 icon: <CalendarPlus className="w-4 h-4" />,
@@ -812,7 +859,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
       {totalPages > 0 && <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">
-              Showing {filteredLeads.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredLeads.length)} of {filteredLeads.length} leads
+              Showing {totalCount === 0 ? 0 : startIndex + 1} to {Math.min(startIndex + itemsPerPage, totalCount)} of {totalCount} leads
             </span>
           </div>
           <div className="flex items-center gap-2">
@@ -856,7 +903,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
       <LeadColumnCustomizer 
         open={showColumnCustomizer} 
         onOpenChange={setShowColumnCustomizer} 
-        columns={localColumns} 
+        columns={tableColumns} 
         onColumnsChange={setLocalColumns} 
         onSave={saveColumns} 
         isSaving={isSaving} 
@@ -898,6 +945,13 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         recipient={emailRecipient}
       />
 
+      <EnrollInSequenceModal
+        open={!!sequenceLeadId}
+        onOpenChange={(open) => !open && setSequenceLeadId(null)}
+        recordType="lead"
+        recordIds={sequenceLeadId ? [sequenceLeadId] : []}
+      />
+
       <MeetingModal
         open={meetingModalOpen}
         onOpenChange={setMeetingModalOpen}
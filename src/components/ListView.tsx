@@ -3,10 +3,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
-import { Search, Filter, X, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Briefcase } from "lucide-react";
+import { Deal, DealStage } from "@/types/deal";
+import { Filter, X, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Briefcase } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RowActionsDropdown, Edit, Trash2, CheckSquare } from "./RowActionsDropdown";
 import { format } from "date-fns";
@@ -24,27 +23,56 @@ import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { HighlightedText } from "./shared/HighlightedText";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { StageGateDialog } from "./deal-form/StageGateDialog";
+import { parseStageGateError } from "./deal-form/validation";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { SelectAllMatchingBanner } from "./shared/SelectAllMatchingBanner";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { formatCustomFieldColumn, getCustomFieldName, toCustomFieldSearchFields, withCustomFieldColumns } from "@/utils/customFieldUtils";
+import { MatchingSelection, ServerFilter, advancedSearchFilter, applyServerFilters, applyServerSort, eqFilter, fetchAllMatchingRows, gteFilter, inFilter, lteFilter, searchFilter } from "@/utils/serverQueryUtils";
+import { useServerPagination } from "@/hooks/useServerPagination";
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+const DEAL_TEXT_SEARCH_COLUMNS = ['deal_name', 'project_name', 'lead_name', 'customer_name', 'region'];
+
+const HANDOFF_STATUS_OPTIONS = ['Not Started', 'In Progress', 'Complete'];
+
+// Fields offered in the advanced search, ahead of the custom ones
+const DEAL_SEARCH_FIELDS = [
+  { value: 'project_name', label: 'Project' },
+  { value: 'customer_name', label: 'Customer' },
+  { value: 'lead_name', label: 'Lead Name' },
+  { value: 'stage', label: 'Stage' },
+  { value: 'region', label: 'Region' },
+  { value: 'customer_need', label: 'Customer Need' },
+  { value: 'rfq_status', label: 'RFQ Status' },
+  { value: 'current_status', label: 'Current Status' },
+];
+
 interface ListViewProps {
-  deals: Deal[];
   onDealClick: (deal: Deal) => void;
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => void;
-  onDeleteDeals: (dealIds: string[]) => void;
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  onDeleteDeals: (dealIds: string[]) => void | Promise<void>;
   onImportDeals: (deals: Partial<Deal>[]) => void;
   initialStageFilter?: string;
+  // Only deals created by this user, for the "my deals" link
+  createdBy?: string;
 }
 
 export const ListView = ({ 
-  deals, 
   onDealClick, 
   onUpdateDeal, 
   onDeleteDeals, 
   onImportDeals,
-  initialStageFilter = 'all'
+  initialStageFilter = 'all',
+  createdBy
 }: ListViewProps) => {
+  const { toast } = useToast();
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [leadOwnerFilter, setLeadOwnerFilter] = useState("all");
   const [filters, setFilters] = useState<AdvancedFilterState>(() => ({
     stages: initialStageFilter !== 'all' ? [initialStageFilter as DealStage] : [],
@@ -59,14 +87,15 @@ export const ListView = ({
   const [sortBy, setSortBy] = useState<string>("modified_at");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set());
-  const [currentPage, setCurrentPage] = useState(1);
-  const [itemsPerPage, setItemsPerPage] = useState(25);
+  const [matchingSelection, setMatchingSelection] = useState<MatchingSelection | null>(null);
 
-  // Get owner IDs for display names
-  const ownerIds = useMemo(() => {
-    return [...new Set(deals.map(d => d.lead_owner).filter(Boolean))] as string[];
-  }, [deals]);
-  const { displayNames } = useUserDisplayNames(ownerIds);
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
   // Sync stage filter when initialStageFilter prop changes (from URL)
   useEffect(() => {
@@ -83,6 +112,7 @@ export const ListView = ({
   // Delete confirmation state
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [dealToDelete, setDealToDelete] = useState<Deal | null>(null);
+  const [stageGate, setStageGate] = useState<{ deal: Deal; stage: DealStage; missingFields: string[] } | null>(null);
 
   // Column customizer state
   const [columnCustomizerOpen, setColumnCustomizerOpen] = useState(false);
@@ -96,6 +126,82 @@ export const ListView = ({
     },
   });
 
+  // Filters run in the database; the list only loads the page on screen
+  const dealFilters = useMemo(() => {
+    const serverFilters: ServerFilter[] = [];
+    // Combine search from both searchTerm and filters.searchTerm
+    const allSearchTerms = [debouncedSearchTerm, filters.searchTerm].filter(Boolean).join(' ');
+    if (allSearchTerms.trim()) serverFilters.push(searchFilter(allSearchTerms, DEAL_TEXT_SEARCH_COLUMNS));
+    if (createdBy) serverFilters.push(eqFilter('created_by', createdBy));
+
+    // Apply lead owner filter (standalone dropdown)
+    if (leadOwnerFilter !== "all") serverFilters.push(eqFilter('lead_owner', leadOwnerFilter));
+
+    // Apply multi-select filters
+    if (filters.stages.length > 0) serverFilters.push(inFilter('stage', filters.stages));
+    if (filters.regions.length > 0) serverFilters.push(inFilter('region', filters.regions));
+    if (filters.leadOwners.length > 0) serverFilters.push(inFilter('lead_owner', filters.leadOwners));
+    if (filters.priorities.length > 0) serverFilters.push(inFilter('priority', filters.priorities));
+    if (filters.probabilities.length > 0) serverFilters.push(inFilter('probability', filters.probabilities));
+    if (filters.handoffStatuses.length > 0) serverFilters.push(inFilter('handoff_status', filters.handoffStatuses));
+
+    // Probability range filter; deals without a probability count as 0
+    const [minProbability, maxProbability] = filters.probabilityRange;
+    if (minProbability > 0 || maxProbability < 100) {
+      const inRange = `and(${gteFilter('probability', minProbability)},${lteFilter('probability', maxProbability)})`;
+      serverFilters.push(minProbability > 0 ? inRange : `probability.is.null,${inRange}`);
+    }
+    const advanced = advancedSearchFilter(searchGroups);
+    if (advanced) serverFilters.push(advanced);
+    return serverFilters;
+  }, [debouncedSearchTerm, filters, leadOwnerFilter, searchGroups, createdBy]);
+
+  const fetchDealsPage = async (from: number, to: number) => {
+    const query = applyServerFilters(supabase.from('deals').select('*', { count: 'exact' }), dealFilters);
+    const { data, error, count } = await applyServerSort(query, sortBy, sortOrder === "asc").range(from, to);
+    if (error) throw error;
+    return { rows: (data || []) as unknown as Deal[], count: count ?? 0 };
+  };
+
+  const {
+    rows: paginatedDeals,
+    totalCount,
+    totalPages,
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    startIndex,
+    error: fetchError,
+    refetch,
+  } = useServerPagination<Deal>({
+    queryKey: ['deals-page', dealFilters, sortBy, sortOrder],
+    fetchPage: fetchDealsPage,
+  });
+
+  useEffect(() => {
+    if (fetchError) {
+      console.error('Error fetching deals:', fetchError);
+      toast({
+        title: "Error",
+        description: "Failed to fetch deals",
+        variant: "destructive",
+      });
+    }
+  }, [fetchError, toast]);
+
+  // Selections don't carry over to a different set of results
+  useEffect(() => {
+    setSelectedDeals(new Set());
+    setMatchingSelection(null);
+  }, [dealFilters]);
+
+  // Get owner IDs for display names
+  const ownerIds = useMemo(() => {
+    return [...new Set(paginatedDeals.map(d => d.lead_owner).filter(Boolean))] as string[];
+  }, [paginatedDeals]);
+  const { displayNames } = useUserDisplayNames(ownerIds);
+
   const [columns, setColumns] = useState<DealColumnConfig[]>([
     { field: 'project_name', label: 'Project', visible: true, order: 0 },
     { field: 'customer_name', label: 'Customer', visible: true, order: 1 },
@@ -139,7 +245,7 @@ export const ListView = ({
   const [startWidth, setStartWidth] = useState(0);
   const tableRef = useRef<HTMLTableElement>(null);
 
-  const { toast } = useToast();
+  const { getStageStyle } = usePipelineStages();
 
   const formatCurrency = (amount: number | undefined, currency: string = 'EUR') => {
     if (!amount) return '-';
@@ -156,28 +262,6 @@ export const ListView = ({
     }
   };
 
-  // Stage badge styling (matching Accounts module)
-  const getStageBadgeClasses = (stage?: string) => {
-    switch (stage) {
-      case 'Won':
-        return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200';
-      case 'Dropped':
-        return 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400 border-gray-200';
-      case 'Lead':
-        return 'bg-slate-100 text-slate-700 dark:bg-slate-800/30 dark:text-slate-300 border-slate-200';
-      case 'Qualified':
-        return 'bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300 border-blue-200';
-      case 'Discussions':
-        return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200';
-      case 'Offered':
-        return 'bg-purple-50 text-purple-700 dark:bg-purple-900/20 dark:text-purple-300 border-purple-200';
-      case 'RFQ':
-        return 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300 border-indigo-200';
-      default:
-        return 'bg-muted text-muted-foreground border-border';
-    }
-  };
-
   // Generate initials from project name
   const getProjectInitials = (name: string) => {
     return name.split(' ').slice(0, 2).map(word => word.charAt(0).toUpperCase()).join('');
@@ -257,14 +341,16 @@ export const ListView = ({
   }, []);
 
   const handleSelectAll = (checked: boolean) => {
+    setMatchingSelection(null);
     if (checked) {
-      setSelectedDeals(new Set(filteredAndSortedDeals.map(deal => deal.id)));
+      setSelectedDeals(new Set(paginatedDeals.map(deal => deal.id)));
     } else {
       setSelectedDeals(new Set());
     }
   };
 
   const handleSelectDeal = (dealId: string, checked: boolean) => {
+    setMatchingSelection(null);
     const newSelected = new Set(selectedDeals);
     if (checked) {
       newSelected.add(dealId);
@@ -274,20 +360,28 @@ export const ListView = ({
     setSelectedDeals(newSelected);
   };
 
-  const handleBulkDelete = () => {
-    if (selectedDeals.size === 0) return;
-    
-    onDeleteDeals(Array.from(selectedDeals));
+  const handleBulkDelete = async () => {
+    if (selectedDeals.size === 0 && !matchingSelection) return;
+
+    try {
+      const dealIds = matchingSelection
+        ? (await fetchAllMatchingRows((from, to) => applyServerFilters(supabase.from('deals').select('id'), matchingSelection.filters).order('id').range(from, to))).map(deal => deal.id)
+        : Array.from(selectedDeals);
+      await onDeleteDeals(dealIds);
+    } catch (error) {
+      console.error('Error resolving deals to delete:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete deals",
+        variant: "destructive",
+      });
+    }
     setSelectedDeals(new Set());
-    
-    toast({
-      title: "Deals deleted",
-      description: `Successfully deleted ${selectedDeals.size} deals`,
-    });
+    setMatchingSelection(null);
+    refetch();
   };
 
   const handleBulkExport = () => {
-    const selectedDealObjects = deals.filter(deal => selectedDeals.has(deal.id));
     // Export logic handled by DealActionsDropdown
   };
 
@@ -299,6 +393,12 @@ export const ListView = ({
         description: "Field updated successfully",
       });
     } catch (error) {
+      const violation = parseStageGateError(error);
+      const deal = paginatedDeals.find(d => d.id === dealId);
+      if (violation && deal) {
+        setStageGate({ deal, stage: violation.stage, missingFields: violation.missingFields });
+        return;
+      }
       toast({
         title: "Update failed",
         description: "Failed to update deal field",
@@ -321,26 +421,32 @@ export const ListView = ({
     return [];
   };
 
-  const visibleColumns = columns
+  const { fields: customFields } = useCustomFields('deal');
+  const tableColumns = useMemo(() => withCustomFieldColumns(columns, customFields), [columns, customFields]);
+  const advancedSearchFields = useMemo(() => [...DEAL_SEARCH_FIELDS, ...toCustomFieldSearchFields(customFields)], [customFields]);
+
+  const visibleColumns = tableColumns
     .filter(col => col.visible)
     .sort((a, b) => a.order - b.order);
 
-  // Generate available options for multi-select filters
+  // Generate available options for multi-select filters; only one page of deals is loaded,
+  // so owners come from the profiles and statuses from their fixed list
   const availableOptions = useMemo(() => {
-    const regions = Array.from(new Set(deals.map(d => d.region).filter(Boolean)));
-    const leadOwners = Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean)));
-    const priorities = Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
-    const probabilities = Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
-    const handoffStatuses = Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean)));
+    const regions = Array.from(new Set(paginatedDeals.map(d => d.region).filter(Boolean)));
+    const leadOwners = allProfiles.map(profile => profile.id);
+    const priorities = Array.from(new Set(paginatedDeals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
+    const probabilities = Array.from(new Set(paginatedDeals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
     
     return {
       regions,
       leadOwners,
       priorities,
       probabilities,
-      handoffStatuses,
+      handoffStatuses: HANDOFF_STATUS_OPTIONS,
     };
-  }, [deals]);
+  }, [paginatedDeals, allProfiles]);
+
+  const profileNames = useMemo(() => Object.fromEntries(allProfiles.map(profile => [profile.id, profile.full_name])), [allProfiles]);
 
   useEffect(() => {
     const savedFilters = localStorage.getItem('deals-filters');
@@ -360,74 +466,6 @@ export const ListView = ({
     localStorage.setItem('deals-filters', JSON.stringify(filtersWithSearch));
   }, [filters, searchTerm]);
 
-  const filteredAndSortedDeals = deals
-    .filter(deal => {
-      // Combine search from both searchTerm and filters.searchTerm
-      const allSearchTerms = [searchTerm, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
-      const matchesSearch = !allSearchTerms || 
-        deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.project_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.region?.toLowerCase().includes(allSearchTerms);
-      
-      // Apply lead owner filter (standalone dropdown)
-      const matchesLeadOwnerDropdown = leadOwnerFilter === "all" || deal.lead_owner === leadOwnerFilter;
-      
-      // Apply multi-select filters
-      const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
-      const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
-      const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
-      const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
-      const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
-      const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
-      
-      // Probability range filter
-      const dealProbability = deal.probability || 0;
-      const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
-      
-      return matchesSearch && matchesLeadOwnerDropdown && matchesStages && matchesRegions && matchesLeadOwners && 
-             matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
-    })
-    .sort((a, b) => {
-      let aValue: any;
-      let bValue: any;
-
-      // Get the values for the sort field
-      if (['priority', 'probability', 'project_duration'].includes(sortBy)) {
-        aValue = a[sortBy as keyof Deal] || 0;
-        bValue = b[sortBy as keyof Deal] || 0;
-      } else if (['total_contract_value', 'total_revenue'].includes(sortBy)) {
-        aValue = a[sortBy as keyof Deal] || 0;
-        bValue = b[sortBy as keyof Deal] || 0;
-      } else if (['expected_closing_date', 'start_date', 'end_date', 'created_at', 'modified_at', 'proposal_due_date'].includes(sortBy)) {
-        const aDateValue = a[sortBy as keyof Deal];
-        const bDateValue = b[sortBy as keyof Deal];
-        aValue = new Date(typeof aDateValue === 'string' ? aDateValue : 0);
-        bValue = new Date(typeof bDateValue === 'string' ? bDateValue : 0);
-      } else {
-        // String fields
-        aValue = String(a[sortBy as keyof Deal] || '').toLowerCase();
-        bValue = String(b[sortBy as keyof Deal] || '').toLowerCase();
-      }
-
-      if (sortOrder === "asc") {
-        return aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
-      } else {
-        return aValue > bValue ? -1 : aValue < bValue ? 1 : 0;
-      }
-    });
-
-  // Pagination
-  const totalPages = Math.ceil(filteredAndSortedDeals.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedDeals = filteredAndSortedDeals.slice(startIndex, startIndex + itemsPerPage);
-
-  // Reset to first page when filters change
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [filters, searchTerm, leadOwnerFilter]);
-
   const getActiveFiltersCount = () => {
     let count = 0;
     if (filters.stages.length > 0) count++;
@@ -453,13 +491,14 @@ export const ListView = ({
       probabilityRange: [0, 100],
     });
     setSearchTerm("");
+    setSearchGroups([]);
   };
 
   const activeFiltersCount = getActiveFiltersCount();
-  const hasActiveFilters = activeFiltersCount > 0 || searchTerm !== "";
+  const hasActiveFilters = activeFiltersCount > 0 || searchTerm !== "" || searchGroups.length > 0;
 
   // Get selected deal objects for export
-  const selectedDealObjects = deals.filter(deal => selectedDeals.has(deal.id));
+  const selectedDealObjects = paginatedDeals.filter(deal => selectedDeals.has(deal.id));
 
   const handleCreateTask = (deal: Deal) => {
     setTaskDealId(deal.id);
@@ -471,14 +510,14 @@ export const ListView = ({
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input
+          <div className="w-80">
+            <AdvancedSearchBar
+              fields={advancedSearchFields}
+              onSearch={setSearchGroups}
+              activeGroups={searchGroups}
               placeholder="Search deals..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-9"
-              inputSize="control"
+              simpleSearch={searchTerm}
+              onSimpleSearchChange={setSearchTerm}
             />
           </div>
           
@@ -490,7 +529,7 @@ export const ListView = ({
               <SelectItem value="all">All Lead Owners</SelectItem>
               {availableOptions.leadOwners.map((owner) => (
                 <SelectItem key={owner} value={owner}>
-                  {owner}
+                  {profileNames[owner] || owner}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -509,9 +548,8 @@ export const ListView = ({
           <ClearFiltersButton hasActiveFilters={hasActiveFilters} onClear={clearAllFilters} />
 
           <DealActionsDropdown
-            deals={deals}
             onImport={onImportDeals}
-            onRefresh={() => {}}
+            onRefresh={refetch}
             selectedDeals={selectedDealObjects}
             onColumnCustomize={() => setColumnCustomizerOpen(true)}
             showColumns={true}
@@ -532,6 +570,16 @@ export const ListView = ({
         </div>
       </div>
 
+      <SelectAllMatchingBanner
+        selectedCount={selectedDeals.size}
+        pageCount={paginatedDeals.length}
+        totalCount={totalCount}
+        allMatchingSelected={!!matchingSelection}
+        itemType="deals"
+        onSelectAllMatching={() => setMatchingSelection({ count: totalCount, filters: dealFilters })}
+        onClearSelection={() => handleSelectAll(false)}
+      />
+
       <Card className="flex-1 min-h-0 flex flex-col">
         <div className="relative overflow-auto flex-1">
         <Table ref={tableRef} className="w-full">
@@ -539,7 +587,7 @@ export const ListView = ({
             <TableRow className="sticky top-0 z-20 bg-muted border-b-2">
               <TableHead className="w-12 min-w-12 text-center font-bold text-foreground">
                 <Checkbox
-                  checked={selectedDeals.size === paginatedDeals.length && paginatedDeals.length > 0}
+                  checked={!!matchingSelection || (paginatedDeals.length > 0 && paginatedDeals.every(deal => selectedDeals.has(deal.id)))}
                   onCheckedChange={handleSelectAll}
                   className="transition-all hover:scale-110"
                 />
@@ -581,7 +629,7 @@ export const ListView = ({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAndSortedDeals.length === 0 ? (
+            {paginatedDeals.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={visibleColumns.length + 2} className="text-center py-8">
                   <div className="flex flex-col items-center gap-2 text-muted-foreground">
@@ -599,13 +647,13 @@ export const ListView = ({
               paginatedDeals.map((deal) => (
                 <TableRow 
                   key={deal.id} 
-                  className={`hover:bg-muted/20 border-b group ${selectedDeals.has(deal.id) ? 'bg-muted/30' : ''}`}
-                  data-state={selectedDeals.has(deal.id) ? "selected" : undefined}
+                  className={`hover:bg-muted/20 border-b group ${matchingSelection || selectedDeals.has(deal.id) ? 'bg-muted/30' : ''}`}
+                  data-state={matchingSelection || selectedDeals.has(deal.id) ? "selected" : undefined}
                 >
                   <TableCell onClick={(e) => e.stopPropagation()} className="text-center px-4 py-3">
                     <div className="flex justify-center">
                       <Checkbox
-                        checked={selectedDeals.has(deal.id)}
+                        checked={!!matchingSelection || selectedDeals.has(deal.id)}
                         onCheckedChange={(checked) => handleSelectDeal(deal.id, Boolean(checked))}
                       />
                     </div>
@@ -637,7 +685,7 @@ export const ListView = ({
                         </span>
                       ) : column.field === 'stage' ? (
                         deal.stage ? (
-                          <Badge variant="outline" className={`whitespace-nowrap ${getStageBadgeClasses(deal.stage)}`}>
+                          <Badge variant="outline" className="whitespace-nowrap" style={getStageStyle(deal.stage)}>
                             {deal.stage}
                           </Badge>
                         ) : <span className="text-muted-foreground">-</span>
@@ -665,6 +713,8 @@ export const ListView = ({
                         <span className="truncate block">{deal.region || '-'}</span>
                       ) : column.field === 'project_duration' ? (
                         <span className="truncate block">{deal.project_duration ? `${deal.project_duration} months` : '-'}</span>
+                      ) : getCustomFieldName(column.field) ? (
+                        <span className="truncate block">{formatCustomFieldColumn(customFields, deal, column.field) || '-'}</span>
                       ) : (
                         <span title={deal[column.field as keyof Deal]?.toString() || '-'} className="truncate block">
                           {deal[column.field as keyof Deal]?.toString() || '-'}
@@ -709,12 +759,12 @@ export const ListView = ({
       </Card>
 
       {/* Bulk Actions */}
-      {selectedDeals.size > 0 && (
+      {(selectedDeals.size > 0 || matchingSelection) && (
         <BulkActionsBar
-          selectedCount={selectedDeals.size}
+          selectedCount={matchingSelection?.count ?? selectedDeals.size}
           onDelete={handleBulkDelete}
           onExport={handleBulkExport}
-          onClearSelection={() => setSelectedDeals(new Set())}
+          onClearSelection={() => handleSelectAll(false)}
         />
       )}
 
@@ -723,7 +773,7 @@ export const ListView = ({
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
             <span className="text-sm text-muted-foreground">
-              Showing {filteredAndSortedDeals.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredAndSortedDeals.length)} of {filteredAndSortedDeals.length} deals
+              Showing {totalCount === 0 ? 0 : startIndex + 1} to {Math.min(startIndex + itemsPerPage, totalCount)} of {totalCount} deals
             </span>
           </div>
           <div className="flex items-center gap-2">
@@ -762,7 +812,7 @@ export const ListView = ({
       <DealColumnCustomizer
         open={columnCustomizerOpen}
         onOpenChange={setColumnCustomizerOpen}
-        columns={columns}
+        columns={tableColumns}
         onColumnsChange={setColumns}
       />
 
@@ -783,6 +833,14 @@ export const ListView = ({
         itemName={dealToDelete?.project_name || 'this deal'}
         itemType="deal"
       />
+
+      <StageGateDialog
+        deal={stageGate?.deal || null}
+        targetStage={stageGate?.stage || null}
+        missingFields={stageGate?.missingFields || []}
+        onClose={() => setStageGate(null)}
+        onUpdateDeal={onUpdateDeal}
+      />
     </div>
   );
 };
@@ -52,7 +52,9 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
     const leadMatch = message.match(/lead[:\s]+([a-f0-9-]{36})/);
     
     // Navigate based on the notification content and available IDs
-    if (notification.lead_id) {
+    if (notification.notification_type === 'approval') {
+      navigate(notification.approval_request_id ? `/approvals?requestId=${notification.approval_request_id}` : '/approvals');
+    } else if (notification.lead_id) {
       // Direct lead ID available, navigate to leads page
       navigate(`/leads?highlight=${notification.lead_id}`);
     } else if (dealMatch) {
@@ -103,6 +105,8 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
         return '👤';
       case 'deal_update':
         return '💼';
+      case 'approval':
+        return '✅';
       default:
         return '🔔';
     }
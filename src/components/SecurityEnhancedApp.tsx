@@ -2,6 +2,7 @@
 import React from 'react';
 import { SecurityProvider } from '@/components/SecurityProvider';
 import { AuthProvider } from '@/hooks/useAuth';
+import { UserPreferencesProvider } from '@/contexts/UserPreferencesContext';
 
 interface SecurityEnhancedAppProps {
   children: React.ReactNode;
@@ -10,9 +11,11 @@ interface SecurityEnhancedAppProps {
 const SecurityEnhancedApp = ({ children }: SecurityEnhancedAppProps) => {
   return (
     <AuthProvider>
-      <SecurityProvider>
-        {children}
-      </SecurityProvider>
+      <UserPreferencesProvider>
+        <SecurityProvider>
+          {children}
+        </SecurityProvider>
+      </UserPreferencesProvider>
     </AuthProvider>
   );
 };
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
@@ -8,7 +8,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Paperclip, X, FileIcon } from "lucide-react";
+import { Mail, Send, Loader2, Paperclip, X, FileIcon, FileText } from "lucide-react";
+import { DealDocument, fetchDealDocuments, downloadDealDocument, markDealDocumentsSent } from "@/hooks/useDealDocuments";
+import { buildRecipientContext, TemplateRecordRef, useTemplateContext } from "@/hooks/useTemplateContext";
+import { findEmptyVariables, hasTemplateIssues, renderTemplate, validateTemplate } from "@/utils/emailTemplateEngine";
+import { TemplateIssuesWarning } from "@/components/shared/TemplateIssuesWarning";
 
 // Generic recipient interface that works with contacts, leads, and accounts
 export interface EmailRecipient {
@@ -32,6 +36,9 @@ interface SendEmailModalProps {
   contactId?: string | null;
   leadId?: string | null;
   accountId?: string | null;
+  // Offers the deal's quote documents as attachments
+  dealId?: string | null;
+  initialDocumentId?: string | null;
   onEmailSent?: () => void;
   // Legacy prop for backwards compatibility
   contact?: {
@@ -42,7 +49,7 @@ interface SendEmailModalProps {
   } | null;
 }
 
-export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadId, accountId, onEmailSent, contact }: SendEmailModalProps) => {
+export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadId, accountId, dealId, initialDocumentId, onEmailSent, contact }: SendEmailModalProps) => {
   const { toast } = useToast();
   const { user } = useAuth();
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
@@ -51,17 +58,42 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
   const [body, setBody] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
+  const [dealDocuments, setDealDocuments] = useState<DealDocument[]>([]);
+  // Attached quote documents, matched to attachments by file
+  const [attachedDocuments, setAttachedDocuments] = useState<{ documentId: string; file: File }[]>([]);
+  const [attachingDocumentId, setAttachingDocumentId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
 
   // Use recipient or convert legacy contact prop
-  const emailRecipient: EmailRecipient | null = recipient || (contact ? {
+  const emailRecipient: EmailRecipient | null = useMemo(() => recipient || (contact ? {
     name: contact.contact_name,
     email: contact.email,
     company_name: contact.company_name,
     position: contact.position,
-  } : null);
+  } : null), [recipient, contact]);
+
+  // Merge fields are filled from the stored record when there is one
+  const templateRecord: TemplateRecordRef | null = contactId
+    ? { type: 'contact', id: contactId }
+    : leadId
+      ? { type: 'lead', id: leadId }
+      : accountId
+        ? { type: 'account', id: accountId }
+        : null;
+  const { data: recordContext, isLoading: contextLoading } = useTemplateContext(open ? templateRecord : null, user?.id);
+
+  const templateContext = useMemo(
+    () => recordContext || buildRecipientContext(emailRecipient || {}, { email: senderEmail }),
+    [recordContext, emailRecipient, senderEmail]
+  );
+  const validation = useMemo(() => validateTemplate(subject, body), [subject, body]);
+  const emptyVariables = useMemo(() => findEmptyVariables(templateContext, subject, body), [templateContext, subject, body]);
+  const usesMergeFields = `${subject}${body}`.includes('{{');
+  const renderedSubject = useMemo(() => renderTemplate(subject.trim(), templateContext, { escape: false }), [subject, templateContext]);
+  const renderedBody = useMemo(() => renderTemplate(body.trim(), templateContext), [body, templateContext]);
+  const previewBody = useMemo(() => renderTemplate(body.trim(), templateContext, { escape: false }), [body, templateContext]);
 
   useEffect(() => {
     if (open) {
@@ -70,8 +102,43 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       setSubject("");
       setBody("");
       setAttachments([]);
+      setAttachedDocuments([]);
+      setDealDocuments([]);
+    }
+  }, [open, dealId]);
+
+  const attachDealDocument = useCallback(async (document: DealDocument) => {
+    setAttachingDocumentId(document.id);
+    try {
+      const file = await downloadDealDocument(document);
+      setAttachments(prev => [...prev, file]);
+      setAttachedDocuments(prev => [...prev, { documentId: document.id, file }]);
+    } catch (error) {
+      console.error('Error attaching deal document:', error);
+      toast({
+        title: "Attachment failed",
+        description: `Could not attach ${document.file_name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setAttachingDocumentId(null);
     }
-  }, [open]);
+  }, [toast]);
+
+  const loadDealDocuments = useCallback(async (id: string) => {
+    try {
+      const documents = await fetchDealDocuments(id);
+      setDealDocuments(documents);
+      const initial = documents.find(document => document.id === initialDocumentId);
+      if (initial) attachDealDocument(initial);
+    } catch (error) {
+      console.error('Error fetching deal documents:', error);
+    }
+  }, [initialDocumentId, attachDealDocument]);
+
+  useEffect(() => {
+    if (open && dealId) loadDealDocuments(dealId);
+  }, [open, dealId, loadDealDocuments]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -100,7 +167,9 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
   };
 
   const removeAttachment = (index: number) => {
+    const removed = attachments[index];
     setAttachments(prev => prev.filter((_, i) => i !== index));
+    setAttachedDocuments(prev => prev.filter(attached => attached.file !== removed));
   };
 
   const formatFileSize = (bytes: number): string => {
@@ -137,17 +206,6 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
   };
 
-  const replaceVariables = (text: string, recipientData: EmailRecipient | null) => {
-    if (!recipientData) return text;
-    
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipientData.name || '')
-      .replace(/\{\{name\}\}/g, recipientData.name || '')
-      .replace(/\{\{company_name\}\}/g, recipientData.company_name || '')
-      .replace(/\{\{position\}\}/g, recipientData.position || '')
-      .replace(/\{\{email\}\}/g, recipientData.email || '');
-  };
-
   const handleTemplateSelect = (templateId: string) => {
     setSelectedTemplate(templateId);
     
@@ -159,8 +217,8 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
 
     const template = templates.find(t => t.id === templateId);
     if (template) {
-      setSubject(replaceVariables(template.subject, emailRecipient));
-      setBody(replaceVariables(template.body, emailRecipient));
+      setSubject(template.subject);
+      setBody(template.body);
     }
   };
 
@@ -174,7 +232,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       return;
     }
 
-    if (!subject.trim()) {
+    if (!renderedSubject) {
       toast({
         title: "Subject required",
         description: "Please enter an email subject",
@@ -199,8 +257,8 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
         body: {
           to: emailRecipient.email,
           toName: emailRecipient.name,
-          subject: subject.trim(),
-          body: body.trim(),
+          subject: renderedSubject,
+          body: renderedBody,
           from: senderEmail,
           attachments: attachmentData,
         },
@@ -217,8 +275,8 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
         await supabase.from('email_history').insert({
           recipient_email: emailRecipient.email,
           recipient_name: emailRecipient.name,
-          subject: subject.trim(),
-          body: body.trim(),
+          subject: renderedSubject,
+          body: renderedBody,
           sender_email: senderEmail,
           sent_by: user?.id,
           contact_id: contactId || null,
@@ -230,24 +288,29 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
         console.error('Error logging email to history:', historyError);
       }
 
+      try {
+        await markDealDocumentsSent(attachedDocuments.map(attached => attached.documentId), emailRecipient.email);
+      } catch (documentError) {
+        console.error('Error marking deal documents as sent:', documentError);
+      }
+
       // Update contact email tracking stats if contactId is provided
       if (contactId) {
         try {
           // Get current stats
           const { data: contactData } = await supabase
             .from('contacts')
-            .select('email_opens, email_clicks, engagement_score')
+            .select('engagement_score')
             .eq('id', contactId)
             .single();
 
+          // Opens and clicks are counted by the tracking events, not here
           if (contactData) {
-            const newEmailOpens = (contactData.email_opens || 0) + 1;
             const newEngagementScore = Math.min((contactData.engagement_score || 0) + 5, 100);
 
             await supabase
               .from('contacts')
               .update({
-                email_opens: newEmailOpens,
                 engagement_score: newEngagementScore,
                 last_contacted_at: new Date().toISOString(),
               })
@@ -342,8 +405,60 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
               placeholder="Email message..."
               rows={6}
             />
+            {!usesMergeFields && (
+              <p className="text-xs text-muted-foreground">
+                Merge fields such as {'{{first_name | default: "there"}}'} are filled in when the email is sent.
+              </p>
+            )}
           </div>
 
+          {usesMergeFields && (
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              {contextLoading ? (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading merge fields...
+                </div>
+              ) : (
+                <div className="rounded-lg border p-3 space-y-2">
+                  <p className="text-sm font-medium">{renderedSubject || "(no subject)"}</p>
+                  <p className="text-sm whitespace-pre-wrap text-muted-foreground">{previewBody}</p>
+                </div>
+              )}
+              <TemplateIssuesWarning validation={validation} emptyVariables={emptyVariables} />
+            </div>
+          )}
+
+          {dealDocuments.length > 0 && (
+            <div className="space-y-2">
+              <Label>Quote Documents</Label>
+              <div className="flex flex-wrap gap-2">
+                {dealDocuments.map(document => {
+                  const attached = attachedDocuments.some(a => a.documentId === document.id);
+                  return (
+                    <Button
+                      key={document.id}
+                      type="button"
+                      variant={attached ? "secondary" : "outline"}
+                      size="sm"
+                      className="gap-2"
+                      disabled={attached || attachingDocumentId === document.id}
+                      onClick={() => attachDealDocument(document)}
+                    >
+                      {attachingDocumentId === document.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <FileText className="h-4 w-4" />
+                      )}
+                      {document.document_number} v{document.version}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label>Attachments</Label>
             <div className="flex items-center gap-2">
@@ -405,7 +520,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             </Button>
             <Button 
               onClick={handleSendEmail} 
-              disabled={!emailRecipient?.email || isSending}
+              disabled={!emailRecipient?.email || isSending || (usesMergeFields && contextLoading)}
               className="gap-2"
             >
               {isSending ? (
@@ -416,7 +531,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
               ) : (
                 <>
                   <Send className="h-4 w-4" />
-                  Send Email
+                  {hasTemplateIssues(validation) ? "Send Anyway" : "Send Email"}
                 </>
               )}
             </Button>
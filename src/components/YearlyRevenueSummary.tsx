@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TrendingUp, Target, Euro, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
+import { TrendingUp, Target, Banknote, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
 import { NotificationBell } from "@/components/NotificationBell";
 import { useYearlyRevenueData, useAvailableYears } from "@/hooks/useYearlyRevenueData";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { useUserPreferences } from "@/contexts/UserPreferencesContext";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { MissingRateNotice, MissingRateValue } from "@/components/shared/MissingRateNotice";
 interface YearlyRevenueSummaryProps {
   selectedYear?: number;
 }
@@ -41,26 +44,36 @@ const YearlyRevenueSummary = ({
   } = useYearlyRevenueData(selectedYear);
   const [editingTarget, setEditingTarget] = useState(false);
   const [targetValue, setTargetValue] = useState('');
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'EUR',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
+  const {
+    formatCurrency
+  } = useUserPreferences();
+  const {
+    reportingCurrency,
+    displayCurrency,
+    convert
+  } = useExchangeRates();
   const getProgressPercentage = (actual: number, target: number) => {
     if (target === 0) return 0;
     return actual / target * 100;
   };
   const handleSaveTarget = async () => {
     if (!user || !targetValue) return;
+    // Entered in the display currency, stored in the reporting currency
+    const totalTarget = convert(Number(targetValue), displayCurrency, undefined, reportingCurrency);
+    if (totalTarget === null) {
+      toast({
+        title: "Missing rate",
+        description: `No exchange rate from ${displayCurrency} to ${reportingCurrency}, so the target can't be stored`,
+        variant: "destructive"
+      });
+      return;
+    }
     try {
       const {
         error
       } = await supabase.from('yearly_revenue_targets').upsert({
         year: selectedYear,
-        total_target: Number(targetValue),
+        total_target: totalTarget,
         created_by: user.id
       }, {
         onConflict: 'year'
@@ -167,7 +180,9 @@ const YearlyRevenueSummary = ({
                 />
               </div>
             ) : (
-              <div className="text-2xl font-bold">{formatCurrency(revenueData?.target || 0)}</div>
+              <div className="text-2xl font-bold">
+                {revenueData && revenueData.target === null ? <MissingRateValue className="text-base" /> : formatCurrency(revenueData?.target || 0)}
+              </div>
             )}
             <p className="text-xs text-muted-foreground">Set for {selectedYear}</p>
           </CardContent>
@@ -176,7 +191,7 @@ const YearlyRevenueSummary = ({
         <Card className="hover-scale cursor-pointer" onClick={() => handleCardClick('actual')}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Actual Revenue</CardTitle>
-            <Euro className="w-4 h-4 text-green-600" />
+            <Banknote className="w-4 h-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
@@ -211,6 +226,7 @@ const YearlyRevenueSummary = ({
               {formatCurrency(totalCombined)}
             </div>
             <p className="text-xs text-muted-foreground">Actual + Projected</p>
+            <MissingRateNotice count={revenueData?.missingRateDeals || 0} className="mt-1" />
           </CardContent>
         </Card>
       </div>
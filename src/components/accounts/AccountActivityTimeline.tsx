@@ -15,6 +15,7 @@ import {
   Loader2
 } from "lucide-react";
 import { format } from "date-fns";
+import { formatCurrency } from "@/utils/formatUtils";
 
 interface TimelineItem {
   id: string;
@@ -77,22 +78,13 @@ export const AccountActivityTimeline = ({ accountId }: AccountActivityTimelinePr
         .eq('account_id', accountId)
         .order('created_time', { ascending: false });
 
-      // Fetch deals (by matching customer_name to account company_name)
-      const { data: account } = await supabase
-        .from('accounts')
-        .select('company_name')
-        .eq('id', accountId)
-        .single();
-
-      let deals: any[] = [];
-      if (account?.company_name) {
-        const { data: dealData } = await supabase
-          .from('deals')
-          .select('id, deal_name, stage, total_contract_value, created_at')
-          .eq('customer_name', account.company_name)
-          .order('created_at', { ascending: false });
-        deals = dealData || [];
-      }
+      // Fetch deals linked to this account
+      const { data: dealData } = await supabase
+        .from('deals')
+        .select('id, deal_name, stage, total_contract_value, currency_type, created_at')
+        .eq('account_id', accountId)
+        .order('created_at', { ascending: false });
+      const deals = dealData || [];
 
       // Combine into timeline
       const items: TimelineItem[] = [];
@@ -132,7 +124,7 @@ export const AccountActivityTimeline = ({ accountId }: AccountActivityTimelinePr
           id: `deal-${deal.id}`,
           type: 'deal',
           title: `Deal created: ${deal.deal_name}`,
-          description: `Stage: ${deal.stage}${deal.total_contract_value ? ` • Value: $${deal.total_contract_value.toLocaleString()}` : ''}`,
+          description: `Stage: ${deal.stage}${deal.total_contract_value ? ` • Value: ${formatCurrency(deal.total_contract_value, deal.currency_type || 'EUR')}` : ''}`,
           date: deal.created_at,
           icon: <Briefcase className="h-4 w-4" />,
           metadata: { stage: deal.stage }
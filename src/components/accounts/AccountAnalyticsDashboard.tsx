@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Building2, Users, Briefcase, TrendingUp, Activity, DollarSign, BarChart3, PieChart as PieChartIcon, Loader2 } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
+import { usePicklist } from "@/hooks/usePicklists";
+import { getPicklistGroup } from "@/utils/picklistUtils";
 interface Account {
   id: string;
   company_name: string;
@@ -13,10 +15,14 @@ interface Account {
   score?: number;
   industry?: string;
   region?: string;
+  deal_count?: number;
+  total_revenue?: number;
 }
 export const AccountAnalyticsDashboard = () => {
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [loading, setLoading] = useState(true);
+  const { values: segments, getColor: getSegmentColor } = usePicklist('segment');
+  const { values: industries } = usePicklist('industry');
   useEffect(() => {
     fetchAccounts();
   }, []);
@@ -26,7 +32,7 @@ export const AccountAnalyticsDashboard = () => {
       const {
         data,
         error
-      } = await supabase.from('accounts').select('id, company_name, status, segment, score, industry, region').order('company_name');
+      } = await supabase.from('accounts').select('id, company_name, status, segment, score, industry, region, deal_count, total_revenue').order('company_name');
       if (error) throw error;
       setAccounts(data || []);
     } catch (error) {
@@ -52,29 +58,34 @@ export const AccountAnalyticsDashboard = () => {
 
   // Segment distribution
   const segmentData = useMemo(() => {
-    const segments: Record<string, number> = {};
+    const counts: Record<string, number> = {};
     accounts.forEach(a => {
-      const seg = a.segment || 'Prospect';
-      segments[seg] = (segments[seg] || 0) + 1;
+      const seg = getPicklistGroup(segments, a.segment, 'prospect');
+      counts[seg] = (counts[seg] || 0) + 1;
     });
-    return Object.entries(segments).map(([name, value]) => ({
+    // Slices follow the picklist order; values no longer on the list come last
+    const order = (name: string) => {
+      const index = segments.findIndex(s => s.value === name);
+      return index === -1 ? segments.length : index;
+    };
+    return Object.entries(counts).map(([name, value]) => ({
       name,
       value
-    }));
-  }, [accounts]);
+    })).sort((a, b) => order(a.name) - order(b.name));
+  }, [accounts, segments]);
 
   // Industry distribution
   const industryData = useMemo(() => {
-    const industries: Record<string, number> = {};
+    const counts: Record<string, number> = {};
     accounts.forEach(a => {
-      const ind = a.industry || 'Unknown';
-      industries[ind] = (industries[ind] || 0) + 1;
+      const ind = getPicklistGroup(industries, a.industry, 'Unknown');
+      counts[ind] = (counts[ind] || 0) + 1;
     });
-    return Object.entries(industries).map(([name, value]) => ({
+    return Object.entries(counts).map(([name, value]) => ({
       name,
       value
     })).sort((a, b) => b.value - a.value).slice(0, 8);
-  }, [accounts]);
+  }, [accounts, industries]);
 
   // Score distribution
   const scoreData = useMemo(() => {
@@ -115,6 +126,19 @@ export const AccountAnalyticsDashboard = () => {
     }));
   }, [accounts]);
 
+  // Accounts with the most linked deals (deal_count is maintained by account_id)
+  const topDealAccounts = useMemo(() => {
+    return accounts
+      .filter(a => (a.deal_count || 0) > 0)
+      .sort((a, b) => (b.deal_count || 0) - (a.deal_count || 0) || (b.total_revenue || 0) - (a.total_revenue || 0))
+      .slice(0, 8)
+      .map(a => ({
+        name: a.company_name,
+        deals: a.deal_count || 0,
+        revenue: a.total_revenue || 0
+      }));
+  }, [accounts]);
+
   // Status distribution
   const statusData = useMemo(() => {
     const statuses: Record<string, number> = {};
@@ -205,7 +229,7 @@ export const AccountAnalyticsDashboard = () => {
                 name,
                 percent
               }) => `${name} ${(percent * 100).toFixed(0)}%`} labelLine={false}>
-                    {segmentData.map((entry, index) => <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />)}
+                    {segmentData.map((entry, index) => <Cell key={`cell-${index}`} fill={getSegmentColor(entry.name) || COLORS[index % COLORS.length]} />)}
                   </Pie>
                   <Tooltip contentStyle={{
                 backgroundColor: 'hsl(var(--popover))',
@@ -302,6 +326,33 @@ export const AccountAnalyticsDashboard = () => {
             </ResponsiveContainer>
           </CardContent>
         </Card>
+
+        {/* Top Accounts by Deals */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <Briefcase className="h-4 w-4" />
+              Top Accounts by Deals
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {topDealAccounts.length > 0 ? <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={topDealAccounts}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="name" className="text-xs" />
+                  <YAxis allowDecimals={false} className="text-xs" />
+                  <Tooltip contentStyle={{
+                backgroundColor: 'hsl(var(--popover))',
+                border: '1px solid hsl(var(--border))',
+                borderRadius: '8px'
+              }} />
+                  <Bar dataKey="deals" name="Deals" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer> : <div className="flex items-center justify-center h-[250px] text-muted-foreground">
+                No deals linked to accounts yet
+              </div>}
+          </CardContent>
+        </Card>
       </div>
     </div>;
 };
\ No newline at end of file
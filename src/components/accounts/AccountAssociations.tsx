@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { User, Briefcase, ExternalLink, Loader2, Mail, Phone } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { formatCurrency } from "@/utils/formatUtils";
 
 interface Contact {
   id: string;
@@ -20,15 +21,15 @@ interface Deal {
   deal_name: string;
   stage: string;
   total_contract_value?: number;
+  currency_type?: string;
   probability?: number;
 }
 
 interface AccountAssociationsProps {
   accountId: string;
-  companyName: string;
 }
 
-export const AccountAssociations = ({ accountId, companyName }: AccountAssociationsProps) => {
+export const AccountAssociations = ({ accountId }: AccountAssociationsProps) => {
   const navigate = useNavigate();
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [deals, setDeals] = useState<Deal[]>([]);
@@ -36,7 +37,7 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
 
   useEffect(() => {
     fetchAssociations();
-  }, [accountId, companyName]);
+  }, [accountId]);
 
   const fetchAssociations = async () => {
     setLoading(true);
@@ -50,16 +51,14 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
 
       setContacts(contactData || []);
 
-      // Fetch deals where customer_name matches company_name
-      if (companyName) {
-        const { data: dealData } = await supabase
-          .from('deals')
-          .select('id, deal_name, stage, total_contract_value, probability')
-          .eq('customer_name', companyName)
-          .order('created_at', { ascending: false });
+      // Fetch deals linked to this account
+      const { data: dealData } = await supabase
+        .from('deals')
+        .select('id, deal_name, stage, total_contract_value, currency_type, probability')
+        .eq('account_id', accountId)
+        .order('created_at', { ascending: false });
 
-        setDeals(dealData || []);
-      }
+      setDeals(dealData || []);
     } catch (error) {
       console.error('Error fetching associations:', error);
     } finally {
@@ -176,7 +175,7 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
                       <p className="font-medium text-sm truncate">{deal.deal_name}</p>
                       {deal.total_contract_value && (
                         <p className="text-xs text-muted-foreground">
-                          ${deal.total_contract_value.toLocaleString()}
+                          {formatCurrency(deal.total_contract_value, deal.currency_type || 'EUR')}
                         </p>
                       )}
                     </div>
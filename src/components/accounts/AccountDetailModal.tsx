@@ -30,6 +30,8 @@ import { AccountActivityTimeline } from "./AccountActivityTimeline";
 import { AccountAssociations } from "./AccountAssociations";
 import { ActivityLogModal } from "./ActivityLogModal";
 import { AccountScoreBadge, AccountSegmentBadge } from "./AccountScoreBadge";
+import { usePicklist } from "@/hooks/usePicklists";
+import { getPicklistBadgeStyle } from "@/utils/picklistUtils";
 
 interface Account {
   id: string;
@@ -61,6 +63,7 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
   const { toast } = useToast();
   const [showActivityLog, setShowActivityLog] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  const { getColor: getStatusPicklistColor } = usePicklist('account_status');
 
   if (!account) return null;
 
@@ -103,7 +106,7 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
                   {account.company_name}
                 </DialogTitle>
                 <div className="flex items-center gap-2 mt-2">
-                  <Badge className={getStatusColor(account.status)}>
+                  <Badge className={getStatusColor(account.status)} style={getPicklistBadgeStyle(getStatusPicklistColor(account.status))}>
                     {account.status || 'New'}
                   </Badge>
                   <AccountSegmentBadge segment={account.segment || 'prospect'} />
@@ -253,10 +256,7 @@ export const AccountDetailModal = ({ open, onOpenChange, account, onUpdate, onEd
             </TabsContent>
 
             <TabsContent value="associations" className="mt-4">
-              <AccountAssociations 
-                accountId={account.id} 
-                companyName={account.company_name} 
-              />
+              <AccountAssociations accountId={account.id} />
             </TabsContent>
           </Tabs>
         </DialogContent>
@@ -1,6 +1,8 @@
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { TrendingUp, Target } from "lucide-react";
+import { usePicklist } from "@/hooks/usePicklists";
+import { getPicklistBadgeStyle } from "@/utils/picklistUtils";
 
 interface AccountScoreBadgeProps {
   score: number;
@@ -67,6 +69,8 @@ interface AccountSegmentBadgeProps {
 }
 
 export const AccountSegmentBadge = ({ segment }: AccountSegmentBadgeProps) => {
+  const { getColor } = usePicklist('segment');
+
   const getSegmentColor = (segment: string) => {
     switch (segment?.toLowerCase()) {
       case 'enterprise': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
@@ -80,17 +84,8 @@ export const AccountSegmentBadge = ({ segment }: AccountSegmentBadgeProps) => {
   };
 
   return (
-    <Badge className={getSegmentColor(segment)}>
+    <Badge className={getSegmentColor(segment)} style={getPicklistBadgeStyle(getColor(segment))}>
       {segment || 'Prospect'}
     </Badge>
   );
 };
-
-export const SEGMENT_OPTIONS = [
-  { value: 'prospect', label: 'Prospect' },
-  { value: 'customer', label: 'Customer' },
-  { value: 'enterprise', label: 'Enterprise' },
-  { value: 'mid-market', label: 'Mid-Market' },
-  { value: 'smb', label: 'SMB' },
-  { value: 'startup', label: 'Startup' },
-];
@@ -351,8 +351,7 @@ export const ContactDetailModal = ({
                   )}
                 </div>
                 <ContactEmailTracking
-                  emailOpens={contact.email_opens || 0}
-                  emailClicks={contact.email_clicks || 0}
+                  contactId={contact.id}
                   engagementScore={contact.engagement_score || 0}
                 />
               </div>
@@ -1,61 +1,105 @@
-import { Mail, MousePointer, TrendingUp } from 'lucide-react';
+import { format } from 'date-fns';
+import { ExternalLink, Mail, MousePointer, TrendingUp } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { useContactEmailEvents } from '@/hooks/useEmailEvents';
 
 interface ContactEmailTrackingProps {
-  emailOpens: number;
-  emailClicks: number;
+  contactId: string;
   engagementScore: number;
 }
 
+// Opens and clicks come from the event log, without scanner and privacy-proxy traffic
 export const ContactEmailTracking = ({
-  emailOpens,
-  emailClicks,
+  contactId,
   engagementScore,
 }: ContactEmailTrackingProps) => {
+  const { data } = useContactEmailEvents(contactId);
+  const emailOpens = data?.opens.human ?? 0;
+  const emailClicks = data?.clicks.human ?? 0;
+  const linkClicks = data?.links ?? [];
   const openRate = emailOpens > 0 ? Math.min((emailOpens / 10) * 100, 100) : 0;
-  const clickRate = emailClicks > 0 && emailOpens > 0 ? (emailClicks / emailOpens) * 100 : 0;
+  const uniqueOpens = data?.opens.unique ?? 0;
+  const clickRate = uniqueOpens > 0 ? ((data?.clicks.unique ?? 0) / uniqueOpens) * 100 : 0;
+  const machineEvents = (data?.opens.machine ?? 0) + (data?.clicks.machine ?? 0);
 
   return (
-    <div className="grid grid-cols-3 gap-4">
-      <Card>
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <Mail className="h-4 w-4 text-blue-500" />
-            Email Opens
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{emailOpens}</div>
-          <Progress value={openRate} className="mt-2 h-1" />
-        </CardContent>
-      </Card>
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Mail className="h-4 w-4 text-blue-500" />
+              Email Opens
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{emailOpens}</div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {uniqueOpens} {uniqueOpens === 1 ? 'email' : 'emails'} opened
+            </div>
+            <Progress value={openRate} className="mt-2 h-1" />
+          </CardContent>
+        </Card>
 
-      <Card>
-        <CardHeader className="pb-2">
-          <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <MousePointer className="h-4 w-4 text-green-500" />
-            Email Clicks
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{emailClicks}</div>
-          <div className="text-xs text-muted-foreground mt-1">
-            {clickRate.toFixed(1)}% click rate
-          </div>
-        </CardContent>
-      </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <MousePointer className="h-4 w-4 text-green-500" />
+              Email Clicks
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{emailClicks}</div>
+            <div className="text-xs text-muted-foreground mt-1">
+              {clickRate.toFixed(1)}% click rate
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <TrendingUp className="h-4 w-4 text-purple-500" />
+              Engagement
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{engagementScore}</div>
+            <Progress value={engagementScore} className="mt-2 h-1" />
+          </CardContent>
+        </Card>
+      </div>
 
       <Card>
         <CardHeader className="pb-2">
           <CardTitle className="text-sm font-medium flex items-center gap-2">
-            <TrendingUp className="h-4 w-4 text-purple-500" />
-            Engagement
+            <ExternalLink className="h-4 w-4 text-green-500" />
+            Clicked Links
           </CardTitle>
+          {machineEvents > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {machineEvents} automated {machineEvents === 1 ? 'open or click' : 'opens and clicks'} from mail scanners not counted
+            </p>
+          )}
         </CardHeader>
         <CardContent>
-          <div className="text-2xl font-bold">{engagementScore}</div>
-          <Progress value={engagementScore} className="mt-2 h-1" />
+          {linkClicks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No links clicked yet</p>
+          ) : (
+            <div className="space-y-2">
+              {linkClicks.map(link => (
+                <div key={link.url} className="flex items-center justify-between gap-3 text-sm">
+                  <a href={link.url} target="_blank" rel="noopener noreferrer" className="truncate text-primary hover:underline" title={link.url}>
+                    {link.url}
+                  </a>
+                  <span className="flex-shrink-0 text-xs text-muted-foreground">
+                    {link.clicks} {link.clicks === 1 ? 'click' : 'clicks'} · {format(new Date(link.lastClickedAt), 'dd/MM/yyyy HH:mm')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
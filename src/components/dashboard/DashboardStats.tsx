@@ -1,16 +1,28 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, Users, Euro } from "lucide-react";
+import { BarChart3, Users, Banknote } from "lucide-react";
 import { Deal } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { useUserPreferences } from "@/contexts/UserPreferencesContext";
+import { getDealConversionDate } from "@/utils/currencyUtils";
+import { MissingRateNotice } from "@/components/shared/MissingRateNotice";
 
 interface DashboardStatsProps {
   deals: Deal[];
 }
 
 export const DashboardStats = ({ deals }: DashboardStatsProps) => {
+  const { isWonStage } = usePipelineStages();
   const totalDeals = deals.length;
-  const totalValue = deals.reduce((sum, deal) => sum + (deal.total_contract_value || 0), 0);
-  const wonDeals = deals.filter(deal => deal.stage === 'Won').length;
+  const { convert } = useExchangeRates();
+  const { formatCurrency } = useUserPreferences();
+  const values = deals.map(deal =>
+    convert(deal.total_contract_value, deal.currency_type, getDealConversionDate(deal, isWonStage(deal.stage)))
+  );
+  const totalValue = values.reduce((sum, value) => sum + (value ?? 0), 0);
+  const missingRates = values.filter(value => value === null).length;
+  const wonDeals = deals.filter(deal => isWonStage(deal.stage)).length;
 
   return (
     <div className="w-full px-6 py-6">
@@ -28,12 +40,13 @@ export const DashboardStats = ({ deals }: DashboardStatsProps) => {
         <Card className="animate-fade-in hover-scale">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Total Value</CardTitle>
-            <Euro className="w-4 h-4 text-muted-foreground" />
+            <Banknote className="w-4 h-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              €{totalValue.toLocaleString()}
+              {formatCurrency(totalValue)}
             </div>
+            <MissingRateNotice count={missingRates} className="mt-1" />
           </CardContent>
         </Card>
         
@@ -0,0 +1,177 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Timer, Trophy, AlertTriangle, Layers } from "lucide-react";
+import { FunnelChart, Funnel, LabelList, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { useDealVelocity } from "@/hooks/useDealVelocity";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useUserPreferences } from "@/contexts/UserPreferencesContext";
+import { MissingRateNotice } from "@/components/shared/MissingRateNotice";
+
+interface PipelineVelocityAnalyticsProps {
+  selectedYear: number;
+}
+
+const WON_COLOR = '#16a34a';
+const FALLBACK_COLOR = '#64748b';
+
+const formatDays = (days: number) => `${days < 10 ? days.toFixed(1) : Math.round(days)} d`;
+
+const PipelineVelocityAnalytics = ({ selectedYear }: PipelineVelocityAnalyticsProps) => {
+  const { velocity, isLoading } = useDealVelocity(selectedYear);
+  const { getStage, isWonStage } = usePipelineStages();
+  const { formatCurrency } = useUserPreferences();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-8 w-64" />
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map(i => <Skeleton key={i} className="h-28" />)}
+        </div>
+        <Skeleton className="h-72" />
+      </div>
+    );
+  }
+
+  if (!velocity || velocity.cohortSize === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Pipeline Velocity - {selectedYear}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground">No deals were created in {selectedYear}.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const funnelData = velocity.funnel.map(step => ({
+    ...step,
+    fill: isWonStage(step.stage) ? WON_COLOR : getStage(step.stage)?.stage_color || FALLBACK_COLOR,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold">Pipeline Velocity - {selectedYear}</h2>
+        <p className="text-sm text-muted-foreground">
+          Based on the stage history of the {velocity.cohortSize} deals created in {selectedYear}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Average Cycle</CardTitle>
+            <Timer className="w-4 h-4 text-blue-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatDays(velocity.avgCycleDays)}</div>
+            <p className="text-xs text-muted-foreground">Created to won</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Win Rate</CardTitle>
+            <Trophy className="w-4 h-4 text-green-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{velocity.winRate.toFixed(1)}%</div>
+            <p className="text-xs text-muted-foreground">
+              {velocity.wonDeals} won / {velocity.lostDeals} lost
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Slowest Stage</CardTitle>
+            <AlertTriangle className="w-4 h-4 text-orange-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{velocity.slowestStage?.stage || '-'}</div>
+            <p className="text-xs text-muted-foreground">
+              {velocity.slowestStage ? `${formatDays(velocity.slowestStage.avgDaysInStage)} on average` : 'Not enough history'}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Deals in Cohort</CardTitle>
+            <Layers className="w-4 h-4 text-purple-600" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{velocity.cohortSize}</div>
+            <p className="text-xs text-muted-foreground">Created in {selectedYear}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Stage Funnel</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ResponsiveContainer width="100%" height={300}>
+              <FunnelChart>
+                <Tooltip
+                  formatter={(value: number, _name, item) => [
+                    `${value} deals (${formatCurrency(item.payload.value)})`,
+                    item.payload.stage,
+                  ]}
+                />
+                <Funnel dataKey="deals" data={funnelData} isAnimationActive={false}>
+                  {funnelData.map(step => <Cell key={step.stage} fill={step.fill} />)}
+                  <LabelList position="right" dataKey="stage" fill="currentColor" stroke="none" className="text-xs" />
+                </Funnel>
+              </FunnelChart>
+            </ResponsiveContainer>
+            <MissingRateNotice count={velocity.missingRateDeals} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Time in Stage and Conversion</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Avg Time</TableHead>
+                  <TableHead className="text-right">Open Now</TableHead>
+                  <TableHead className="text-right">Avg Age</TableHead>
+                  <TableHead className="text-right">To Next</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {velocity.stages.map(stage => (
+                  <TableRow
+                    key={stage.stage}
+                    className={stage.stage === velocity.slowestStage?.stage ? 'bg-orange-50 dark:bg-orange-950/30' : undefined}
+                  >
+                    <TableCell className="font-medium">{stage.stage}</TableCell>
+                    <TableCell className="text-right">{formatDays(stage.avgDaysInStage)}</TableCell>
+                    <TableCell className="text-right">{stage.currentDeals}</TableCell>
+                    <TableCell className="text-right">{stage.currentDeals ? formatDays(stage.currentAvgAgeDays) : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {stage.conversionToNext === null ? '-' : `${stage.conversionToNext.toFixed(0)}%`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineVelocityAnalytics;
@@ -25,9 +25,14 @@ import { LeadModal } from "@/components/LeadModal";
 import { ContactModal } from "@/components/ContactModal";
 import { AccountModal } from "@/components/AccountModal";
 import { useTasks } from "@/hooks/useTasks";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { getDealConversionDate } from "@/utils/currencyUtils";
 import { Task } from "@/types/task";
 import { EmptyState } from "@/components/shared/EmptyState";
 import { GlobalSearch } from "@/components/shared/GlobalSearch";
+import { EMAIL_EVENT_COLUMNS } from "@/hooks/useEmailEvents";
+import { engagedEmailIds } from "@/utils/emailEventUtils";
 
 const GRID_COLS = 12;
 
@@ -115,6 +120,8 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
   const [createMeetingModalOpen, setCreateMeetingModalOpen] = useState(false);
   
   const { createTask, updateTask } = useTasks();
+  const { wonStageNames, lostStageNames } = usePipelineStages();
+  const { rates, displayCurrency, convert, isLoading: ratesLoading } = useExchangeRates();
 
   useEffect(() => {
     const updateWidth = (): boolean => {
@@ -477,15 +484,16 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
 
   // Deals data - enhanced with stages RFQ, Offered, Won, Lost
   const { data: dealsData, isLoading: dealsLoading } = useQuery({
-    queryKey: ['user-deals-enhanced', user?.id],
+    queryKey: ['user-deals-enhanced', user?.id, wonStageNames, lostStageNames, displayCurrency, rates],
     queryFn: async () => {
-      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, deal_name, created_by, lead_owner, expected_closing_date');
+      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, currency_type, deal_name, created_by, lead_owner, expected_closing_date, signed_contract_date');
       if (error) throw error;
       const userDeals = (data || []).filter(d => d.created_by === user?.id || d.lead_owner === user?.id);
-      const activeDeals = userDeals.filter(d => !['Won', 'Lost', 'Dropped'].includes(d.stage));
-      const wonDeals = userDeals.filter(d => d.stage === 'Won');
-      const totalPipeline = activeDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
-      const wonValue = wonDeals.reduce((sum, d) => sum + (d.total_contract_value || 0), 0);
+      const activeDeals = userDeals.filter(d => !wonStageNames.includes(d.stage) && !lostStageNames.includes(d.stage));
+      const wonDeals = userDeals.filter(d => wonStageNames.includes(d.stage));
+      // Deals in a currency without an exchange rate are left out
+      const totalPipeline = activeDeals.reduce((sum, d) => sum + (convert(d.total_contract_value, d.currency_type, getDealConversionDate(d, false)) ?? 0), 0);
+      const wonValue = wonDeals.reduce((sum, d) => sum + (convert(d.total_contract_value, d.currency_type, getDealConversionDate(d, true)) ?? 0), 0);
       
       return {
         total: userDeals.length,
@@ -502,7 +510,7 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
         }
       };
     },
-    enabled: !!user?.id
+    enabled: !!user?.id && !ratesLoading
   });
 
   // Accounts data - enhanced with status counts
@@ -647,14 +655,22 @@ const UserDashboard = ({ hideHeader = false }: UserDashboardProps) => {
     queryFn: async () => {
       const { data, error } = await supabase
         .from('email_history')
-        .select('id, status, open_count, click_count, subject, sent_at')
+        .select('id, status, subject, sent_at')
         .eq('sent_by', user?.id)
         .order('sent_at', { ascending: false });
       if (error) throw error;
+      // Opened / clicked only count people, not mail scanners or privacy proxies
+      const { data: events, error: eventsError } = await supabase
+        .from('email_events')
+        .select(`${EMAIL_EVENT_COLUMNS}, email_history!inner(sent_by)`)
+        .eq('email_history.sent_by', user?.id)
+        .eq('is_machine', false)
+        .in('event_type', ['open', 'click']);
+      if (eventsError) throw eventsError;
       const emails = data || [];
       const sent = emails.length;
-      const opened = emails.filter(e => (e.open_count || 0) > 0).length;
-      const clicked = emails.filter(e => (e.click_count || 0) > 0).length;
+      const opened = engagedEmailIds(events || [], 'open').size;
+      const clicked = engagedEmailIds(events || [], 'click').size;
       const openRate = sent > 0 ? Math.round((opened / sent) * 100) : 0;
       const clickRate = sent > 0 ? Math.round((clicked / sent) * 100) : 0;
       const recentEmail = emails[0];
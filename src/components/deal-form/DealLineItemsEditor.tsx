@@ -0,0 +1,253 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Deal } from "@/types/deal";
+import { DealLineItem, calculateLineTotal } from "@/types/product";
+import { useProducts } from "@/hooks/useProducts";
+import { useDealLineItems } from "@/hooks/useDealLineItems";
+import { useToast } from "@/hooks/use-toast";
+import { isApprovalPendingError } from "@/utils/approvalUtils";
+import { formatCurrency } from "@/utils/formatUtils";
+
+interface DealLineItemsEditorProps {
+  formData: Partial<Deal>;
+  onFieldChange: (field: string, value: unknown) => void;
+}
+
+const emptyLine = (sortOrder: number): DealLineItem => ({
+  product_id: null,
+  product_name: '',
+  sku: null,
+  description: null,
+  quantity: 1,
+  unit_price: 0,
+  discount_percent: 0,
+  term_months: null,
+  start_date: null,
+  sort_order: sortOrder,
+});
+
+export const DealLineItemsEditor = ({ formData, onFieldChange }: DealLineItemsEditorProps) => {
+  const { toast } = useToast();
+  const { products, priceBooks, defaultPriceBook, getListPrice } = useProducts();
+  const { lineItems, isLoading, saveLineItems } = useDealLineItems(formData.id);
+  const [draft, setDraft] = useState<DealLineItem[]>([]);
+  const [dirty, setDirty] = useState(false);
+
+  const currency = formData.currency_type || 'EUR';
+  const priceBookId = formData.price_book_id || defaultPriceBook?.id || '';
+
+  useEffect(() => {
+    setDraft(lineItems);
+    setDirty(false);
+  }, [lineItems]);
+
+  const updateLine = (index: number, changes: Partial<DealLineItem>) => {
+    setDraft(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+    setDirty(true);
+  };
+
+  const handleProductSelect = (index: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    if (!product) return;
+    updateLine(index, {
+      product_id: product.id,
+      product_name: product.name,
+      sku: product.sku,
+      description: product.description,
+      unit_price: getListPrice(product.id, currency, priceBookId) ?? 0,
+      term_months: product.billing_type === 'recurring' ? Number(formData.project_duration) || 12 : null,
+    });
+  };
+
+  const handleSave = async () => {
+    if (draft.some(line => !line.product_name)) {
+      toast({ title: "Choose a product", description: "Every line needs a product.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const totals = await saveLineItems.mutateAsync(draft);
+      Object.entries(totals).forEach(([field, value]) => onFieldChange(field, value));
+      toast({ title: "Line items saved", description: "Contract value and quarterly revenue were updated from the lines." });
+    } catch (error) {
+      console.error('Error saving deal line items:', error);
+      toast({
+        title: isApprovalPendingError(error) ? "Awaiting approval" : "Error",
+        description: isApprovalPendingError(error)
+          ? "This deal has a pending approval request. Line items can be changed once it is decided."
+          : `Failed to save line items: ${(error as { message?: string }).message || 'Unknown error'}`,
+        variant: isApprovalPendingError(error) ? "default" : "destructive",
+      });
+    }
+  };
+
+  const draftTotal = draft.reduce((sum, line) => sum + calculateLineTotal(line), 0);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Line Items</CardTitle>
+        {formData.id && (
+          <div className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">Price Book</Label>
+            <Select value={priceBookId} onValueChange={value => onFieldChange('price_book_id', value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="Select price book" />
+              </SelectTrigger>
+              <SelectContent>
+                {priceBooks.filter(book => book.is_active || book.id === priceBookId).map(book => (
+                  <SelectItem key={book.id} value={book.id}>{book.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!formData.id ? (
+          <p className="text-sm text-muted-foreground">Save the deal first to add line items.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {draft.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No line items. The contract value is entered by hand until products are added.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[180px]">Product</TableHead>
+                    <TableHead className="w-20">Qty</TableHead>
+                    <TableHead className="w-28">Unit Price</TableHead>
+                    <TableHead className="w-20">Disc %</TableHead>
+                    <TableHead className="w-20">Term (mo)</TableHead>
+                    <TableHead className="w-36">Start</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {draft.map((line, index) => (
+                    <TableRow key={line.id || `new-${index}`}>
+                      <TableCell>
+                        <Select value={line.product_id || ''} onValueChange={value => handleProductSelect(index, value)}>
+                          <SelectTrigger>
+                            <SelectValue placeholder={line.product_name || 'Select product'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {products.filter(product => product.is_active || product.id === line.product_id).map(product => (
+                              <SelectItem key={product.id} value={product.id}>
+                                {product.name} ({product.sku})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={line.quantity}
+                          onChange={e => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_price}
+                          onChange={e => updateLine(index, { unit_price: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          value={line.discount_percent}
+                          onChange={e => updateLine(index, { discount_percent: Math.min(100, parseFloat(e.target.value) || 0) })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.term_months ?? ''}
+                          placeholder="-"
+                          onChange={e => updateLine(index, { term_months: parseInt(e.target.value) || null })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="date"
+                          value={line.start_date || ''}
+                          onChange={e => updateLine(index, { start_date: e.target.value || null })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency(calculateLineTotal(line), currency)}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => {
+                            setDraft(prev => prev.filter((_, i) => i !== index));
+                            setDirty(true);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={6} className="font-medium">Total</TableCell>
+                    <TableCell className="text-right font-medium whitespace-nowrap">
+                      {formatCurrency(draftTotal, currency)}
+                    </TableCell>
+                    <TableCell />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+
+            <div className="flex justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setDraft(prev => [...prev, emptyLine(prev.length)]);
+                  setDirty(true);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Line
+              </Button>
+              <Button type="button" size="sm" onClick={handleSave} disabled={!dirty || saveLineItems.isPending}>
+                {saveLineItems.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Line Items
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
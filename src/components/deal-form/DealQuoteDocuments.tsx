@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FilePlus, Loader2, Mail } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Deal } from "@/types/deal";
+import { useDealDocuments, downloadDealDocument, DealDocument, DEAL_DOCUMENTS_QUERY_KEY } from "@/hooks/useDealDocuments";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/utils/formatUtils";
+import { SendEmailModal, EmailRecipient } from "@/components/SendEmailModal";
+
+interface DealQuoteDocumentsProps {
+  formData: Partial<Deal>;
+  onFieldChange: (field: string, value: unknown) => void;
+}
+
+export const DealQuoteDocuments = ({ formData, onFieldChange }: DealQuoteDocumentsProps) => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { documents, isLoading, generateQuote } = useDealDocuments(formData.id);
+  const [emailDocumentId, setEmailDocumentId] = useState<string | null>(null);
+  const [recipient, setRecipient] = useState<EmailRecipient | null>(null);
+
+  const handleGenerate = async () => {
+    try {
+      const fileName = await generateQuote.mutateAsync();
+      toast({ title: "Quote generated", description: fileName });
+    } catch (error) {
+      console.error('Error generating quote:', error);
+      toast({
+        title: "Error",
+        description: `Failed to generate quote: ${(error as { message?: string }).message || 'Unknown error'}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDownload = async (document: DealDocument) => {
+    try {
+      const file = await downloadDealDocument(document);
+      const url = URL.createObjectURL(file);
+      const a = window.document.createElement('a');
+      a.href = url;
+      a.download = file.name;
+      window.document.body.appendChild(a);
+      a.click();
+      window.document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading quote:', error);
+      toast({ title: "Error", description: "Failed to download quote", variant: "destructive" });
+    }
+  };
+
+  // Quotes go to the deal's primary contact
+  const handleEmail = async (document: DealDocument) => {
+    if (!formData.contact_id) {
+      toast({
+        title: "No contact on this deal",
+        description: "Link a contact to the deal before emailing the quote.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const { data: contact, error } = await supabase
+      .from('contacts')
+      .select('contact_name, email, company_name, position')
+      .eq('id', formData.contact_id)
+      .maybeSingle();
+
+    if (error || !contact) {
+      console.error('Error fetching deal contact:', error);
+      toast({ title: "Error", description: "Failed to load the deal contact", variant: "destructive" });
+      return;
+    }
+
+    setRecipient({
+      name: contact.contact_name,
+      email: contact.email || undefined,
+      company_name: contact.company_name || undefined,
+      position: contact.position || undefined,
+    });
+    setEmailDocumentId(document.id);
+  };
+
+  // Sending marks the RFQ as submitted in the database; keep the open form in step
+  const handleEmailSent = async () => {
+    queryClient.invalidateQueries({ queryKey: [...DEAL_DOCUMENTS_QUERY_KEY, formData.id] });
+    const { data } = await supabase.from('deals').select('rfq_status').eq('id', formData.id).maybeSingle();
+    if (data && data.rfq_status !== formData.rfq_status) onFieldChange('rfq_status', data.rfq_status);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle className="text-lg">Quotes</CardTitle>
+          {formData.id && (
+            <p className="text-sm text-muted-foreground">Generated from the saved deal and its line items</p>
+          )}
+        </div>
+        {formData.id && (
+          <Button type="button" size="sm" onClick={handleGenerate} disabled={generateQuote.isPending}>
+            {generateQuote.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FilePlus className="h-4 w-4 mr-2" />}
+            {documents.length > 0 ? 'New Version' : 'Generate Quote'}
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!formData.id ? (
+          <p className="text-sm text-muted-foreground">Save the deal first to generate a quote.</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : documents.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No quotes yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Quote</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map(document => (
+                <TableRow key={document.id}>
+                  <TableCell className="font-medium">
+                    {document.document_number} <span className="text-muted-foreground">v{document.version}</span>
+                  </TableCell>
+                  <TableCell>{format(new Date(document.created_at), 'dd/MM/yyyy HH:mm')}</TableCell>
+                  <TableCell className="text-right">
+                    {document.total_amount !== null ? formatCurrency(document.total_amount, document.currency || 'EUR') : '-'}
+                  </TableCell>
+                  <TableCell>
+                    {document.status === 'sent' ? (
+                      <Badge title={document.sent_to || undefined}>
+                        Sent {document.sent_at ? format(new Date(document.sent_at), 'dd/MM/yyyy') : ''}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">Draft</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button type="button" size="sm" variant="ghost" onClick={() => handleDownload(document)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" size="sm" variant="ghost" onClick={() => handleEmail(document)}>
+                      <Mail className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <SendEmailModal
+        open={!!emailDocumentId}
+        onOpenChange={open => !open && setEmailDocumentId(null)}
+        recipient={recipient}
+        contactId={formData.contact_id}
+        accountId={formData.account_id}
+        dealId={formData.id}
+        initialDocumentId={emailDocumentId}
+        onEmailSent={handleEmailSent}
+      />
+    </Card>
+  );
+};
@@ -1,16 +1,12 @@
-
-import { Deal, DealStage } from "@/types/deal";
-import { LeadStageForm } from "./LeadStageForm";
-import { DiscussionsStageForm } from "./DiscussionsStageForm";
-import { QualifiedStageForm } from "./QualifiedStageForm";
-import { RFQStageForm } from "./RFQStageForm";
-import { OfferedStageForm } from "./OfferedStageForm";
-import { FinalStageForm } from "./FinalStageForm";
+import { ComponentProps } from "react";
+import { Deal, DealStage, LINE_ITEMS_FORM_FIELD } from "@/types/deal";
+import { StageFieldsForm } from "./StageFieldsForm";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface DealStageFormProps {
   formData: Partial<Deal>;
-  onFieldChange: (field: string, value: any) => void;
-  onLeadSelect?: (lead: any) => void;
+  onFieldChange: (field: string, value: unknown) => void;
+  onLeadSelect?: ComponentProps<typeof StageFieldsForm>['onLeadSelect'];
   fieldErrors: Record<string, string>;
   stage: DealStage;
   showPreviousStages: boolean;
@@ -24,104 +20,41 @@ export const DealStageForm = ({
   stage, 
   showPreviousStages 
 }: DealStageFormProps) => {
-  const getStageIndex = (stage: DealStage): number => {
-    const stages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return stages.indexOf(stage);
-  };
-
-  const currentStageIndex = getStageIndex(stage);
-  const isFinalStage = ['Won', 'Lost', 'Dropped'].includes(stage);
+  const { openStageNames, isClosedStage, getFormFields, getRequiredFields } = usePipelineStages();
 
-  const renderStageComponent = (stageToRender: DealStage) => {
-    switch (stageToRender) {
-      case 'Lead':
-        return (
-          <LeadStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            onLeadSelect={onLeadSelect}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Discussions':
-        return (
-          <DiscussionsStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Qualified':
-        return (
-          <QualifiedStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'RFQ':
-        return (
-          <RFQStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Offered':
-        return (
-          <OfferedStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-          />
-        );
-      case 'Won':
-      case 'Lost':
-      case 'Dropped':
-        return (
-          <FinalStageForm
-            formData={formData}
-            onFieldChange={onFieldChange}
-            fieldErrors={fieldErrors}
-            stage={stageToRender}
-          />
-        );
-      default:
-        return null;
-    }
-  };
+  const currentStageIndex = openStageNames.indexOf(stage);
+  const isFinalStage = isClosedStage(stage);
 
-  if (showPreviousStages) {
-    // Show all stages up to current stage
-    const stagesToShow: DealStage[] = [];
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
-    
-    if (isFinalStage) {
-      // For final stages, show all previous stages plus the final stage
-      stagesToShow.push(...allStages);
-      stagesToShow.push(stage);
-    } else {
-      // For regular stages, show all stages up to current
-      for (let i = 0; i <= currentStageIndex && i < allStages.length; i++) {
-        stagesToShow.push(allStages[i]);
-      }
-    }
-
-    return (
-      <div className="space-y-6">
-        {stagesToShow.map(stageToRender => (
-          <div key={stageToRender}>
-            {renderStageComponent(stageToRender)}
-          </div>
-        ))}
-      </div>
-    );
-  } else {
+  const stagesToShow: DealStage[] = [];
+  if (!showPreviousStages) {
     // Show only current stage
-    return (
-      <div>
-        {renderStageComponent(stage)}
-      </div>
-    );
+    stagesToShow.push(stage);
+  } else if (isFinalStage) {
+    // For final stages, show all previous stages plus the final stage
+    stagesToShow.push(...openStageNames, stage);
+  } else {
+    // For regular stages, show all stages up to current
+    stagesToShow.push(...openStageNames.slice(0, currentStageIndex + 1));
   }
+
+  // Line items and quotes are shown once, in the latest shown stage that lists them
+  const pricingStage = [...stagesToShow].reverse().find(s => getFormFields(s).includes(LINE_ITEMS_FORM_FIELD));
+
+  return (
+    <div className="space-y-6">
+      {stagesToShow.map(stageToRender => (
+        <StageFieldsForm
+          key={stageToRender}
+          formData={formData}
+          onFieldChange={onFieldChange}
+          onLeadSelect={onLeadSelect}
+          fieldErrors={fieldErrors}
+          stage={stageToRender}
+          fields={getFormFields(stageToRender)}
+          requiredFields={getRequiredFields(stageToRender)}
+          showPricing={stageToRender === pricingStage}
+        />
+      ))}
+    </div>
+  );
 };
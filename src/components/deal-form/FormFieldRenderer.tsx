@@ -8,11 +8,18 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import { Deal } from "@/types/deal";
+import { Deal, FORECAST_CATEGORIES } from "@/types/deal";
 import { LeadSearchableDropdown } from "@/components/LeadSearchableDropdown";
 import { supabase } from "@/integrations/supabase/client";
 import { useState, useEffect } from "react";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldInput } from "@/components/shared/CustomFieldsSection";
+import { getCustomFieldName } from "@/utils/customFieldUtils";
+import { getDealFieldLabel } from "./fieldLabels";
+import { usePicklistValues } from "@/hooks/usePicklists";
+import { getPicklistOptions, getPicklistValues } from "@/utils/picklistUtils";
+import { PicklistKey } from "@/types/picklist";
 
 interface FormFieldRendererProps {
   field: string;
@@ -20,11 +27,17 @@ interface FormFieldRendererProps {
   onChange: (field: string, value: any) => void;
   onLeadSelect?: (lead: any) => void;
   error?: string;
+  required?: boolean;
 }
 
-export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error }: FormFieldRendererProps) => {
+export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error, required }: FormFieldRendererProps) => {
   const [leadOwnerIds, setLeadOwnerIds] = useState<string[]>([]);
   const { displayNames, loading } = useUserDisplayNames(leadOwnerIds);
+  const { allFields: customFields } = useCustomFields('deal');
+  const { data: picklistValues } = usePicklistValues();
+
+  const getPicklistFieldOptions = (key: PicklistKey) =>
+    getPicklistOptions(getPicklistValues(picklistValues, key), value ? String(value) : null);
 
   useEffect(() => {
     if (field === 'lead_owner') {
@@ -53,55 +66,6 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
     }
   };
 
-  const getFieldLabel = (field: string) => {
-    const labels: Record<string, string> = {
-      project_name: 'Project Name',
-      customer_name: 'Customer Name',
-      lead_name: 'Lead Name',
-      lead_owner: 'Lead Owner',
-      region: 'Region',
-      priority: 'Priority',
-      probability: 'Probability (%)',
-      internal_comment: 'Internal Comment',
-      expected_closing_date: 'Expected Closing Date',
-      customer_need: 'Customer Need',
-      customer_challenges: 'Customer Challenges',
-      relationship_strength: 'Relationship Strength',
-      budget: 'Budget',
-      is_recurring: 'Is Recurring?',
-      project_type: 'Project Type',
-      duration: 'Duration (months)',
-      revenue: 'Revenue',
-      start_date: 'Start Date',
-      end_date: 'End Date',
-      total_contract_value: 'Total Contract Value',
-      currency_type: 'Currency Type',
-      project_duration: 'Project Duration (months)',
-      rfq_received_date: 'RFQ Received Date',
-      proposal_due_date: 'Proposal Due Date',
-      rfq_status: 'RFQ Status',
-      quarterly_revenue_q1: 'Q1 Revenue',
-      quarterly_revenue_q2: 'Q2 Revenue',
-      quarterly_revenue_q3: 'Q3 Revenue',
-      quarterly_revenue_q4: 'Q4 Revenue',
-      total_revenue: 'Total Revenue',
-      action_items: 'Action Items',
-      current_status: 'Current Status',
-      closing: 'Closing',
-      won_reason: 'Won Reason',
-      lost_reason: 'Lost Reason',
-      need_improvement: 'Need Improvement',
-      drop_reason: 'Drop Reason',
-      fax: 'Fax',
-      business_value: 'Business Value',
-      decision_maker_level: 'Decision Maker Level',
-      signed_contract_date: 'Signed Contract Date',
-      implementation_start_date: 'Implementation Start Date',
-      handoff_status: 'Handoff Status',
-    };
-    return labels[field] || field;
-  };
-
   const getStringValue = (val: any): string => {
     if (val === null || val === undefined) return '';
     return String(val);
@@ -142,6 +106,7 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
     const updates: Partial<Deal> = {
       lead_name: lead.lead_name,
       customer_name: lead.company_name || '',
+      account_id: lead.account_id || null,
       region: lead.country || '',
     };
 
@@ -324,7 +289,7 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
               <SelectValue placeholder="Select region" />
             </SelectTrigger>
             <SelectContent>
-              {['EU', 'US', 'ASIA', 'Other'].map(region => (
+              {getPicklistFieldOptions('region').map(region => (
                 <SelectItem key={region} value={region}>
                   {region}
                 </SelectItem>
@@ -364,7 +329,7 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
             }}
           >
             <SelectTrigger>
-              <SelectValue placeholder={`Select ${getFieldLabel(field).toLowerCase()}`} />
+              <SelectValue placeholder={`Select ${getDealFieldLabel(field).toLowerCase()}`} />
             </SelectTrigger>
             <SelectContent>
               {['Open', 'Ongoing', 'Done'].map(option => (
@@ -395,6 +360,25 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
           </Select>
         );
 
+      case 'forecast_category':
+        return (
+          <Select
+            value={value?.toString() || 'Pipeline'}
+            onValueChange={(val) => onChange(field, val)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select forecast category" />
+            </SelectTrigger>
+            <SelectContent>
+              {FORECAST_CATEGORIES.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
       case 'budget':
         return (
           <Input
@@ -575,13 +559,44 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
           />
         );
 
+      case 'won_reason':
+      case 'lost_reason':
+      case 'drop_reason': {
+        // Free text until reasons are set up under Picklists
+        const reasons = getPicklistFieldOptions(field);
+        if (reasons.length > 0) {
+          return (
+            <Select
+              value={value?.toString() || ''}
+              onValueChange={(val) => onChange(field, val)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={`Select ${getDealFieldLabel(field).toLowerCase()}`} />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map(reason => (
+                  <SelectItem key={reason} value={reason}>
+                    {reason}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          );
+        }
+        return (
+          <Textarea
+            value={getStringValue(value)}
+            onChange={(e) => onChange(field, e.target.value)}
+            rows={3}
+            placeholder={`Enter ${getDealFieldLabel(field).toLowerCase()}...`}
+          />
+        );
+      }
+
       case 'internal_comment':
       case 'action_items':
       case 'closing':
-      case 'won_reason':
-      case 'lost_reason':
       case 'need_improvement':
-      case 'drop_reason':
         return (
           <Textarea
             value={getStringValue(value)}
@@ -590,7 +605,7 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
               onChange(field, e.target.value);
             }}
             rows={3}
-            placeholder={`Enter ${getFieldLabel(field).toLowerCase()}...`}
+            placeholder={`Enter ${getDealFieldLabel(field).toLowerCase()}...`}
           />
         );
 
@@ -600,7 +615,7 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
             type="tel"
             value={getStringValue(value)}
             onChange={(e) => onChange(field, e.target.value)}
-            placeholder={`Enter ${getFieldLabel(field).toLowerCase()}...`}
+            placeholder={`Enter ${getDealFieldLabel(field).toLowerCase()}...`}
           />
         );
 
@@ -609,15 +624,37 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
           <Input
             value={getStringValue(value)}
             onChange={(e) => onChange(field, e.target.value)}
-            placeholder={`Enter ${getFieldLabel(field).toLowerCase()}...`}
+            placeholder={`Enter ${getDealFieldLabel(field).toLowerCase()}...`}
           />
         );
     }
   };
 
+  const customFieldName = getCustomFieldName(field);
+  if (customFieldName) {
+    const customField = customFields.find(f => f.field_name === customFieldName);
+    // A stage may still list a custom field that has since been deleted
+    if (!customField) return null;
+
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`deal-custom-field-${customFieldName}`}>{customField.field_label}{required ? ' *' : ''}</Label>
+        <CustomFieldInput
+          id={`deal-custom-field-${customFieldName}`}
+          field={customField}
+          value={value}
+          onChange={val => onChange(field, val)}
+        />
+        {error && (
+          <p className="text-sm text-destructive">{error}</p>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-2">
-      <Label>{getFieldLabel(field)}</Label>
+      <Label>{getDealFieldLabel(field)}{required ? ' *' : ''}</Label>
       {renderField()}
       {error && (
         <p className="text-sm text-destructive">{error}</p>
@@ -0,0 +1,115 @@
+import { ComponentProps, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Deal, DealStage, LINE_ITEMS_FORM_FIELD } from "@/types/deal";
+import { FormFieldRenderer } from "./FormFieldRenderer";
+import { DealLineItemsEditor } from "./DealLineItemsEditor";
+import { DealQuoteDocuments } from "./DealQuoteDocuments";
+import { useDealLineItems } from "@/hooks/useDealLineItems";
+import { getDealFieldUpdate, getDealFieldValue } from "./validation";
+
+interface StageFieldsFormProps {
+  formData: Partial<Deal>;
+  onFieldChange: (field: string, value: unknown) => void;
+  onLeadSelect?: ComponentProps<typeof FormFieldRenderer>['onLeadSelect'];
+  fieldErrors: Record<string, string>;
+  stage: DealStage;
+  // The stage's configured form_fields and required_fields
+  fields: string[];
+  requiredFields: string[];
+  showPricing: boolean;
+}
+
+// One stage's section of the deal form, rendered from the fields configured in Pipeline Settings
+export const StageFieldsForm = ({
+  formData,
+  onFieldChange,
+  onLeadSelect,
+  fieldErrors,
+  stage,
+  fields,
+  requiredFields,
+  showPricing,
+}: StageFieldsFormProps) => {
+  const { lineItems } = useDealLineItems(formData.id);
+  const hasProjectDuration = fields.includes('project_duration');
+  const hasTotalRevenue = fields.includes('total_revenue');
+
+  // Auto-calculate project_duration when dates change
+  useEffect(() => {
+    if (!hasProjectDuration || !formData.start_date || !formData.end_date) return;
+
+    const startDate = new Date(formData.start_date);
+    const endDate = new Date(formData.end_date);
+    if (startDate > endDate) return;
+
+    // Calculate months between dates
+    const months = (endDate.getFullYear() - startDate.getFullYear()) * 12 +
+                  (endDate.getMonth() - startDate.getMonth());
+
+    if (months !== (Number(formData.project_duration) || 0)) {
+      onFieldChange('project_duration', months);
+    }
+  }, [hasProjectDuration, formData.start_date, formData.end_date, formData.project_duration, onFieldChange]);
+
+  // Auto-calculate total_revenue when quarterly revenues change
+  useEffect(() => {
+    if (!hasTotalRevenue) return;
+
+    const q1 = Number(formData.quarterly_revenue_q1) || 0;
+    const q2 = Number(formData.quarterly_revenue_q2) || 0;
+    const q3 = Number(formData.quarterly_revenue_q3) || 0;
+    const q4 = Number(formData.quarterly_revenue_q4) || 0;
+    const totalRevenue = q1 + q2 + q3 + q4;
+
+    // Only update if quarterly revenues are filled and total doesn't match
+    if ((q1 > 0 || q2 > 0 || q3 > 0 || q4 > 0) && totalRevenue !== (Number(formData.total_revenue) || 0)) {
+      onFieldChange('total_revenue', totalRevenue);
+    }
+  }, [hasTotalRevenue, formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange]);
+
+  // Once the deal has line items its contract value is priced from them
+  const visibleFields = fields.filter(field =>
+    field !== LINE_ITEMS_FORM_FIELD && (field !== 'total_contract_value' || lineItems.length === 0)
+  );
+  const hasPricing = showPricing && fields.includes(LINE_ITEMS_FORM_FIELD);
+
+  if (visibleFields.length === 0 && !hasPricing) return null;
+
+  // Custom fields are written back into the deal's custom_fields object
+  const handleChange = (field: string, value: unknown) => {
+    Object.entries(getDealFieldUpdate(formData, field, value)).forEach(([key, update]) => onFieldChange(key, update));
+  };
+
+  return (
+    <div className="space-y-6">
+      {visibleFields.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{stage} Stage</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {visibleFields.map(field => (
+                <FormFieldRenderer
+                  key={field}
+                  field={field}
+                  value={getDealFieldValue(formData, field)}
+                  onChange={handleChange}
+                  onLeadSelect={onLeadSelect}
+                  error={fieldErrors[field]}
+                  required={requiredFields.includes(field)}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+      {hasPricing && (
+        <>
+          <DealLineItemsEditor formData={formData} onFieldChange={onFieldChange} />
+          <DealQuoteDocuments formData={formData} onFieldChange={onFieldChange} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Deal, DealStage } from "@/types/deal";
+import { FormFieldRenderer } from "./FormFieldRenderer";
+import { getDealFieldUpdate, getDealFieldValue, getMissingRequiredFields, parseStageGateError } from "./validation";
+
+interface StageGateDialogProps {
+  deal: Deal | null;
+  targetStage: DealStage | null;
+  missingFields: string[];
+  onClose: () => void;
+  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+}
+
+// Shown when a stage move is blocked by the stage's required fields
+export const StageGateDialog = ({ deal, targetStage, missingFields, onClose, onUpdateDeal }: StageGateDialogProps) => {
+  const [fields, setFields] = useState<string[]>([]);
+  const [values, setValues] = useState<Partial<Deal>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!deal) return;
+    setFields(missingFields);
+    setValues({ ...deal });
+  }, [deal, missingFields]);
+
+  const handleFieldChange = (field: string, value: unknown) => {
+    setValues(prev => ({ ...prev, ...getDealFieldUpdate(prev, field, value) }));
+  };
+
+  const stillMissing = getMissingRequiredFields(values, fields);
+
+  const handleSubmit = async () => {
+    if (!deal || !targetStage) return;
+    setSaving(true);
+
+    try {
+      let updates: Partial<Deal> = { stage: targetStage };
+      fields.forEach(field => {
+        updates = { ...updates, ...getDealFieldUpdate(values, field, getDealFieldValue(values, field)) };
+      });
+
+      await onUpdateDeal(deal.id, updates);
+      onClose();
+    } catch (error) {
+      // The server may report fields that were not known when the dialog opened
+      const violation = parseStageGateError(error);
+      if (violation) {
+        setFields(prev => Array.from(new Set([...prev, ...violation.missingFields])));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!deal && !!targetStage} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Complete these fields to move to {targetStage}</DialogTitle>
+          <DialogDescription>
+            {deal?.project_name || deal?.deal_name} needs the following information before it can enter the {targetStage} stage.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {fields.map(field => (
+            <FormFieldRenderer
+              key={field}
+              field={field}
+              value={getDealFieldValue(values, field)}
+              onChange={handleFieldChange}
+              error={stillMissing.includes(field) ? 'Required' : undefined}
+              required
+            />
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || stillMissing.length > 0}>
+            {saving ? 'Moving...' : `Move to ${targetStage}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
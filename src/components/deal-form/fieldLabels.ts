@@ -0,0 +1,56 @@
+import { CustomField } from "@/types/customField";
+import { getCustomFieldName } from "@/utils/customFieldUtils";
+
+const DEAL_FIELD_LABELS: Record<string, string> = {
+  project_name: 'Project Name',
+  customer_name: 'Customer Name',
+  lead_name: 'Lead Name',
+  lead_owner: 'Lead Owner',
+  region: 'Region',
+  priority: 'Priority',
+  probability: 'Probability (%)',
+  forecast_category: 'Forecast Category',
+  internal_comment: 'Internal Comment',
+  expected_closing_date: 'Expected Closing Date',
+  customer_need: 'Customer Need',
+  customer_challenges: 'Customer Challenges',
+  relationship_strength: 'Relationship Strength',
+  budget: 'Budget',
+  is_recurring: 'Is Recurring?',
+  project_type: 'Project Type',
+  duration: 'Duration (months)',
+  revenue: 'Revenue',
+  start_date: 'Start Date',
+  end_date: 'End Date',
+  total_contract_value: 'Total Contract Value',
+  currency_type: 'Currency Type',
+  project_duration: 'Project Duration (months)',
+  rfq_received_date: 'RFQ Received Date',
+  proposal_due_date: 'Proposal Due Date',
+  rfq_status: 'RFQ Status',
+  quarterly_revenue_q1: 'Q1 Revenue',
+  quarterly_revenue_q2: 'Q2 Revenue',
+  quarterly_revenue_q3: 'Q3 Revenue',
+  quarterly_revenue_q4: 'Q4 Revenue',
+  total_revenue: 'Total Revenue',
+  action_items: 'Action Items',
+  current_status: 'Current Status',
+  closing: 'Closing',
+  won_reason: 'Won Reason',
+  lost_reason: 'Lost Reason',
+  need_improvement: 'Need Improvement',
+  drop_reason: 'Drop Reason',
+  fax: 'Fax',
+  business_value: 'Business Value',
+  decision_maker_level: 'Decision Maker Level',
+  signed_contract_date: 'Signed Contract Date',
+  implementation_start_date: 'Implementation Start Date',
+  handoff_status: 'Handoff Status',
+  line_items: 'Line Items & Quotes',
+};
+
+export const getDealFieldLabel = (field: string, customFields: CustomField[] = []) => {
+  const customFieldName = getCustomFieldName(field);
+  if (!customFieldName) return DEAL_FIELD_LABELS[field] || field;
+  return customFields.find(customField => customField.field_name === customFieldName)?.field_label || customFieldName;
+};
@@ -1,5 +1,7 @@
 
 import { Deal, DealStage, getRequiredFieldsForStage } from "@/types/deal";
+import { CustomFieldValue } from "@/types/customField";
+import { getCustomFieldName, getCustomFieldValue, getCustomFieldValues, isBlankCustomFieldValue } from "@/utils/customFieldUtils";
 
 export const validateField = (field: string, value: any, stage: DealStage, formData?: Partial<Deal>): boolean => {
   // Always return true - no validation
@@ -26,3 +28,43 @@ export const getFieldErrors = (formData: Partial<Deal>, stage: DealStage): Recor
   // Always return empty errors - no field validation
   return {};
 };
+
+export interface StageGateViolation {
+  stage: DealStage;
+  missingFields: string[];
+}
+
+const isEmptyValue = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+// Stage field lists address custom fields as custom_fields.<name>
+export const getDealFieldValue = (formData: Partial<Deal>, field: string): unknown => {
+  const customFieldName = getCustomFieldName(field);
+  return customFieldName ? getCustomFieldValue(formData, customFieldName) : formData[field as keyof Deal];
+};
+
+// The change to apply for a stage field, as a top-level deal update
+export const getDealFieldUpdate = (formData: Partial<Deal>, field: string, value: unknown): Partial<Deal> => {
+  const customFieldName = getCustomFieldName(field);
+  if (!customFieldName) return { [field]: value };
+  return { custom_fields: { ...getCustomFieldValues(formData), [customFieldName]: value as CustomFieldValue } };
+};
+
+export const getMissingRequiredFields = (formData: Partial<Deal>, requiredFields: string[]): string[] =>
+  requiredFields.filter(field => {
+    const value = getDealFieldValue(formData, field);
+    return getCustomFieldName(field) ? isBlankCustomFieldValue(value as CustomFieldValue) : isEmptyValue(value);
+  });
+
+// Reads the field list raised by the check_deal_stage_requirements trigger
+export const parseStageGateError = (error: unknown): StageGateViolation | null => {
+  const { hint, details } = (error || {}) as { hint?: string; details?: string };
+  if (hint !== 'stage_gate' || !details) return null;
+
+  try {
+    const parsed = JSON.parse(details);
+    return { stage: parsed.stage, missingFields: parsed.missing_fields || [] };
+  } catch {
+    return null;
+  }
+};
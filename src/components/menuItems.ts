@@ -0,0 +1,28 @@
+import {
+  Home,
+  Users,
+  UserPlus,
+  BarChart3,
+  Settings,
+  Building2,
+  CheckSquare,
+  ClipboardCheck,
+  LineChart,
+  History,
+  Video
+} from "lucide-react";
+
+// Sidebar modules, also offered by the command palette
+export const allMenuItems = [
+  { title: "Dashboard", url: "/dashboard", route: "/dashboard", icon: Home },
+  { title: "Accounts", url: "/accounts", route: "/accounts", icon: Building2 },
+  { title: "Contacts", url: "/contacts", route: "/contacts", icon: Users },
+  { title: "Leads", url: "/leads", route: "/leads", icon: UserPlus },
+  { title: "Meetings", url: "/meetings", route: "/meetings", icon: Video },
+  { title: "Deals", url: "/deals", route: "/deals", icon: BarChart3 },
+  { title: "Forecast", url: "/forecast", route: "/forecast", icon: LineChart },
+  { title: "Tasks", url: "/tasks", route: "/tasks", icon: CheckSquare },
+  { title: "Approvals", url: "/approvals", route: "/approvals", icon: ClipboardCheck },
+  { title: "Import History", url: "/import-history", route: "/import-history", icon: History },
+  { title: "Settings", url: "/settings", route: "/settings", icon: Settings },
+];
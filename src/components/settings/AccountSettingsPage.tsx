@@ -10,6 +10,7 @@ import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '@/hooks/useAuth';
 import { useThemePreferences } from '@/hooks/useThemePreferences';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
@@ -99,6 +100,7 @@ interface PasswordRequirement {
 const AccountSettingsPage = () => {
   const { user, signOut } = useAuth();
   const { theme, setTheme } = useThemePreferences();
+  const { refreshPreferences } = useUserPreferences();
   const { logSecurityEvent } = useSecurityAudit();
   
   const [loading, setLoading] = useState(true);
@@ -334,6 +336,7 @@ const AccountSettingsPage = () => {
         ...displayPrefs,
         updated_at: new Date().toISOString(),
       });
+      await refreshPreferences();
 
       // Update initial values after successful save
       initialDataRef.current = {
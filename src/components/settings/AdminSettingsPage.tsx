@@ -1,5 +1,5 @@
 import { useState, lazy, Suspense, useMemo, useEffect } from 'react';
-import { ChevronDown, Users, Lock, GitBranch, Plug, Database, Shield, Activity, FileText, Megaphone, CheckSquare, Palette, Search } from 'lucide-react';
+import { ChevronDown, Users, Lock, GitBranch, Plug, Database, Shield, Activity, FileText, Megaphone, CheckSquare, Palette, Search, Link2, Coins, Package, ListPlus, List } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
@@ -12,6 +12,11 @@ import { Loader2, ShieldAlert } from 'lucide-react';
 const UserManagement = lazy(() => import('@/components/UserManagement'));
 const PageAccessSettings = lazy(() => import('@/components/settings/PageAccessSettings'));
 const PipelineSettings = lazy(() => import('@/components/settings/PipelineSettings'));
+const CustomFieldSettings = lazy(() => import('@/components/settings/CustomFieldSettings'));
+const PicklistSettings = lazy(() => import('@/components/settings/PicklistSettings'));
+const DealLinkReviewSettings = lazy(() => import('@/components/settings/DealLinkReviewSettings'));
+const ExchangeRateSettings = lazy(() => import('@/components/settings/ExchangeRateSettings'));
+const ProductCatalogSettings = lazy(() => import('@/components/settings/ProductCatalogSettings'));
 const IntegrationSettings = lazy(() => import('@/components/settings/IntegrationSettings'));
 const BackupRestoreSettings = lazy(() => import('@/components/settings/BackupRestoreSettings'));
 const AuditLogsSettings = lazy(() => import('@/components/settings/AuditLogsSettings'));
@@ -50,11 +55,51 @@ const adminSections: AdminSection[] = [
   {
     id: 'pipeline',
     title: 'Pipeline & Status Management',
-    description: 'Customize deal stages and lead statuses',
+    description: 'Customize deal stages and the fields each stage asks for',
     icon: GitBranch,
     component: PipelineSettings,
     keywords: ['pipeline', 'stage', 'status', 'deal', 'lead', 'kanban'],
   },
+  {
+    id: 'custom-fields',
+    title: 'Custom Fields',
+    description: 'Add fields to leads, contacts, accounts, deals and tasks',
+    icon: ListPlus,
+    component: CustomFieldSettings,
+    keywords: ['custom', 'field', 'picklist', 'column', 'form', 'attribute'],
+  },
+  {
+    id: 'picklists',
+    title: 'Picklists',
+    description: 'Manage regions, industries, segments, sources, statuses and deal reasons',
+    icon: List,
+    component: PicklistSettings,
+    keywords: ['picklist', 'list', 'value', 'region', 'industry', 'segment', 'source', 'status', 'reason', 'merge'],
+  },
+  {
+    id: 'deal-links',
+    title: 'Deal Link Review',
+    description: 'Confirm deal matches to accounts and contacts',
+    icon: Link2,
+    component: DealLinkReviewSettings,
+    keywords: ['deal', 'account', 'contact', 'link', 'match', 'review', 'customer'],
+  },
+  {
+    id: 'currency',
+    title: 'Currency & Exchange Rates',
+    description: 'Reporting currency and dated exchange rates',
+    icon: Coins,
+    component: ExchangeRateSettings,
+    keywords: ['currency', 'exchange', 'rate', 'fx', 'revenue', 'reporting', 'conversion'],
+  },
+  {
+    id: 'products',
+    title: 'Products & Price Books',
+    description: 'Product catalog and list prices per currency',
+    icon: Package,
+    component: ProductCatalogSettings,
+    keywords: ['product', 'catalog', 'price', 'price book', 'sku', 'line item', 'list price'],
+  },
   {
     id: 'integrations',
     title: 'Third-Party Integrations',
@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Inbox, Loader2, Paperclip, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+
+interface CapturedEmail {
+  id: string;
+  sender_email: string;
+  recipient_email: string;
+  recipient_name: string | null;
+  subject: string;
+  html: string;
+  attachments: { name: string; contentType: string; size: number }[];
+  captured_at: string;
+}
+
+// Images are blocked in the preview so viewing a capture doesn't fire its tracking pixel
+const previewDocument = (html: string) =>
+  `<meta http-equiv="Content-Security-Policy" content="img-src data:"><base target="_blank">${html}`;
+
+// Messages held back by the capture transport, newest first
+export const CapturedEmailsCard = () => {
+  const [selectedEmail, setSelectedEmail] = useState<CapturedEmail | null>(null);
+
+  const { data: emails = [], isLoading, isFetching, refetch } = useQuery({
+    queryKey: ['captured-emails'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('captured_emails')
+        .select('id, sender_email, recipient_email, recipient_name, subject, html, attachments, captured_at')
+        .order('captured_at', { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return (data || []) as unknown as CapturedEmail[];
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Captured Emails
+          </CardTitle>
+          <CardDescription>
+            The capture transport is active: emails are stored here instead of being delivered
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : emails.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No emails captured yet</p>
+        ) : (
+          <div className="divide-y">
+            {emails.map(email => (
+              <button
+                key={email.id}
+                type="button"
+                className="w-full text-left py-2 px-1 hover:bg-muted/50 rounded-sm flex items-center gap-3"
+                onClick={() => setSelectedEmail(email)}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{email.subject}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {email.sender_email} → {email.recipient_name ? `${email.recipient_name} <${email.recipient_email}>` : email.recipient_email}
+                  </p>
+                </div>
+                {email.attachments?.length > 0 && (
+                  <Badge variant="outline" className="gap-1">
+                    <Paperclip className="h-3 w-3" />
+                    {email.attachments.length}
+                  </Badge>
+                )}
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {format(new Date(email.captured_at), 'MMM d, HH:mm')}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!selectedEmail} onOpenChange={(open) => !open && setSelectedEmail(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEmail?.subject}</DialogTitle>
+            <DialogDescription>
+              From {selectedEmail?.sender_email} to {selectedEmail?.recipient_email}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEmail && (
+            <div className="space-y-3">
+              {selectedEmail.attachments?.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {selectedEmail.attachments.map(att => (
+                    <Badge key={att.name} variant="secondary" className="gap-1">
+                      <Paperclip className="h-3 w-3" />
+                      {att.name} ({Math.ceil(att.size / 1024)} KB)
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <iframe
+                title="Captured email preview"
+                sandbox="allow-popups"
+                srcDoc={previewDocument(selectedEmail.html)}
+                className="w-full h-[60vh] rounded-md border bg-white"
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,371 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustomFields, CUSTOM_FIELDS_QUERY_KEY } from '@/hooks/useCustomFields';
+import { toCustomFieldName } from '@/utils/customFieldUtils';
+import {
+  CustomField,
+  CustomFieldEntity,
+  CustomFieldType,
+  CUSTOM_FIELD_ENTITY_LABELS,
+  CUSTOM_FIELD_TYPE_LABELS,
+} from '@/types/customField';
+import { Loader2, Plus, Trash2, Pencil, ArrowUp, ArrowDown, ListPlus } from 'lucide-react';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+
+interface FieldDraft {
+  id?: string;
+  field_label: string;
+  field_name: string;
+  field_type: CustomFieldType;
+  options: string;
+  is_required: boolean;
+  is_visible: boolean;
+}
+
+const emptyDraft: FieldDraft = {
+  field_label: '',
+  field_name: '',
+  field_type: 'text',
+  options: '',
+  is_required: false,
+  is_visible: true,
+};
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+const parseOptions = (text: string) =>
+  Array.from(new Set(text.split('\n').map(option => option.trim()).filter(Boolean)));
+
+const CustomFieldSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [entity, setEntity] = useState<CustomFieldEntity>('contact');
+  const { allFields, isLoading } = useCustomFields(entity);
+  const [draft, setDraft] = useState<FieldDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomField | null>(null);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY });
+
+  const draftOptions = useMemo(() => (draft ? parseOptions(draft.options) : []), [draft]);
+
+  const openEdit = (field: CustomField) =>
+    setDraft({
+      id: field.id,
+      field_label: field.field_label,
+      field_name: field.field_name,
+      field_type: field.field_type,
+      options: (field.field_options || []).join('\n'),
+      is_required: field.is_required,
+      is_visible: field.is_visible,
+    });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const label = draft.field_label.trim();
+    const name = draft.id ? draft.field_name : toCustomFieldName(label);
+    if (!label || !name) {
+      toast.error('Enter a label that starts with a letter');
+      return;
+    }
+    if (hasOptions(draft.field_type) && draftOptions.length === 0) {
+      toast.error('Add at least one option');
+      return;
+    }
+    if (!draft.id && allFields.some(field => field.field_name === name)) {
+      toast.error(`A field named "${name}" already exists`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const values = {
+        field_label: label,
+        field_options: hasOptions(draft.field_type) ? draftOptions : null,
+        is_required: draft.is_required,
+        is_visible: draft.is_visible,
+        updated_at: new Date().toISOString(),
+      };
+      // Name and type are fixed once created: stored values are keyed and typed by them
+      const { error } = draft.id
+        ? await supabase.from('crm_custom_fields').update(values).eq('id', draft.id)
+        : await supabase.from('crm_custom_fields').insert({
+            ...values,
+            entity_type: entity,
+            field_name: name,
+            field_type: draft.field_type,
+            display_order: allFields.length,
+            created_by: user?.id,
+          });
+      if (error) throw error;
+
+      toast.success(draft.id ? 'Field updated' : `Field "${label}" added`);
+      setDraft(null);
+      refresh();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error((error as { message?: string }).message || 'Failed to save field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (field: CustomField, column: 'is_required' | 'is_visible', value: boolean) => {
+    try {
+      const { error } = await supabase.from('crm_custom_fields').update({ [column]: value }).eq('id', field.id);
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error updating custom field:', error);
+      toast.error('Failed to update field');
+    }
+  };
+
+  // Swaps with the neighbour and renumbers the list so gaps and ties from older rows disappear
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...allFields];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+
+    try {
+      const results = await Promise.all(
+        reordered
+          .map((field, order) => ({ field, order }))
+          .filter(({ field, order }) => field.display_order !== order)
+          .map(({ field, order }) => supabase.from('crm_custom_fields').update({ display_order: order }).eq('id', field.id))
+      );
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+      refresh();
+    } catch (error) {
+      console.error('Error reordering custom fields:', error);
+      toast.error('Failed to reorder fields');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!fieldToDelete) return;
+    try {
+      const { error } = await supabase.from('crm_custom_fields').delete().eq('id', fieldToDelete.id);
+      if (error) throw error;
+
+      toast.success('Field deleted');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error('Failed to delete field');
+    } finally {
+      setFieldToDelete(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Custom Fields</CardTitle>
+          <CardDescription>
+            Extra fields appear in the record form, as table columns and filters, and as import and export columns.
+            Hidden fields keep their values but are left out everywhere.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>Module</Label>
+              <Select value={entity} onValueChange={value => setEntity(value as CustomFieldEntity)}>
+                <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CUSTOM_FIELD_ENTITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => setDraft(emptyDraft)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : allFields.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <ListPlus className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No custom fields for {CUSTOM_FIELD_ENTITY_LABELS[entity].toLowerCase()} yet.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Order</TableHead>
+                    <TableHead>Label</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Options</TableHead>
+                    <TableHead>Required</TableHead>
+                    <TableHead>Visible</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {allFields.map((field, index) => (
+                    <TableRow key={field.id}>
+                      <TableCell>
+                        <div className="flex">
+                          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={index === allFields.length - 1}
+                            onClick={() => handleMove(index, 1)}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{field.field_label}</div>
+                        <div className="text-xs text-muted-foreground font-mono">{field.field_name}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[field.field_type]}</Badge>
+                      </TableCell>
+                      <TableCell className="max-w-[240px] truncate text-sm text-muted-foreground">
+                        {(field.field_options || []).join(', ') || '-'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={field.is_required} onCheckedChange={checked => handleToggle(field, 'is_required', checked)} />
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={field.is_visible} onCheckedChange={checked => handleToggle(field, 'is_visible', checked)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => openEdit(field)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setFieldToDelete(field)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Field' : `Add ${CUSTOM_FIELD_ENTITY_LABELS[entity]} Field`}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="custom-field-label">Label</Label>
+                <Input
+                  id="custom-field-label"
+                  placeholder="e.g. PO Number"
+                  value={draft.field_label}
+                  onChange={e => setDraft({ ...draft, field_label: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Import and export column: <span className="font-mono">{draft.id ? draft.field_name : toCustomFieldName(draft.field_label) || '-'}</span>
+                </p>
+              </div>
+              <div className="space-y-1">
+                <Label>Type</Label>
+                <Select
+                  value={draft.field_type}
+                  onValueChange={value => setDraft({ ...draft, field_type: value as CustomFieldType })}
+                  disabled={!!draft.id}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CUSTOM_FIELD_TYPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {hasOptions(draft.field_type) && (
+                <div className="space-y-1">
+                  <Label htmlFor="custom-field-options">Options</Label>
+                  <Textarea
+                    id="custom-field-options"
+                    placeholder={'One option per line, e.g.\nGold\nSilver\nBronze'}
+                    className="min-h-28"
+                    value={draft.options}
+                    onChange={e => setDraft({ ...draft, options: e.target.value })}
+                  />
+                  {draft.id && (
+                    <p className="text-xs text-muted-foreground">
+                      Removing an option doesn't change records that already hold it, but they can't be saved until it's replaced.
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="flex items-center gap-6">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="custom-field-required"
+                    checked={draft.is_required}
+                    onCheckedChange={checked => setDraft({ ...draft, is_required: checked })}
+                  />
+                  <Label htmlFor="custom-field-required">Required</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="custom-field-visible"
+                    checked={draft.is_visible}
+                    onCheckedChange={checked => setDraft({ ...draft, is_visible: checked })}
+                  />
+                  <Label htmlFor="custom-field-visible">Visible</Label>
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !draft?.field_label.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {draft?.id ? 'Save' : 'Add Field'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!fieldToDelete}
+        onOpenChange={open => !open && setFieldToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Field"
+        description={`Delete ${fieldToDelete?.field_label}? Values already saved on records are kept and come back if a field with the same name is added again. Hide it instead to keep it available.`}
+      />
+    </div>
+  );
+};
+
+export default CustomFieldSettings;
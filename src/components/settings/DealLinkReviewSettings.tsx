@@ -0,0 +1,191 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Link2, Check, X, RefreshCw } from 'lucide-react';
+
+interface DealLinkReview {
+  id: string;
+  deal_id: string;
+  link_type: 'account' | 'contact';
+  source_value: string;
+  suggested_id: string | null;
+  suggested_label: string | null;
+  confidence: number | null;
+  deal_name?: string;
+}
+
+interface LinkOption {
+  id: string;
+  label: string;
+}
+
+const DealLinkReviewSettings = () => {
+  const [reviews, setReviews] = useState<DealLinkReview[]>([]);
+  const [accounts, setAccounts] = useState<LinkOption[]>([]);
+  const [contacts, setContacts] = useState<LinkOption[]>([]);
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  const fetchReviews = async () => {
+    setLoading(true);
+    try {
+      const [reviewResult, accountResult, contactResult] = await Promise.all([
+        supabase
+          .from('deal_link_reviews')
+          .select('*, deals:deal_id (deal_name, project_name)')
+          .eq('status', 'pending')
+          .order('confidence', { ascending: false }),
+        supabase.from('accounts').select('id, company_name').order('company_name'),
+        supabase.from('contacts').select('id, contact_name').order('contact_name'),
+      ]);
+
+      if (reviewResult.error) throw reviewResult.error;
+
+      setReviews((reviewResult.data || []).map(({ deals, ...review }) => ({
+        ...review,
+        deal_name: deals?.project_name || deals?.deal_name,
+      })) as DealLinkReview[]);
+      setAccounts((accountResult.data || []).map(a => ({ id: a.id, label: a.company_name })));
+      setContacts((contactResult.data || []).map(c => ({ id: c.id, label: c.contact_name })));
+    } catch (error) {
+      console.error('Error fetching deal link reviews:', error);
+      toast.error('Failed to load deal link reviews');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReviews();
+  }, []);
+
+  const handleResolve = async (review: DealLinkReview, accept: boolean) => {
+    setResolvingId(review.id);
+    try {
+      const { error } = await supabase.rpc('resolve_deal_link_review', {
+        p_review_id: review.id,
+        p_accept: accept,
+        p_target_id: accept ? targets[review.id] || review.suggested_id : null,
+      });
+
+      if (error) throw error;
+
+      setReviews(prev => prev.filter(r => r.id !== review.id));
+      toast.success(accept ? 'Deal linked' : 'Suggestion dismissed');
+    } catch (error) {
+      console.error('Error resolving deal link review:', error);
+      toast.error((error as { message?: string }).message || 'Failed to resolve review');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Deal Link Review</h3>
+          <p className="text-sm text-muted-foreground">
+            Confirm low-confidence matches between deals and their accounts or contacts
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={fetchReviews} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <Link2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No matches waiting for review</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Deal</TableHead>
+              <TableHead>Link</TableHead>
+              <TableHead>Name on Deal</TableHead>
+              <TableHead>Match</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {reviews.map(review => {
+              const options = review.link_type === 'account' ? accounts : contacts;
+              return (
+                <TableRow key={review.id}>
+                  <TableCell className="font-medium">{review.deal_name || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="capitalize">{review.link_type}</Badge>
+                  </TableCell>
+                  <TableCell>{review.source_value}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={targets[review.id] || review.suggested_id || ''}
+                        onValueChange={value => setTargets(prev => ({ ...prev, [review.id]: value }))}
+                      >
+                        <SelectTrigger className="w-56">
+                          <SelectValue placeholder={`Select ${review.link_type}`} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {options.map(option => (
+                            <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {review.confidence !== null && !targets[review.id] && (
+                        <span className="text-xs text-muted-foreground">
+                          {Math.round(review.confidence * 100)}%
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={resolvingId === review.id}
+                        onClick={() => handleResolve(review, false)}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={resolvingId === review.id || !(targets[review.id] || review.suggested_id)}
+                        onClick={() => handleResolve(review, true)}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Link
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default DealLinkReviewSettings;
@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/hooks/useAuth';
 import { useThemePreferences } from '@/hooks/useThemePreferences';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { Settings, Sun, Moon, Loader2 } from 'lucide-react';
@@ -19,6 +20,7 @@ interface DisplayPrefs {
 const DisplaySettings = () => {
   const { user } = useAuth();
   const { theme, setTheme } = useThemePreferences();
+  const { refreshPreferences } = useUserPreferences();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [prefs, setPrefs] = useState<DisplayPrefs>({
@@ -74,6 +76,7 @@ const DisplaySettings = () => {
         });
 
       if (error) throw error;
+      await refreshPreferences();
       toast.success('Preferences saved');
     } catch (error) {
       console.error('Error saving preferences:', error);
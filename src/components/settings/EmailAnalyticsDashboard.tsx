@@ -19,7 +19,9 @@ import {
   Cell,
   Legend,
 } from 'recharts';
-import { Mail, Eye, MousePointer, TrendingUp } from 'lucide-react';
+import { Mail, Eye, MousePointer, TrendingUp, ExternalLink } from 'lucide-react';
+import { EngagementCounts, LinkClickSummary, MACHINE_REASON_LABELS, countEngagement, engagedEmailIds, summarizeLinkClicks } from '@/utils/emailEventUtils';
+import { EMAIL_EVENT_COLUMNS } from '@/hooks/useEmailEvents';
 
 interface DailyStats {
   date: string;
@@ -33,11 +35,16 @@ interface StatusDistribution {
   value: number;
 }
 
+const EMPTY_COUNTS: EngagementCounts = { total: 0, human: 0, machine: 0, unique: 0 };
+
 export const EmailAnalyticsDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [dateRange, setDateRange] = useState('30');
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
   const [statusDistribution, setStatusDistribution] = useState<StatusDistribution[]>([]);
+  const [topLinks, setTopLinks] = useState<LinkClickSummary[]>([]);
+  const [engagement, setEngagement] = useState({ opens: EMPTY_COUNTS, clicks: EMPTY_COUNTS });
+  const [machineReasons, setMachineReasons] = useState<StatusDistribution[]>([]);
   const [totals, setTotals] = useState({
     totalSent: 0,
     totalOpened: 0,
@@ -68,10 +75,23 @@ export const EmailAnalyticsDashboard = () => {
 
         if (error) throw error;
 
+        // Opens and clicks on those emails; machine events are shown apart and never count as engagement
+        const { data: eventData, error: eventsError } = await supabase
+          .from('email_events')
+          .select(`${EMAIL_EVENT_COLUMNS}, machine_reason, email_history!inner(sent_by, sent_at)`)
+          .eq('email_history.sent_by', user.data.user.id)
+          .gte('email_history.sent_at', startDate.toISOString())
+          .lte('email_history.sent_at', endDate.toISOString());
+
+        if (eventsError) throw eventsError;
+        const events = eventData || [];
+        const openedIds = engagedEmailIds(events, 'open');
+        const clickedIds = engagedEmailIds(events, 'click');
+
         // Calculate totals
         const totalSent = emails?.length || 0;
-        const totalOpened = emails?.filter(e => e.open_count && e.open_count > 0).length || 0;
-        const totalClicked = emails?.filter(e => e.click_count && e.click_count > 0).length || 0;
+        const totalOpened = openedIds.size;
+        const totalClicked = clickedIds.size;
 
         setTotals({
           totalSent,
@@ -92,8 +112,8 @@ export const EmailAnalyticsDashboard = () => {
           return {
             date: format(date, 'dd MMM'),
             sent: dayEmails.length,
-            opened: dayEmails.filter(e => e.open_count && e.open_count > 0).length,
-            clicked: dayEmails.filter(e => e.click_count && e.click_count > 0).length,
+            opened: dayEmails.filter(e => openedIds.has(e.id)).length,
+            clicked: dayEmails.filter(e => clickedIds.has(e.id)).length,
           };
         });
 
@@ -110,6 +130,22 @@ export const EmailAnalyticsDashboard = () => {
           Object.entries(statusCounts).map(([name, value]) => ({ name, value }))
         );
 
+        setEngagement({ opens: countEngagement(events, 'open'), clicks: countEngagement(events, 'click') });
+
+        const reasonCounts: Record<string, number> = {};
+        events.filter(event => event.is_machine).forEach(event => {
+          const reason = MACHINE_REASON_LABELS[event.machine_reason || ''] || 'Other';
+          reasonCounts[reason] = (reasonCounts[reason] || 0) + 1;
+        });
+        setMachineReasons(
+          Object.entries(reasonCounts)
+            .map(([name, value]) => ({ name, value }))
+            .sort((a, b) => b.value - a.value)
+        );
+
+        // Which links in those emails were clicked
+        setTopLinks(summarizeLinkClicks(events).slice(0, 10));
+
       } catch (error) {
         console.error('Error fetching analytics:', error);
       } finally {
@@ -210,8 +246,8 @@ export const EmailAnalyticsDashboard = () => {
                 <TrendingUp className="h-5 w-5 text-orange-600 dark:text-orange-400" />
               </div>
               <div>
-                <p className="text-2xl font-bold">{totals.totalOpened}</p>
-                <p className="text-xs text-muted-foreground">Total Opens</p>
+                <p className="text-2xl font-bold">{engagement.opens.human}</p>
+                <p className="text-xs text-muted-foreground">Total Opens ({totals.totalOpened} unique)</p>
               </div>
             </div>
           </CardContent>
@@ -405,6 +441,94 @@ export const EmailAnalyticsDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Human vs. Machine Engagement */}
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="text-base">Human vs. Machine Engagement</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground border-b">
+                  <th className="py-2 font-medium">Event</th>
+                  <th className="py-2 font-medium text-right">Total</th>
+                  <th className="py-2 font-medium text-right">Unique</th>
+                  <th className="py-2 font-medium text-right">Human</th>
+                  <th className="py-2 font-medium text-right">Machine</th>
+                </tr>
+              </thead>
+              <tbody>
+                {([['Opens', engagement.opens], ['Clicks', engagement.clicks]] as const).map(([label, counts]) => (
+                  <tr key={label} className="border-b last:border-0">
+                    <td className="py-2">{label}</td>
+                    <td className="py-2 text-right">{counts.total}</td>
+                    <td className="py-2 text-right">{counts.unique}</td>
+                    <td className="py-2 text-right">{counts.human}</td>
+                    <td className="py-2 text-right text-muted-foreground">{counts.machine}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">Filtered machine traffic</p>
+              {machineReasons.length > 0 ? (
+                <div className="space-y-1">
+                  {machineReasons.map(reason => (
+                    <div key={reason.name} className="flex justify-between text-sm">
+                      <span>{reason.name}</span>
+                      <span className="text-muted-foreground">{reason.value}</span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No machine opens or clicks in this period</p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Top Clicked Links */}
+        <Card className="lg:col-span-3">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center gap-2">
+              <ExternalLink className="h-4 w-4" />
+              Top Clicked Links
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {topLinks.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground border-b">
+                    <th className="py-2 font-medium">Link</th>
+                    <th className="py-2 font-medium text-right">Clicks</th>
+                    <th className="py-2 font-medium text-right">Emails</th>
+                    <th className="py-2 font-medium text-right">Last Click</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topLinks.map(link => (
+                    <tr key={link.url} className="border-b last:border-0">
+                      <td className="py-2 pr-4 max-w-0 w-full">
+                        <a href={link.url} target="_blank" rel="noopener noreferrer" className="block truncate text-primary hover:underline" title={link.url}>
+                          {link.url}
+                        </a>
+                      </td>
+                      <td className="py-2 text-right">{link.clicks}</td>
+                      <td className="py-2 text-right">{link.emails}</td>
+                      <td className="py-2 text-right whitespace-nowrap pl-4">{format(new Date(link.lastClickedAt), 'dd MMM HH:mm')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <div className="text-center py-6 text-muted-foreground text-sm">
+                No links clicked in this period
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
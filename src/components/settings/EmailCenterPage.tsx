@@ -1,15 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileText, History, BarChart3 } from 'lucide-react';
+import { FileText, History, BarChart3, ListOrdered } from 'lucide-react';
 import EmailTemplatesSettings from '@/components/settings/EmailTemplatesSettings';
 import EmailHistorySettings from '@/components/settings/EmailHistorySettings';
+import EmailSequencesSettings from '@/components/settings/EmailSequencesSettings';
 import { EmailAnalyticsDashboard } from '@/components/settings/EmailAnalyticsDashboard';
 
 interface EmailCenterPageProps {
   defaultTab?: string | null;
 }
 
-const validTabs = ['templates', 'history', 'analytics'];
+const validTabs = ['templates', 'sequences', 'history', 'analytics'];
 
 const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
   const [activeTab, setActiveTab] = useState(() => {
@@ -30,16 +31,20 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
       <div className="mb-6">
         <h2 className="text-lg font-semibold">Email Center</h2>
         <p className="text-sm text-muted-foreground">
-          Manage email templates, view sent emails, and analyze engagement
+          Manage email templates and sequences, view sent emails, and analyze engagement
         </p>
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 max-w-md">
+        <TabsList className="grid w-full grid-cols-4 max-w-lg">
           <TabsTrigger value="templates" className="flex items-center gap-2">
             <FileText className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">Templates</span>
           </TabsTrigger>
+          <TabsTrigger value="sequences" className="flex items-center gap-2">
+            <ListOrdered className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Sequences</span>
+          </TabsTrigger>
           <TabsTrigger value="history" className="flex items-center gap-2">
             <History className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">History</span>
@@ -54,6 +59,10 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
           <EmailTemplatesSettings />
         </TabsContent>
 
+        <TabsContent value="sequences" className="mt-6">
+          <EmailSequencesSettings />
+        </TabsContent>
+
         <TabsContent value="history" className="mt-6">
           <EmailHistorySettings />
         </TabsContent>
@@ -0,0 +1,371 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Edit, Mail, Pause, Play, Plus, RefreshCw, Square, SquareCheck, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import {
+  SequenceWithSteps,
+  useEmailSequences,
+  useSequenceEnrollments,
+  useSequenceMutations,
+  useSequenceStepMetrics,
+} from "@/hooks/useEmailSequences";
+import { ENROLLMENT_STATUS_LABELS, EnrollmentStatus, SequenceEnrollment, STOP_REASON_LABELS } from "@/types/sequence";
+import { SequenceEditorModal } from "./SequenceEditorModal";
+
+const STATUS_VARIANTS: Record<EnrollmentStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  active: "default",
+  paused: "secondary",
+  completed: "outline",
+  stopped: "destructive",
+};
+
+const rate = (count: number, sent: number) => (sent > 0 ? `${Math.round((count / sent) * 100)}%` : "-");
+
+const formatDateTime = (value: string | null) => (value ? format(new Date(value), "dd/MM/yyyy HH:mm") : "-");
+
+const EmailSequencesSettings = () => {
+  const { toast } = useToast();
+  const { data: sequences = [], isLoading } = useEmailSequences();
+  const { deleteSequence, setEnrollmentStatus, runNow } = useSequenceMutations();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [showModal, setShowModal] = useState(false);
+  const [editingSequence, setEditingSequence] = useState<SequenceWithSteps | null>(null);
+  const [sequenceToDelete, setSequenceToDelete] = useState<SequenceWithSteps | null>(null);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates', 'options'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('email_templates').select('id, name').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const selected = sequences.find(sequence => sequence.id === selectedId) || null;
+  const { data: metrics } = useSequenceStepMetrics(selected?.id ?? null);
+  const { data: enrollments = [], isLoading: enrollmentsLoading } = useSequenceEnrollments(selected?.id ?? null);
+
+  // Keep a sequence selected so its metrics are on screen
+  useEffect(() => {
+    if (!selected && sequences.length > 0) setSelectedId(sequences[0].id);
+  }, [selected, sequences]);
+
+  const templateNames = useMemo(() => new Map(templates.map(template => [template.id, template.name])), [templates]);
+
+  const statusCounts = useMemo(() => {
+    const counts: Partial<Record<EnrollmentStatus, number>> = {};
+    enrollments.forEach(enrollment => {
+      counts[enrollment.status] = (counts[enrollment.status] || 0) + 1;
+    });
+    return counts;
+  }, [enrollments]);
+
+  const handleOpenModal = (sequence?: SequenceWithSteps) => {
+    setEditingSequence(sequence || null);
+    setShowModal(true);
+  };
+
+  const handleDelete = async (sequence: SequenceWithSteps) => {
+    try {
+      await deleteSequence.mutateAsync(sequence.id);
+      toast({ title: "Success", description: "Sequence deleted successfully" });
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({ title: "Error", description: "Failed to delete sequence", variant: "destructive" });
+    }
+  };
+
+  const handleStatusChange = async (enrollment: SequenceEnrollment, status: EnrollmentStatus) => {
+    try {
+      await setEnrollmentStatus.mutateAsync({ enrollment, status });
+    } catch (error) {
+      console.error('Error updating enrollment:', error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to update enrollment", variant: "destructive" });
+    }
+  };
+
+  const handleRunNow = async () => {
+    try {
+      const result = await runNow.mutateAsync();
+      toast({
+        title: "Sequences processed",
+        description: `${result.processed} due step(s): ${result.email} email(s) sent, ${result.task} task(s) created${result.failed ? `, ${result.failed} failed` : ""}`,
+      });
+    } catch (error) {
+      console.error('Error running sequences:', error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : "Failed to run sequences", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading sequences...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Email Sequences</CardTitle>
+              <CardDescription>
+                Automated follow-ups: template emails and tasks sent on a schedule until the person replies or books a meeting
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Button variant="outline" onClick={handleRunNow} disabled={runNow.isPending} className="gap-2">
+                    <RefreshCw className={`h-4 w-4 ${runNow.isPending ? "animate-spin" : ""}`} />
+                    Run Now
+                  </Button>
+                </TooltipTrigger>
+                <TooltipContent>Due steps are also sent automatically every 15 minutes</TooltipContent>
+              </Tooltip>
+              <Button onClick={() => handleOpenModal()} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Sequence
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <caption className="sr-only">Email sequences list</caption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Steps</TableHead>
+                <TableHead>Sending window</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-[100px]">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sequences.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    No sequences yet. Create one, then enroll leads or contacts from their tables.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sequences.map((sequence) => (
+                  <TableRow
+                    key={sequence.id}
+                    className={`cursor-pointer ${sequence.id === selectedId ? "bg-muted/50" : ""}`}
+                    onClick={() => setSelectedId(sequence.id)}
+                  >
+                    <TableCell className="font-medium">{sequence.name}</TableCell>
+                    <TableCell>{sequence.steps.length}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {String(sequence.business_hours_start).padStart(2, "0")}:00–{String(sequence.business_hours_end).padStart(2, "0")}:00 {sequence.timezone}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={sequence.is_active ? "default" : "secondary"}>
+                        {sequence.is_active ? "Active" : "Inactive"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                        <Button variant="ghost" size="icon" onClick={() => handleOpenModal(sequence)} aria-label={`Edit ${sequence.name} sequence`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => setSequenceToDelete(sequence)} aria-label={`Delete ${sequence.name} sequence`}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{selected.name}: step performance</CardTitle>
+              <CardDescription>Opens and clicks exclude machine traffic; rates are per email sent</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Step</TableHead>
+                    <TableHead>Day</TableHead>
+                    <TableHead className="text-right">Sent</TableHead>
+                    <TableHead className="text-right">Opened</TableHead>
+                    <TableHead className="text-right">Clicked</TableHead>
+                    <TableHead className="text-right">Replied</TableHead>
+                    <TableHead className="text-right">Unsubscribed</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selected.steps.map((step, index) => {
+                    const stepMetrics = metrics?.get(step.id);
+                    const sent = stepMetrics?.sent || 0;
+                    return (
+                      <TableRow key={step.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            {step.step_type === "email" ? <Mail className="h-4 w-4 text-muted-foreground" /> : <SquareCheck className="h-4 w-4 text-muted-foreground" />}
+                            <span>
+                              {index + 1}. {step.step_type === "email" ? templateNames.get(step.template_id || "") || "Missing template" : step.task_title}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{step.day_offset}</TableCell>
+                        {step.step_type === "email" ? (
+                          <>
+                            <TableCell className="text-right">{sent}</TableCell>
+                            <TableCell className="text-right">{stepMetrics?.opened || 0} <span className="text-muted-foreground">({rate(stepMetrics?.opened || 0, sent)})</span></TableCell>
+                            <TableCell className="text-right">{stepMetrics?.clicked || 0} <span className="text-muted-foreground">({rate(stepMetrics?.clicked || 0, sent)})</span></TableCell>
+                            <TableCell className="text-right">{stepMetrics?.replied || 0} <span className="text-muted-foreground">({rate(stepMetrics?.replied || 0, sent)})</span></TableCell>
+                            <TableCell className="text-right">{stepMetrics?.unsubscribed || 0}</TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={5} className="text-right text-muted-foreground">Manual task</TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Enrollments</CardTitle>
+              <CardDescription>
+                {(Object.keys(ENROLLMENT_STATUS_LABELS) as EnrollmentStatus[])
+                  .map(status => `${statusCounts[status] || 0} ${ENROLLMENT_STATUS_LABELS[status].toLowerCase()}`)
+                  .join(" · ")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Person</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Next step</TableHead>
+                    <TableHead>Enrolled</TableHead>
+                    <TableHead className="w-[100px]">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {enrollmentsLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">Loading enrollments...</TableCell>
+                    </TableRow>
+                  ) : enrollments.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                        Nobody is enrolled yet. Use "Enroll in Sequence" on the Leads or Contacts table.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    enrollments.map((enrollment) => (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>
+                          <div className="font-medium">{enrollment.person_name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {enrollment.lead_id ? "Lead" : "Contact"}{enrollment.person_email ? ` · ${enrollment.person_email}` : ""}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={STATUS_VARIANTS[enrollment.status]}>{ENROLLMENT_STATUS_LABELS[enrollment.status]}</Badge>
+                          {enrollment.stop_reason && (
+                            <div className="text-xs text-muted-foreground mt-1">{STOP_REASON_LABELS[enrollment.stop_reason] || enrollment.stop_reason}</div>
+                          )}
+                          {enrollment.last_error && (
+                            <div className="text-xs text-destructive mt-1" title={enrollment.last_error}>Last attempt failed</div>
+                          )}
+                        </TableCell>
+                        <TableCell>{Math.min(enrollment.current_step, selected.steps.length)} / {selected.steps.length}</TableCell>
+                        <TableCell>{enrollment.status === "active" ? formatDateTime(enrollment.next_step_at) : "-"}</TableCell>
+                        <TableCell>{format(new Date(enrollment.enrolled_at), "dd/MM/yyyy")}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            {enrollment.status === "active" && (
+                              <Button variant="ghost" size="icon" onClick={() => handleStatusChange(enrollment, "paused")} aria-label={`Pause ${enrollment.person_name}`}>
+                                <Pause className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {enrollment.status === "paused" && (
+                              <Button variant="ghost" size="icon" onClick={() => handleStatusChange(enrollment, "active")} aria-label={`Resume ${enrollment.person_name}`}>
+                                <Play className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {(enrollment.status === "active" || enrollment.status === "paused") && (
+                              <Button variant="ghost" size="icon" onClick={() => handleStatusChange(enrollment, "stopped")} aria-label={`Stop ${enrollment.person_name}`}>
+                                <Square className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <SequenceEditorModal
+        open={showModal}
+        onOpenChange={setShowModal}
+        sequence={editingSequence}
+        templates={templates}
+      />
+
+      <AlertDialog open={!!sequenceToDelete} onOpenChange={(open) => !open && setSequenceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Sequence</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deleting "{sequenceToDelete?.name}" also removes its enrollments; emails already sent stay in the history. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (sequenceToDelete) {
+                  handleDelete(sequenceToDelete);
+                  setSequenceToDelete(null);
+                }
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EmailSequencesSettings;
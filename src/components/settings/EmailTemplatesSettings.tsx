@@ -15,6 +15,8 @@ import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { TablePagination } from "@/components/shared/TablePagination";
+import { TEMPLATE_FILTERS, TEMPLATE_VARIABLE_GROUPS, validateTemplate } from "@/utils/emailTemplateEngine";
+import { TemplatePreviewPanel } from "./TemplatePreviewPanel";
 
 interface EmailTemplate {
   id: string;
@@ -112,6 +114,17 @@ const EmailTemplatesSettings = () => {
       return;
     }
 
+    // Unknown variables are allowed here (the preview flags them); broken syntax is not
+    const { errors } = validateTemplate(formData.subject, formData.body);
+    if (errors.length > 0) {
+      toast({
+        title: "Template has errors",
+        description: errors[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       const templateData = {
@@ -171,13 +184,6 @@ const EmailTemplatesSettings = () => {
     }
   };
 
-  const availableVariables = [
-    { variable: "{{contact_name}}", description: "Contact's full name" },
-    { variable: "{{company_name}}", description: "Company name" },
-    { variable: "{{position}}", description: "Contact's position" },
-    { variable: "{{email}}", description: "Contact's email" },
-  ];
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -213,18 +219,29 @@ const EmailTemplatesSettings = () => {
               <Info className="h-4 w-4 text-muted-foreground" />
               <span className="text-sm font-medium">Available Variables</span>
             </div>
-            <div className="flex flex-wrap gap-2">
-              {availableVariables.map((v) => (
-                <Tooltip key={v.variable}>
-                  <TooltipTrigger asChild>
-                    <Badge variant="outline" className="cursor-help">
-                      {v.variable}
-                    </Badge>
-                  </TooltipTrigger>
-                  <TooltipContent>{v.description}</TooltipContent>
-                </Tooltip>
+            <div className="space-y-2">
+              {TEMPLATE_VARIABLE_GROUPS.map((group) => (
+                <div key={group.label} className="flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-20 shrink-0">{group.label}</span>
+                  {group.variables.map((v) => (
+                    <Tooltip key={v.key}>
+                      <TooltipTrigger asChild>
+                        <Badge variant="outline" className="cursor-help font-mono text-[11px]">
+                          {`{{${v.key}}}`}
+                        </Badge>
+                      </TooltipTrigger>
+                      <TooltipContent>{v.description}</TooltipContent>
+                    </Tooltip>
+                  ))}
+                </div>
               ))}
             </div>
+            <p className="text-xs text-muted-foreground mt-3">
+              Fallbacks: {'{{first_name | default: "there"}}'}. Conditionals: {"{{#if deal}}...{{else}}...{{/if}}"},{" "}
+              {'{{#if lead.lead_status == "New"}}...{{/if}}'}, {"{{#unless ...}}"}. Filters: {TEMPLATE_FILTERS.join(", ")}, e.g.{" "}
+              {'{{deal.expected_closing_date | date: "d MMM yyyy"}}'} or {"{{deal.total_contract_value | currency}}"}.
+              Values are HTML-escaped in the body; {"{{field | raw}}"} inserts trusted HTML as is.
+            </p>
           </div>
 
           <Table>
@@ -295,55 +312,59 @@ const EmailTemplatesSettings = () => {
 
       {/* Template Modal */}
       <Dialog open={showModal} onOpenChange={setShowModal}>
-        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{editingTemplate ? "Edit Template" : "New Template"}</DialogTitle>
           </DialogHeader>
           
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="name">Template Name *</Label>
-              <Input
-                id="name"
-                value={formData.name}
-                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
-                placeholder="e.g., Welcome Email, Follow-up"
-                required
-              />
-            </div>
+          <div className="grid gap-6 md:grid-cols-2">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="name">Template Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="e.g., Welcome Email, Follow-up"
+                  required
+                />
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="subject">Email Subject *</Label>
-              <Input
-                id="subject"
-                value={formData.subject}
-                onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
-                placeholder="e.g., Hello {{contact_name}}, following up..."
-                required
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="subject">Email Subject *</Label>
+                <Input
+                  id="subject"
+                  value={formData.subject}
+                  onChange={(e) => setFormData(prev => ({ ...prev, subject: e.target.value }))}
+                  placeholder={'e.g., Hello {{first_name | default: "there"}}, following up...'}
+                  required
+                />
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="body">Email Body *</Label>
-              <Textarea
-                id="body"
-                value={formData.body}
-                onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
-                placeholder="Write your email content here. Use variables like {{contact_name}} for personalization."
-                rows={8}
-                required
-              />
-            </div>
+              <div className="space-y-2">
+                <Label htmlFor="body">Email Body *</Label>
+                <Textarea
+                  id="body"
+                  value={formData.body}
+                  onChange={(e) => setFormData(prev => ({ ...prev, body: e.target.value }))}
+                  placeholder="Write your email content here. Use variables like {{first_name}} for personalization."
+                  rows={12}
+                  required
+                />
+              </div>
 
-            <div className="flex justify-end gap-2 pt-4">
-              <Button type="button" variant="outline" onClick={() => setShowModal(false)}>
-                Cancel
-              </Button>
-              <Button type="submit" disabled={saving}>
-                {saving ? "Saving..." : editingTemplate ? "Update" : "Create"}
-              </Button>
-            </div>
-          </form>
+              <div className="flex justify-end gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => setShowModal(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : editingTemplate ? "Update" : "Create"}
+                </Button>
+              </div>
+            </form>
+
+            <TemplatePreviewPanel subject={formData.subject} body={formData.body} />
+          </div>
         </DialogContent>
       </Dialog>
 
@@ -0,0 +1,279 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { EXCHANGE_RATES_QUERY_KEY } from '@/hooks/useExchangeRates';
+import { ExchangeRate, SUPPORTED_CURRENCIES, DEFAULT_REPORTING_CURRENCY } from '@/utils/currencyUtils';
+import { Loader2, Plus, Trash2, Coins } from 'lucide-react';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const ExchangeRateSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_REPORTING_CURRENCY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rateToDelete, setRateToDelete] = useState<ExchangeRate | null>(null);
+  const [newRate, setNewRate] = useState({ from_currency: 'USD', to_currency: DEFAULT_REPORTING_CURRENCY, rate: '', effective_date: today() });
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [ratesResult, settingsResult] = await Promise.all([
+        supabase
+          .from('exchange_rates')
+          .select('id, from_currency, to_currency, rate, effective_date')
+          .order('effective_date', { ascending: false }),
+        supabase
+          .from('company_settings')
+          .select('id, reporting_currency')
+          .order('created_at')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (ratesResult.error) throw ratesResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+
+      setRates((ratesResult.data || []) as ExchangeRate[]);
+      if (settingsResult.data) {
+        setSettingsId(settingsResult.data.id);
+        setReportingCurrency(settingsResult.data.reporting_currency);
+        setNewRate(prev => ({ ...prev, to_currency: settingsResult.data.reporting_currency }));
+      }
+    } catch (error) {
+      console.error('Error fetching exchange rates:', error);
+      toast.error('Failed to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const handleReportingCurrencyChange = async (currency: string) => {
+    const previous = reportingCurrency;
+    setReportingCurrency(currency);
+    try {
+      const { error } = settingsId
+        ? await supabase
+            .from('company_settings')
+            .update({ reporting_currency: currency, updated_by: user?.id })
+            .eq('id', settingsId)
+        : await supabase
+            .from('company_settings')
+            .insert({ reporting_currency: currency, updated_by: user?.id });
+
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey: EXCHANGE_RATES_QUERY_KEY });
+      toast.success(`Reporting currency set to ${currency}`);
+      if (!settingsId) fetchData();
+    } catch (error) {
+      console.error('Error updating reporting currency:', error);
+      toast.error('Failed to update reporting currency');
+      setReportingCurrency(previous);
+    }
+  };
+
+  const handleAddRate = async () => {
+    const rate = Number(newRate.rate);
+    if (newRate.from_currency === newRate.to_currency) {
+      toast.error('Choose two different currencies');
+      return;
+    }
+    if (!rate || rate <= 0) {
+      toast.error('Rate must be greater than zero');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({
+          from_currency: newRate.from_currency,
+          to_currency: newRate.to_currency,
+          rate,
+          effective_date: newRate.effective_date,
+          created_by: user?.id,
+        }, { onConflict: 'from_currency,to_currency,effective_date' });
+
+      if (error) throw error;
+
+      queryClient.invalidateQueries({ queryKey: EXCHANGE_RATES_QUERY_KEY });
+      toast.success('Exchange rate saved');
+      setNewRate(prev => ({ ...prev, rate: '' }));
+      fetchData();
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error((error as { message?: string }).message || 'Failed to save exchange rate');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDeleteRate = async () => {
+    if (!rateToDelete) return;
+    try {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', rateToDelete.id);
+      if (error) throw error;
+
+      setRates(prev => prev.filter(r => r.id !== rateToDelete.id));
+      queryClient.invalidateQueries({ queryKey: EXCHANGE_RATES_QUERY_KEY });
+      toast.success('Exchange rate deleted');
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error('Failed to delete exchange rate');
+    } finally {
+      setRateToDelete(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Reporting Currency</CardTitle>
+          <CardDescription>
+            Account revenue and revenue targets are stored in this currency. Users see totals in their own display currency.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select value={reportingCurrency} onValueChange={handleReportingCurrencyChange}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CURRENCIES.map(currency => (
+                <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Exchange Rates</CardTitle>
+          <CardDescription>
+            Deals are converted at the latest rate on or before their signed date, or their expected closing date while open.
+            Pairs without a direct rate are converted through the reporting currency.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-1">
+              <Label>From</Label>
+              <Select value={newRate.from_currency} onValueChange={value => setNewRate(prev => ({ ...prev, from_currency: value }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>To</Label>
+              <Select value={newRate.to_currency} onValueChange={value => setNewRate(prev => ({ ...prev, to_currency: value }))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Rate</Label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                placeholder={`1 ${newRate.from_currency} = ? ${newRate.to_currency}`}
+                value={newRate.rate}
+                onChange={e => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Effective Date</Label>
+              <Input
+                type="date"
+                value={newRate.effective_date}
+                onChange={e => setNewRate(prev => ({ ...prev, effective_date: e.target.value }))}
+              />
+            </div>
+            <Button onClick={handleAddRate} disabled={saving || !newRate.rate || !newRate.effective_date}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Rate
+            </Button>
+          </div>
+
+          {rates.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <Coins className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No exchange rates yet. Amounts in other currencies are counted unconverted.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead>Rate</TableHead>
+                  <TableHead>Effective From</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell className="font-medium">{rate.from_currency} → {rate.to_currency}</TableCell>
+                    <TableCell>{Number(rate.rate)}</TableCell>
+                    <TableCell>{rate.effective_date}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="ghost" onClick={() => setRateToDelete(rate)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <DeleteConfirmDialog
+        open={!!rateToDelete}
+        onOpenChange={(open) => !open && setRateToDelete(null)}
+        onConfirm={confirmDeleteRate}
+        title="Delete Exchange Rate"
+        description={`Delete the ${rateToDelete?.from_currency} → ${rateToDelete?.to_currency} rate effective ${rateToDelete?.effective_date}? Revenue totals will be recalculated.`}
+      />
+    </div>
+  );
+};
+
+export default ExchangeRateSettings;
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -27,6 +28,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { CapturedEmailsCard } from './CapturedEmailsCard';
+
+interface ConfigField {
+  key: string;
+  label: string;
+  type: string;
+  options?: { value: string; label: string }[];
+}
+
+const EMAIL_TRANSPORT_OPTIONS = [
+  { value: 'smtp', label: 'SMTP server' },
+  { value: 'graph', label: 'Microsoft Graph' },
+  { value: 'capture', label: 'Capture (development, nothing is delivered)' },
+];
 
 interface Integration {
   id: string;
@@ -47,6 +62,9 @@ const IntegrationSettings = () => {
   const [saving, setSaving] = useState(false);
 
   const isAdmin = userRole === 'admin';
+  const capturingEmails = integrations.some(i =>
+    i.integration_name === 'Email (SMTP)' && i.is_enabled && i.config?.transport === 'capture'
+  );
 
   useEffect(() => {
     fetchIntegrations();
@@ -130,7 +148,7 @@ const IntegrationSettings = () => {
     }
   };
 
-  const getConfigFields = (integrationName: string): { key: string; label: string; type: string }[] => {
+  const getConfigFields = (integrationName: string): ConfigField[] => {
     switch (integrationName.toLowerCase()) {
       case 'microsoft teams':
         return [
@@ -139,6 +157,19 @@ const IntegrationSettings = () => {
         ];
       case 'email (smtp)':
         return [
+          { key: 'transport', label: 'Transport', type: 'select', options: EMAIL_TRANSPORT_OPTIONS },
+          { key: 'host', label: 'SMTP Host', type: 'text' },
+          { key: 'port', label: 'SMTP Port', type: 'number' },
+          {
+            key: 'secure',
+            label: 'Connection',
+            type: 'select',
+            options: [
+              { value: 'false', label: 'STARTTLS' },
+              { value: 'true', label: 'TLS (SSL)' },
+            ],
+          },
+          { key: 'username', label: 'SMTP Username', type: 'text' },
           { key: 'sender_email', label: 'Sender Email', type: 'email' },
           { key: 'sender_name', label: 'Sender Name', type: 'text' },
         ];
@@ -298,6 +329,8 @@ const IntegrationSettings = () => {
           </CardContent>
         </Card>
 
+        {isAdmin && capturingEmails && <CapturedEmailsCard />}
+
         {/* Setup Instructions */}
         <Card>
           <CardHeader>
@@ -328,8 +361,11 @@ const IntegrationSettings = () => {
             <div className="p-4 bg-muted rounded-lg">
               <h4 className="font-medium mb-2">Email (SMTP)</h4>
               <p className="text-sm text-muted-foreground">
-                Configure AZURE_EMAIL_CLIENT_ID, AZURE_EMAIL_CLIENT_SECRET, and AZURE_EMAIL_TENANT_ID
-                for Microsoft Graph email integration.
+                Emails go through Microsoft Graph unless this integration is enabled with another transport.
+                Graph needs AZURE_EMAIL_CLIENT_ID, AZURE_EMAIL_CLIENT_SECRET, and AZURE_EMAIL_TENANT_ID;
+                an SMTP server needs SMTP_PASSWORD when a username is set. Set EMAIL_TRACKING_SECRET to sign
+                click-tracking links. For local development, EMAIL_TRANSPORT=capture overrides these settings
+                and EMAIL_CAPTURE_FILE also appends captured emails to a file.
               </p>
             </div>
           </CardContent>
@@ -350,16 +386,32 @@ const IntegrationSettings = () => {
             {selectedIntegration && getConfigFields(selectedIntegration.integration_name).map((field) => (
               <div key={field.key} className="space-y-2">
                 <Label htmlFor={field.key}>{field.label}</Label>
-                <Input
-                  id={field.key}
-                  type={field.type}
-                  value={configData[field.key] || ''}
-                  onChange={(e) => setConfigData(prev => ({
-                    ...prev,
-                    [field.key]: e.target.value
-                  }))}
-                  placeholder={`Enter ${field.label.toLowerCase()}`}
-                />
+                {field.options ? (
+                  <Select
+                    value={configData[field.key] != null ? String(configData[field.key]) : undefined}
+                    onValueChange={(value) => setConfigData(prev => ({ ...prev, [field.key]: value }))}
+                  >
+                    <SelectTrigger id={field.key}>
+                      <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={field.key}
+                    type={field.type}
+                    value={configData[field.key] || ''}
+                    onChange={(e) => setConfigData(prev => ({
+                      ...prev,
+                      [field.key]: e.target.value
+                    }))}
+                    placeholder={`Enter ${field.label.toLowerCase()}`}
+                  />
+                )}
               </div>
             ))}
             
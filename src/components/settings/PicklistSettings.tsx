@@ -0,0 +1,384 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { usePicklist, PICKLISTS_QUERY_KEY } from '@/hooks/usePicklists';
+import { findPicklistValue } from '@/utils/picklistUtils';
+import { PicklistKey, PicklistValue, PICKLIST_KEYS, PICKLIST_LABELS, PICKLIST_USAGE } from '@/types/picklist';
+import { Loader2, Plus, Trash2, Pencil, ArrowUp, ArrowDown, Merge, Check, List } from 'lucide-react';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { colorOptions } from './colorOptions';
+
+interface ValueDraft {
+  id?: string;
+  value: string;
+  color: string | null;
+  is_active: boolean;
+}
+
+const emptyDraft: ValueDraft = { value: '', color: null, is_active: true };
+
+const PicklistSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [listKey, setListKey] = useState<PicklistKey>('region');
+  const { values, isLoading } = usePicklist(listKey);
+  const [draft, setDraft] = useState<ValueDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [valueToDelete, setValueToDelete] = useState<PicklistValue | null>(null);
+  const [merge, setMerge] = useState<{ from: string; to: string } | null>(null);
+  const [merging, setMerging] = useState(false);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: PICKLISTS_QUERY_KEY });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const text = draft.value.trim();
+    const existing = findPicklistValue(values, text);
+    if (existing && existing.id !== draft.id) {
+      toast.error(`"${existing.value}" is already in this list`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = draft.id
+        ? await supabase.from('picklist_values').update({ color: draft.color, is_active: draft.is_active }).eq('id', draft.id)
+        : await supabase.from('picklist_values').insert({
+            list_key: listKey,
+            value: text,
+            color: draft.color,
+            is_active: draft.is_active,
+            sort_order: values.length,
+            created_by: user?.id,
+          });
+      if (error) throw error;
+
+      toast.success(draft.id ? 'Value updated' : `"${text}" added`);
+      setDraft(null);
+      refresh();
+    } catch (error) {
+      console.error('Error saving picklist value:', error);
+      toast.error('Failed to save value');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (value: PicklistValue, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from('picklist_values').update({ is_active: isActive }).eq('id', value.id);
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error updating picklist value:', error);
+      toast.error('Failed to update value');
+    }
+  };
+
+  // Swaps with the neighbour and renumbers the list so values seeded with gaps line up
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    const reordered = [...values];
+    const [moved] = reordered.splice(index, 1);
+    reordered.splice(index + direction, 0, moved);
+
+    try {
+      const results = await Promise.all(
+        reordered
+          .map((value, order) => ({ value, order }))
+          .filter(({ value, order }) => value.sort_order !== order)
+          .map(({ value, order }) => supabase.from('picklist_values').update({ sort_order: order }).eq('id', value.id))
+      );
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+      refresh();
+    } catch (error) {
+      console.error('Error reordering picklist values:', error);
+      toast.error('Failed to reorder values');
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!valueToDelete) return;
+    try {
+      const { error } = await supabase.from('picklist_values').delete().eq('id', valueToDelete.id);
+      if (error) throw error;
+
+      toast.success('Value deleted');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting picklist value:', error);
+      toast.error('Failed to delete value');
+    } finally {
+      setValueToDelete(null);
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!merge?.from || !merge.to) return;
+    setMerging(true);
+    try {
+      const { data, error } = await supabase.rpc('merge_picklist_value', {
+        p_list_key: listKey,
+        p_from: merge.from,
+        p_to: merge.to,
+      });
+      if (error) throw error;
+
+      toast.success(`Merged "${merge.from}" into "${merge.to}": ${data ?? 0} record(s) updated`);
+      setMerge(null);
+      // Records in every module may have changed, not just the list
+      queryClient.invalidateQueries();
+    } catch (error) {
+      console.error('Error merging picklist values:', error);
+      toast.error((error as { message?: string }).message || 'Failed to merge values');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Picklists</CardTitle>
+          <CardDescription>
+            The values offered in forms and filters and accepted by imports. Inactive values stay on existing records
+            but are no longer offered; merge a value into another to rewrite the records that hold it.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label>List</Label>
+              <Select value={listKey} onValueChange={value => setListKey(value as PicklistKey)}>
+                <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PICKLIST_KEYS.map(key => (
+                    <SelectItem key={key} value={key}>{PICKLIST_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => setDraft(emptyDraft)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Value
+            </Button>
+            <Button variant="outline" onClick={() => setMerge({ from: '', to: '' })} disabled={values.length < 2}>
+              <Merge className="h-4 w-4 mr-2" />
+              Merge Values
+            </Button>
+            <p className="text-xs text-muted-foreground ml-auto">Used by: {PICKLIST_USAGE[listKey]}</p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : values.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <List className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No {PICKLIST_LABELS[listKey].toLowerCase()} values yet. Until one is added the field is free text.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Order</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {values.map((value, index) => (
+                    <TableRow key={value.id}>
+                      <TableCell>
+                        <div className="flex">
+                          <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7"
+                            disabled={index === values.length - 1}
+                            onClick={() => handleMove(index, 1)}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="w-3 h-3 rounded-full border"
+                            style={{ backgroundColor: value.color || 'transparent' }}
+                          />
+                          <span className="font-medium">{value.value}</span>
+                          {!value.is_active && <Badge variant="secondary">Inactive</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={value.is_active} onCheckedChange={checked => handleToggleActive(value, checked)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => setMerge({ from: value.value, to: '' })} aria-label={`Merge ${value.value}`}>
+                          <Merge className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => setDraft({ id: value.id, value: value.value, color: value.color, is_active: value.is_active })}
+                          aria-label={`Edit ${value.value}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setValueToDelete(value)} aria-label={`Delete ${value.value}`}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? 'Edit Value' : `Add ${PICKLIST_LABELS[listKey]} Value`}</DialogTitle>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="picklist-value">Value</Label>
+                <Input
+                  id="picklist-value"
+                  value={draft.value}
+                  onChange={e => setDraft({ ...draft, value: e.target.value })}
+                  disabled={!!draft.id}
+                />
+                {draft.id && (
+                  <p className="text-xs text-muted-foreground">
+                    Records store the value itself. To rename it, add the new value and merge this one into it.
+                  </p>
+                )}
+              </div>
+              <div className="space-y-2">
+                <Label id="picklist-color-label">Color</Label>
+                <div className="flex gap-2 flex-wrap" role="radiogroup" aria-labelledby="picklist-color-label">
+                  {colorOptions.map(color => {
+                    const isSelected = draft.color === color.hex;
+                    return (
+                      <button
+                        key={color.hex}
+                        type="button"
+                        role="radio"
+                        aria-checked={isSelected}
+                        aria-label={color.name}
+                        className={`w-8 h-8 rounded-full border-2 relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
+                          isSelected ? 'border-foreground' : 'border-transparent'
+                        }`}
+                        style={{ backgroundColor: color.hex }}
+                        onClick={() => setDraft({ ...draft, color: isSelected ? null : color.hex })}
+                      >
+                        {isSelected && <Check className="h-4 w-4 text-white absolute inset-0 m-auto drop-shadow" />}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="picklist-active"
+                  checked={draft.is_active}
+                  onCheckedChange={checked => setDraft({ ...draft, is_active: checked })}
+                />
+                <Label htmlFor="picklist-active">Active</Label>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving || !draft?.value.trim()}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {draft?.id ? 'Save' : 'Add Value'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!merge} onOpenChange={open => !open && setMerge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge {PICKLIST_LABELS[listKey]} Values</DialogTitle>
+            <DialogDescription>
+              Every record in {PICKLIST_USAGE[listKey].toLowerCase()} holding the first value, in any letter case, is
+              changed to the second, and the first is removed from the list. This can't be undone.
+            </DialogDescription>
+          </DialogHeader>
+          {merge && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Merge</Label>
+                <Select value={merge.from} onValueChange={from => setMerge({ from, to: merge.to === from ? '' : merge.to })}>
+                  <SelectTrigger><SelectValue placeholder="Value to remove" /></SelectTrigger>
+                  <SelectContent>
+                    {values.map(value => (
+                      <SelectItem key={value.id} value={value.value}>{value.value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Into</Label>
+                <Select value={merge.to} onValueChange={to => setMerge({ ...merge, to })}>
+                  <SelectTrigger><SelectValue placeholder="Value to keep" /></SelectTrigger>
+                  <SelectContent>
+                    {values
+                      .filter(value => value.value !== merge.from)
+                      .map(value => (
+                        <SelectItem key={value.id} value={value.value}>{value.value}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMerge(null)}>Cancel</Button>
+            <Button onClick={handleMerge} disabled={merging || !merge?.from || !merge?.to}>
+              {merging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Merge
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!valueToDelete}
+        onOpenChange={open => !open && setValueToDelete(null)}
+        onConfirm={confirmDelete}
+        title="Delete Value"
+        description={`Delete "${valueToDelete?.value}"? Records that hold it keep the value, but imports no longer accept it. Deactivate it instead to keep it valid, or merge it into another value to update those records.`}
+      />
+    </div>
+  );
+};
+
+export default PicklistSettings;
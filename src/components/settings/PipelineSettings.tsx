@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,7 +7,12 @@ import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { useUserRole } from '@/hooks/useUserRole';
+import { PIPELINE_STAGES_QUERY_KEY } from '@/hooks/usePipelineStages';
+import { PipelineStage } from '@/types/deal';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Loader2, 
   Plus, 
@@ -25,6 +30,8 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { StageFormFieldsEditor } from './StageFormFieldsEditor';
+import { colorOptions } from './colorOptions';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -36,66 +43,37 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-interface PipelineStage {
-  id: string;
-  stage_name: string;
-  stage_order: number;
-  stage_color: string;
-  stage_probability: number;
-  is_active: boolean;
-  is_won_stage: boolean;
-  is_lost_stage: boolean;
+// Deals sitting on a stage that is about to be deleted or deactivated
+interface StageReassignment {
+  stage: PipelineStage;
+  action: 'delete' | 'deactivate';
+  dealCount: number;
+  pendingUpdate?: Partial<PipelineStage>;
 }
 
-interface LeadStatus {
-  id: string;
-  status_name: string;
-  status_color: string;
-  status_order: number;
-  is_active: boolean;
-  is_converted_status: boolean;
-}
-
-const colorOptions = [
-  { hex: '#3b82f6', name: 'Blue' },
-  { hex: '#6b7280', name: 'Gray' },
-  { hex: '#8b5cf6', name: 'Purple' },
-  { hex: '#f59e0b', name: 'Amber' },
-  { hex: '#10b981', name: 'Emerald' },
-  { hex: '#22c55e', name: 'Green' },
-  { hex: '#ef4444', name: 'Red' },
-  { hex: '#94a3b8', name: 'Slate' },
-  { hex: '#ec4899', name: 'Pink' },
-  { hex: '#14b8a6', name: 'Teal' }
-];
 
 const PipelineSettings = () => {
   const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [stages, setStages] = useState<PipelineStage[]>([]);
-  const [statuses, setStatuses] = useState<LeadStatus[]>([]);
   const [showStageModal, setShowStageModal] = useState(false);
-  const [showStatusModal, setShowStatusModal] = useState(false);
   const [editingStage, setEditingStage] = useState<Partial<PipelineStage> | null>(null);
-  const [editingStatus, setEditingStatus] = useState<Partial<LeadStatus> | null>(null);
   const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(null);
-  const [statusToDelete, setStatusToDelete] = useState<LeadStatus | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
+  const [reassignment, setReassignment] = useState<StageReassignment | null>(null);
+  const [reassignTarget, setReassignTarget] = useState<string>('');
   
   // Track initial state for unsaved changes detection
   const initialStagesRef = useRef<string>('');
-  const initialStatusesRef = useRef<string>('');
 
   const isAdmin = userRole === 'admin';
 
   // Check for unsaved changes
   const hasUnsavedChanges = () => {
-    return (
-      JSON.stringify(stages) !== initialStagesRef.current ||
-      JSON.stringify(statuses) !== initialStatusesRef.current
-    );
+    return JSON.stringify(stages) !== initialStagesRef.current;
   };
 
   // Warn before leaving with unsaved changes
@@ -109,38 +87,32 @@ const PipelineSettings = () => {
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [stages, statuses]);
-
-  useEffect(() => {
-    fetchData();
-  }, []);
+  }, [stages]);
 
-  const fetchData = async () => {
+  const fetchData = useCallback(async () => {
     try {
-      const [stagesRes, statusesRes] = await Promise.all([
-        supabase.from('pipeline_stages').select('*').order('stage_order'),
-        supabase.from('lead_statuses').select('*').order('status_order'),
-      ]);
-
+      const stagesRes = await supabase.from('pipeline_stages').select('*').order('stage_order');
       if (stagesRes.error) throw stagesRes.error;
-      if (statusesRes.error) throw statusesRes.error;
 
       const stagesData = stagesRes.data || [];
-      const statusesData = statusesRes.data || [];
-      
       setStages(stagesData);
-      setStatuses(statusesData);
-      
+
       // Store initial state
       initialStagesRef.current = JSON.stringify(stagesData);
-      initialStatusesRef.current = JSON.stringify(statusesData);
+
+      // Keep the board, forms and filters in sync with the configured stages
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
     } catch (error) {
       console.error('Error fetching pipeline data:', error);
       toast.error('Failed to load pipeline settings');
     } finally {
       setLoading(false);
     }
-  };
+  }, [queryClient]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
 
   // Get colors already used by other stages (excluding current editing stage)
   const getUsedStageColors = () => {
@@ -149,21 +121,13 @@ const PipelineSettings = () => {
       .map(s => s.stage_color);
   };
 
-  const getUsedStatusColors = () => {
-    return statuses
-      .filter(s => s.id !== editingStatus?.id)
-      .map(s => s.status_color);
-  };
-
   // Validate stage name
-  const validateStageName = (name: string, isStage: boolean = true): string | null => {
+  const validateStageName = (name: string): string | null => {
     if (!name.trim()) {
       return 'Name is required';
     }
     
-    const existingNames = isStage
-      ? stages.filter(s => s.id !== editingStage?.id).map(s => s.stage_name.toLowerCase())
-      : statuses.filter(s => s.id !== editingStatus?.id).map(s => s.status_name.toLowerCase());
+    const existingNames = stages.filter(s => s.id !== editingStage?.id).map(s => s.stage_name.toLowerCase());
     
     if (existingNames.includes(name.trim().toLowerCase())) {
       return 'This name already exists';
@@ -173,7 +137,7 @@ const PipelineSettings = () => {
   };
 
   const saveStage = async () => {
-    const error = validateStageName(editingStage?.stage_name || '', true);
+    const error = validateStageName(editingStage?.stage_name || '');
     if (error) {
       setValidationError(error);
       return;
@@ -183,6 +147,17 @@ const PipelineSettings = () => {
     setValidationError(null);
 
     try {
+      const originalStage = stages.find(s => s.id === editingStage?.id);
+      if (originalStage && originalStage.is_active !== false && editingStage?.is_active === false) {
+        const dealCount = await countDealsInStage(originalStage.stage_name);
+        if (dealCount > 0) {
+          setReassignment({ stage: originalStage, action: 'deactivate', dealCount, pendingUpdate: editingStage });
+          setReassignTarget('');
+          setShowStageModal(false);
+          return;
+        }
+      }
+
       if (editingStage?.id) {
         const { error } = await supabase
           .from('pipeline_stages')
@@ -199,6 +174,9 @@ const PipelineSettings = () => {
             is_active: editingStage?.is_active ?? true,
             is_won_stage: editingStage?.is_won_stage || false,
             is_lost_stage: editingStage?.is_lost_stage || false,
+            is_drop_stage: editingStage?.is_drop_stage || false,
+            form_fields: editingStage?.form_fields || [],
+            required_fields: editingStage?.required_fields || [],
             stage_order: stages.length,
           });
         if (error) throw error;
@@ -216,43 +194,76 @@ const PipelineSettings = () => {
     }
   };
 
-  const saveStatus = async () => {
-    const error = validateStageName(editingStatus?.status_name || '', false);
-    if (error) {
-      setValidationError(error);
-      return;
+  const countDealsInStage = async (stageName: string) => {
+    const { count, error } = await supabase
+      .from('deals')
+      .select('id', { count: 'exact', head: true })
+      .eq('stage', stageName);
+    if (error) throw error;
+    return count || 0;
+  };
+
+  // Persist a new stage order after drag-and-drop
+  const handleStageDragEnd = async (result: DropResult) => {
+    if (!result.destination || result.destination.index === result.source.index) return;
+
+    const reordered = Array.from(stages);
+    const [moved] = reordered.splice(result.source.index, 1);
+    reordered.splice(result.destination.index, 0, moved);
+    const withOrder = reordered.map((stage, index) => ({ ...stage, stage_order: index }));
+    setStages(withOrder);
+
+    try {
+      const results = await Promise.all(
+        withOrder.map(stage =>
+          supabase.from('pipeline_stages').update({ stage_order: stage.stage_order }).eq('id', stage.id)
+        )
+      );
+      const failed = results.find(r => r.error);
+      if (failed?.error) throw failed.error;
+      toast.success('Stage order updated');
+    } catch (error) {
+      console.error('Error reordering stages:', error);
+      toast.error('Failed to reorder stages');
+    } finally {
+      fetchData();
     }
-    
+  };
+
+  // Move deals off the stage first, then finish the delete/deactivate that needed it
+  const confirmReassignment = async () => {
+    if (!reassignment || !reassignTarget) return;
     setSaving(true);
-    setValidationError(null);
 
     try {
-      if (editingStatus?.id) {
+      const { data: movedCount, error: reassignError } = await supabase.rpc('reassign_deals_stage', {
+        p_from_stage: reassignment.stage.stage_name,
+        p_to_stage: reassignTarget,
+      });
+      if (reassignError) throw reassignError;
+
+      if (reassignment.action === 'delete') {
         const { error } = await supabase
-          .from('lead_statuses')
-          .update(editingStatus)
-          .eq('id', editingStatus.id);
+          .from('pipeline_stages')
+          .delete()
+          .eq('id', reassignment.stage.id);
         if (error) throw error;
+        toast.success(`Moved ${movedCount} deal(s) to ${reassignTarget} and deleted stage`);
       } else {
         const { error } = await supabase
-          .from('lead_statuses')
-          .insert({
-            status_name: editingStatus?.status_name,
-            status_color: editingStatus?.status_color || '#6b7280',
-            is_active: editingStatus?.is_active ?? true,
-            is_converted_status: editingStatus?.is_converted_status || false,
-            status_order: statuses.length,
-          });
+          .from('pipeline_stages')
+          .update({ ...reassignment.pendingUpdate, is_active: false })
+          .eq('id', reassignment.stage.id);
         if (error) throw error;
+        toast.success(`Moved ${movedCount} deal(s) to ${reassignTarget} and deactivated stage`);
       }
 
-      toast.success('Status saved successfully');
-      setShowStatusModal(false);
-      setEditingStatus(null);
+      setReassignment(null);
+      setEditingStage(null);
       fetchData();
     } catch (error) {
-      console.error('Error saving status:', error);
-      toast.error('Failed to save status');
+      console.error('Error reassigning deals:', error);
+      toast.error('Failed to reassign deals');
     } finally {
       setSaving(false);
     }
@@ -261,6 +272,14 @@ const PipelineSettings = () => {
   const confirmDeleteStage = async () => {
     if (!stageToDelete) return;
     try {
+      const dealCount = await countDealsInStage(stageToDelete.stage_name);
+      if (dealCount > 0) {
+        setReassignment({ stage: stageToDelete, action: 'delete', dealCount });
+        setReassignTarget('');
+        setStageToDelete(null);
+        return;
+      }
+
       const { error } = await supabase
         .from('pipeline_stages')
         .delete()
@@ -274,22 +293,6 @@ const PipelineSettings = () => {
     }
   };
 
-  const confirmDeleteStatus = async () => {
-    if (!statusToDelete) return;
-    try {
-      const { error } = await supabase
-        .from('lead_statuses')
-        .delete()
-        .eq('id', statusToDelete.id);
-      if (error) throw error;
-      toast.success('Status deleted');
-      setStatusToDelete(null);
-      fetchData();
-    } catch (error) {
-      toast.error('Failed to delete status');
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -322,7 +325,7 @@ const PipelineSettings = () => {
                 Deal Pipeline Stages
               </CardTitle>
               <CardDescription>
-                Customize the stages in your deal pipeline
+                Customize the stages in your deal pipeline. Drag to reorder.
               </CardDescription>
             </div>
             <Button
@@ -338,14 +341,22 @@ const PipelineSettings = () => {
           </div>
         </CardHeader>
         <CardContent>
-          <div className="space-y-2">
-            {stages.map((stage) => (
+          <DragDropContext onDragEnd={handleStageDragEnd}>
+          <Droppable droppableId="pipeline-stages">
+          {(droppableProvided) => (
+          <div className="space-y-2" ref={droppableProvided.innerRef} {...droppableProvided.droppableProps}>
+            {stages.map((stage, index) => (
+              <Draggable key={stage.id} draggableId={stage.id} index={index}>
+              {(draggableProvided) => (
               <div
-                key={stage.id}
-                className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
+                ref={draggableProvided.innerRef}
+                {...draggableProvided.draggableProps}
+                className="flex items-center justify-between p-3 border rounded-lg bg-background hover:bg-muted/50"
               >
                 <div className="flex items-center gap-3">
-                  <GripVertical className="h-4 w-4 text-muted-foreground" />
+                  <span {...draggableProvided.dragHandleProps} aria-label={`Reorder ${stage.stage_name}`}>
+                    <GripVertical className="h-4 w-4 text-muted-foreground" />
+                  </span>
                   <div
                     className="w-4 h-4 rounded-full"
                     style={{ backgroundColor: stage.stage_color }}
@@ -354,7 +365,7 @@ const PipelineSettings = () => {
                   <span className="font-medium">{stage.stage_name}</span>
                   <Badge variant="outline">{stage.stage_probability}%</Badge>
                   {stage.is_won_stage && <Badge className="bg-green-500">Won</Badge>}
-                  {stage.is_lost_stage && <Badge variant="destructive">Lost/Dropped</Badge>}
+                  {stage.is_lost_stage && <Badge variant="destructive">{stage.is_drop_stage ? 'Dropped' : 'Lost'}</Badge>}
                   {!stage.is_active && <Badge variant="secondary">Inactive</Badge>}
                 </div>
                 <div className="flex items-center gap-2">
@@ -381,76 +392,14 @@ const PipelineSettings = () => {
                   </Button>
                 </div>
               </div>
+              )}
+              </Draggable>
             ))}
+            {droppableProvided.placeholder}
           </div>
-        </CardContent>
-      </Card>
-
-      {/* Lead Statuses */}
-      <Card>
-        <CardHeader>
-          <div className="flex items-center justify-between">
-            <div>
-              <CardTitle>Lead Statuses</CardTitle>
-              <CardDescription>
-                Define statuses for tracking leads
-              </CardDescription>
-            </div>
-            <Button
-              onClick={() => {
-                setEditingStatus({ status_name: '', status_color: '#6b7280' });
-                setValidationError(null);
-                setShowStatusModal(true);
-              }}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Status
-            </Button>
-          </div>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            {statuses.map((status) => (
-              <div
-                key={status.id}
-                className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50"
-              >
-                <div className="flex items-center gap-3">
-                  <div
-                    className="w-4 h-4 rounded-full"
-                    style={{ backgroundColor: status.status_color }}
-                    aria-label={`Color: ${colorOptions.find(c => c.hex === status.status_color)?.name || status.status_color}`}
-                  />
-                  <span className="font-medium">{status.status_name}</span>
-                  {status.is_converted_status && <Badge className="bg-green-500">Converted</Badge>}
-                  {!status.is_active && <Badge variant="secondary">Inactive</Badge>}
-                </div>
-                <div className="flex items-center gap-2">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setEditingStatus(status);
-                      setValidationError(null);
-                      setShowStatusModal(true);
-                    }}
-                    aria-label={`Edit ${status.status_name}`}
-                  >
-                    Edit
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="text-destructive"
-                    onClick={() => setStatusToDelete(status)}
-                    aria-label={`Delete ${status.status_name}`}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
-                </div>
-              </div>
-            ))}
-          </div>
+          )}
+          </Droppable>
+          </DragDropContext>
         </CardContent>
       </Card>
 
@@ -462,7 +411,7 @@ const PipelineSettings = () => {
           setShowStageModal(open);
         }
       }}>
-        <DialogContent>
+        <DialogContent className="max-w-xl max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
               {editingStage?.id ? 'Edit Stage' : 'Add Stage'}
@@ -549,17 +498,32 @@ const PipelineSettings = () => {
               <Switch
                 id="stage-won"
                 checked={editingStage?.is_won_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false }))}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_won_stage: checked, is_lost_stage: false, is_drop_stage: false }))}
               />
             </div>
             <div className="flex items-center justify-between">
-              <Label htmlFor="stage-lost">Lost/Dropped Stage</Label>
+              <Label htmlFor="stage-lost">Lost Stage</Label>
               <Switch
                 id="stage-lost"
                 checked={editingStage?.is_lost_stage || false}
-                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false }))}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false, is_drop_stage: false }))}
               />
             </div>
+            {editingStage?.is_lost_stage && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="stage-drop">Dropped by us (not lost to a competitor)</Label>
+                <Switch
+                  id="stage-drop"
+                  checked={editingStage?.is_drop_stage || false}
+                  onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_drop_stage: checked }))}
+                />
+              </div>
+            )}
+            <StageFormFieldsEditor
+              formFields={editingStage?.form_fields || []}
+              requiredFields={editingStage?.required_fields || []}
+              onChange={(form_fields, required_fields) => setEditingStage(s => ({ ...s, form_fields, required_fields }))}
+            />
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowStageModal(false)}>
@@ -573,116 +537,49 @@ const PipelineSettings = () => {
         </DialogContent>
       </Dialog>
 
-      {/* Status Edit Modal */}
-      <Dialog open={showStatusModal} onOpenChange={setShowStatusModal}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>
-              {editingStatus?.id ? 'Edit Status' : 'Add Status'}
-            </DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="status-name">Status Name</Label>
-              <Input
-                id="status-name"
-                value={editingStatus?.status_name || ''}
-                onChange={(e) => {
-                  setEditingStatus(s => ({ ...s, status_name: e.target.value }));
-                  setValidationError(null);
-                }}
-                placeholder="Enter status name"
-                aria-invalid={!!validationError}
-                aria-describedby={validationError ? "status-name-error" : undefined}
-              />
-              {validationError && (
-                <p id="status-name-error" className="text-sm text-destructive flex items-center gap-1">
-                  <AlertCircle className="h-3.5 w-3.5" />
-                  {validationError}
-                </p>
-              )}
-            </div>
-            <div className="space-y-2">
-              <Label id="status-color-label">Color</Label>
-              <div 
-                className="flex gap-2 flex-wrap" 
-                role="radiogroup" 
-                aria-labelledby="status-color-label"
-              >
-                {colorOptions.map((color) => {
-                  const isUsed = getUsedStatusColors().includes(color.hex);
-                  const isSelected = editingStatus?.status_color === color.hex;
-                  return (
-                    <button
-                      key={color.hex}
-                      type="button"
-                      role="radio"
-                      aria-checked={isSelected}
-                      aria-label={`${color.name}${isUsed ? ' (already used)' : ''}`}
-                      className={`w-8 h-8 rounded-full border-2 relative focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 ${
-                        isSelected ? 'border-foreground' : 'border-transparent'
-                      } ${isUsed ? 'opacity-50' : ''}`}
-                      style={{ backgroundColor: color.hex }}
-                      onClick={() => setEditingStatus(s => ({ ...s, status_color: color.hex }))}
-                    >
-                      {isSelected && (
-                        <Check className="h-4 w-4 text-white absolute inset-0 m-auto drop-shadow" />
-                      )}
-                      {isUsed && !isSelected && (
-                        <span className="absolute -top-1 -right-1 w-3 h-3 bg-muted-foreground rounded-full flex items-center justify-center">
-                          <span className="sr-only">Already used</span>
-                        </span>
-                      )}
-                    </button>
-                  );
-                })}
-              </div>
-            </div>
-            <div className="flex items-center justify-between">
-              <Label htmlFor="status-active">Active</Label>
-              <Switch
-                id="status-active"
-                checked={editingStatus?.is_active ?? true}
-                onCheckedChange={(checked) => setEditingStatus(s => ({ ...s, is_active: checked }))}
-              />
-            </div>
-            <div className="flex items-center justify-between">
-              <Label htmlFor="status-converted">Converted Status</Label>
-              <Switch
-                id="status-converted"
-                checked={editingStatus?.is_converted_status || false}
-                onCheckedChange={(checked) => setEditingStatus(s => ({ ...s, is_converted_status: checked }))}
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setShowStatusModal(false)}>
-              Cancel
-            </Button>
-            <Button onClick={saveStatus} disabled={saving}>
-              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-              Save
-            </Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
-
       {/* Delete Confirmation Dialogs */}
       <DeleteConfirmDialog
         open={!!stageToDelete}
         onOpenChange={(open) => !open && setStageToDelete(null)}
         onConfirm={confirmDeleteStage}
         title="Delete Pipeline Stage"
-        description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Deals in this stage will need to be reassigned.`}
+        description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Any deals in this stage will be reassigned first.`}
       />
 
-      <DeleteConfirmDialog
-        open={!!statusToDelete}
-        onOpenChange={(open) => !open && setStatusToDelete(null)}
-        onConfirm={confirmDeleteStatus}
-        title="Delete Lead Status"
-        description={`Are you sure you want to delete the "${statusToDelete?.status_name}" status? Leads with this status will need to be updated.`}
-      />
+
+      {/* Reassign deals before deleting or deactivating a stage */}
+      <AlertDialog open={!!reassignment} onOpenChange={(open) => !open && setReassignment(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reassign Deals</AlertDialogTitle>
+            <AlertDialogDescription>
+              {reassignment?.dealCount} deal(s) are in the "{reassignment?.stage.stage_name}" stage.
+              Choose a stage to move them to before it is {reassignment?.action === 'delete' ? 'deleted' : 'deactivated'}.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <Select value={reassignTarget} onValueChange={setReassignTarget}>
+            <SelectTrigger aria-label="Target stage">
+              <SelectValue placeholder="Select target stage..." />
+            </SelectTrigger>
+            <SelectContent>
+              {stages
+                .filter(s => s.id !== reassignment?.stage.id && s.is_active !== false)
+                .map(s => (
+                  <SelectItem key={s.id} value={s.stage_name}>
+                    {s.stage_name}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button onClick={confirmReassignment} disabled={!reassignTarget || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move Deals
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
 
       {/* Unsaved Changes Dialog */}
       <AlertDialog open={showUnsavedDialog} onOpenChange={setShowUnsavedDialog}>
@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useProducts, PRODUCTS_QUERY_KEY } from '@/hooks/useProducts';
+import { SUPPORTED_CURRENCIES } from '@/utils/currencyUtils';
+import { BillingType, BILLING_TYPE_LABELS, Product } from '@/types/product';
+import { Loader2, Plus, Trash2, Package, Star } from 'lucide-react';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+
+const emptyProduct = { sku: '', name: '', category: '', unit: 'each', billing_type: 'one_time' as BillingType };
+
+const ProductCatalogSettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { products, priceBooks, entries, defaultPriceBook, isLoading } = useProducts();
+  const [selectedBookId, setSelectedBookId] = useState<string>('');
+  const [newBookName, setNewBookName] = useState('');
+  const [newProduct, setNewProduct] = useState(emptyProduct);
+  const [saving, setSaving] = useState(false);
+  const [productToDelete, setProductToDelete] = useState<Product | null>(null);
+
+  useEffect(() => {
+    if (!selectedBookId && defaultPriceBook) setSelectedBookId(defaultPriceBook.id);
+  }, [defaultPriceBook, selectedBookId]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: PRODUCTS_QUERY_KEY });
+
+  const handleAddPriceBook = async () => {
+    const name = newBookName.trim();
+    if (!name) return;
+    try {
+      const { data, error } = await supabase
+        .from('price_books')
+        .insert({ name, is_default: priceBooks.length === 0 })
+        .select('id')
+        .single();
+      if (error) throw error;
+
+      toast.success(`Price book "${name}" created`);
+      setNewBookName('');
+      setSelectedBookId(data.id);
+      refresh();
+    } catch (error) {
+      console.error('Error creating price book:', error);
+      toast.error((error as { message?: string }).message || 'Failed to create price book');
+    }
+  };
+
+  const handleSetDefault = async (bookId: string) => {
+    try {
+      // Clear the old default first; only one book may be the default
+      if (defaultPriceBook) {
+        const { error } = await supabase.from('price_books').update({ is_default: false }).eq('id', defaultPriceBook.id);
+        if (error) throw error;
+      }
+      const { error } = await supabase.from('price_books').update({ is_default: true, is_active: true }).eq('id', bookId);
+      if (error) throw error;
+
+      toast.success('Default price book updated');
+      refresh();
+    } catch (error) {
+      console.error('Error setting default price book:', error);
+      toast.error('Failed to set default price book');
+    }
+  };
+
+  const handleAddProduct = async () => {
+    if (!newProduct.sku.trim() || !newProduct.name.trim()) {
+      toast.error('SKU and name are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('products').insert({
+        sku: newProduct.sku.trim(),
+        name: newProduct.name.trim(),
+        category: newProduct.category.trim() || null,
+        unit: newProduct.unit.trim() || 'each',
+        billing_type: newProduct.billing_type,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+
+      toast.success('Product added');
+      setNewProduct(emptyProduct);
+      refresh();
+    } catch (error) {
+      console.error('Error adding product:', error);
+      toast.error((error as { message?: string }).message || 'Failed to add product');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (product: Product) => {
+    try {
+      const { error } = await supabase.from('products').update({ is_active: !product.is_active }).eq('id', product.id);
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error updating product:', error);
+      toast.error('Failed to update product');
+    }
+  };
+
+  // Saves a list price on blur; clearing the field removes the price
+  const handlePriceChange = async (productId: string, currency: string, value: string) => {
+    const existing = entries.find(e => e.price_book_id === selectedBookId && e.product_id === productId && e.currency === currency);
+    const price = value === '' ? null : Number(value);
+    if (price !== null && (isNaN(price) || price < 0)) {
+      toast.error('Price must be zero or more');
+      return;
+    }
+    if (existing && price !== null && Number(existing.unit_price) === price) return;
+    if (!existing && price === null) return;
+
+    try {
+      const { error } = price === null
+        ? await supabase.from('price_book_entries').delete().eq('id', existing.id)
+        : await supabase
+            .from('price_book_entries')
+            .upsert(
+              { price_book_id: selectedBookId, product_id: productId, currency, unit_price: price },
+              { onConflict: 'price_book_id,product_id,currency' }
+            );
+      if (error) throw error;
+      refresh();
+    } catch (error) {
+      console.error('Error saving list price:', error);
+      toast.error('Failed to save list price');
+    }
+  };
+
+  const confirmDeleteProduct = async () => {
+    if (!productToDelete) return;
+    try {
+      const { error } = await supabase.from('products').delete().eq('id', productToDelete.id);
+      if (error) throw error;
+
+      toast.success('Product deleted');
+      refresh();
+    } catch (error) {
+      console.error('Error deleting product:', error);
+      toast.error('Failed to delete product');
+    } finally {
+      setProductToDelete(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const selectedBook = priceBooks.find(book => book.id === selectedBookId);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Price Books</CardTitle>
+          <CardDescription>
+            Line items take their list price from the deal's price book in the deal's currency. Deals without one use the default book.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>Price Book</Label>
+            <Select value={selectedBookId} onValueChange={setSelectedBookId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Select price book" />
+              </SelectTrigger>
+              <SelectContent>
+                {priceBooks.map(book => (
+                  <SelectItem key={book.id} value={book.id}>
+                    {book.name}{book.is_default ? ' (default)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selectedBook && !selectedBook.is_default && (
+            <Button variant="outline" onClick={() => handleSetDefault(selectedBook.id)}>
+              <Star className="h-4 w-4 mr-2" />
+              Make Default
+            </Button>
+          )}
+          <div className="space-y-1">
+            <Label>New Price Book</Label>
+            <Input
+              className="w-56"
+              placeholder="e.g. Partner Prices"
+              value={newBookName}
+              onChange={e => setNewBookName(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleAddPriceBook} disabled={!newBookName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Price Book
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Products</CardTitle>
+          <CardDescription>
+            Recurring products are priced per month and multiplied by the line's term. Inactive products stay on existing deals but can't be added to new lines.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div className="space-y-1">
+              <Label>SKU</Label>
+              <Input value={newProduct.sku} onChange={e => setNewProduct(prev => ({ ...prev, sku: e.target.value }))} />
+            </div>
+            <div className="space-y-1 md:col-span-2">
+              <Label>Name</Label>
+              <Input value={newProduct.name} onChange={e => setNewProduct(prev => ({ ...prev, name: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Input value={newProduct.category} onChange={e => setNewProduct(prev => ({ ...prev, category: e.target.value }))} />
+            </div>
+            <div className="space-y-1">
+              <Label>Billing</Label>
+              <Select
+                value={newProduct.billing_type}
+                onValueChange={value => setNewProduct(prev => ({ ...prev, billing_type: value as BillingType }))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BILLING_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleAddProduct} disabled={saving}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+              Add Product
+            </Button>
+          </div>
+
+          {products.length === 0 ? (
+            <div className="text-center text-muted-foreground py-8">
+              <Package className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No products yet. Add the first one above.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Billing</TableHead>
+                    {SUPPORTED_CURRENCIES.map(currency => (
+                      <TableHead key={currency} className="w-24">{currency}</TableHead>
+                    ))}
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {products.map(product => (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-mono text-xs">{product.sku}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{product.name}</div>
+                        {product.category && <div className="text-xs text-muted-foreground">{product.category}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{BILLING_TYPE_LABELS[product.billing_type]}</Badge>
+                      </TableCell>
+                      {SUPPORTED_CURRENCIES.map(currency => {
+                        const entry = entries.find(e => e.price_book_id === selectedBookId && e.product_id === product.id && e.currency === currency);
+                        return (
+                          <TableCell key={currency}>
+                            <Input
+                              key={`${selectedBookId}-${entry?.unit_price ?? ''}`}
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="h-8 w-24"
+                              defaultValue={entry ? Number(entry.unit_price) : ''}
+                              disabled={!selectedBookId}
+                              onBlur={e => handlePriceChange(product.id, currency, e.target.value)}
+                            />
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell>
+                        <Switch checked={product.is_active} onCheckedChange={() => handleToggleActive(product)} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => setProductToDelete(product)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <DeleteConfirmDialog
+        open={!!productToDelete}
+        onOpenChange={(open) => !open && setProductToDelete(null)}
+        onConfirm={confirmDeleteProduct}
+        title="Delete Product"
+        description={`Delete ${productToDelete?.name}? Existing deal lines keep their name and price but lose the link to the product. Deactivate it instead to keep the history.`}
+      />
+    </div>
+  );
+};
+
+export default ProductCatalogSettings;
@@ -0,0 +1,392 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Mail, Plus, SquareCheck, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SequenceFormData, SequenceWithSteps, useSequenceMutations } from "@/hooks/useEmailSequences";
+import { SequenceStepDraft, SequenceStopAction } from "@/types/sequence";
+import { TaskPriority } from "@/types/task";
+
+interface SequenceEditorModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sequence: SequenceWithSteps | null;
+  templates: { id: string; name: string }[];
+}
+
+const timezones = [
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Europe/London', label: 'GMT (Greenwich Mean Time)' },
+  { value: 'Europe/Paris', label: 'CET (Central European Time)' },
+  { value: 'Asia/Dubai', label: 'GST (Gulf Standard Time)' },
+  { value: 'Asia/Kolkata', label: 'IST (India Standard Time)' },
+  { value: 'Asia/Singapore', label: 'SGT (Singapore Time)' },
+  { value: 'Asia/Tokyo', label: 'JST (Japan Standard Time)' },
+  { value: 'Australia/Sydney', label: 'AEST (Australian Eastern Time)' },
+  { value: 'America/New_York', label: 'EST (Eastern Standard Time)' },
+  { value: 'America/Chicago', label: 'CST (Central Standard Time)' },
+  { value: 'America/Los_Angeles', label: 'PST (Pacific Standard Time)' },
+];
+
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+const HOURS = Array.from({ length: 25 }, (_, hour) => hour);
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+const emptySequence = (): SequenceFormData => ({
+  name: "",
+  description: "",
+  is_active: true,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  business_hours_start: 9,
+  business_hours_end: 17,
+  business_days: [1, 2, 3, 4, 5],
+  reply_action: 'stop',
+  meeting_action: 'pause',
+});
+
+const newStep = (previous?: SequenceStepDraft): SequenceStepDraft => ({
+  step_type: 'email',
+  day_offset: previous ? previous.day_offset + 2 : 0,
+  template_id: null,
+  task_title: null,
+  task_description: null,
+  task_priority: 'medium',
+});
+
+// Returns the first problem that would stop the sequence from running as laid out
+const validateSteps = (steps: SequenceStepDraft[]) => {
+  if (steps.length === 0) return "Add at least one step";
+  for (const [index, step] of steps.entries()) {
+    if (step.step_type === 'email' && !step.template_id) return `Step ${index + 1} needs an email template`;
+    if (step.step_type === 'task' && !step.task_title?.trim()) return `Step ${index + 1} needs a task title`;
+    if (index > 0 && step.day_offset < steps[index - 1].day_offset) {
+      return `Step ${index + 1} is scheduled before the step above it`;
+    }
+  }
+  return null;
+};
+
+export const SequenceEditorModal = ({ open, onOpenChange, sequence, templates }: SequenceEditorModalProps) => {
+  const { toast } = useToast();
+  const { saveSequence } = useSequenceMutations();
+  const [formData, setFormData] = useState<SequenceFormData>(emptySequence);
+  const [steps, setSteps] = useState<SequenceStepDraft[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (sequence) {
+      const { id: _id, steps: sequenceSteps, created_by: _createdBy, created_at: _createdAt, updated_at: _updatedAt, ...fields } = sequence;
+      setFormData(fields);
+      setSteps(sequenceSteps.map(({ sequence_id: _sequenceId, position: _position, ...step }) => step));
+    } else {
+      setFormData(emptySequence());
+      setSteps([newStep()]);
+    }
+  }, [open, sequence]);
+
+  const updateStep = (index: number, changes: Partial<SequenceStepDraft>) => {
+    setSteps(prev => prev.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setSteps(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      business_days: checked
+        ? [...prev.business_days, day].sort((a, b) => a - b)
+        : prev.business_days.filter(d => d !== day),
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const problem = !formData.name.trim()
+      ? "Please enter a sequence name"
+      : formData.business_days.length === 0
+        ? "Choose at least one business day"
+        : formData.business_hours_start >= formData.business_hours_end
+          ? "Business hours must end after they start"
+          : validateSteps(steps);
+    if (problem) {
+      toast({ title: "Cannot save sequence", description: problem, variant: "destructive" });
+      return;
+    }
+
+    try {
+      await saveSequence.mutateAsync({
+        id: sequence?.id,
+        sequence: { ...formData, name: formData.name.trim(), description: formData.description?.trim() || null },
+        steps,
+      });
+      toast({ title: "Success", description: sequence ? "Sequence updated successfully" : "Sequence created successfully" });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save sequence",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{sequence ? "Edit Sequence" : "New Sequence"}</DialogTitle>
+          <DialogDescription>
+            Steps run in order, each on its day after enrollment, and only inside the business hours below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Name *</Label>
+              <Input
+                id="sequence-name"
+                value={formData.name}
+                onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Inbound lead follow-up"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sequence-timezone">Timezone</Label>
+              <Select value={formData.timezone} onValueChange={(value) => setFormData(prev => ({ ...prev, timezone: value }))}>
+                <SelectTrigger id="sequence-timezone">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!timezones.some(tz => tz.value === formData.timezone) && (
+                    <SelectItem value={formData.timezone}>{formData.timezone}</SelectItem>
+                  )}
+                  {timezones.map(tz => (
+                    <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sequence-description">Description</Label>
+            <Textarea
+              id="sequence-description"
+              value={formData.description || ""}
+              onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Business hours</Label>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={String(formData.business_hours_start)}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, business_hours_start: Number(value) }))}
+                >
+                  <SelectTrigger aria-label="Start hour"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {HOURS.slice(0, 24).map(hour => (
+                      <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm text-muted-foreground">to</span>
+                <Select
+                  value={String(formData.business_hours_end)}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, business_hours_end: Number(value) }))}
+                >
+                  <SelectTrigger aria-label="End hour"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {HOURS.slice(1).map(hour => (
+                      <SelectItem key={hour} value={String(hour)}>{formatHour(hour)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Business days</Label>
+              <div className="flex flex-wrap gap-3 pt-2">
+                {WEEKDAYS.map(day => (
+                  <label key={day.value} className="flex items-center gap-1.5 text-sm">
+                    <Checkbox
+                      checked={formData.business_days.includes(day.value)}
+                      onCheckedChange={(checked) => toggleDay(day.value, checked === true)}
+                    />
+                    {day.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>When they reply</Label>
+              <Select
+                value={formData.reply_action}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, reply_action: value as SequenceStopAction }))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stop">Stop the sequence</SelectItem>
+                  <SelectItem value="pause">Pause the sequence</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>When a meeting is booked</Label>
+              <Select
+                value={formData.meeting_action}
+                onValueChange={(value) => setFormData(prev => ({ ...prev, meeting_action: value as SequenceStopAction }))}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="stop">Stop the sequence</SelectItem>
+                  <SelectItem value="pause">Pause the sequence</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2 pt-7">
+              <Switch
+                id="sequence-active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="sequence-active">Active</Label>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-3">Unsubscribes and bounces always stop the sequence.</p>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Steps</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="gap-2"
+                onClick={() => setSteps(prev => [...prev, newStep(prev[prev.length - 1])])}
+              >
+                <Plus className="h-4 w-4" />
+                Add Step
+              </Button>
+            </div>
+
+            {steps.map((step, index) => (
+              <div key={step.id || `new-${index}`} className="rounded-lg border p-3 space-y-3">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium w-14 shrink-0">Step {index + 1}</span>
+                  <Select
+                    value={step.step_type}
+                    onValueChange={(value) => updateStep(index, { step_type: value as SequenceStepDraft['step_type'] })}
+                  >
+                    <SelectTrigger className="w-[130px]" aria-label={`Step ${index + 1} type`}><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="email"><span className="flex items-center gap-2"><Mail className="h-3.5 w-3.5" />Email</span></SelectItem>
+                      <SelectItem value="task"><span className="flex items-center gap-2"><SquareCheck className="h-3.5 w-3.5" />Task</span></SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm text-muted-foreground">on day</span>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="w-20"
+                    aria-label={`Step ${index + 1} day`}
+                    value={step.day_offset}
+                    onChange={(e) => updateStep(index, { day_offset: Math.max(0, parseInt(e.target.value) || 0) })}
+                  />
+                  <div className="ml-auto flex items-center">
+                    <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStep(index, -1)} aria-label="Move step up">
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" disabled={index === steps.length - 1} onClick={() => moveStep(index, 1)} aria-label="Move step down">
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" onClick={() => setSteps(prev => prev.filter((_, i) => i !== index))} aria-label="Remove step">
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+
+                {step.step_type === 'email' ? (
+                  <Select value={step.template_id || ""} onValueChange={(value) => updateStep(index, { template_id: value })}>
+                    <SelectTrigger aria-label={`Step ${index + 1} template`}>
+                      <SelectValue placeholder={templates.length ? "Choose an email template" : "Create an email template first"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {templates.map(template => (
+                        <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="grid gap-2 md:grid-cols-[1fr_140px]">
+                    <Input
+                      value={step.task_title || ""}
+                      onChange={(e) => updateStep(index, { task_title: e.target.value })}
+                      placeholder="e.g., Call {{first_name}} about the proposal"
+                      aria-label={`Step ${index + 1} task title`}
+                    />
+                    <Select value={step.task_priority} onValueChange={(value) => updateStep(index, { task_priority: value as TaskPriority })}>
+                      <SelectTrigger aria-label={`Step ${index + 1} priority`}><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="high">High</SelectItem>
+                        <SelectItem value="medium">Medium</SelectItem>
+                        <SelectItem value="low">Low</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Textarea
+                      className="md:col-span-2"
+                      value={step.task_description || ""}
+                      onChange={(e) => updateStep(index, { task_description: e.target.value })}
+                      placeholder="Notes for whoever picks up the task"
+                      rows={2}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveSequence.isPending}>
+              {saveSequence.isPending ? "Saving..." : sequence ? "Update" : "Create"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,133 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowDown, ArrowUp, X } from 'lucide-react';
+import { getDealFieldLabel } from '@/components/deal-form/fieldLabels';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { DEAL_FORM_FIELDS, LINE_ITEMS_FORM_FIELD } from '@/types/deal';
+import { customFieldKey, getCustomFieldName } from '@/utils/customFieldUtils';
+
+interface StageFormFieldsEditorProps {
+  formFields: string[];
+  requiredFields: string[];
+  onChange: (formFields: string[], requiredFields: string[]) => void;
+}
+
+// Picks the fields a stage's form shows and which of them gate entry into the stage
+export const StageFormFieldsEditor = ({ formFields, requiredFields, onChange }: StageFormFieldsEditorProps) => {
+  const { allFields: customFields } = useCustomFields('deal');
+
+  // Required fields can come from an earlier stage's form, so they are listed even when not shown here
+  const rows = [...formFields, ...requiredFields.filter(field => !formFields.includes(field))];
+  const options = [...DEAL_FORM_FIELDS, ...customFields.map(field => customFieldKey(field.field_name))]
+    .filter(field => !rows.includes(field));
+
+  const label = (field: string) => getDealFieldLabel(field, customFields);
+
+  const addField = (field: string) => onChange([...formFields, field], requiredFields);
+
+  const removeField = (field: string) =>
+    onChange(formFields.filter(f => f !== field), requiredFields.filter(f => f !== field));
+
+  const toggleRequired = (field: string, required: boolean) =>
+    onChange(formFields, required ? [...requiredFields, field] : requiredFields.filter(f => f !== field));
+
+  const moveField = (field: string, offset: number) => {
+    const index = formFields.indexOf(field);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= formFields.length) return;
+    const reordered = [...formFields];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered, requiredFields);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Form Fields</Label>
+      <p className="text-xs text-muted-foreground">
+        Shown on this stage's section of the deal form. Required fields must be filled in before a deal can enter the stage.
+      </p>
+      <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+        {rows.map(field => {
+          const onForm = formFields.includes(field);
+          const formIndex = formFields.indexOf(field);
+          return (
+            <div key={field} className="flex items-center justify-between gap-2 px-3 py-2">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="text-sm truncate">{label(field)}</span>
+                {getCustomFieldName(field) && <Badge variant="outline">Custom</Badge>}
+                {!onForm && <Badge variant="secondary">Not on form</Badge>}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {field !== LINE_ITEMS_FORM_FIELD && (
+                  <div className="flex items-center gap-2 mr-2">
+                    <Label htmlFor={`stage-required-${field}`} className="text-xs text-muted-foreground">
+                      Required
+                    </Label>
+                    <Switch
+                      id={`stage-required-${field}`}
+                      checked={requiredFields.includes(field)}
+                      onCheckedChange={checked => toggleRequired(field, checked)}
+                    />
+                  </div>
+                )}
+                {onForm && (
+                  <>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={formIndex === 0}
+                      onClick={() => moveField(field, -1)}
+                      aria-label={`Move ${label(field)} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      disabled={formIndex === formFields.length - 1}
+                      onClick={() => moveField(field, 1)}
+                      aria-label={`Move ${label(field)} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeField(field)}
+                  aria-label={`Remove ${label(field)}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+        {rows.length === 0 && (
+          <p className="px-3 py-4 text-sm text-muted-foreground text-center">No fields on this stage</p>
+        )}
+      </div>
+      {options.length > 0 && (
+        <Select value="" onValueChange={addField}>
+          <SelectTrigger aria-label="Add field">
+            <SelectValue placeholder="Add field..." />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(field => (
+              <SelectItem key={field} value={field}>
+                {label(field)}{getCustomFieldName(field) ? ' (custom)' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { TemplateRecordType, useTemplateContext, useTemplateRecordSearch } from "@/hooks/useTemplateContext";
+import { findEmptyVariables, renderTemplate, validateTemplate } from "@/utils/emailTemplateEngine";
+import { TemplateIssuesWarning } from "@/components/shared/TemplateIssuesWarning";
+
+interface TemplatePreviewPanelProps {
+  subject: string;
+  body: string;
+}
+
+// Renders the template being edited against a real lead, contact or account
+export const TemplatePreviewPanel = ({ subject, body }: TemplatePreviewPanelProps) => {
+  const { user } = useAuth();
+  const [recordType, setRecordType] = useState<TemplateRecordType>("contact");
+  const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [recordId, setRecordId] = useState<string>("");
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data: records = [], isFetching: searching } = useTemplateRecordSearch(recordType, debouncedSearchTerm);
+  const { data: context, isLoading: contextLoading } = useTemplateContext(
+    recordId ? { type: recordType, id: recordId } : null,
+    user?.id
+  );
+
+  // Pick the first match so there is always something to look at
+  useEffect(() => {
+    if (records.length > 0 && !records.some(record => record.id === recordId)) {
+      setRecordId(records[0].id);
+    }
+  }, [records, recordId]);
+
+  const validation = useMemo(() => validateTemplate(subject, body), [subject, body]);
+  const emptyVariables = useMemo(() => (context ? findEmptyVariables(context, subject, body) : []), [context, subject, body]);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-[120px_1fr] gap-2">
+        <Select
+          value={recordType}
+          onValueChange={(value) => {
+            setRecordType(value as TemplateRecordType);
+            setRecordId("");
+          }}
+        >
+          <SelectTrigger aria-label="Record type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="contact">Contact</SelectItem>
+            <SelectItem value="lead">Lead</SelectItem>
+            <SelectItem value="account">Account</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder={`Search ${recordType}s by name...`}
+        />
+      </div>
+
+      <Select value={recordId} onValueChange={setRecordId} disabled={records.length === 0}>
+        <SelectTrigger aria-label="Preview record">
+          <SelectValue placeholder={searching ? "Searching..." : `No ${recordType}s found`} />
+        </SelectTrigger>
+        <SelectContent>
+          {records.map(record => (
+            <SelectItem key={record.id} value={record.id}>
+              {record.name}{record.email ? ` (${record.email})` : ""}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="space-y-2">
+        <Label>Preview</Label>
+        {contextLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground py-6 justify-center">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading record...
+          </div>
+        ) : context ? (
+          <div className="rounded-lg border p-3 space-y-2 min-h-[160px]">
+            <p className="text-sm font-medium">{renderTemplate(subject, context, { escape: false }) || "(no subject)"}</p>
+            <p className="text-sm whitespace-pre-wrap text-muted-foreground">{renderTemplate(body, context, { escape: false })}</p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-6 text-center">Choose a record to preview this template</p>
+        )}
+      </div>
+
+      <TemplateIssuesWarning validation={validation} emptyVariables={emptyVariables} />
+    </div>
+  );
+};
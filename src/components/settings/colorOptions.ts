@@ -0,0 +1,13 @@
+// Palette offered for pipeline stages and picklist values
+export const colorOptions = [
+  { hex: '#3b82f6', name: 'Blue' },
+  { hex: '#6b7280', name: 'Gray' },
+  { hex: '#8b5cf6', name: 'Purple' },
+  { hex: '#f59e0b', name: 'Amber' },
+  { hex: '#10b981', name: 'Emerald' },
+  { hex: '#22c55e', name: 'Green' },
+  { hex: '#ef4444', name: 'Red' },
+  { hex: '#94a3b8', name: 'Slate' },
+  { hex: '#ec4899', name: 'Pink' },
+  { hex: '#14b8a6', name: 'Teal' }
+];
@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,7 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Search, Filter, Plus, X, HelpCircle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { getCustomFieldName, getCustomFieldValue } from "@/utils/customFieldUtils";
 
 export interface SearchCondition {
   id: string;
@@ -26,6 +27,8 @@ interface AdvancedSearchBarProps {
   placeholder?: string;
   simpleSearch?: string;
   onSimpleSearchChange?: (value: string) => void;
+  // The applied groups, when the page keeps them; clearing them there resets the conditions here
+  activeGroups?: SearchGroup[];
 }
 
 const OPERATORS = [
@@ -44,6 +47,7 @@ export const AdvancedSearchBar = ({
   placeholder = "Search...",
   simpleSearch = "",
   onSimpleSearchChange,
+  activeGroups,
 }: AdvancedSearchBarProps) => {
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
   const [groups, setGroups] = useState<SearchGroup[]>([
@@ -54,6 +58,12 @@ export const AdvancedSearchBar = ({
     },
   ]);
 
+  useEffect(() => {
+    if (activeGroups && activeGroups.length === 0) {
+      setGroups([{ id: crypto.randomUUID(), logic: 'AND', conditions: [] }]);
+    }
+  }, [activeGroups]);
+
   const addCondition = (groupId: string) => {
     setGroups(prev => prev.map(group => {
       if (group.id === groupId) {
@@ -158,12 +168,13 @@ export const AdvancedSearchBar = ({
           onChange={(e) => onSimpleSearchChange?.(e.target.value)}
           placeholder={placeholder}
           className="pl-9 pr-4"
+          inputSize="control"
         />
       </div>
       
       <Popover open={isAdvancedOpen} onOpenChange={setIsAdvancedOpen}>
         <PopoverTrigger asChild>
-          <Button variant="outline" size="sm" className="gap-2">
+          <Button variant="outline" size="sm" className="gap-2 h-9">
             <Filter className="h-4 w-4" />
             Advanced
             {hasActiveFilters && (
@@ -358,19 +369,30 @@ export function applyAdvancedSearch<T extends Record<string, any>>(
   return filtered;
 }
 
+// Custom fields are addressed as `custom_fields.<name>`; checkboxes compare as yes/no
+function getFieldValue(item: Record<string, unknown>, field: string) {
+  const customFieldName = getCustomFieldName(field);
+  const value = customFieldName ? getCustomFieldValue(item, customFieldName) : item[field];
+  return typeof value === 'boolean' ? (value ? 'yes' : 'no') : value;
+}
+
 function matchCondition<T extends Record<string, any>>(
   item: T,
   condition: SearchCondition
 ): boolean {
-  const value = item[condition.field];
-  const valueStr = value ? String(value).toLowerCase() : '';
+  const value = getFieldValue(item, condition.field);
+  const valueStr = value ? (Array.isArray(value) ? value.join(', ') : String(value)).toLowerCase() : '';
   const searchValue = condition.value.toLowerCase();
+  // A multi-select value equals the search when any of its options does
+  const isEqual = Array.isArray(value)
+    ? value.some(option => String(option).toLowerCase() === searchValue)
+    : valueStr === searchValue;
 
   switch (condition.operator) {
     case 'equals':
-      return valueStr === searchValue;
+      return isEqual;
     case 'notEquals':
-      return valueStr !== searchValue;
+      return !isEqual;
     case 'contains':
       return valueStr.includes(searchValue);
     case 'startsWith':
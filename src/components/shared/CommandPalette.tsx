@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent } from '@/components/ui/dialog';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from '@/components/ui/command';
+import { Badge } from '@/components/ui/badge';
+import { allMenuItems } from '@/components/menuItems';
+import { useGlobalSearch, MIN_SEARCH_LENGTH } from '@/hooks/useGlobalSearch';
+import { SEARCH_RECORD_TYPES, SEARCH_TYPE_LABELS, SearchRecordType, SearchResult } from '@/types/search';
+import { cn } from '@/lib/utils';
+import { SearchSnippet } from './SearchSnippet';
+import { matchSettingsPages, searchTypeConfig } from './searchConfig';
+
+// Cmd/Ctrl + K from anywhere: jump to a page or search every module
+export function CommandPalette() {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<SearchRecordType[]>([]);
+  const navigate = useNavigate();
+  const { results, isSearching, error } = useGlobalSearch(open ? query : '', typeFilter);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (error) console.error('Search error:', error);
+  }, [error]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setQuery('');
+      setTypeFilter([]);
+    }
+  };
+
+  const go = (route: string) => {
+    handleOpenChange(false);
+    navigate(route);
+  };
+
+  const term = query.trim().toLowerCase();
+
+  // Pages and settings match by title; they are hidden while records are filtered by type
+  const pages = useMemo(() => {
+    if (typeFilter.length) return [];
+    const modules = allMenuItems
+      .filter(item => !term || item.title.toLowerCase().includes(term))
+      .map(item => ({ id: item.url, title: item.title, subtitle: null as string | null, route: item.url, icon: item.icon }));
+    const settings = matchSettingsPages(term).map(s => ({ ...s, icon: searchTypeConfig.setting.icon }));
+    return [...modules, ...settings];
+  }, [term, typeFilter]);
+
+  // Groups in the order of their best-ranked record
+  const groupedResults = useMemo(() => results.reduce((acc, result) => {
+    if (!acc[result.type]) acc[result.type] = [];
+    acc[result.type].push(result);
+    return acc;
+  }, {} as Record<string, SearchResult[]>), [results]);
+
+  const toggleType = (type: SearchRecordType) => {
+    setTypeFilter(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-xl">
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput
+            placeholder="Search records or jump to a page..."
+            value={query}
+            onValueChange={setQuery}
+          />
+          <div className="flex flex-wrap items-center gap-1 px-3 py-2 border-b">
+            {SEARCH_RECORD_TYPES.map(type => (
+              <Badge
+                key={type}
+                variant={typeFilter.includes(type) ? 'default' : 'outline'}
+                className="cursor-pointer text-[10px] px-1.5 py-0"
+                onClick={() => toggleType(type)}
+              >
+                {SEARCH_TYPE_LABELS[type]}
+              </Badge>
+            ))}
+            {isSearching && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground ml-auto" />}
+          </div>
+          <CommandList className="max-h-[420px]">
+            <CommandEmpty>
+              {term.length < MIN_SEARCH_LENGTH ? `Type at least ${MIN_SEARCH_LENGTH} characters to search records` : 'No results found.'}
+            </CommandEmpty>
+
+            {Object.entries(groupedResults).map(([type, items]) => {
+              const config = searchTypeConfig[type as SearchRecordType];
+              const Icon = config.icon;
+              return (
+                <CommandGroup key={type} heading={SEARCH_TYPE_LABELS[type as SearchRecordType]}>
+                  {items.map(result => (
+                    <CommandItem
+                      key={`${type}-${result.id}`}
+                      value={`${type}-${result.id}`}
+                      onSelect={() => go(result.route)}
+                      className="items-start gap-3"
+                    >
+                      <Icon className={cn("h-4 w-4 flex-shrink-0 mt-0.5", config.color)} />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{result.title}</p>
+                        {result.subtitle && (
+                          <p className="text-xs text-muted-foreground truncate">{result.subtitle}</p>
+                        )}
+                        <SearchSnippet snippet={result.snippet} className="mt-0.5" />
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+
+            {pages.length > 0 && (
+              <CommandGroup heading="Go to">
+                {pages.map(page => (
+                  <CommandItem
+                    key={`page-${page.id}`}
+                    value={`page-${page.id}`}
+                    onSelect={() => go(page.route)}
+                    className="gap-3"
+                  >
+                    <page.icon className="h-4 w-4 text-muted-foreground" />
+                    <span className="flex-1 truncate">{page.title}</span>
+                    {page.subtitle && <CommandShortcut className="tracking-normal">{page.subtitle}</CommandShortcut>}
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { X } from "lucide-react";
+import { CustomField, CustomFieldValue, CustomFieldValues } from "@/types/customField";
+
+const NO_VALUE = '__none__';
+
+interface CustomFieldsSectionProps {
+  fields: CustomField[];
+  values: CustomFieldValues;
+  errors?: Record<string, string>;
+  onChange: (values: CustomFieldValues) => void;
+  className?: string;
+}
+
+interface CustomFieldInputProps {
+  id: string;
+  field: CustomField;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue) => void;
+}
+
+// Input for one custom field, picked by its type
+export const CustomFieldInput = ({ id, field, value, onChange }: CustomFieldInputProps) => {
+  switch (field.field_type) {
+    case 'number':
+      return (
+        <Input
+          id={id}
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))}
+        />
+      );
+    case 'date':
+      return (
+        <Input
+          id={id}
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value || null)}
+        />
+      );
+    case 'boolean':
+      return (
+        <div className="flex items-center h-10">
+          <Checkbox
+            id={id}
+            checked={value === true}
+            onCheckedChange={checked => onChange(checked === true)}
+          />
+        </div>
+      );
+    case 'select':
+      return (
+        <Select
+          value={typeof value === 'string' && value ? value : NO_VALUE}
+          onValueChange={selected => onChange(selected === NO_VALUE ? null : selected)}
+        >
+          <SelectTrigger id={id}>
+            <SelectValue placeholder={`Select ${field.field_label.toLowerCase()}`} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_VALUE}>None</SelectItem>
+            {(field.field_options || []).map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'multiselect': {
+      const selected = Array.isArray(value) ? value : [];
+      const toggle = (option: string) =>
+        onChange(selected.includes(option) ? selected.filter(item => item !== option) : [...selected, option]);
+      return (
+        <div id={id} className="flex flex-wrap gap-2 rounded-md border p-2 min-h-10">
+          {(field.field_options || []).map(option => (
+            <Badge
+              key={option}
+              variant={selected.includes(option) ? "default" : "outline"}
+              className="cursor-pointer hover:opacity-80 transition-opacity"
+              onClick={() => toggle(option)}
+            >
+              {option}
+              {selected.includes(option) && <X className="w-3 h-3 ml-1" />}
+            </Badge>
+          ))}
+        </div>
+      );
+    }
+    default:
+      return (
+        <Input
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value)}
+        />
+      );
+  }
+};
+
+// Admin-defined fields of a record; values are kept outside the form schema and checked with validateCustomFieldValues
+export const CustomFieldsSection = ({ fields, values, errors = {}, onChange, className }: CustomFieldsSectionProps) => {
+  if (fields.length === 0) return null;
+
+  const setValue = (fieldName: string, value: CustomFieldValue) => onChange({ ...values, [fieldName]: value });
+
+  return (
+    <div className={cn("grid grid-cols-1 md:grid-cols-2 gap-4", className)}>
+      {fields.map(field => (
+        <div key={field.id} className={cn("space-y-2", field.field_type === 'multiselect' && "md:col-span-2")}>
+          <Label htmlFor={`custom-field-${field.field_name}`} className={cn(errors[field.field_name] && "text-destructive")}>
+            {field.field_label}{field.is_required ? ' *' : ''}
+          </Label>
+          <CustomFieldInput
+            id={`custom-field-${field.field_name}`}
+            field={field}
+            value={values[field.field_name]}
+            onChange={value => setValue(field.field_name, value)}
+          />
+          {errors[field.field_name] && (
+            <p className="text-sm font-medium text-destructive">{errors[field.field_name]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
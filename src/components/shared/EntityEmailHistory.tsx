@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import {
@@ -11,7 +12,11 @@ import {
   MousePointer,
   Clock,
   ExternalLink,
+  Reply,
+  MailX,
 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import {
   Dialog,
   DialogContent,
@@ -43,6 +48,38 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
   const [emails, setEmails] = useState<EmailHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedEmail, setSelectedEmail] = useState<EmailHistoryItem | null>(null);
+  const [loggingEvent, setLoggingEvent] = useState(false);
+  const { user } = useAuth();
+
+  // Replies and bounces arrive outside the CRM, so they are logged by hand
+  const logEmailEvent = async (email: EmailHistoryItem, eventType: 'reply' | 'bounce') => {
+    setLoggingEvent(true);
+    try {
+      const { error } = await supabase.from('email_events').insert({
+        email_history_id: email.id,
+        event_type: eventType,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+
+      const status = eventType === 'reply' ? 'replied' : 'bounced';
+      setEmails(prev => prev.map(e => e.id === email.id ? { ...e, status } : e));
+      setSelectedEmail({ ...email, status });
+      toast({
+        title: eventType === 'reply' ? 'Reply logged' : 'Bounce logged',
+        description: `The email is now marked as ${status}`,
+      });
+    } catch (error) {
+      console.error('Error logging email event:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to update the email',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoggingEvent(false);
+    }
+  };
 
   useEffect(() => {
     const fetchEmails = async () => {
@@ -83,6 +120,7 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
       case 'sent': return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'opened': return 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200';
       case 'clicked': return 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200';
+      case 'replied': return 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200';
       case 'bounced': return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default: return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     }
@@ -212,6 +250,19 @@ export const EntityEmailHistory = ({ entityType, entityId }: EntityEmailHistoryP
                 </Card>
               </div>
 
+              {!['replied', 'bounced'].includes(selectedEmail.status) && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={loggingEvent} onClick={() => logEmailEvent(selectedEmail, 'reply')}>
+                    <Reply className="h-4 w-4 mr-1" />
+                    Mark as Replied
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={loggingEvent} onClick={() => logEmailEvent(selectedEmail, 'bounce')}>
+                    <MailX className="h-4 w-4 mr-1" />
+                    Mark as Bounced
+                  </Button>
+                </div>
+              )}
+
               {selectedEmail.body && (
                 <div>
                   <p className="text-sm font-medium text-muted-foreground mb-2">Email Body</p>
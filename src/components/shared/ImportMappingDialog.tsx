@@ -0,0 +1,626 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, ArrowRight, Download, Loader2, Save, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CSVParser } from "@/utils/csvParser";
+import { downloadCSV } from "@/utils/csvUtils";
+import { XlsxWorkbook, isXlsxFile } from "@/utils/xlsxWorkbook";
+import {
+  ImportEntity,
+  ImportField,
+  ImportFieldRule,
+  ImportMapping,
+  ImportUpsertSettings,
+  IMPORT_CUSTOM_FIELD_ENTITIES,
+  IMPORT_ENTITY_LABELS,
+  getImportFields,
+  getImportMatchKey,
+  getImportMatchKeys,
+  getMissingRequiredFields,
+  previewImportValue,
+  suggestImportMapping,
+} from "@/hooks/import-export/importMapping";
+import {
+  DryRunResult,
+  DryRunRow,
+  ImportRowValidator,
+  buildAcceptedRowsFile,
+  buildRejectedRowsCSV,
+  hasErrors,
+  runImportDryRun,
+} from "@/hooks/import-export/importDryRun";
+import { fetchImportCustomFields } from "@/hooks/import-export/customFieldImport";
+import { useImportMappingProfiles, ImportMappingProfile } from "@/hooks/useImportMappingProfiles";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { usePicklistValues } from "@/hooks/usePicklists";
+import { CustomField } from "@/types/customField";
+import { ImportReviewStep } from "@/components/shared/ImportReviewStep";
+
+// Enough of the file for headers and sample values without reading all of it
+const PREVIEW_BYTES = 256 * 1024;
+const SAMPLE_ROWS = 5;
+const IGNORE = '__ignore__';
+const NO_PROFILE = '__none__';
+const CREATE_MODE = '__create__';
+
+// The chosen sheet becomes a CSV file so preview, dry run and import all read it like any other upload
+const sheetToCSVFile = async (workbook: XlsxWorkbook, sheetName: string, fileName: string) => {
+  const rows = await workbook.readSheet(sheetName);
+  const csv = rows.map(row => row.map(value => CSVParser.escapeCSVField(value)).join(',')).join('\n');
+  return new File([csv], `${fileName.replace(/\.[^.]+$/, '')} - ${sheetName}.csv`, { type: 'text/csv' });
+};
+
+// Columns the profile doesn't know fall back to the suggestion
+const mappingFromProfile = (entity: ImportEntity, headers: string[], profile: ImportMappingProfile, customFields: CustomField[]) => {
+  const suggested = suggestImportMapping(entity, headers, customFields);
+  return Object.fromEntries(
+    headers.map(header => [header, header in profile.fieldMappings ? profile.fieldMappings[header] : suggested[header]])
+  );
+};
+
+interface ImportMappingDialogProps {
+  file: File | null;
+  entity: ImportEntity;
+  onCancel: () => void;
+  // After a review the file holds only the accepted rows, already mapped; mapping then only carries upsert settings
+  onConfirm: (file: File, mapping?: ImportMapping) => void;
+}
+
+export const ImportMappingDialog = ({ file, entity, onCancel, onConfirm }: ImportMappingDialogProps) => {
+  const { toast } = useToast();
+  const { allFields: customFields } = useCustomFields(IMPORT_CUSTOM_FIELD_ENTITIES[entity]);
+  const { data: picklistValues } = usePicklistValues();
+  const fields = useMemo(() => getImportFields(entity, customFields, picklistValues), [entity, customFields, picklistValues]);
+  const fieldsByName = useMemo(
+    () => Object.fromEntries(fields.map(field => [field.name, field])) as Record<string, ImportField>,
+    [fields]
+  );
+  const { profiles, isLoading: profilesLoading, saveProfile, deleteProfile, markProfileUsed } = useImportMappingProfiles(entity);
+
+  const [workbook, setWorkbook] = useState<XlsxWorkbook | null>(null);
+  const [sheetName, setSheetName] = useState('');
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [sampleRows, setSampleRows] = useState<string[][]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [fieldMappings, setFieldMappings] = useState<Record<string, string | null>>({});
+  const [defaultValues, setDefaultValues] = useState<Record<string, string>>({});
+  const [upsertSettings, setUpsertSettings] = useState<ImportUpsertSettings | null>(null);
+  const [profileId, setProfileId] = useState<string | null>(null);
+  const [profileName, setProfileName] = useState('');
+  const [userNames, setUserNames] = useState<Set<string> | undefined>();
+  const [step, setStep] = useState<'map' | 'review'>('map');
+  const [checkProgress, setCheckProgress] = useState<{ done: number; total: number } | null>(null);
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const validateRow = useRef<ImportRowValidator | null>(null);
+  const profileChecked = useRef(false);
+
+  useEffect(() => {
+    setWorkbook(null);
+    setSheetName('');
+    setSourceFile(null);
+    if (!file) return;
+    if (!isXlsxFile(file)) {
+      setSourceFile(file);
+      return;
+    }
+
+    let cancelled = false;
+    setParsing(true);
+    XlsxWorkbook.open(file)
+      .then(opened => {
+        if (cancelled) return;
+        if (opened.sheetNames.length === 0) throw new Error('Workbook has no sheets');
+        setWorkbook(opened);
+        setSheetName(opened.sheetNames[0]);
+      })
+      .catch(error => {
+        console.error('Error opening workbook:', error);
+        toast({ title: "Error", description: "Could not read the Excel file", variant: "destructive" });
+        if (!cancelled) setParsing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file, toast]);
+
+  useEffect(() => {
+    if (!workbook || !sheetName) return;
+    let cancelled = false;
+    setParsing(true);
+    sheetToCSVFile(workbook, sheetName, file.name)
+      .then(csvFile => {
+        if (!cancelled) setSourceFile(csvFile);
+      })
+      .catch(error => {
+        console.error('Error reading sheet:', error);
+        toast({ title: "Error", description: `Could not read sheet "${sheetName}"`, variant: "destructive" });
+        if (!cancelled) setParsing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [workbook, sheetName, file, toast]);
+
+  useEffect(() => {
+    if (!sourceFile) return;
+    let cancelled = false;
+    profileChecked.current = false;
+    setParsing(true);
+    setHeaders([]);
+    setSampleRows([]);
+    setDefaultValues({});
+    setUpsertSettings(null);
+    setProfileId(null);
+    setProfileName('');
+    setStep('map');
+    setDryRun(null);
+
+    // Suggestions need the custom fields too; without them only the standard fields are suggested
+    const customFieldsRequest = fetchImportCustomFields(entity).catch(error => {
+      console.error('Error loading custom fields for import:', error);
+      return [] as CustomField[];
+    });
+
+    Promise.all([CSVParser.parse(sourceFile.slice(0, PREVIEW_BYTES)), customFieldsRequest])
+      .then(([{ headers: fileHeaders, rows }, entityCustomFields]) => {
+        if (cancelled) return;
+        // The last row of a partial read may be cut off
+        const completeRows = sourceFile.size > PREVIEW_BYTES ? rows.slice(0, -1) : rows;
+        setHeaders(fileHeaders);
+        setSampleRows(completeRows.slice(0, SAMPLE_ROWS));
+        setFieldMappings(suggestImportMapping(entity, fileHeaders, entityCustomFields));
+      })
+      .catch(error => {
+        console.error('Error reading import file:', error);
+        toast({ title: "Error", description: "Could not read the file", variant: "destructive" });
+      })
+      .finally(() => {
+        if (!cancelled) setParsing(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceFile, entity, toast]);
+
+  // Owner columns hold display names; flag the ones that won't resolve to a user
+  useEffect(() => {
+    if (!file || userNames) return;
+    supabase
+      .from('profiles')
+      .select('full_name')
+      .then(({ data }) => {
+        setUserNames(new Set((data || []).map(profile => profile.full_name?.toLowerCase()).filter(Boolean)));
+      });
+  }, [file, userNames]);
+
+  const applyProfile = (profile: ImportMappingProfile) => {
+    setFieldMappings(mappingFromProfile(entity, headers, profile, customFields));
+    setDefaultValues(profile.defaultValues);
+    setUpsertSettings(profile.upsert || null);
+    setProfileId(profile.id);
+    setProfileName(profile.name);
+  };
+
+  // A saved profile that knows every column of this file is applied straight away
+  useEffect(() => {
+    if (profileChecked.current || parsing || profilesLoading || headers.length === 0) return;
+    profileChecked.current = true;
+    const match = profiles.find(profile => headers.every(header => header in profile.fieldMappings));
+    if (!match) return;
+    setFieldMappings(mappingFromProfile(entity, headers, match, customFields));
+    setDefaultValues(match.defaultValues);
+    setUpsertSettings(match.upsert || null);
+    setProfileId(match.id);
+    setProfileName(match.name);
+  }, [entity, parsing, profilesLoading, headers, profiles, customFields]);
+
+  const mapping: ImportMapping = {
+    fieldMappings,
+    defaultValues: Object.fromEntries(Object.entries(defaultValues).filter(([, value]) => value.trim() !== '')),
+    upsert: upsertSettings || undefined,
+  };
+  const matchKeys = getImportMatchKeys(entity);
+  const matchKey = upsertSettings && getImportMatchKey(entity, upsertSettings.matchKey);
+  const missingRequired = getMissingRequiredFields(entity, mapping);
+  const mappedCount = Object.values(fieldMappings).filter(Boolean).length;
+
+  // Each field takes one column; choosing it again moves it
+  const handleTargetChange = (header: string, value: string) => {
+    const target = value === IGNORE ? null : value;
+    setFieldMappings(prev => {
+      const next = { ...prev, [header]: target };
+      if (target) {
+        Object.keys(next).forEach(other => {
+          if (other !== header && next[other] === target) next[other] = null;
+        });
+      }
+      return next;
+    });
+  };
+
+  const handleModeChange = (value: string) => {
+    setUpsertSettings(prev => (value === CREATE_MODE ? null : { matchKey: value, fieldRules: prev?.fieldRules || {} }));
+  };
+
+  const handleFieldRuleChange = (field: string, rule: ImportFieldRule) => {
+    setUpsertSettings(prev => ({ ...prev, fieldRules: { ...prev.fieldRules, [field]: rule } }));
+  };
+
+  const handleProfileChange = (value: string) => {
+    if (value === NO_PROFILE) {
+      setProfileId(null);
+      setProfileName('');
+      return;
+    }
+    const profile = profiles.find(p => p.id === value);
+    if (profile) applyProfile(profile);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+    try {
+      const id = await saveProfile.mutateAsync({ name: profileName, mapping });
+      setProfileId(id);
+      toast({ title: "Mapping profile saved", description: profileName.trim() });
+    } catch (error) {
+      console.error('Error saving mapping profile:', error);
+      toast({ title: "Error", description: "Failed to save mapping profile", variant: "destructive" });
+    }
+  };
+
+  const handleDeleteProfile = async () => {
+    if (!profileId) return;
+    try {
+      await deleteProfile.mutateAsync(profileId);
+      setProfileId(null);
+      setProfileName('');
+    } catch (error) {
+      console.error('Error deleting mapping profile:', error);
+      toast({ title: "Error", description: "Failed to delete mapping profile", variant: "destructive" });
+    }
+  };
+
+  const handleConfirm = () => {
+    if (profileId) markProfileUsed(profileId);
+    if (step === 'review' && dryRun) {
+      const upsertMapping = mapping.upsert && {
+        fieldMappings: Object.fromEntries(dryRun.headers.map(header => [header, header])),
+        defaultValues: {},
+        upsert: mapping.upsert,
+      };
+      onConfirm(buildAcceptedRowsFile(dryRun, sourceFile.name), upsertMapping || undefined);
+    } else {
+      onConfirm(sourceFile, mapping);
+    }
+  };
+
+  // Runs every row through the importer's checks without writing anything
+  const handleCheckRows = async () => {
+    setCheckProgress({ done: 0, total: 0 });
+    try {
+      const { result, validateRow: validator } = await runImportDryRun(entity, sourceFile, mapping, (done, total) =>
+        setCheckProgress({ done, total })
+      );
+      validateRow.current = validator;
+      setDryRun(result);
+      setStep('review');
+    } catch (error) {
+      console.error('Error checking import rows:', error);
+      toast({ title: "Error", description: "Failed to check the file", variant: "destructive" });
+    } finally {
+      setCheckProgress(null);
+    }
+  };
+
+  const handleValueChange = (row: DryRunRow, field: string, value: string) => {
+    const column = dryRun.headers.indexOf(field);
+    setDryRun(prev => ({
+      ...prev,
+      rows: prev.rows.map(r =>
+        r.rowNumber === row.rowNumber ? { ...r, values: r.values.map((v, i) => (i === column ? value : v)) } : r
+      ),
+    }));
+  };
+
+  const handleRevalidate = async (row: DryRunRow) => {
+    if (!validateRow.current) return;
+    const issues = await validateRow.current(row.values);
+    setDryRun(prev => ({
+      ...prev,
+      rows: prev.rows.map(r => (r.rowNumber === row.rowNumber ? { ...r, issues } : r)),
+    }));
+  };
+
+  const handleDownloadRejected = () => {
+    const baseName = sourceFile.name.replace(/\.[^.]+$/, '');
+    downloadCSV(buildRejectedRowsCSV(dryRun), `${baseName}-rejected.csv`);
+  };
+
+  const acceptedCount = dryRun ? dryRun.rows.filter(row => !hasErrors(row)).length : 0;
+  const rejectedCount = dryRun ? dryRun.rows.length - acceptedCount : 0;
+
+  const renderPreview = (header: string, index: number) => {
+    const field = fieldsByName[fieldMappings[header] || ''];
+    const samples = sampleRows.map(row => row[index] || '').filter(value => value.trim() !== '');
+    if (!field) return <span className="text-muted-foreground">-</span>;
+    if (samples.length === 0) {
+      return defaultValues[field.name]
+        ? <span className="text-muted-foreground">Default: {defaultValues[field.name]}</span>
+        : <span className="text-muted-foreground">Empty in sample</span>;
+    }
+
+    const previews = samples.map(value => previewImportValue(field, value, userNames));
+    const invalid = previews.find(preview => !preview.valid);
+    return (
+      <div className="space-y-1">
+        <div className="truncate max-w-[180px]" title={previews[0].value}>{previews[0].value || '-'}</div>
+        {invalid && (
+          <Badge variant="destructive" className="font-normal" title={invalid.value}>
+            {invalid.note}
+          </Badge>
+        )}
+      </div>
+    );
+  };
+
+  const renderDefaultInput = (field: ImportField) => {
+    const value = defaultValues[field.name] || '';
+    const setValue = (next: string) => setDefaultValues(prev => ({ ...prev, [field.name]: next }));
+    if ((field.type === 'enum' || field.customField?.field_type === 'select') && field.options) {
+      return (
+        <Select value={value} onValueChange={setValue}>
+          <SelectTrigger className="h-8"><SelectValue placeholder="Select value" /></SelectTrigger>
+          <SelectContent>
+            {field.options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return <Input className="h-8" value={value} onChange={e => setValue(e.target.value)} />;
+  };
+
+  // Key fields identify the record and the CRM ID is never written, so neither gets a rule
+  const renderFieldRule = (header: string) => {
+    const field = fieldMappings[header];
+    if (!field || field === 'id' || matchKey.fields.includes(field)) return null;
+    return (
+      <Select
+        value={upsertSettings.fieldRules[field] || 'overwrite'}
+        onValueChange={value => handleFieldRuleChange(field, value as ImportFieldRule)}
+      >
+        <SelectTrigger className="w-40 h-8"><SelectValue /></SelectTrigger>
+        <SelectContent>
+          <SelectItem value="overwrite">Overwrite</SelectItem>
+          <SelectItem value="fill_blanks">Fill blanks only</SelectItem>
+        </SelectContent>
+      </Select>
+    );
+  };
+
+  const availableDefaultFields = fields.filter(field => !(field.name in defaultValues) && field.type !== 'json');
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{step === 'map' ? 'Map Columns' : 'Review Rows'}</DialogTitle>
+          <DialogDescription>
+            {step === 'map'
+              ? `${IMPORT_ENTITY_LABELS[entity]} import from ${file?.name}. Choose the field each column fills; ignored columns are not imported.`
+              : 'Nothing has been imported yet. Fix values inline or download the rejected rows to correct and upload again.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'review' && dryRun ? (
+          <ImportReviewStep
+            result={dryRun}
+            fieldsByName={fieldsByName}
+            onValueChange={handleValueChange}
+            onRevalidate={handleRevalidate}
+          />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-2">
+              {workbook && (
+                <div className="space-y-1">
+                  <Label>Sheet</Label>
+                  <Select value={sheetName} onValueChange={setSheetName} disabled={parsing}>
+                    <SelectTrigger className="w-48"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {workbook.sheetNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label>Mapping profile</Label>
+                <Select value={profileId || NO_PROFILE} onValueChange={handleProfileChange}>
+                  <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROFILE}>No profile</SelectItem>
+                    {profiles.map(profile => <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="mapping-profile-name">Save as</Label>
+                <Input
+                  id="mapping-profile-name"
+                  className="w-56"
+                  placeholder="e.g. Weekly distributor file"
+                  value={profileName}
+                  onChange={e => setProfileName(e.target.value)}
+                />
+              </div>
+              <Button type="button" variant="outline" onClick={handleSaveProfile} disabled={!profileName.trim() || saveProfile.isPending}>
+                {saveProfile.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save Profile
+              </Button>
+              {profileId && (
+                <Button type="button" variant="ghost" onClick={handleDeleteProfile} disabled={deleteProfile.isPending}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+            </div>
+
+            {matchKeys.length > 0 && (
+              <div className="space-y-1">
+                <Label>Import mode</Label>
+                <Select value={upsertSettings?.matchKey || CREATE_MODE} onValueChange={handleModeChange}>
+                  <SelectTrigger className="w-72"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={CREATE_MODE}>Default matching</SelectItem>
+                    {matchKeys.map(key => <SelectItem key={key.value} value={key.value}>Update records matched on {key.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                {matchKey && (
+                  <p className="text-xs text-muted-foreground">
+                    Rows matching an existing record on {matchKey.label} update only the fields they fill in; other rows are
+                    created as new records.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {parsing ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample values</TableHead>
+                    <TableHead className="w-8" />
+                    <TableHead>Field</TableHead>
+                    <TableHead>Imported as</TableHead>
+                    {matchKey && <TableHead>Existing values</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {headers.map((header, index) => (
+                    <TableRow key={`${header}-${index}`}>
+                      <TableCell className="font-medium">{header || <span className="text-muted-foreground">(blank)</span>}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {sampleRows
+                          .map(row => row[index] || '')
+                          .filter(value => value.trim() !== '')
+                          .slice(0, 3)
+                          .map((value, i) => <div key={i} className="truncate max-w-[200px]" title={value}>{value}</div>)}
+                      </TableCell>
+                      <TableCell><ArrowRight className="h-4 w-4 text-muted-foreground" /></TableCell>
+                      <TableCell>
+                        <Select value={fieldMappings[header] || IGNORE} onValueChange={value => handleTargetChange(header, value)}>
+                          <SelectTrigger className="w-52 h-8"><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={IGNORE}>Ignore column</SelectItem>
+                            {fields.map(field => (
+                              <SelectItem key={field.name} value={field.name}>
+                                {field.label}{field.required ? ' *' : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm">{renderPreview(header, index)}</TableCell>
+                      {matchKey && <TableCell>{renderFieldRule(header)}</TableCell>}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Default values</Label>
+                <Select value="" onValueChange={field => setDefaultValues(prev => ({ ...prev, [field]: '' }))}>
+                  <SelectTrigger className="w-52 h-8"><SelectValue placeholder="Add default for..." /></SelectTrigger>
+                  <SelectContent>
+                    {availableDefaultFields.map(field => <SelectItem key={field.name} value={field.name}>{field.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs text-muted-foreground">Used when the mapped cell is empty or the field has no column.</p>
+              {Object.keys(defaultValues).map(name => fieldsByName[name] && (
+                <div key={name} className="flex items-center gap-2">
+                  <span className="w-48 text-sm">{fieldsByName[name].label}</span>
+                  <div className="w-64">{renderDefaultInput(fieldsByName[name])}</div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDefaultValues(prev => {
+                      const next = { ...prev };
+                      delete next[name];
+                      return next;
+                    })}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {missingRequired.length > 0 && !parsing && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                {matchKey ? 'Map a column for the match key:' : 'Map a column or set a default for:'} {missingRequired.map(name => fieldsByName[name]?.label || name).join(', ')}
+              </div>
+            )}
+          </>
+        )}
+
+        {step === 'review' ? (
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setStep('map')}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+            {rejectedCount > 0 && (
+              <Button type="button" variant="outline" onClick={handleDownloadRejected}>
+                <Download className="h-4 w-4 mr-2" />
+                Download {rejectedCount} Rejected
+              </Button>
+            )}
+            <Button type="button" onClick={handleConfirm} disabled={acceptedCount === 0}>
+              Import {acceptedCount} {acceptedCount === 1 ? 'Row' : 'Rows'}
+            </Button>
+          </DialogFooter>
+        ) : (
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>Cancel</Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleConfirm}
+              disabled={parsing || !sourceFile || !!checkProgress || missingRequired.length > 0 || mappedCount === 0}
+            >
+              Import Without Checking
+            </Button>
+            <Button
+              type="button"
+              onClick={handleCheckRows}
+              disabled={parsing || !sourceFile || !!checkProgress || missingRequired.length > 0 || mappedCount === 0}
+            >
+              {checkProgress && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {checkProgress?.total ? `Checked ${checkProgress.done} of ${checkProgress.total}` : 'Check Rows'}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TablePagination } from "@/components/shared/TablePagination";
+import { ImportField } from "@/hooks/import-export/importMapping";
+import { DryRunResult, DryRunRow, hasErrors } from "@/hooks/import-export/importDryRun";
+
+const PAGE_SIZE = 50;
+
+interface ImportReviewStepProps {
+  result: DryRunResult;
+  fieldsByName: Record<string, ImportField>;
+  onValueChange: (row: DryRunRow, field: string, value: string) => void;
+  onRevalidate: (row: DryRunRow) => void;
+}
+
+export const ImportReviewStep = ({ result, fieldsByName, onValueChange, onRevalidate }: ImportReviewStepProps) => {
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [page, setPage] = useState(1);
+
+  const errorCount = result.rows.filter(hasErrors).length;
+  const warningCount = result.rows.filter(row => !hasErrors(row) && row.issues.length > 0).length;
+  const listed = result.rows.filter(row => (errorsOnly ? hasErrors(row) : row.issues.length > 0));
+  const totalPages = Math.max(1, Math.ceil(listed.length / PAGE_SIZE));
+  const currentPage = Math.min(page, totalPages);
+  const pageRows = listed.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  // Fields named by an issue get an input so the value can be fixed in place
+  const renderIssue = (row: DryRunRow, issueIndex: number) => {
+    const issue = row.issues[issueIndex];
+    const column = issue.field ? result.headers.indexOf(issue.field) : -1;
+    const canEdit = column !== -1 && fieldsByName[issue.field]?.type !== 'json';
+
+    return (
+      <div key={issueIndex} className="flex flex-wrap items-center gap-2 py-0.5">
+        <Badge variant={issue.level === 'error' ? 'destructive' : 'secondary'} className="font-normal">
+          {issue.level === 'error' ? 'Error' : 'Warning'}
+        </Badge>
+        <span className="text-sm">{issue.message}</span>
+        {canEdit && (
+          <Input
+            className="h-7 w-48"
+            placeholder={fieldsByName[issue.field]?.label || issue.field}
+            value={row.values[column] ?? ''}
+            onChange={e => onValueChange(row, issue.field, e.target.value)}
+            onBlur={() => onRevalidate(row)}
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <Badge variant="outline">{result.rows.length} rows</Badge>
+        <Badge variant="outline">{result.rows.length - errorCount} will import</Badge>
+        {warningCount > 0 && <Badge variant="secondary">{warningCount} with warnings</Badge>}
+        {errorCount > 0 && <Badge variant="destructive">{errorCount} rejected</Badge>}
+        <div className="ml-auto flex items-center gap-2">
+          <Switch id="import-errors-only" checked={errorsOnly} onCheckedChange={checked => { setErrorsOnly(checked); setPage(1); }} />
+          <Label htmlFor="import-errors-only">Errors only</Label>
+        </div>
+      </div>
+
+      {listed.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-6 text-center">
+          {errorsOnly ? 'No rows will be rejected.' : 'Every row passed validation.'}
+        </p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Row</TableHead>
+                <TableHead>Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map(row => (
+                <TableRow key={row.rowNumber}>
+                  <TableCell className="align-top font-medium">{row.rowNumber}</TableCell>
+                  <TableCell>{row.issues.map((_, index) => renderIssue(row, index))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {totalPages > 1 && (
+            <TablePagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              itemsPerPage={PAGE_SIZE}
+              totalItems={listed.length}
+              onPageChange={setPage}
+              entityName="rows"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import { AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface MissingRateNoticeProps {
+  count: number;
+  noun?: string;
+  className?: string;
+}
+
+// Amounts without a known exchange rate are left out of totals, so say how many
+export const MissingRateNotice = ({ count, noun = "deal", className }: MissingRateNoticeProps) => {
+  if (count === 0) return null;
+  return (
+    <p className={cn("flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400", className)}>
+      <AlertTriangle className="h-3 w-3 shrink-0" />
+      Missing rate: {count} {noun}{count === 1 ? "" : "s"} left out of the totals
+    </p>
+  );
+};
+
+// Stands in for a single amount that can't be converted
+export const MissingRateValue = ({ className }: { className?: string }) => (
+  <span className={cn("text-xs text-amber-600 dark:text-amber-400", className)} title="No exchange rate recorded for this currency">
+    Missing rate
+  </span>
+);
@@ -0,0 +1,26 @@
+import { cn } from "@/lib/utils";
+import { splitSnippet } from "@/utils/searchUtils";
+
+interface SearchSnippetProps {
+  snippet: string | null;
+  className?: string;
+}
+
+// Renders a search_crm() snippet with its matched words highlighted
+export const SearchSnippet = ({ snippet, className }: SearchSnippetProps) => {
+  if (!snippet) return null;
+
+  return (
+    <p className={cn("text-xs text-muted-foreground line-clamp-2", className)}>
+      {splitSnippet(snippet).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 text-foreground px-0.5 rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+};
@@ -0,0 +1,44 @@
+import { Button } from "@/components/ui/button";
+
+interface SelectAllMatchingBannerProps {
+  selectedCount: number;
+  pageCount: number;
+  totalCount: number;
+  allMatchingSelected: boolean;
+  itemType: string;
+  onSelectAllMatching: () => void;
+  onClearSelection: () => void;
+}
+
+// Offered once the whole page is selected, so bulk actions can reach every record the filters match
+export const SelectAllMatchingBanner = ({
+  selectedCount,
+  pageCount,
+  totalCount,
+  allMatchingSelected,
+  itemType,
+  onSelectAllMatching,
+  onClearSelection,
+}: SelectAllMatchingBannerProps) => {
+  if (!allMatchingSelected && (pageCount === 0 || selectedCount < pageCount || totalCount <= pageCount)) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-2 rounded-md border bg-muted/50 px-3 py-2 text-sm">
+      {allMatchingSelected ? (
+        <>
+          <span>All {totalCount.toLocaleString()} {itemType} matching the current filters are selected.</span>
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onClearSelection}>
+            Clear selection
+          </Button>
+        </>
+      ) : (
+        <>
+          <span>All {selectedCount} {itemType} on this page are selected.</span>
+          <Button variant="link" size="sm" className="h-auto p-0" onClick={onSelectAllMatching}>
+            Select all {totalCount.toLocaleString()} matching {itemType}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { TemplateValidation } from "@/utils/emailTemplateEngine";
+
+interface TemplateIssuesWarningProps {
+  validation: TemplateValidation;
+  // Known merge fields that come out blank for the previewed recipient
+  emptyVariables?: string[];
+  className?: string;
+}
+
+export const TemplateIssuesWarning = ({ validation, emptyVariables = [], className }: TemplateIssuesWarningProps) => {
+  const { errors, unknownVariables } = validation;
+  if (errors.length === 0 && unknownVariables.length === 0 && emptyVariables.length === 0) return null;
+
+  const blocking = errors.length > 0 || unknownVariables.length > 0;
+
+  return (
+    <Alert variant={blocking ? "destructive" : "default"} className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription>
+        <ul className="text-sm space-y-1">
+          {errors.map(error => (
+            <li key={error}>{error}</li>
+          ))}
+          {unknownVariables.length > 0 && (
+            <li>
+              Unknown variable{unknownVariables.length > 1 ? "s" : ""}:{" "}
+              <span className="font-mono">{unknownVariables.map(v => `{{${v}}}`).join(", ")}</span>
+              {" "}will be left blank.
+            </li>
+          )}
+          {emptyVariables.length > 0 && (
+            <li className={blocking ? undefined : "text-muted-foreground"}>
+              No value for <span className="font-mono">{emptyVariables.map(v => `{{${v}}}`).join(", ")}</span>
+              {" "}on this record; add a {'| default: "..."'} fallback.
+            </li>
+          )}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
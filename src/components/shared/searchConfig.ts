@@ -0,0 +1,41 @@
+import { Briefcase, Building2, Calendar, CheckSquare, LucideIcon, Mail, Settings, User, Users } from 'lucide-react';
+import { SearchRecordType } from '@/types/search';
+
+export const searchTypeConfig: Record<SearchRecordType | 'setting', { icon: LucideIcon; label: string; color: string }> = {
+  lead: { icon: User, label: 'Lead', color: 'text-blue-500' },
+  contact: { icon: Users, label: 'Contact', color: 'text-green-500' },
+  deal: { icon: Briefcase, label: 'Deal', color: 'text-purple-500' },
+  meeting: { icon: Calendar, label: 'Meeting', color: 'text-orange-500' },
+  task: { icon: CheckSquare, label: 'Task', color: 'text-yellow-500' },
+  account: { icon: Building2, label: 'Account', color: 'text-cyan-500' },
+  email: { icon: Mail, label: 'Email', color: 'text-rose-500' },
+  setting: { icon: Settings, label: 'Setting', color: 'text-gray-500' },
+};
+
+export const settingsPages = [
+  { id: 'profile', title: 'Profile Settings', subtitle: 'Manage your profile', route: '/settings?tab=account' },
+  { id: 'notifications', title: 'Notification Settings', subtitle: 'Configure notifications', route: '/settings?tab=account' },
+  { id: 'display', title: 'Display Settings', subtitle: 'Theme and appearance', route: '/settings?tab=account' },
+  { id: 'pipeline', title: 'Pipeline Settings', subtitle: 'Manage deal stages', route: '/settings?tab=admin&section=pipeline' },
+  { id: 'custom-fields', title: 'Custom Fields', subtitle: 'Add fields to records', route: '/settings?tab=admin&section=custom-fields' },
+  { id: 'picklists', title: 'Picklists', subtitle: 'Manage dropdown values', route: '/settings?tab=admin&section=picklists' },
+  { id: 'users', title: 'User Management', subtitle: 'Manage team members', route: '/settings?tab=admin&section=users' },
+  { id: 'branding', title: 'Branding Settings', subtitle: 'Customize appearance', route: '/settings?tab=admin&section=branding' },
+  { id: 'email-templates', title: 'Email Templates', subtitle: 'Manage email templates', route: '/settings?tab=email&section=templates' },
+  { id: 'integrations', title: 'Integrations', subtitle: 'Connect external services', route: '/settings?tab=admin&section=integrations' },
+  { id: 'page-access', title: 'Page Access Control', subtitle: 'Configure role-based access', route: '/settings?tab=admin&section=page-access' },
+  { id: 'backup', title: 'Data Backup & Restore', subtitle: 'Export data and manage backups', route: '/settings?tab=admin&section=backup' },
+  { id: 'audit-logs', title: 'Audit Logs', subtitle: 'View system activity', route: '/settings?tab=admin&section=audit-logs' },
+  { id: 'system-status', title: 'System Status', subtitle: 'Monitor system health', route: '/settings?tab=admin&section=system-status' },
+  { id: 'announcements', title: 'Announcement Management', subtitle: 'Create announcements', route: '/settings?tab=admin&section=announcements' },
+  { id: 'email-history', title: 'Email History', subtitle: 'View sent emails', route: '/settings?tab=email&section=history' },
+  { id: 'email-analytics', title: 'Email Analytics', subtitle: 'Email engagement stats', route: '/settings?tab=email&section=analytics' },
+];
+
+export const matchSettingsPages = (query: string) => {
+  const term = query.trim().toLowerCase();
+  if (!term) return [];
+  return settingsPages.filter(
+    s => s.title.toLowerCase().includes(term) || s.subtitle.toLowerCase().includes(term)
+  );
+};
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
@@ -12,6 +13,8 @@ import {
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { customFieldKey } from '@/utils/customFieldUtils';
 import { toast } from '@/hooks/use-toast';
 import { GripVertical } from 'lucide-react';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
@@ -53,8 +56,23 @@ interface ColumnPreference {
 
 export const TaskColumnCustomizer = ({ open, onOpenChange, onColumnsChange }: TaskColumnCustomizerProps) => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { fields: customFields } = useCustomFields('task');
   const [selectedColumns, setSelectedColumns] = useState<string[]>(defaultColumns);
   const [columnOrder, setColumnOrder] = useState<string[]>(availableColumns.map(c => c.key));
+
+  const columns = useMemo<ColumnConfig[]>(
+    () => [...availableColumns, ...customFields.map(field => ({ key: customFieldKey(field.field_name), label: field.field_label }))],
+    [customFields]
+  );
+  // Custom fields added after the order was saved go to the end; deleted ones drop out
+  const orderedColumns = useMemo(
+    () => [
+      ...columnOrder.filter(key => columns.some(c => c.key === key)),
+      ...columns.map(c => c.key).filter(key => !columnOrder.includes(key)),
+    ],
+    [columnOrder, columns]
+  );
   const [loading, setLoading] = useState(false);
 
   useEffect(() => {
@@ -95,7 +113,7 @@ export const TaskColumnCustomizer = ({ open, onOpenChange, onColumnsChange }: Ta
     try {
       const columnConfig: ColumnPreference = {
         visible_columns: selectedColumns,
-        column_order: columnOrder,
+        column_order: orderedColumns,
       };
 
       // Check if record exists
@@ -123,6 +141,7 @@ export const TaskColumnCustomizer = ({ open, onOpenChange, onColumnsChange }: Ta
         if (error) throw error;
       }
 
+      queryClient.invalidateQueries({ queryKey: ['column-preferences', 'tasks'] });
       toast({ title: 'Success', description: 'Column preferences saved' });
       onColumnsChange?.(selectedColumns);
       onOpenChange(false);
@@ -135,7 +154,7 @@ export const TaskColumnCustomizer = ({ open, onOpenChange, onColumnsChange }: Ta
   };
 
   const handleColumnToggle = (columnKey: string) => {
-    const column = availableColumns.find(c => c.key === columnKey);
+    const column = columns.find(c => c.key === columnKey);
     if (column?.required) return;
 
     setSelectedColumns(prev => 
@@ -148,7 +167,7 @@ export const TaskColumnCustomizer = ({ open, onOpenChange, onColumnsChange }: Ta
   const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
-    const items = Array.from(columnOrder);
+    const items = Array.from(orderedColumns);
     const [reorderedItem] = items.splice(result.source.index, 1);
     items.splice(result.destination.index, 0, reorderedItem);
 
@@ -176,8 +195,8 @@ export const TaskColumnCustomizer = ({ open, onOpenChange, onColumnsChange }: Ta
                   {...provided.droppableProps}
                   className="space-y-2"
                 >
-                  {columnOrder.map((columnKey, index) => {
-                    const column = availableColumns.find(c => c.key === columnKey);
+                  {orderedColumns.map((columnKey, index) => {
+                    const column = columns.find(c => c.key === columnKey);
                     if (!column) return null;
 
                     return (
@@ -5,7 +5,6 @@ import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { Input } from '@/components/ui/input';
 import {
   Table,
   TableBody,
@@ -24,7 +23,6 @@ import {
 import {
   Edit,
   Trash2,
-  Search,
   User,
   Building2,
   Briefcase,
@@ -43,6 +41,12 @@ import { TaskDetailModal } from './TaskDetailModal';
 import { RowActionsDropdown } from '@/components/RowActionsDropdown';
 import { HighlightedText } from '@/components/shared/HighlightedText';
 import { ClearFiltersButton } from '@/components/shared/ClearFiltersButton';
+import { AdvancedSearchBar, SearchGroup, applyAdvancedSearch } from '@/components/shared/AdvancedSearchBar';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { customFieldKey, formatCustomFieldValue, getCustomFieldValue, toCustomFieldSearchFields } from '@/utils/customFieldUtils';
 
 interface TaskListViewProps {
   tasks: Task[];
@@ -56,6 +60,15 @@ interface TaskListViewProps {
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+// Fields offered in the advanced search, ahead of the custom ones
+const TASK_SEARCH_FIELDS = [
+  { value: 'title', label: 'Task Title' },
+  { value: 'description', label: 'Description' },
+  { value: 'status', label: 'Status' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'module_type', label: 'Module' },
+];
+
 const priorityColors = {
   high: 'bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-300 border-rose-200 dark:border-rose-800',
   medium: 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800',
@@ -87,6 +100,7 @@ export const TaskListView = ({
   initialOwnerFilter = 'all',
 }: TaskListViewProps) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
   const [statusFilter, setStatusFilter] = useState<string>(initialStatusFilter);
   const [priorityFilter, setPriorityFilter] = useState<string>('all');
   const [assignedToFilter, setAssignedToFilter] = useState<string>(initialOwnerFilter);
@@ -111,8 +125,29 @@ export const TaskListView = ({
   const allUserIds = [...new Set([...assignedToIds, ...createdByIds])];
   const { displayNames } = useUserDisplayNames(allUserIds);
 
+  const { user } = useAuth();
+  const { fields: customFields } = useCustomFields('task');
+  const advancedSearchFields = useMemo(() => [...TASK_SEARCH_FIELDS, ...toCustomFieldSearchFields(customFields)], [customFields]);
+
+  // Custom field columns stay hidden until switched on in the column customizer
+  const { data: visibleColumnKeys = [] } = useQuery({
+    queryKey: ['column-preferences', 'tasks', user?.id],
+    queryFn: async () => {
+      const { data } = await supabase
+        .from('table_column_preferences')
+        .select('column_config')
+        .eq('user_id', user!.id)
+        .eq('module_name', 'tasks')
+        .maybeSingle();
+      const config = data?.column_config as unknown as { visible_columns?: string[] } | null;
+      return config?.visible_columns || [];
+    },
+    enabled: !!user?.id,
+  });
+  const customColumns = customFields.filter(field => visibleColumnKeys.includes(customFieldKey(field.field_name)));
+
   const filteredTasks = useMemo(() => {
-    return tasks.filter(task => {
+    return applyAdvancedSearch(tasks, searchGroups).filter(task => {
       const matchesSearch = task.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
         task.description?.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesStatus = statusFilter === 'all' || task.status === statusFilter;
@@ -120,12 +155,12 @@ export const TaskListView = ({
       const matchesAssignedTo = assignedToFilter === 'all' || task.assigned_to === assignedToFilter;
       return matchesSearch && matchesStatus && matchesPriority && matchesAssignedTo;
     });
-  }, [tasks, searchTerm, statusFilter, priorityFilter, assignedToFilter]);
+  }, [tasks, searchTerm, searchGroups, statusFilter, priorityFilter, assignedToFilter]);
 
   // Reset to first page when filters change
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, statusFilter, priorityFilter, assignedToFilter]);
+  }, [searchTerm, searchGroups, statusFilter, priorityFilter, assignedToFilter]);
 
   // Pagination
   const totalPages = Math.ceil(filteredTasks.length / itemsPerPage);
@@ -133,10 +168,11 @@ export const TaskListView = ({
   const paginatedTasks = filteredTasks.slice(startIndex, startIndex + itemsPerPage);
 
   // Check if any filters are active
-  const hasActiveFilters = searchTerm !== '' || statusFilter !== 'all' || priorityFilter !== 'all' || assignedToFilter !== 'all';
+  const hasActiveFilters = searchTerm !== '' || searchGroups.length > 0 || statusFilter !== 'all' || priorityFilter !== 'all' || assignedToFilter !== 'all';
 
   const clearAllFilters = () => {
     setSearchTerm('');
+    setSearchGroups([]);
     setStatusFilter('all');
     setPriorityFilter('all');
     setAssignedToFilter('all');
@@ -206,13 +242,14 @@ export const TaskListView = ({
       {/* Filters */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground pointer-events-none" />
-            <Input
+          <div className="w-80">
+            <AdvancedSearchBar
+              fields={advancedSearchFields}
+              onSearch={setSearchGroups}
+              activeGroups={searchGroups}
               placeholder="Search tasks..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-9"
+              simpleSearch={searchTerm}
+              onSimpleSearchChange={setSearchTerm}
             />
           </div>
           
@@ -286,13 +323,16 @@ export const TaskListView = ({
                 <TableHead className="font-bold text-foreground px-4 py-3">Assigned To</TableHead>
                 <TableHead className="font-bold text-foreground px-4 py-3">Linked To</TableHead>
                 <TableHead className="font-bold text-foreground px-4 py-3">Task Owner</TableHead>
+                {customColumns.map(field => (
+                  <TableHead key={field.id} className="font-bold text-foreground px-4 py-3 whitespace-nowrap">{field.field_label}</TableHead>
+                ))}
                 <TableHead className="w-32 text-center font-bold text-foreground px-4 py-3">Actions</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {paginatedTasks.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={9} className="text-center py-12">
+                  <TableCell colSpan={9 + customColumns.length} className="text-center py-12">
                     <div className="flex flex-col items-center gap-3">
                       <ListTodo className="w-10 h-10 text-muted-foreground/50" />
                       <div>
@@ -389,6 +429,13 @@ export const TaskListView = ({
                           <span className="text-muted-foreground">-</span>
                         )}
                       </TableCell>
+                      {customColumns.map(field => (
+                        <TableCell key={field.id} className="px-4 py-3 text-sm">
+                          <span className="truncate block max-w-[160px]">
+                            {formatCustomFieldValue(field, getCustomFieldValue(task, field.field_name)) || '-'}
+                          </span>
+                        </TableCell>
+                      ))}
                       <TableCell className="w-20 px-4 py-3">
                         <div className="flex items-center justify-center">
                           <RowActionsDropdown
@@ -33,6 +33,10 @@ import {
 import { Loader2 } from 'lucide-react';
 import { SubtasksSection, SubtaskItem } from './SubtasksSection';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CustomFieldsSection } from '@/components/shared/CustomFieldsSection';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { CustomFieldValues } from '@/types/customField';
+import { getCustomFieldValues, validateCustomFieldValues } from '@/utils/customFieldUtils';
 
 const taskSchema = z.object({
   title: z.string().min(1, 'Title is required'),
@@ -80,6 +84,9 @@ export const TaskModal = ({
   const [deals, setDeals] = useState<{ id: string; deal_name: string; stage: string }[]>([]);
   const [subtasks, setSubtasks] = useState<SubtaskItem[]>([]);
   const [activeTab, setActiveTab] = useState('details');
+  const { fields: customFields } = useCustomFields('task');
+  const [customValues, setCustomValues] = useState<CustomFieldValues>({});
+  const [customErrors, setCustomErrors] = useState<Record<string, string>>({});
   
   const [selectedContact, setSelectedContact] = useState<typeof contacts[0] | null>(null);
   const [selectedLead, setSelectedLead] = useState<typeof leads[0] | null>(null);
@@ -129,6 +136,8 @@ export const TaskModal = ({
     if (open) {
       fetchDropdownData();
       setActiveTab('details');
+      setCustomValues(getCustomFieldValues(task));
+      setCustomErrors({});
       if (task) {
         form.reset({
           title: task.title,
@@ -285,6 +294,13 @@ export const TaskModal = ({
   };
 
   const handleSubmit = async (data: TaskFormData) => {
+    const errors = validateCustomFieldValues(customFields, customValues);
+    setCustomErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setActiveTab('details');
+      return;
+    }
+
     setLoading(true);
     try {
       const taskData: CreateTaskData & { due_time?: string } = {
@@ -301,6 +317,7 @@ export const TaskModal = ({
         lead_id: data.lead_id || undefined,
         meeting_id: data.meeting_id || undefined,
         deal_id: data.deal_id || undefined,
+        custom_fields: customValues,
       };
 
       if (task && onUpdate) {
@@ -663,6 +680,13 @@ export const TaskModal = ({
                   )}
                 />
 
+                <CustomFieldsSection
+                  fields={customFields}
+                  values={customValues}
+                  errors={customErrors}
+                  onChange={setCustomValues}
+                />
+
                 {/* Created By (read-only) */}
                 {user && (
                   <FormItem>
@@ -11,6 +11,7 @@ export const getColumnConfig = (table: string): ColumnConfig => {
     contacts_module: {
       allowedColumns: [
         'id',
+        'external_id',
         'contact_name',
         'company_name',
         'position',
@@ -29,14 +30,13 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         'modified_time'
       ],
       required: ['contact_name'],
-      enums: {
-        contact_source: ['Website', 'Referral', 'Cold Call', 'Email', 'Social Media', 'Trade Show', 'Other'],
-        industry: ['Automotive', 'Technology', 'Healthcare', 'Finance', 'Manufacturing', 'Retail', 'Other']
-      }
+      // Source, industry and region are checked against the picklists
+      enums: {}
     },
     contacts: {
       allowedColumns: [
         'id',
+        'external_id',
         'contact_name',
         'company_name',
         'position',
@@ -55,10 +55,8 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         'modified_time'
       ],
       required: ['contact_name'],
-      enums: {
-        contact_source: ['Website', 'Referral', 'Cold Call', 'Email', 'Social Media', 'Trade Show', 'Other'],
-        industry: ['Automotive', 'Technology', 'Healthcare', 'Finance', 'Manufacturing', 'Retail', 'Other']
-      }
+      // Source, industry and region are checked against the picklists
+      enums: {}
     },
     leads: {
       allowedColumns: [
@@ -84,11 +82,8 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         'lead_owner'
       ],
       required: ['lead_name', 'contact_owner'],
-      enums: {
-        contact_source: ['Website', 'Referral', 'Cold Call', 'Email', 'Social Media', 'Trade Show', 'Other'],
-        lead_status: ['New', 'Contacted', 'Qualified', 'Lost'],
-        industry: ['Automotive', 'Technology', 'Healthcare', 'Finance', 'Manufacturing', 'Retail', 'Other']
-      }
+      // Source, status and industry are checked against the picklists
+      enums: {}
     },
     meetings: {
       allowedColumns: [
@@ -116,8 +111,54 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         priority: ['Low', 'Medium', 'High', 'Critical']
       }
     },
+    tasks: {
+      allowedColumns: [
+        'title',
+        'description',
+        'status',
+        'priority',
+        'due_date',
+        'due_time'
+      ],
+      required: ['title'],
+      enums: {
+        status: ['open', 'in_progress', 'completed', 'cancelled'],
+        priority: ['high', 'medium', 'low']
+      }
+    },
+    accounts: {
+      allowedColumns: [
+        'id',
+        'external_id',
+        'company_name',
+        'email',
+        'region',
+        'country',
+        'website',
+        'company_type',
+        'tags',
+        'status',
+        'notes',
+        'industry',
+        'phone',
+        'account_owner',
+        'created_by',
+        'modified_by'
+      ],
+      required: ['company_name'],
+      enums: {
+        tags: [
+          'AUTOSAR', 'Adaptive AUTOSAR', 'Embedded Systems', 'BSW', 'ECU', 'Zone Controller',
+          'HCP', 'CI/CD', 'V&V Testing', 'Integration', 'Software Architecture', 'LINUX',
+          'QNX', 'Cybersecurity', 'FuSa', 'OTA', 'Diagnostics', 'Vehicle Network',
+          'Vehicle Architecture', 'Connected Car', 'Platform', 'µC/HW'
+        ]
+      }
+    },
     deals: {
       allowedColumns: [
+        'id',
+        'external_id',
         'deal_name',
         'stage',
         'internal_comment',
@@ -162,7 +203,6 @@ export const getColumnConfig = (table: string): ColumnConfig => {
       ],
       required: ['deal_name', 'stage'],
       enums: {
-        stage: ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'],
         currency_type: ['EUR', 'USD', 'INR'],
         customer_challenges: ['Open', 'Ongoing', 'Done'],
         relationship_strength: ['Low', 'Medium', 'High'],
@@ -1,6 +1,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
+import { applyImportMapping, ImportMapping } from './importMapping';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
@@ -9,6 +10,7 @@ export interface ProcessingOptions {
   tableName: string;
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  mapping?: ImportMapping;
 }
 
 export interface ProcessingResult {
@@ -32,13 +34,17 @@ export class CSVProcessor {
     this.duplicateChecker = createDuplicateChecker(tableName);
   }
 
-  async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+  async processCSV(csv: string | Blob, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`CSVProcessor: Starting processing for table ${options.tableName}`);
     
     try {
       // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`CSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
+      const parsed = await CSVParser.parse(csv);
+      const { delimiter, encoding } = parsed;
+      const { headers, rows } = options.mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, options.mapping)
+        : parsed;
+      console.log(`CSVProcessor: Parsed ${rows.length} rows (${encoding}, delimiter ${JSON.stringify(delimiter)}) with headers:`, headers);
 
       if (rows.length === 0) {
         throw new Error('No data rows found in CSV');
@@ -0,0 +1,75 @@
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { CustomField, CustomFieldValues } from '@/types/customField';
+import {
+  customFieldKey,
+  getCustomFieldValue,
+  getCustomFieldValues,
+  isBlankCustomFieldValue,
+  parseCustomFieldInput,
+  serializeCustomFieldValue,
+} from '@/utils/customFieldUtils';
+import { IMPORT_CUSTOM_FIELD_ENTITIES, ImportEntity, ImportFieldRule } from './importMapping';
+
+export interface CustomFieldCells {
+  values: CustomFieldValues;
+  errors: string[];
+}
+
+// Tables without custom fields get none
+export const fetchImportCustomFields = async (tableName: string): Promise<CustomField[]> => {
+  const entity = IMPORT_CUSTOM_FIELD_ENTITIES[tableName as ImportEntity];
+  if (!entity) return [];
+  return (await fetchCustomFields()).filter(field => field.entity_type === entity);
+};
+
+// Mapped files head the column with the field key; files imported without a mapping may use the name or label
+const findColumn = (field: CustomField, headers: string[]) =>
+  headers.findIndex(header => {
+    const trimmed = header.trim();
+    return trimmed === customFieldKey(field.field_name) ||
+      trimmed.toLowerCase() === field.field_name ||
+      trimmed.toLowerCase() === field.field_label.toLowerCase();
+  });
+
+// Blank cells are left out, so an update keeps what the record already has
+export const readCustomFieldCells = (fields: CustomField[], headers: string[], row: string[]): CustomFieldCells => {
+  const cells: CustomFieldCells = { values: {}, errors: [] };
+  fields.forEach(field => {
+    const index = findColumn(field, headers);
+    if (index === -1) return;
+    const { value, error } = parseCustomFieldInput(field, row[index] ?? '');
+    if (error) cells.errors.push(error);
+    else if (!isBlankCustomFieldValue(value)) cells.values[field.field_name] = value;
+  });
+  return cells;
+};
+
+// Labels of the required fields a new record would be missing; hidden fields aren't enforced, as in the forms
+export const getMissingCustomFields = (fields: CustomField[], values: CustomFieldValues) =>
+  fields
+    .filter(field => field.is_visible && field.is_required && isBlankCustomFieldValue(values[field.field_name]))
+    .map(field => field.field_label);
+
+// The record's custom_fields with the file's values applied, or null when nothing changes
+export const mergeCustomFieldValues = (
+  existing: { custom_fields?: unknown },
+  values: CustomFieldValues,
+  fieldRules: Record<string, ImportFieldRule> = {}
+): CustomFieldValues | null => {
+  const current = getCustomFieldValues(existing);
+  const merged = { ...current };
+  let changed = false;
+  Object.entries(values).forEach(([name, value]) => {
+    if (fieldRules[customFieldKey(name)] === 'fill_blanks' && !isBlankCustomFieldValue(current[name])) return;
+    if (JSON.stringify(current[name]) === JSON.stringify(value)) return;
+    merged[name] = value;
+    changed = true;
+  });
+  return changed ? merged : null;
+};
+
+// Exported files head custom columns with the field label, which findColumn reads back on import
+export const customFieldExportHeaders = (fields: CustomField[]) => fields.map(field => field.field_label);
+
+export const customFieldExportCells = (fields: CustomField[], record: { custom_fields?: unknown }) =>
+  fields.map(field => serializeCustomFieldValue(field, getCustomFieldValue(record, field.field_name)));
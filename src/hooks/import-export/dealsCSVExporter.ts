@@ -1,10 +1,11 @@
 
 import { GenericCSVExporter } from './genericCSVExporter';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchImportCustomFields } from './customFieldImport';
 
-// Exact field order as specified, including action items
+// Exact field order as specified, including action items and line items
 const DEALS_EXPORT_FIELDS = [
-  'id', 'deal_name', 'stage', 'probability', 'drop_reason', 'created_by', 'modified_by', 
+  'id', 'external_id', 'deal_name', 'stage', 'probability', 'drop_reason', 'created_by', 'modified_by', 
   'created_at', 'modified_at', 'lead_name', 'lead_owner', 'project_name', 'customer_name', 
   'region', 'priority', 'internal_comment', 'expected_closing_date', 'customer_need', 
   'customer_challenges', 'relationship_strength', 'budget', 'business_value', 
@@ -13,7 +14,8 @@ const DEALS_EXPORT_FIELDS = [
   'total_contract_value', 'project_duration', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 
   'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'closing', 
   'signed_contract_date', 'implementation_start_date', 'handoff_status', 
-  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items_json'
+  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items_json',
+  'line_items_json'
 ];
 
 export class DealsCSVExporter {
@@ -30,6 +32,23 @@ export class DealsCSVExporter {
       throw new Error('No deals to export');
     }
 
+    const dealsWithActionItems = await this.withRelatedItems(deals);
+    const customFields = await fetchImportCustomFields('deals');
+    await this.genericExporter.exportToCSV(dealsWithActionItems, filename, DEALS_EXPORT_FIELDS, customFields);
+    console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
+  }
+
+  async exportToXlsx(deals: { id: string }[], filename: string) {
+    if (!deals || deals.length === 0) {
+      throw new Error('No deals to export');
+    }
+
+    const dealsWithActionItems = await this.withRelatedItems(deals);
+    const customFields = await fetchImportCustomFields('deals');
+    await this.genericExporter.exportToXlsx(dealsWithActionItems, filename, DEALS_EXPORT_FIELDS, 'Deals', customFields);
+  }
+
+  private async withRelatedItems<T extends { id: string }>(deals: T[]) {
     // Fetch action items for all deals
     const dealIds = deals.map(deal => deal.id);
     const { data: actionItems, error: actionItemsError } = await supabase
@@ -52,13 +71,31 @@ export class DealsCSVExporter {
       return acc;
     }, {} as Record<string, any[]>);
 
-    // Combine deals with their action items and ensure date format consistency
-    const dealsWithActionItems = deals.map(deal => ({
+    // Fetch line items for all deals
+    const { data: lineItems, error: lineItemsError } = await supabase
+      .from('deal_line_items')
+      .select('product_id, sku, product_name, description, quantity, unit_price, discount_percent, term_months, start_date, line_total, sort_order, deal_id')
+      .in('deal_id', dealIds)
+      .order('sort_order');
+
+    if (lineItemsError) {
+      console.error('Error fetching line items:', lineItemsError);
+      // Continue with export without line items
+    }
+
+    const lineItemsByDeal = (lineItems || []).reduce((acc, { deal_id, ...item }) => {
+      if (!acc[deal_id]) {
+        acc[deal_id] = [];
+      }
+      acc[deal_id].push(item);
+      return acc;
+    }, {} as Record<string, Record<string, unknown>[]>);
+
+    // Combine deals with their action items and line items and ensure date format consistency
+    return deals.map(deal => ({
       ...deal,
-      action_items_json: JSON.stringify(actionItemsByDeal[deal.id] || [])
+      action_items_json: JSON.stringify(actionItemsByDeal[deal.id] || []),
+      line_items_json: JSON.stringify(lineItemsByDeal[deal.id] || [])
     }));
-
-    await this.genericExporter.exportToCSV(dealsWithActionItems, filename, DEALS_EXPORT_FIELDS);
-    console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
   }
 }
@@ -1,12 +1,20 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
+import { applyImportMapping, ImportMapping } from './importMapping';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { ImportJobRecorder } from './importJobRecorder';
+import { ImportUpserter } from './importUpserter';
+import { fetchImportCustomFields, getMissingCustomFields, mergeCustomFieldValues, readCustomFieldCells } from './customFieldImport';
+import { fetchImportPicklists, ImportPicklist, normalizePicklistCells } from './picklistImport';
+import { CustomField } from '@/types/customField';
 
 export interface DealsProcessingOptions {
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  mapping?: ImportMapping;
+  importJob?: ImportJobRecorder;
 }
 
 export interface DealsProcessingResult {
@@ -16,15 +24,34 @@ export interface DealsProcessingResult {
   errors: string[];
 }
 
+// Shape of the entries in the line_items_json column
+interface ImportedLineItem {
+  product_id?: string;
+  sku?: string;
+  product_name?: string;
+  description?: string;
+  quantity?: number | string;
+  unit_price?: number | string;
+  discount_percent?: number | string;
+  term_months?: number | string;
+  start_date?: string;
+}
+
 export class DealsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFields: CustomField[] = [];
+  private picklists: ImportPicklist[] = [];
 
-  async processCSV(csvText: string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
+  async processCSV(csv: string | Blob, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
     console.log('DealsCSVProcessor: Starting processing with standardized YYYY-MM-DD date format');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`DealsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
+      const parsed = await CSVParser.parse(csv);
+      const { delimiter, encoding } = parsed;
+      const { headers, rows } = options.mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, options.mapping)
+        : parsed;
+      console.log(`DealsCSVProcessor: Parsed ${rows.length} rows (${encoding}, delimiter ${JSON.stringify(delimiter)}) with headers:`, headers);
 
       if (rows.length === 0) {
         throw new Error('No data rows found in CSV');
@@ -34,6 +61,8 @@ export class DealsCSVProcessor {
       const userNames = UserNameUtils.extractUserNames(rows, headers, ['created_by', 'modified_by', 'lead_owner']);
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
+      this.customFields = await fetchImportCustomFields('deals');
+      this.picklists = await fetchImportPicklists('deals');
 
       const result: DealsProcessingResult = {
         successCount: 0,
@@ -80,6 +109,7 @@ export class DealsCSVProcessor {
       errorCount: 0,
       errors: []
     };
+    const upserter = ImportUpserter.fromMapping('deals', options.mapping);
 
     for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
       const row = rows[rowIndex];
@@ -102,6 +132,14 @@ export class DealsCSVProcessor {
           continue;
         }
 
+        const customCells = readCustomFieldCells(this.customFields, headers, row);
+        const picklistErrors = normalizePicklistCells(this.picklists, rowObj);
+        if (customCells.errors.length > 0 || picklistErrors.length > 0) {
+          result.errorCount++;
+          result.errors.push(`Row ${actualRowNumber}: ${[...picklistErrors, ...customCells.errors].join('; ')}`);
+          continue;
+        }
+
         // Extract action items if present
         let actionItemsData: any[] = [];
         if (rowObj.action_items_json) {
@@ -113,11 +151,34 @@ export class DealsCSVProcessor {
           }
         }
 
+        // Extract line items if present
+        let lineItemsData: ImportedLineItem[] | null = null;
+        if (rowObj.line_items_json) {
+          try {
+            lineItemsData = JSON.parse(rowObj.line_items_json);
+          } catch (error) {
+            console.warn('Failed to parse line items JSON:', error);
+          }
+        }
+        delete rowObj.line_items_json; // Remove from deal data
+
         // Prepare deal record
         const dealRecord = this.prepareDeal(rowObj, options.userId);
 
+        // An upsert matches on its own key and may leave out the deal name for existing deals
+        let existingDeal = null;
+        if (upserter) {
+          const match = await upserter.match(rowObj);
+          if (match.error) {
+            result.errorCount++;
+            result.errors.push(`Row ${actualRowNumber}: ${match.error}`);
+            continue;
+          }
+          existingDeal = match.record;
+        }
+
         // Validate required fields - ensure deal_name is present and not empty
-        if (!dealRecord.deal_name || dealRecord.deal_name.trim() === '') {
+        if (!existingDeal && (!dealRecord.deal_name || dealRecord.deal_name.trim() === '')) {
           result.errorCount++;
           result.errors.push(`Row ${actualRowNumber}: Deal name is required and cannot be empty`);
           console.error(`Row ${actualRowNumber}: Missing or empty deal_name:`, rowObj);
@@ -125,31 +186,50 @@ export class DealsCSVProcessor {
         }
 
         // Check for existing deal by name
-        const { data: existingDeals } = await supabase
-          .from('deals')
-          .select('id')
-          .eq('deal_name', dealRecord.deal_name)
-          .limit(1);
+        if (!upserter) {
+          const { data: existingDeals } = await supabase
+            .from('deals')
+            .select('*')
+            .eq('deal_name', dealRecord.deal_name)
+            .limit(1);
+          existingDeal = existingDeals?.[0] || null;
+        }
+
+        const missingCustomFields = existingDeal ? [] : getMissingCustomFields(this.customFields, customCells.values);
+        if (missingCustomFields.length > 0) {
+          result.errorCount++;
+          result.errors.push(`Row ${actualRowNumber}: Missing required fields: ${missingCustomFields.join(', ')}`);
+          continue;
+        }
 
         let dealId: string;
 
-        if (existingDeals && existingDeals.length > 0) {
+        if (existingDeal) {
           // Update existing deal
-          dealId = existingDeals[0].id;
-          const { error: updateError } = await supabase
-            .from('deals')
-            .update(dealRecord)
-            .eq('id', dealId);
-
-          if (updateError) {
-            result.errorCount++;
-            result.errors.push(`Row ${actualRowNumber}: Update failed - ${updateError.message}`);
-            continue;
+          dealId = existingDeal.id;
+          const changes = upserter ? upserter.changesFor(existingDeal, dealRecord, rowObj) : { ...dealRecord };
+          const customFieldValues = mergeCustomFieldValues(existingDeal, customCells.values, options.mapping?.upsert?.fieldRules);
+          if (customFieldValues) changes.custom_fields = customFieldValues;
+          if (upserter && Object.keys(changes).length === 0) {
+            await options.importJob?.recordSkipped(dealId);
+          } else {
+            const { error: updateError } = await supabase
+              .from('deals')
+              .update(upserter ? { ...changes, modified_by: options.userId } : changes)
+              .eq('id', dealId);
+
+            if (updateError) {
+              result.errorCount++;
+              result.errors.push(`Row ${actualRowNumber}: Update failed - ${updateError.message}`);
+              continue;
+            }
+            result.updateCount++;
+            await options.importJob?.recordUpdated(dealId, existingDeal, changes);
           }
-          result.updateCount++;
         } else {
           // Insert new deal
           const dealToInsert = {
+            external_id: dealRecord.external_id,
             deal_name: dealRecord.deal_name,
             stage: dealRecord.stage || 'Lead',
             project_name: dealRecord.project_name,
@@ -194,7 +274,8 @@ export class DealsCSVProcessor {
             created_by: dealRecord.created_by,
             modified_by: dealRecord.modified_by,
             created_at: dealRecord.created_at,
-            modified_at: dealRecord.modified_at
+            modified_at: dealRecord.modified_at,
+            custom_fields: customCells.values
           };
 
           const { data: insertedDeal, error: insertError } = await supabase
@@ -210,6 +291,7 @@ export class DealsCSVProcessor {
           }
           dealId = insertedDeal.id;
           result.successCount++;
+          await options.importJob?.recordCreated(dealId, dealToInsert);
         }
 
         // Process action items if any
@@ -217,6 +299,11 @@ export class DealsCSVProcessor {
           await this.processActionItems(dealId, actionItemsData, options.userId);
         }
 
+        // Replace line items when the column was filled in; the deal's totals follow from them
+        if (Array.isArray(lineItemsData)) {
+          await this.processLineItems(dealId, lineItemsData, options.userId);
+        }
+
       } catch (error: any) {
         result.errorCount++;
         result.errors.push(`Row ${actualRowNumber}: Processing error - ${error.message}`);
@@ -253,6 +340,7 @@ export class DealsCSVProcessor {
 
     // Map CSV fields to database fields (excluding user fields)
     const fieldMapping: Record<string, string> = {
+      'external_id': 'external_id',
       'deal_name': 'deal_name',
       'stage': 'stage',
       'project_name': 'project_name',
@@ -391,4 +479,52 @@ export class DealsCSVProcessor {
       console.error('Error processing deal action items:', error);
     }
   }
+
+  private async processLineItems(dealId: string, lineItemsData: ImportedLineItem[], userId: string) {
+    try {
+      // Resolve products by id first, then by SKU, so files from another workspace still link up
+      const { data: products } = await supabase
+        .from('products')
+        .select('id, sku, name');
+      const productsById = new Map((products || []).map(product => [product.id, product]));
+      const productsBySku = new Map((products || []).map(product => [product.sku, product]));
+
+      await supabase
+        .from('deal_line_items')
+        .delete()
+        .eq('deal_id', dealId);
+
+      const lineItemsToInsert = lineItemsData.map((item, index) => {
+        const product = productsById.get(item.product_id) || productsBySku.get(item.sku);
+        return {
+          deal_id: dealId,
+          product_id: product?.id || null,
+          product_name: item.product_name || product?.name || item.sku || 'Unnamed item',
+          sku: item.sku || product?.sku || null,
+          description: item.description || null,
+          quantity: Number(item.quantity) || 1,
+          unit_price: Number(item.unit_price) || 0,
+          discount_percent: Number(item.discount_percent) || 0,
+          term_months: item.term_months ? Number(item.term_months) : null,
+          start_date: item.start_date ? DateFormatUtils.convertDateForImport(item.start_date) : null,
+          sort_order: index,
+          created_by: userId
+        };
+      });
+
+      if (lineItemsToInsert.length > 0) {
+        const { error } = await supabase
+          .from('deal_line_items')
+          .insert(lineItemsToInsert);
+
+        if (error) {
+          console.error('Error inserting deal line items:', error);
+        } else {
+          console.log(`Inserted ${lineItemsToInsert.length} line items for deal ${dealId}`);
+        }
+      }
+    } catch (error) {
+      console.error('Error processing deal line items:', error);
+    }
+  }
 }
@@ -2,48 +2,22 @@
 import { downloadCSV } from '@/utils/csvUtils';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomField } from '@/types/customField';
+import { XlsxExporter } from './xlsxExporter';
+import { customFieldExportCells, customFieldExportHeaders } from './customFieldImport';
 
 export class GenericCSVExporter {
   
-  async exportToCSV(data: any[], filename: string, fieldsOrder: string[]) {
+  async exportToCSV(data: any[], filename: string, fieldsOrder: string[], customFields: CustomField[] = []) {
     console.log(`GenericCSVExporter: Starting export of ${data.length} records`);
     
     if (!data || data.length === 0) {
       throw new Error('No data to export');
     }
 
-    // Fetch user display names for all user fields
-    const userIds = UserNameUtils.extractUserIds(data);
-    const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
-    console.log('GenericCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
-
     // Create CSV header row - exact field order
-    const headers = fieldsOrder;
-
-    // Convert data to CSV rows with proper formatting
-    const csvRows = data.map((record, index) => {
-      return fieldsOrder.map(field => {
-        let value = record[field];
-        
-        // Format ID (shortened)
-        if (field === 'id' && value) {
-          return UserNameUtils.formatIdForExport(value);
-        }
-        
-        // Convert UUID to display name for user fields
-        if (UserNameUtils.isUserField(field) && value) {
-          return userNameMap[value] || '';
-        }
-        
-        // Format datetime fields
-        if (UserNameUtils.isDateTimeField(field) && value) {
-          return UserNameUtils.formatDateTimeForExport(value);
-        }
-        
-        // Use existing date formatting for date-only fields
-        return DateFormatUtils.processFieldForExport(field, value);
-      });
-    });
+    const headers = [...fieldsOrder, ...customFieldExportHeaders(customFields)];
+    const csvRows = await this.buildRows(data, fieldsOrder, customFields);
 
     // Combine headers and data
     const allRows = [headers, ...csvRows];
@@ -73,4 +47,55 @@ export class GenericCSVExporter {
     
     console.log(`GenericCSVExporter: Export completed successfully`);
   }
+
+  async exportToXlsx(
+    data: Record<string, unknown>[],
+    filename: string,
+    fieldsOrder: string[],
+    sheetName: string,
+    customFields: CustomField[] = []
+  ) {
+    console.log(`GenericCSVExporter: Starting Excel export of ${data.length} records`);
+
+    if (!data || data.length === 0) {
+      throw new Error('No data to export');
+    }
+
+    const headers = [...fieldsOrder, ...customFieldExportHeaders(customFields)];
+    const rows = await this.buildRows(data, fieldsOrder, customFields);
+    await XlsxExporter.download([XlsxExporter.toSheet(sheetName, headers, rows)], filename);
+  }
+
+  // Rows in field order, then the custom fields, with user names and dates formatted the way the importers read them back
+  private async buildRows(data: Record<string, unknown>[], fieldsOrder: string[], customFields: CustomField[]): Promise<string[][]> {
+    // Fetch user display names for all user fields
+    const userIds = UserNameUtils.extractUserIds(data);
+    const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
+    console.log('GenericCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
+
+    return data.map(record => {
+      const cells = fieldsOrder.map(field => {
+        const value = record[field];
+        
+        // Format ID (shortened)
+        if (field === 'id' && value) {
+          return UserNameUtils.formatIdForExport(String(value));
+        }
+        
+        // Convert UUID to display name for user fields
+        if (UserNameUtils.isUserField(field) && value) {
+          return userNameMap[String(value)] || '';
+        }
+        
+        // Format datetime fields
+        if (UserNameUtils.isDateTimeField(field) && value) {
+          return UserNameUtils.formatDateTimeForExport(String(value));
+        }
+        
+        // Use existing date formatting for date-only fields
+        return DateFormatUtils.processFieldForExport(field, value);
+      });
+      return [...cells, ...customFieldExportCells(customFields, record)];
+    });
+  }
 }
@@ -1,10 +1,16 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
+import { applyImportMapping, ImportEntity, ImportMapping } from './importMapping';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
 import { LeadsCSVProcessor } from './leadsCSVProcessor';
+import { ImportJobRecorder } from './importJobRecorder';
+import { ImportUpserter } from './importUpserter';
+import { fetchImportCustomFields, getMissingCustomFields, mergeCustomFieldValues, readCustomFieldCells } from './customFieldImport';
+import { fetchImportPicklists, ImportPicklist, normalizePicklistCells } from './picklistImport';
+import { CustomField } from '@/types/customField';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
 
@@ -12,6 +18,8 @@ export interface ProcessingOptions {
   tableName: string;
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  mapping?: ImportMapping; // from the import mapping step; headers are guessed without it
+  importJob?: ImportJobRecorder; // records written rows so the import can be rolled back
 }
 
 export interface ProcessingResult {
@@ -23,15 +31,17 @@ export interface ProcessingResult {
 }
 
 export class GenericCSVProcessor {
-  async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+  async processCSV(csv: string | Blob, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`GenericCSVProcessor: Starting processing for table ${options.tableName}`);
     
     // Use specialized processor for leads
     if (options.tableName === 'leads') {
       const leadsProcessor = new LeadsCSVProcessor();
-      const result = await leadsProcessor.processCSV(csvText, {
+      const result = await leadsProcessor.processCSV(csv, {
         userId: options.userId,
-        onProgress: options.onProgress
+        onProgress: options.onProgress,
+        mapping: options.mapping,
+        importJob: options.importJob
       });
       
       // Convert LeadsProcessingResult to ProcessingResult format
@@ -47,8 +57,12 @@ export class GenericCSVProcessor {
     
     try {
       // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`GenericCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
+      const parsed = await CSVParser.parse(csv);
+      const { delimiter, encoding } = parsed;
+      const { headers, rows } = options.mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, options.mapping)
+        : parsed;
+      console.log(`GenericCSVProcessor: Parsed ${rows.length} rows (${encoding}, delimiter ${JSON.stringify(delimiter)}) with headers:`, headers);
 
       if (rows.length === 0) {
         throw new Error('No data rows found in CSV');
@@ -70,6 +84,9 @@ export class GenericCSVProcessor {
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('GenericCSVProcessor: Fetched user IDs for', Object.keys(userIdMap).length, 'users');
 
+      const customFields = await fetchImportCustomFields(options.tableName);
+      const picklists = await fetchImportPicklists(options.tableName);
+
       const result: ProcessingResult = {
         successCount: 0,
         updateCount: 0,
@@ -82,7 +99,7 @@ export class GenericCSVProcessor {
       const batchSize = 50;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap);
+        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap, customFields, picklists);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -110,10 +127,13 @@ export class GenericCSVProcessor {
     headers: string[],
     columnMap: Record<string, string>,
     options: ProcessingOptions,
-    userIdMap: Record<string, string>
+    userIdMap: Record<string, string>,
+    customFields: CustomField[],
+    picklists: ImportPicklist[]
   ): Promise<ProcessingResult> {
     
     const recordValidator = createRecordValidator(options.tableName);
+    const upserter = ImportUpserter.fromMapping(options.tableName as ImportEntity, options.mapping);
     
     const result: ProcessingResult = {
       successCount: 0,
@@ -143,29 +163,61 @@ export class GenericCSVProcessor {
           }
         });
 
-        // Validate record
-        const isValid = recordValidator(rowObj);
+        const customCells = readCustomFieldCells(customFields, headers, row);
+        const picklistErrors = normalizePicklistCells(picklists, rowObj);
+        if (customCells.errors.length > 0 || picklistErrors.length > 0) {
+          result.errorCount++;
+          result.errors.push([...picklistErrors, ...customCells.errors].join('; '));
+          continue;
+        }
+
+        // An upsert matches on its own key; otherwise a row with an ID updates that record
+        let existingRecord = null;
+        if (upserter) {
+          const match = await upserter.match(rowObj);
+          if (match.error) {
+            result.errorCount++;
+            result.errors.push(match.error);
+            continue;
+          }
+          existingRecord = match.record;
+        }
+
+        // Updates from an upsert only carry some fields, so only new records must pass validation
+        const isValid = existingRecord || recordValidator(rowObj);
         if (!isValid) {
           result.errorCount++;
           result.errors.push(`Row validation failed for record`);
           continue;
         }
 
-        // Check if record exists by ID (if ID is provided)
-        let existingRecord = null;
-        if (rowObj.id) {
+        if (!upserter && rowObj.id) {
           const { data: existing } = await supabase
             .from(options.tableName as any)
-            .select('id')
+            .select('*')
             .eq('id', rowObj.id)
             .single();
           
           existingRecord = existing;
         }
 
+        const missingCustomFields = existingRecord ? [] : getMissingCustomFields(customFields, customCells.values);
+        if (missingCustomFields.length > 0) {
+          result.errorCount++;
+          result.errors.push(`Missing required fields: ${missingCustomFields.join(', ')}`);
+          continue;
+        }
+
         if (existingRecord) {
           // Update existing record
-          const updateData = { ...rowObj };
+          const updateData = upserter ? upserter.changesFor(existingRecord, rowObj, rowObj) : { ...rowObj };
+          const customFieldValues = mergeCustomFieldValues(existingRecord, customCells.values, options.mapping?.upsert?.fieldRules);
+          if (customFieldValues) updateData.custom_fields = customFieldValues;
+          if (upserter && Object.keys(updateData).length === 0) {
+            result.duplicateCount++;
+            await options.importJob?.recordSkipped(existingRecord.id);
+            continue;
+          }
           updateData.modified_by = options.userId;
           updateData.modified_time = new Date().toISOString();
           
@@ -182,11 +234,13 @@ export class GenericCSVProcessor {
             result.errors.push(`Update failed: ${updateError.message}`);
           } else {
             result.updateCount++;
+            await options.importJob?.recordUpdated(existingRecord.id, existingRecord, updateData);
             console.log('Record updated successfully:', existingRecord.id);
           }
         } else {
           // Insert new record
           const insertData = { ...rowObj };
+          insertData.custom_fields = customCells.values;
           insertData.created_by = options.userId;
           insertData.modified_by = options.userId;
           
@@ -195,15 +249,18 @@ export class GenericCSVProcessor {
             delete insertData.id;
           }
 
-          const { error: insertError } = await supabase
+          const { data: inserted, error: insertError } = await supabase
             .from(options.tableName as any)
-            .insert([insertData]);
+            .insert([insertData])
+            .select('id')
+            .single();
 
           if (insertError) {
             result.errorCount++;
             result.errors.push(`Insert failed: ${insertError.message}`);
           } else {
             result.successCount++;
+            await options.importJob?.recordCreated((inserted as unknown as { id: string }).id, insertData);
             console.log('New record inserted successfully');
           }
         }
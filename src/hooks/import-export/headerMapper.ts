@@ -106,6 +106,8 @@ export const createHeaderMapper = (tableName: string) => {
       // Updated field mappings for deals - removed deleted fields
       const dealMappings: Record<string, string> = {
         // Core deal fields
+        'deal id': 'id',
+        'deal_id': 'id',
         'deal_name': 'deal_name',
         'deal name': 'deal_name',
         'dealname': 'deal_name',
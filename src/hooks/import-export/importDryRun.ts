@@ -0,0 +1,232 @@
+import { CSVParser } from '@/utils/csvParser';
+import { DateFormatUtils } from '@/utils/dateFormatUtils';
+import { UserNameUtils } from '@/utils/userNameUtils';
+import { createRecordValidator } from './recordValidator';
+import { createValueValidator } from './valueValidator';
+import { createDuplicateChecker } from './duplicateChecker';
+import { ImportUpserter } from './importUpserter';
+import { ImportEntity, ImportField, ImportMapping, applyImportMapping, getImportFields, getImportMatchKey } from './importMapping';
+import { fetchImportCustomFields, getMissingCustomFields, readCustomFieldCells } from './customFieldImport';
+import { parseCustomFieldInput } from '@/utils/customFieldUtils';
+import { parsePicklistInput } from '@/utils/picklistUtils';
+import { fetchPicklistValues } from '@/hooks/usePicklists';
+import { getImportPicklists } from './picklistImport';
+
+export interface DryRunIssue {
+  level: 'error' | 'warning';
+  field: string | null;
+  message: string;
+}
+
+export interface DryRunRow {
+  rowNumber: number; // data row in the file, counting the header as row 1
+  values: string[];
+  issues: DryRunIssue[];
+}
+
+export interface DryRunResult {
+  headers: string[];
+  rows: DryRunRow[];
+}
+
+export type ImportRowValidator = (values: string[]) => Promise<DryRunIssue[]>;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DUPLICATE_CHECK_CONCURRENCY = 10;
+const YIELD_EVERY = 500;
+export const IMPORT_ERRORS_COLUMN = 'import_errors';
+
+// Rows sharing one of these are the same record as far as the importer is concerned
+const IN_FILE_KEYS: Record<ImportEntity, string[]> = {
+  contacts: ['email', 'contact_name'],
+  leads: ['email', 'lead_name'],
+  deals: ['deal_name'],
+  accounts: ['company_name'],
+  tasks: ['title'],
+  meetings: ['subject', 'start_time'],
+};
+
+export const hasErrors = (row: DryRunRow) => row.issues.some(issue => issue.level === 'error');
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Builds a validator that reports what the importer would do with a mapped row, without writing
+ * anything. Errors mean the importer rejects the row; warnings mean it is imported with a value
+ * dropped, defaulted or matched to an existing record.
+ */
+export const createImportRowValidator = async (
+  entity: ImportEntity,
+  headers: string[],
+  rows: string[][],
+  mapping?: ImportMapping
+): Promise<ImportRowValidator> => {
+  const customFields = await fetchImportCustomFields(entity);
+  const picklistValues = await fetchPicklistValues();
+  const picklists = getImportPicklists(entity, picklistValues);
+  const fieldsByName = Object.fromEntries(
+    getImportFields(entity, customFields, picklistValues).map(field => [field.name, field])
+  ) as Record<string, ImportField>;
+  const requiredFields = getImportFields(entity).filter(field => field.required);
+  const recordValidator = createRecordValidator(entity);
+  const valueValidator = createValueValidator(entity);
+  // Accounts are matched by company name instead, and the task and meeting importers don't check for duplicates
+  const duplicateChecker = entity === 'contacts' || entity === 'leads' || entity === 'deals'
+    ? createDuplicateChecker(entity)
+    : null;
+  const upserter = ImportUpserter.fromMapping(entity, mapping);
+  const userColumns = headers.filter(header => UserNameUtils.isUserField(header));
+  const userIdMap = await UserNameUtils.fetchUserIdsByNames(UserNameUtils.extractUserNames(rows, headers, userColumns));
+
+  return async (values: string[]) => {
+    const issues: DryRunIssue[] = [];
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = values[index] ?? '';
+    });
+
+    // Rows an upsert matches only update the fields they fill in, so required fields apply to new records
+    const match = upserter ? await upserter.match(record) : null;
+    if (match?.error) issues.push({ level: 'error', field: null, message: match.error });
+    const matched = !!match?.record;
+
+    const missing = matched ? [] : requiredFields.filter(field => !record[field.name]?.trim());
+    missing.forEach(field => issues.push({ level: 'error', field: field.name, message: `${field.label} is required` }));
+    // The contact and account importers also run the record validator; leads and deals only need a name
+    if (!matched && missing.length === 0 && (entity === 'contacts' || entity === 'accounts') && !recordValidator(record)) {
+      issues.push({ level: 'error', field: null, message: 'Rejected by record validation' });
+    }
+
+    if (!matched) {
+      getMissingCustomFields(customFields, readCustomFieldCells(customFields, headers, values).values)
+        .forEach(label => issues.push({ level: 'error', field: null, message: `${label} is required` }));
+    }
+
+    if (entity === 'deals' && !matched && !record.stage?.trim()) {
+      issues.push({ level: 'warning', field: 'stage', message: 'No stage, new deals start as Lead' });
+    }
+
+    headers.forEach(name => {
+      const value = record[name].trim();
+      const field = fieldsByName[name];
+      if (!value || !field) return;
+      const picklist = picklists.find(p => p.field === name);
+
+      if (picklist) {
+        // The importers reject rows with a value that isn't on the picklist
+        const { error } = parsePicklistInput(picklist.values, picklist.label, value);
+        if (error) issues.push({ level: 'error', field: name, message: error });
+      } else if (field.type === 'custom') {
+        // The importers reject rows with a custom value they can't read
+        const { error } = parseCustomFieldInput(field.customField, value);
+        if (error) issues.push({ level: 'error', field: name, message: error });
+      } else if (field.type === 'user') {
+        if (!UUID_REGEX.test(value) && !userIdMap[value.toLowerCase()]) {
+          issues.push({ level: 'warning', field: name, message: `No user named "${value}", the importing user is used` });
+        }
+      } else if (field.type === 'json') {
+        try {
+          JSON.parse(value);
+        } catch {
+          issues.push({ level: 'warning', field: name, message: `${field.label} is not valid JSON and is skipped` });
+        }
+      } else if (entity === 'meetings' && name === 'start_time') {
+        // The meetings importer rejects a row it can't read a start from
+        if (isNaN(new Date(value).getTime())) {
+          issues.push({ level: 'error', field: name, message: `${field.label}: "${value}" is not a recognised date and time` });
+        }
+      } else if (field.type === 'date' || field.type === 'datetime') {
+        // The deals importer rejects the whole row; the others leave the date empty
+        if (!DateFormatUtils.convertDateForImport(value)) {
+          issues.push(entity === 'deals'
+            ? { level: 'error', field: name, message: `${field.label}: "${value}" is not a recognised date` }
+            : { level: 'warning', field: name, message: `${field.label}: "${value}" is not a recognised date and is left empty` });
+        }
+      } else if (valueValidator(name, value) === null) {
+        issues.push({ level: 'warning', field: name, message: `${field.label}: "${value}" is not a valid value` });
+      }
+    });
+
+    if (!upserter && duplicateChecker && !issues.some(issue => issue.level === 'error') && await duplicateChecker(record)) {
+      issues.push({
+        level: 'warning',
+        field: null,
+        message: entity === 'deals' ? 'Matches an existing deal' : 'Possible duplicate of an existing record',
+      });
+    }
+
+    return issues;
+  };
+};
+
+// Flags rows that repeat an earlier row's key, since the importer would create or update the same record twice
+const addInFileDuplicates = (keyFields: string[], result: DryRunResult) => {
+  const keyIndexes = keyFields.map(field => result.headers.indexOf(field));
+  if (keyIndexes.some(index => index === -1)) return;
+
+  const firstRows = new Map<string, number>();
+  result.rows.forEach(row => {
+    const parts = keyIndexes.map(index => (row.values[index] || '').trim().toLowerCase());
+    if (parts.every(part => !part)) return;
+    const key = JSON.stringify(parts);
+    const first = firstRows.get(key);
+    if (first === undefined) {
+      firstRows.set(key, row.rowNumber);
+    } else {
+      row.issues.push({ level: 'warning', field: null, message: `Same record as row ${first}` });
+    }
+  });
+};
+
+export const runImportDryRun = async (
+  entity: ImportEntity,
+  file: Blob,
+  mapping: ImportMapping,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ result: DryRunResult; validateRow: ImportRowValidator }> => {
+  const parsed = await CSVParser.parse(file);
+  const { headers, rows } = applyImportMapping(parsed.headers, parsed.rows, mapping);
+  const validateRow = await createImportRowValidator(entity, headers, rows, mapping);
+
+  const result: DryRunResult = {
+    headers,
+    rows: rows.map((values, index) => ({ rowNumber: index + 2, values, issues: [] })),
+  };
+
+  // Duplicate checks go to the database one row at a time, so run a few side by side
+  let done = 0;
+  for (let start = 0; start < result.rows.length; start += DUPLICATE_CHECK_CONCURRENCY) {
+    const batch = result.rows.slice(start, start + DUPLICATE_CHECK_CONCURRENCY);
+    await Promise.all(batch.map(async row => {
+      row.issues = await validateRow(row.values);
+    }));
+    done += batch.length;
+    onProgress?.(done, result.rows.length);
+    if (done % YIELD_EVERY < DUPLICATE_CHECK_CONCURRENCY) await yieldToBrowser();
+  }
+
+  const matchKey = mapping.upsert && getImportMatchKey(entity, mapping.upsert.matchKey);
+  addInFileDuplicates(matchKey ? matchKey.fields : IN_FILE_KEYS[entity], result);
+  return { result, validateRow };
+};
+
+const toRecord = (headers: string[], values: string[]) =>
+  Object.fromEntries(headers.map((header, index) => [header, values[index] ?? '']));
+
+// Rejected rows keep the mapped field names as headers, so the fixed file maps itself on re-upload
+export const buildRejectedRowsCSV = (result: DryRunResult) => {
+  const rejected = result.rows.filter(hasErrors).map(row => ({
+    ...toRecord(result.headers, row.values),
+    [IMPORT_ERRORS_COLUMN]: row.issues
+      .filter(issue => issue.level === 'error')
+      .map(issue => issue.message)
+      .join('; '),
+  }));
+  return CSVParser.toCSV(rejected, [...result.headers, IMPORT_ERRORS_COLUMN]);
+};
+
+// The rows that pass, including inline fixes, as a file the importer reads without a mapping
+export const buildAcceptedRowsFile = (result: DryRunResult, name: string) => {
+  const accepted = result.rows.filter(row => !hasErrors(row)).map(row => toRecord(result.headers, row.values));
+  return new File([CSVParser.toCSV(accepted, result.headers)], name, { type: 'text/csv' });
+};
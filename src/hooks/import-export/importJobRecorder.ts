@@ -0,0 +1,141 @@
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Json } from '@/integrations/supabase/types';
+import { ImportJobEntity } from '@/types/importJob';
+import { ImportMapping } from './importMapping';
+
+const FLUSH_SIZE = 200;
+
+interface PendingRecord {
+  job_id: string;
+  record_id: string;
+  action: 'created' | 'updated' | 'skipped';
+  previous_values?: Json;
+  written_columns: string[];
+}
+
+/**
+ * Records what an import wrote so the job can be rolled back from Import History. Records are
+ * buffered and written in batches; call finish() once the import is done, even when it failed.
+ */
+export class ImportJobRecorder {
+  private pending: PendingRecord[] = [];
+  private seen = new Set<string>();
+  // Rows written to the table whose job record failed to save
+  private unrecorded = 0;
+
+  private constructor(readonly jobId: string) {}
+
+  static async start(entity: ImportJobEntity, fileName: string, mapping?: ImportMapping): Promise<ImportJobRecorder> {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { data, error } = await supabase
+      .from('import_jobs')
+      .insert({
+        entity_type: entity,
+        file_name: fileName,
+        mapping: (mapping as unknown as Json) || null,
+        created_by: user?.id,
+      })
+      .select('id')
+      .single();
+
+    // An import that can't be undone shouldn't run
+    if (error) throw new Error(`Could not start import job: ${error.message}`);
+    return new ImportJobRecorder(data.id);
+  }
+
+  // Starts a job, runs the import with it and closes the job whether or not the import succeeds.
+  // Anything that leaves the job short of a full rollback is added to the result's errors and shown.
+  static async run<T extends { errors: string[] }>(
+    entity: ImportJobEntity,
+    fileName: string,
+    mapping: ImportMapping | undefined,
+    importFn: (importJob: ImportJobRecorder) => Promise<T>
+  ): Promise<T> {
+    const importJob = await ImportJobRecorder.start(entity, fileName, mapping);
+    let result: T;
+    try {
+      result = await importFn(importJob);
+    } catch (error) {
+      ImportJobRecorder.warn(await importJob.finish([error instanceof Error ? error.message : String(error)], true));
+      throw error;
+    }
+    const problems = await importJob.finish(result.errors);
+    result.errors.push(...problems);
+    ImportJobRecorder.warn(problems);
+    return result;
+  }
+
+  private static warn(problems: string[]) {
+    if (problems.length === 0) return;
+    toast({
+      title: "Import can't be fully rolled back",
+      description: problems.join(' '),
+      variant: 'destructive',
+    });
+  }
+
+  // `written` is the row as inserted; only its columns are checked for later edits before a rollback
+  async recordCreated(recordId: string, written: Record<string, unknown>) {
+    await this.add(recordId, 'created', Object.keys(written).filter(key => written[key] !== undefined));
+  }
+
+  // Keeps the values the update is about to overwrite; `before` may hold more columns than `changes`
+  async recordUpdated(recordId: string, before: Record<string, unknown>, changes: Record<string, unknown>) {
+    const previous = Object.fromEntries(
+      Object.keys(changes).filter(key => key !== 'id' && key in before).map(key => [key, before[key]])
+    );
+    await this.add(recordId, 'updated', Object.keys(changes), previous as Json);
+  }
+
+  async recordSkipped(recordId: string) {
+    await this.add(recordId, 'skipped', []);
+  }
+
+  // Returns what went wrong with the job itself; an empty list means it can be fully rolled back
+  async finish(errors: string[] = [], failed = false): Promise<string[]> {
+    await this.flush();
+    const problems: string[] = [];
+    if (this.unrecorded > 0) {
+      problems.push(`${this.unrecorded} imported rows could not be recorded, so a rollback won't undo them.`);
+    }
+
+    const { error } = await supabase.rpc('finish_import_job', {
+      p_job_id: this.jobId,
+      p_failed: failed,
+      p_errors: errors,
+      p_unrecorded: this.unrecorded,
+    });
+    if (error) {
+      console.error('Error finishing import job:', error);
+      problems.push(`The import job could not be closed (${error.message}), so it can't be rolled back from Import History.`);
+    }
+    return problems;
+  }
+
+  // A record touched twice in one file keeps its first entry, which holds the original values
+  private async add(recordId: string, action: PendingRecord['action'], columns: string[], previousValues?: Json) {
+    if (this.seen.has(recordId)) return;
+    this.seen.add(recordId);
+    this.pending.push({
+      job_id: this.jobId,
+      record_id: recordId,
+      action,
+      previous_values: previousValues,
+      written_columns: columns.filter(column => column !== 'id'),
+    });
+    if (this.pending.length >= FLUSH_SIZE) await this.flush();
+  }
+
+  private async flush() {
+    if (this.pending.length === 0) return;
+    const batch = this.pending;
+    this.pending = [];
+    const { error } = await supabase.from('import_job_records').insert(batch);
+    if (error) {
+      console.error('Error recording import job records:', error);
+      // Skipped rows weren't changed, so losing their records doesn't affect a rollback
+      this.unrecorded += batch.filter(record => record.action !== 'skipped').length;
+    }
+  }
+}
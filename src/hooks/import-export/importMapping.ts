@@ -0,0 +1,304 @@
+import { getColumnConfig } from './columnConfig';
+import { createHeaderMapper } from './headerMapper';
+import { DateFormatUtils } from '@/utils/dateFormatUtils';
+import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomField, CustomFieldEntity } from '@/types/customField';
+import { customFieldKey, parseCustomFieldInput, serializeCustomFieldValue } from '@/utils/customFieldUtils';
+import { PicklistValue } from '@/types/picklist';
+import { getImportPicklists } from './picklistImport';
+
+export type ImportEntity = 'contacts' | 'leads' | 'deals' | 'accounts' | 'tasks' | 'meetings';
+
+export type ImportFieldType = 'text' | 'number' | 'date' | 'datetime' | 'email' | 'enum' | 'list' | 'user' | 'json' | 'custom';
+
+export interface ImportField {
+  name: string;
+  label: string;
+  type: ImportFieldType;
+  required: boolean;
+  options?: string[];
+  customField?: CustomField; // set for `custom` fields, which are read by the field's own type
+}
+
+// Whether an upsert may replace a value the matched record already has
+export type ImportFieldRule = 'overwrite' | 'fill_blanks';
+
+// Rows matching an existing record on the key update it instead of creating a new one
+export interface ImportUpsertSettings {
+  matchKey: string;
+  fieldRules: Record<string, ImportFieldRule>; // fields left out are overwritten
+}
+
+// Source header -> target field (null ignores the column), plus values for empty or unmapped fields
+export interface ImportMapping {
+  fieldMappings: Record<string, string | null>;
+  defaultValues: Record<string, string>;
+  upsert?: ImportUpsertSettings;
+}
+
+export interface ImportMatchKey {
+  value: string;
+  label: string;
+  fields: string[];
+}
+
+export const IMPORT_ENTITY_LABELS: Record<ImportEntity, string> = {
+  contacts: 'Contacts',
+  leads: 'Leads',
+  deals: 'Deals',
+  accounts: 'Accounts',
+  tasks: 'Tasks',
+  meetings: 'Meetings',
+};
+
+// Meetings have no custom fields
+export const IMPORT_CUSTOM_FIELD_ENTITIES: Partial<Record<ImportEntity, CustomFieldEntity>> = {
+  contacts: 'contact',
+  leads: 'lead',
+  deals: 'deal',
+  accounts: 'account',
+  tasks: 'task',
+};
+
+// Fields each importer reads, in the order the mapping step lists them
+const IMPORT_FIELDS: Record<ImportEntity, string[]> = {
+  contacts: getColumnConfig('contacts').allowedColumns,
+  leads: [
+    'id', 'external_id', 'lead_name', 'company_name', 'position', 'email', 'phone_no', 'linkedin', 'website',
+    'contact_source', 'lead_status', 'industry', 'country', 'description', 'contact_owner',
+    'created_by', 'modified_by', 'created_time', 'modified_time', 'action_items_json',
+  ],
+  deals: [
+    ...getColumnConfig('deals').allowedColumns,
+    'created_by', 'modified_by', 'created_at', 'modified_at', 'action_items_json', 'line_items_json',
+  ],
+  accounts: getColumnConfig('accounts').allowedColumns,
+  tasks: getColumnConfig('tasks').allowedColumns,
+  meetings: ['subject', 'start_time', 'end_time', 'status', 'description', 'outcome', 'notes', 'join_url'],
+};
+
+// Rows without these are rejected by the importers
+const REQUIRED_FIELDS: Record<ImportEntity, string[]> = {
+  contacts: ['contact_name'],
+  leads: ['lead_name'],
+  deals: ['deal_name'],
+  accounts: ['company_name'],
+  tasks: ['title'],
+  meetings: ['subject', 'start_time'],
+};
+
+// Keys an upsert import can match existing records on; a composite key matches on all of its fields
+const MATCH_KEYS: Record<ImportEntity, ImportMatchKey[]> = {
+  contacts: [
+    { value: 'id', label: 'CRM ID', fields: ['id'] },
+    { value: 'email', label: 'Email', fields: ['email'] },
+    { value: 'external_id', label: 'External ID', fields: ['external_id'] },
+    { value: 'company_contact', label: 'Company + contact name', fields: ['company_name', 'contact_name'] },
+  ],
+  leads: [
+    { value: 'id', label: 'CRM ID', fields: ['id'] },
+    { value: 'email', label: 'Email', fields: ['email'] },
+    { value: 'external_id', label: 'External ID', fields: ['external_id'] },
+    { value: 'company_lead', label: 'Company + lead name', fields: ['company_name', 'lead_name'] },
+  ],
+  deals: [
+    { value: 'id', label: 'CRM ID', fields: ['id'] },
+    { value: 'external_id', label: 'External ID', fields: ['external_id'] },
+    { value: 'deal_name', label: 'Deal name', fields: ['deal_name'] },
+    { value: 'customer_project', label: 'Customer + project name', fields: ['customer_name', 'project_name'] },
+  ],
+  accounts: [
+    { value: 'id', label: 'CRM ID', fields: ['id'] },
+    { value: 'external_id', label: 'External ID', fields: ['external_id'] },
+    { value: 'company_name', label: 'Company name', fields: ['company_name'] },
+    { value: 'email', label: 'Email', fields: ['email'] },
+  ],
+  // Task and meeting imports only create records
+  tasks: [],
+  meetings: [],
+};
+
+const NUMBER_FIELDS = [
+  'priority', 'probability', 'total_contract_value', 'project_duration', 'quarterly_revenue_q1',
+  'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue',
+  'no_of_employees', 'annual_revenue',
+];
+
+const LIST_FIELDS = ['tags'];
+
+export const isImportNumberField = (name: string) => NUMBER_FIELDS.includes(name);
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const toLabel = (name: string) =>
+  name
+    .replace(/_json$/, '')
+    .split('_')
+    .map(word => (word === 'id' ? 'ID' : word.charAt(0).toUpperCase() + word.slice(1)))
+    .join(' ');
+
+const getFieldType = (entity: ImportEntity, name: string): ImportFieldType => {
+  if (name.endsWith('_json')) return 'json';
+  if (NUMBER_FIELDS.includes(name)) return 'number';
+  if (name === 'email') return 'email';
+  if (UserNameUtils.isUserField(name)) return 'user';
+  if (LIST_FIELDS.includes(name)) return 'list';
+  if (getColumnConfig(entity).enums[name]) return 'enum';
+
+  const dateType = DateFormatUtils.getFieldType(name);
+  return dateType === 'other' ? 'text' : dateType;
+};
+
+// Custom fields come last; a required one only applies to new records, so it doesn't block the mapping.
+// Picklist fields take their options from picklistValues, inactive ones included since imports accept them.
+export const getImportFields = (
+  entity: ImportEntity,
+  customFields: CustomField[] = [],
+  picklistValues: PicklistValue[] = []
+): ImportField[] => {
+  const { enums } = getColumnConfig(entity);
+  const picklists = getImportPicklists(entity, picklistValues);
+  return [
+    ...IMPORT_FIELDS[entity].map(name => {
+      const picklist = picklists.find(p => p.field === name);
+      return {
+        name,
+        label: toLabel(name),
+        type: picklist ? 'enum' as const : getFieldType(entity, name),
+        required: REQUIRED_FIELDS[entity].includes(name),
+        options: picklist ? picklist.values.map(value => value.value) : enums[name],
+      };
+    }),
+    ...customFields.map(field => ({
+      name: customFieldKey(field.field_name),
+      label: field.field_label,
+      type: 'custom' as const,
+      required: false,
+      options: field.field_options || undefined,
+      customField: field,
+    })),
+  ];
+};
+
+export const getImportMatchKeys = (entity: ImportEntity) => MATCH_KEYS[entity];
+
+export const getImportMatchKey = (entity: ImportEntity, value: string) =>
+  MATCH_KEYS[entity].find(key => key.value === value) || null;
+
+// Best guess for each header; a field is only suggested for the first header that matches it
+export const suggestImportMapping = (
+  entity: ImportEntity,
+  headers: string[],
+  customFields: CustomField[] = []
+): Record<string, string | null> => {
+  const fields = [...IMPORT_FIELDS[entity], ...customFields.map(field => customFieldKey(field.field_name))];
+  const headerMapper = createHeaderMapper(entity);
+  const used = new Set<string>();
+
+  return headers.reduce<Record<string, string | null>>((mapping, header) => {
+    const normalized = header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    // Exported files head custom columns with the field label, rejected-rows files with the mapped key
+    const customField = customFields.find(field =>
+      customFieldKey(field.field_name) === header.trim() ||
+      field.field_name === normalized ||
+      field.field_label.toLowerCase() === header.trim().toLowerCase()
+    );
+    const candidate = fields.includes(normalized)
+      ? normalized
+      : customField ? customFieldKey(customField.field_name) : headerMapper(header);
+    const field = candidate && fields.includes(candidate) && !used.has(candidate) ? candidate : null;
+    if (field) used.add(field);
+    mapping[header] = field;
+    return mapping;
+  }, {});
+};
+
+export interface ImportValuePreview {
+  value: string;
+  valid: boolean;
+  note?: string;
+}
+
+// Shows how the importer will read a raw cell; userNames are lower-cased profile names
+export const previewImportValue = (field: ImportField, raw: string, userNames?: Set<string>): ImportValuePreview => {
+  const value = raw.trim();
+  if (!value) return { value: '', valid: true };
+
+  switch (field.type) {
+    case 'number': {
+      const number = parseFloat(value.replace(/[^\d.-]/g, ''));
+      return isNaN(number) ? { value, valid: false, note: 'Not a number' } : { value: String(number), valid: true };
+    }
+    case 'date':
+    case 'datetime': {
+      const date = DateFormatUtils.convertDateForImport(value);
+      return date ? { value: date, valid: true } : { value, valid: false, note: 'Unrecognised date' };
+    }
+    case 'email':
+      return EMAIL_REGEX.test(value) ? { value, valid: true } : { value, valid: false, note: 'Invalid email' };
+    case 'enum': {
+      const match = field.options?.find(option => option.toLowerCase() === value.toLowerCase());
+      return match ? { value: match, valid: true } : { value, valid: false, note: 'Not an allowed value' };
+    }
+    case 'list': {
+      const items = value.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+      const unknown = field.options ? items.filter(item => !field.options.includes(item)) : [];
+      return {
+        value: items.filter(item => !unknown.includes(item)).join(', '),
+        valid: unknown.length === 0,
+        note: unknown.length > 0 ? `Dropped: ${unknown.join(', ')}` : undefined,
+      };
+    }
+    case 'user':
+      if (UUID_REGEX.test(value) || !userNames || userNames.has(value.toLowerCase())) return { value, valid: true };
+      return { value, valid: false, note: 'Unknown user, the importing user is used' };
+    case 'custom': {
+      const parsed = parseCustomFieldInput(field.customField, value);
+      return parsed.error
+        ? { value, valid: false, note: parsed.error }
+        : { value: serializeCustomFieldValue(field.customField, parsed.value), valid: true };
+    }
+    case 'json':
+      try {
+        JSON.parse(value);
+        return { value: 'JSON', valid: true };
+      } catch {
+        return { value, valid: false, note: 'Invalid JSON' };
+      }
+    default:
+      return { value, valid: true };
+  }
+};
+
+// An upsert only needs its match key mapped; rows that match nothing are checked for required fields one by one
+export const getMissingRequiredFields = (entity: ImportEntity, mapping: ImportMapping) => {
+  const mapped = new Set(Object.values(mapping.fieldMappings).filter(Boolean));
+  const required = mapping.upsert
+    ? getImportMatchKey(entity, mapping.upsert.matchKey)?.fields || []
+    : REQUIRED_FIELDS[entity];
+  return required.filter(field => !mapped.has(field) && !mapping.defaultValues[field]?.trim());
+};
+
+// Renames mapped columns to their target fields, drops ignored ones and fills defaults into empty cells
+export const applyImportMapping = (headers: string[], rows: string[][], mapping: ImportMapping) => {
+  const columns: { field: string; index: number }[] = [];
+  headers.forEach((header, index) => {
+    const field = mapping.fieldMappings[header];
+    if (field && !columns.some(column => column.field === field)) columns.push({ field, index });
+  });
+
+  const defaultOnlyFields = Object.keys(mapping.defaultValues).filter(
+    field => mapping.defaultValues[field].trim() !== '' && !columns.some(column => column.field === field)
+  );
+  const mappedHeaders = [...columns.map(column => column.field), ...defaultOnlyFields];
+
+  const mappedRows = rows.map(row =>
+    mappedHeaders.map((field, i) => {
+      const value = i < columns.length ? row[columns[i].index] ?? '' : '';
+      return value.trim() === '' ? mapping.defaultValues[field] ?? '' : value;
+    })
+  );
+
+  return { headers: mappedHeaders, rows: mappedRows };
+};
@@ -0,0 +1,80 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ImportEntity, ImportMapping, ImportMatchKey, ImportUpsertSettings, getImportMatchKey } from './importMapping';
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Identifiers match exactly; names and emails match regardless of case
+const EXACT_MATCH_FIELDS = ['id', 'external_id'];
+
+export interface ImportUpsertMatch {
+  record: Record<string, unknown> | null;
+  error?: string;
+}
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b) || (!isBlank(a) && !isBlank(b) && String(a) === String(b));
+
+// Escapes LIKE wildcards so a name like "100% Solutions" is matched literally
+const escapeLikePattern = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+/**
+ * Matches import rows to existing records on the key chosen in the mapping step and works out
+ * which fields an update may write: only fields the file fills in, and fill-blanks fields only
+ * where the record has no value yet.
+ */
+export class ImportUpserter {
+  private constructor(
+    private readonly entity: ImportEntity,
+    private readonly settings: ImportUpsertSettings,
+    private readonly key: ImportMatchKey
+  ) {}
+
+  // Null when the mapping isn't an upsert, so importers keep their own matching
+  static fromMapping(entity: ImportEntity, mapping?: ImportMapping): ImportUpserter | null {
+    const key = mapping?.upsert && getImportMatchKey(entity, mapping.upsert.matchKey);
+    return key ? new ImportUpserter(entity, mapping.upsert, key) : null;
+  }
+
+  get keyLabel() {
+    return this.key.label;
+  }
+
+  // A row with an empty key part matches nothing and is imported as a new record
+  async match(row: Record<string, unknown>): Promise<ImportUpsertMatch> {
+    const parts = this.key.fields.map(field => [field, String(row[field] ?? '').trim()] as const);
+    if (parts.some(([, value]) => !value)) return { record: null };
+
+    const invalidId = parts.find(([field, value]) => field === 'id' && !UUID_REGEX.test(value));
+    if (invalidId) return { record: null, error: `"${invalidId[1]}" is not a valid CRM ID` };
+
+    let query = supabase.from(this.entity).select('*');
+    parts.forEach(([field, value]) => {
+      query = EXACT_MATCH_FIELDS.includes(field)
+        ? query.filter(field, 'eq', value)
+        : query.filter(field, 'ilike', escapeLikePattern(value));
+    });
+
+    const { data, error } = await query.limit(2);
+    if (error) return { record: null, error: `Match on ${this.key.label} failed: ${error.message}` };
+    if (data.length > 1) {
+      return { record: null, error: `${this.key.label} "${parts.map(([, value]) => value).join(' / ')}" matches more than one record` };
+    }
+    return { record: (data[0] as Record<string, unknown>) || null };
+  }
+
+  // `source` is the mapped row as read from the file, `prepared` the importer's converted values for it
+  changesFor(existing: Record<string, unknown>, prepared: Record<string, unknown>, source: Record<string, unknown>) {
+    const changes: Record<string, unknown> = {};
+    Object.keys(source).forEach(field => {
+      if (field === 'id' || isBlank(source[field]) || !(field in prepared)) return;
+      if (this.settings.fieldRules[field] === 'fill_blanks' && !isBlank(existing[field])) return;
+      if (isSameValue(existing[field], prepared[field])) return;
+      changes[field] = prepared[field];
+    });
+    return changes;
+  }
+}
@@ -1,14 +1,30 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { XlsxExporter } from './xlsxExporter';
+import { customFieldExportCells, customFieldExportHeaders, fetchImportCustomFields } from './customFieldImport';
 
 export class LeadsCSVExporter {
   async exportLeads(leads: any[]): Promise<string> {
     console.log('LeadsCSVExporter: Starting export of', leads.length, 'leads');
-    
+
+    const { headers, rows } = await this.buildRows(leads);
+    const csvContent = [headers, ...rows].map(row => row.map(value => this.escapeCSVValue(value)).join(',')).join('\n');
+    console.log('LeadsCSVExporter: Export completed');
+    return csvContent;
+  }
+
+  async exportLeadsToXlsx(leads: Record<string, unknown>[], filename: string) {
+    const { headers, rows } = await this.buildRows(leads);
+    await XlsxExporter.download([XlsxExporter.toSheet('Leads', headers, rows)], filename);
+  }
+
+  // Header and rows in the exact field order plus the custom fields, with user names and datetimes formatted for export
+  async buildRows(leads: Record<string, unknown>[]): Promise<{ headers: string[]; rows: string[][] }> {
     // Define the exact field order as required
     const fieldOrder = [
       'id',
+      'external_id',
       'lead_name', 
       'company_name',
       'position',
@@ -32,12 +48,10 @@ export class LeadsCSVExporter {
     // Fetch user display names for all user fields
     const userIds = UserNameUtils.extractUserIds(leads, ['contact_owner', 'created_by', 'modified_by']);
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
+    const customFields = await fetchImportCustomFields('leads');
     console.log('LeadsCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
-    const csvRows = [];
-    
-    // Add headers in exact order
-    csvRows.push(fieldOrder.join(','));
+    const rows: string[][] = [];
 
     // Process each lead
     for (const lead of leads) {
@@ -47,7 +61,7 @@ export class LeadsCSVExporter {
         const { data: actionItems } = await supabase
           .from('lead_action_items')
           .select('*')
-          .eq('lead_id', lead.id)
+          .eq('lead_id', String(lead.id))
           .order('created_at', { ascending: true });
 
         if (actionItems && actionItems.length > 0) {
@@ -74,13 +88,12 @@ export class LeadsCSVExporter {
 
         // Convert UUID to display name for user fields
         if (UserNameUtils.isUserField(field) && value) {
-          const displayName = userNameMap[value] || '';
-          return this.escapeCSVValue(displayName);
+          return userNameMap[value] || '';
         }
 
         // Format datetime fields
         if (UserNameUtils.isDateTimeField(field) && value) {
-          return this.escapeCSVValue(UserNameUtils.formatDateTimeForExport(value));
+          return UserNameUtils.formatDateTimeForExport(value);
         }
 
         // Handle null/undefined values
@@ -88,15 +101,13 @@ export class LeadsCSVExporter {
           return '';
         }
 
-        return this.escapeCSVValue(String(value));
+        return String(value);
       });
 
-      csvRows.push(rowValues.join(','));
+      rows.push([...rowValues, ...customFieldExportCells(customFields, lead)]);
     }
 
-    const csvContent = csvRows.join('\n');
-    console.log('LeadsCSVExporter: Export completed');
-    return csvContent;
+    return { headers: [...fieldOrder, ...customFieldExportHeaders(customFields)], rows };
   }
 
   private escapeCSVValue(value: string): string {
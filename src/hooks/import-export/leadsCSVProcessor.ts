@@ -1,12 +1,20 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { CSVParser } from '@/utils/csvParser';
+import { applyImportMapping, ImportMapping } from './importMapping';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { ImportJobRecorder } from './importJobRecorder';
+import { ImportUpserter } from './importUpserter';
+import { fetchImportCustomFields, getMissingCustomFields, mergeCustomFieldValues, readCustomFieldCells } from './customFieldImport';
+import { fetchImportPicklists, ImportPicklist, normalizePicklistCells } from './picklistImport';
+import { CustomField } from '@/types/customField';
 
 export interface LeadsProcessingOptions {
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  mapping?: ImportMapping;
+  importJob?: ImportJobRecorder;
 }
 
 export interface LeadsProcessingResult {
@@ -18,13 +26,19 @@ export interface LeadsProcessingResult {
 
 export class LeadsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customFields: CustomField[] = [];
+  private picklists: ImportPicklist[] = [];
 
-  async processCSV(csvText: string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
+  async processCSV(csv: string | Blob, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
     console.log('LeadsCSVProcessor: Starting processing');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
-      console.log(`LeadsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
+      const parsed = await CSVParser.parse(csv);
+      const { delimiter, encoding } = parsed;
+      const { headers, rows } = options.mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, options.mapping)
+        : parsed;
+      console.log(`LeadsCSVProcessor: Parsed ${rows.length} rows (${encoding}, delimiter ${JSON.stringify(delimiter)}) with headers:`, headers);
 
       if (rows.length === 0) {
         throw new Error('No data rows found in CSV');
@@ -34,6 +48,8 @@ export class LeadsCSVProcessor {
       const userNames = UserNameUtils.extractUserNames(rows, headers, ['contact_owner', 'created_by', 'modified_by']);
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
+      this.customFields = await fetchImportCustomFields('leads');
+      this.picklists = await fetchImportPicklists('leads');
 
       const result: LeadsProcessingResult = {
         successCount: 0,
@@ -79,6 +95,7 @@ export class LeadsCSVProcessor {
       errorCount: 0,
       errors: []
     };
+    const upserter = ImportUpserter.fromMapping('leads', options.mapping);
 
     for (const row of rows) {
       try {
@@ -90,6 +107,14 @@ export class LeadsCSVProcessor {
           }
         });
 
+        const customCells = readCustomFieldCells(this.customFields, headers, row);
+        const picklistErrors = normalizePicklistCells(this.picklists, rowObj);
+        if (customCells.errors.length > 0 || picklistErrors.length > 0) {
+          result.errorCount++;
+          result.errors.push([...picklistErrors, ...customCells.errors].join('; '));
+          continue;
+        }
+
         // Extract action items if present
         let actionItemsData: any[] = [];
         if (rowObj.action_items_json) {
@@ -104,31 +129,55 @@ export class LeadsCSVProcessor {
         // Prepare lead record
         const leadRecord = this.prepareLead(rowObj, options.userId);
 
+        // An upsert matches on its own key; otherwise leads are matched by ID only (as per requirements)
+        let existingLead = null;
+        if (upserter) {
+          const match = await upserter.match(rowObj);
+          if (match.error) {
+            result.errorCount++;
+            result.errors.push(match.error);
+            continue;
+          }
+          existingLead = match.record;
+        } else if (rowObj.id && rowObj.id.trim() !== '') {
+          console.log('Checking for existing lead with ID:', rowObj.id);
+          const { data } = await supabase
+            .from('leads')
+            .select('*')
+            .eq('id', rowObj.id.trim())
+            .single();
+          existingLead = data;
+        }
+
         // Validate required fields - ensure lead_name is present and not empty
-        if (!leadRecord.lead_name || leadRecord.lead_name.trim() === '') {
+        if (!existingLead && (!leadRecord.lead_name || leadRecord.lead_name.trim() === '')) {
           result.errorCount++;
           result.errors.push('Lead name is required');
           continue;
         }
 
+        const missingCustomFields = existingLead ? [] : getMissingCustomFields(this.customFields, customCells.values);
+        if (missingCustomFields.length > 0) {
+          result.errorCount++;
+          result.errors.push(`Missing required fields: ${missingCustomFields.join(', ')}`);
+          continue;
+        }
+
         let leadId: string;
         let isUpdate = false;
 
-        // Check for existing lead by ID only (as per requirements)
-        if (rowObj.id && rowObj.id.trim() !== '') {
-          console.log('Checking for existing lead with ID:', rowObj.id);
-          const { data: existingLead } = await supabase
-            .from('leads')
-            .select('id')
-            .eq('id', rowObj.id.trim())
-            .single();
-
-          if (existingLead) {
-            // Update existing lead
-            leadId = existingLead.id;
+        if (existingLead) {
+          // Update existing lead
+          leadId = existingLead.id;
+          const changes = upserter ? upserter.changesFor(existingLead, leadRecord, rowObj) : { ...leadRecord };
+          const customFieldValues = mergeCustomFieldValues(existingLead, customCells.values, options.mapping?.upsert?.fieldRules);
+          if (customFieldValues) changes.custom_fields = customFieldValues;
+          if (upserter && Object.keys(changes).length === 0) {
+            await options.importJob?.recordSkipped(leadId);
+          } else {
             const { error: updateError } = await supabase
               .from('leads')
-              .update(leadRecord)
+              .update(upserter ? { ...changes, modified_by: options.userId } : changes)
               .eq('id', leadId);
 
             if (updateError) {
@@ -137,36 +186,17 @@ export class LeadsCSVProcessor {
               continue;
             }
             result.updateCount++;
-            isUpdate = true;
+            await options.importJob?.recordUpdated(leadId, existingLead, changes);
             console.log('Updated existing lead:', leadId);
-          } else {
-            // Insert new lead with provided ID - ensure all required fields are present
-            const leadToInsert = {
-              id: rowObj.id.trim(),
-              lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
-              ...leadRecord
-            };
-
-            const { data: insertedLead, error: insertError } = await supabase
-              .from('leads')
-              .insert([leadToInsert])
-              .select('id')
-              .single();
-
-            if (insertError) {
-              result.errorCount++;
-              result.errors.push(`Insert failed: ${insertError.message}`);
-              continue;
-            }
-            leadId = insertedLead.id;
-            result.successCount++;
-            console.log('Inserted new lead with ID:', leadId);
           }
+          isUpdate = true;
         } else {
-          // Insert new lead without ID (let database generate it) - ensure all required fields are present
+          // Insert new lead, keeping a provided ID - ensure all required fields are present
           const leadToInsert = {
+            ...(rowObj.id && rowObj.id.trim() !== '' ? { id: rowObj.id.trim() } : {}),
             lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
-            ...leadRecord
+            ...leadRecord,
+            custom_fields: customCells.values
           };
 
           const { data: insertedLead, error: insertError } = await supabase
@@ -182,7 +212,8 @@ export class LeadsCSVProcessor {
           }
           leadId = insertedLead.id;
           result.successCount++;
-          console.log('Inserted new lead without ID:', leadId);
+          await options.importJob?.recordCreated(leadId, leadToInsert);
+          console.log('Inserted new lead:', leadId);
         }
 
         // Process action items if any
@@ -212,6 +243,7 @@ export class LeadsCSVProcessor {
     // Map CSV fields to database fields in exact order
     const fieldMapping: Record<string, string> = {
       'lead_name': 'lead_name',
+      'external_id': 'external_id',
       'company_name': 'company_name',
       'position': 'position',
       'email': 'email',
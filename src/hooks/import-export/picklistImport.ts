@@ -0,0 +1,31 @@
+import { fetchPicklistValues } from '@/hooks/usePicklists';
+import { PICKLIST_COLUMNS, PICKLIST_LABELS, PicklistValue } from '@/types/picklist';
+import { getPicklistValues, parsePicklistInput } from '@/utils/picklistUtils';
+
+export interface ImportPicklist {
+  field: string;
+  label: string;
+  values: PicklistValue[];
+}
+
+// Picklist columns of a table; a list without values is still free text, so it isn't checked
+export const getImportPicklists = (tableName: string, values: PicklistValue[]): ImportPicklist[] =>
+  Object.entries(PICKLIST_COLUMNS[tableName] || {})
+    .map(([field, key]) => ({ field, label: PICKLIST_LABELS[key], values: getPicklistValues(values, key) }))
+    .filter(picklist => picklist.values.length > 0);
+
+export const fetchImportPicklists = async (tableName: string) =>
+  getImportPicklists(tableName, await fetchPicklistValues());
+
+// Rewrites the record's picklist cells in the lists' spelling; returns an error for each value not on its list
+export const normalizePicklistCells = (picklists: ImportPicklist[], record: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+  picklists.forEach(picklist => {
+    const cell = record[picklist.field];
+    if (typeof cell !== 'string' || !cell.trim()) return;
+    const { value, error } = parsePicklistInput(picklist.values, picklist.label, cell);
+    if (error) errors.push(error);
+    else record[picklist.field] = value;
+  });
+  return errors;
+};
@@ -10,8 +10,8 @@ export const createRecordValidator = (tableName: string) => {
     if (tableName === 'deals') {
       // Check if we have the basic required fields
       const hasValidDealName = record.deal_name && typeof record.deal_name === 'string' && record.deal_name.trim() !== '';
-      const validStages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-      const hasValidStage = record.stage && validStages.includes(record.stage);
+      // Stage names come from pipeline_stages and are checked by the database on insert
+      const hasValidStage = record.stage && typeof record.stage === 'string' && record.stage.trim() !== '';
       
       console.log(`Import validation - deal_name: "${record.deal_name}", stage: "${record.stage}"`);
       console.log(`Validation results - hasValidDealName: ${hasValidDealName}, hasValidStage: ${hasValidStage}`);
@@ -22,7 +22,7 @@ export const createRecordValidator = (tableName: string) => {
       }
       
       if (!hasValidStage) {
-        console.error(`Invalid deal: invalid stage "${record.stage}". Valid stages: ${validStages.join(', ')}`);
+        console.error('Invalid deal: missing or empty stage');
         return false;
       }
       
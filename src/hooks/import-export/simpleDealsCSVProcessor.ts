@@ -1,7 +1,9 @@
 
 import { DealsCSVProcessor } from './dealsCSVProcessor';
+import { ImportMapping } from './importMapping';
+import { ImportJobRecorder } from './importJobRecorder';
 
-// Exact field order as specified, including action items
+// Exact field order as specified, including action items and line items
 const DEALS_EXPORT_FIELDS = [
   'id', 'deal_name', 'stage', 'probability', 'drop_reason', 'created_by', 'modified_by', 
   'created_at', 'modified_at', 'lead_name', 'lead_owner', 'project_name', 'customer_name', 
@@ -12,12 +14,15 @@ const DEALS_EXPORT_FIELDS = [
   'total_contract_value', 'project_duration', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 
   'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'closing', 
   'signed_contract_date', 'implementation_start_date', 'handoff_status', 
-  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items_json'
+  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items_json',
+  'line_items_json'
 ];
 
 interface DealsProcessOptions {
   userId: string;
   onProgress?: (processed: number, total: number) => void;
+  mapping?: ImportMapping;
+  importJob?: ImportJobRecorder;
 }
 
 // Simplified CSV processor using specialized deals logic
@@ -28,12 +33,14 @@ export class SimpleDealsCSVProcessor {
     this.dealsProcessor = new DealsCSVProcessor();
   }
   
-  async processCSV(csvText: string, options: DealsProcessOptions) {
+  async processCSV(csv: string | Blob, options: DealsProcessOptions) {
     console.log('SimpleDealsCSVProcessor: Starting CSV processing with action items');
     
-    return await this.dealsProcessor.processCSV(csvText, {
+    return await this.dealsProcessor.processCSV(csv, {
       userId: options.userId,
-      onProgress: options.onProgress
+      onProgress: options.onProgress,
+      mapping: options.mapping,
+      importJob: options.importJob
     });
   }
 }
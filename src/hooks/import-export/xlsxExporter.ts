@@ -0,0 +1,57 @@
+import { XlsxCellValue, XlsxSheet, buildXlsxWorkbook } from '@/utils/xlsxWorkbook';
+import { DateFormatUtils } from '@/utils/dateFormatUtils';
+import { UserNameUtils } from '@/utils/userNameUtils';
+import { isImportNumberField } from './importMapping';
+
+const DATE_ONLY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const NUMBER_REGEX = /^-?\d+(\.\d+)?$/;
+
+// Export headers are field names or their title-cased labels ("Start Time")
+const toFieldName = (header: string) => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_');
+
+const isDateField = (name: string) =>
+  DateFormatUtils.getFieldType(name) !== 'other' || UserNameUtils.isDateTimeField(name) || /_(date|time|at)$/.test(name);
+
+// Values that don't parse as their column's type stay text rather than becoming a wrong number or date
+const toCell = (field: string, value: string): XlsxCellValue => {
+  const text = value ?? '';
+  if (text.trim() === '') return null;
+
+  if (isImportNumberField(field) && NUMBER_REGEX.test(text.trim())) return Number(text.trim());
+
+  if (isDateField(field)) {
+    const dateOnly = text.trim().match(DATE_ONLY_REGEX);
+    if (dateOnly) return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    const date = new Date(text);
+    if (!isNaN(date.getTime()) && /\d{4}/.test(text)) return date;
+  }
+
+  return text;
+};
+
+/**
+ * Writes the rows the CSV exporters produce to an Excel workbook, one sheet per module. Columns
+ * are typed from their field names, so numbers and dates become real cells while IDs, phone
+ * numbers and names stay text exactly as exported.
+ */
+export class XlsxExporter {
+  static toSheet(name: string, headers: string[], rows: string[][]): XlsxSheet {
+    const fields = headers.map(toFieldName);
+    return {
+      name,
+      rows: [headers, ...rows.map(row => fields.map((field, i) => toCell(field, row[i])))],
+    };
+  }
+
+  static async download(sheets: XlsxSheet[], filename: string) {
+    const blob = await buildXlsxWorkbook(sheets);
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  }
+}
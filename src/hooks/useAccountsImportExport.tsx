@@ -2,39 +2,29 @@ import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
-
-const validStatuses = ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'];
-const validTags = [
-  'AUTOSAR', 'Adaptive AUTOSAR', 'Embedded Systems', 'BSW', 'ECU', 'Zone Controller',
-  'HCP', 'CI/CD', 'V&V Testing', 'Integration', 'Software Architecture', 'LINUX',
-  'QNX', 'Cybersecurity', 'FuSa', 'OTA', 'Diagnostics', 'Vehicle Network',
-  'Vehicle Architecture', 'Connected Car', 'Platform', 'µC/HW'
-];
+import { getColumnConfig } from '@/hooks/import-export/columnConfig';
+import { applyImportMapping, ImportMapping } from '@/hooks/import-export/importMapping';
+import { ImportJobRecorder } from '@/hooks/import-export/importJobRecorder';
+import { ImportUpserter } from '@/hooks/import-export/importUpserter';
+import {
+  customFieldExportCells,
+  customFieldExportHeaders,
+  fetchImportCustomFields,
+  getMissingCustomFields,
+  mergeCustomFieldValues,
+  readCustomFieldCells,
+} from '@/hooks/import-export/customFieldImport';
+import { fetchImportPicklists, normalizePicklistCells } from '@/hooks/import-export/picklistImport';
+import { CSVParser } from '@/utils/csvParser';
+import { ExportFormat } from '@/utils/exportUtils';
+import { XlsxExporter } from '@/hooks/import-export/xlsxExporter';
+
+const { tags: validTags } = getColumnConfig('accounts').enums;
 
 export const useAccountsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    result.push(current.trim());
-    return result;
-  };
-
   const fetchUserDisplayNames = async (userIds: string[]): Promise<Record<string, string>> => {
     const uniqueIds = [...new Set(userIds.filter(id => id))];
     if (uniqueIds.length === 0) return {};
@@ -70,7 +60,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
     return idMap;
   };
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, mapping?: ImportMapping) => {
     setIsImporting(true);
 
     try {
@@ -79,19 +69,20 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
+      const parsed = await CSVParser.parse(file);
+      const { headers: fileHeaders, rows } = mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, mapping)
+        : parsed;
+
+      if (rows.length === 0) {
         throw new Error('CSV file must have headers and at least one data row');
       }
 
-      const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/[^a-z0-9_]/g, '_'));
+      const headers = fileHeaders.map(h => h.toLowerCase().replace(/[^a-z0-9_]/g, '_'));
       
       // Collect all user names from the CSV to fetch their IDs
       const userNames: string[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      for (const values of rows) {
         headers.forEach((header, idx) => {
           if ((header === 'account_owner' || header === 'created_by' || header === 'modified_by') && values[idx]) {
             userNames.push(values[idx]);
@@ -101,12 +92,15 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
 
       // Fetch user IDs by names
       const userIdMap = await fetchUserIdsByNames(userNames);
+      const customFields = await fetchImportCustomFields('accounts');
+      const picklists = await fetchImportPicklists('accounts');
       
+      const upserter = ImportUpserter.fromMapping('accounts', mapping);
       const records: any[] = [];
       const errors: string[] = [];
 
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      for (let i = 0; i < rows.length; i++) {
+        const values = rows[i];
         const record: any = {};
         
         headers.forEach((header, idx) => {
@@ -115,17 +109,22 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
 
         // Map common header variations
         const companyName = record.company_name || record.name || record.company;
-        if (!companyName) {
-          errors.push(`Row ${i + 1}: Missing company_name`);
+        // An upsert can update an account found by another key without a company name
+        if (!companyName && !upserter) {
+          errors.push(`Row ${i + 2}: Missing company_name`);
           continue;
         }
 
-        // Validate status
-        let status = record.status || 'New';
-        if (!validStatuses.includes(status)) {
-          status = 'New';
+        // Custom columns keep their file headers, which the normalization above would mangle
+        const customCells = readCustomFieldCells(customFields, fileHeaders, values);
+        const picklistErrors = normalizePicklistCells(picklists, record);
+        if (customCells.errors.length > 0 || picklistErrors.length > 0) {
+          errors.push(`Row ${i + 2}: ${[...picklistErrors, ...customCells.errors].join('; ')}`);
+          continue;
         }
 
+        const status = record.status || 'New';
+
         // Parse tags
         let tags: string[] = [];
         if (record.tags) {
@@ -149,7 +148,12 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         };
 
         records.push({
+          rowNumber: i + 2,
+          source: record,
+          customValues: customCells.values,
           id: existingId,
+          // Files without the column keep the accounts' external IDs
+          ...(record.external_id ? { external_id: record.external_id } : {}),
           company_name: companyName,
           email: record.email || null,
           region: record.region || null,
@@ -172,53 +176,120 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       }
 
       // Upsert by id or company_name
-      let successCount = 0;
-      let updateCount = 0;
+      const { successCount, updateCount } = await ImportJobRecorder.run('accounts', file.name, mapping, async importJob => {
+        let successCount = 0;
+        let updateCount = 0;
+
+        for (const record of records) {
+          const { rowNumber, source, customValues, id, ...recordWithoutId } = record;
+          const withCustomFields = (existing: { custom_fields?: unknown }) => {
+            const customFieldValues = mergeCustomFieldValues(existing, customValues);
+            return customFieldValues ? { ...recordWithoutId, custom_fields: customFieldValues } : recordWithoutId;
+          };
+
+          if (upserter) {
+            const match = await upserter.match(source);
+            if (match.error) {
+              errors.push(`Row ${rowNumber}: ${match.error}`);
+              continue;
+            }
 
-      for (const record of records) {
-        const { id, ...recordWithoutId } = record;
+            if (match.record) {
+              const matchedId = match.record.id as string;
+              const changes = upserter.changesFor(match.record, recordWithoutId, source);
+              const customFieldValues = mergeCustomFieldValues(match.record, customValues, mapping?.upsert?.fieldRules);
+              if (customFieldValues) changes.custom_fields = customFieldValues;
+              if (Object.keys(changes).length === 0) {
+                await importJob.recordSkipped(matchedId);
+                continue;
+              }
+
+              const { error } = await supabase
+                .from('accounts')
+                .update({ ...changes, modified_by: user.id, updated_at: new Date().toISOString() })
+                .eq('id', matchedId);
+
+              if (error) {
+                errors.push(`Row ${rowNumber}: Update failed - ${error.message}`);
+              } else {
+                updateCount++;
+                await importJob.recordUpdated(matchedId, match.record, changes);
+              }
+              continue;
+            }
 
-        // If id is provided, try to update by id first
-        if (id) {
-          const { data: existingById } = await supabase
-            .from('accounts')
-            .select('id')
-            .eq('id', id)
-            .maybeSingle();
+            if (!recordWithoutId.company_name) {
+              errors.push(`Row ${rowNumber}: Missing company_name`);
+              continue;
+            }
+          }
+
+          // If id is provided, try to update by id first; an upsert that matched nothing inserts
+          if (id && !upserter) {
+            const { data: existingById } = await supabase
+              .from('accounts')
+              .select('*')
+              .eq('id', id)
+              .maybeSingle();
+
+            if (existingById) {
+              const updates = withCustomFields(existingById);
+              const { error } = await supabase
+                .from('accounts')
+                .update({ ...updates, updated_at: new Date().toISOString() })
+                .eq('id', id);
+
+              if (!error) {
+                updateCount++;
+                await importJob.recordUpdated(id, existingById, updates);
+              }
+              continue;
+            }
+          }
+
+          // Otherwise, check by company_name
+          const { data: existing } = upserter
+            ? { data: null }
+            : await supabase
+              .from('accounts')
+              .select('*')
+              .eq('company_name', record.company_name)
+              .maybeSingle();
 
-          if (existingById) {
+          if (existing) {
+            const updates = withCustomFields(existing);
             const { error } = await supabase
               .from('accounts')
-              .update({ ...recordWithoutId, updated_at: new Date().toISOString() })
-              .eq('id', id);
-            
-            if (!error) updateCount++;
-            continue;
+              .update({ ...updates, updated_at: new Date().toISOString() })
+              .eq('id', existing.id);
+
+            if (!error) {
+              updateCount++;
+              await importJob.recordUpdated(existing.id, existing, updates);
+            }
+          } else {
+            const missingCustomFields = getMissingCustomFields(customFields, customValues);
+            if (missingCustomFields.length > 0) {
+              errors.push(`Row ${rowNumber}: Missing required fields: ${missingCustomFields.join(', ')}`);
+              continue;
+            }
+
+            const accountData = { ...recordWithoutId, custom_fields: customValues };
+            const { data: inserted, error } = await supabase
+              .from('accounts')
+              .insert(accountData)
+              .select('id')
+              .single();
+
+            if (!error) {
+              successCount++;
+              await importJob.recordCreated(inserted.id, accountData);
+            }
           }
         }
 
-        // Otherwise, check by company_name
-        const { data: existing } = await supabase
-          .from('accounts')
-          .select('id')
-          .eq('company_name', record.company_name)
-          .maybeSingle();
-
-        if (existing) {
-          const { error } = await supabase
-            .from('accounts')
-            .update({ ...recordWithoutId, updated_at: new Date().toISOString() })
-            .eq('id', existing.id);
-          
-          if (!error) updateCount++;
-        } else {
-          const { error } = await supabase
-            .from('accounts')
-            .insert(recordWithoutId);
-          
-          if (!error) successCount++;
-        }
-      }
+        return { successCount, updateCount, errors };
+      });
 
       toast({
         title: "Import Successful",
@@ -237,7 +308,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (exportFormat: ExportFormat = 'csv') => {
     try {
       const { data, error } = await supabase
         .from('accounts')
@@ -263,14 +334,15 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       });
 
       const userNameMap = await fetchUserDisplayNames(userIds);
+      const customFields = await fetchImportCustomFields('accounts');
 
       const headers = [
-        'id', 'company_name', 'email', 'company_type', 'industry', 'tags', 'country', 
+        'id', 'external_id', 'company_name', 'email', 'company_type', 'industry', 'tags', 'country', 
         'status', 'website', 'region', 'notes', 'phone',
         'account_owner', 'created_by', 'modified_by', 'created_at', 'updated_at'
       ];
 
-      const csvLines = [headers.join(',')];
+      const rows: string[][] = [];
 
       for (const account of data) {
         const row = headers.map(header => {
@@ -296,21 +368,31 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
             value = value.join(';');
           }
           if (value === null || value === undefined) return '';
-          const strValue = String(value);
-          if (strValue.includes(',') || strValue.includes('"') || strValue.includes('\n')) {
-            return `"${strValue.replace(/"/g, '""')}"`;
-          }
-          return strValue;
+          return String(value);
         });
-        csvLines.push(row.join(','));
+        rows.push([...row, ...customFieldExportCells(customFields, account)]);
+      }
+      const exportHeaders = [...headers, ...customFieldExportHeaders(customFields)];
+
+      const filename = `accounts_export_${new Date().toISOString().split('T')[0]}.${exportFormat}`;
+
+      if (exportFormat === 'xlsx') {
+        await XlsxExporter.download([XlsxExporter.toSheet('Accounts', exportHeaders, rows)], filename);
+        toast({
+          title: "Export Successful",
+          description: `Exported ${data.length} accounts to Excel.`,
+        });
+        return;
       }
 
-      const csvContent = csvLines.join('\n');
+      const csvContent = [exportHeaders, ...rows]
+        .map(row => row.map(value => CSVParser.escapeCSVField(value)).join(','))
+        .join('\n');
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.setAttribute('href', url);
-      a.setAttribute('download', `accounts_export_${new Date().toISOString().split('T')[0]}.csv`);
+      a.setAttribute('download', filename);
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
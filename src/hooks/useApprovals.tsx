@@ -0,0 +1,150 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { toast } from '@/hooks/use-toast';
+import { ApprovalAction, ApprovalActionType, ApprovalRequest, ApprovalStep } from '@/types/approval';
+
+export const APPROVAL_REQUESTS_QUERY_KEY = ['approval-requests'];
+
+interface ActOnRequestInput {
+  requestId: string;
+  action: ApprovalActionType;
+  comments?: string;
+}
+
+export const useApprovals = () => {
+  const { user } = useAuth();
+  const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
+
+  const { data: requests = [], isLoading, refetch } = useQuery({
+    queryKey: APPROVAL_REQUESTS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_requests')
+        .select('*, approval_workflows:workflow_id (name, approval_steps)')
+        .order('submitted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching approval requests:', error);
+        return [];
+      }
+
+      return (data || []).map(({ approval_workflows, ...request }) => ({
+        ...request,
+        workflow_name: approval_workflows?.name,
+        approval_steps: (approval_workflows?.approval_steps as unknown as ApprovalStep[]) || [],
+      })) as ApprovalRequest[];
+    },
+    enabled: !!user,
+  });
+
+  // Mirrors can_act_on_approval_step so the inbox only offers actions the server will accept
+  const canActOnRequest = useCallback((request: ApprovalRequest) => {
+    if (!user || request.status !== 'pending') return false;
+    const isAdmin = userRole === 'admin';
+    if (request.submitted_by === user.id && !isAdmin) return false;
+
+    const step = request.approval_steps?.find(s => s.step === request.current_step);
+    if (!step) return isAdmin;
+    if (step.user_id) return step.user_id === user.id || isAdmin;
+    if (step.role === 'manager') return userRole === 'manager' || isAdmin;
+    return isAdmin;
+  }, [user, userRole]);
+
+  const fetchActions = useCallback(async (requestId: string) => {
+    const { data, error } = await supabase
+      .from('approval_actions')
+      .select('*')
+      .eq('request_id', requestId)
+      .order('acted_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching approval actions:', error);
+      return [];
+    }
+
+    return data as ApprovalAction[];
+  }, []);
+
+  const actMutation = useMutation({
+    mutationFn: async ({ requestId, action, comments }: ActOnRequestInput) => {
+      const { data, error } = await supabase.rpc('act_on_approval_request', {
+        p_request_id: requestId,
+        p_action: action,
+        p_comments: comments || null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (status, { action }) => {
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
+      const description = action === 'commented'
+        ? 'Comment added'
+        : status === 'pending'
+          ? 'Approved; the request moved to the next step'
+          : `Request ${status}`;
+      toast({ title: 'Success', description });
+    },
+    onError: (error: Error) => {
+      console.error('Error acting on approval request:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to update approval request',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Submitters withdraw their own pending requests; admins can withdraw any
+  const canCancelRequest = useCallback((request: ApprovalRequest) => {
+    if (!user || request.status !== 'pending') return false;
+    return request.submitted_by === user.id || userRole === 'admin';
+  }, [user, userRole]);
+
+  // The submitter, the current step's approvers and admins, as act_on_approval_request allows
+  const canCommentOnRequest = useCallback(
+    (request: ApprovalRequest) => canCancelRequest(request) || canActOnRequest(request),
+    [canCancelRequest, canActOnRequest]
+  );
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ requestId, comments }: { requestId: string; comments?: string }) => {
+      const { data, error } = await supabase.rpc('cancel_approval_request', {
+        p_request_id: requestId,
+        p_comments: comments || null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: APPROVAL_REQUESTS_QUERY_KEY });
+      toast({ title: 'Success', description: 'Request cancelled' });
+    },
+    onError: (error: Error) => {
+      console.error('Error cancelling approval request:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to cancel approval request',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    requests,
+    loading: isLoading,
+    refetch,
+    canActOnRequest,
+    fetchActions,
+    actOnRequest: actMutation.mutateAsync,
+    canCancelRequest,
+    canCommentOnRequest,
+    cancelRequest: cancelMutation.mutateAsync,
+    acting: actMutation.isPending || cancelMutation.isPending,
+  };
+};
@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CustomField, CustomFieldEntity, CustomFieldType } from '@/types/customField';
+
+export const CUSTOM_FIELDS_QUERY_KEY = ['crm-custom-fields'];
+
+export const fetchCustomFields = async (): Promise<CustomField[]> => {
+  const { data, error } = await supabase
+    .from('crm_custom_fields')
+    .select('id, entity_type, field_name, field_label, field_type, field_options, is_required, is_visible, display_order')
+    .order('display_order')
+    .order('field_label');
+
+  if (error) throw error;
+
+  return (data || []).map(field => ({
+    id: field.id,
+    entity_type: field.entity_type as CustomFieldEntity,
+    field_name: field.field_name,
+    field_label: field.field_label,
+    field_type: field.field_type as CustomFieldType,
+    field_options: Array.isArray(field.field_options) ? field.field_options.map(String) : null,
+    is_required: !!field.is_required,
+    is_visible: field.is_visible !== false,
+    display_order: field.display_order ?? 0,
+  }));
+};
+
+// `fields` are the ones shown in forms, tables and filters; `allFields` also holds hidden ones
+export const useCustomFields = (entity: CustomFieldEntity) => {
+  const { data, isLoading } = useQuery({
+    queryKey: CUSTOM_FIELDS_QUERY_KEY,
+    queryFn: fetchCustomFields,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const allFields = useMemo(() => (data || []).filter(field => field.entity_type === entity), [data, entity]);
+  const fields = useMemo(() => allFields.filter(field => field.is_visible), [allFields]);
+
+  return { fields, allFields, isLoading };
+};
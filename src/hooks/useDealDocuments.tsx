@@ -0,0 +1,163 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { DealLineItem } from '@/types/product';
+import { buildQuotePdf, getQuoteFileName } from '@/utils/quotePdf';
+
+export const DEAL_DOCUMENTS_QUERY_KEY = ['deal-documents'];
+export const DEAL_DOCUMENTS_BUCKET = 'deal-documents';
+
+export interface DealDocument {
+  id: string;
+  deal_id: string;
+  document_type: string;
+  document_number: string;
+  version: number;
+  file_path: string | null;
+  file_name: string | null;
+  file_size: number | null;
+  total_amount: number | null;
+  currency: string | null;
+  status: 'draft' | 'sent';
+  sent_at: string | null;
+  sent_to: string | null;
+  created_at: string;
+}
+
+export const fetchDealDocuments = async (dealId: string) => {
+  const { data, error } = await supabase
+    .from('deal_documents')
+    .select('*')
+    .eq('deal_id', dealId)
+    .not('file_path', 'is', null)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as DealDocument[];
+};
+
+export const downloadDealDocument = async (document: DealDocument) => {
+  const { data, error } = await supabase.storage.from(DEAL_DOCUMENTS_BUCKET).download(document.file_path);
+  if (error) throw error;
+  return new File([data], document.file_name || `${document.document_number}.pdf`, { type: 'application/pdf' });
+};
+
+// Records that the documents went out; the database then marks the RFQ as submitted
+export const markDealDocumentsSent = async (documentIds: string[], recipient: string) => {
+  if (documentIds.length === 0) return;
+  const { error } = await supabase
+    .from('deal_documents')
+    .update({ status: 'sent', sent_at: new Date().toISOString(), sent_to: recipient })
+    .in('id', documentIds);
+  if (error) throw error;
+};
+
+export const useDealDocuments = (dealId?: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: [...DEAL_DOCUMENTS_QUERY_KEY, dealId],
+    enabled: !!dealId,
+    queryFn: () => fetchDealDocuments(dealId),
+  });
+
+  // Builds the next quote version from the saved deal and stores the PDF against it
+  const generateQuote = useMutation({
+    mutationFn: async () => {
+      const { data: deal, error: dealError } = await supabase
+        .from('deals')
+        .select('deal_name, project_name, currency_type, start_date, end_date, project_duration, total_contract_value, account_id, contact_id')
+        .eq('id', dealId)
+        .single();
+      if (dealError) throw dealError;
+
+      const [accountResult, contactResult, lineItemsResult, brandingResult] = await Promise.all([
+        deal.account_id
+          ? supabase.from('accounts').select('company_name, country, website, phone').eq('id', deal.account_id).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        deal.contact_id
+          ? supabase.from('contacts').select('contact_name, position, email, phone_no').eq('id', deal.contact_id).maybeSingle()
+          : Promise.resolve({ data: null, error: null }),
+        supabase
+          .from('deal_line_items')
+          .select('product_id, product_name, sku, description, quantity, unit_price, discount_percent, term_months, start_date, sort_order')
+          .eq('deal_id', dealId)
+          .order('sort_order'),
+        supabase.from('branding_settings').select('app_name, logo_url, primary_color, accent_color').limit(1).maybeSingle(),
+      ]);
+      if (lineItemsResult.error) throw lineItemsResult.error;
+
+      const currency = deal.currency_type || 'EUR';
+      const lineItems = (lineItemsResult.data || []) as DealLineItem[];
+
+      const { data: document, error: insertError } = await supabase
+        .from('deal_documents')
+        .insert({
+          deal_id: dealId,
+          document_type: 'quote',
+          total_amount: deal.total_contract_value,
+          currency,
+          created_by: user?.id,
+        })
+        .select('id, document_number, version')
+        .single();
+      if (insertError) throw insertError;
+
+      try {
+        const branding = brandingResult.data;
+        const pdf = await buildQuotePdf({
+          documentNumber: document.document_number,
+          version: document.version,
+          issuedAt: new Date(),
+          preparedBy: user?.user_metadata?.full_name || user?.email || null,
+          branding: {
+            appName: branding?.app_name || 'CRM',
+            logoUrl: branding?.logo_url || null,
+            primaryColor: branding?.primary_color || '#1e40af',
+            accentColor: branding?.accent_color || branding?.primary_color || '#1e40af',
+          },
+          deal: {
+            projectName: deal.project_name || deal.deal_name,
+            currency,
+            startDate: deal.start_date,
+            endDate: deal.end_date,
+            projectDuration: deal.project_duration,
+            totalContractValue: deal.total_contract_value,
+          },
+          account: accountResult.data,
+          contact: contactResult.data,
+          lineItems,
+        });
+
+        const fileName = getQuoteFileName(document.document_number, document.version);
+        const filePath = `${dealId}/${fileName}`;
+        const { error: uploadError } = await supabase.storage
+          .from(DEAL_DOCUMENTS_BUCKET)
+          .upload(filePath, new Blob([pdf], { type: 'application/pdf' }), { contentType: 'application/pdf' });
+        if (uploadError) throw uploadError;
+
+        const { error: updateError } = await supabase
+          .from('deal_documents')
+          .update({ file_path: filePath, file_name: fileName, file_size: pdf.length })
+          .eq('id', document.id);
+        if (updateError) throw updateError;
+
+        return fileName;
+      } catch (error) {
+        // Don't leave a numbered version behind without its file
+        await supabase.from('deal_documents').delete().eq('id', document.id);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...DEAL_DOCUMENTS_QUERY_KEY, dealId] });
+    },
+  });
+
+  return {
+    documents,
+    isLoading,
+    generateQuote,
+  };
+};
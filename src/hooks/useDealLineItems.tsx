@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { DealLineItem } from '@/types/product';
+
+export const DEAL_LINE_ITEMS_QUERY_KEY = ['deal-line-items'];
+
+// Deal columns the line item triggers keep in sync
+export interface DealLineItemTotals {
+  total_contract_value: number | null;
+  quarterly_revenue_q1: number | null;
+  quarterly_revenue_q2: number | null;
+  quarterly_revenue_q3: number | null;
+  quarterly_revenue_q4: number | null;
+}
+
+export const useDealLineItems = (dealId?: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: lineItems = [], isLoading } = useQuery({
+    queryKey: [...DEAL_LINE_ITEMS_QUERY_KEY, dealId],
+    enabled: !!dealId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('deal_line_items')
+        .select('id, deal_id, product_id, product_name, sku, description, quantity, unit_price, discount_percent, term_months, start_date, line_total, sort_order')
+        .eq('deal_id', dealId)
+        .order('sort_order');
+
+      if (error) throw error;
+      return (data || []) as DealLineItem[];
+    },
+  });
+
+  // Replaces the deal's lines and returns the totals the database derived from them
+  const saveLineItems = useMutation({
+    mutationFn: async (items: DealLineItem[]): Promise<DealLineItemTotals> => {
+      const keptIds = items.filter(item => item.id).map(item => item.id);
+      const removed = lineItems.filter(item => !keptIds.includes(item.id));
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('deal_line_items')
+          .delete()
+          .in('id', removed.map(item => item.id));
+        if (error) throw error;
+      }
+
+      if (items.length > 0) {
+        const rows = items.map((item, index) => ({
+          id: item.id,
+          deal_id: dealId,
+          product_id: item.product_id,
+          product_name: item.product_name,
+          sku: item.sku,
+          description: item.description,
+          quantity: Number(item.quantity) || 1,
+          unit_price: Number(item.unit_price) || 0,
+          discount_percent: Number(item.discount_percent) || 0,
+          term_months: item.term_months ? Number(item.term_months) : null,
+          start_date: item.start_date || null,
+          sort_order: index,
+        }));
+
+        // Existing lines keep their ids; new ones get theirs from the database
+        const existing = rows.filter(row => row.id);
+        const added = rows.filter(row => !row.id).map(({ id, ...row }) => ({ ...row, created_by: user?.id }));
+        if (existing.length > 0) {
+          const { error } = await supabase.from('deal_line_items').upsert(existing);
+          if (error) throw error;
+        }
+        if (added.length > 0) {
+          const { error } = await supabase.from('deal_line_items').insert(added);
+          if (error) throw error;
+        }
+      }
+
+      const { data, error } = await supabase
+        .from('deals')
+        .select('total_contract_value, quarterly_revenue_q1, quarterly_revenue_q2, quarterly_revenue_q3, quarterly_revenue_q4')
+        .eq('id', dealId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...DEAL_LINE_ITEMS_QUERY_KEY, dealId] });
+    },
+  });
+
+  return {
+    lineItems,
+    isLoading,
+    saveLineItems,
+  };
+};
@@ -0,0 +1,195 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { getDealConversionDate } from "@/utils/currencyUtils";
+import { fetchAllMatchingRows } from "@/utils/serverQueryUtils";
+import { PipelineStage } from "@/types/deal";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StageHistoryRow {
+  deal_id: string;
+  from_stage: string | null;
+  to_stage: string;
+  changed_at: string;
+}
+
+export interface StageVelocity {
+  stage: string;
+  avgDaysInStage: number;
+  transitions: number;
+  currentDeals: number;
+  currentAvgAgeDays: number;
+  conversionToNext: number | null;
+}
+
+export interface FunnelStep {
+  stage: string;
+  deals: number;
+  value: number;
+}
+
+export interface DealVelocityData {
+  cohortSize: number;
+  wonDeals: number;
+  lostDeals: number;
+  winRate: number;
+  avgCycleDays: number;
+  stages: StageVelocity[];
+  funnel: FunnelStep[];
+  slowestStage: StageVelocity | null;
+  missingRateDeals: number;
+}
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+/**
+ * Velocity for deals created in the given year, derived from deal_stage_history.
+ * Funnel steps are the open stages in pipeline order followed by the first won
+ * stage; a deal "reached" a step if it visited that stage or any later non-lost
+ * stage, and reached the won step if it visited any won stage.
+ */
+export const useDealVelocity = (selectedYear: number) => {
+  const { allStages, stages, wonStageNames, lostStageNames } = usePipelineStages();
+  const { rates, displayCurrency, convert, isLoading: ratesLoading } = useExchangeRates();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['deal-velocity', selectedYear, allStages, displayCurrency, rates],
+    enabled: !ratesLoading,
+    queryFn: async (): Promise<DealVelocityData> => {
+      const yearStart = new Date(selectedYear, 0, 1).toISOString();
+      const yearEnd = new Date(selectedYear + 1, 0, 1).toISOString();
+
+      const deals = await fetchAllMatchingRows((from, to) =>
+        supabase
+          .from('deals')
+          .select('id, stage, created_at, total_contract_value, currency_type, expected_closing_date, signed_contract_date')
+          .gte('created_at', yearStart)
+          .lt('created_at', yearEnd)
+          .order('id')
+          .range(from, to)
+      );
+
+      const dealIds = deals.map(d => d.id);
+      const history: StageHistoryRow[] = [];
+      // Chunked to keep the id list inside URL limits, and paged within each chunk
+      for (let i = 0; i < dealIds.length; i += 200) {
+        const chunk = dealIds.slice(i, i + 200);
+        history.push(...await fetchAllMatchingRows((from, to) =>
+          supabase
+            .from('deal_stage_history')
+            .select('deal_id, from_stage, to_stage, changed_at')
+            .in('deal_id', chunk)
+            .order('changed_at')
+            .order('id')
+            .range(from, to)
+        ));
+      }
+
+      const historyByDeal = new Map<string, StageHistoryRow[]>();
+      history.forEach(row => {
+        const rows = historyByDeal.get(row.deal_id) || [];
+        rows.push(row);
+        historyByDeal.set(row.deal_id, rows);
+      });
+
+      const stageOrder = new Map<string, number>(allStages.map((s: PipelineStage) => [s.stage_name, s.stage_order]));
+      const openStages = stages.filter(s => !s.is_won_stage && !s.is_lost_stage);
+      const wonOrder = Math.min(...allStages.filter(s => s.is_won_stage).map(s => s.stage_order), Number.MAX_SAFE_INTEGER);
+      const now = Date.now();
+
+      const stintDays: Record<string, number[]> = {};
+      const currentAges: Record<string, number[]> = {};
+      const cycleDays: number[] = [];
+      let missingRateDeals = 0;
+      const reached: Record<string, { deals: number; value: number }> = {};
+      const wonStep = allStages.find(s => s.is_won_stage)?.stage_name;
+      const funnelNames = [...openStages.map(s => s.stage_name), ...(wonStep ? [wonStep] : [])];
+      funnelNames.forEach(name => { reached[name] = { deals: 0, value: 0 }; });
+
+      deals.forEach(deal => {
+        const rows = historyByDeal.get(deal.id) || [];
+        const timeline = rows.length > 0
+          ? rows
+          : [{ deal_id: deal.id, from_stage: null, to_stage: deal.stage, changed_at: deal.created_at || new Date().toISOString() }];
+        const isWon = wonStageNames.includes(deal.stage);
+
+        // Time spent in each stint; the last stint of an open deal is still running
+        timeline.forEach((row, index) => {
+          if (wonStageNames.includes(row.to_stage) || lostStageNames.includes(row.to_stage)) return;
+          const start = new Date(row.changed_at).getTime();
+          const next = timeline[index + 1];
+          const end = next ? new Date(next.changed_at).getTime() : now;
+          const days = Math.max(0, (end - start) / DAY_MS);
+          const bucket = next ? stintDays : currentAges;
+          bucket[row.to_stage] = [...(bucket[row.to_stage] || []), days];
+        });
+
+        const firstWon = timeline.find(row => wonStageNames.includes(row.to_stage));
+        if (isWon && firstWon) {
+          const start = new Date(timeline[0].changed_at).getTime();
+          cycleDays.push(Math.max(0, (new Date(firstWon.changed_at).getTime() - start) / DAY_MS));
+        }
+
+        const furthest = Math.max(
+          ...timeline
+            .filter(row => !lostStageNames.includes(row.to_stage))
+            .map(row => wonStageNames.includes(row.to_stage) ? wonOrder : stageOrder.get(row.to_stage) ?? -1),
+          -1
+        );
+        // Still counted as a deal, but its value is left out without an exchange rate
+        const converted = convert(deal.total_contract_value, deal.currency_type, getDealConversionDate(deal, isWon));
+        if (converted === null) missingRateDeals++;
+        const value = converted ?? 0;
+        openStages.forEach(stage => {
+          if (furthest >= stage.stage_order) {
+            reached[stage.stage_name].deals += 1;
+            reached[stage.stage_name].value += value;
+          }
+        });
+        if (firstWon && wonStep) {
+          reached[wonStep].deals += 1;
+          reached[wonStep].value += value;
+        }
+      });
+
+      const funnel: FunnelStep[] = funnelNames.map(name => ({ stage: name, ...reached[name] }));
+
+      const stageVelocity: StageVelocity[] = openStages.map((stage, index) => {
+        const completed = stintDays[stage.stage_name] || [];
+        const current = currentAges[stage.stage_name] || [];
+        const here = funnel[index].deals;
+        const next = funnel[index + 1]?.deals ?? 0;
+        return {
+          stage: stage.stage_name,
+          avgDaysInStage: average([...completed, ...current]),
+          transitions: completed.length,
+          currentDeals: current.length,
+          currentAvgAgeDays: average(current),
+          conversionToNext: here > 0 ? (next / here) * 100 : null,
+        };
+      });
+
+      const wonDeals = deals.filter(d => wonStageNames.includes(d.stage)).length;
+      const lostDeals = deals.filter(d => lostStageNames.includes(d.stage)).length;
+      const slowestStage = stageVelocity
+        .filter(s => s.avgDaysInStage > 0)
+        .sort((a, b) => b.avgDaysInStage - a.avgDaysInStage)[0] || null;
+
+      return {
+        cohortSize: deals.length,
+        wonDeals,
+        lostDeals,
+        winRate: wonDeals + lostDeals > 0 ? (wonDeals / (wonDeals + lostDeals)) * 100 : 0,
+        avgCycleDays: average(cycleDays),
+        stages: stageVelocity,
+        funnel,
+        slowestStage,
+        missingRateDeals,
+      };
+    },
+  });
+
+  return { velocity: data, isLoading: isLoading || ratesLoading, error };
+};
@@ -1,11 +1,14 @@
 
 import { useAuth } from '@/hooks/useAuth';
-import { getExportFilename } from '@/utils/exportUtils';
+import { ExportFormat, getExportFilename } from '@/utils/exportUtils';
 import { SimpleDealsCSVProcessor } from './import-export/simpleDealsCSVProcessor';
 import { DealsCSVExporter } from './import-export/dealsCSVExporter';
 import { toast } from '@/hooks/use-toast';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
 import { supabase } from '@/integrations/supabase/client';
+import { ImportMapping } from './import-export/importMapping';
+import { ImportJobRecorder } from './import-export/importJobRecorder';
+import { fetchAllMatchingRows } from '@/utils/serverQueryUtils';
 
 interface DealsImportExportOptions {
   onRefresh: () => void;
@@ -15,7 +18,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
   const { user } = useAuth();
   const { logSecurityEvent } = useSecurityAudit();
   
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, mapping?: ImportMapping) => {
     console.log('useDealsImportExport: Starting import process with standardized YYYY-MM-DD date format');
 
     if (!user?.id) {
@@ -70,30 +73,24 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
         description: `Processing ${file.name} with YYYY-MM-DD date format validation...`,
       });
 
-      const text = await file.text();
-      console.log('useDealsImportExport: File content loaded, length:', text.length);
-      
-      if (!text || text.trim().length === 0) {
+      // The processor streams the file and checks it has a header and data rows
+      if (file.size === 0) {
         throw new Error('CSV file is empty or could not be read');
       }
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
-      }
-
-      console.log('useDealsImportExport: CSV has', lines.length, 'lines (including header)');
-
       const processor = new SimpleDealsCSVProcessor();
       console.log('useDealsImportExport: Starting processing with YYYY-MM-DD date format validation');
       
-      const result = await processor.processCSV(text, {
-        userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`useDealsImportExport: Progress ${processed}/${total}`);
-        }
-      });
+      const result = await ImportJobRecorder.run('deals', file.name, mapping, importJob =>
+        processor.processCSV(file, {
+          userId: user.id,
+          mapping,
+          importJob,
+          onProgress: (processed, total) => {
+            console.log(`useDealsImportExport: Progress ${processed}/${total}`);
+          }
+        })
+      );
 
       console.log('useDealsImportExport: Processing complete:', result);
 
@@ -182,13 +179,25 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     }
   };
 
-  const handleExportAll = async (data: any[]) => {
+  const exportDeals = async (deals: { id: string }[], filename: string, exportFormat: ExportFormat) => {
+    const exporter = new DealsCSVExporter();
+    if (exportFormat === 'xlsx') {
+      await exporter.exportToXlsx(deals, filename);
+    } else {
+      await exporter.exportToCSV(deals, filename);
+    }
+  };
+
+  const handleExportAll = async (data: any[] | undefined, exportFormat: ExportFormat = 'csv') => {
+    if (!data) {
+      data = await fetchAllMatchingRows((from, to) => supabase.from('deals').select('*').order('modified_at', { ascending: false }).order('id').range(from, to));
+    }
     console.log(`useDealsImportExport: Exporting all deals with YYYY-MM-DD date format:`, data?.length || 0, 'records');
-    const filename = getExportFilename('deals', 'all');
+    const filename = getExportFilename('deals', 'all', exportFormat);
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: exportFormat.toUpperCase(),
       export_scope: 'all',
       record_count: data?.length || 0,
       file_name: filename,
@@ -196,18 +205,17 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
       timestamp: new Date().toISOString()
     });
     
-    const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(data, filename);
+    await exportDeals(data, filename, exportFormat);
   };
 
-  const handleExportSelected = async (data: any[], selectedIds: string[]) => {
+  const handleExportSelected = async (data: any[], selectedIds: string[], exportFormat: ExportFormat = 'csv') => {
     const selectedData = data.filter(item => selectedIds.includes(item.id));
-    const filename = getExportFilename('deals', 'selected');
+    const filename = getExportFilename('deals', 'selected', exportFormat);
     console.log(`useDealsImportExport: Exporting selected deals with YYYY-MM-DD date format:`, selectedData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: exportFormat.toUpperCase(),
       export_scope: 'selected',
       record_count: selectedData.length,
       selected_ids: selectedIds.slice(0, 10), // Log first 10 IDs
@@ -216,17 +224,16 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
       timestamp: new Date().toISOString()
     });
     
-    const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(selectedData, filename);
+    await exportDeals(selectedData, filename, exportFormat);
   };
 
-  const handleExportFiltered = async (filteredData: any[]) => {
-    const filename = getExportFilename('deals', 'filtered');
+  const handleExportFiltered = async (filteredData: any[], exportFormat: ExportFormat = 'csv') => {
+    const filename = getExportFilename('deals', 'filtered', exportFormat);
     console.log(`useDealsImportExport: Exporting filtered deals with YYYY-MM-DD date format:`, filteredData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: exportFormat.toUpperCase(),
       export_scope: 'filtered',
       record_count: filteredData.length,
       file_name: filename,
@@ -234,8 +241,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
       timestamp: new Date().toISOString()
     });
     
-    const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(filteredData, filename);
+    await exportDeals(filteredData, filename, exportFormat);
   };
 
   return {
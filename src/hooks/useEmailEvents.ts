@@ -0,0 +1,27 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { countEngagement, summarizeLinkClicks } from '@/utils/emailEventUtils';
+
+export const EMAIL_EVENT_COLUMNS = 'email_history_id, event_type, is_machine, occurred_at, url';
+
+// Opens and clicks on every email sent to the contact
+export const useContactEmailEvents = (contactId: string | undefined) => {
+  return useQuery({
+    queryKey: ['email-events', 'contact', contactId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_events')
+        .select(`${EMAIL_EVENT_COLUMNS}, email_history!inner(contact_id)`)
+        .eq('email_history.contact_id', contactId!)
+        .order('occurred_at', { ascending: false });
+      if (error) throw error;
+      const events = data || [];
+      return {
+        opens: countEngagement(events, 'open'),
+        clicks: countEngagement(events, 'click'),
+        links: summarizeLinkClicks(events),
+      };
+    },
+    enabled: !!contactId,
+  });
+};
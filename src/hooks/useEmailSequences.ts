@@ -0,0 +1,185 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EmailSequence,
+  EmailSequenceStep,
+  EnrollmentStatus,
+  EnrollmentStopReason,
+  SequenceEnrollment,
+  SequenceStepDraft,
+  SequenceStepMetrics,
+} from '@/types/sequence';
+
+export const EMAIL_SEQUENCES_QUERY_KEY = ['email-sequences'];
+
+export type SequenceFormData = Omit<EmailSequence, 'id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export interface SequenceWithSteps extends EmailSequence {
+  steps: EmailSequenceStep[];
+}
+
+export const useEmailSequences = () => {
+  return useQuery({
+    queryKey: EMAIL_SEQUENCES_QUERY_KEY,
+    queryFn: async () => {
+      const [sequencesResult, stepsResult] = await Promise.all([
+        supabase.from('email_sequences').select('*').order('name'),
+        supabase.from('email_sequence_steps').select('*').order('position'),
+      ]);
+
+      if (sequencesResult.error) throw sequencesResult.error;
+      if (stepsResult.error) throw stepsResult.error;
+
+      const steps = (stepsResult.data || []) as EmailSequenceStep[];
+      return ((sequencesResult.data || []) as EmailSequence[]).map((sequence): SequenceWithSteps => ({
+        ...sequence,
+        steps: steps.filter(step => step.sequence_id === sequence.id),
+      }));
+    },
+  });
+};
+
+export const useSequenceEnrollments = (sequenceId: string | null) => {
+  return useQuery({
+    queryKey: [...EMAIL_SEQUENCES_QUERY_KEY, 'enrollments', sequenceId],
+    enabled: !!sequenceId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_sequence_enrollments')
+        .select('*, leads:lead_id (lead_name, email), contacts:contact_id (contact_name, email)')
+        .eq('sequence_id', sequenceId!)
+        .order('enrolled_at', { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(({ leads, contacts, ...enrollment }): SequenceEnrollment => ({
+        ...enrollment,
+        status: enrollment.status as EnrollmentStatus,
+        stop_reason: enrollment.stop_reason as EnrollmentStopReason | null,
+        person_name: leads?.lead_name || contacts?.contact_name || 'Unnamed',
+        person_email: leads?.email ?? contacts?.email ?? null,
+      }));
+    },
+  });
+};
+
+export const useSequenceStepMetrics = (sequenceId: string | null) => {
+  return useQuery({
+    queryKey: [...EMAIL_SEQUENCES_QUERY_KEY, 'metrics', sequenceId],
+    enabled: !!sequenceId,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_sequence_step_metrics', { p_sequence_id: sequenceId! });
+      if (error) throw error;
+
+      const metrics = new Map<string, SequenceStepMetrics>();
+      (data || []).forEach(row => {
+        metrics.set(row.step_id, {
+          step_id: row.step_id,
+          sent: Number(row.sent),
+          opened: Number(row.opened),
+          clicked: Number(row.clicked),
+          replied: Number(row.replied),
+          unsubscribed: Number(row.unsubscribed),
+        });
+      });
+      return metrics;
+    },
+  });
+};
+
+export const useSequenceMutations = () => {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: EMAIL_SEQUENCES_QUERY_KEY });
+
+  // Steps are saved in the order given; steps dropped from the list are deleted
+  const saveSequence = useMutation({
+    mutationFn: async ({ id, sequence, steps }: { id?: string; sequence: SequenceFormData; steps: SequenceStepDraft[] }) => {
+      let sequenceId = id;
+      if (sequenceId) {
+        const { error } = await supabase.from('email_sequences').update(sequence).eq('id', sequenceId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('email_sequences').insert(sequence).select('id').single();
+        if (error) throw error;
+        sequenceId = data.id;
+      }
+
+      const keptIds = steps.map(step => step.id).filter(Boolean) as string[];
+      let removeQuery = supabase.from('email_sequence_steps').delete().eq('sequence_id', sequenceId);
+      if (keptIds.length > 0) removeQuery = removeQuery.not('id', 'in', `(${keptIds.join(',')})`);
+      const { error: removeError } = await removeQuery;
+      if (removeError) throw removeError;
+
+      for (const [position, { id: stepId, ...step }] of steps.entries()) {
+        const row = {
+          ...step,
+          sequence_id: sequenceId,
+          position,
+          template_id: step.step_type === 'email' ? step.template_id : null,
+          task_title: step.step_type === 'task' ? step.task_title : null,
+          task_description: step.step_type === 'task' ? step.task_description : null,
+        };
+        const { error } = stepId
+          ? await supabase.from('email_sequence_steps').update(row).eq('id', stepId)
+          : await supabase.from('email_sequence_steps').insert(row);
+        if (error) throw error;
+      }
+
+      return sequenceId;
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteSequence = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('email_sequences').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Returns how many were enrolled; opted-out people and those already in the sequence are skipped
+  const enroll = useMutation({
+    mutationFn: async ({ sequenceId, leadIds = [], contactIds = [] }: { sequenceId: string; leadIds?: string[]; contactIds?: string[] }) => {
+      const { data, error } = await supabase.rpc('enroll_in_sequence', {
+        p_sequence_id: sequenceId,
+        p_lead_ids: leadIds,
+        p_contact_ids: contactIds,
+      });
+      if (error) throw error;
+      return data ?? 0;
+    },
+    onSuccess: invalidate,
+  });
+
+  const setEnrollmentStatus = useMutation({
+    mutationFn: async ({ enrollment, status }: { enrollment: SequenceEnrollment; status: EnrollmentStatus }) => {
+      const now = new Date().toISOString();
+      const update =
+        status === 'active'
+          ? {
+            status,
+            stop_reason: null,
+            // A step that fell due while paused goes out on the next run
+            next_step_at: enrollment.next_step_at && enrollment.next_step_at > now ? enrollment.next_step_at : now,
+          }
+          : { status, stop_reason: 'manual', ...(status === 'stopped' ? { next_step_at: null } : {}) };
+
+      const { error } = await supabase.from('email_sequence_enrollments').update(update).eq('id', enrollment.id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+  });
+
+  // Sends whatever is due now instead of waiting for the scheduled run
+  const runNow = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('process-sequences', { body: {} });
+      if (error) throw error;
+      return data as { processed: number; email: number; task: number; failed: number };
+    },
+    onSuccess: invalidate,
+  });
+
+  return { saveSequence, deleteSequence, enroll, setEnrollmentStatus, runNow };
+};
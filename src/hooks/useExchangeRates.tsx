@@ -0,0 +1,57 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { ExchangeRate, DEFAULT_REPORTING_CURRENCY, convertAmount } from '@/utils/currencyUtils';
+
+export const EXCHANGE_RATES_QUERY_KEY = ['exchange-rates'];
+
+export const useExchangeRates = () => {
+  const { preferences } = useUserPreferences();
+
+  const { data, isLoading } = useQuery({
+    queryKey: EXCHANGE_RATES_QUERY_KEY,
+    queryFn: async () => {
+      const [ratesResult, settingsResult] = await Promise.all([
+        supabase
+          .from('exchange_rates')
+          .select('id, from_currency, to_currency, rate, effective_date')
+          .order('effective_date', { ascending: false }),
+        supabase
+          .from('company_settings')
+          .select('reporting_currency')
+          .order('created_at')
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (ratesResult.error) console.error('Error fetching exchange rates:', ratesResult.error);
+      if (settingsResult.error) console.error('Error fetching reporting currency:', settingsResult.error);
+
+      return {
+        rates: (ratesResult.data || []) as ExchangeRate[],
+        reportingCurrency: settingsResult.data?.reporting_currency || DEFAULT_REPORTING_CURRENCY,
+      };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const rates = data?.rates;
+  const reportingCurrency = data?.reportingCurrency || DEFAULT_REPORTING_CURRENCY;
+  const displayCurrency = preferences.currency || reportingCurrency;
+
+  // Converts into the user's display currency unless another target is given
+  const convert = useCallback(
+    (amount: number | null | undefined, fromCurrency: string | null | undefined, date?: string | Date | null, toCurrency?: string) =>
+      convertAmount(rates || [], amount, fromCurrency, toCurrency || displayCurrency, date, reportingCurrency),
+    [rates, displayCurrency, reportingCurrency]
+  );
+
+  return {
+    rates: rates || [],
+    reportingCurrency,
+    displayCurrency,
+    convert,
+    isLoading,
+  };
+};
@@ -0,0 +1,288 @@
+import { useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { getDealConversionDate } from "@/utils/currencyUtils";
+import { fetchAllMatchingRows } from "@/utils/serverQueryUtils";
+import { isApprovalPendingError } from "@/utils/approvalUtils";
+import { ForecastCategory } from "@/types/deal";
+import { toast } from "sonner";
+
+export const FORECAST_QUERY_KEY = ['forecast'];
+
+export type ForecastQuarter = 'all' | 'Q1' | 'Q2' | 'Q3' | 'Q4';
+export type ForecastGroupBy = 'owner' | 'region' | 'quarter';
+export type ForecastChangeType = 'new' | 'slipped' | 'won' | 'lost' | 'amount';
+
+export interface ForecastDeal {
+  id: string;
+  name: string;
+  owner: string | null;
+  region: string | null;
+  stage: string;
+  category: ForecastCategory;
+  probability: number;
+  amount: number;
+  weighted: number;
+  // No exchange rate for the deal's currency; amount and weighted are left at 0
+  missingRate: boolean;
+  closeDate: string | null;
+  quarter: string;
+  isWon: boolean;
+  isLost: boolean;
+}
+
+export interface ForecastRollup {
+  key: string;
+  commit: number;
+  bestCase: number;
+  pipeline: number;
+  weighted: number;
+  closedWon: number;
+  openDeals: number;
+}
+
+export interface ForecastChange {
+  type: ForecastChangeType;
+  dealId: string;
+  name: string;
+  detail: string;
+  amountDelta: number;
+}
+
+interface SnapshotItem {
+  deal_id: string;
+  deal_name: string | null;
+  stage: string;
+  forecast_category: string;
+  amount: number | null;
+  weighted_amount: number | null;
+  expected_closing_date: string | null;
+}
+
+const getQuarter = (date: string | null) => date ? `Q${Math.floor(new Date(date).getMonth() / 3) + 1}` : 'Unscheduled';
+
+const isInPeriod = (date: string | null, year: number, quarter: ForecastQuarter) => {
+  if (!date) return false;
+  if (new Date(date).getFullYear() !== year) return false;
+  return quarter === 'all' || getQuarter(date) === quarter;
+};
+
+/**
+ * Rolls up a set of deals. Best Case includes Commit, and Pipeline includes
+ * every open deal, so the three columns read as low / likely / high.
+ */
+export const rollupForecast = (deals: ForecastDeal[], groupKey: (deal: ForecastDeal) => string): ForecastRollup[] => {
+  const rows = new Map<string, ForecastRollup>();
+  deals.forEach(deal => {
+    const key = groupKey(deal);
+    const row = rows.get(key) || { key, commit: 0, bestCase: 0, pipeline: 0, weighted: 0, closedWon: 0, openDeals: 0 };
+    if (deal.isWon) {
+      row.closedWon += deal.amount;
+    } else if (!deal.isLost) {
+      row.openDeals += 1;
+      row.pipeline += deal.amount;
+      row.weighted += deal.weighted;
+      if (deal.category === 'Commit') row.commit += deal.amount;
+      if (deal.category === 'Commit' || deal.category === 'Best Case') row.bestCase += deal.amount;
+    }
+    rows.set(key, row);
+  });
+  return Array.from(rows.values()).sort((a, b) => b.pipeline + b.closedWon - (a.pipeline + a.closedWon));
+};
+
+export const useForecast = (year: number, quarter: ForecastQuarter) => {
+  const queryClient = useQueryClient();
+  const { allStages, wonStageNames, lostStageNames } = usePipelineStages();
+  const { rates, displayCurrency, convert, isLoading: ratesLoading } = useExchangeRates();
+
+  const { data, isLoading } = useQuery({
+    queryKey: [...FORECAST_QUERY_KEY, allStages, displayCurrency, rates],
+    enabled: !ratesLoading,
+    queryFn: async () => {
+      // The server decides which week is current, so a browser in another time zone agrees with it
+      const { data: weekStart, error: weekError } = await supabase.rpc('current_forecast_week');
+      if (weekError) throw weekError;
+
+      // Make sure this week is on record even where no scheduler runs the capture
+      const { data: currentSnapshot } = await supabase
+        .from('forecast_snapshots')
+        .select('id')
+        .eq('week_start', weekStart)
+        .maybeSingle();
+      if (!currentSnapshot) {
+        const { error } = await supabase.rpc('capture_forecast_snapshot');
+        if (error) console.error('Error capturing forecast snapshot:', error);
+      }
+
+      const [deals, previousResult] = await Promise.all([
+        fetchAllMatchingRows((from, to) =>
+          supabase
+            .from('deals')
+            .select('id, deal_name, project_name, stage, lead_owner, region, probability, forecast_category, total_contract_value, currency_type, expected_closing_date, signed_contract_date')
+            .order('id')
+            .range(from, to)
+        ),
+        supabase
+          .from('forecast_snapshots')
+          .select('id, week_start, reporting_currency')
+          .lt('week_start', weekStart)
+          .order('week_start', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      let previousItems: SnapshotItem[] = [];
+      if (previousResult.data) {
+        const items = await fetchAllMatchingRows((from, to) =>
+          supabase
+            .from('forecast_snapshot_items')
+            .select('deal_id, deal_name, stage, forecast_category, amount, weighted_amount, expected_closing_date')
+            .eq('snapshot_id', previousResult.data.id)
+            .order('deal_id')
+            .range(from, to)
+        );
+        previousItems = items.map(item => ({
+          ...item,
+          amount: convert(item.amount, previousResult.data.reporting_currency, item.expected_closing_date),
+          weighted_amount: convert(item.weighted_amount, previousResult.data.reporting_currency, item.expected_closing_date),
+        }));
+      }
+
+      const stageProbability = new Map(allStages.map(s => [s.stage_name, s.stage_probability]));
+      const forecastDeals: ForecastDeal[] = deals.map(deal => {
+        const isWon = wonStageNames.includes(deal.stage);
+        const isLost = lostStageNames.includes(deal.stage);
+        const closeDate = isWon ? deal.signed_contract_date || deal.expected_closing_date : deal.expected_closing_date;
+        const probability = deal.probability ?? stageProbability.get(deal.stage) ?? 0;
+        const converted = convert(deal.total_contract_value, deal.currency_type, getDealConversionDate(deal, isWon));
+        const amount = converted ?? 0;
+        return {
+          id: deal.id,
+          name: deal.project_name || deal.deal_name,
+          owner: deal.lead_owner,
+          region: deal.region,
+          stage: deal.stage,
+          category: (deal.forecast_category || 'Pipeline') as ForecastCategory,
+          probability,
+          amount,
+          weighted: (amount * probability) / 100,
+          missingRate: converted === null,
+          closeDate,
+          quarter: getQuarter(closeDate),
+          isWon,
+          isLost,
+        };
+      });
+
+      return {
+        deals: forecastDeals,
+        previousItems,
+        previousWeekStart: previousResult.data?.week_start || null,
+      };
+    },
+  });
+
+  const periodDeals = useMemo(
+    () => (data?.deals || []).filter(deal => isInPeriod(deal.closeDate, year, quarter)),
+    [data, year, quarter]
+  );
+
+  // What moved in or out of the period since the previous snapshot
+  const changes = useMemo<ForecastChange[]>(() => {
+    if (!data?.previousWeekStart) return [];
+    const current = new Map(data.deals.map(deal => [deal.id, deal]));
+    const previous = new Map(data.previousItems.map(item => [item.deal_id, item]));
+    const result: ForecastChange[] = [];
+
+    data.previousItems.forEach(item => {
+      if (!isInPeriod(item.expected_closing_date, year, quarter)) return;
+      const deal = current.get(item.deal_id);
+      if (!deal) return;
+      const name = deal.name || item.deal_name || '';
+
+      if (deal.isWon) {
+        result.push({ type: 'won', dealId: deal.id, name, detail: `${item.stage} → ${deal.stage}`, amountDelta: deal.amount });
+      } else if (deal.isLost) {
+        result.push({ type: 'lost', dealId: deal.id, name, detail: `${item.stage} → ${deal.stage}`, amountDelta: -(item.amount ?? 0) });
+      } else if (!isInPeriod(deal.closeDate, year, quarter)) {
+        result.push({ type: 'slipped', dealId: deal.id, name, detail: `${item.expected_closing_date} → ${deal.closeDate || 'no date'}`, amountDelta: -(item.amount ?? 0) });
+      } else if (!deal.missingRate && item.amount !== null && Math.abs(deal.amount - Number(item.amount)) >= 1) {
+        const detail = item.forecast_category !== deal.category ? `${item.forecast_category} → ${deal.category}` : deal.stage;
+        result.push({ type: 'amount', dealId: deal.id, name, detail, amountDelta: deal.amount - Number(item.amount) });
+      }
+    });
+
+    periodDeals.forEach(deal => {
+      if (deal.isWon || deal.isLost) return;
+      const item = previous.get(deal.id);
+      if (!item || !isInPeriod(item.expected_closing_date, year, quarter)) {
+        result.push({
+          type: 'new',
+          dealId: deal.id,
+          name: deal.name,
+          detail: item ? `Pulled in from ${item.expected_closing_date || 'no date'}` : `Added in ${deal.stage}`,
+          amountDelta: deal.amount,
+        });
+      }
+    });
+
+    return result;
+  }, [data, periodDeals, year, quarter]);
+
+  const previousTotals = useMemo(() => {
+    const items = (data?.previousItems || []).filter(item => isInPeriod(item.expected_closing_date, year, quarter));
+    return {
+      pipeline: items.reduce((sum, item) => sum + Number(item.amount), 0),
+      weighted: items.reduce((sum, item) => sum + Number(item.weighted_amount), 0),
+      commit: items.filter(item => item.forecast_category === 'Commit').reduce((sum, item) => sum + Number(item.amount), 0),
+    };
+  }, [data, year, quarter]);
+
+  const missingRateDeals = useMemo(() => periodDeals.filter(deal => deal.missingRate).length, [periodDeals]);
+
+  const updateCategory = useMutation({
+    mutationFn: async ({ dealId, category }: { dealId: string; category: ForecastCategory }) => {
+      const { error } = await supabase.from('deals').update({ forecast_category: category }).eq('id', dealId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FORECAST_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      if (isApprovalPendingError(error)) {
+        toast.info('This deal is awaiting approval');
+        return;
+      }
+      console.error('Error updating forecast category:', error);
+      toast.error('Failed to update forecast category');
+    },
+  });
+
+  const captureSnapshot = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc('capture_forecast_snapshot');
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("This week's snapshot was updated");
+      queryClient.invalidateQueries({ queryKey: FORECAST_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      console.error('Error capturing forecast snapshot:', error);
+      toast.error('Failed to capture snapshot');
+    },
+  });
+
+  return {
+    periodDeals,
+    changes,
+    previousTotals,
+    missingRateDeals,
+    previousWeekStart: data?.previousWeekStart || null,
+    isLoading: isLoading || ratesLoading,
+    updateCategory,
+    captureSnapshot,
+  };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { SearchRecordType, SearchResult } from '@/types/search';
+import { getSearchRoute } from '@/utils/searchUtils';
+
+export const MIN_SEARCH_LENGTH = 2;
+
+export const searchCrm = async (
+  query: string,
+  types: SearchRecordType[] = [],
+  limit = 30
+): Promise<SearchResult[]> => {
+  const { data, error } = await supabase.rpc('search_crm', {
+    p_query: query,
+    p_types: types.length ? types : null,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    id: row.record_id,
+    type: row.record_type as SearchRecordType,
+    title: row.title,
+    subtitle: row.subtitle,
+    snippet: row.snippet,
+    route: getSearchRoute(row.record_type as SearchRecordType, row.record_id, row.related_type, row.related_id),
+    rank: row.rank,
+  }));
+};
+
+// Ranked results for what the user typed, searched once typing pauses
+export const useGlobalSearch = (query: string, types: SearchRecordType[] = [], limit = 30) => {
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const enabled = debouncedQuery.length >= MIN_SEARCH_LENGTH;
+
+  const result = useQuery({
+    queryKey: ['global-search', debouncedQuery, [...types].sort(), limit],
+    queryFn: () => searchCrm(debouncedQuery, types, limit),
+    enabled,
+    staleTime: 30 * 1000,
+    placeholderData: keepPreviousData,
+  });
+
+  return {
+    ...result,
+    results: enabled ? result.data || [] : [],
+    isSearching: enabled && result.isFetching,
+    isDebouncing: query.trim() !== debouncedQuery,
+  };
+};
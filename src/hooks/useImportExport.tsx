@@ -79,26 +79,15 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
         description: `Processing ${file.name}...`,
       });
 
-      const text = await file.text();
-      console.log('useImportExport: File content loaded, length:', text.length);
-      console.log('useImportExport: First 500 characters:', text.substring(0, 500));
-      
-      if (!text || text.trim().length === 0) {
+      // The processor streams the file and checks it has a header and data rows
+      if (file.size === 0) {
         throw new Error('CSV file is empty or could not be read');
       }
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
-      }
-
-      console.log('useImportExport: CSV has', lines.length, 'lines');
-
       const processor = new CSVProcessor(tableName);
       console.log('useImportExport: CSV processor created for table:', tableName);
       
-      const result = await processor.processCSV(text, {
+      const result = await processor.processCSV(file, {
         tableName,
         userId: user.id,
         onProgress: (processed, total) => {
@@ -0,0 +1,86 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from '@/hooks/use-toast';
+import { ImportJob, ImportJobConflict, ImportRollbackResult } from '@/types/importJob';
+
+export const IMPORT_JOBS_QUERY_KEY = ['import-jobs'];
+
+interface RollbackInput {
+  jobId: string;
+  overwriteConflicts: boolean;
+}
+
+export const useImportJobs = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: jobs = [], isLoading } = useQuery({
+    queryKey: IMPORT_JOBS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) {
+        console.error('Error fetching import jobs:', error);
+        return [];
+      }
+
+      return (data || []) as unknown as ImportJob[];
+    },
+    enabled: !!user,
+  });
+
+  const fetchConflicts = useCallback(async (jobId: string) => {
+    const { data, error } = await supabase.rpc('get_import_job_conflicts', { p_job_id: jobId });
+
+    if (error) {
+      console.error('Error checking import job conflicts:', error);
+      throw error;
+    }
+
+    return (data || []) as ImportJobConflict[];
+  }, []);
+
+  const rollbackMutation = useMutation({
+    mutationFn: async ({ jobId, overwriteConflicts }: RollbackInput) => {
+      const { data, error } = await supabase.rpc('rollback_import_job', {
+        p_job_id: jobId,
+        p_overwrite_conflicts: overwriteConflicts,
+      });
+
+      if (error) throw error;
+      return data as unknown as ImportRollbackResult;
+    },
+    onSuccess: ({ deleted, restored, skipped, failed, errors }) => {
+      queryClient.invalidateQueries({ queryKey: IMPORT_JOBS_QUERY_KEY });
+      if (failed > 0) console.error('Records that failed to roll back:', errors);
+      toast({
+        title: 'Import rolled back',
+        description: `${deleted} deleted, ${restored} restored${skipped > 0 ? `, ${skipped} left as they are` : ''}` +
+          (failed > 0 ? `, ${failed} failed (first: ${errors[0]})` : ''),
+        variant: failed > 0 ? 'destructive' : 'default',
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error rolling back import job:', error);
+      toast({
+        title: 'Error',
+        description: error?.message || 'Failed to roll back the import',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    jobs,
+    loading: isLoading,
+    fetchConflicts,
+    rollback: rollbackMutation.mutateAsync,
+    rollingBack: rollbackMutation.isPending,
+  };
+};
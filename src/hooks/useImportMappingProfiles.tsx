@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Json } from '@/integrations/supabase/types';
+import { ImportEntity, ImportMapping, ImportUpsertSettings } from '@/hooks/import-export/importMapping';
+
+export const IMPORT_MAPPING_PROFILES_QUERY_KEY = ['import-mapping-profiles'];
+
+export interface ImportMappingProfile extends ImportMapping {
+  id: string;
+  name: string;
+  lastUsedAt: string | null;
+}
+
+export const useImportMappingProfiles = (entity: ImportEntity) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = [...IMPORT_MAPPING_PROFILES_QUERY_KEY, entity, user?.id];
+
+  // Most recently used first, so the usual profile is the one picked for a familiar file
+  const { data: profiles = [], isLoading } = useQuery({
+    queryKey,
+    enabled: !!user?.id,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_export_settings')
+        .select('id, profile_name, field_mappings, default_values, upsert_settings, last_used_at')
+        .eq('user_id', user.id)
+        .eq('entity_type', entity)
+        .order('last_used_at', { ascending: false, nullsFirst: false })
+        .order('profile_name');
+
+      if (error) throw error;
+      return (data || []).map((row): ImportMappingProfile => ({
+        id: row.id,
+        name: row.profile_name,
+        fieldMappings: (row.field_mappings || {}) as Record<string, string | null>,
+        defaultValues: (row.default_values || {}) as Record<string, string>,
+        upsert: (row.upsert_settings as unknown as ImportUpsertSettings) || undefined,
+        lastUsedAt: row.last_used_at,
+      }));
+    },
+  });
+
+  // Saving under an existing name replaces that profile
+  const saveProfile = useMutation({
+    mutationFn: async ({ name, mapping }: { name: string; mapping: ImportMapping }) => {
+      const { data, error } = await supabase
+        .from('import_export_settings')
+        .upsert(
+          {
+            user_id: user.id,
+            entity_type: entity,
+            profile_name: name.trim(),
+            field_mappings: mapping.fieldMappings,
+            default_values: mapping.defaultValues,
+            upsert_settings: (mapping.upsert as unknown as Json) || null,
+            last_used_at: new Date().toISOString(),
+          },
+          { onConflict: 'user_id,entity_type,profile_name' }
+        )
+        .select('id')
+        .single();
+
+      if (error) throw error;
+      return data.id;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const deleteProfile = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('import_export_settings').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+  });
+
+  const markProfileUsed = async (id: string) => {
+    const { error } = await supabase
+      .from('import_export_settings')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) {
+      console.error('Error updating mapping profile:', error);
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey });
+  };
+
+  return {
+    profiles,
+    isLoading,
+    saveProfile,
+    deleteProfile,
+    markProfileUsed,
+  };
+};
@@ -2,6 +2,11 @@ import { useState, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
+import { ImportJobRecorder } from '@/hooks/import-export/importJobRecorder';
+import { XlsxExporter } from '@/hooks/import-export/xlsxExporter';
+import { ExportFormat } from '@/utils/exportUtils';
+import { CSVParser } from '@/utils/csvParser';
+import { applyImportMapping, ImportMapping } from '@/hooks/import-export/importMapping';
 
 interface Meeting {
   id: string;
@@ -25,7 +30,8 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const handleImport = async (file: File) => {
+  // A mapped file is renamed to meeting fields first; files from the review step are already mapped
+  const handleImport = async (file: File, mapping?: ImportMapping) => {
     setIsImporting(true);
 
     try {
@@ -34,15 +40,16 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
+      const parsed = await CSVParser.parse(file);
+      const { headers: fileHeaders, rows: dataRows } = mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, mapping)
+        : parsed;
+
+      if (dataRows.length === 0) {
         throw new Error('CSV file must have headers and at least one data row');
       }
 
-      // Parse headers
-      const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().trim());
+      const headers = fileHeaders.map(h => h.toLowerCase().trim());
       console.log('CSV Headers:', headers);
 
       // Required fields mapping
@@ -63,88 +70,94 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         throw new Error('CSV must have a "Start Date" or "start_time" column');
       }
 
-      let successCount = 0;
-      let errorCount = 0;
-      const errors: string[] = [];
-
-      for (let i = 1; i < lines.length; i++) {
-        try {
-          const values = parseCSVLine(lines[i]);
-          const subject = values[subjectIdx]?.trim();
-          
-          if (!subject) {
-            errors.push(`Row ${i + 1}: Missing subject`);
-            errorCount++;
-            continue;
-          }
+      const { successCount, errorCount, errors } = await ImportJobRecorder.run('meetings', file.name, mapping, async importJob => {
+        let successCount = 0;
+        let errorCount = 0;
+        const errors: string[] = [];
+
+        for (let i = 0; i < dataRows.length; i++) {
+          const rowNum = i + 2;
+          try {
+            const values = dataRows[i];
+            const subject = values[subjectIdx]?.trim();
+
+            if (!subject) {
+              errors.push(`Row ${rowNum}: Missing subject`);
+              errorCount++;
+              continue;
+            }
 
-          // Parse dates
-          let startTime: Date;
-          let endTime: Date;
-
-          const dateValue = values[startDateIdx]?.trim();
-          const timeValue = startTimeIdx !== -1 ? values[startTimeIdx]?.trim() : '';
-          const endTimeValue = endTimeIdx !== -1 ? values[endTimeIdx]?.trim() : '';
-
-          // Try to parse start time
-          if (dateValue.includes('T') || dateValue.includes(' ')) {
-            // Full datetime format
-            startTime = new Date(dateValue);
-          } else if (timeValue) {
-            // Separate date and time
-            startTime = new Date(`${dateValue} ${timeValue}`);
-          } else {
-            // Just date, default to 9:00 AM
-            startTime = new Date(dateValue);
-            startTime.setHours(9, 0, 0, 0);
-          }
+            // Parse dates
+            let startTime: Date;
+            let endTime: Date;
+
+            const dateValue = values[startDateIdx]?.trim();
+            const timeValue = startTimeIdx !== -1 ? values[startTimeIdx]?.trim() : '';
+            const endTimeValue = endTimeIdx !== -1 ? values[endTimeIdx]?.trim() : '';
+
+            // Try to parse start time
+            if (dateValue.includes('T') || dateValue.includes(' ')) {
+              // Full datetime format
+              startTime = new Date(dateValue);
+            } else if (timeValue) {
+              // Separate date and time
+              startTime = new Date(`${dateValue} ${timeValue}`);
+            } else {
+              // Just date, default to 9:00 AM
+              startTime = new Date(dateValue);
+              startTime.setHours(9, 0, 0, 0);
+            }
 
-          if (isNaN(startTime.getTime())) {
-            errors.push(`Row ${i + 1}: Invalid start date/time`);
-            errorCount++;
-            continue;
-          }
+            if (isNaN(startTime.getTime())) {
+              errors.push(`Row ${rowNum}: Invalid start date/time`);
+              errorCount++;
+              continue;
+            }
 
-          // Parse end time or default to 1 hour later
-          if (endTimeValue) {
-            if (endTimeValue.includes('T') || endTimeValue.includes(':')) {
-              endTime = new Date(endTimeValue);
+            // Parse end time or default to 1 hour later
+            if (endTimeValue) {
+              if (endTimeValue.includes('T') || endTimeValue.includes(':')) {
+                endTime = new Date(endTimeValue);
+              } else {
+                endTime = new Date(`${dateValue} ${endTimeValue}`);
+              }
             } else {
-              endTime = new Date(`${dateValue} ${endTimeValue}`);
+              endTime = new Date(startTime.getTime() + 60 * 60 * 1000); // 1 hour later
             }
-          } else {
-            endTime = new Date(startTime.getTime() + 60 * 60 * 1000); // 1 hour later
-          }
 
-          if (isNaN(endTime.getTime())) {
-            endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
-          }
+            if (isNaN(endTime.getTime())) {
+              endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
+            }
 
-          const meetingData = {
-            subject,
-            start_time: startTime.toISOString(),
-            end_time: endTime.toISOString(),
-            status: statusIdx !== -1 ? (values[statusIdx]?.trim() || 'scheduled') : 'scheduled',
-            description: descriptionIdx !== -1 ? values[descriptionIdx]?.trim() || null : null,
-            outcome: outcomeIdx !== -1 ? values[outcomeIdx]?.trim() || null : null,
-            notes: notesIdx !== -1 ? values[notesIdx]?.trim() || null : null,
-            join_url: joinUrlIdx !== -1 ? values[joinUrlIdx]?.trim() || null : null,
-            created_by: user.id,
-          };
-
-          const { error } = await supabase.from('meetings').insert(meetingData);
-          
-          if (error) {
-            errors.push(`Row ${i + 1}: ${error.message}`);
+            const meetingData = {
+              subject,
+              start_time: startTime.toISOString(),
+              end_time: endTime.toISOString(),
+              status: statusIdx !== -1 ? (values[statusIdx]?.trim() || 'scheduled') : 'scheduled',
+              description: descriptionIdx !== -1 ? values[descriptionIdx]?.trim() || null : null,
+              outcome: outcomeIdx !== -1 ? values[outcomeIdx]?.trim() || null : null,
+              notes: notesIdx !== -1 ? values[notesIdx]?.trim() || null : null,
+              join_url: joinUrlIdx !== -1 ? values[joinUrlIdx]?.trim() || null : null,
+              created_by: user.id,
+            };
+
+            const { data: inserted, error } = await supabase.from('meetings').insert(meetingData).select('id').single();
+
+            if (error) {
+              errors.push(`Row ${rowNum}: ${error.message}`);
+              errorCount++;
+            } else {
+              successCount++;
+              await importJob.recordCreated(inserted.id, meetingData);
+            }
+          } catch (rowError: any) {
+            errors.push(`Row ${rowNum}: ${rowError.message}`);
             errorCount++;
-          } else {
-            successCount++;
           }
-        } catch (rowError: any) {
-          errors.push(`Row ${i + 1}: ${rowError.message}`);
-          errorCount++;
         }
-      }
+
+        return { successCount, errorCount, errors };
+      });
 
       if (successCount > 0) {
         toast({
@@ -176,7 +189,7 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async (meetings: Meeting[]) => {
+  const handleExport = async (meetings: Meeting[], exportFormat: ExportFormat = 'csv') => {
     setIsExporting(true);
     
     try {
@@ -188,7 +201,6 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         return;
       }
 
-      // CSV headers
       const headers = [
         'Subject',
         'Start Time',
@@ -201,30 +213,40 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         'Lead/Contact'
       ];
 
-      // Build CSV rows
       const rows = meetings.map(meeting => {
         const leadContact = (meeting as any).lead_name || (meeting as any).contact_name || '';
         return [
-          escapeCSVField(meeting.subject),
+          meeting.subject,
           meeting.start_time,
           meeting.end_time,
           meeting.status,
           meeting.outcome || '',
-          escapeCSVField(meeting.description || ''),
-          escapeCSVField(meeting.notes || ''),
+          meeting.description || '',
+          meeting.notes || '',
           meeting.join_url || '',
           leadContact
-        ].join(',');
+        ];
       });
 
-      const csvContent = [headers.join(','), ...rows].join('\n');
+      const filename = `meetings_export_${format(new Date(), 'yyyy-MM-dd')}.${exportFormat}`;
+
+      if (exportFormat === 'xlsx') {
+        await XlsxExporter.download([XlsxExporter.toSheet('Meetings', headers, rows)], filename);
+        toast({
+          title: "Export Successful",
+          description: `Exported ${meetings.length} meetings to Excel.`,
+        });
+        return;
+      }
+
+      const csvContent = [headers.join(','), ...rows.map(row => row.map(escapeCSVField).join(','))].join('\n');
 
       // Download the file
       const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.setAttribute('href', url);
-      a.setAttribute('download', `meetings_export_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+      a.setAttribute('download', filename);
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -261,34 +283,6 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
   };
 };
 
-// Helper function to parse CSV line (handles quoted fields)
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  result.push(current.trim());
-  return result;
-}
-
 // Helper function to escape CSV fields
 function escapeCSVField(field: string): string {
   if (!field) return '';
@@ -12,6 +12,7 @@ interface Notification {
   status: 'read' | 'unread';
   notification_type: string;
   action_item_id: string | null;
+  approval_request_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -0,0 +1,39 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { PicklistKey, PicklistValue } from '@/types/picklist';
+import { findPicklistValue, getPicklistOptions, getPicklistValues } from '@/utils/picklistUtils';
+
+export const PICKLISTS_QUERY_KEY = ['picklist-values'];
+
+export const fetchPicklistValues = async (): Promise<PicklistValue[]> => {
+  const { data, error } = await supabase
+    .from('picklist_values')
+    .select('id, list_key, value, color, sort_order, is_active')
+    .order('sort_order')
+    .order('value');
+
+  if (error) throw error;
+
+  return (data || []).map(value => ({ ...value, list_key: value.list_key as PicklistKey }));
+};
+
+export const usePicklistValues = () =>
+  useQuery({
+    queryKey: PICKLISTS_QUERY_KEY,
+    queryFn: fetchPicklistValues,
+    staleTime: 5 * 60 * 1000,
+  });
+
+// `values` holds inactive entries too; `options` are the active ones offered in selects and filters
+export const usePicklist = (key: PicklistKey) => {
+  const { data, isLoading } = usePicklistValues();
+
+  const values = useMemo(() => getPicklistValues(data, key), [data, key]);
+  const options = useMemo(() => getPicklistOptions(values), [values]);
+
+  const getOptions = useCallback((current?: string | null) => getPicklistOptions(values, current), [values]);
+  const getColor = useCallback((text: string | null | undefined) => findPicklistValue(values, text)?.color ?? null, [values]);
+
+  return { values, options, getOptions, getColor, isLoading };
+};
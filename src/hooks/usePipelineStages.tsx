@@ -0,0 +1,153 @@
+import { useMemo, useCallback, CSSProperties } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { DealStage, PipelineStage, DEFAULT_PIPELINE_STAGES, getFormFieldsForStage, getRequiredFieldsForStage } from '@/types/deal';
+
+export const PIPELINE_STAGES_QUERY_KEY = ['pipeline-stages'];
+
+// Final-stage form variant for a closed stage
+export type FinalStageKind = 'Won' | 'Lost' | 'Dropped';
+
+// Badge/column style derived from a stage's configured hex color
+export const getStageColorStyle = (color?: string | null): CSSProperties => {
+  if (!color) return {};
+  return {
+    backgroundColor: `${color}1a`,
+    color,
+    borderColor: `${color}4d`,
+  };
+};
+
+export const usePipelineStages = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: PIPELINE_STAGES_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('pipeline_stages')
+        .select('id, stage_name, stage_order, stage_color, stage_probability, is_active, is_won_stage, is_lost_stage, is_drop_stage, required_fields, form_fields')
+        .order('stage_order');
+
+      if (error) {
+        console.error('Error fetching pipeline stages:', error);
+        return null;
+      }
+
+      return data as PipelineStage[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  // Includes inactive stages so deals still sitting on them render correctly
+  const allStages = useMemo<PipelineStage[]>(
+    () => (data && data.length > 0 ? data : DEFAULT_PIPELINE_STAGES),
+    [data]
+  );
+
+  const stages = useMemo(() => allStages.filter(s => s.is_active !== false), [allStages]);
+  const stageNames = useMemo<DealStage[]>(() => stages.map(s => s.stage_name), [stages]);
+  const openStageNames = useMemo<DealStage[]>(
+    () => stages.filter(s => !s.is_won_stage && !s.is_lost_stage).map(s => s.stage_name),
+    [stages]
+  );
+  const closedStageNames = useMemo<DealStage[]>(
+    () => stages.filter(s => s.is_won_stage || s.is_lost_stage).map(s => s.stage_name),
+    [stages]
+  );
+  const wonStageNames = useMemo<DealStage[]>(
+    () => allStages.filter(s => s.is_won_stage).map(s => s.stage_name),
+    [allStages]
+  );
+  const lostStageNames = useMemo<DealStage[]>(
+    () => allStages.filter(s => s.is_lost_stage).map(s => s.stage_name),
+    [allStages]
+  );
+
+  const getStage = useCallback(
+    (stageName?: DealStage | null) => allStages.find(s => s.stage_name === stageName),
+    [allStages]
+  );
+
+  const isWonStage = useCallback((stageName?: DealStage | null) => !!getStage(stageName)?.is_won_stage, [getStage]);
+  const isLostStage = useCallback((stageName?: DealStage | null) => !!getStage(stageName)?.is_lost_stage, [getStage]);
+  const isDropStage = useCallback((stageName?: DealStage | null) => !!getStage(stageName)?.is_drop_stage, [getStage]);
+  const isClosedStage = useCallback(
+    (stageName?: DealStage | null) => isWonStage(stageName) || isLostStage(stageName),
+    [isWonStage, isLostStage]
+  );
+
+  const getFinalStageKind = useCallback((stageName?: DealStage | null): FinalStageKind | null => {
+    if (isWonStage(stageName)) return 'Won';
+    if (isLostStage(stageName)) return isDropStage(stageName) ? 'Dropped' : 'Lost';
+    return null;
+  }, [isWonStage, isLostStage, isDropStage]);
+
+  // Next open stage in pipeline order; closed stages are chosen explicitly
+  const getNextStage = useCallback((currentStage: DealStage): DealStage | null => {
+    const index = openStageNames.indexOf(currentStage);
+    if (index === -1 || index === openStageNames.length - 1) return null;
+    return openStageNames[index + 1];
+  }, [openStageNames]);
+
+  const getStageIndex = useCallback((stageName: DealStage) => stageNames.indexOf(stageName), [stageNames]);
+
+  const getDefaultProbability = useCallback(
+    (stageName?: DealStage | null) => getStage(stageName)?.stage_probability ?? undefined,
+    [getStage]
+  );
+
+  // Carry the stage's default probability along unless the rep has overridden it
+  const getProbabilityForStageChange = useCallback(
+    (fromStage: DealStage | null | undefined, toStage: DealStage, currentProbability?: number | null) => {
+      const fromDefault = getDefaultProbability(fromStage);
+      const toDefault = getDefaultProbability(toStage);
+      if (toDefault === undefined) return currentProbability ?? undefined;
+      if (currentProbability === null || currentProbability === undefined || currentProbability === fromDefault) {
+        return toDefault;
+      }
+      return currentProbability;
+    },
+    [getDefaultProbability]
+  );
+
+  // Same list the check_deal_stage_requirements trigger enforces
+  const getRequiredFields = useCallback(
+    (stageName: DealStage) => getStage(stageName)?.required_fields ?? getRequiredFieldsForStage(stageName),
+    [getStage]
+  );
+
+  const getFormFields = useCallback(
+    (stageName: DealStage) => getStage(stageName)?.form_fields ?? getFormFieldsForStage(stageName),
+    [getStage]
+  );
+
+  const getStageColor = useCallback((stageName?: DealStage | null) => getStage(stageName)?.stage_color || null, [getStage]);
+  const getStageStyle = useCallback(
+    (stageName?: DealStage | null) => getStageColorStyle(getStageColor(stageName)),
+    [getStageColor]
+  );
+
+  return {
+    stages,
+    allStages,
+    stageNames,
+    openStageNames,
+    closedStageNames,
+    wonStageNames,
+    lostStageNames,
+    loading: isLoading,
+    getStage,
+    isWonStage,
+    isLostStage,
+    isDropStage,
+    isClosedStage,
+    getFinalStageKind,
+    getNextStage,
+    getStageIndex,
+    getDefaultProbability,
+    getProbabilityForStageChange,
+    getRequiredFields,
+    getFormFields,
+    getStageColor,
+    getStageStyle,
+  };
+};
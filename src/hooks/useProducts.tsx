@@ -0,0 +1,63 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Product, PriceBook, PriceBookEntry } from '@/types/product';
+
+export const PRODUCTS_QUERY_KEY = ['products'];
+
+export const useProducts = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: PRODUCTS_QUERY_KEY,
+    queryFn: async () => {
+      const [productsResult, booksResult, entriesResult] = await Promise.all([
+        supabase
+          .from('products')
+          .select('id, sku, name, description, category, unit, billing_type, is_active')
+          .order('name'),
+        supabase
+          .from('price_books')
+          .select('id, name, description, is_default, is_active')
+          .order('name'),
+        supabase
+          .from('price_book_entries')
+          .select('id, price_book_id, product_id, currency, unit_price'),
+      ]);
+
+      if (productsResult.error) throw productsResult.error;
+      if (booksResult.error) throw booksResult.error;
+      if (entriesResult.error) throw entriesResult.error;
+
+      return {
+        products: (productsResult.data || []) as Product[],
+        priceBooks: (booksResult.data || []) as PriceBook[],
+        entries: (entriesResult.data || []) as PriceBookEntry[],
+      };
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const priceBooks = data?.priceBooks || [];
+  const entries = data?.entries;
+  const defaultPriceBook = priceBooks.find(book => book.is_default) || null;
+
+  // List price in the given currency, from the chosen price book or the default one
+  const getListPrice = useCallback(
+    (productId: string, currency: string, priceBookId?: string | null) => {
+      const bookId = priceBookId || defaultPriceBook?.id;
+      const entry = (entries || []).find(
+        e => e.product_id === productId && e.price_book_id === bookId && e.currency === currency
+      );
+      return entry ? Number(entry.unit_price) : null;
+    },
+    [entries, defaultPriceBook?.id]
+  );
+
+  return {
+    products: data?.products || [],
+    priceBooks,
+    entries: entries || [],
+    defaultPriceBook,
+    getListPrice,
+    isLoading,
+  };
+};
@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+
+interface ServerPage<T> {
+  rows: T[];
+  count: number;
+}
+
+interface UseServerPaginationOptions<T> {
+  // Module name followed by everything the query depends on; a change goes back to page 1
+  queryKey: unknown[];
+  fetchPage: (from: number, to: number) => Promise<ServerPage<T>>;
+  initialPageSize?: number;
+  enabled?: boolean;
+}
+
+// One page of a list at a time, with the total the filters match counted by the database
+export const useServerPagination = <T>({ queryKey, fetchPage, initialPageSize = 25, enabled = true }: UseServerPaginationOptions<T>) => {
+  const [currentPage, setCurrentPage] = useState(1);
+  const [itemsPerPage, setItemsPerPage] = useState(initialPageSize);
+  const filterKey = JSON.stringify(queryKey);
+
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [filterKey, itemsPerPage]);
+
+  const startIndex = (currentPage - 1) * itemsPerPage;
+
+  const query = useQuery({
+    queryKey: [...queryKey, currentPage, itemsPerPage],
+    queryFn: () => fetchPage(startIndex, startIndex + itemsPerPage - 1),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+
+  const totalCount = query.data?.count ?? 0;
+  // Stable while the page is unchanged, so effects can depend on it
+  const rows = useMemo(() => query.data?.rows ?? [], [query.data]);
+
+  return {
+    rows,
+    totalCount,
+    totalPages: Math.ceil(totalCount / itemsPerPage),
+    currentPage,
+    setCurrentPage,
+    itemsPerPage,
+    setItemsPerPage,
+    startIndex,
+    loading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    refetch: query.refetch,
+  };
+};
@@ -5,11 +5,14 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { GenericCSVProcessor } from './import-export/genericCSVProcessor';
 import { GenericCSVExporter } from './import-export/genericCSVExporter';
-import { getExportFilename } from '@/utils/exportUtils';
+import { fetchImportCustomFields } from './import-export/customFieldImport';
+import { ExportFormat, getExportFilename } from '@/utils/exportUtils';
+import { ImportMapping } from './import-export/importMapping';
+import { ImportJobRecorder } from './import-export/importJobRecorder';
 
 // Contacts field order
 const CONTACTS_EXPORT_FIELDS = [
-  'id', 'contact_name', 'company_name', 'position', 'email', 'phone_no',
+  'id', 'external_id', 'contact_name', 'company_name', 'position', 'email', 'phone_no',
   'linkedin', 'website', 'contact_source', 'industry', 'region',
   'description', 'contact_owner', 'created_by', 'modified_by',
   'created_time', 'modified_time'
@@ -19,7 +22,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
   const { user } = useAuth();
   const [isImporting, setIsImporting] = useState(false);
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, mapping?: ImportMapping) => {
     if (!user?.id) {
       toast({
         title: "Error",
@@ -32,16 +35,19 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
     setIsImporting(true);
     
     try {
-      const text = await file.text();
       const processor = new GenericCSVProcessor();
       
-      const result = await processor.processCSV(text, {
-        tableName: 'contacts',
-        userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`Progress: ${processed}/${total}`);
-        }
-      });
+      const result = await ImportJobRecorder.run('contacts', file.name, mapping, importJob =>
+        processor.processCSV(file, {
+          tableName: 'contacts',
+          userId: user.id,
+          mapping,
+          importJob,
+          onProgress: (processed, total) => {
+            console.log(`Progress: ${processed}/${total}`);
+          }
+        })
+      );
 
       const { successCount, updateCount, errorCount } = result;
       const message = `Import completed: ${successCount} new, ${updateCount} updated, ${errorCount} errors`;
@@ -79,7 +85,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (exportFormat: ExportFormat = 'csv') => {
     try {
       const { data: contacts, error } = await supabase
         .from('contacts')
@@ -97,9 +103,14 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
         return;
       }
 
-      const filename = getExportFilename('contacts', 'all');
+      const filename = getExportFilename('contacts', 'all', exportFormat);
       const exporter = new GenericCSVExporter();
-      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS);
+      const customFields = await fetchImportCustomFields('contacts');
+      if (exportFormat === 'xlsx') {
+        await exporter.exportToXlsx(contacts, filename, CONTACTS_EXPORT_FIELDS, 'Contacts', customFields);
+      } else {
+        await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS, customFields);
+      }
 
       toast({
         title: "Export Successful",
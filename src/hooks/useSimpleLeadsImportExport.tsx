@@ -4,6 +4,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { LeadsCSVProcessor } from '@/hooks/import-export/leadsCSVProcessor';
 import { LeadsCSVExporter } from '@/hooks/import-export/leadsCSVExporter';
+import { ExportFormat } from '@/utils/exportUtils';
+import { ImportMapping } from '@/hooks/import-export/importMapping';
+import { ImportJobRecorder } from '@/hooks/import-export/importJobRecorder';
 
 interface Lead {
   id: string;
@@ -29,7 +32,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  const handleImport = async (file: File) => {
+  const handleImport = async (file: File, mapping?: ImportMapping) => {
     setIsImporting(true);
 
     try {
@@ -38,16 +41,19 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
       console.log('Starting leads import with new processor...');
 
       const processor = new LeadsCSVProcessor();
-      const result = await processor.processCSV(text, {
-        userId: user.id,
-        onProgress: (processed, total) => {
-          console.log(`Processing: ${processed}/${total}`);
-        }
-      });
+      const result = await ImportJobRecorder.run('leads', file.name, mapping, importJob =>
+        processor.processCSV(file, {
+          userId: user.id,
+          mapping,
+          importJob,
+          onProgress: (processed, total) => {
+            console.log(`Processing: ${processed}/${total}`);
+          }
+        })
+      );
 
       // Show results
       if (result.successCount > 0 || result.updateCount > 0) {
@@ -80,7 +86,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (exportFormat: ExportFormat = 'csv') => {
     try {
       const { data, error } = await supabase
         .from('leads')
@@ -101,6 +107,17 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
 
       console.log('Starting leads export with new exporter...');
       const exporter = new LeadsCSVExporter();
+      const filename = `leads_export_${new Date().toISOString().split('T')[0]}.${exportFormat}`;
+
+      if (exportFormat === 'xlsx') {
+        await exporter.exportLeadsToXlsx(data, filename);
+        toast({
+          title: "Export Successful",
+          description: `Exported ${data.length} leads to Excel.`,
+        });
+        return;
+      }
+
       const csvContent = await exporter.exportLeads(data);
 
       // Download the file
@@ -108,7 +125,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.setAttribute('href', url);
-      a.setAttribute('download', `leads_export_${new Date().toISOString().split('T')[0]}.csv`);
+      a.setAttribute('download', filename);
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -4,6 +4,18 @@ import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { Task, TaskStatus, TaskPriority, TaskModuleType } from '@/types/task';
 import { format } from 'date-fns';
+import { ImportJobRecorder } from '@/hooks/import-export/importJobRecorder';
+import { XlsxExporter } from '@/hooks/import-export/xlsxExporter';
+import {
+  customFieldExportCells,
+  customFieldExportHeaders,
+  getMissingCustomFields,
+  readCustomFieldCells,
+} from '@/hooks/import-export/customFieldImport';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { ExportFormat } from '@/utils/exportUtils';
+import { CSVParser } from '@/utils/csvParser';
+import { applyImportMapping, ImportMapping } from '@/hooks/import-export/importMapping';
 
 interface ImportResult {
   success: number;
@@ -11,14 +23,18 @@ interface ImportResult {
   errors: string[];
 }
 
+const fetchTaskCustomFields = async () =>
+  (await fetchCustomFields()).filter(field => field.entity_type === 'task');
+
 export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
   const { user } = useAuth();
   const [importing, setImporting] = useState(false);
   const [exporting, setExporting] = useState(false);
 
-  const exportToCSV = async () => {
+  const exportTasks = async (exportFormat: ExportFormat) => {
     setExporting(true);
     try {
+      const customFields = await fetchTaskCustomFields();
       const headers = [
         'Title',
         'Description',
@@ -36,6 +52,7 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
         'Created By',
         'Created At',
         'Completed At',
+        ...customFieldExportHeaders(customFields),
       ];
 
       const rows = tasks.map(task => [
@@ -55,8 +72,17 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
         task.created_by_name || '',
         task.created_at ? format(new Date(task.created_at), 'yyyy-MM-dd HH:mm:ss') : '',
         task.completed_at ? format(new Date(task.completed_at), 'yyyy-MM-dd HH:mm:ss') : '',
+        ...customFieldExportCells(customFields, task),
       ]);
 
+      const filename = `tasks_export_${format(new Date(), 'yyyy-MM-dd_HHmmss')}.${exportFormat}`;
+
+      if (exportFormat === 'xlsx') {
+        await XlsxExporter.download([XlsxExporter.toSheet('Tasks', headers, rows)], filename);
+        toast({ title: 'Success', description: `Exported ${tasks.length} tasks to Excel` });
+        return;
+      }
+
       const csvContent = [
         headers.join(','),
         ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')),
@@ -66,7 +92,7 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `tasks_export_${format(new Date(), 'yyyy-MM-dd_HHmmss')}.csv`;
+      link.download = filename;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -81,42 +107,11 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
     }
   };
 
-  const parseCSV = (content: string): string[][] => {
-    const lines = content.split('\n');
-    const result: string[][] = [];
-    
-    for (const line of lines) {
-      if (!line.trim()) continue;
-      
-      const row: string[] = [];
-      let cell = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        
-        if (char === '"') {
-          if (inQuotes && line[i + 1] === '"') {
-            cell += '"';
-            i++;
-          } else {
-            inQuotes = !inQuotes;
-          }
-        } else if (char === ',' && !inQuotes) {
-          row.push(cell.trim());
-          cell = '';
-        } else {
-          cell += char;
-        }
-      }
-      row.push(cell.trim());
-      result.push(row);
-    }
-    
-    return result;
-  };
+  const exportToCSV = () => exportTasks('csv');
+  const exportToExcel = () => exportTasks('xlsx');
 
-  const importFromCSV = async (file: File): Promise<ImportResult> => {
+  // A mapped file is renamed to task fields first; files from the review step are already mapped
+  const importFromCSV = async (file: File, mapping?: ImportMapping): Promise<ImportResult> => {
     if (!user?.id) {
       return { success: 0, failed: 0, errors: ['User not authenticated'] };
     }
@@ -125,93 +120,114 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
     const result: ImportResult = { success: 0, failed: 0, errors: [] };
 
     try {
-      const content = await file.text();
-      const rows = parseCSV(content);
-      
-      if (rows.length < 2) {
+      const parsed = await CSVParser.parse(file);
+      const { headers: fileHeaders, rows: dataRows } = mapping
+        ? applyImportMapping(parsed.headers, parsed.rows, mapping)
+        : parsed;
+      if (dataRows.length === 0) {
         throw new Error('CSV file is empty or has no data rows');
       }
 
-      const headers = rows[0].map(h => h.toLowerCase().trim());
-      const dataRows = rows.slice(1);
-
-      const titleIndex = headers.findIndex(h => h.includes('title'));
-      const descIndex = headers.findIndex(h => h.includes('description'));
-      const statusIndex = headers.findIndex(h => h.includes('status'));
-      const priorityIndex = headers.findIndex(h => h.includes('priority'));
-      const dueDateIndex = headers.findIndex(h => h.includes('due') && h.includes('date'));
-      const dueTimeIndex = headers.findIndex(h => h.includes('due') && h.includes('time'));
+      // Mapped columns carry the field name; otherwise fall back to the closest header
+      const headers = fileHeaders.map(h => h.toLowerCase().trim());
+      const findColumn = (field: string, matches: (header: string) => boolean) =>
+        headers.includes(field) ? headers.indexOf(field) : headers.findIndex(matches);
+      const titleIndex = findColumn('title', h => h.includes('title'));
+      const descIndex = findColumn('description', h => h.includes('description'));
+      const statusIndex = findColumn('status', h => h.includes('status'));
+      const priorityIndex = findColumn('priority', h => h.includes('priority'));
+      const dueDateIndex = findColumn('due_date', h => h.includes('due') && h.includes('date'));
+      const dueTimeIndex = findColumn('due_time', h => h.includes('due') && h.includes('time'));
 
       if (titleIndex === -1) {
         throw new Error('CSV must have a "Title" column');
       }
 
+      const customFields = await fetchTaskCustomFields();
       const validStatuses: TaskStatus[] = ['open', 'in_progress', 'completed', 'cancelled'];
       const validPriorities: TaskPriority[] = ['high', 'medium', 'low'];
 
-      for (let i = 0; i < dataRows.length; i++) {
-        const row = dataRows[i];
-        const rowNum = i + 2;
+      await ImportJobRecorder.run('tasks', file.name, mapping, async importJob => {
+        for (let i = 0; i < dataRows.length; i++) {
+          const row = dataRows[i];
+          const rowNum = i + 2;
 
-        try {
-          const title = row[titleIndex]?.trim();
-          if (!title) {
-            result.errors.push(`Row ${rowNum}: Title is required`);
-            result.failed++;
-            continue;
-          }
+          try {
+            const title = row[titleIndex]?.trim();
+            if (!title) {
+              result.errors.push(`Row ${rowNum}: Title is required`);
+              result.failed++;
+              continue;
+            }
 
-          let status: TaskStatus = 'open';
-          if (statusIndex !== -1 && row[statusIndex]) {
-            const statusValue = row[statusIndex].toLowerCase().trim().replace(' ', '_');
-            if (validStatuses.includes(statusValue as TaskStatus)) {
-              status = statusValue as TaskStatus;
+            let status: TaskStatus = 'open';
+            if (statusIndex !== -1 && row[statusIndex]) {
+              const statusValue = row[statusIndex].toLowerCase().trim().replace(' ', '_');
+              if (validStatuses.includes(statusValue as TaskStatus)) {
+                status = statusValue as TaskStatus;
+              }
             }
-          }
 
-          let priority: TaskPriority = 'medium';
-          if (priorityIndex !== -1 && row[priorityIndex]) {
-            const priorityValue = row[priorityIndex].toLowerCase().trim();
-            if (validPriorities.includes(priorityValue as TaskPriority)) {
-              priority = priorityValue as TaskPriority;
+            let priority: TaskPriority = 'medium';
+            if (priorityIndex !== -1 && row[priorityIndex]) {
+              const priorityValue = row[priorityIndex].toLowerCase().trim();
+              if (validPriorities.includes(priorityValue as TaskPriority)) {
+                priority = priorityValue as TaskPriority;
+              }
             }
-          }
 
-          let due_date: string | null = null;
-          if (dueDateIndex !== -1 && row[dueDateIndex]) {
-            const dateStr = row[dueDateIndex].trim();
-            const parsedDate = new Date(dateStr);
-            if (!isNaN(parsedDate.getTime())) {
-              due_date = format(parsedDate, 'yyyy-MM-dd');
+            let due_date: string | null = null;
+            if (dueDateIndex !== -1 && row[dueDateIndex]) {
+              const dateStr = row[dueDateIndex].trim();
+              const parsedDate = new Date(dateStr);
+              if (!isNaN(parsedDate.getTime())) {
+                due_date = format(parsedDate, 'yyyy-MM-dd');
+              }
             }
-          }
 
-          let due_time: string | null = null;
-          if (dueTimeIndex !== -1 && row[dueTimeIndex]) {
-            due_time = row[dueTimeIndex].trim();
-          }
+            let due_time: string | null = null;
+            if (dueTimeIndex !== -1 && row[dueTimeIndex]) {
+              due_time = row[dueTimeIndex].trim();
+            }
 
-          const { error } = await supabase.from('tasks').insert({
-            title,
-            description: descIndex !== -1 ? row[descIndex]?.trim() || null : null,
-            status,
-            priority,
-            due_date,
-            due_time,
-            created_by: user.id,
-          });
-
-          if (error) {
-            result.errors.push(`Row ${rowNum}: ${error.message}`);
+            const customCells = readCustomFieldCells(customFields, fileHeaders, row);
+            const customErrors = [
+              ...customCells.errors,
+              ...getMissingCustomFields(customFields, customCells.values).map(label => `${label} is required`),
+            ];
+            if (customErrors.length > 0) {
+              result.errors.push(`Row ${rowNum}: ${customErrors.join('; ')}`);
+              result.failed++;
+              continue;
+            }
+
+            const taskData = {
+              title,
+              description: descIndex !== -1 ? row[descIndex]?.trim() || null : null,
+              status,
+              priority,
+              due_date,
+              due_time,
+              custom_fields: customCells.values,
+              created_by: user.id,
+            };
+            const { data: inserted, error } = await supabase.from('tasks').insert(taskData).select('id').single();
+
+            if (error) {
+              result.errors.push(`Row ${rowNum}: ${error.message}`);
+              result.failed++;
+            } else {
+              result.success++;
+              await importJob.recordCreated(inserted.id, taskData);
+            }
+          } catch (err: any) {
+            result.errors.push(`Row ${rowNum}: ${err.message}`);
             result.failed++;
-          } else {
-            result.success++;
           }
-        } catch (err: any) {
-          result.errors.push(`Row ${rowNum}: ${err.message}`);
-          result.failed++;
         }
-      }
+
+        return { errors: result.errors };
+      });
 
       if (result.success > 0) {
         onRefresh();
@@ -238,6 +254,7 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
     importing,
     exporting,
     exportToCSV,
+    exportToExcel,
     importFromCSV,
   };
 };
@@ -0,0 +1,137 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { eqFilter } from '@/utils/serverQueryUtils';
+import type { TemplateContext } from '@/utils/emailTemplateEngine';
+
+export type TemplateRecordType = 'lead' | 'contact' | 'account';
+
+export interface TemplateRecordRef {
+  type: TemplateRecordType;
+  id: string;
+}
+
+const RECORD_TABLES = {
+  lead: { table: 'leads', nameColumn: 'lead_name', ownerColumn: 'contact_owner' },
+  contact: { table: 'contacts', nameColumn: 'contact_name', ownerColumn: 'contact_owner' },
+  account: { table: 'accounts', nameColumn: 'company_name', ownerColumn: 'account_owner' },
+} as const;
+
+type Row = Record<string, unknown>;
+
+const splitName = (name: string | null | undefined) => {
+  const parts = (name || '').trim().split(/\s+/).filter(Boolean);
+  return { first_name: parts[0] || '', last_name: parts.slice(1).join(' ') };
+};
+
+const fetchRow = async (table: string, id: string | null | undefined): Promise<Row | null> => {
+  if (!id) return null;
+  const { data, error } = await supabase.from(table as 'leads').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as Row | null;
+};
+
+const fetchProfile = async (id: string | null | undefined): Promise<Row | null> => {
+  if (!id) return null;
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, "Email ID", phone')
+    .eq('id', id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return { full_name: data.full_name, ...splitName(data.full_name), email: data['Email ID'], phone: data.phone };
+};
+
+// Most recently changed deal for the record's contact, account or (for leads) lead name
+const fetchLatestDeal = async (filters: string[]): Promise<Row | null> => {
+  if (filters.length === 0) return null;
+  const { data, error } = await supabase
+    .from('deals')
+    .select('*')
+    .or(filters.join(','))
+    .order('modified_at', { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return (data?.[0] as Row | undefined) || null;
+};
+
+// Everything a template can merge for one recipient: the record itself, its account, owner and latest deal.
+// supabase/functions/_shared/templateContext.ts builds the same shape for scheduled sequence emails.
+export const loadTemplateContext = async (record: TemplateRecordRef, senderId?: string | null): Promise<TemplateContext> => {
+  const { table, nameColumn, ownerColumn } = RECORD_TABLES[record.type];
+  const row = await fetchRow(table, record.id);
+  if (!row) throw new Error(`The ${record.type} could not be found`);
+
+  const account = record.type === 'account' ? row : await fetchRow('accounts', row.account_id as string | null);
+  const dealFilters = [
+    record.type === 'contact' && eqFilter('contact_id', record.id),
+    record.type === 'lead' && row.lead_name && eqFilter('lead_name', row.lead_name as string),
+    account && eqFilter('account_id', account.id as string),
+  ].filter(Boolean) as string[];
+
+  const [owner, sender, deal] = await Promise.all([
+    fetchProfile(row[ownerColumn] as string | null),
+    fetchProfile(senderId),
+    fetchLatestDeal(dealFilters),
+  ]);
+
+  const name = row[nameColumn] as string | null;
+  return {
+    name,
+    contact_name: name,
+    ...splitName(name),
+    email: row.email,
+    company_name: row.company_name || account?.company_name,
+    position: row.position,
+    phone: row.phone_no ?? row.phone,
+    lead: record.type === 'lead' ? row : null,
+    contact: record.type === 'contact' ? row : null,
+    account,
+    owner,
+    deal,
+    sender,
+    today: new Date().toISOString(),
+  };
+};
+
+// A context from what the caller already knows, for recipients without a stored record
+export const buildRecipientContext = (
+  recipient: { name?: string | null; email?: string | null; company_name?: string | null; position?: string | null },
+  sender?: { full_name?: string | null; email?: string | null }
+): TemplateContext => ({
+  name: recipient.name,
+  contact_name: recipient.name,
+  ...splitName(recipient.name),
+  email: recipient.email,
+  company_name: recipient.company_name,
+  position: recipient.position,
+  sender: sender ? { ...sender, ...splitName(sender.full_name) } : null,
+  today: new Date().toISOString(),
+});
+
+export const useTemplateContext = (record: TemplateRecordRef | null, senderId?: string | null) => {
+  return useQuery({
+    queryKey: ['template-context', record?.type, record?.id, senderId],
+    queryFn: () => loadTemplateContext(record!, senderId),
+    enabled: !!record?.id,
+  });
+};
+
+// Records to preview a template against, matched by name
+export const useTemplateRecordSearch = (type: TemplateRecordType, term: string) => {
+  return useQuery({
+    queryKey: ['template-records', type, term],
+    queryFn: async () => {
+      const { table, nameColumn } = RECORD_TABLES[type];
+      let query = supabase
+        .from(table as 'leads')
+        .select(`id, ${nameColumn}, email`)
+        .order(nameColumn as 'lead_name')
+        .limit(20);
+      if (term.trim()) query = query.ilike(nameColumn as 'lead_name', `%${term.trim()}%`);
+      const { data, error } = await query;
+      if (error) throw error;
+      return ((data || []) as Row[]).map(row => ({ id: row.id as string, name: (row[nameColumn] as string) || 'Unnamed', email: row.email as string | null }));
+    },
+  });
+};
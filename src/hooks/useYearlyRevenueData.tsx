@@ -2,6 +2,9 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useExchangeRates } from "@/hooks/useExchangeRates";
+import { getDealConversionDate } from "@/utils/currencyUtils";
 
 interface QuarterlyData {
   q1: number;
@@ -12,17 +15,24 @@ interface QuarterlyData {
 
 interface YearlyRevenueData {
   year: number;
-  target: number;
+  target: number | null; // null when the target's currency has no exchange rate
   actualRevenue: QuarterlyData;
   projectedRevenue: QuarterlyData;
   totalActual: number;
   totalProjected: number;
+  missingRateDeals: number;
   hasDeals: boolean;
 }
 
+// All amounts are converted into the user's display currency at the deal's signed/expected date;
+// deals in a currency without an exchange rate are left out and counted in missingRateDeals
 export const useYearlyRevenueData = (selectedYear: number) => {
+  const { wonStageNames } = usePipelineStages();
+  const { rates, reportingCurrency, displayCurrency, convert, isLoading: ratesLoading } = useExchangeRates();
+
   const { data: revenueData, isLoading, error } = useQuery({
-    queryKey: ['yearly-revenue', selectedYear],
+    queryKey: ['yearly-revenue', selectedYear, wonStageNames, displayCurrency, reportingCurrency, rates],
+    enabled: !ratesLoading,
     queryFn: async (): Promise<YearlyRevenueData> => {
       console.log('Fetching revenue data for year:', selectedYear);
 
@@ -35,6 +45,9 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       console.log('Target data:', targetData);
 
+      // Targets are stored in the reporting currency; null when it has no rate to the display currency
+      const target = convert(targetData?.total_target, reportingCurrency);
+
       // Get all deals and filter by year
       const { data: allDeals } = await supabase
         .from('deals')
@@ -56,17 +69,18 @@ export const useYearlyRevenueData = (selectedYear: number) => {
       if (dealsForYear.length === 0) {
         return {
           year: selectedYear,
-          target: targetData?.total_target || 0,
+          target,
           actualRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           projectedRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           totalActual: 0,
           totalProjected: 0,
+          missingRateDeals: 0,
           hasDeals: false
         };
       }
 
       // Separate Won and RFQ deals from filtered results
-      const wonDeals = dealsForYear.filter(deal => deal.stage === 'Won');
+      const wonDeals = dealsForYear.filter(deal => wonStageNames.includes(deal.stage));
       const rfqDeals = dealsForYear.filter(deal => deal.stage === 'RFQ');
 
       console.log('Won deals for year:', wonDeals);
@@ -77,38 +91,43 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       let totalActualRevenue = 0;
       let totalProjectedRevenue = 0;
+      let missingRateDeals = 0;
 
       // Process Won deals for actual revenue
       wonDeals?.forEach(deal => {
         console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue);
         
         if (deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
-          if (!isNaN(revenue)) {
+          const toDisplay = (value: number) =>
+            convert(value, deal.currency_type, getDealConversionDate(deal, true));
+          const revenue = toDisplay(Number(deal.total_revenue));
+          if (revenue === null) {
+            missingRateDeals++;
+          } else if (!isNaN(revenue)) {
             totalActualRevenue += revenue;
             console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
             
             // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
             if (deal.quarterly_revenue_q1) {
-              const q1Revenue = Number(deal.quarterly_revenue_q1);
+              const q1Revenue = toDisplay(Number(deal.quarterly_revenue_q1));
               if (!isNaN(q1Revenue)) {
                 actualRevenue.q1 += q1Revenue;
               }
             }
             if (deal.quarterly_revenue_q2) {
-              const q2Revenue = Number(deal.quarterly_revenue_q2);
+              const q2Revenue = toDisplay(Number(deal.quarterly_revenue_q2));
               if (!isNaN(q2Revenue)) {
                 actualRevenue.q2 += q2Revenue;
               }
             }
             if (deal.quarterly_revenue_q3) {
-              const q3Revenue = Number(deal.quarterly_revenue_q3);
+              const q3Revenue = toDisplay(Number(deal.quarterly_revenue_q3));
               if (!isNaN(q3Revenue)) {
                 actualRevenue.q3 += q3Revenue;
               }
             }
             if (deal.quarterly_revenue_q4) {
-              const q4Revenue = Number(deal.quarterly_revenue_q4);
+              const q4Revenue = toDisplay(Number(deal.quarterly_revenue_q4));
               if (!isNaN(q4Revenue)) {
                 actualRevenue.q4 += q4Revenue;
               }
@@ -122,8 +141,14 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         console.log('Processing RFQ deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
         
         if (deal.total_contract_value) {
-          const contractValue = Number(deal.total_contract_value);
-          if (!isNaN(contractValue)) {
+          const contractValue = convert(
+            Number(deal.total_contract_value),
+            deal.currency_type,
+            getDealConversionDate(deal, false)
+          );
+          if (contractValue === null) {
+            missingRateDeals++;
+          } else if (!isNaN(contractValue)) {
             totalProjectedRevenue += contractValue;
             console.log('Added projected revenue:', contractValue, 'Running total:', totalProjectedRevenue);
             
@@ -170,11 +195,12 @@ export const useYearlyRevenueData = (selectedYear: number) => {
 
       return {
         year: selectedYear,
-        target: targetData?.total_target || 0,
+        target,
         actualRevenue,
         projectedRevenue,
         totalActual: totalActualRevenue,
         totalProjected: totalProjectedRevenue,
+        missingRateDeals,
         hasDeals: true
       };
     },
@@ -225,8 +251,12 @@ export const useAvailableYears = () => {
 
 // Hook to get live dashboard stats
 export const useDashboardStats = () => {
+  const { wonStageNames } = usePipelineStages();
+  const { rates, displayCurrency, convert, isLoading: ratesLoading } = useExchangeRates();
+
   const { data: stats, isLoading } = useQuery({
-    queryKey: ['dashboard-stats'],
+    queryKey: ['dashboard-stats', wonStageNames, displayCurrency, rates],
+    enabled: !ratesLoading,
     queryFn: async () => {
       console.log('Fetching dashboard stats...');
       
@@ -243,8 +273,9 @@ export const useDashboardStats = () => {
       deals?.forEach(deal => {
         console.log('Processing deal for dashboard:', deal.deal_name, 'Stage:', deal.stage, 'Total Revenue:', deal.total_revenue);
         
-        if (deal.stage === 'Won' && deal.total_revenue) {
-          const revenue = Number(deal.total_revenue);
+        if (wonStageNames.includes(deal.stage) && deal.total_revenue) {
+          // Deals in a currency without an exchange rate are left out
+          const revenue = convert(Number(deal.total_revenue), deal.currency_type, getDealConversionDate(deal, true)) ?? 0;
           totalRevenue += revenue;
           console.log('Adding revenue from Won deal:', revenue, 'Running total:', totalRevenue);
         }
@@ -252,7 +283,7 @@ export const useDashboardStats = () => {
       
       console.log('Final dashboard total revenue:', totalRevenue);
       
-      const wonDeals = deals?.filter(deal => deal.stage === 'Won').length || 0;
+      const wonDeals = deals?.filter(deal => wonStageNames.includes(deal.stage)).length || 0;
 
       return {
         totalDeals,
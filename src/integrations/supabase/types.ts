@@ -73,8 +73,10 @@ export type Database = {
           country: string | null
           created_at: string | null
           created_by: string | null
+          custom_fields: Json
           deal_count: number | null
           email: string | null
+          external_id: string | null
           id: string
           industry: string | null
           last_activity_date: string | null
@@ -83,6 +85,7 @@ export type Database = {
           phone: string | null
           region: string | null
           score: number | null
+          search_vector: unknown | null
           segment: string | null
           status: string | null
           tags: string[] | null
@@ -98,8 +101,10 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
+          external_id?: string | null
           id?: string
           industry?: string | null
           last_activity_date?: string | null
@@ -108,6 +113,7 @@ export type Database = {
           phone?: string | null
           region?: string | null
           score?: number | null
+          search_vector?: never
           segment?: string | null
           status?: string | null
           tags?: string[] | null
@@ -123,8 +129,10 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
+          external_id?: string | null
           id?: string
           industry?: string | null
           last_activity_date?: string | null
@@ -133,6 +141,7 @@ export type Database = {
           phone?: string | null
           region?: string | null
           score?: number | null
+          search_vector?: never
           segment?: string | null
           status?: string | null
           tags?: string[] | null
@@ -260,8 +269,13 @@ export type Database = {
           created_at: string | null
           current_step: number | null
           entity_id: string
+          entity_label: string | null
           entity_type: string
           id: string
+          line_item_change: Json | null
+          operation: string
+          previous_values: Json | null
+          proposed_changes: Json | null
           status: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -273,8 +287,13 @@ export type Database = {
           created_at?: string | null
           current_step?: number | null
           entity_id: string
+          entity_label?: string | null
           entity_type: string
           id?: string
+          line_item_change?: Json | null
+          operation?: string
+          previous_values?: Json | null
+          proposed_changes?: Json | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -286,8 +305,13 @@ export type Database = {
           created_at?: string | null
           current_step?: number | null
           entity_id?: string
+          entity_label?: string | null
           entity_type?: string
           id?: string
+          line_item_change?: Json | null
+          operation?: string
+          previous_values?: Json | null
+          proposed_changes?: Json | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -466,6 +490,74 @@ export type Database = {
         }
         Relationships: []
       }
+      captured_emails: {
+        Row: {
+          attachments: Json
+          captured_at: string
+          email_history_id: string | null
+          html: string
+          id: string
+          recipient_email: string
+          recipient_name: string | null
+          sender_email: string
+          subject: string
+        }
+        Insert: {
+          attachments?: Json
+          captured_at?: string
+          email_history_id?: string | null
+          html: string
+          id?: string
+          recipient_email: string
+          recipient_name?: string | null
+          sender_email: string
+          subject: string
+        }
+        Update: {
+          attachments?: Json
+          captured_at?: string
+          email_history_id?: string | null
+          html?: string
+          id?: string
+          recipient_email?: string
+          recipient_name?: string | null
+          sender_email?: string
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "captured_emails_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_settings: {
+        Row: {
+          created_at: string
+          id: string
+          reporting_currency: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       contact_activities: {
         Row: {
           activity_date: string
@@ -526,11 +618,14 @@ export type Database = {
           contact_source: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           email_clicks: number | null
           email_opens: number | null
+          email_opt_out: boolean
           engagement_score: number | null
+          external_id: string | null
           id: string
           industry: string | null
           last_contacted_at: string | null
@@ -541,6 +636,7 @@ export type Database = {
           position: string | null
           region: string | null
           score: number | null
+          search_vector: unknown | null
           segment: string | null
           tags: string[] | null
           website: string | null
@@ -554,11 +650,14 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
           email_opens?: number | null
+          email_opt_out?: boolean
           engagement_score?: number | null
+          external_id?: string | null
           id?: string
           industry?: string | null
           last_contacted_at?: string | null
@@ -569,6 +668,7 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          search_vector?: never
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -582,11 +682,14 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
           email_opens?: number | null
+          email_opt_out?: boolean
           engagement_score?: number | null
+          external_id?: string | null
           id?: string
           industry?: string | null
           last_contacted_at?: string | null
@@ -597,6 +700,7 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          search_vector?: never
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -736,16 +840,247 @@ export type Database = {
           },
         ]
       }
+      deal_documents: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          deal_id: string
+          document_number: string
+          document_type: string
+          file_name: string | null
+          file_path: string | null
+          file_size: number | null
+          id: string
+          sent_at: string | null
+          sent_to: string | null
+          status: string
+          total_amount: number | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deal_id: string
+          document_number?: string
+          document_type?: string
+          file_name?: string | null
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          sent_at?: string | null
+          sent_to?: string | null
+          status?: string
+          total_amount?: number | null
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          deal_id?: string
+          document_number?: string
+          document_type?: string
+          file_name?: string | null
+          file_path?: string | null
+          file_size?: number | null
+          id?: string
+          sent_at?: string | null
+          sent_to?: string | null
+          status?: string
+          total_amount?: number | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_documents_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_line_items: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          deal_id: string
+          description: string | null
+          discount_percent: number
+          id: string
+          line_total: number
+          product_id: string | null
+          product_name: string
+          quantity: number
+          sku: string | null
+          sort_order: number
+          start_date: string | null
+          term_months: number | null
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          deal_id: string
+          description?: string | null
+          discount_percent?: number
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name: string
+          quantity?: number
+          sku?: string | null
+          sort_order?: number
+          start_date?: string | null
+          term_months?: number | null
+          unit_price?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          deal_id?: string
+          description?: string | null
+          discount_percent?: number
+          id?: string
+          line_total?: number
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          sku?: string | null
+          sort_order?: number
+          start_date?: string | null
+          term_months?: number | null
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_line_items_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deal_line_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_link_reviews: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          deal_id: string
+          id: string
+          link_type: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source_value: string
+          status: string
+          suggested_id: string | null
+          suggested_label: string | null
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          deal_id: string
+          id?: string
+          link_type: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_value: string
+          status?: string
+          suggested_id?: string | null
+          suggested_label?: string | null
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          deal_id?: string
+          id?: string
+          link_type?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source_value?: string
+          status?: string
+          suggested_id?: string | null
+          suggested_label?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_link_reviews_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deal_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          currency_type: string | null
+          deal_id: string
+          from_stage: string | null
+          id: string
+          probability: number | null
+          to_stage: string
+          total_contract_value: number | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          currency_type?: string | null
+          deal_id: string
+          from_stage?: string | null
+          id?: string
+          probability?: number | null
+          to_stage: string
+          total_contract_value?: number | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          currency_type?: string | null
+          deal_id?: string
+          from_stage?: string | null
+          id?: string
+          probability?: number | null
+          to_stage?: string
+          total_contract_value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_stage_history_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deals: {
         Row: {
+          account_id: string | null
           action_items: string | null
           budget: string | null
           business_value: string | null
           closing: string | null
+          contact_id: string | null
           created_at: string | null
           created_by: string | null
           currency_type: string | null
           current_status: string | null
+          custom_fields: Json
           customer_challenges: string | null
           customer_name: string | null
           customer_need: string | null
@@ -754,6 +1089,8 @@ export type Database = {
           drop_reason: string | null
           end_date: string | null
           expected_closing_date: string | null
+          external_id: string | null
+          forecast_category: string
           handoff_status: string | null
           id: string
           implementation_start_date: string | null
@@ -765,6 +1102,7 @@ export type Database = {
           modified_at: string | null
           modified_by: string | null
           need_improvement: string | null
+          price_book_id: string | null
           priority: number | null
           probability: number | null
           project_duration: number | null
@@ -778,6 +1116,7 @@ export type Database = {
           relationship_strength: string | null
           rfq_received_date: string | null
           rfq_status: string | null
+          search_vector: unknown | null
           signed_contract_date: string | null
           stage: string
           start_date: string | null
@@ -786,14 +1125,17 @@ export type Database = {
           won_reason: string | null
         }
         Insert: {
+          account_id?: string | null
           action_items?: string | null
           budget?: string | null
           business_value?: string | null
           closing?: string | null
+          contact_id?: string | null
           created_at?: string | null
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -802,6 +1144,8 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          external_id?: string | null
+          forecast_category?: string
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -813,6 +1157,7 @@ export type Database = {
           modified_at?: string | null
           modified_by?: string | null
           need_improvement?: string | null
+          price_book_id?: string | null
           priority?: number | null
           probability?: number | null
           project_duration?: number | null
@@ -826,6 +1171,7 @@ export type Database = {
           relationship_strength?: string | null
           rfq_received_date?: string | null
           rfq_status?: string | null
+          search_vector?: never
           signed_contract_date?: string | null
           stage?: string
           start_date?: string | null
@@ -834,14 +1180,17 @@ export type Database = {
           won_reason?: string | null
         }
         Update: {
+          account_id?: string | null
           action_items?: string | null
           budget?: string | null
           business_value?: string | null
           closing?: string | null
+          contact_id?: string | null
           created_at?: string | null
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -850,6 +1199,8 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          external_id?: string | null
+          forecast_category?: string
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -861,6 +1212,7 @@ export type Database = {
           modified_at?: string | null
           modified_by?: string | null
           need_improvement?: string | null
+          price_book_id?: string | null
           priority?: number | null
           probability?: number | null
           project_duration?: number | null
@@ -874,6 +1226,7 @@ export type Database = {
           relationship_strength?: string | null
           rfq_received_date?: string | null
           rfq_status?: string | null
+          search_vector?: never
           signed_contract_date?: string | null
           stage?: string
           start_date?: string | null
@@ -881,7 +1234,76 @@ export type Database = {
           total_revenue?: number | null
           won_reason?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "deals_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_events: {
+        Row: {
+          created_by: string | null
+          email_history_id: string
+          event_type: string
+          id: string
+          ip_address: string | null
+          is_machine: boolean
+          machine_reason: string | null
+          occurred_at: string
+          url: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          created_by?: string | null
+          email_history_id: string
+          event_type: string
+          id?: string
+          ip_address?: string | null
+          is_machine?: boolean
+          machine_reason?: string | null
+          occurred_at?: string
+          url?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          created_by?: string | null
+          email_history_id?: string
+          event_type?: string
+          id?: string
+          ip_address?: string | null
+          is_machine?: boolean
+          machine_reason?: string | null
+          occurred_at?: string
+          url?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_events_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       email_history: {
         Row: {
@@ -898,9 +1320,12 @@ export type Database = {
           opened_at: string | null
           recipient_email: string
           recipient_name: string | null
+          search_vector: unknown | null
           sender_email: string
           sent_at: string
           sent_by: string | null
+          sequence_enrollment_id: string | null
+          sequence_step_id: string | null
           status: string
           subject: string
           updated_at: string
@@ -919,9 +1344,12 @@ export type Database = {
           opened_at?: string | null
           recipient_email: string
           recipient_name?: string | null
+          search_vector?: never
           sender_email: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           status?: string
           subject: string
           updated_at?: string
@@ -940,9 +1368,12 @@ export type Database = {
           opened_at?: string | null
           recipient_email?: string
           recipient_name?: string | null
+          search_vector?: never
           sender_email?: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           status?: string
           subject?: string
           updated_at?: string
@@ -969,8 +1400,200 @@ export type Database = {
             referencedRelation: "leads"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_history_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_history_sequence_step_id_fkey"
+            columns: ["sequence_step_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      email_sequence_enrollments: {
+        Row: {
+          completed_at: string | null
+          contact_id: string | null
+          current_step: number
+          enrolled_at: string
+          enrolled_by: string | null
+          id: string
+          last_error: string | null
+          last_step_at: string | null
+          lead_id: string | null
+          next_step_at: string | null
+          sequence_id: string
+          status: string
+          stop_reason: string | null
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          last_error?: string | null
+          last_step_at?: string | null
+          lead_id?: string | null
+          next_step_at?: string | null
+          sequence_id: string
+          status?: string
+          stop_reason?: string | null
+          updated_at?: string
+        }
+        Update: {
+          completed_at?: string | null
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
+          id?: string
+          last_error?: string | null
+          last_step_at?: string | null
+          lead_id?: string | null
+          next_step_at?: string | null
+          sequence_id?: string
+          status?: string
+          stop_reason?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_enrollments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequence_steps: {
+        Row: {
+          created_at: string
+          day_offset: number
+          id: string
+          position: number
+          sequence_id: string
+          step_type: string
+          task_description: string | null
+          task_priority: string
+          task_title: string | null
+          template_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          day_offset?: number
+          id?: string
+          position: number
+          sequence_id: string
+          step_type: string
+          task_description?: string | null
+          task_priority?: string
+          task_title?: string | null
+          template_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          day_offset?: number
+          id?: string
+          position?: number
+          sequence_id?: string
+          step_type?: string
+          task_description?: string | null
+          task_priority?: string
+          task_title?: string | null
+          template_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_sequences: {
+        Row: {
+          business_days: number[]
+          business_hours_end: number
+          business_hours_start: number
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          meeting_action: string
+          name: string
+          reply_action: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          business_days?: number[]
+          business_hours_end?: number
+          business_hours_start?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          meeting_action?: string
+          name: string
+          reply_action?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          business_days?: number[]
+          business_hours_end?: number
+          business_hours_start?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          meeting_action?: string
+          name?: string
+          reply_action?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       email_templates: {
         Row: {
           body: string
@@ -1001,6 +1624,116 @@ export type Database = {
         }
         Relationships: []
       }
+      exchange_rates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_date: string
+          from_currency: string
+          id: string
+          rate: number
+          to_currency: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_date: string
+          from_currency: string
+          id?: string
+          rate: number
+          to_currency: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      forecast_snapshot_items: {
+        Row: {
+          amount: number | null
+          deal_id: string
+          deal_name: string | null
+          expected_closing_date: string | null
+          forecast_category: string
+          id: string
+          lead_owner: string | null
+          probability: number
+          region: string | null
+          snapshot_id: string
+          stage: string
+          weighted_amount: number | null
+        }
+        Insert: {
+          amount?: number | null
+          deal_id: string
+          deal_name?: string | null
+          expected_closing_date?: string | null
+          forecast_category: string
+          id?: string
+          lead_owner?: string | null
+          probability?: number
+          region?: string | null
+          snapshot_id: string
+          stage: string
+          weighted_amount?: number | null
+        }
+        Update: {
+          amount?: number | null
+          deal_id?: string
+          deal_name?: string | null
+          expected_closing_date?: string | null
+          forecast_category?: string
+          id?: string
+          lead_owner?: string | null
+          probability?: number
+          region?: string | null
+          snapshot_id?: string
+          stage?: string
+          weighted_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "forecast_snapshot_items_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "forecast_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      forecast_snapshots: {
+        Row: {
+          captured_at: string
+          captured_by: string | null
+          id: string
+          reporting_currency: string
+          week_start: string
+        }
+        Insert: {
+          captured_at?: string
+          captured_by?: string | null
+          id?: string
+          reporting_currency: string
+          week_start: string
+        }
+        Update: {
+          captured_at?: string
+          captured_by?: string | null
+          id?: string
+          reporting_currency?: string
+          week_start?: string
+        }
+        Relationships: []
+      }
       import_export_settings: {
         Row: {
           created_at: string
@@ -1008,8 +1741,11 @@ export type Database = {
           entity_type: string
           field_mappings: Json | null
           id: string
+          last_used_at: string | null
+          profile_name: string
           skip_duplicates: boolean | null
           updated_at: string
+          upsert_settings: Json | null
           user_id: string
         }
         Insert: {
@@ -1018,8 +1754,11 @@ export type Database = {
           entity_type: string
           field_mappings?: Json | null
           id?: string
+          last_used_at?: string | null
+          profile_name?: string
           skip_duplicates?: boolean | null
           updated_at?: string
+          upsert_settings?: Json | null
           user_id: string
         }
         Update: {
@@ -1028,12 +1767,116 @@ export type Database = {
           entity_type?: string
           field_mappings?: Json | null
           id?: string
+          last_used_at?: string | null
+          profile_name?: string
           skip_duplicates?: boolean | null
           updated_at?: string
+          upsert_settings?: Json | null
           user_id?: string
         }
         Relationships: []
       }
+      import_job_records: {
+        Row: {
+          action: string
+          created_at: string
+          id: string
+          imported_values: Json | null
+          job_id: string
+          previous_values: Json | null
+          record_id: string
+          rolled_back_at: string | null
+          written_columns: string[]
+        }
+        Insert: {
+          action: string
+          created_at?: string
+          id?: string
+          imported_values?: Json | null
+          job_id: string
+          previous_values?: Json | null
+          record_id: string
+          rolled_back_at?: string | null
+          written_columns?: string[]
+        }
+        Update: {
+          action?: string
+          created_at?: string
+          id?: string
+          imported_values?: Json | null
+          job_id?: string
+          previous_values?: Json | null
+          record_id?: string
+          rolled_back_at?: string | null
+          written_columns?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_records_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          created_at: string
+          created_by: string
+          created_count: number
+          entity_type: string
+          error_count: number
+          errors: Json
+          file_name: string | null
+          finished_at: string | null
+          id: string
+          mapping: Json | null
+          rolled_back_at: string | null
+          rolled_back_by: string | null
+          skipped_count: number
+          status: string
+          unrecorded_count: number
+          updated_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          created_count?: number
+          entity_type: string
+          error_count?: number
+          errors?: Json
+          file_name?: string | null
+          finished_at?: string | null
+          id?: string
+          mapping?: Json | null
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          skipped_count?: number
+          status?: string
+          unrecorded_count?: number
+          updated_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          created_count?: number
+          entity_type?: string
+          error_count?: number
+          errors?: Json
+          file_name?: string | null
+          finished_at?: string | null
+          id?: string
+          mapping?: Json | null
+          rolled_back_at?: string | null
+          rolled_back_by?: string | null
+          skipped_count?: number
+          status?: string
+          unrecorded_count?: number
+          updated_count?: number
+        }
+        Relationships: []
+      }
       integration_settings: {
         Row: {
           config: Json | null
@@ -1166,8 +2009,11 @@ export type Database = {
           country: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
+          email_opt_out: boolean
+          external_id: string | null
           id: string
           industry: string | null
           lead_name: string
@@ -1177,6 +2023,7 @@ export type Database = {
           modified_time: string | null
           phone_no: string | null
           position: string | null
+          search_vector: unknown | null
           website: string | null
         }
         Insert: {
@@ -1187,8 +2034,11 @@ export type Database = {
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
+          email_opt_out?: boolean
+          external_id?: string | null
           id?: string
           industry?: string | null
           lead_name: string
@@ -1198,6 +2048,7 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          search_vector?: never
           website?: string | null
         }
         Update: {
@@ -1208,8 +2059,11 @@ export type Database = {
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
+          email_opt_out?: boolean
+          external_id?: string | null
           id?: string
           industry?: string | null
           lead_name?: string
@@ -1219,6 +2073,7 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          search_vector?: never
           website?: string | null
         }
         Relationships: [
@@ -1338,6 +2193,7 @@ export type Database = {
           lead_id: string | null
           notes: string | null
           outcome: string | null
+          search_vector: unknown | null
           start_time: string
           status: string
           subject: string
@@ -1355,6 +2211,7 @@ export type Database = {
           lead_id?: string | null
           notes?: string | null
           outcome?: string | null
+          search_vector?: never
           start_time: string
           status?: string
           subject: string
@@ -1372,6 +2229,7 @@ export type Database = {
           lead_id?: string | null
           notes?: string | null
           outcome?: string | null
+          search_vector?: never
           start_time?: string
           status?: string
           subject?: string
@@ -1442,6 +2300,7 @@ export type Database = {
       notifications: {
         Row: {
           action_item_id: string | null
+          approval_request_id: string | null
           created_at: string
           id: string
           lead_id: string | null
@@ -1453,6 +2312,7 @@ export type Database = {
         }
         Insert: {
           action_item_id?: string | null
+          approval_request_id?: string | null
           created_at?: string
           id?: string
           lead_id?: string | null
@@ -1464,6 +2324,7 @@ export type Database = {
         }
         Update: {
           action_item_id?: string | null
+          approval_request_id?: string | null
           created_at?: string
           id?: string
           lead_id?: string | null
@@ -1473,7 +2334,15 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notifications_approval_request_id_fkey"
+            columns: ["approval_request_id"]
+            isOneToOne: false
+            referencedRelation: "approval_requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       page_permissions: {
         Row: {
@@ -1511,14 +2380,53 @@ export type Database = {
         }
         Relationships: []
       }
+      picklist_values: {
+        Row: {
+          color: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          list_key: string
+          sort_order: number
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          list_key: string
+          sort_order?: number
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          list_key?: string
+          sort_order?: number
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
       pipeline_stages: {
         Row: {
           created_at: string
           created_by: string | null
+          form_fields: string[]
           id: string
           is_active: boolean | null
+          is_drop_stage: boolean
           is_lost_stage: boolean | null
           is_won_stage: boolean | null
+          required_fields: string[]
           stage_color: string | null
           stage_name: string
           stage_order: number
@@ -1528,10 +2436,13 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          form_fields?: string[]
           id?: string
           is_active?: boolean | null
+          is_drop_stage?: boolean
           is_lost_stage?: boolean | null
           is_won_stage?: boolean | null
+          required_fields?: string[]
           stage_color?: string | null
           stage_name: string
           stage_order?: number
@@ -1541,10 +2452,13 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          form_fields?: string[]
           id?: string
           is_active?: boolean | null
+          is_drop_stage?: boolean
           is_lost_stage?: boolean | null
           is_won_stage?: boolean | null
+          required_fields?: string[]
           stage_color?: string | null
           stage_name?: string
           stage_order?: number
@@ -1553,6 +2467,123 @@ export type Database = {
         }
         Relationships: []
       }
+      price_book_entries: {
+        Row: {
+          created_at: string
+          currency: string
+          id: string
+          price_book_id: string
+          product_id: string
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          currency: string
+          id?: string
+          price_book_id: string
+          product_id: string
+          unit_price: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string
+          id?: string
+          price_book_id?: string
+          product_id?: string
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_book_entries_price_book_id_fkey"
+            columns: ["price_book_id"]
+            isOneToOne: false
+            referencedRelation: "price_books"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_book_entries_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_books: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      products: {
+        Row: {
+          billing_type: string
+          category: string | null
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          sku: string
+          unit: string
+          updated_at: string
+        }
+        Insert: {
+          billing_type?: string
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          sku: string
+          unit?: string
+          updated_at?: string
+        }
+        Update: {
+          billing_type?: string
+          category?: string | null
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          sku?: string
+          unit?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -1780,6 +2811,7 @@ export type Database = {
           contact_id: string | null
           created_at: string
           created_by: string | null
+          custom_fields: Json
           deal_id: string | null
           description: string | null
           due_date: string | null
@@ -1793,6 +2825,7 @@ export type Database = {
           recurrence: string | null
           recurrence_end_date: string | null
           reminder_date: string | null
+          search_vector: unknown | null
           status: string
           tags: string[] | null
           title: string
@@ -1806,6 +2839,7 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
+          custom_fields?: Json
           deal_id?: string | null
           description?: string | null
           due_date?: string | null
@@ -1819,6 +2853,7 @@ export type Database = {
           recurrence?: string | null
           recurrence_end_date?: string | null
           reminder_date?: string | null
+          search_vector?: never
           status?: string
           tags?: string[] | null
           title: string
@@ -1832,6 +2867,7 @@ export type Database = {
           contact_id?: string | null
           created_at?: string
           created_by?: string | null
+          custom_fields?: Json
           deal_id?: string | null
           description?: string | null
           due_date?: string | null
@@ -1845,6 +2881,7 @@ export type Database = {
           recurrence?: string | null
           recurrence_end_date?: string | null
           reminder_date?: string | null
+          search_vector?: never
           status?: string
           tags?: string[] | null
           title?: string
@@ -2032,6 +3069,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      act_on_approval_request: {
+        Args: { p_action: string; p_comments?: string; p_request_id: string }
+        Returns: string
+      }
       calculate_account_score: {
         Args: { p_account_id: string }
         Returns: number
@@ -2040,7 +3081,93 @@ export type Database = {
         Args: { p_contact_id: string }
         Returns: number
       }
+      can_act_on_approval_step: {
+        Args: { p_request_id: string; p_user_id?: string }
+        Returns: boolean
+      }
+      cancel_approval_request: {
+        Args: { p_comments?: string; p_request_id: string }
+        Returns: string
+      }
+      capture_forecast_snapshot: {
+        Args: { p_week_start?: string }
+        Returns: string
+      }
+      convert_currency: {
+        Args: { p_amount: number; p_date?: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      current_forecast_week: { Args: never; Returns: string }
+      enroll_in_sequence: {
+        Args: {
+          p_contact_ids?: string[]
+          p_lead_ids?: string[]
+          p_sequence_id: string
+        }
+        Returns: number
+      }
+      find_account_for_name: { Args: { p_name: string }; Returns: string }
+      find_contact_for_name: {
+        Args: { p_account_id?: string; p_name: string }
+        Returns: string
+      }
+      finish_import_job: {
+        Args: {
+          p_errors?: Json
+          p_failed?: boolean
+          p_job_id: string
+          p_unrecorded?: number
+        }
+        Returns: undefined
+      }
+      get_deal_line_item_totals: {
+        Args: { p_deal_id: string; p_default_start: string }
+        Returns: {
+          line_count: number
+          q1: number
+          q2: number
+          q3: number
+          q4: number
+          total: number
+        }[]
+      }
+      get_exchange_rate: {
+        Args: { p_date?: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      get_import_job_conflicts: {
+        Args: { p_job_id: string }
+        Returns: {
+          action: string
+          reason: string
+          record_id: string
+        }[]
+      }
+      get_missing_stage_fields: {
+        Args: { p_deal: Json; p_stage: string }
+        Returns: string[]
+      }
+      get_pair_rate: {
+        Args: { p_date: string; p_from: string; p_to: string }
+        Returns: number
+      }
+      get_reporting_currency: { Args: never; Returns: string }
+      get_sequence_step_metrics: {
+        Args: { p_sequence_id: string }
+        Returns: {
+          clicked: number
+          opened: number
+          replied: number
+          sent: number
+          step_id: string
+          unsubscribed: number
+        }[]
+      }
       get_user_role: { Args: { p_user_id: string }; Returns: string }
+      import_record_values: {
+        Args: { p_columns: string[]; p_row: Json }
+        Returns: Json
+      }
       is_current_user_admin: { Args: never; Returns: boolean }
       is_current_user_admin_by_metadata: { Args: never; Returns: boolean }
       is_user_admin: { Args: { user_id?: string }; Returns: boolean }
@@ -2061,6 +3188,64 @@ export type Database = {
         }
         Returns: undefined
       }
+      match_account_for_name: {
+        Args: { p_name: string }
+        Returns: {
+          account_id: string
+          company_name: string
+          confidence: number
+        }[]
+      }
+      match_contact_for_name: {
+        Args: { p_account_id?: string; p_name: string }
+        Returns: {
+          confidence: number
+          contact_id: string
+          contact_name: string
+        }[]
+      }
+      normalize_company_name: { Args: { p_name: string }; Returns: string }
+      normalize_person_name: { Args: { p_name: string }; Returns: string }
+      merge_picklist_value: {
+        Args: { p_from: string; p_list_key: string; p_to: string }
+        Returns: number
+      }
+      picklist_columns: {
+        Args: { p_list_key: string }
+        Returns: {
+          column_name: string
+          table_name: string
+        }[]
+      }
+      reassign_deals_stage: {
+        Args: { p_from_stage: string; p_to_stage: string }
+        Returns: number
+      }
+      resolve_deal_link_review: {
+        Args: { p_accept: boolean; p_review_id: string; p_target_id?: string }
+        Returns: undefined
+      }
+      rollback_import_job: {
+        Args: { p_job_id: string; p_overwrite_conflicts?: boolean }
+        Returns: Json
+      }
+      search_crm: {
+        Args: { p_limit?: number; p_query: string; p_types?: string[] }
+        Returns: {
+          rank: number
+          record_id: string
+          record_type: string
+          related_id: string
+          related_type: string
+          snippet: string
+          subtitle: string
+          title: string
+        }[]
+      }
+      search_tags_text: {
+        Args: { p_tags: string[] }
+        Returns: string
+      }
       update_account_stats: {
         Args: { p_account_id: string }
         Returns: undefined
@@ -1,13 +1,16 @@
 import AccountTable from "@/components/AccountTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Trash2, Upload, Download, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Plus, FileSpreadsheet } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
 import { useAccountsImportExport } from "@/hooks/useAccountsImportExport";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
+import { isXlsxFile } from "@/utils/xlsxWorkbook";
 import { AccountDeleteConfirmDialog } from "@/components/AccountDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { MatchingSelection } from "@/utils/serverQueryUtils";
 
 // Export interface for AccountTable ref
 export interface AccountTableRef {
@@ -21,13 +24,17 @@ const Accounts = () => {
   const [showColumnCustomizer, setShowColumnCustomizer] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [selectedAccounts, setSelectedAccounts] = useState<string[]>([]);
+  const [matchingSelection, setMatchingSelection] = useState<MatchingSelection | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
   
   // Ref to call bulk delete from AccountTable
   const accountTableRef = useRef<AccountTableRef>(null);
 
+  const selectedCount = matchingSelection?.count ?? selectedAccounts.length;
+
   const {
     handleImport,
     handleExport,
@@ -37,18 +44,18 @@ const Accounts = () => {
   });
 
   const handleBulkDeleteClick = () => {
-    if (selectedAccounts.length === 0) return;
+    if (selectedCount === 0) return;
     setShowBulkDeleteDialog(true);
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      handleImport(file);
+    if (file && (isXlsxFile(file) || file.name.toLowerCase().endsWith('.csv'))) {
+      setImportFile(file);
     } else {
       toast({
         title: "Error",
-        description: "Please select a valid CSV file",
+        description: "Please select a CSV or Excel file",
         variant: "destructive"
       });
     }
@@ -75,7 +82,7 @@ const Accounts = () => {
               <h1 className="text-xl text-foreground font-semibold">Accounts</h1>
             </div>
             <div className="flex items-center gap-3">
-              {selectedAccounts.length > 0 && (
+              {selectedCount > 0 && (
                 <TooltipProvider>
                   <Tooltip>
                     <TooltipTrigger asChild>
@@ -84,7 +91,7 @@ const Accounts = () => {
                       </Button>
                     </TooltipTrigger>
                     <TooltipContent>
-                      <p>Delete Selected ({selectedAccounts.length})</p>
+                      <p>Delete Selected ({selectedCount})</p>
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
@@ -103,19 +110,23 @@ const Accounts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
-                    disabled={selectedAccounts.length === 0} 
+                    disabled={selectedCount === 0} 
                     className="text-destructive focus:text-destructive"
                   >
                     <Trash2 className="w-4 h-4 mr-2" />
-                    Delete Selected ({selectedAccounts.length})
+                    Delete Selected ({selectedCount})
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -130,7 +141,17 @@ const Accounts = () => {
       </div>
 
       {/* Hidden file input */}
-      <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileSelect} className="hidden" />
+      <input ref={fileInputRef} type="file" accept=".csv,.xlsx" onChange={handleFileSelect} className="hidden" />
+
+      <ImportMappingDialog
+        file={importFile}
+        entity="accounts"
+        onCancel={() => setImportFile(null)}
+        onConfirm={(file, mapping) => {
+          handleImport(file, mapping);
+          setImportFile(null);
+        }}
+      />
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4">
@@ -142,10 +163,13 @@ const Accounts = () => {
           setShowModal={setShowModal} 
           selectedAccounts={selectedAccounts} 
           setSelectedAccounts={setSelectedAccounts} 
+          matchingSelection={matchingSelection}
+          onMatchingSelectionChange={setMatchingSelection}
           key={`${refreshTrigger}-${initialStatus}`}
           initialStatus={initialStatus}
           onBulkDeleteComplete={() => {
             setSelectedAccounts([]);
+            setMatchingSelection(null);
             setRefreshTrigger(prev => prev + 1);
             setShowBulkDeleteDialog(false);
           }} 
@@ -158,7 +182,7 @@ const Accounts = () => {
         onConfirm={executeBulkDelete} 
         onCancel={() => setShowBulkDeleteDialog(false)} 
         isMultiple={true} 
-        count={selectedAccounts.length} 
+        count={selectedCount} 
       />
     </div>
   );
@@ -0,0 +1,322 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ClipboardCheck, Check, X, MessageSquare, ExternalLink, Loader2, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useApprovals } from '@/hooks/useApprovals';
+import { useAuth } from '@/hooks/useAuth';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { formatDisplayDateTime } from '@/utils/dateFormatUtils';
+import { ApprovalAction, ApprovalActionType, ApprovalRequest, APPROVAL_ENTITY_LABELS } from '@/types/approval';
+
+type InboxTab = 'awaiting' | 'mine' | 'all';
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  pending: 'outline',
+  approved: 'default',
+  rejected: 'destructive',
+  cancelled: 'secondary',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatFieldName = (field: string) =>
+  field.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const Approvals = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const { requests, loading, canActOnRequest, canCancelRequest, canCommentOnRequest, fetchActions, actOnRequest, cancelRequest, acting } = useApprovals();
+
+  const [activeTab, setActiveTab] = useState<InboxTab>('awaiting');
+  const [selectedRequest, setSelectedRequest] = useState<ApprovalRequest | null>(null);
+  const [actions, setActions] = useState<ApprovalAction[]>([]);
+  const [comments, setComments] = useState('');
+
+  const userIds = useMemo(() => {
+    const ids = requests.map(r => r.submitted_by).concat(actions.map(a => a.approver_id));
+    return Array.from(new Set(ids.filter(Boolean))) as string[];
+  }, [requests, actions]);
+  const { displayNames } = useUserDisplayNames(userIds);
+
+  const visibleRequests = useMemo(() => {
+    switch (activeTab) {
+      case 'awaiting':
+        return requests.filter(canActOnRequest);
+      case 'mine':
+        return requests.filter(r => r.submitted_by === user?.id);
+      default:
+        return requests;
+    }
+  }, [activeTab, requests, canActOnRequest, user?.id]);
+
+  const awaitingCount = useMemo(() => requests.filter(canActOnRequest).length, [requests, canActOnRequest]);
+
+  // Open a request linked from a notification
+  useEffect(() => {
+    const requestId = searchParams.get('requestId');
+    if (requestId && requests.length > 0) {
+      const request = requests.find(r => r.id === requestId);
+      if (request) {
+        setSelectedRequest(request);
+        window.history.replaceState({}, '', '/approvals');
+      }
+    }
+  }, [searchParams, requests]);
+
+  useEffect(() => {
+    if (!selectedRequest) {
+      setActions([]);
+      setComments('');
+      return;
+    }
+    fetchActions(selectedRequest.id).then(setActions);
+  }, [selectedRequest, fetchActions]);
+
+  const handleAction = async (action: ApprovalActionType) => {
+    if (!selectedRequest) return;
+    try {
+      await actOnRequest({ requestId: selectedRequest.id, action, comments: comments.trim() || undefined });
+      if (action === 'commented') {
+        setComments('');
+        setActions(await fetchActions(selectedRequest.id));
+      } else {
+        setSelectedRequest(null);
+      }
+    } catch {
+      // Surfaced by the mutation's error toast
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selectedRequest) return;
+    try {
+      await cancelRequest({ requestId: selectedRequest.id, comments: comments.trim() || undefined });
+      setSelectedRequest(null);
+    } catch {
+      // Surfaced by the mutation's error toast
+    }
+  };
+
+  const openRecord = (request: ApprovalRequest) => {
+    navigate(`/${request.entity_type}?viewId=${request.entity_id}`);
+  };
+
+  const renderChanges = (request: ApprovalRequest) => {
+    const changes = request.proposed_changes || {};
+    const fields = Object.keys(changes).filter(field => field !== 'id');
+
+    if (fields.length === 0) {
+      return <p className="text-sm text-muted-foreground">No field changes recorded.</p>;
+    }
+
+    return (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Field</TableHead>
+            {request.operation === 'update' && <TableHead>Current</TableHead>}
+            <TableHead>{request.operation === 'update' ? 'Proposed' : 'Value'}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {fields.map(field => (
+            <TableRow key={field}>
+              <TableCell className="font-medium">{formatFieldName(field)}</TableCell>
+              {request.operation === 'update' && (
+                <TableCell className="text-muted-foreground">{formatValue(request.previous_values?.[field])}</TableCell>
+              )}
+              <TableCell>{formatValue(changes[field])}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full">
+            <div className="flex items-center gap-3 min-w-0 flex-1">
+              <ClipboardCheck className="h-5 w-5 text-primary" />
+              <h1 className="text-xl text-foreground font-semibold">Approvals</h1>
+              {awaitingCount > 0 && (
+                <Badge variant="destructive" className="rounded-full">
+                  {awaitingCount} awaiting you
+                </Badge>
+              )}
+            </div>
+            <Tabs value={activeTab} onValueChange={value => setActiveTab(value as InboxTab)}>
+              <TabsList>
+                <TabsTrigger value="awaiting">Awaiting Me</TabsTrigger>
+                <TabsTrigger value="mine">My Requests</TabsTrigger>
+                {isAdmin && <TabsTrigger value="all">All</TabsTrigger>}
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 min-h-0 overflow-auto px-6 py-4">
+        {visibleRequests.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <ClipboardCheck className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>No approval requests</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Record</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Workflow</TableHead>
+                <TableHead>Step</TableHead>
+                <TableHead>Submitted By</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRequests.map(request => (
+                <TableRow key={request.id} className="cursor-pointer" onClick={() => setSelectedRequest(request)}>
+                  <TableCell className="font-medium">{request.entity_label || '-'}</TableCell>
+                  <TableCell>
+                    {APPROVAL_ENTITY_LABELS[request.entity_type]}
+                    {request.operation === 'create' && <span className="text-muted-foreground"> (new)</span>}
+                  </TableCell>
+                  <TableCell>{request.workflow_name || '-'}</TableCell>
+                  <TableCell>{request.current_step} of {request.approval_steps?.length || 1}</TableCell>
+                  <TableCell>{request.submitted_by ? displayNames[request.submitted_by] || 'Unknown' : '-'}</TableCell>
+                  <TableCell>{formatDisplayDateTime(request.submitted_at)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[request.status] || 'secondary'} className="capitalize">
+                      {request.status}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <Dialog open={!!selectedRequest} onOpenChange={open => !open && setSelectedRequest(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {selectedRequest && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {APPROVAL_ENTITY_LABELS[selectedRequest.entity_type]}: {selectedRequest.entity_label || '-'}
+                  <Badge variant={STATUS_VARIANTS[selectedRequest.status] || 'secondary'} className="capitalize">
+                    {selectedRequest.status}
+                  </Badge>
+                </DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="text-sm text-muted-foreground">
+                  {selectedRequest.workflow_name || 'Approval'} · step {selectedRequest.current_step} of {selectedRequest.approval_steps?.length || 1}
+                  {' · '}
+                  {selectedRequest.operation === 'create' ? 'New record' : 'Change to existing record'}
+                </div>
+
+                {renderChanges(selectedRequest)}
+
+                <div>
+                  <h4 className="text-sm font-medium mb-2">History</h4>
+                  {actions.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No actions yet.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {actions.map(action => (
+                        <div key={action.id} className="text-sm border rounded-md p-2">
+                          <div className="flex items-center justify-between">
+                            <span>
+                              <span className="font-medium">{displayNames[action.approver_id || ''] || 'Unknown'}</span>
+                              {' '}{action.action} (step {action.step_number})
+                            </span>
+                            <span className="text-xs text-muted-foreground">{formatDisplayDateTime(action.acted_at)}</span>
+                          </div>
+                          {action.comments && <p className="mt-1 text-muted-foreground">{action.comments}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {canCommentOnRequest(selectedRequest) && (
+                  <Textarea
+                    placeholder="Add a comment..."
+                    value={comments}
+                    onChange={e => setComments(e.target.value)}
+                    rows={3}
+                  />
+                )}
+              </div>
+
+              <DialogFooter className="gap-2 sm:justify-between">
+                <Button variant="ghost" size="sm" onClick={() => openRecord(selectedRequest)}>
+                  <ExternalLink className="h-4 w-4 mr-1" />
+                  Open record
+                </Button>
+                {selectedRequest.status === 'pending' && (
+                  <div className="flex gap-2">
+                    {canCommentOnRequest(selectedRequest) && (
+                      <Button variant="outline" size="sm" disabled={acting || !comments.trim()} onClick={() => handleAction('commented')}>
+                        <MessageSquare className="h-4 w-4 mr-1" />
+                        Comment
+                      </Button>
+                    )}
+                    {canCancelRequest(selectedRequest) && (
+                      <Button variant="outline" size="sm" disabled={acting} onClick={handleCancel}>
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Withdraw
+                      </Button>
+                    )}
+                    {canActOnRequest(selectedRequest) && (
+                      <>
+                        <Button variant="destructive" size="sm" disabled={acting} onClick={() => handleAction('rejected')}>
+                          <X className="h-4 w-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button size="sm" disabled={acting} onClick={() => handleAction('approved')}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Approve
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Approvals;
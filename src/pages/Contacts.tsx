@@ -1,14 +1,17 @@
 import { ContactTable, ContactTableRef } from "@/components/ContactTable";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Settings, Trash2, Upload, Download, Mail, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Mail, Plus, FileSpreadsheet, ListOrdered } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useSimpleContactsImportExport } from "@/hooks/useSimpleContactsImportExport";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
+import { MatchingSelection, applyServerFilters, fetchAllMatchingRows } from "@/utils/serverQueryUtils";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 
 const Contacts = () => {
@@ -16,15 +19,20 @@ const Contacts = () => {
   const [showColumnCustomizer, setShowColumnCustomizer] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
+  const [matchingSelection, setMatchingSelection] = useState<MatchingSelection | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [sequenceRecordIds, setSequenceRecordIds] = useState<string[]>([]);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
   
   // Ref to call bulk delete from ContactTable
   const contactTableRef = useRef<ContactTableRef>(null);
 
+  const selectedCount = matchingSelection?.count ?? selectedContacts.length;
+
   const onRefresh = () => {
     setRefreshTrigger(prev => prev + 1);
   };
@@ -35,21 +43,15 @@ const Contacts = () => {
     fileInputRef.current?.click();
   };
 
-  const handleImportCSV = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  // The file goes through the column mapping step before it is imported
+  const handleImportCSV = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (!file) return;
-
-    try {
-      await handleImport(file);
-      event.target.value = '';
-    } catch (error: any) {
-      console.error('Import error:', error);
-      event.target.value = '';
-    }
+    event.target.value = '';
+    if (file) setImportFile(file);
   };
 
   const handleBulkDeleteClick = () => {
-    if (selectedContacts.length === 0) return;
+    if (selectedCount === 0) return;
     setShowBulkDeleteDialog(true);
   };
 
@@ -62,13 +64,29 @@ const Contacts = () => {
   };
 
   const handleBulkEmailClick = async () => {
-    if (selectedContacts.length === 0) return;
-    
-    const { data: contacts, error } = await supabase
-      .from('contacts')
-      .select('id, contact_name, email')
-      .in('id', selectedContacts);
+    if (selectedCount === 0) return;
     
+    let contacts: { id: string; contact_name: string; email: string | null }[] = [];
+    let error: unknown = null;
+    if (matchingSelection) {
+      try {
+        contacts = await fetchAllMatchingRows((from, to) =>
+          applyServerFilters(supabase.from('contacts').select('id, contact_name, email'), matchingSelection.filters)
+            .order('id')
+            .range(from, to)
+        );
+      } catch (fetchError) {
+        error = fetchError;
+      }
+    } else {
+      const result = await supabase
+        .from('contacts')
+        .select('id, contact_name, email')
+        .in('id', selectedContacts);
+      contacts = result.data || [];
+      error = result.error;
+    }
+
     if (error) {
       toast({
         title: "Error",
@@ -78,7 +96,7 @@ const Contacts = () => {
       return;
     }
 
-    const recipients: BulkEmailRecipient[] = (contacts || []).map(contact => ({
+    const recipients: BulkEmailRecipient[] = contacts.map(contact => ({
       id: contact.id,
       name: contact.contact_name,
       email: contact.email || undefined,
@@ -89,6 +107,30 @@ const Contacts = () => {
     setShowBulkEmailModal(true);
   };
 
+  const handleBulkEnrollClick = async () => {
+    if (selectedCount === 0) return;
+    if (!matchingSelection) {
+      setSequenceRecordIds(selectedContacts);
+      return;
+    }
+
+    try {
+      const rows = await fetchAllMatchingRows((from, to) =>
+        applyServerFilters(supabase.from('contacts').select('id'), matchingSelection.filters)
+          .order('id')
+          .range(from, to)
+      );
+      setSequenceRecordIds(rows.map(row => row.id));
+    } catch (error) {
+      console.error('Error fetching contacts to enroll:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch contact details",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="h-screen flex flex-col bg-background overflow-hidden">
       {/* Fixed Header */}
@@ -99,7 +141,7 @@ const Contacts = () => {
               <h1 className="text-xl text-foreground font-semibold">Contacts</h1>
             </div>
             <div className="flex items-center gap-3">
-              {selectedContacts.length > 0 && (
+              {selectedCount > 0 && (
                 <>
                   <TooltipProvider>
                     <Tooltip>
@@ -109,7 +151,7 @@ const Contacts = () => {
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Send Email to Selected ({selectedContacts.length})</p>
+                        <p>Send Email to Selected ({selectedCount})</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
@@ -121,7 +163,7 @@ const Contacts = () => {
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Delete Selected ({selectedContacts.length})</p>
+                        <p>Delete Selected ({selectedCount})</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
@@ -141,23 +183,31 @@ const Contacts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleImportClick} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedContacts.length === 0}>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedCount === 0}>
                     <Mail className="w-4 h-4 mr-2" />
-                    Send Bulk Email ({selectedContacts.length})
+                    Send Bulk Email ({selectedCount})
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleBulkEnrollClick} disabled={selectedCount === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Enroll in Sequence ({selectedCount})
                   </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
-                    disabled={selectedContacts.length === 0}
+                    disabled={selectedCount === 0}
                     className="text-destructive focus:text-destructive"
                   >
                     <Trash2 className="w-4 h-4 mr-2" />
-                    Delete Selected ({selectedContacts.length})
+                    Delete Selected ({selectedCount})
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -175,12 +225,22 @@ const Contacts = () => {
       <Input 
         ref={fileInputRef} 
         type="file" 
-        accept=".csv" 
+        accept=".csv,.xlsx" 
         onChange={handleImportCSV} 
         className="hidden" 
         disabled={isImporting} 
       />
 
+      <ImportMappingDialog
+        file={importFile}
+        entity="contacts"
+        onCancel={() => setImportFile(null)}
+        onConfirm={(file, mapping) => {
+          handleImport(file, mapping);
+          setImportFile(null);
+        }}
+      />
+
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4">
         <ContactTable 
@@ -192,6 +252,8 @@ const Contacts = () => {
           selectedContacts={selectedContacts} 
           setSelectedContacts={setSelectedContacts} 
           refreshTrigger={refreshTrigger}
+          matchingSelection={matchingSelection}
+          onMatchingSelectionChange={setMatchingSelection}
           onBulkDeleteComplete={() => {
             setSelectedContacts([]);
             setRefreshTrigger(prev => prev + 1);
@@ -204,7 +266,7 @@ const Contacts = () => {
       <AlertDialog open={showBulkDeleteDialog} onOpenChange={setShowBulkDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete {selectedContacts.length} contacts?</AlertDialogTitle>
+            <AlertDialogTitle>Delete {selectedCount} contacts?</AlertDialogTitle>
             <AlertDialogDescription>
               This action cannot be undone. This will permanently delete the selected contacts.
             </AlertDialogDescription>
@@ -225,6 +287,18 @@ const Contacts = () => {
         recipients={bulkEmailRecipients}
         onEmailsSent={() => {
           setSelectedContacts([]);
+          setMatchingSelection(null);
+        }}
+      />
+
+      <EnrollInSequenceModal
+        open={sequenceRecordIds.length > 0}
+        onOpenChange={(open) => !open && setSequenceRecordIds([])}
+        recordType="contact"
+        recordIds={sequenceRecordIds}
+        onEnrolled={() => {
+          setSelectedContacts([]);
+          setMatchingSelection(null);
         }}
       />
     </div>
@@ -1,4 +1,5 @@
 import YearlyRevenueSummary from "@/components/YearlyRevenueSummary";
+import PipelineVelocityAnalytics from "@/components/dashboard/PipelineVelocityAnalytics";
 import UserDashboard from "@/components/dashboard/UserDashboard";
 import { useUserRole } from "@/hooks/useUserRole";
 import { NotificationBell } from "@/components/NotificationBell";
@@ -219,6 +220,7 @@ const Dashboard = () => {
           <div className="p-6 space-y-8">
             <YearlyRevenueSummary selectedYear={selectedYear} />
             <div className="border-t border-border" />
+            <PipelineVelocityAnalytics selectedYear={selectedYear} />
           </div>
         ) : (
           <UserDashboard hideHeader />
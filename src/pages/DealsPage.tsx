@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { Deal, DealStage } from "@/types/deal";
@@ -12,6 +13,12 @@ import { Plus, LayoutGrid, List } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { DealsSettingsDropdown } from "@/components/DealsSettingsDropdown";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { findPendingApprovalRequest, isApprovalPendingError } from "@/utils/approvalUtils";
+import { parseStageGateError } from "@/components/deal-form/validation";
+
+// Deals are deleted this many at a time so the id list fits in the request
+const BULK_DELETE_CHUNK_SIZE = 200;
 const DealsPage = () => {
   const [searchParams] = useSearchParams();
   const initialStageFilter = searchParams.get('stage') || 'all';
@@ -20,6 +27,7 @@ const DealsPage = () => {
     loading: authLoading
   } = useAuth();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const {
     toast
   } = useToast();
@@ -28,9 +36,14 @@ const DealsPage = () => {
     logUpdate,
     logBulkDelete
   } = useCRUDAudit();
+  const {
+    openStageNames,
+    getDefaultProbability,
+    getProbabilityForStageChange
+  } = usePipelineStages();
   const [deals, setDeals] = useState<Deal[]>([]);
   const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
@@ -49,22 +62,24 @@ const DealsPage = () => {
     }
   }, [searchParams]);
 
-  // Handle viewId from URL (from global search)
+  // Handle viewId from URL (from global search); the list view only holds one page of deals
   useEffect(() => {
     const viewId = searchParams.get('viewId');
-    if (viewId && deals.length > 0) {
-      const dealToView = deals.find(d => d.id === viewId);
+    if (!viewId || !user) return;
+    const openDeal = async () => {
+      const dealToView = deals.find(d => d.id === viewId) ?? (await supabase.from('deals').select('*').eq('id', viewId).maybeSingle()).data as unknown as Deal | null;
       if (dealToView) {
         setSelectedDeal(dealToView);
         setIsCreating(false);
         setIsFormOpen(true);
-        // Clear the viewId from URL after opening
-        const newParams = new URLSearchParams(searchParams);
-        newParams.delete('viewId');
-        navigate(`/deals?${newParams.toString()}`, { replace: true });
       }
-    }
-  }, [searchParams, deals, navigate]);
+      // Clear the viewId from URL after opening
+      const newParams = new URLSearchParams(searchParams);
+      newParams.delete('viewId');
+      navigate(`/deals?${newParams.toString()}`, { replace: true });
+    };
+    openDeal();
+  }, [searchParams, user, navigate, deals]);
 
   // Filter deals by owner when owner=me
   useEffect(() => {
@@ -74,7 +89,7 @@ const DealsPage = () => {
       setFilteredDeals(deals);
     }
   }, [deals, ownerParam, user?.id]);
-  const fetchDeals = async () => {
+  const fetchDeals = useCallback(async () => {
     try {
       setLoading(true);
       const {
@@ -103,7 +118,13 @@ const DealsPage = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [toast]);
+
+  // The kanban board holds every deal; the list view loads its own pages
+  const refreshDeals = useCallback(async () => {
+    queryClient.invalidateQueries({ queryKey: ['deals-page'] });
+    if (activeView === 'kanban') await fetchDeals();
+  }, [queryClient, activeView, fetchDeals]);
   const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>) => {
     try {
       console.log("=== HANDLE UPDATE DEAL DEBUG ===");
@@ -111,11 +132,18 @@ const DealsPage = () => {
       console.log("Updates:", updates);
 
       // Get the existing deal for audit logging
-      const existingDeal = deals.find(deal => deal.id === dealId);
+      const existingDeal = deals.find(deal => deal.id === dealId) ?? (await supabase.from('deals').select('*').eq('id', dealId).maybeSingle()).data as unknown as Deal | undefined;
+
+      // Moving stage brings the new stage's default probability with it
+      const stageChanged = updates.stage && existingDeal && updates.stage !== existingDeal.stage;
+      const probabilityUpdate = stageChanged && updates.probability === undefined ? {
+        probability: getProbabilityForStageChange(existingDeal.stage, updates.stage, existingDeal.probability)
+      } : {};
 
       // Ensure we have all required fields for the update
       const updateData = {
         ...updates,
+        ...probabilityUpdate,
         modified_at: new Date().toISOString(),
         modified_by: user?.id
       };
@@ -130,6 +158,17 @@ const DealsPage = () => {
       }
       console.log("Update successful, data:", data);
 
+      // An approval workflow may hold the change instead of applying it
+      const pendingApproval = await findPendingApprovalRequest('deals', dealId);
+      if (pendingApproval) {
+        setDeals(prev => prev.map(deal => deal.id === dealId ? data as unknown as Deal : deal));
+        toast({
+          title: "Submitted for approval",
+          description: "This change requires approval and will be applied once approved"
+        });
+        return;
+      }
+
       // Log update operation
       await logUpdate('deals', dealId, updates, existingDeal);
 
@@ -138,12 +177,25 @@ const DealsPage = () => {
         ...deal,
         ...updateData
       } : deal));
+      queryClient.invalidateQueries({ queryKey: ['deals-page'] });
       toast({
         title: "Success",
         description: "Deal updated successfully"
       });
     } catch (error: any) {
       console.error("Update deal error:", error);
+      // Stage gate errors are surfaced by the caller as a field list
+      if (parseStageGateError(error)) {
+        throw error;
+      }
+      if (isApprovalPendingError(error)) {
+        toast({
+          title: "Awaiting approval",
+          description: "This deal has a pending approval request and cannot be changed until it is resolved",
+          variant: "destructive"
+        });
+        throw error;
+      }
       toast({
         title: "Error",
         description: `Failed to update deal: ${error.message || 'Unknown error'}`,
@@ -161,6 +213,7 @@ const DealsPage = () => {
         const insertData = {
           ...dealData,
           deal_name: dealData.project_name || dealData.deal_name || 'Untitled Deal',
+          probability: dealData.probability ?? getDefaultProbability(dealData.stage || initialStage),
           created_by: user?.id,
           // Ensure created_by is set for RLS
           modified_by: user?.id,
@@ -191,6 +244,13 @@ const DealsPage = () => {
         // Log create operation
         await logCreate('deals', data.id, dealData);
         setDeals(prev => [data as unknown as Deal, ...prev]);
+        queryClient.invalidateQueries({ queryKey: ['deals-page'] });
+        if (await findPendingApprovalRequest('deals', data.id)) {
+          toast({
+            title: "Submitted for approval",
+            description: "The new deal is locked until its approval request is resolved"
+          });
+        }
       } else if (selectedDeal) {
         const updateData = {
           ...dealData,
@@ -200,7 +260,7 @@ const DealsPage = () => {
         };
         console.log("Update data for existing deal:", updateData);
         await handleUpdateDeal(selectedDeal.id, updateData);
-        await fetchDeals();
+        await refreshDeals();
       }
     } catch (error: any) {
       console.error("Error in handleSaveDeal:", error);
@@ -212,22 +272,25 @@ const DealsPage = () => {
       console.log("Attempting to delete deals:", dealIds);
 
       // Request the IDs of the rows that were actually deleted (RLS will filter)
-      const {
-        data,
-        error
-      } = await supabase.from('deals').delete().in('id', dealIds).select('id');
-      if (error) {
-        console.error("Delete error:", error);
-        toast({
-          title: "Error",
-          description: "Failed to delete deals",
-          variant: "destructive"
-        });
-        return;
+      const deletedIds: string[] = [];
+      for (let i = 0; i < dealIds.length; i += BULK_DELETE_CHUNK_SIZE) {
+        const {
+          data,
+          error
+        } = await supabase.from('deals').delete().in('id', dealIds.slice(i, i + BULK_DELETE_CHUNK_SIZE)).select('id');
+        if (error) {
+          console.error("Delete error:", error);
+          toast({
+            title: "Error",
+            description: "Failed to delete deals",
+            variant: "destructive"
+          });
+          return;
+        }
+        deletedIds.push(...(data || []).map((row: {
+          id: string;
+        }) => row.id));
       }
-      const deletedIds = (data || []).map((row: {
-        id: string;
-      }) => row.id);
       const notDeleted = dealIds.filter(id => !deletedIds.includes(id));
       console.log("Deleted IDs:", deletedIds);
       console.log("Not deleted due to RLS/permissions:", notDeleted);
@@ -235,6 +298,7 @@ const DealsPage = () => {
       // Update local state only for deals that were actually deleted
       if (deletedIds.length > 0) {
         setDeals(prev => prev.filter(deal => !deletedIds.includes(deal.id)));
+        queryClient.invalidateQueries({ queryKey: ['deals-page'] });
 
         // Log bulk delete with only the successfully deleted IDs
         await logBulkDelete('deals', deletedIds.length, deletedIds);
@@ -273,7 +337,7 @@ const DealsPage = () => {
     // by the simplified CSV processor in useDealsImportExport hook
     console.log('handleImportDeals called with:', importedDeals.length, 'deals');
     // Refresh data after import
-    await fetchDeals();
+    await refreshDeals();
   };
   const handleCreateDeal = (stage: DealStage) => {
     setInitialStage(stage);
@@ -298,7 +362,7 @@ const DealsPage = () => {
   }, [user, authLoading, navigate]);
   useEffect(() => {
     if (user) {
-      fetchDeals();
+      if (activeView === 'kanban') fetchDeals();
 
       // Set up real-time subscription
       const channel = supabase.channel('deals-changes').on('postgres_changes', {
@@ -307,6 +371,7 @@ const DealsPage = () => {
         table: 'deals'
       }, payload => {
         console.log('Real-time deal change:', payload);
+        queryClient.invalidateQueries({ queryKey: ['deals-page'] });
         if (payload.eventType === 'INSERT') {
           setDeals(prev => [payload.new as Deal, ...prev]);
         } else if (payload.eventType === 'UPDATE') {
@@ -322,7 +387,7 @@ const DealsPage = () => {
       // Listen for custom import events
       const handleImportEvent = () => {
         console.log('DealsPage: Received deals-data-updated event, refreshing...');
-        fetchDeals();
+        refreshDeals();
       };
       window.addEventListener('deals-data-updated', handleImportEvent);
       return () => {
@@ -330,7 +395,7 @@ const DealsPage = () => {
         window.removeEventListener('deals-data-updated', handleImportEvent);
       };
     }
-  }, [user]);
+  }, [user, activeView, fetchDeals, queryClient, refreshDeals]);
   if (authLoading || loading) {
     return <div className="h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -363,11 +428,11 @@ const DealsPage = () => {
               </div>
 
               {/* Settings dropdown between view toggle and Add Deal */}
-              <DealsSettingsDropdown deals={deals} onRefresh={fetchDeals} selectedDeals={[]} showColumns={activeView === 'list'} onColumnCustomize={() => {
+              <DealsSettingsDropdown deals={activeView === 'kanban' ? deals : undefined} onRefresh={refreshDeals} selectedDeals={[]} showColumns={activeView === 'list'} onColumnCustomize={() => {
               window.dispatchEvent(new CustomEvent('open-deal-columns'));
             }} />
 
-              <Button size="sm" onClick={() => handleCreateDeal('Lead')} className="gap-1.5">
+              <Button size="sm" onClick={() => handleCreateDeal(openStageNames[0] || 'Lead')} className="gap-1.5">
                 <Plus className="h-4 w-4" />
                 Add Deal
               </Button>
@@ -378,11 +443,11 @@ const DealsPage = () => {
 
       {/* Main Content Area - Takes remaining height */}
       <div className="flex-1 min-h-0 overflow-hidden">
-        {activeView === 'kanban' ? <KanbanBoard deals={filteredDeals} onUpdateDeal={handleUpdateDeal} onDealClick={handleDealClick} onCreateDeal={handleCreateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} onRefresh={fetchDeals} /> : <ListView deals={filteredDeals} onDealClick={handleDealClick} onUpdateDeal={handleUpdateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} initialStageFilter={stageFilterFromUrl} />}
+        {activeView === 'kanban' ? <KanbanBoard deals={filteredDeals} onUpdateDeal={handleUpdateDeal} onDealClick={handleDealClick} onCreateDeal={handleCreateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} onRefresh={fetchDeals} /> : <ListView onDealClick={handleDealClick} onUpdateDeal={handleUpdateDeal} onDeleteDeals={handleDeleteDeals} onImportDeals={handleImportDeals} initialStageFilter={stageFilterFromUrl} createdBy={ownerParam === 'me' ? user.id : undefined} />}
       </div>
 
       {/* Deal Form Modal */}
-      <DealForm deal={selectedDeal} isOpen={isFormOpen} onClose={handleCloseForm} onSave={handleSaveDeal} onRefresh={fetchDeals} isCreating={isCreating} initialStage={initialStage} />
+      <DealForm deal={selectedDeal} isOpen={isFormOpen} onClose={handleCloseForm} onSave={handleSaveDeal} onRefresh={refreshDeals} isCreating={isCreating} initialStage={initialStage} />
     </div>;
 };
 export default DealsPage;
\ No newline at end of file
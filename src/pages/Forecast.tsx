@@ -0,0 +1,298 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { LineChart, Loader2, Camera, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useForecast, rollupForecast, ForecastGroupBy, ForecastQuarter, ForecastChangeType, ForecastDeal } from '@/hooks/useForecast';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useUserPreferences } from '@/contexts/UserPreferencesContext';
+import { FORECAST_CATEGORIES, ForecastCategory } from '@/types/deal';
+import { formatDisplayDate } from '@/utils/dateFormatUtils';
+import { usePicklist } from '@/hooks/usePicklists';
+import { getPicklistGroup } from '@/utils/picklistUtils';
+import { MissingRateNotice, MissingRateValue } from '@/components/shared/MissingRateNotice';
+
+const QUARTERS: ForecastQuarter[] = ['all', 'Q1', 'Q2', 'Q3', 'Q4'];
+
+const CHANGE_LABELS: Record<ForecastChangeType, string> = {
+  new: 'New',
+  slipped: 'Slipped',
+  won: 'Won',
+  lost: 'Lost',
+  amount: 'Amount changed',
+};
+
+const CHANGE_VARIANTS: Record<ForecastChangeType, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  new: 'secondary',
+  slipped: 'outline',
+  won: 'default',
+  lost: 'destructive',
+  amount: 'outline',
+};
+
+const Forecast = () => {
+  const navigate = useNavigate();
+  const { isAdmin, isManager } = useUserRole();
+  const { formatCurrency } = useUserPreferences();
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [quarter, setQuarter] = useState<ForecastQuarter>(`Q${Math.floor(new Date().getMonth() / 3) + 1}` as ForecastQuarter);
+  const [groupBy, setGroupBy] = useState<ForecastGroupBy>('owner');
+
+  const { periodDeals, changes, previousTotals, missingRateDeals, previousWeekStart, isLoading, updateCategory, captureSnapshot } = useForecast(year, quarter);
+
+  const ownerIds = useMemo(
+    () => Array.from(new Set(periodDeals.map(d => d.owner).filter(Boolean))) as string[],
+    [periodDeals]
+  );
+  const { displayNames } = useUserDisplayNames(ownerIds);
+  const { values: regions } = usePicklist('region');
+
+  const groupKey = (deal: ForecastDeal) => {
+    if (groupBy === 'owner') return deal.owner ? displayNames[deal.owner] || 'Unknown' : 'Unassigned';
+    if (groupBy === 'region') return getPicklistGroup(regions, deal.region, 'No region');
+    return deal.quarter;
+  };
+
+  const rollup = rollupForecast(periodDeals, groupKey);
+  const totals = rollupForecast(periodDeals, () => 'total')[0];
+  const openDeals = periodDeals
+    .filter(d => !d.isWon && !d.isLost)
+    .sort((a, b) => FORECAST_CATEGORIES.indexOf(a.category) - FORECAST_CATEGORIES.indexOf(b.category) || b.amount - a.amount);
+
+  const renderDelta = (current: number, previous: number) => {
+    if (!previousWeekStart) return <p className="text-xs text-muted-foreground">No earlier snapshot</p>;
+    const delta = current - previous;
+    const Icon = delta >= 0 ? ArrowUpRight : ArrowDownRight;
+    return (
+      <p className={`text-xs flex items-center gap-1 ${delta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+        <Icon className="h-3 w-3" />
+        {formatCurrency(Math.abs(delta))} since {formatDisplayDate(previousWeekStart)}
+      </p>
+    );
+  };
+
+  const summaryCards = [
+    { title: 'Closed Won', value: totals?.closedWon || 0, footer: <p className="text-xs text-muted-foreground">Signed in period</p> },
+    { title: 'Commit', value: totals?.commit || 0, footer: renderDelta(totals?.commit || 0, previousTotals.commit) },
+    { title: 'Best Case', value: totals?.bestCase || 0, footer: <p className="text-xs text-muted-foreground">Commit + best case</p> },
+    { title: 'Pipeline', value: totals?.pipeline || 0, footer: renderDelta(totals?.pipeline || 0, previousTotals.pipeline) },
+    { title: 'Weighted', value: totals?.weighted || 0, footer: renderDelta(totals?.weighted || 0, previousTotals.weighted) },
+  ];
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center justify-between w-full">
+            <div className="flex items-center gap-3 min-w-0 flex-1">
+              <LineChart className="h-5 w-5 text-primary" />
+              <h1 className="text-xl text-foreground font-semibold">Forecast</h1>
+            </div>
+            <div className="flex items-center gap-3">
+              <Select value={year.toString()} onValueChange={value => setYear(parseInt(value))}>
+                <SelectTrigger className="w-24">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[currentYear - 1, currentYear, currentYear + 1].map(y => (
+                    <SelectItem key={y} value={y.toString()}>{y}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={quarter} onValueChange={value => setQuarter(value as ForecastQuarter)}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUARTERS.map(q => (
+                    <SelectItem key={q} value={q}>{q === 'all' ? 'Full year' : q}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {(isAdmin || isManager) && (
+                <Button variant="outline" size="sm" onClick={() => captureSnapshot.mutate()} disabled={captureSnapshot.isPending}>
+                  <Camera className="h-4 w-4 mr-2" />
+                  Snapshot
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 min-h-0 overflow-auto px-6 py-4 space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+              {summaryCards.map(card => (
+                <Card key={card.title}>
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{formatCurrency(card.value)}</div>
+                    {card.footer}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <MissingRateNotice count={missingRateDeals} className="-mt-4" />
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="text-base">Roll-up</CardTitle>
+                <Tabs value={groupBy} onValueChange={value => setGroupBy(value as ForecastGroupBy)}>
+                  <TabsList>
+                    <TabsTrigger value="owner">Owner</TabsTrigger>
+                    <TabsTrigger value="region">Region</TabsTrigger>
+                    <TabsTrigger value="quarter">Quarter</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+              </CardHeader>
+              <CardContent>
+                {rollup.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No deals close in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="capitalize">{groupBy}</TableHead>
+                        <TableHead className="text-right">Open Deals</TableHead>
+                        <TableHead className="text-right">Closed Won</TableHead>
+                        <TableHead className="text-right">Commit</TableHead>
+                        <TableHead className="text-right">Best Case</TableHead>
+                        <TableHead className="text-right">Pipeline</TableHead>
+                        <TableHead className="text-right">Weighted</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rollup.map(row => (
+                        <TableRow key={row.key}>
+                          <TableCell className="font-medium">{row.key}</TableCell>
+                          <TableCell className="text-right">{row.openDeals}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.closedWon)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.commit)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.bestCase)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.pipeline)}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(row.weighted)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  Changes since {previousWeekStart ? `week of ${formatDisplayDate(previousWeekStart)}` : 'last week'}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!previousWeekStart ? (
+                  <p className="text-sm text-muted-foreground">The first snapshot was taken this week. Changes appear from next week.</p>
+                ) : changes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nothing moved in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Change</TableHead>
+                        <TableHead>Deal</TableHead>
+                        <TableHead>Detail</TableHead>
+                        <TableHead className="text-right">Impact</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {changes.map(change => (
+                        <TableRow key={`${change.type}-${change.dealId}`} className="cursor-pointer" onClick={() => navigate(`/deals?viewId=${change.dealId}`)}>
+                          <TableCell>
+                            <Badge variant={CHANGE_VARIANTS[change.type]}>{CHANGE_LABELS[change.type]}</Badge>
+                          </TableCell>
+                          <TableCell className="font-medium">{change.name}</TableCell>
+                          <TableCell className="text-muted-foreground">{change.detail}</TableCell>
+                          <TableCell className={`text-right ${change.amountDelta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {change.amountDelta >= 0 ? '+' : '-'}{formatCurrency(Math.abs(change.amountDelta))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Open Deals</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {openDeals.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No open deals close in this period.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Deal</TableHead>
+                        <TableHead>Owner</TableHead>
+                        <TableHead>Stage</TableHead>
+                        <TableHead>Close Date</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Probability</TableHead>
+                        <TableHead className="text-right">Weighted</TableHead>
+                        <TableHead>Category</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {openDeals.map(deal => (
+                        <TableRow key={deal.id}>
+                          <TableCell className="font-medium">{deal.name}</TableCell>
+                          <TableCell>{deal.owner ? displayNames[deal.owner] || 'Unknown' : '-'}</TableCell>
+                          <TableCell>{deal.stage}</TableCell>
+                          <TableCell>{deal.closeDate ? formatDisplayDate(deal.closeDate) : '-'}</TableCell>
+                          <TableCell className="text-right">{deal.missingRate ? <MissingRateValue /> : formatCurrency(deal.amount)}</TableCell>
+                          <TableCell className="text-right">{deal.probability}%</TableCell>
+                          <TableCell className="text-right">{deal.missingRate ? <MissingRateValue /> : formatCurrency(deal.weighted)}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={deal.category}
+                              onValueChange={value => updateCategory.mutate({ dealId: deal.id, category: value as ForecastCategory })}
+                            >
+                              <SelectTrigger className="w-32 h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {FORECAST_CATEGORIES.map(category => (
+                                  <SelectItem key={category} value={category}>{category}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Forecast;
@@ -0,0 +1,262 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { History, Loader2, RotateCcw, ExternalLink, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useImportJobs } from '@/hooks/useImportJobs';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { formatDisplayDateTime } from '@/utils/dateFormatUtils';
+import { ImportJob, ImportJobConflict, ImportJobStatus, IMPORT_JOB_ENTITY_LABELS } from '@/types/importJob';
+
+const STATUS_LABELS: Record<ImportJobStatus, string> = {
+  running: 'Running',
+  completed: 'Completed',
+  failed: 'Failed',
+  rolled_back: 'Rolled back',
+  partially_rolled_back: 'Partly rolled back',
+};
+
+const STATUS_VARIANTS: Record<ImportJobStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  running: 'outline',
+  completed: 'default',
+  failed: 'destructive',
+  rolled_back: 'secondary',
+  partially_rolled_back: 'outline',
+};
+
+const ROLLBACK_STATUSES: ImportJobStatus[] = ['completed', 'failed', 'partially_rolled_back'];
+const MAX_LISTED_CONFLICTS = 50;
+
+const ImportHistory = () => {
+  const navigate = useNavigate();
+  const { isAdmin } = useUserRole();
+  const { jobs, loading, fetchConflicts, rollback, rollingBack } = useImportJobs();
+
+  const [selectedJob, setSelectedJob] = useState<ImportJob | null>(null);
+  const [conflicts, setConflicts] = useState<ImportJobConflict[] | null>(null);
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+
+  const userIds = useMemo(() => {
+    const ids = jobs.map(job => job.created_by).concat(jobs.map(job => job.rolled_back_by));
+    return Array.from(new Set(ids.filter(Boolean)));
+  }, [jobs]);
+  const { displayNames } = useUserDisplayNames(userIds);
+
+  const canRollBack = (job: ImportJob) => isAdmin && ROLLBACK_STATUSES.includes(job.status);
+
+  // Conflicts are checked when the job is opened so the admin decides before anything changes
+  useEffect(() => {
+    setConflicts(null);
+    setOverwriteConflicts(false);
+    if (!selectedJob || !isAdmin || !ROLLBACK_STATUSES.includes(selectedJob.status)) return;
+
+    let cancelled = false;
+    fetchConflicts(selectedJob.id)
+      .then(result => {
+        if (!cancelled) setConflicts(result);
+      })
+      .catch(() => {
+        if (!cancelled) setConflicts([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedJob, isAdmin, fetchConflicts]);
+
+  const handleRollback = async () => {
+    if (!selectedJob) return;
+    try {
+      await rollback({ jobId: selectedJob.id, overwriteConflicts });
+      setSelectedJob(null);
+    } catch {
+      // Surfaced by the mutation's error toast
+    }
+  };
+
+  const renderCounts = (job: ImportJob) => (
+    <span className="text-sm">
+      {job.created_count} new · {job.updated_count} updated
+      {job.skipped_count > 0 && ` · ${job.skipped_count} skipped`}
+      {job.error_count > 0 && <span className="text-destructive"> · {job.error_count} errors</span>}
+      {job.unrecorded_count > 0 && <span className="text-destructive"> · {job.unrecorded_count} not recorded</span>}
+    </span>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center gap-3 min-w-0 flex-1">
+            <History className="h-5 w-5 text-primary" />
+            <h1 className="text-xl text-foreground font-semibold">Import History</h1>
+          </div>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 min-h-0 overflow-auto px-6 py-4">
+        {jobs.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <History className="h-10 w-10 mx-auto mb-3 opacity-50" />
+            <p>No imports yet</p>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Module</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead>Imported By</TableHead>
+                <TableHead>Records</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobs.map(job => (
+                <TableRow key={job.id} className="cursor-pointer" onClick={() => setSelectedJob(job)}>
+                  <TableCell>{formatDisplayDateTime(job.created_at)}</TableCell>
+                  <TableCell>{IMPORT_JOB_ENTITY_LABELS[job.entity_type]}</TableCell>
+                  <TableCell className="font-medium max-w-[240px] truncate" title={job.file_name || undefined}>
+                    {job.file_name || '-'}
+                  </TableCell>
+                  <TableCell>{displayNames[job.created_by] || 'Unknown'}</TableCell>
+                  <TableCell>{renderCounts(job)}</TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[job.status]}>{STATUS_LABELS[job.status]}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <Dialog open={!!selectedJob} onOpenChange={open => !open && setSelectedJob(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          {selectedJob && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-2">
+                  {IMPORT_JOB_ENTITY_LABELS[selectedJob.entity_type]}: {selectedJob.file_name || 'Import'}
+                  <Badge variant={STATUS_VARIANTS[selectedJob.status]}>{STATUS_LABELS[selectedJob.status]}</Badge>
+                </DialogTitle>
+                <DialogDescription>
+                  {displayNames[selectedJob.created_by] || 'Unknown'} · {formatDisplayDateTime(selectedJob.created_at)}
+                  {selectedJob.rolled_back_at && (
+                    <> · rolled back by {displayNames[selectedJob.rolled_back_by || ''] || 'Unknown'} {formatDisplayDateTime(selectedJob.rolled_back_at)}</>
+                  )}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {renderCounts(selectedJob)}
+
+                {selectedJob.errors.length > 0 && (
+                  <div>
+                    <h4 className="text-sm font-medium mb-2">Errors</h4>
+                    <div className="max-h-40 overflow-y-auto rounded-md border p-2 text-sm text-muted-foreground space-y-1">
+                      {selectedJob.errors.map((error, index) => <div key={index}>{error}</div>)}
+                    </div>
+                  </div>
+                )}
+
+                {canRollBack(selectedJob) && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Roll back</h4>
+                    <p className="text-sm text-muted-foreground">
+                      Deletes the records this import created and restores the fields it overwrote. Related action items
+                      and line items replaced by the import are not restored.
+                    </p>
+                    {selectedJob.unrecorded_count > 0 && (
+                      <div className="flex items-center gap-2 text-sm text-destructive">
+                        <AlertTriangle className="h-4 w-4" />
+                        {selectedJob.unrecorded_count} imported {selectedJob.unrecorded_count === 1 ? 'row was' : 'rows were'} not
+                        recorded and won't be undone
+                      </div>
+                    )}
+                    {conflicts === null ? (
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        Checking for changes since the import...
+                      </div>
+                    ) : conflicts.length > 0 && (
+                      <div className="space-y-2 rounded-md border p-3">
+                        <div className="flex items-center gap-2 text-sm font-medium">
+                          <AlertTriangle className="h-4 w-4 text-destructive" />
+                          {conflicts.length} {conflicts.length === 1 ? 'record has' : 'records have'} changed since the import
+                        </div>
+                        <div className="max-h-40 overflow-y-auto text-sm space-y-1">
+                          {conflicts.slice(0, MAX_LISTED_CONFLICTS).map(conflict => (
+                            <div key={conflict.record_id} className="flex items-center justify-between">
+                              <span className="text-muted-foreground">
+                                {conflict.reason === 'deleted'
+                                  ? 'Updated record was deleted and cannot be restored'
+                                  : `${conflict.action === 'created' ? 'Created' : 'Updated'} record was edited`}
+                              </span>
+                              {conflict.reason === 'edited' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => navigate(`/${selectedJob.entity_type}?viewId=${conflict.record_id}`)}
+                                >
+                                  <ExternalLink className="h-4 w-4 mr-1" />
+                                  Open
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id="overwrite-conflicts"
+                            checked={overwriteConflicts}
+                            onCheckedChange={checked => setOverwriteConflicts(checked === true)}
+                          />
+                          <Label htmlFor="overwrite-conflicts" className="text-sm font-normal">
+                            Roll back edited records too, discarding the later edits
+                          </Label>
+                        </div>
+                        {!overwriteConflicts && (
+                          <p className="text-xs text-muted-foreground">
+                            Edited records are left as they are and the job stays open for a later rollback.
+                          </p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setSelectedJob(null)}>Close</Button>
+                {canRollBack(selectedJob) && (
+                  <Button variant="destructive" disabled={rollingBack || conflicts === null} onClick={handleRollback}>
+                    {rollingBack ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+                    Roll Back Import
+                  </Button>
+                )}
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -1,15 +1,19 @@
 import LeadTable, { LeadTableRef } from "@/components/LeadTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus, Trash2, Upload, Download, Mail } from "lucide-react";
+import { Settings, Plus, Trash2, Upload, Download, Mail, FileSpreadsheet, ListOrdered } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { useSimpleLeadsImportExport } from "@/hooks/useSimpleLeadsImportExport";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
+import { isXlsxFile } from "@/utils/xlsxWorkbook";
 import { LeadDeleteConfirmDialog } from "@/components/LeadDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/EnrollInSequenceModal";
 import { supabase } from "@/integrations/supabase/client";
 import { useSearchParams } from "react-router-dom";
+import { MatchingSelection, applyServerFilters, fetchAllMatchingRows } from "@/utils/serverQueryUtils";
 
 const Leads = () => {
   const [searchParams] = useSearchParams();
@@ -18,20 +22,25 @@ const Leads = () => {
   const [showColumnCustomizer, setShowColumnCustomizer] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [selectedLeads, setSelectedLeads] = useState<string[]>([]);
+  const [matchingSelection, setMatchingSelection] = useState<MatchingSelection | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
+  const [sequenceRecordIds, setSequenceRecordIds] = useState<string[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
   const leadTableRef = useRef<LeadTableRef>(null);
   
   const { handleImport, handleExport, isImporting } = useSimpleLeadsImportExport(() => {
     setRefreshTrigger(prev => prev + 1);
   });
 
+  const selectedCount = matchingSelection?.count ?? selectedLeads.length;
+
   const handleBulkDelete = async (deleteLinkedRecords: boolean = true) => {
-    if (selectedLeads.length === 0) return;
+    if (selectedCount === 0) return;
     setIsDeleting(true);
     try {
       await leadTableRef.current?.handleBulkDelete(deleteLinkedRecords);
@@ -42,19 +51,35 @@ const Leads = () => {
   };
 
   const handleBulkDeleteClick = () => {
-    if (selectedLeads.length === 0) return;
+    if (selectedCount === 0) return;
     setShowBulkDeleteDialog(true);
   };
 
   const handleBulkEmailClick = async () => {
-    if (selectedLeads.length === 0) return;
+    if (selectedCount === 0) return;
     
     // Fetch lead details for selected leads
-    const { data: leads, error } = await supabase
-      .from('leads')
-      .select('id, lead_name, email')
-      .in('id', selectedLeads);
-    
+    let leads: { id: string; lead_name: string; email: string | null }[] = [];
+    let error: unknown = null;
+    if (matchingSelection) {
+      try {
+        leads = await fetchAllMatchingRows((from, to) =>
+          applyServerFilters(supabase.from('leads').select('id, lead_name, email'), matchingSelection.filters)
+            .order('id')
+            .range(from, to)
+        );
+      } catch (fetchError) {
+        error = fetchError;
+      }
+    } else {
+      const result = await supabase
+        .from('leads')
+        .select('id, lead_name, email')
+        .in('id', selectedLeads);
+      leads = result.data || [];
+      error = result.error;
+    }
+
     if (error) {
       toast({
         title: "Error",
@@ -64,7 +89,7 @@ const Leads = () => {
       return;
     }
 
-    const recipients: BulkEmailRecipient[] = (leads || []).map(lead => ({
+    const recipients: BulkEmailRecipient[] = leads.map(lead => ({
       id: lead.id,
       name: lead.lead_name,
       email: lead.email || undefined,
@@ -75,14 +100,38 @@ const Leads = () => {
     setShowBulkEmailModal(true);
   };
 
+  const handleBulkEnrollClick = async () => {
+    if (selectedCount === 0) return;
+    if (!matchingSelection) {
+      setSequenceRecordIds(selectedLeads);
+      return;
+    }
+
+    try {
+      const rows = await fetchAllMatchingRows((from, to) =>
+        applyServerFilters(supabase.from('leads').select('id'), matchingSelection.filters)
+          .order('id')
+          .range(from, to)
+      );
+      setSequenceRecordIds(rows.map(row => row.id));
+    } catch (error) {
+      console.error('Error fetching leads to enroll:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch lead details",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      handleImport(file);
+    if (file && (isXlsxFile(file) || file.name.toLowerCase().endsWith('.csv'))) {
+      setImportFile(file);
     } else {
       toast({
         title: "Error",
-        description: "Please select a valid CSV file",
+        description: "Please select a CSV or Excel file",
         variant: "destructive"
       });
     }
@@ -93,6 +142,7 @@ const Leads = () => {
 
   const handleBulkDeleteComplete = () => {
     setSelectedLeads([]);
+    setMatchingSelection(null);
     setRefreshTrigger(prev => prev + 1);
   };
 
@@ -106,7 +156,7 @@ const Leads = () => {
               <h1 className="text-xl text-foreground font-semibold">Leads</h1>
             </div>
             <div className="flex items-center gap-3">
-              {selectedLeads.length > 0 && (
+              {selectedCount > 0 && (
                 <>
                   <TooltipProvider>
                     <Tooltip>
@@ -116,7 +166,7 @@ const Leads = () => {
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>Send Email to Selected ({selectedLeads.length})</p>
+                        <p>Send Email to Selected ({selectedCount})</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
@@ -128,7 +178,7 @@ const Leads = () => {
                         </Button>
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p>{isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}</p>
+                        <p>{isDeleting ? 'Deleting...' : `Delete Selected (${selectedCount})`}</p>
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
@@ -148,19 +198,27 @@ const Leads = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedLeads.length === 0}>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedCount === 0}>
                     <Mail className="w-4 h-4 mr-2" />
-                    Send Bulk Email ({selectedLeads.length})
+                    Send Bulk Email ({selectedCount})
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={handleBulkEnrollClick} disabled={selectedCount === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Enroll in Sequence ({selectedCount})
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedLeads.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
+                  <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedCount === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
-                    {isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}
+                    {isDeleting ? 'Deleting...' : `Delete Selected (${selectedCount})`}
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -178,11 +236,21 @@ const Leads = () => {
       <input 
         ref={fileInputRef} 
         type="file" 
-        accept=".csv" 
+        accept=".csv,.xlsx" 
         onChange={handleFileSelect} 
         className="hidden"
       />
 
+      <ImportMappingDialog
+        file={importFile}
+        entity="leads"
+        onCancel={() => setImportFile(null)}
+        onConfirm={(file, mapping) => {
+          handleImport(file, mapping);
+          setImportFile(null);
+        }}
+      />
+
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4">
         <LeadTable 
@@ -195,6 +263,8 @@ const Leads = () => {
           setSelectedLeads={setSelectedLeads} 
           key={`${refreshTrigger}-${initialStatus}`}
           initialStatus={initialStatus}
+          matchingSelection={matchingSelection}
+          onMatchingSelectionChange={setMatchingSelection}
           onBulkDeleteComplete={handleBulkDeleteComplete}
         />
       </div>
@@ -205,7 +275,7 @@ const Leads = () => {
         onConfirm={handleBulkDelete} 
         onCancel={() => setShowBulkDeleteDialog(false)} 
         isMultiple={true} 
-        count={selectedLeads.length} 
+        count={selectedCount} 
       />
 
       {/* Bulk Email Modal */}
@@ -215,6 +285,18 @@ const Leads = () => {
         recipients={bulkEmailRecipients}
         onEmailsSent={() => {
           setSelectedLeads([]);
+          setMatchingSelection(null);
+        }}
+      />
+
+      <EnrollInSequenceModal
+        open={sequenceRecordIds.length > 0}
+        onOpenChange={(open) => !open && setSequenceRecordIds([])}
+        recordType="lead"
+        recordIds={sequenceRecordIds}
+        onEnrolled={() => {
+          setSelectedLeads([]);
+          setMatchingSelection(null);
         }}
       />
     </div>
@@ -11,7 +11,7 @@ import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Search, Video, Trash2, Edit, Calendar, ArrowUpDown, ArrowUp, ArrowDown, List, CalendarDays, CheckCircle2, AlertCircle, UserX, CalendarClock, User, Columns, Upload, Download, X, Eye } from "lucide-react";
+import { Plus, Search, Video, Trash2, Edit, Calendar, ArrowUpDown, ArrowUp, ArrowDown, List, CalendarDays, CheckCircle2, AlertCircle, UserX, CalendarClock, User, Columns, Upload, Download, X, Eye, FileSpreadsheet } from "lucide-react";
 import { RowActionsDropdown } from "@/components/RowActionsDropdown";
 import { HighlightedText } from "@/components/shared/HighlightedText";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -21,6 +21,7 @@ import { MeetingModal } from "@/components/MeetingModal";
 import { MeetingColumnCustomizer, defaultMeetingColumns, MeetingColumnConfig } from "@/components/meetings/MeetingColumnCustomizer";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { TablePagination } from "@/components/shared/TablePagination";
+import { ImportMappingDialog } from "@/components/shared/ImportMappingDialog";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { getMeetingStatus } from "@/utils/meetingStatus";
@@ -90,6 +91,7 @@ const Meetings = () => {
   const { handleImport, handleExport, isImporting, isExporting, fileInputRef, triggerFileInput } = useMeetingsImportExport(() => {
     fetchMeetings();
   });
+  const [importFile, setImportFile] = useState<File | null>(null);
 
   // Sync owner filter when URL has owner=me
   useEffect(() => {
@@ -412,12 +414,11 @@ const Meetings = () => {
     setSearchParams(newParams);
   };
 
+  // The file goes through the column mapping step before it is imported
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      handleImport(file);
-      e.target.value = ''; // Reset input
-    }
+    e.target.value = ''; // Reset input
+    if (file) setImportFile(file);
   };
 
   if (loading) {
@@ -435,10 +436,20 @@ const Meetings = () => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept=".csv"
+        accept=".csv,.xlsx"
         className="hidden"
       />
 
+      <ImportMappingDialog
+        file={importFile}
+        entity="meetings"
+        onCancel={() => setImportFile(null)}
+        onConfirm={(file, mapping) => {
+          handleImport(file, mapping);
+          setImportFile(null);
+        }}
+      />
+
       {/* Fixed Header */}
       <div className="flex-shrink-0 bg-background">
         <div className="px-6 h-16 flex items-center border-b w-full">
@@ -487,10 +498,14 @@ const Meetings = () => {
                     <Upload className="h-4 w-4 mr-2" />
                     {isImporting ? 'Importing...' : 'Import CSV'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleExport(filteredMeetings)} disabled={isExporting || filteredMeetings.length === 0}>
+                  <DropdownMenuItem onClick={() => handleExport(filteredMeetings, 'csv')} disabled={isExporting || filteredMeetings.length === 0}>
                     <Download className="h-4 w-4 mr-2" />
                     {isExporting ? 'Exporting...' : 'Export CSV'}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport(filteredMeetings, 'xlsx')} disabled={isExporting || filteredMeetings.length === 0}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    {isExporting ? 'Exporting...' : 'Export Excel'}
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     disabled={selectedMeetings.length === 0} 
                     className="text-destructive focus:text-destructive"
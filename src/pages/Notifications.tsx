@@ -61,7 +61,9 @@ const Notifications = () => {
     const dealMatch = message.match(/deal[:\s]+([a-f0-9-]{36})/);
     const leadMatch = message.match(/lead[:\s]+([a-f0-9-]{36})/);
     
-    if (notification.lead_id) {
+    if (notification.notification_type === 'approval') {
+      navigate(notification.approval_request_id ? `/approvals?requestId=${notification.approval_request_id}` : '/approvals');
+    } else if (notification.lead_id) {
       navigate(`/leads?highlight=${notification.lead_id}`);
     } else if (dealMatch) {
       const dealId = dealMatch[1];
@@ -102,6 +104,8 @@ const Notifications = () => {
         return '👤';
       case 'deal_update':
         return '💼';
+      case 'approval':
+        return '✅';
       default:
         return '🔔';
     }
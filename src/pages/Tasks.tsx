@@ -10,10 +10,11 @@ import { TaskKanbanView } from '@/components/tasks/TaskKanbanView';
 import { TaskCalendarView } from '@/components/tasks/TaskCalendarView';
 import { TaskColumnCustomizer } from '@/components/tasks/TaskColumnCustomizer';
 import { BulkDeleteConfirmDialog } from '@/components/shared/BulkDeleteConfirmDialog';
+import { ImportMappingDialog } from '@/components/shared/ImportMappingDialog';
 import { Button } from '@/components/ui/button';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Plus, Loader2, List, LayoutGrid, CalendarDays, Trash2, Columns, Download, Upload } from 'lucide-react';
+import { Plus, Loader2, List, LayoutGrid, CalendarDays, Trash2, Columns, Download, Upload, FileSpreadsheet } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 
@@ -22,7 +23,7 @@ const Tasks = () => {
   const initialStatus = searchParams.get('status') || 'all';
   const { user } = useAuth();
   const { tasks, loading, fetchTasks, createTask, updateTask, deleteTask } = useTasks();
-  const { importing, exporting, exportToCSV, importFromCSV } = useTasksImportExport(tasks, fetchTasks);
+  const { importing, exporting, exportToCSV, exportToExcel, importFromCSV } = useTasksImportExport(tasks, fetchTasks);
   
   const [showModal, setShowModal] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
@@ -36,6 +37,7 @@ const Tasks = () => {
   const [bulkDeleting, setBulkDeleting] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importFile, setImportFile] = useState<File | null>(null);
 
   // Get owner parameter from URL - "me" means filter by current user
   const ownerParam = searchParams.get('owner');
@@ -132,14 +134,11 @@ const Tasks = () => {
     fileInputRef.current?.click();
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The file goes through the column mapping step before it is imported
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      await importFromCSV(file);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
-    }
+    e.target.value = '';
+    if (file) setImportFile(file);
   };
 
   if (loading) {
@@ -157,7 +156,7 @@ const Tasks = () => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept=".csv"
+        accept=".csv,.xlsx"
         className="hidden"
       />
 
@@ -205,6 +204,10 @@ const Tasks = () => {
                     <Download className="h-4 w-4 mr-2" />
                     {exporting ? 'Exporting...' : 'Export CSV'}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportToExcel} disabled={exporting}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    {exporting ? 'Exporting...' : 'Export Excel'}
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     disabled={selectedTasks.length === 0} 
                     className="text-destructive focus:text-destructive"
@@ -254,6 +257,16 @@ const Tasks = () => {
         )}
       </div>
 
+      <ImportMappingDialog
+        file={importFile}
+        entity="tasks"
+        onCancel={() => setImportFile(null)}
+        onConfirm={(file, mapping) => {
+          importFromCSV(file, mapping);
+          setImportFile(null);
+        }}
+      />
+
       {/* Task Modal */}
       <TaskModal open={showModal} onOpenChange={handleCloseModal} task={editingTask} onSubmit={createTask} onUpdate={updateTask} />
 
@@ -0,0 +1,45 @@
+export type ApprovalEntityType = 'deals' | 'leads' | 'accounts';
+export type ApprovalRequestStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type ApprovalOperation = 'create' | 'update';
+export type ApprovalActionType = 'approved' | 'rejected' | 'commented';
+
+export interface ApprovalStep {
+  step: number;
+  role: 'manager' | 'admin';
+  user_id?: string;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  workflow_id: string | null;
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  entity_label: string | null;
+  operation: ApprovalOperation;
+  proposed_changes: Record<string, unknown> | null;
+  previous_values: Record<string, unknown> | null;
+  current_step: number | null;
+  status: ApprovalRequestStatus;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  completed_at: string | null;
+  // Joined data
+  workflow_name?: string;
+  approval_steps?: ApprovalStep[];
+}
+
+export interface ApprovalAction {
+  id: string;
+  request_id: string;
+  step_number: number;
+  approver_id: string | null;
+  action: ApprovalActionType | 'cancelled';
+  comments: string | null;
+  acted_at: string;
+}
+
+export const APPROVAL_ENTITY_LABELS: Record<ApprovalEntityType, string> = {
+  deals: 'Deal',
+  leads: 'Lead',
+  accounts: 'Account',
+};
@@ -0,0 +1,38 @@
+export type CustomFieldEntity = 'lead' | 'contact' | 'deal' | 'account' | 'task';
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'boolean';
+
+// Stored value by type: text/select/date (YYYY-MM-DD) as strings, multiselect as a string array
+export type CustomFieldValue = string | number | boolean | string[] | null;
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+export interface CustomField {
+  id: string;
+  entity_type: CustomFieldEntity;
+  field_name: string;
+  field_label: string;
+  field_type: CustomFieldType;
+  field_options: string[] | null;
+  is_required: boolean;
+  is_visible: boolean;
+  display_order: number;
+}
+
+export const CUSTOM_FIELD_ENTITY_LABELS: Record<CustomFieldEntity, string> = {
+  lead: 'Leads',
+  contact: 'Contacts',
+  account: 'Accounts',
+  deal: 'Deals',
+  task: 'Tasks',
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Picklist',
+  multiselect: 'Multi-select picklist',
+  boolean: 'Checkbox',
+};
+
+// Table columns, search fields and import columns address a custom field as `custom_fields.<name>`
+export const CUSTOM_FIELD_KEY_PREFIX = 'custom_fields.';
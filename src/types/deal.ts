@@ -1,4 +1,31 @@
-export type DealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+import { CustomFieldValues } from './customField';
+
+export type DefaultDealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+
+// Stages are configured in the pipeline_stages table, so any stage name is allowed
+export type DealStage = DefaultDealStage | (string & Record<never, never>);
+
+// Rep's call on a deal for the forecast roll-up
+export type ForecastCategory = 'Commit' | 'Best Case' | 'Pipeline';
+
+export const FORECAST_CATEGORIES: ForecastCategory[] = ['Commit', 'Best Case', 'Pipeline'];
+
+export interface PipelineStage {
+  id: string;
+  stage_name: string;
+  stage_order: number;
+  stage_color: string | null;
+  stage_probability: number | null;
+  is_active: boolean | null;
+  is_won_stage: boolean | null;
+  is_lost_stage: boolean | null;
+  // A lost stage for deals the team walked away from rather than lost
+  is_drop_stage?: boolean;
+  // Deal fields that must be filled before a deal can move into the stage
+  required_fields?: string[];
+  // Fields shown on the stage's section of the deal form, in order
+  form_fields?: string[];
+}
 
 export interface Deal {
   id: string;
@@ -10,6 +37,10 @@ export interface Deal {
   // Basic deal info
   deal_name: string;
   stage: DealStage;
+
+  // Linked account and primary contact
+  account_id?: string | null;
+  contact_id?: string | null;
   
   // Lead stage fields
   project_name?: string;
@@ -19,6 +50,7 @@ export interface Deal {
   region?: string;
   priority?: number; // 1-5 range enforced by DB constraint
   probability?: number; // 0-100 range enforced by DB constraint
+  forecast_category?: ForecastCategory;
   internal_comment?: string;
   
   // Discussions stage fields
@@ -34,8 +66,10 @@ export interface Deal {
   is_recurring?: 'Yes' | 'No' | 'Unclear';
   
   // RFQ stage fields
+  // Derived from the deal's line items once it has any
   total_contract_value?: number;
   currency_type?: 'EUR' | 'USD' | 'INR';
+  price_book_id?: string | null;
   start_date?: string;
   end_date?: string;
   project_duration?: number;
@@ -65,65 +99,60 @@ export interface Deal {
   
   // Dropped stage fields
   drop_reason?: string;
+
+  // Admin-defined fields (crm_custom_fields), keyed by field name
+  custom_fields?: CustomFieldValues;
 }
 
 export const DEAL_STAGES: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
 
-export const STAGE_COLORS = {
-  Lead: 'bg-stage-lead text-stage-lead-foreground border-stage-lead-foreground/20',
-  Discussions: 'bg-stage-discussions text-stage-discussions-foreground border-stage-discussions-foreground/20',
-  Qualified: 'bg-stage-qualified text-stage-qualified-foreground border-stage-qualified-foreground/20',
-  RFQ: 'bg-stage-rfq text-stage-rfq-foreground border-stage-rfq-foreground/20',
-  Offered: 'bg-stage-offered text-stage-offered-foreground border-stage-offered-foreground/20',
-  Won: 'bg-stage-won text-stage-won-foreground border-stage-won-foreground/20',
-  Lost: 'bg-stage-lost text-stage-lost-foreground border-stage-lost-foreground/20',
-  Dropped: 'bg-stage-dropped text-stage-dropped-foreground border-stage-dropped-foreground/20',
-};
+// Fallback used until pipeline_stages has loaded (mirrors the seeded rows)
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { id: 'default-lead', stage_name: 'Lead', stage_order: 0, stage_color: '#6b7280', stage_probability: 10, is_active: true, is_won_stage: false, is_lost_stage: false, is_drop_stage: false },
+  { id: 'default-discussions', stage_name: 'Discussions', stage_order: 1, stage_color: '#10b981', stage_probability: 20, is_active: true, is_won_stage: false, is_lost_stage: false, is_drop_stage: false },
+  { id: 'default-qualified', stage_name: 'Qualified', stage_order: 2, stage_color: '#3b82f6', stage_probability: 40, is_active: true, is_won_stage: false, is_lost_stage: false, is_drop_stage: false },
+  { id: 'default-rfq', stage_name: 'RFQ', stage_order: 3, stage_color: '#8b5cf6', stage_probability: 60, is_active: true, is_won_stage: false, is_lost_stage: false, is_drop_stage: false },
+  { id: 'default-offered', stage_name: 'Offered', stage_order: 4, stage_color: '#f59e0b', stage_probability: 80, is_active: true, is_won_stage: false, is_lost_stage: false, is_drop_stage: false },
+  { id: 'default-won', stage_name: 'Won', stage_order: 5, stage_color: '#22c55e', stage_probability: 100, is_active: true, is_won_stage: true, is_lost_stage: false, is_drop_stage: false },
+  { id: 'default-lost', stage_name: 'Lost', stage_order: 6, stage_color: '#ef4444', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, is_drop_stage: false },
+  { id: 'default-dropped', stage_name: 'Dropped', stage_order: 7, stage_color: '#94a3b8', stage_probability: 0, is_active: true, is_won_stage: false, is_lost_stage: true, is_drop_stage: true },
+];
 
 export const getStageIndex = (stage: DealStage): number => {
   return DEAL_STAGES.indexOf(stage);
 };
 
-export const getFieldsForStage = (stage: DealStage): string[] => {
-  const stageIndex = getStageIndex(stage);
-  const allStages = [
-    // Lead fields
-    ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    // Discussions fields  
-    ['customer_need', 'relationship_strength', 'internal_comment'],
-    // Qualified fields
-    ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'is_recurring'],
-    // RFQ fields
-    ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
-    // Offered fields
-    ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-  ];
-  
-  let availableFields: string[] = [];
-  for (let i = 0; i <= stageIndex && i < allStages.length; i++) {
-    availableFields = [...availableFields, ...allStages[i]];
-  }
-  
-  // Add final stage-specific reason fields based on the current stage
-  if (stage === 'Won') {
-    availableFields.push('won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status');
-  } else if (stage === 'Lost') {
-    availableFields.push('lost_reason', 'need_improvement');
-  } else if (stage === 'Dropped') {
-    availableFields.push('drop_reason');
-  }
-  
-  // Always include internal_comment field
-  if (!availableFields.includes('internal_comment')) {
-    availableFields.push('internal_comment');
-  }
-  
-  return availableFields;
-};
+// Placeholder in a stage's form fields for the line items and quote documents section
+export const LINE_ITEMS_FORM_FIELD = 'line_items';
 
-export const getEditableFieldsForStage = (stage: DealStage): string[] => {
-  // All fields are always editable according to requirements
-  return getFieldsForStage(stage);
+// Standard deal fields an admin can place on a stage form; custom fields are added as custom_fields.<name>
+export const DEAL_FORM_FIELDS = [
+  'project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority',
+  'customer_need', 'relationship_strength', 'internal_comment',
+  'customer_challenges', 'budget', 'business_value', 'decision_maker_level', 'probability', 'forecast_category',
+  'expected_closing_date', 'is_recurring',
+  'total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration',
+  'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items',
+  'current_status', 'closing',
+  'won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4',
+  'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status',
+  'lost_reason', 'need_improvement', 'drop_reason',
+  LINE_ITEMS_FORM_FIELD,
+];
+
+// Fallback used until pipeline_stages has loaded (mirrors the seeded form_fields)
+export const getFormFieldsForStage = (stage: DealStage): string[] => {
+  const formFields = {
+    Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
+    Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
+    Qualified: ['customer_challenges', 'budget', 'probability', 'forecast_category', 'expected_closing_date', 'is_recurring', 'internal_comment'],
+    RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment', LINE_ITEMS_FORM_FIELD],
+    Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing', LINE_ITEMS_FORM_FIELD],
+    Won: ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'],
+    Lost: ['lost_reason', 'need_improvement'],
+    Dropped: ['drop_reason'],
+  };
+  return formFields[stage] || [];
 };
 
 export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
@@ -139,18 +168,3 @@ export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
   };
   return requiredFields[stage] || [];
 };
-
-export const getNextStage = (currentStage: DealStage): DealStage | null => {
-  const stageFlow = {
-    Lead: 'Discussions',
-    Discussions: 'Qualified', 
-    Qualified: 'RFQ',
-    RFQ: 'Offered',
-    Offered: null, // After Offered, user can choose Won/Lost/Dropped
-  };
-  return stageFlow[currentStage] || null;
-};
-
-export const getFinalStageOptions = (): DealStage[] => {
-  return ['Won', 'Lost', 'Dropped'];
-};
@@ -0,0 +1,46 @@
+export type ImportJobEntity = 'leads' | 'contacts' | 'accounts' | 'deals' | 'meetings' | 'tasks';
+export type ImportJobStatus = 'running' | 'completed' | 'failed' | 'rolled_back' | 'partially_rolled_back';
+export type ImportRecordAction = 'created' | 'updated' | 'skipped';
+
+export interface ImportJob {
+  id: string;
+  entity_type: ImportJobEntity;
+  file_name: string | null;
+  mapping: Record<string, unknown> | null;
+  status: ImportJobStatus;
+  created_count: number;
+  updated_count: number;
+  skipped_count: number;
+  error_count: number;
+  unrecorded_count: number;
+  errors: string[];
+  created_by: string;
+  created_at: string;
+  finished_at: string | null;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+}
+
+export interface ImportJobConflict {
+  record_id: string;
+  action: ImportRecordAction;
+  reason: 'edited' | 'deleted';
+}
+
+export interface ImportRollbackResult {
+  deleted: number;
+  restored: number;
+  skipped: number;
+  failed: number;
+  // "<record id>: <reason>" for each record that failed to roll back
+  errors: string[];
+}
+
+export const IMPORT_JOB_ENTITY_LABELS: Record<ImportJobEntity, string> = {
+  leads: 'Leads',
+  contacts: 'Contacts',
+  accounts: 'Accounts',
+  deals: 'Deals',
+  meetings: 'Meetings',
+  tasks: 'Tasks',
+};
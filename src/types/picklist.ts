@@ -0,0 +1,74 @@
+export type PicklistKey =
+  | 'region'
+  | 'industry'
+  | 'segment'
+  | 'contact_source'
+  | 'account_status'
+  | 'lead_status'
+  | 'won_reason'
+  | 'lost_reason'
+  | 'drop_reason';
+
+export interface PicklistValue {
+  id: string;
+  list_key: PicklistKey;
+  value: string;
+  color: string | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export const PICKLIST_LABELS: Record<PicklistKey, string> = {
+  region: 'Region',
+  industry: 'Industry',
+  segment: 'Segment',
+  contact_source: 'Source',
+  account_status: 'Account Status',
+  lead_status: 'Lead Status',
+  won_reason: 'Won Reason',
+  lost_reason: 'Lost Reason',
+  drop_reason: 'Drop Reason',
+};
+
+export const PICKLIST_KEYS = Object.keys(PICKLIST_LABELS) as PicklistKey[];
+
+// Where each list's values are stored, shown to admins before a merge
+export const PICKLIST_USAGE: Record<PicklistKey, string> = {
+  region: 'Accounts, contacts and deals',
+  industry: 'Accounts, contacts and leads',
+  segment: 'Accounts and contacts',
+  contact_source: 'Contacts and leads',
+  account_status: 'Accounts',
+  lead_status: 'Leads',
+  won_reason: 'Won deals',
+  lost_reason: 'Lost deals',
+  drop_reason: 'Dropped deals',
+};
+
+// Record columns holding each list's values, by table; the database's picklist_columns() matches this
+export const PICKLIST_COLUMNS: Record<string, Record<string, PicklistKey>> = {
+  accounts: { region: 'region', industry: 'industry', segment: 'segment', status: 'account_status' },
+  contacts: { region: 'region', industry: 'industry', segment: 'segment', contact_source: 'contact_source' },
+  leads: { industry: 'industry', contact_source: 'contact_source', lead_status: 'lead_status' },
+  deals: { region: 'region', won_reason: 'won_reason', lost_reason: 'lost_reason', drop_reason: 'drop_reason' },
+};
+
+// Offered until the lists have loaded, and the seed of the picklist_values table
+export const DEFAULT_PICKLIST_VALUES: Record<PicklistKey, string[]> = {
+  region: ['EU', 'US', 'ASIA', 'LATAM', 'MEA', 'Other'],
+  industry: [
+    'Automotive', 'Technology', 'Manufacturing', 'Healthcare', 'Finance/Banking',
+    'Retail', 'Energy', 'Aerospace', 'Telecommunications', 'Logistics',
+    'Government', 'Education', 'Consulting', 'Software', 'Electronics', 'Other',
+  ],
+  segment: ['prospect', 'customer', 'partner', 'vendor', 'competitor'],
+  contact_source: [
+    'Website', 'Referral', 'LinkedIn', 'Cold Call', 'Trade Show',
+    'Email Campaign', 'Social Media', 'Partner', 'Other',
+  ],
+  account_status: ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'],
+  lead_status: ['New', 'Attempted', 'Follow-up', 'Qualified', 'Disqualified', 'Converted'],
+  won_reason: [],
+  lost_reason: [],
+  drop_reason: [],
+};
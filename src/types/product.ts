@@ -0,0 +1,59 @@
+export type BillingType = 'one_time' | 'recurring';
+
+export const BILLING_TYPE_LABELS: Record<BillingType, string> = {
+  one_time: 'One-time',
+  recurring: 'Recurring',
+};
+
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  description: string | null;
+  category: string | null;
+  unit: string;
+  billing_type: BillingType;
+  is_active: boolean;
+}
+
+export interface PriceBook {
+  id: string;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  is_active: boolean;
+}
+
+export interface PriceBookEntry {
+  id: string;
+  price_book_id: string;
+  product_id: string;
+  currency: string;
+  unit_price: number;
+}
+
+export interface DealLineItem {
+  id?: string;
+  deal_id?: string;
+  product_id: string | null;
+  product_name: string;
+  sku: string | null;
+  description: string | null;
+  quantity: number;
+  unit_price: number;
+  discount_percent: number;
+  // Billing months for recurring lines; null for one-time lines
+  term_months: number | null;
+  start_date: string | null;
+  line_total?: number;
+  sort_order: number;
+}
+
+// Same formula as the calculate_deal_line_total trigger
+export const calculateLineTotal = (item: Pick<DealLineItem, 'quantity' | 'unit_price' | 'discount_percent' | 'term_months'>) => {
+  const total = (Number(item.quantity) || 0)
+    * (Number(item.unit_price) || 0)
+    * (1 - (Number(item.discount_percent) || 0) / 100)
+    * (Number(item.term_months) || 1);
+  return Math.round(total * 100) / 100;
+};
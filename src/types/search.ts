@@ -0,0 +1,28 @@
+export type SearchRecordType = 'lead' | 'contact' | 'account' | 'deal' | 'meeting' | 'task' | 'email';
+
+export interface SearchResult {
+  id: string;
+  type: SearchRecordType;
+  title: string;
+  subtitle: string | null;
+  // Matched words are wrapped in SNIPPET_MATCH_START / SNIPPET_MATCH_END
+  snippet: string | null;
+  route: string;
+  rank: number;
+}
+
+export const SEARCH_RECORD_TYPES: SearchRecordType[] = ['lead', 'contact', 'account', 'deal', 'meeting', 'task', 'email'];
+
+export const SEARCH_TYPE_LABELS: Record<SearchRecordType, string> = {
+  lead: 'Leads',
+  contact: 'Contacts',
+  account: 'Accounts',
+  deal: 'Deals',
+  meeting: 'Meetings',
+  task: 'Tasks',
+  email: 'Emails',
+};
+
+// Markers search_crm() puts around matched words in snippets
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
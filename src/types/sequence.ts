@@ -0,0 +1,82 @@
+import { TaskPriority } from './task';
+
+export type SequenceStepType = 'email' | 'task';
+export type SequenceStopAction = 'stop' | 'pause';
+export type EnrollmentStatus = 'active' | 'paused' | 'completed' | 'stopped';
+export type EnrollmentStopReason = 'replied' | 'meeting_booked' | 'unsubscribed' | 'bounced' | 'no_email' | 'manual';
+
+export interface EmailSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  timezone: string;
+  business_hours_start: number;
+  business_hours_end: number;
+  // ISO weekdays, 1 = Monday
+  business_days: number[];
+  reply_action: SequenceStopAction;
+  meeting_action: SequenceStopAction;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EmailSequenceStep {
+  id: string;
+  sequence_id: string;
+  position: number;
+  step_type: SequenceStepType;
+  day_offset: number;
+  template_id: string | null;
+  task_title: string | null;
+  task_description: string | null;
+  task_priority: TaskPriority;
+}
+
+// A step as edited in the sequence form; new steps have no id yet
+export type SequenceStepDraft = Omit<EmailSequenceStep, 'id' | 'sequence_id' | 'position'> & { id?: string };
+
+export interface SequenceEnrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  status: EnrollmentStatus;
+  stop_reason: EnrollmentStopReason | null;
+  current_step: number;
+  next_step_at: string | null;
+  last_step_at: string | null;
+  last_error: string | null;
+  enrolled_by: string | null;
+  enrolled_at: string;
+  completed_at: string | null;
+  // Joined data
+  person_name?: string;
+  person_email?: string | null;
+}
+
+export interface SequenceStepMetrics {
+  step_id: string;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  unsubscribed: number;
+}
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  paused: 'Paused',
+  completed: 'Completed',
+  stopped: 'Stopped',
+};
+
+export const STOP_REASON_LABELS: Record<EnrollmentStopReason, string> = {
+  replied: 'Replied',
+  meeting_booked: 'Meeting booked',
+  unsubscribed: 'Unsubscribed',
+  bounced: 'Bounced',
+  no_email: 'No email address',
+  manual: 'Stopped manually',
+};
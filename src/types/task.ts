@@ -1,3 +1,5 @@
+import { CustomFieldValues } from './customField';
+
 export type TaskStatus = 'open' | 'in_progress' | 'completed' | 'cancelled';
 export type TaskPriority = 'high' | 'medium' | 'low';
 export type TaskModuleType = 'accounts' | 'contacts' | 'leads' | 'meetings' | 'deals';
@@ -21,6 +23,7 @@ export interface Task {
   created_at: string;
   updated_at: string;
   completed_at: string | null;
+  custom_fields?: unknown;
   // Joined data
   lead_name?: string;
   contact_name?: string;
@@ -47,6 +50,7 @@ export interface CreateTaskData {
   lead_id?: string;
   meeting_id?: string;
   deal_id?: string;
+  custom_fields?: CustomFieldValues;
 }
 
 export interface TaskModalContext {
@@ -0,0 +1,26 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ApprovalEntityType } from '@/types/approval';
+
+// Hint raised by enforce_approval_workflows when a held record is edited
+const APPROVAL_PENDING_HINT = 'approval_pending';
+
+export const isApprovalPendingError = (error: unknown) =>
+  (error as { hint?: string } | null)?.hint === APPROVAL_PENDING_HINT;
+
+// Returns the pending request holding a record, if an approval workflow intercepted the save
+export const findPendingApprovalRequest = async (entityType: ApprovalEntityType, entityId: string) => {
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .select('id, operation, workflow_id')
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error checking approval status:', error);
+    return null;
+  }
+
+  return data;
+};
@@ -1,57 +1,240 @@
-export class CSVParser {
-  static parseCSV(text: string): { headers: string[], rows: string[][] } {
-    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
-    
-    if (lines.length === 0) {
-      return { headers: [], rows: [] };
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export interface CSVParseOptions {
+  delimiter?: CSVDelimiter; // detected from the header row when omitted
+  encoding?: string; // detected from the BOM or the file contents when omitted
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  rows: string[][];
+  delimiter: CSVDelimiter;
+  encoding: string;
+}
+
+const DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+const CHUNK_SIZE = 1024 * 1024;
+
+// Let the browser paint and handle input between chunks of a large file
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Picks the delimiter that appears most often outside quotes in the first record
+export const detectDelimiter = (sample: string): CSVDelimiter => {
+  const counts: Record<string, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (const char of sample) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (char === '\n' || char === '\r')) break;
+    else if (!inQuotes && char in counts) counts[char]++;
+  }
+
+  return DELIMITERS.reduce((best, delimiter) => (counts[delimiter] > counts[best] ? delimiter : best), ',');
+};
+
+// Honours a byte order mark; otherwise files that aren't valid UTF-8 are read as Windows-1252,
+// which is what Excel writes on most Western-European machines
+export const detectEncoding = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.slice(0, CHUNK_SIZE).arrayBuffer());
+
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    // stream: true so a character cut off at the end of the sample isn't treated as invalid
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+/**
+ * Incremental RFC 4180 parser. Feed it text in chunks of any size and it returns the records
+ * completed so far. Quoted fields may contain delimiters, escaped quotes ("") and line breaks;
+ * unquoted fields are trimmed and blank lines are skipped.
+ */
+export class CSVStreamParser {
+  private delimiter: CSVDelimiter | null;
+  private pending = ''; // text held back until the delimiter is known or a split "" / \r\n is complete
+  private started = false;
+  private record: string[] = [];
+  private field = '';
+  private inQuotes = false;
+  private fieldQuoted = false;
+  private quotedLength = 0; // length of the quoted part, so whitespace after the closing quote can be dropped
+
+  constructor(delimiter?: CSVDelimiter) {
+    this.delimiter = delimiter || null;
+  }
+
+  get detectedDelimiter(): CSVDelimiter {
+    return this.delimiter || ',';
+  }
+
+  push(chunk: string): string[][] {
+    let text = this.pending + chunk;
+    this.pending = '';
+
+    if (!this.started) {
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      this.started = text.length > 0;
     }
 
-    const headers = this.parseCSVLine(lines[0]);
-    const rows = lines.slice(1).map(line => this.parseCSVLine(line));
-    
-    return { headers, rows };
+    if (!this.delimiter) {
+      // Wait for the whole header row before deciding
+      if (!/[\r\n]/.test(text) && text.length < CHUNK_SIZE) {
+        this.pending = text;
+        return [];
+      }
+      this.delimiter = detectDelimiter(text);
+    }
+
+    return this.parse(text, false);
   }
 
-  static parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    let i = 0;
+  finish(): string[][] {
+    if (!this.delimiter) this.delimiter = detectDelimiter(this.pending);
+    const records = this.parse(this.pending, true);
+    this.pending = '';
 
-    while (i < line.length) {
-      const char = line[i];
-      const nextChar = line[i + 1];
+    if (this.record.length > 0 || this.field !== '' || this.fieldQuoted) {
+      this.endField();
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private parse(text: string, final: boolean): string[][] {
+    const records: string[][] = [];
+    const delimiter = this.delimiter;
+    const length = text.length;
+    let i = 0;
 
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i += 2;
+    while (i < length) {
+      if (this.inQuotes) {
+        const quote = text.indexOf('"', i);
+        if (quote === -1) {
+          this.field += text.slice(i);
+          break;
+        }
+        this.field += text.slice(i, quote);
+        // A quote at the end of a chunk could be the first half of an escaped ""
+        if (quote === length - 1 && !final) {
+          this.pending = '"';
+          break;
+        }
+        if (text[quote + 1] === '"') {
+          this.field += '"';
+          i = quote + 2;
         } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-          i++;
+          this.inQuotes = false;
+          this.quotedLength = this.field.length;
+          i = quote + 1;
         }
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-        i++;
+        continue;
+      }
+
+      const char = text[i];
+      if (char === '\r' && i === length - 1 && !final) {
+        this.pending = char; // wait to see whether a \n follows
+        break;
+      }
+      if (char === delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endField();
+        this.endRecord(records);
+        if (char === '\r' && text[i + 1] === '\n') i++;
+      } else if (char === '"' && !this.fieldQuoted && this.field.trim() === '') {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+        this.field = '';
       } else {
-        current += char;
-        i++;
+        // A stray quote inside an unquoted field is kept as a literal character
+        this.field += char;
+      }
+      i++;
+    }
+
+    return records;
+  }
+
+  private endField() {
+    const value = this.fieldQuoted
+      ? this.field.slice(0, this.quotedLength) + this.field.slice(this.quotedLength).trim()
+      : this.field.trim();
+    this.record.push(value);
+    this.field = '';
+    this.fieldQuoted = false;
+    this.quotedLength = 0;
+  }
+
+  private endRecord(records: string[][]) {
+    const isBlankLine = this.record.length === 1 && this.record[0] === '';
+    if (!isBlankLine) records.push(this.record);
+    this.record = [];
+  }
+}
+
+const splitHeader = (records: string[][], delimiter: CSVDelimiter, encoding: string): CSVParseResult => {
+  if (records.length === 0) {
+    return { headers: [], rows: [], delimiter, encoding };
+  }
+  return { headers: records[0].map(header => header.trim()), rows: records.slice(1), delimiter, encoding };
+};
+
+export class CSVParser {
+  static parseCSV(text: string, options: CSVParseOptions = {}): { headers: string[], rows: string[][] } {
+    const parser = new CSVStreamParser(options.delimiter);
+    const records = [...parser.push(text), ...parser.finish()];
+    const { headers, rows } = splitHeader(records, parser.detectedDelimiter, 'utf-8');
+    return { headers, rows };
+  }
+
+  static parseCSVLine(line: string, delimiter: CSVDelimiter = ','): string[] {
+    const parser = new CSVStreamParser(delimiter);
+    const records = [...parser.push(line), ...parser.finish()];
+    return records[0] || [];
+  }
+
+  // Parses a file or string a chunk at a time, yielding to the browser in between so large imports
+  // don't freeze the tab
+  static async parse(input: string | Blob, options: CSVParseOptions = {}): Promise<CSVParseResult> {
+    const parser = new CSVStreamParser(options.delimiter);
+    const records: string[][] = [];
+    const collect = (batch: string[][]) => {
+      for (const record of batch) records.push(record);
+    };
+
+    let encoding = 'utf-8';
+    if (typeof input === 'string') {
+      for (let offset = 0; offset < input.length; offset += CHUNK_SIZE) {
+        collect(parser.push(input.slice(offset, offset + CHUNK_SIZE)));
+        await yieldToBrowser();
       }
+    } else {
+      encoding = options.encoding || await detectEncoding(input);
+      const decoder = new TextDecoder(encoding);
+      for (let offset = 0; offset < input.size; offset += CHUNK_SIZE) {
+        const bytes = await input.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+        collect(parser.push(decoder.decode(bytes, { stream: true })));
+        await yieldToBrowser();
+      }
+      collect(parser.push(decoder.decode()));
     }
-    
-    result.push(current.trim());
-    return result.map(field => field.replace(/^"|"$/g, '')); // Remove surrounding quotes
+    collect(parser.finish());
+
+    return splitHeader(records, parser.detectedDelimiter, encoding);
   }
 
   static toCSV(data: any[], headers: string[]): string {
     const csvRows = [];
-    
+
     // Add headers
     csvRows.push(headers.map(header => this.escapeCSVField(header)).join(','));
-    
+
     // Add data rows
     data.forEach(row => {
       const csvRow = headers.map(header => {
@@ -60,16 +243,16 @@ export class CSVParser {
       });
       csvRows.push(csvRow.join(','));
     });
-    
+
     return csvRows.join('\n');
   }
 
   static escapeCSVField(field: string): string {
     const str = String(field || '');
-    // If field contains comma, quote, or newline, wrap in quotes and escape quotes
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    // If field contains comma, quote, or line break, wrap in quotes and escape quotes
+    if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
       return `"${str.replace(/"/g, '""')}"`;
     }
     return str;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,87 @@
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+export const DEFAULT_REPORTING_CURRENCY = 'EUR';
+
+export const SUPPORTED_CURRENCIES = ['EUR', 'USD', 'INR', 'GBP', 'AED', 'SGD'];
+
+const toDateKey = (date?: string | Date | null): string => {
+  if (!date) return new Date().toISOString().slice(0, 10);
+  return typeof date === 'string' ? date.slice(0, 10) : date.toISOString().slice(0, 10);
+};
+
+/**
+ * Latest rate on or before the date for a pair (or the inverse of the reverse pair).
+ * Dates before the first recorded rate use the earliest one, matching get_pair_rate in SQL.
+ */
+const findPairRate = (rates: ExchangeRate[], from: string, to: string, dateKey: string): number | null => {
+  const candidates = rates.flatMap(r => {
+    if (r.from_currency === from && r.to_currency === to) return [{ rate: Number(r.rate), date: r.effective_date }];
+    if (r.from_currency === to && r.to_currency === from) return [{ rate: 1 / Number(r.rate), date: r.effective_date }];
+    return [];
+  });
+  if (candidates.length === 0) return null;
+
+  const onOrBefore = candidates.filter(c => c.date <= dateKey).sort((a, b) => b.date.localeCompare(a.date));
+  if (onOrBefore.length > 0) return onOrBefore[0].rate;
+
+  return candidates.sort((a, b) => a.date.localeCompare(b.date))[0].rate;
+};
+
+/**
+ * Rate to convert `from` into `to` at the given date, pivoting through the
+ * reporting currency when no direct pair is recorded. Returns null if unknown.
+ */
+export const getExchangeRate = (
+  rates: ExchangeRate[],
+  from: string | null | undefined,
+  to: string | null | undefined,
+  date?: string | Date | null,
+  reportingCurrency: string = DEFAULT_REPORTING_CURRENCY
+): number | null => {
+  if (!from || !to || from === to) return 1;
+
+  const dateKey = toDateKey(date);
+  const direct = findPairRate(rates, from, to, dateKey);
+  if (direct !== null) return direct;
+
+  if (reportingCurrency === from || reportingCurrency === to) return null;
+
+  const toReporting = findPairRate(rates, from, reportingCurrency, dateKey);
+  const fromReporting = findPairRate(rates, reportingCurrency, to, dateKey);
+  return toReporting !== null && fromReporting !== null ? toReporting * fromReporting : null;
+};
+
+/**
+ * Convert an amount between currencies. Returns null when no rate is known, as
+ * convert_currency does on the server, so totals can leave the amount out.
+ */
+export const convertAmount = (
+  rates: ExchangeRate[],
+  amount: number | null | undefined,
+  from: string | null | undefined,
+  to: string,
+  date?: string | Date | null,
+  reportingCurrency: string = DEFAULT_REPORTING_CURRENCY
+): number | null => {
+  const value = Number(amount) || 0;
+  if (!value) return 0;
+  const rate = getExchangeRate(rates, from || reportingCurrency, to, date, reportingCurrency);
+  return rate === null ? null : value * rate;
+};
+
+/**
+ * Date whose rate applies to a deal: the signed date once won, otherwise the expected close.
+ */
+export const getDealConversionDate = (
+  deal: { signed_contract_date?: string | null; expected_closing_date?: string | null },
+  isWon: boolean
+): string | null => {
+  if (isWon) return deal.signed_contract_date || deal.expected_closing_date || null;
+  return deal.expected_closing_date || null;
+};
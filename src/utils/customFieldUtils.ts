@@ -0,0 +1,173 @@
+import { CustomField, CustomFieldValue, CustomFieldValues, CUSTOM_FIELD_KEY_PREFIX } from '@/types/customField';
+import { DateFormatUtils, formatDisplayDate } from '@/utils/dateFormatUtils';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Multi-select values are written to files separated by semicolons, the same as tags
+const MULTISELECT_SEPARATOR = ';';
+
+export const customFieldKey = (fieldName: string) => `${CUSTOM_FIELD_KEY_PREFIX}${fieldName}`;
+
+export const getCustomFieldName = (key: string) =>
+  key.startsWith(CUSTOM_FIELD_KEY_PREFIX) ? key.slice(CUSTOM_FIELD_KEY_PREFIX.length) : null;
+
+// The stored object, or an empty one for records saved before custom fields existed
+export const getCustomFieldValues = (record: { custom_fields?: unknown } | null | undefined): CustomFieldValues => {
+  const values = record?.custom_fields;
+  return values && typeof values === 'object' && !Array.isArray(values) ? (values as CustomFieldValues) : {};
+};
+
+export const getCustomFieldValue = (record: { custom_fields?: unknown } | null | undefined, fieldName: string) =>
+  getCustomFieldValues(record)[fieldName] ?? null;
+
+export const isBlankCustomFieldValue = (value: CustomFieldValue | undefined) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+const matchOption = (field: CustomField, value: string) =>
+  (field.field_options || []).find(option => option.toLowerCase() === value.trim().toLowerCase());
+
+// Error for one value, or null when it is valid for the field's type and options
+export const validateCustomFieldValue = (field: CustomField, value: CustomFieldValue | undefined): string | null => {
+  if (isBlankCustomFieldValue(value)) {
+    return field.is_required ? `${field.field_label} is required` : null;
+  }
+
+  switch (field.field_type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${field.field_label} must be a number`;
+    case 'date':
+      return typeof value === 'string' && DATE_REGEX.test(value) ? null : `${field.field_label} must be a date`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field.field_label} must be yes or no`;
+    case 'select':
+      return typeof value === 'string' && (!field.field_options?.length || field.field_options.includes(value))
+        ? null
+        : `${field.field_label} must be one of: ${(field.field_options || []).join(', ')}`;
+    case 'multiselect':
+      return Array.isArray(value) && value.every(item => !field.field_options?.length || field.field_options.includes(item))
+        ? null
+        : `${field.field_label} must only hold: ${(field.field_options || []).join(', ')}`;
+    default:
+      return typeof value === 'string' ? null : `${field.field_label} must be text`;
+  }
+};
+
+// Errors keyed by field name; hidden fields aren't on the form, so they aren't checked
+export const validateCustomFieldValues = (fields: CustomField[], values: CustomFieldValues) => {
+  const errors: Record<string, string> = {};
+  fields
+    .filter(field => field.is_visible)
+    .forEach(field => {
+      const error = validateCustomFieldValue(field, values[field.field_name]);
+      if (error) errors[field.field_name] = error;
+    });
+  return errors;
+};
+
+// Reads a cell from an import file into the stored type
+export const parseCustomFieldInput = (field: CustomField, input: string): { value: CustomFieldValue; error?: string } => {
+  const text = (input ?? '').trim();
+  if (text === '') return { value: null };
+
+  switch (field.field_type) {
+    case 'number': {
+      const number = Number(text.replace(/,/g, ''));
+      return Number.isFinite(number) ? { value: number } : { value: null, error: `${field.field_label} "${text}" is not a number` };
+    }
+    case 'date': {
+      const date = DateFormatUtils.convertDateForImport(text);
+      return date ? { value: date.slice(0, 10) } : { value: null, error: `${field.field_label} "${text}" is not a date` };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { value: null, error: `${field.field_label} "${text}" is not yes or no` };
+    }
+    case 'select': {
+      if (!field.field_options?.length) return { value: text };
+      const option = matchOption(field, text);
+      return option ? { value: option } : { value: null, error: `${field.field_label} "${text}" is not one of its options` };
+    }
+    case 'multiselect': {
+      const items = text.split(MULTISELECT_SEPARATOR).map(item => item.trim()).filter(Boolean);
+      if (!field.field_options?.length) return { value: items };
+      const unknown = items.filter(item => !matchOption(field, item));
+      if (unknown.length > 0) return { value: null, error: `${field.field_label} has unknown options: ${unknown.join(', ')}` };
+      return { value: items.map(item => matchOption(field, item)) };
+    }
+    default:
+      return { value: text };
+  }
+};
+
+// File form of a value; parseCustomFieldInput reads it back unchanged
+export const serializeCustomFieldValue = (field: CustomField, value: CustomFieldValue | undefined): string => {
+  if (isBlankCustomFieldValue(value)) return '';
+  if (Array.isArray(value)) return value.join(MULTISELECT_SEPARATOR);
+  if (field.field_type === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+export const formatCustomFieldValue = (field: CustomField, value: CustomFieldValue | undefined): string => {
+  if (isBlankCustomFieldValue(value)) return '';
+  if (field.field_type === 'date' && typeof value === 'string') return formatDisplayDate(value);
+  if (Array.isArray(value)) return value.join(', ');
+  if (field.field_type === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+interface CustomFieldColumn {
+  field: string;
+  label: string;
+  visible: boolean;
+  order: number;
+}
+
+// Saved column layouts keep their custom columns; fields added since are appended hidden and deleted ones dropped
+export const withCustomFieldColumns = <T extends CustomFieldColumn>(columns: T[], fields: CustomField[]): T[] => {
+  const labels = new Map(fields.map(field => [customFieldKey(field.field_name), field.field_label]));
+  const kept = columns
+    .filter(column => !getCustomFieldName(column.field) || labels.has(column.field))
+    .map(column => (labels.has(column.field) ? { ...column, label: labels.get(column.field) } : column));
+  const existing = new Set(kept.map(column => column.field));
+  const nextOrder = kept.reduce((max, column) => Math.max(max, column.order), -1) + 1;
+  const added = fields
+    .filter(field => !existing.has(customFieldKey(field.field_name)))
+    .map((field, index) => ({
+      field: customFieldKey(field.field_name),
+      label: field.field_label,
+      visible: false,
+      order: nextOrder + index,
+    }) as T);
+  return [...kept, ...added];
+};
+
+export const toCustomFieldSearchFields = (fields: CustomField[]) =>
+  fields.map(field => ({ value: customFieldKey(field.field_name), label: field.field_label }));
+
+// Cell text of a `custom_fields.<name>` column
+export const formatCustomFieldColumn = (fields: CustomField[], record: { custom_fields?: unknown }, columnField: string) => {
+  const fieldName = getCustomFieldName(columnField);
+  const field = fields.find(f => f.field_name === fieldName);
+  return field ? formatCustomFieldValue(field, getCustomFieldValue(record, field.field_name)) : '';
+};
+
+// Value used when a table is sorted by a column, custom ones included
+export const getColumnSortValue = <T extends { custom_fields?: unknown }>(record: T, columnField: string): unknown => {
+  const fieldName = getCustomFieldName(columnField);
+  if (!fieldName) return record[columnField as keyof T];
+  const value = getCustomFieldValue(record, fieldName);
+  return Array.isArray(value) ? value.join(', ') : value;
+};
+
+// Field names are generated from the label: "PO number" becomes po_number
+export const toCustomFieldName = (label: string) =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^[^a-z]+|_+$/g, '')
+    .slice(0, 63);
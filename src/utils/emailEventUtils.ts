@@ -0,0 +1,70 @@
+// Summaries of the email_events stream. Machine events (scanners, privacy proxies, prefetches)
+// are kept for the record but never count as engagement.
+
+export type EmailEventType = 'open' | 'click' | 'bounce' | 'reply';
+
+export interface EmailEvent {
+  email_history_id: string;
+  event_type: string;
+  is_machine: boolean;
+  occurred_at: string;
+  url?: string | null;
+}
+
+export interface EngagementCounts {
+  // Every event of the type, human or not
+  total: number;
+  human: number;
+  machine: number;
+  // Distinct emails with at least one human event
+  unique: number;
+}
+
+export interface LinkClickSummary {
+  url: string;
+  clicks: number;
+  // Distinct emails the link was clicked from
+  emails: number;
+  lastClickedAt: string;
+}
+
+export const MACHINE_REASON_LABELS: Record<string, string> = {
+  missing_user_agent: 'No user agent',
+  scanner_user_agent: 'Security scanner',
+  apple_privacy_proxy: 'Apple Mail privacy proxy',
+  prefetch_timing: 'Prefetched on delivery',
+  click_burst: 'Scanner following every link',
+};
+
+export const countEngagement = (events: EmailEvent[], type: EmailEventType): EngagementCounts => {
+  const ofType = events.filter(event => event.event_type === type);
+  const human = ofType.filter(event => !event.is_machine);
+  return {
+    total: ofType.length,
+    human: human.length,
+    machine: ofType.length - human.length,
+    unique: new Set(human.map(event => event.email_history_id)).size,
+  };
+};
+
+// Emails a person opened or clicked at least once
+export const engagedEmailIds = (events: EmailEvent[], type: EmailEventType) =>
+  new Set(events.filter(event => event.event_type === type && !event.is_machine).map(event => event.email_history_id));
+
+// One row per human-clicked link, most clicked first
+export const summarizeLinkClicks = (events: EmailEvent[]): LinkClickSummary[] => {
+  const byUrl = new Map<string, { clicks: number; emails: Set<string>; lastClickedAt: string }>();
+  events
+    .filter(event => event.event_type === 'click' && !event.is_machine && event.url)
+    .forEach(click => {
+      const entry = byUrl.get(click.url!) ?? { clicks: 0, emails: new Set<string>(), lastClickedAt: click.occurred_at };
+      entry.clicks += 1;
+      entry.emails.add(click.email_history_id);
+      if (click.occurred_at > entry.lastClickedAt) entry.lastClickedAt = click.occurred_at;
+      byUrl.set(click.url!, entry);
+    });
+
+  return [...byUrl.entries()]
+    .map(([url, entry]) => ({ url, clicks: entry.clicks, emails: entry.emails.size, lastClickedAt: entry.lastClickedAt }))
+    .sort((a, b) => b.clicks - a.clicks || b.lastClickedAt.localeCompare(a.lastClickedAt));
+};
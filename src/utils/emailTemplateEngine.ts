@@ -0,0 +1,2 @@
+// The sequence scheduler renders the same templates server-side, so the engine lives with the edge functions
+export * from '../../supabase/functions/_shared/templateEngine.ts';
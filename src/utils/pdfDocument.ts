@@ -0,0 +1,234 @@
+// Minimal PDF writer for generated documents: A4 pages, the built-in Helvetica fonts,
+// filled rectangles, lines and JPEG images. Coordinates are in points from the top-left.
+
+type FontStyle = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: string;
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfImage {
+  bytes: Uint8Array; // JPEG data
+  width: number;
+  height: number;
+}
+
+// Glyph widths (1/1000 em) for ASCII 32-126 from the standard Helvetica metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still covers
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text).map(char => {
+    if (char === '\u00a0' || char === '\u202f') return 32; // Intl number formats use non-breaking spaces
+    if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+    const code = char.charCodeAt(0);
+    return code < 256 && (code < 0x80 || code > 0x9f) ? code : 63; // '?'
+  });
+
+const escapeText = (codes: number[]) =>
+  codes.map(code => {
+    if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+    if (code < 32 || code > 126) return `\\${code.toString(8).padStart(3, '0')}`;
+    return String.fromCharCode(code);
+  }).join('');
+
+const hexToRgb = (hex: string) => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map(c => c + c).join('') : value;
+  const num = parseInt(full, 16);
+  if (isNaN(num) || full.length !== 6) return '0 0 0';
+  return [(num >> 16) & 255, (num >> 8) & 255, num & 255].map(c => (c / 255).toFixed(3)).join(' ');
+};
+
+const fmt = (n: number) => Number(n.toFixed(2)).toString();
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private currentPage = 0;
+  private images: PdfImage[] = [];
+
+  constructor(width = 595.28, height = 841.89) {
+    this.width = width;
+    this.height = height;
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.currentPage = this.pages.length - 1;
+  }
+
+  // Later drawing goes to this page, e.g. footers once the page count is known
+  goToPage(index: number) {
+    this.currentPage = index;
+  }
+
+  private get ops() {
+    return this.pages[this.currentPage];
+  }
+
+  textWidth(text: string, size = 10, bold = false) {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = toWinAnsi(text).reduce(
+      (sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556),
+      0
+    );
+    return (units * size) / 1000;
+  }
+
+  // Splits text into lines that fit maxWidth, breaking on spaces and hard line breaks
+  wrapText(text: string, maxWidth: number, size = 10, bold = false): string[] {
+    const lines: string[] = [];
+    text.split(/\r?\n/).forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const size = options.size || 10;
+    const bold = !!options.bold;
+    const width = this.textWidth(text, size, bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    const font: FontStyle = bold ? 'bold' : 'regular';
+    this.ops.push(
+      `BT ${hexToRgb(options.color || '#000000')} rg /${font === 'bold' ? 'F2' : 'F1'} ${fmt(size)} Tf ` +
+      `${fmt(left)} ${fmt(this.height - y - size)} Td (${escapeText(toWinAnsi(text))}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, fillColor: string) {
+    this.ops.push(`${hexToRgb(fillColor)} rg ${fmt(x)} ${fmt(this.height - y - h)} ${fmt(w)} ${fmt(h)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '#cccccc', lineWidth = 0.5) {
+    this.ops.push(
+      `${hexToRgb(color)} RG ${fmt(lineWidth)} w ${fmt(x1)} ${fmt(this.height - y1)} m ${fmt(x2)} ${fmt(this.height - y2)} l S`
+    );
+  }
+
+  image(image: PdfImage, x: number, y: number, w: number, h: number) {
+    this.images.push(image);
+    this.ops.push(`q ${fmt(w)} 0 0 ${fmt(h)} ${fmt(x)} ${fmt(this.height - y - h)} cm /Im${this.images.length} Do Q`);
+  }
+
+  output(): Uint8Array {
+    const objects: string[] = [];
+    const add = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+    const stream = (dict: string, data: string) => `<< ${dict} /Length ${data.length} >>\nstream\n${data}\nendstream`;
+
+    const catalogId = add('');
+    const pagesId = add('');
+    const regularId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const boldId = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const imageIds = this.images.map(image =>
+      add(stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+        Array.from(image.bytes, byte => String.fromCharCode(byte)).join('')
+      ))
+    );
+    const xObjects = imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(' ');
+    const resources = `<< /Font << /F1 ${regularId} 0 R /F2 ${boldId} 0 R >> /XObject << ${xObjects} >> >>`;
+
+    const pageIds = this.pages.map(ops => {
+      const contentId = add(stream('', ops.join('\n')));
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${fmt(this.width)} ${fmt(this.height)}] ` +
+        `/Resources ${resources} /Contents ${contentId} 0 R >>`
+      );
+    });
+
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    // Every character is a single byte, so string offsets are byte offsets
+    let pdf = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets = objects.map((body, i) => {
+      const offset = pdf.length;
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    const bytes = new Uint8Array(pdf.length);
+    for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+    return bytes;
+  }
+}
+
+// Re-encodes an image URL as JPEG through a canvas so any browser-readable format can be embedded
+export const loadImageAsJpeg = (url: string, maxSize = 400): Promise<PdfImage | null> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        // JPEG has no transparency, so flatten onto white
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        const base64 = canvas.toDataURL('image/jpeg', 0.9).split(',')[1];
+        const binary = atob(base64);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        resolve({ bytes, width: canvas.width, height: canvas.height });
+      } catch (error) {
+        console.error('Error converting logo for PDF:', error);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
@@ -0,0 +1,50 @@
+import { DEFAULT_PICKLIST_VALUES, PicklistKey, PicklistValue } from '@/types/picklist';
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+// The list in its saved order; the defaults stand in until values have been loaded
+export const getPicklistValues = (values: PicklistValue[] | undefined, key: PicklistKey): PicklistValue[] => {
+  if (!values) {
+    return DEFAULT_PICKLIST_VALUES[key].map((value, index) => ({
+      id: `${key}-${index}`,
+      list_key: key,
+      value,
+      color: null,
+      sort_order: index,
+      is_active: true,
+    }));
+  }
+  return values
+    .filter(value => value.list_key === key)
+    .sort((a, b) => a.sort_order - b.sort_order || a.value.localeCompare(b.value));
+};
+
+export const findPicklistValue = (values: PicklistValue[], text: string | null | undefined) =>
+  text ? values.find(value => normalize(value.value) === normalize(text)) : undefined;
+
+// Values offered in a select; a record's current value stays selectable after it was deactivated or removed
+export const getPicklistOptions = (values: PicklistValue[], current?: string | null): string[] => {
+  const options = values.filter(value => value.is_active).map(value => value.value);
+  if (current && !options.includes(current)) options.push(current);
+  return options;
+};
+
+// Import cells are stored with the list's spelling; inactive values are still accepted
+export const parsePicklistInput = (
+  values: PicklistValue[],
+  label: string,
+  input: string | null | undefined
+): { value: string | null; error?: string } => {
+  const text = (input ?? '').trim();
+  if (!text) return { value: null };
+  const match = findPicklistValue(values, text);
+  return match ? { value: match.value } : { value: null, error: `${label} "${text}" is not one of its picklist values` };
+};
+
+// Tinted badge for a value an admin gave a color; without one, badges keep their built-in classes
+export const getPicklistBadgeStyle = (color: string | null) =>
+  color ? { backgroundColor: `${color}1a`, color, borderColor: `${color}66` } : undefined;
+
+// Report rows group a record under its list value, so "eu" and "EU " count as "EU"
+export const getPicklistGroup = (values: PicklistValue[], text: string | null | undefined, fallback: string) =>
+  findPicklistValue(values, text)?.value || text?.trim() || fallback;
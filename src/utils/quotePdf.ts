@@ -0,0 +1,203 @@
+import { format, addDays } from 'date-fns';
+import { PdfDocument, loadImageAsJpeg } from '@/utils/pdfDocument';
+import { DealLineItem, calculateLineTotal } from '@/types/product';
+
+export const QUOTE_VALIDITY_DAYS = 30;
+
+export interface QuoteBranding {
+  appName: string;
+  logoUrl: string | null;
+  primaryColor: string;
+  accentColor: string;
+}
+
+export interface QuoteData {
+  documentNumber: string;
+  version: number;
+  issuedAt: Date;
+  preparedBy: string | null;
+  branding: QuoteBranding;
+  deal: {
+    projectName: string;
+    currency: string;
+    startDate: string | null;
+    endDate: string | null;
+    projectDuration: number | null;
+    totalContractValue: number | null;
+  };
+  account: { company_name: string; country: string | null; website: string | null; phone: string | null } | null;
+  contact: { contact_name: string; position: string | null; email: string | null; phone_no: string | null } | null;
+  lineItems: DealLineItem[];
+}
+
+const MARGIN = 40;
+const MUTED = '#6b7280';
+const BORDER = '#d1d5db';
+
+// Currency codes rather than symbols: the built-in PDF fonts can't draw every symbol
+const formatAmount = (amount: number, currency: string) =>
+  `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDay = (date: string | null) => (date ? format(new Date(date), 'dd MMM yyyy') : '-');
+
+export const getQuoteFileName = (documentNumber: string, version: number) => `${documentNumber}-v${version}.pdf`;
+
+export const buildQuotePdf = async (data: QuoteData): Promise<Uint8Array> => {
+  const pdf = new PdfDocument();
+  const { branding, deal } = data;
+  const contentWidth = pdf.width - MARGIN * 2;
+  const right = pdf.width - MARGIN;
+
+  // Header band
+  pdf.rect(0, 0, pdf.width, 90, branding.primaryColor);
+  const logo = branding.logoUrl ? await loadImageAsJpeg(branding.logoUrl) : null;
+  if (logo) {
+    const scale = Math.min(50 / logo.height, 160 / logo.width);
+    pdf.image(logo, MARGIN, 20, logo.width * scale, logo.height * scale);
+  } else {
+    pdf.text(branding.appName, MARGIN, 34, { size: 18, bold: true, color: '#ffffff' });
+  }
+  pdf.text('QUOTE', right, 22, { size: 22, bold: true, color: '#ffffff', align: 'right' });
+  pdf.text(`${data.documentNumber}  ·  Version ${data.version}`, right, 52, { size: 10, color: '#ffffff', align: 'right' });
+
+  // Recipient and quote details
+  let y = 115;
+  const column2 = MARGIN + contentWidth / 2 + 10;
+  pdf.text('PREPARED FOR', MARGIN, y, { size: 8, bold: true, color: MUTED });
+  pdf.text('QUOTE DETAILS', column2, y, { size: 8, bold: true, color: MUTED });
+  y += 14;
+
+  const recipientLines = [
+    data.account?.company_name,
+    data.contact?.contact_name,
+    data.contact?.position,
+    data.contact?.email,
+    data.contact?.phone_no || data.account?.phone,
+    data.account?.country,
+  ].filter(Boolean) as string[];
+  recipientLines.forEach((line, i) => {
+    pdf.text(line, MARGIN, y + i * 14, { size: 10, bold: i === 0 });
+  });
+
+  const details: [string, string][] = [
+    ['Date', format(data.issuedAt, 'dd MMM yyyy')],
+    ['Valid until', format(addDays(data.issuedAt, QUOTE_VALIDITY_DAYS), 'dd MMM yyyy')],
+    ['Currency', deal.currency],
+    ...(data.preparedBy ? [['Prepared by', data.preparedBy] as [string, string]] : []),
+  ];
+  details.forEach(([label, value], i) => {
+    pdf.text(label, column2, y + i * 14, { size: 10, color: MUTED });
+    pdf.text(value, right, y + i * 14, { size: 10, align: 'right' });
+  });
+
+  y += Math.max(recipientLines.length, details.length) * 14 + 20;
+
+  // Project summary
+  pdf.text(deal.projectName, MARGIN, y, { size: 14, bold: true, color: branding.primaryColor });
+  y += 22;
+  const projectFacts = [
+    `Start: ${formatDay(deal.startDate)}`,
+    `End: ${formatDay(deal.endDate)}`,
+    ...(deal.projectDuration ? [`Duration: ${deal.projectDuration} months`] : []),
+  ];
+  pdf.text(projectFacts.join('     '), MARGIN, y, { size: 10, color: MUTED });
+  y += 26;
+
+  // Line items table
+  const columns = [
+    { title: '#', width: 22, align: 'left' as const },
+    { title: 'Item', width: 178, align: 'left' as const },
+    { title: 'Qty', width: 35, align: 'right' as const },
+    { title: 'Unit Price', width: 95, align: 'right' as const },
+    { title: 'Disc.', width: 40, align: 'right' as const },
+    { title: 'Term', width: 45, align: 'right' as const },
+    { title: 'Amount', width: contentWidth - 415, align: 'right' as const },
+  ];
+  const columnX = columns.map((_, i) => MARGIN + columns.slice(0, i).reduce((sum, c) => sum + c.width, 0));
+  const cellX = (i: number) => (columns[i].align === 'right' ? columnX[i] + columns[i].width - 4 : columnX[i] + 4);
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y, contentWidth, 20, branding.primaryColor);
+    columns.forEach((column, i) => {
+      pdf.text(column.title, cellX(i), y + 5, { size: 9, bold: true, color: '#ffffff', align: column.align });
+    });
+    y += 26;
+  };
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed > pdf.height - 70) {
+      pdf.addPage();
+      y = MARGIN;
+      drawTableHeader();
+    }
+  };
+
+  drawTableHeader();
+
+  const rows: DealLineItem[] = data.lineItems.length > 0
+    ? data.lineItems
+    : [{
+        product_id: null,
+        product_name: deal.projectName,
+        sku: null,
+        description: null,
+        quantity: 1,
+        unit_price: Number(deal.totalContractValue) || 0,
+        discount_percent: 0,
+        term_months: null,
+        start_date: null,
+        sort_order: 0,
+      }];
+
+  let subtotal = 0;
+  let total = 0;
+  rows.forEach((item, index) => {
+    const nameLines = pdf.wrapText(item.product_name, columns[1].width - 8, 10, true);
+    const detailLines = pdf.wrapText([item.sku, item.description].filter(Boolean).join(' - '), columns[1].width - 8, 8)
+      .filter(Boolean);
+    const rowHeight = nameLines.length * 13 + detailLines.length * 11 + 8;
+    ensureSpace(rowHeight);
+
+    const lineTotal = calculateLineTotal(item);
+    subtotal += (Number(item.quantity) || 0) * (Number(item.unit_price) || 0) * (Number(item.term_months) || 1);
+    total += lineTotal;
+
+    pdf.text(String(index + 1), cellX(0), y, { size: 10 });
+    nameLines.forEach((line, i) => pdf.text(line, cellX(1), y + i * 13, { size: 10, bold: true }));
+    detailLines.forEach((line, i) => pdf.text(line, cellX(1), y + nameLines.length * 13 + i * 11, { size: 8, color: MUTED }));
+    pdf.text(String(Number(item.quantity)), cellX(2), y, { size: 10, align: 'right' });
+    pdf.text(formatAmount(Number(item.unit_price) || 0, deal.currency), cellX(3), y, { size: 10, align: 'right' });
+    pdf.text(item.discount_percent ? `${Number(item.discount_percent)}%` : '-', cellX(4), y, { size: 10, align: 'right' });
+    pdf.text(item.term_months ? `${item.term_months} mo` : '-', cellX(5), y, { size: 10, align: 'right' });
+    pdf.text(formatAmount(lineTotal, deal.currency), cellX(6), y, { size: 10, align: 'right' });
+
+    y += rowHeight;
+    pdf.line(MARGIN, y - 4, right, y - 4, BORDER);
+  });
+
+  // Totals
+  ensureSpace(70);
+  y += 6;
+  const labelX = columnX[3];
+  if (subtotal - total >= 0.01) {
+    pdf.text('Subtotal', labelX, y, { size: 10, color: MUTED });
+    pdf.text(formatAmount(subtotal, deal.currency), right - 4, y, { size: 10, align: 'right' });
+    y += 16;
+    pdf.text('Discount', labelX, y, { size: 10, color: MUTED });
+    pdf.text(`- ${formatAmount(subtotal - total, deal.currency)}`, right - 4, y, { size: 10, align: 'right' });
+    y += 16;
+  }
+  pdf.rect(labelX - 6, y - 4, right - labelX + 6, 24, branding.accentColor);
+  pdf.text('Total', labelX, y + 2, { size: 12, bold: true, color: '#ffffff' });
+  pdf.text(formatAmount(total, deal.currency), right - 4, y + 2, { size: 12, bold: true, color: '#ffffff', align: 'right' });
+
+  // Footer on every page
+  for (let page = 0; page < pdf.pageCount; page++) {
+    pdf.goToPage(page);
+    pdf.line(MARGIN, pdf.height - 45, right, pdf.height - 45, BORDER);
+    pdf.text(`${branding.appName}  ·  ${data.documentNumber} v${data.version}`, MARGIN, pdf.height - 38, { size: 8, color: MUTED });
+    pdf.text(`Page ${page + 1} of ${pdf.pageCount}`, right, pdf.height - 38, { size: 8, color: MUTED, align: 'right' });
+  }
+
+  return pdf.output();
+};
@@ -0,0 +1,35 @@
+import { SearchRecordType, SNIPPET_MATCH_END, SNIPPET_MATCH_START } from '@/types/search';
+
+const MODULE_ROUTES: Record<Exclude<SearchRecordType, 'email'>, string> = {
+  lead: '/leads',
+  contact: '/contacts',
+  account: '/accounts',
+  deal: '/deals',
+  meeting: '/meetings',
+  task: '/tasks',
+};
+
+// Records open in their module's view dialog; emails open on the record they were sent to
+export const getSearchRoute = (
+  type: SearchRecordType,
+  id: string,
+  relatedType?: string | null,
+  relatedId?: string | null
+): string => {
+  if (type === 'email') {
+    const related = MODULE_ROUTES[relatedType as keyof typeof MODULE_ROUTES];
+    return related && relatedId ? `${related}?viewId=${relatedId}` : '/settings?tab=email&section=history';
+  }
+  return `${MODULE_ROUTES[type]}?viewId=${id}`;
+};
+
+// Splits a search snippet into plain and matched parts, in order
+export const splitSnippet = (snippet: string): { text: string; match: boolean }[] =>
+  snippet
+    .split(SNIPPET_MATCH_START)
+    .flatMap((chunk, index) => {
+      if (index === 0) return [{ text: chunk, match: false }];
+      const [match, ...rest] = chunk.split(SNIPPET_MATCH_END);
+      return [{ text: match, match: true }, { text: rest.join(''), match: false }];
+    })
+    .filter(part => part.text);
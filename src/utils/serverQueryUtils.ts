@@ -0,0 +1,104 @@
+import type { SearchCondition, SearchGroup } from '@/components/shared/AdvancedSearchBar';
+import { getCustomFieldName } from './customFieldUtils';
+
+// A PostgREST logic-tree filter, applied with .or(); a list of them narrows the query by each in turn
+export type ServerFilter = string;
+
+// "All N matching the filter" selected across pages; bulk actions apply the filters instead of a list of ids
+export interface MatchingSelection {
+  count: number;
+  filters: ServerFilter[];
+}
+
+// Bulk updates and deletes need a WHERE clause even when no filter is set
+export const MATCH_ALL_FILTER: ServerFilter = 'id.not.is.null';
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Custom fields are read from the custom_fields JSON column
+export const toQueryColumn = (field: string) => {
+  const name = getCustomFieldName(field);
+  return name ? `custom_fields->>${name}` : field;
+};
+
+export const eqFilter = (column: string, value: string): ServerFilter => `${column}.eq.${quote(value)}`;
+
+// Equal ignoring letter case, as picklist values are compared
+export const iEqFilter = (column: string, value: string): ServerFilter => `${column}.ilike.${quote(escapeLike(value))}`;
+
+export const inFilter = (column: string, values: string[]): ServerFilter =>
+  `${column}.in.(${values.map(quote).join(',')})`;
+
+export const gteFilter = (column: string, value: string | number): ServerFilter => `${column}.gte.${quote(String(value))}`;
+
+export const lteFilter = (column: string, value: string | number): ServerFilter => `${column}.lte.${quote(String(value))}`;
+
+export const arrayContainsFilter = (column: string, value: string): ServerFilter => `${column}.cs.{${quote(value)}}`;
+
+// Any of the columns containing the term; array columns match a whole element
+export const searchFilter = (term: string, columns: string[], arrayColumns: string[] = []): ServerFilter => {
+  const pattern = quote(`%${escapeLike(term.trim())}%`);
+  return [
+    ...columns.map(column => `${column}.ilike.${pattern}`),
+    ...arrayColumns.map(column => arrayContainsFilter(column, term.trim())),
+  ].join(',');
+};
+
+const conditionFilter = (condition: SearchCondition): ServerFilter => {
+  const column = toQueryColumn(condition.field);
+  // Checkbox custom fields are searched as yes / no but stored as true / false
+  const raw = getCustomFieldName(condition.field)
+    ? ({ yes: 'true', no: 'false' }[condition.value.trim().toLowerCase()] ?? condition.value)
+    : condition.value;
+  const value = escapeLike(raw);
+
+  switch (condition.operator) {
+    case 'equals':
+      return `${column}.ilike.${quote(value)}`;
+    case 'notEquals':
+      return `or(${column}.is.null,${column}.not.ilike.${quote(value)})`;
+    case 'contains':
+      return `${column}.ilike.${quote(`%${value}%`)}`;
+    case 'startsWith':
+      return `${column}.ilike.${quote(`${value}%`)}`;
+    case 'endsWith':
+      return `${column}.ilike.${quote(`%${value}`)}`;
+    case 'isEmpty':
+      return `or(${column}.is.null,${column}.eq."")`;
+    case 'isNotEmpty':
+      return `and(${column}.not.is.null,${column}.neq."")`;
+  }
+};
+
+// The advanced search as one filter: groups are ORed, a group's conditions joined by its own logic
+export const advancedSearchFilter = (groups: SearchGroup[]): ServerFilter | null => {
+  const parts = groups
+    .filter(group => group.conditions.length > 0)
+    .map(group => `${group.logic.toLowerCase()}(${group.conditions.map(conditionFilter).join(',')})`);
+  return parts.length ? parts.join(',') : null;
+};
+
+export const applyServerFilters = <Q extends { or: (filters: string) => Q }>(query: Q, filters: ServerFilter[]): Q =>
+  filters.reduce((narrowed, filter) => narrowed.or(filter), query);
+
+// Rows with the same sort value keep a stable order across pages
+export const applyServerSort = <Q extends { order: (column: string, options?: { ascending?: boolean; nullsFirst?: boolean }) => Q }>(
+  query: Q,
+  field: string,
+  ascending: boolean
+): Q => query.order(toQueryColumn(field), { ascending, nullsFirst: false }).order('id', { ascending: true });
+
+// Everything a filter matches, fetched in chunks the API's row limit allows
+export const fetchAllMatchingRows = async <T>(
+  fetchRange: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+  chunkSize = 1000
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += chunkSize) {
+    const { data, error } = await fetchRange(from, from + chunkSize - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < chunkSize) return rows;
+  }
+};
@@ -0,0 +1,352 @@
+// Minimal XLSX writer and reader on top of zipArchive. The writer emits text, numbers, booleans and
+// dates under a bold, frozen header row; the reader returns a sheet's cells as text, with dates in
+// the YYYY-MM-DD form the importers expect.
+import { ZipArchive, createZip } from './zipArchive';
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCellValue[][]; // the first row is the header
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Cell styles, in cellXfs order
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATETIME = 3;
+
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 86400000;
+const MAX_SHEET_NAME = 31;
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 50;
+
+export const isXlsxFile = (file: File) => /\.xlsx$/i.test(file.name) || file.type === XLSX_MIME_TYPE;
+
+// Drops characters XML 1.0 can't carry, which spreadsheets exported from other tools sometimes hold
+const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return code === 9 || code === 10 || code === 13 || (code >= 32 && code !== 0xfffe && code !== 0xffff);
+    })
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (reference: string) => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// Excel stores dates as days since 1899-12-30 in wall-clock time, with no time zone
+const toSerial = (date: Date) =>
+  (Date.UTC(date.getFullYear(), date.getMonth(), date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()) - EXCEL_EPOCH) / DAY_MS;
+
+const fromSerial = (serial: number) => {
+  const date = new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS / 1000) * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  if (Number.isInteger(serial)) return day;
+  return `${day} ${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+};
+
+// Sheet names are limited to 31 characters, can't hold []:*?/\ and must be unique
+const toSheetNames = (names: string[]) => {
+  const used = new Set<string>();
+  return names.map((raw, index) => {
+    const base = raw.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, MAX_SHEET_NAME - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const renderCell = (value: XlsxCellValue, reference: string, header: boolean) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (header) {
+    return `<c r="${reference}" t="inlineStr" s="${STYLE_HEADER}"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const serial = toSerial(value);
+    return `<c r="${reference}" s="${Number.isInteger(serial) ? STYLE_DATE : STYLE_DATETIME}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${reference}"><v>${value}</v></c>` : '';
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  // Text stays text, so phone numbers keep their leading zeros
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const cellWidth = (value: XlsxCellValue) => {
+  if (value instanceof Date) return 18;
+  return value === null || value === undefined ? 0 : String(value).split('\n')[0].length + 2;
+};
+
+const renderSheet = (rows: XlsxCellValue[][]) => {
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const widths = Array.from({ length: columnCount }, (_, column) =>
+    Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, ...rows.slice(0, 200).map(row => cellWidth(row[column]))))
+  );
+
+  const cols = widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('');
+  const data = rows.map((row, rowIndex) => {
+    const cells = row.map((value, column) => renderCell(value, `${columnName(column)}${rowIndex + 1}`, rowIndex === 0)).join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  return XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>' +
+    '</sheetView></sheetViews>' +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    (cols ? `<cols>${cols}</cols>` : '') +
+    `<sheetData>${data}</sheetData>` +
+    '</worksheet>';
+};
+
+const STYLES_XML = XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<numFmts count="2"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs>' +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  '</styleSheet>';
+
+export const buildXlsxWorkbook = async (sheets: XlsxSheet[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const names = toSheetNames(sheets.map(sheet => sheet.name));
+
+  const contentTypes = XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ).join('') +
+    '</Types>';
+
+  const rootRels = XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>';
+
+  const workbook = XML_HEADER +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+    '</sheets></workbook>';
+
+  const workbookRels = XML_HEADER +
+    `<Relationships xmlns="${PACKAGE_REL_NS}">` +
+    sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+
+  const blob = await createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(contentTypes) },
+    { name: '_rels/.rels', data: encoder.encode(rootRels) },
+    { name: 'xl/workbook.xml', data: encoder.encode(workbook) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(workbookRels) },
+    { name: 'xl/styles.xml', data: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: encoder.encode(renderSheet(sheet.rows)) })),
+  ]);
+  return new Blob([blob], { type: XLSX_MIME_TYPE });
+};
+
+// Built-in number formats 14-22 and 45-47 are dates or times
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// A custom format is a date if it has date or time tokens outside quoted text and [colour] blocks
+const isDateFormatCode = (code: string) => /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ''));
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const elements = (parent: Document | Element, name: string) => Array.from(parent.getElementsByTagNameNS('*', name));
+
+const childElements = (parent: Element, name: string) => Array.from(parent.children).filter(child => child.localName === name);
+
+// Text of a shared or inline string, leaving out phonetic runs
+const stringItemText = (item: Element) =>
+  elements(item, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+const resolvePath = (base: string, target: string) => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const readRelationships = async (zip: ZipArchive, partPath: string) => {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  const text = await zip.readText(relsPath);
+  const targets = new Map<string, { type: string; path: string }>();
+  if (!text) return targets;
+  elements(parseXml(text), 'Relationship').forEach(rel => {
+    targets.set(rel.getAttribute('Id'), {
+      type: rel.getAttribute('Type') || '',
+      path: resolvePath(partPath, rel.getAttribute('Target') || ''),
+    });
+  });
+  return targets;
+};
+
+/**
+ * An uploaded workbook. Sheets are listed on open; a sheet's cells are only read when asked for,
+ * so picking a sheet in a large workbook doesn't parse the others.
+ */
+export class XlsxWorkbook {
+  private sharedStrings: string[] | null = null;
+  private dateStyles: boolean[] | null = null;
+
+  private constructor(
+    private readonly zip: ZipArchive,
+    private readonly workbookPath: string,
+    private readonly sheets: { name: string; path: string }[]
+  ) {}
+
+  static async open(file: Blob): Promise<XlsxWorkbook> {
+    const zip = await ZipArchive.open(file);
+    const rootRels = await readRelationships(zip, '');
+    const workbookPath = Array.from(rootRels.values()).find(rel => rel.type.endsWith('/officeDocument'))?.path || 'xl/workbook.xml';
+    const workbookXml = await zip.readText(workbookPath);
+    if (!workbookXml) throw new Error('The file is not an Excel workbook');
+
+    const rels = await readRelationships(zip, workbookPath);
+    const sheets = elements(parseXml(workbookXml), 'sheet')
+      .map(sheet => ({
+        name: sheet.getAttribute('name') || '',
+        path: rels.get(sheet.getAttributeNS(REL_NS, 'id') || sheet.getAttribute('r:id'))?.path,
+      }))
+      .filter(sheet => sheet.path && zip.has(sheet.path));
+
+    return new XlsxWorkbook(zip, workbookPath, sheets);
+  }
+
+  get sheetNames() {
+    return this.sheets.map(sheet => sheet.name);
+  }
+
+  // Rows of cell text, padded to the widest row; trailing empty rows are dropped
+  async readSheet(name: string): Promise<string[][]> {
+    const sheet = this.sheets.find(s => s.name === name);
+    if (!sheet) throw new Error(`Sheet "${name}" not found`);
+    await this.loadSharedParts();
+
+    const doc = parseXml(await this.zip.readText(sheet.path));
+    const rows: string[][] = [];
+    elements(doc, 'row').forEach((row, position) => {
+      const rowNumber = Number(row.getAttribute('r'));
+      const rowIndex = rowNumber > 0 ? rowNumber - 1 : position;
+      const values: string[] = [];
+      childElements(row, 'c').forEach((cell, cellPosition) => {
+        const reference = cell.getAttribute('r');
+        values[reference ? columnIndex(reference) : cellPosition] = this.cellText(cell);
+      });
+      rows[rowIndex] = values;
+    });
+
+    const width = Math.max(0, ...rows.filter(Boolean).map(row => row.length));
+    const filled = Array.from(rows, row => Array.from({ length: width }, (_, i) => row?.[i] ?? ''));
+    while (filled.length > 0 && filled[filled.length - 1].every(value => value.trim() === '')) filled.pop();
+    return filled;
+  }
+
+  private cellText(cell: Element) {
+    const type = cell.getAttribute('t');
+    const value = childElements(cell, 'v')[0]?.textContent ?? '';
+
+    switch (type) {
+      case 's':
+        return this.sharedStrings[Number(value)] ?? '';
+      case 'inlineStr': {
+        const inline = childElements(cell, 'is')[0];
+        return inline ? stringItemText(inline) : '';
+      }
+      case 'str':
+      case 'd':
+        return value;
+      case 'b':
+        return value === '1' ? 'TRUE' : 'FALSE';
+      case 'e':
+        return '';
+      default: {
+        if (value === '') return '';
+        const number = Number(value);
+        if (!Number.isFinite(number)) return value;
+        if (this.dateStyles[Number(cell.getAttribute('s')) || 0]) return fromSerial(number);
+        // Stored doubles like 0.30000000000000004 read back the way Excel shows them
+        return String(parseFloat(number.toPrecision(15)));
+      }
+    }
+  }
+
+  private async loadSharedParts() {
+    if (this.sharedStrings && this.dateStyles) return;
+    const rels = Array.from((await readRelationships(this.zip, this.workbookPath)).values());
+
+    const sharedStringsPath = rels.find(rel => rel.type.endsWith('/sharedStrings'))?.path;
+    const sharedStringsXml = sharedStringsPath ? await this.zip.readText(sharedStringsPath) : null;
+    this.sharedStrings = sharedStringsXml
+      ? childElements(parseXml(sharedStringsXml).documentElement, 'si').map(stringItemText)
+      : [];
+
+    const stylesPath = rels.find(rel => rel.type.endsWith('/styles'))?.path;
+    const stylesXml = stylesPath ? await this.zip.readText(stylesPath) : null;
+    if (!stylesXml) {
+      this.dateStyles = [];
+      return;
+    }
+    const styles = parseXml(stylesXml);
+    const customFormats = new Map(
+      elements(styles, 'numFmt').map(format => [Number(format.getAttribute('numFmtId')), format.getAttribute('formatCode') || ''])
+    );
+    const cellXfs = elements(styles, 'cellXfs')[0];
+    this.dateStyles = (cellXfs ? childElements(cellXfs, 'xf') : []).map(xf => {
+      const id = Number(xf.getAttribute('numFmtId')) || 0;
+      return BUILTIN_DATE_FORMATS.has(id) || (customFormats.has(id) && isDateFormatCode(customFormats.get(id)));
+    });
+  }
+}
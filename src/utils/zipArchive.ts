@@ -0,0 +1,154 @@
+// Minimal ZIP writer and reader for Office files: stored and deflated entries through the
+// browser's CompressionStream, without ZIP64, encryption or multi-disk archives.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+interface CentralEntry {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const DEFLATE = 8;
+const STORED = 0;
+const DOS_DATE_1980 = 0x21; // 1980-01-01, the earliest date ZIP can record
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const transform = async (data: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const compressed = await transform(entry.data, new CompressionStream('deflate-raw'));
+    const crc = crc32(entry.data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_HEADER, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, UTF8_FLAG, true);
+    local.setUint16(8, DEFLATE, true);
+    local.setUint16(12, DOS_DATE_1980, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, entry.data.length, true);
+    local.setUint16(26, name.length, true);
+    localParts.push(new Uint8Array(local.buffer), name, compressed);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_HEADER, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, UTF8_FLAG, true);
+    central.setUint16(10, DEFLATE, true);
+    central.setUint16(14, DOS_DATE_1980, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, compressed.length, true);
+    central.setUint32(24, entry.data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + compressed.length;
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...localParts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
+
+// Entries are listed up front and only inflated when read, so large unused parts cost nothing
+export class ZipArchive {
+  private constructor(private readonly bytes: Uint8Array, private readonly entries: Map<string, CentralEntry>) {}
+
+  static async open(blob: Blob): Promise<ZipArchive> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end record sits before an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+      if (view.getUint32(i, true) === END_OF_CENTRAL) {
+        end = i;
+        break;
+      }
+    }
+    if (end === -1) throw new Error('Not a valid ZIP file');
+
+    const decoder = new TextDecoder();
+    const entries = new Map<string, CentralEntry>();
+    const count = view.getUint16(end + 10, true);
+    let position = view.getUint32(end + 16, true);
+
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(position, true) !== CENTRAL_HEADER) throw new Error('Corrupt ZIP directory');
+      const nameLength = view.getUint16(position + 28, true);
+      const extraLength = view.getUint16(position + 30, true);
+      const commentLength = view.getUint16(position + 32, true);
+      const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+      entries.set(name, {
+        method: view.getUint16(position + 10, true),
+        compressedSize: view.getUint32(position + 20, true),
+        localOffset: view.getUint32(position + 42, true),
+      });
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new ZipArchive(bytes, entries);
+  }
+
+  has(name: string) {
+    return this.entries.has(name);
+  }
+
+  async read(name: string): Promise<Uint8Array | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+    const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+    const data = this.bytes.subarray(start, start + entry.compressedSize);
+
+    if (entry.method === STORED) return data;
+    if (entry.method === DEFLATE) return transform(data, new DecompressionStream('deflate-raw'));
+    throw new Error(`Unsupported compression in ${name}`);
+  }
+
+  async readText(name: string) {
+    const data = await this.read(name);
+    return data ? new TextDecoder().decode(data) : null;
+  }
+}
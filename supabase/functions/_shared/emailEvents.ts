@@ -0,0 +1,100 @@
+// Records opens and clicks in email_events, flagging the ones a machine made. The
+// apply_email_event trigger updates email_history and contact counters from human events only.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+type TrackedEventType = "open" | "click";
+
+// Security gateways and link scanners that fetch pixels and follow every link
+const SCANNER_USER_AGENT =
+  /bot|crawl|spider|scanner|python|curl|wget|java\/|go-http|okhttp|headless|phantom|preview|barracuda|mimecast|proofpoint|symantec|trendmicro|forcepoint|safelinks|urldefense|cloudmark/i;
+
+// Events this soon after sending are a gateway prefetching the message, not a person
+const PREFETCH_WINDOW_MS = 5_000;
+
+// A scanner follows several links of an email within moments of each other
+const CLICK_BURST_WINDOW_MS = 2_000;
+
+export function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get("x-forwarded-for");
+  if (forwarded) return forwarded.split(",")[0].trim();
+  return req.headers.get("cf-connecting-ip") || req.headers.get("x-real-ip");
+}
+
+interface MachineCheck {
+  eventType: TrackedEventType;
+  userAgent: string | null;
+  ip: string | null;
+  sentAt: string;
+  occurredAt: Date;
+  lastClickAt?: string | null;
+}
+
+export function detectMachineEvent({ eventType, userAgent, ip, sentAt, occurredAt, lastClickAt }: MachineCheck): string | null {
+  if (!userAgent) return "missing_user_agent";
+  if (SCANNER_USER_AGENT.test(userAgent)) return "scanner_user_agent";
+
+  // Apple Mail Privacy Protection loads images from Apple's 17.0.0.0/8 network with a bare user agent
+  if (eventType === "open" && (ip?.startsWith("17.") || userAgent.trim() === "Mozilla/5.0")) {
+    return "apple_privacy_proxy";
+  }
+
+  if (occurredAt.getTime() - new Date(sentAt).getTime() < PREFETCH_WINDOW_MS) return "prefetch_timing";
+
+  if (eventType === "click" && lastClickAt && occurredAt.getTime() - new Date(lastClickAt).getTime() < CLICK_BURST_WINDOW_MS) {
+    return "click_burst";
+  }
+
+  return null;
+}
+
+interface RecordEventOptions {
+  emailId: string;
+  eventType: TrackedEventType;
+  sentAt: string;
+  url?: string;
+}
+
+export async function recordEmailEvent(
+  supabase: SupabaseClient,
+  req: Request,
+  { emailId, eventType, sentAt, url }: RecordEventOptions,
+): Promise<{ isMachine: boolean }> {
+  const userAgent = req.headers.get("user-agent");
+  const ip = getClientIp(req);
+  const occurredAt = new Date();
+
+  let lastClickAt: string | null = null;
+  if (eventType === "click") {
+    const { data: lastClick } = await supabase
+      .from("email_events")
+      .select("occurred_at")
+      .eq("email_history_id", emailId)
+      .eq("event_type", "click")
+      .order("occurred_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    lastClickAt = lastClick?.occurred_at ?? null;
+  }
+
+  const machineReason = detectMachineEvent({ eventType, userAgent, ip, sentAt, occurredAt, lastClickAt });
+
+  const { error } = await supabase.from("email_events").insert({
+    email_history_id: emailId,
+    event_type: eventType,
+    url: url ?? null,
+    ip_address: ip,
+    user_agent: userAgent,
+    is_machine: machineReason !== null,
+    machine_reason: machineReason,
+    created_by: null,
+    occurred_at: occurredAt.toISOString(),
+  });
+
+  if (error) {
+    console.error(`Error recording ${eventType} event:`, error);
+  } else if (machineReason) {
+    console.log(`Recorded ${eventType} for email ${emailId} as machine traffic (${machineReason})`);
+  }
+
+  return { isMachine: machineReason !== null };
+}
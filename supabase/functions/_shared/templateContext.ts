@@ -0,0 +1,84 @@
+// Merge field context for the sequence scheduler; the browser builds the same shape in
+// src/hooks/useTemplateContext.ts for previews and manual sends.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { TemplateContext } from "./templateEngine.ts";
+
+export type TemplateRecordType = "lead" | "contact" | "account";
+
+const RECORD_TABLES = {
+  lead: { table: "leads", nameColumn: "lead_name", ownerColumn: "contact_owner" },
+  contact: { table: "contacts", nameColumn: "contact_name", ownerColumn: "contact_owner" },
+  account: { table: "accounts", nameColumn: "company_name", ownerColumn: "account_owner" },
+} as const;
+
+type Row = Record<string, unknown>;
+
+const splitName = (name: string | null | undefined) => {
+  const parts = (name || "").trim().split(/\s+/).filter(Boolean);
+  return { first_name: parts[0] || "", last_name: parts.slice(1).join(" ") };
+};
+
+async function fetchRow(supabase: SupabaseClient, table: string, id: unknown): Promise<Row | null> {
+  if (!id) return null;
+  const { data, error } = await supabase.from(table).select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchProfile(supabase: SupabaseClient, id: unknown): Promise<Row | null> {
+  if (!id) return null;
+  const { data, error } = await supabase
+    .from("profiles")
+    .select('id, full_name, "Email ID", phone')
+    .eq("id", id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return { full_name: data.full_name, ...splitName(data.full_name), email: data["Email ID"], phone: data.phone };
+}
+
+const quote = (value: string) => `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+export async function loadTemplateContext(
+  supabase: SupabaseClient,
+  record: { type: TemplateRecordType; id: string },
+  senderId?: string | null,
+): Promise<TemplateContext> {
+  const { table, nameColumn, ownerColumn } = RECORD_TABLES[record.type];
+  const row = await fetchRow(supabase, table, record.id);
+  if (!row) throw new Error(`The ${record.type} could not be found`);
+
+  const account = record.type === "account" ? row : await fetchRow(supabase, "accounts", row.account_id);
+  const dealFilters = [
+    record.type === "contact" && `contact_id.eq.${record.id}`,
+    record.type === "lead" && row.lead_name && `lead_name.eq.${quote(String(row.lead_name))}`,
+    account && `account_id.eq.${account.id}`,
+  ].filter(Boolean) as string[];
+
+  const [owner, sender, deals] = await Promise.all([
+    fetchProfile(supabase, row[ownerColumn]),
+    fetchProfile(supabase, senderId),
+    dealFilters.length
+      ? supabase.from("deals").select("*").or(dealFilters.join(",")).order("modified_at", { ascending: false }).limit(1)
+      : Promise.resolve({ data: [] as Row[], error: null }),
+  ]);
+  if (deals.error) throw deals.error;
+
+  const name = row[nameColumn] as string | null;
+  return {
+    name,
+    contact_name: name,
+    ...splitName(name),
+    email: row.email,
+    company_name: row.company_name || account?.company_name,
+    position: row.position,
+    phone: row.phone_no ?? row.phone,
+    lead: record.type === "lead" ? row : null,
+    contact: record.type === "contact" ? row : null,
+    account,
+    owner,
+    deal: deals.data?.[0] || null,
+    sender,
+    today: new Date().toISOString(),
+  };
+}
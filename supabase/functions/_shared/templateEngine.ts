@@ -0,0 +1,422 @@
+// Email template language, shared by the browser (editing, previews, manual sends) and the
+// sequence scheduler. It has no imports so both Vite and Deno can load it.
+//
+//   {{first_name}}                          a merge field, by path into the context
+//   {{first_name | default: "there"}}      filters, applied left to right
+//   {{deal.expected_closing_date | date: "d MMM yyyy"}}, {{deal.total_contract_value | currency}}
+//   {{#if deal}}...{{else}}...{{/if}}      also {{#unless x}}, and {{#if lead.lead_status == "New"}}
+//   {{account.website | raw}}              values are HTML-escaped unless the raw filter is applied
+
+export type TemplateContext = Record<string, unknown>;
+
+export interface TemplateVariable {
+  key: string;
+  description: string;
+}
+
+export interface TemplateVariableGroup {
+  label: string;
+  variables: TemplateVariable[];
+}
+
+export const TEMPLATE_VARIABLE_GROUPS: TemplateVariableGroup[] = [
+  {
+    label: "Recipient",
+    variables: [
+      { key: "name", description: "Recipient's full name" },
+      { key: "contact_name", description: "Recipient's full name" },
+      { key: "first_name", description: "Recipient's first name" },
+      { key: "last_name", description: "Recipient's last name" },
+      { key: "email", description: "Recipient's email" },
+      { key: "company_name", description: "Company name" },
+      { key: "position", description: "Recipient's position" },
+      { key: "phone", description: "Recipient's phone" },
+    ],
+  },
+  {
+    label: "Lead",
+    variables: [
+      { key: "lead.lead_name", description: "Lead name" },
+      { key: "lead.email", description: "Lead email" },
+      { key: "lead.company_name", description: "Lead company" },
+      { key: "lead.position", description: "Lead position" },
+      { key: "lead.phone_no", description: "Lead phone" },
+      { key: "lead.lead_status", description: "Lead status" },
+      { key: "lead.industry", description: "Lead industry" },
+      { key: "lead.country", description: "Lead country" },
+      { key: "lead.website", description: "Lead website" },
+    ],
+  },
+  {
+    label: "Contact",
+    variables: [
+      { key: "contact.contact_name", description: "Contact name" },
+      { key: "contact.email", description: "Contact email" },
+      { key: "contact.company_name", description: "Contact company" },
+      { key: "contact.position", description: "Contact position" },
+      { key: "contact.phone_no", description: "Contact phone" },
+      { key: "contact.industry", description: "Contact industry" },
+      { key: "contact.region", description: "Contact region" },
+    ],
+  },
+  {
+    label: "Account",
+    variables: [
+      { key: "account.company_name", description: "Account name" },
+      { key: "account.industry", description: "Account industry" },
+      { key: "account.country", description: "Account country" },
+      { key: "account.region", description: "Account region" },
+      { key: "account.website", description: "Account website" },
+      { key: "account.phone", description: "Account phone" },
+      { key: "account.status", description: "Account status" },
+    ],
+  },
+  {
+    label: "Owner",
+    variables: [
+      { key: "owner.full_name", description: "Record owner's name" },
+      { key: "owner.first_name", description: "Record owner's first name" },
+      { key: "owner.email", description: "Record owner's email" },
+      { key: "owner.phone", description: "Record owner's phone" },
+    ],
+  },
+  {
+    label: "Latest deal",
+    variables: [
+      { key: "deal.deal_name", description: "Deal name" },
+      { key: "deal.project_name", description: "Project name" },
+      { key: "deal.stage", description: "Deal stage" },
+      { key: "deal.total_contract_value", description: "Contract value (use | currency)" },
+      { key: "deal.currency_type", description: "Deal currency" },
+      { key: "deal.probability", description: "Win probability" },
+      { key: "deal.expected_closing_date", description: "Expected close (use | date)" },
+    ],
+  },
+  {
+    label: "Other",
+    variables: [
+      { key: "sender.full_name", description: "Your name" },
+      { key: "sender.first_name", description: "Your first name" },
+      { key: "sender.email", description: "Your email" },
+      { key: "today", description: "Today's date (use | date)" },
+    ],
+  },
+];
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLE_GROUPS.flatMap(group => group.variables.map(v => v.key)));
+
+// Records used in conditions, e.g. {{#if deal}}
+const KNOWN_OBJECTS = new Set(["lead", "contact", "account", "owner", "deal", "sender"]);
+
+type FilterFn = (value: unknown, args: string[], context: TemplateContext) => unknown;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+
+// Shown when a currency filter has no code and the context has no deal currency (the reporting currency)
+const DEFAULT_CURRENCY = "EUR";
+
+const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const toDate = (value: unknown): Date | null => {
+  if (isEmpty(value)) return null;
+  if (value instanceof Date) return value;
+  // Date-only values are calendar days, not midnight UTC
+  const dateOnly = String(value).match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly ? new Date(+dateOnly[1], +dateOnly[2] - 1, +dateOnly[3]) : new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// The date-fns pattern tokens templates use, e.g. "d MMM yyyy", "EEEE, MMMM d", "dd/MM/yyyy HH:mm"
+const formatDatePattern = (date: Date, pattern: string): string => {
+  const hours12 = date.getHours() % 12 || 12;
+  const tokens: Record<string, string> = {
+    yyyy: String(date.getFullYear()),
+    yy: String(date.getFullYear()).slice(-2),
+    MMMM: MONTHS[date.getMonth()],
+    MMM: MONTHS[date.getMonth()].slice(0, 3),
+    MM: pad(date.getMonth() + 1),
+    M: String(date.getMonth() + 1),
+    dd: pad(date.getDate()),
+    d: String(date.getDate()),
+    EEEE: WEEKDAYS[date.getDay()],
+    EEE: WEEKDAYS[date.getDay()].slice(0, 3),
+    HH: pad(date.getHours()),
+    H: String(date.getHours()),
+    hh: pad(hours12),
+    h: String(hours12),
+    mm: pad(date.getMinutes()),
+    a: date.getHours() < 12 ? "AM" : "PM",
+  };
+  return pattern.replace(/yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|a|'[^']*'/g, token =>
+    token.startsWith("'") ? token.slice(1, -1) : tokens[token]
+  );
+};
+
+const FILTERS: Record<string, FilterFn> = {
+  default: (value, [fallback = ""]) => (isEmpty(value) ? fallback : value),
+  upper: value => (isEmpty(value) ? value : String(value).toUpperCase()),
+  lower: value => (isEmpty(value) ? value : String(value).toLowerCase()),
+  capitalize: value => (isEmpty(value) ? value : String(value).charAt(0).toUpperCase() + String(value).slice(1)),
+  date: (value, [pattern = "d MMM yyyy"]) => {
+    const date = toDate(value);
+    return date ? formatDatePattern(date, pattern) : value;
+  },
+  // Without a currency code, amounts are shown in the deal's currency
+  // Marks the value as trusted HTML; renderNodes leaves it unescaped
+  raw: value => value,
+  currency: (value, [code], context) => {
+    if (isEmpty(value) || isNaN(Number(value))) return value;
+    const deal = context.deal as Record<string, unknown> | null | undefined;
+    const currency = code || (deal?.currency_type as string) || DEFAULT_CURRENCY;
+    try {
+      return new Intl.NumberFormat("en-US", { style: "currency", currency, minimumFractionDigits: 0, maximumFractionDigits: 2 }).format(Number(value));
+    } catch {
+      return `${value} ${currency}`;
+    }
+  },
+};
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS);
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface Condition {
+  path: string;
+  operator?: "==" | "!=";
+  value?: string;
+}
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; filters: FilterCall[]; raw: string }
+  | { type: "if"; negate: boolean; condition: Condition; then: TemplateNode[]; else: TemplateNode[] };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: string[];
+  paths: string[];
+}
+
+const PATH = /^[a-zA-Z_][\w]*(\.[a-zA-Z_][\w]*)*$/;
+const TAG = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+
+const unquote = (arg: string) => {
+  const trimmed = arg.trim();
+  const quoted = trimmed.match(/^"((?:[^"\\]|\\.)*)"$|^'((?:[^'\\]|\\.)*)'$/);
+  return quoted ? (quoted[1] ?? quoted[2]).replace(/\\(.)/g, "$1") : trimmed;
+};
+
+// Splits on a separator outside quotes
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") {
+        current += char + (text[i + 1] ?? "");
+        i++;
+        continue;
+      }
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseExpression = (expression: string, errors: string[]): { path: string; filters: FilterCall[] } | null => {
+  const [head, ...filterParts] = splitOutsideQuotes(expression, "|");
+  const path = head.trim();
+  if (!PATH.test(path)) {
+    errors.push(`"{{${expression}}}" is not a valid merge field`);
+    return null;
+  }
+
+  const filters = filterParts.map(part => {
+    const colon = part.indexOf(":");
+    const name = (colon === -1 ? part : part.slice(0, colon)).trim();
+    const args = colon === -1 ? [] : splitOutsideQuotes(part.slice(colon + 1), ",").map(unquote);
+    if (!FILTERS[name]) errors.push(`Unknown filter "${name}" in "{{${expression}}}"`);
+    return { name, args };
+  });
+
+  return { path, filters };
+};
+
+const parseCondition = (expression: string, errors: string[]): Condition | null => {
+  const match = expression.match(/^([\w.]+)\s*(?:(==|!=)\s*(.+))?$/);
+  if (!match || !PATH.test(match[1])) {
+    errors.push(`"${expression}" is not a valid condition`);
+    return null;
+  }
+  return { path: match[1], operator: match[2] as Condition["operator"], value: match[3] !== undefined ? unquote(match[3]) : undefined };
+};
+
+export const parseTemplate = (text: string): ParsedTemplate => {
+  const errors: string[] = [];
+  const paths: string[] = [];
+  const root: TemplateNode[] = [];
+  // Open blocks; `target` is the branch currently being filled
+  const stack: { node: Extract<TemplateNode, { type: "if" }>; keyword: string; target: TemplateNode[] }[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  let lastIndex = 0;
+  for (const match of text.matchAll(TAG)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) current().push({ type: "text", value: text.slice(lastIndex, index) });
+    lastIndex = index + match[0].length;
+
+    const tag = match[1];
+    const open = tag.match(/^#(if|unless)\s+(.+)$/);
+    if (open) {
+      const condition = parseCondition(open[2].trim(), errors);
+      const node: Extract<TemplateNode, { type: "if" }> = {
+        type: "if",
+        negate: open[1] === "unless",
+        condition: condition || { path: "" },
+        then: [],
+        else: [],
+      };
+      if (condition) paths.push(condition.path);
+      current().push(node);
+      stack.push({ node, keyword: open[1], target: node.then });
+      continue;
+    }
+
+    if (tag === "else") {
+      const block = stack[stack.length - 1];
+      if (!block || block.target === block.node.else) {
+        errors.push("{{else}} without a matching {{#if}}");
+      } else {
+        block.target = block.node.else;
+      }
+      continue;
+    }
+
+    const close = tag.match(/^\/(if|unless)$/);
+    if (close) {
+      const block = stack[stack.length - 1];
+      if (!block || block.keyword !== close[1]) {
+        errors.push(`{{/${close[1]}}} without a matching {{#${close[1]}}}`);
+      } else {
+        stack.pop();
+      }
+      continue;
+    }
+
+    const expression = parseExpression(tag, errors);
+    if (expression) {
+      paths.push(expression.path);
+      current().push({ type: "var", ...expression, raw: match[0] });
+    } else {
+      current().push({ type: "text", value: match[0] });
+    }
+  }
+
+  if (lastIndex < text.length) current().push({ type: "text", value: text.slice(lastIndex) });
+  stack.forEach(block => errors.push(`{{#${block.keyword}}} is never closed with {{/${block.keyword}}}`));
+
+  return { nodes: root, errors, paths };
+};
+
+const resolvePath = (context: TemplateContext, path: string): unknown =>
+  path.split(".").reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined), context);
+
+const isTruthy = (value: unknown) => !isEmpty(value) && value !== false && !(Array.isArray(value) && value.length === 0);
+
+const evaluateCondition = (condition: Condition, context: TemplateContext): boolean => {
+  const value = resolvePath(context, condition.path);
+  if (!condition.operator) return isTruthy(value);
+  const equal = String(value ?? "").toLowerCase() === String(condition.value ?? "").toLowerCase();
+  return condition.operator === "==" ? equal : !equal;
+};
+
+const HTML_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" };
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+
+export interface RenderOptions {
+  // Off for plain-text output (subjects, task fields, text previews), where entities would show literally
+  escape?: boolean;
+}
+
+const renderNodes = (nodes: TemplateNode[], context: TemplateContext, options: RenderOptions): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "var": {
+          const value = node.filters.reduce(
+            (current, filter) => (FILTERS[filter.name] ? FILTERS[filter.name](current, filter.args, context) : current),
+            resolvePath(context, node.path)
+          );
+          if (isEmpty(value) || typeof value === "object") return "";
+          const escape = options.escape !== false && !node.filters.some(filter => filter.name === "raw");
+          return escape ? escapeHtml(String(value)) : String(value);
+        }
+        case "if":
+          return renderNodes(
+            evaluateCondition(node.condition, context) !== node.negate ? node.then : node.else,
+            context,
+            options
+          );
+      }
+    })
+    .join("");
+
+// Bodies are HTML, so merge values are escaped by default
+export const renderTemplate = (text: string, context: TemplateContext, options: RenderOptions = {}): string =>
+  text ? renderNodes(parseTemplate(text).nodes, context, options) : "";
+
+export interface TemplateValidation {
+  errors: string[];
+  unknownVariables: string[];
+}
+
+export const validateTemplate = (...texts: string[]): TemplateValidation => {
+  const errors: string[] = [];
+  const unknown = new Set<string>();
+  texts.forEach(text => {
+    const parsed = parseTemplate(text || "");
+    errors.push(...parsed.errors);
+    parsed.paths
+      .filter(path => path && !KNOWN_VARIABLES.has(path) && !KNOWN_OBJECTS.has(path))
+      .forEach(path => unknown.add(path));
+  });
+  return { errors, unknownVariables: [...unknown] };
+};
+
+// Merge fields that come out blank for this record and have no default to fall back on
+export const findEmptyVariables = (context: TemplateContext, ...texts: string[]): string[] => {
+  const empty = new Set<string>();
+  const visit = (nodes: TemplateNode[]) =>
+    nodes.forEach(node => {
+      if (node.type === "var") {
+        const hasDefault = node.filters.some(filter => filter.name === "default");
+        if (!hasDefault && KNOWN_VARIABLES.has(node.path) && isEmpty(resolvePath(context, node.path))) empty.add(node.path);
+      } else if (node.type === "if") {
+        visit(evaluateCondition(node.condition, context) !== node.negate ? node.then : node.else);
+      }
+    });
+  texts.forEach(text => visit(parseTemplate(text || "").nodes));
+  return [...empty];
+};
+
+export const hasTemplateIssues = (validation: TemplateValidation) =>
+  validation.errors.length > 0 || validation.unknownVariables.length > 0;
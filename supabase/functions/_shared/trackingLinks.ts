@@ -0,0 +1,92 @@
+// Signed click-tracking links: send-email rewrites each link to one, track-email-click only
+// redirects when the signature matches, so the endpoint can't be used as an open redirect.
+
+const encoder = new TextEncoder();
+
+function getSigningSecret(): string {
+  // A dedicated secret can be rotated without touching the service role key
+  const secret = Deno.env.get("EMAIL_TRACKING_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!secret) {
+    throw new Error("EMAIL_TRACKING_SECRET is not configured");
+  }
+  return secret;
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export async function signTrackingLink(emailId: string, url: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getSigningSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${emailId}\n${url}`));
+  return toBase64Url(signature);
+}
+
+export async function verifyTrackingLink(emailId: string, url: string, signature: string): Promise<boolean> {
+  const expected = await signTrackingLink(emailId, url);
+  if (expected.length !== signature.length) return false;
+
+  // Compare every character so the time taken doesn't reveal how much matched
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export async function buildTrackingLink(supabaseUrl: string, emailId: string, url: string): Promise<string> {
+  const params = new URLSearchParams({ id: emailId, url, sig: await signTrackingLink(emailId, url) });
+  return `${supabaseUrl}/functions/v1/track-email-click?${params.toString()}`;
+}
+
+const decodeHtmlAttribute = (value: string) =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+
+const encodeHtmlAttribute = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/"/g, "&quot;");
+
+// Points every http(s) <a href> in an HTML body at the click tracker; mailto:, tel: and
+// in-page anchors are left as they are
+export async function rewriteLinksForTracking(html: string, supabaseUrl: string, emailId: string): Promise<string> {
+  const anchorHref = /(<a\b[^>]*?\bhref\s*=\s*)(["'])(.*?)\2/gi;
+  const matches = [...html.matchAll(anchorHref)];
+  if (matches.length === 0) return html;
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of matches) {
+    const [whole, prefix, , rawHref] = match;
+    const href = decodeHtmlAttribute(rawHref.trim());
+    result += html.slice(lastIndex, match.index);
+    if (/^https?:\/\//i.test(href)) {
+      const trackingLink = await buildTrackingLink(supabaseUrl, emailId, href);
+      result += `${prefix}"${encodeHtmlAttribute(trackingLink)}"`;
+    } else {
+      result += whole;
+    }
+    lastIndex = match.index! + whole.length;
+  }
+  return result + html.slice(lastIndex);
+}
+
+// Unsubscribe links are signed the same way, over a fixed action instead of a URL
+export const UNSUBSCRIBE_ACTION = "unsubscribe";
+
+export async function buildUnsubscribeLink(supabaseUrl: string, emailId: string): Promise<string> {
+  const params = new URLSearchParams({ id: emailId, sig: await signTrackingLink(emailId, UNSUBSCRIBE_ACTION) });
+  return `${supabaseUrl}/functions/v1/email-unsubscribe?${params.toString()}`;
+}
@@ -0,0 +1,73 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getClientIp } from "../_shared/emailEvents.ts";
+import { UNSUBSCRIBE_ACTION, verifyTrackingLink } from "../_shared/trackingLinks.ts";
+
+const htmlHeaders = { "Content-Type": "text/html; charset=utf-8" };
+
+const page = (title: string, content: string, status = 200) =>
+  new Response(
+    `<!doctype html><html><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title></head>
+<body style="font-family: system-ui, sans-serif; max-width: 480px; margin: 80px auto; padding: 0 16px; color: #222;">
+<h1 style="font-size: 20px;">${title}</h1>${content}</body></html>`,
+    { status, headers: htmlHeaders },
+  );
+
+// Opening the link only asks for confirmation: link scanners fetch every URL in an email,
+// and a GET that unsubscribed would opt people out without them ever seeing the message
+const handler = async (req: Request): Promise<Response> => {
+  try {
+    const url = new URL(req.url);
+    const emailId = url.searchParams.get("id");
+    const signature = url.searchParams.get("sig");
+
+    if (!emailId || !signature || !(await verifyTrackingLink(emailId, UNSUBSCRIBE_ACTION, signature))) {
+      return page("Invalid link", "<p>This unsubscribe link is not valid.</p>", 403);
+    }
+
+    if (req.method === "GET") {
+      return page(
+        "Unsubscribe",
+        `<p>Stop receiving these emails?</p>
+<form method="POST"><button type="submit" style="padding: 8px 16px; font-size: 14px; cursor: pointer;">Unsubscribe</button></form>`,
+      );
+    }
+
+    if (req.method !== "POST") {
+      return page("Not allowed", "<p>Unsupported request.</p>", 405);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: existing } = await supabase
+      .from("email_events")
+      .select("id")
+      .eq("email_history_id", emailId)
+      .eq("event_type", "unsubscribe")
+      .limit(1)
+      .maybeSingle();
+
+    // The event trigger opts the lead or contact out, which stops their sequences
+    if (!existing) {
+      const { error } = await supabase.from("email_events").insert({
+        email_history_id: emailId,
+        event_type: "unsubscribe",
+        ip_address: getClientIp(req),
+        user_agent: req.headers.get("user-agent"),
+        created_by: null,
+      });
+      if (error) throw error;
+      console.log(`Recorded unsubscribe for email ${emailId}`);
+    }
+
+    return page("You're unsubscribed", "<p>You won't receive any more of these emails.</p>");
+  } catch (error: unknown) {
+    console.error("Error handling unsubscribe:", error);
+    return page("Something went wrong", "<p>We couldn't process your request. Please try again later.</p>", 500);
+  }
+};
+
+serve(handler);
@@ -0,0 +1,297 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { renderTemplate } from "../_shared/templateEngine.ts";
+import { loadTemplateContext } from "../_shared/templateContext.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A claimed enrollment that fails (or whose run dies) is picked up again after this
+const RETRY_DELAY_MS = 60 * 60 * 1000;
+const BUSINESS_HOURS_STEP_MS = 15 * 60 * 1000;
+
+interface Sequence {
+  id: string;
+  is_active: boolean;
+  timezone: string;
+  business_hours_start: number;
+  business_hours_end: number;
+  business_days: number[];
+}
+
+interface Step {
+  id: string;
+  position: number;
+  step_type: "email" | "task";
+  day_offset: number;
+  template_id: string | null;
+  task_title: string | null;
+  task_description: string | null;
+  task_priority: string;
+}
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  current_step: number;
+  next_step_at: string;
+  enrolled_by: string | null;
+  enrolled_at: string;
+  email_sequences: Sequence;
+}
+
+type Outcome = "email" | "task" | "deferred" | "completed" | "stopped";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// ISO weekday (1 = Monday), hour and calendar date of an instant in the sequence's timezone
+function localTime(date: Date, timeZone: string) {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "numeric",
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    }).formatToParts(date);
+  } catch {
+    // Unknown timezone names fall back to UTC rather than stalling the sequence
+    return localTime(date, "UTC");
+  }
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return {
+    weekday: WEEKDAYS.indexOf(part("weekday")) + 1,
+    hour: Number(part("hour")),
+    date: `${part("year")}-${part("month")}-${part("day")}`,
+  };
+}
+
+function isBusinessTime(date: Date, sequence: Sequence): boolean {
+  const { weekday, hour } = localTime(date, sequence.timezone);
+  return sequence.business_days.includes(weekday) && hour >= sequence.business_hours_start && hour < sequence.business_hours_end;
+}
+
+// Start of the next business window, searched in quarter hours over the coming week
+function nextBusinessTime(from: Date, sequence: Sequence): Date {
+  const start = Math.ceil(from.getTime() / BUSINESS_HOURS_STEP_MS) * BUSINESS_HOURS_STEP_MS;
+  for (let time = start; time < start + 8 * DAY_MS; time += BUSINESS_HOURS_STEP_MS) {
+    if (isBusinessTime(new Date(time), sequence)) return new Date(time);
+  }
+  // No business days configured; try again tomorrow
+  return new Date(from.getTime() + DAY_MS);
+}
+
+async function isAuthorized(req: Request, supabase: SupabaseClient, serviceKey: string): Promise<boolean> {
+  const token = req.headers.get("authorization")?.replace("Bearer ", "");
+  if (!token) return false;
+  // pg_cron calls with the service role key; people can run it from the Sequences tab
+  if (token === serviceKey) return true;
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return !!user;
+}
+
+async function runStep(
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  step: Step,
+  now: Date,
+): Promise<Outcome> {
+  const recordType = enrollment.lead_id ? "lead" : "contact";
+  const recordId = (enrollment.lead_id || enrollment.contact_id)!;
+  const stop = async (reason: string): Promise<Outcome> => {
+    await supabase
+      .from("email_sequence_enrollments")
+      .update({ status: "stopped", stop_reason: reason, last_error: null })
+      .eq("id", enrollment.id);
+    return "stopped";
+  };
+
+  const { data: person, error: personError } = await supabase
+    .from(recordType === "lead" ? "leads" : "contacts")
+    .select("id, email, email_opt_out")
+    .eq("id", recordId)
+    .maybeSingle();
+  if (personError) throw personError;
+  if (!person || person.email_opt_out) return stop("unsubscribed");
+
+  const context = await loadTemplateContext(supabase, { type: recordType, id: recordId }, enrollment.enrolled_by);
+
+  if (step.step_type === "task") {
+    const { error } = await supabase.from("tasks").insert({
+      title: renderTemplate(step.task_title || "Sequence follow-up", context, { escape: false }).trim() || "Sequence follow-up",
+      description: step.task_description ? renderTemplate(step.task_description, context, { escape: false }) : null,
+      priority: step.task_priority,
+      status: "open",
+      due_date: localTime(now, enrollment.email_sequences.timezone).date,
+      assigned_to: enrollment.enrolled_by,
+      created_by: enrollment.enrolled_by,
+      module_type: recordType === "lead" ? "leads" : "contacts",
+      lead_id: enrollment.lead_id,
+      contact_id: enrollment.contact_id,
+    });
+    if (error) throw error;
+    return "task";
+  }
+
+  if (!person.email) return stop("no_email");
+
+  const { data: template, error: templateError } = await supabase
+    .from("email_templates")
+    .select("subject, body")
+    .eq("id", step.template_id)
+    .maybeSingle();
+  if (templateError) throw templateError;
+  if (!template) throw new Error(`Step ${step.position + 1} has no email template`);
+
+  const sender = context.sender as Record<string, string> | null;
+  if (!sender?.email) throw new Error("The person who enrolled this record has no email address");
+
+  // Through send-email, so transports, tracking and email_history logging are the same as a manual send
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/send-email`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      to: person.email,
+      toName: context.name || person.email,
+      subject: renderTemplate(template.subject, context, { escape: false }).trim(),
+      body: renderTemplate(template.body, context).trim(),
+      from: sender.email,
+      entityType: recordType,
+      entityId: recordId,
+      sentBy: enrollment.enrolled_by,
+      sequenceEnrollmentId: enrollment.id,
+      sequenceStepId: step.id,
+    }),
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new Error(payload.error || `send-email responded with ${response.status}`);
+  }
+  return "email";
+}
+
+async function processEnrollment(
+  supabase: SupabaseClient,
+  enrollment: Enrollment,
+  steps: Step[],
+  now: Date,
+): Promise<Outcome> {
+  const sequence = enrollment.email_sequences;
+
+  if (!sequence.is_active) return "deferred";
+
+  if (!isBusinessTime(now, sequence)) {
+    await supabase
+      .from("email_sequence_enrollments")
+      .update({ next_step_at: nextBusinessTime(now, sequence).toISOString() })
+      .eq("id", enrollment.id);
+    return "deferred";
+  }
+
+  const step = steps[enrollment.current_step];
+  const outcome = step ? await runStep(supabase, enrollment, step, now) : "completed";
+  if (outcome === "stopped") return outcome;
+
+  const nextIndex = enrollment.current_step + (step ? 1 : 0);
+  const nextStep = steps[nextIndex];
+  const update = nextStep
+    ? {
+      current_step: nextIndex,
+      next_step_at: new Date(Math.max(new Date(enrollment.enrolled_at).getTime() + nextStep.day_offset * DAY_MS, now.getTime())).toISOString(),
+    }
+    : { current_step: nextIndex, status: "completed", completed_at: now.toISOString(), next_step_at: null };
+
+  const { error } = await supabase
+    .from("email_sequence_enrollments")
+    .update({ ...update, last_step_at: step ? now.toISOString() : undefined, last_error: null })
+    .eq("id", enrollment.id);
+  if (error) throw error;
+
+  return nextStep ? outcome : "completed";
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json", ...corsHeaders } });
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (!(await isAuthorized(req, supabase, supabaseServiceKey))) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const now = new Date();
+    const { data: due, error: dueError } = await supabase
+      .from("email_sequence_enrollments")
+      .select("id, sequence_id, lead_id, contact_id, current_step, next_step_at, enrolled_by, enrolled_at, email_sequences(id, is_active, timezone, business_hours_start, business_hours_end, business_days)")
+      .eq("status", "active")
+      .lte("next_step_at", now.toISOString())
+      .order("next_step_at")
+      .limit(BATCH_SIZE);
+    if (dueError) throw dueError;
+
+    const enrollments = (due || []) as unknown as Enrollment[];
+    const sequenceIds = [...new Set(enrollments.map(e => e.sequence_id))];
+    const { data: allSteps, error: stepsError } = sequenceIds.length
+      ? await supabase.from("email_sequence_steps").select("*").in("sequence_id", sequenceIds).order("position")
+      : { data: [], error: null };
+    if (stepsError) throw stepsError;
+
+    const stepsBySequence = new Map<string, Step[]>();
+    (allSteps || []).forEach((step: Step & { sequence_id: string }) => {
+      stepsBySequence.set(step.sequence_id, [...(stepsBySequence.get(step.sequence_id) || []), step]);
+    });
+
+    const results: Record<Outcome | "failed", number> = { email: 0, task: 0, deferred: 0, completed: 0, stopped: 0, failed: 0 };
+
+    for (const enrollment of enrollments) {
+      // Claim the enrollment so an overlapping run skips it; if this run dies it is retried later
+      const { data: claimed } = await supabase
+        .from("email_sequence_enrollments")
+        .update({ next_step_at: new Date(now.getTime() + RETRY_DELAY_MS).toISOString() })
+        .eq("id", enrollment.id)
+        .eq("status", "active")
+        .eq("next_step_at", enrollment.next_step_at)
+        .select("id");
+      if (!claimed?.length) continue;
+
+      try {
+        const outcome = await processEnrollment(supabase, enrollment, stepsBySequence.get(enrollment.sequence_id) || [], now);
+        results[outcome]++;
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Sequence enrollment ${enrollment.id} failed:`, message);
+        await supabase.from("email_sequence_enrollments").update({ last_error: message }).eq("id", enrollment.id);
+        results.failed++;
+      }
+    }
+
+    console.log(`Processed ${enrollments.length} due enrollment(s):`, results);
+    return json({ processed: enrollments.length, ...results });
+  } catch (error: unknown) {
+    console.error("Error in process-sequences function:", error);
+    const message = error instanceof Error ? error.message : "Failed to process sequences";
+    return json({ error: message }, 500);
+  }
+};
+
+serve(handler);
@@ -1,17 +1,13 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildUnsubscribeLink, rewriteLinksForTracking } from "../_shared/trackingLinks.ts";
+import { selectEmailTransport, type EmailAttachment } from "./transports/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface EmailAttachment {
-  name: string;
-  contentType: string;
-  contentBytes: string; // Base64 encoded
-}
-
 interface EmailRequest {
   to: string;
   subject: string;
@@ -21,109 +17,27 @@ interface EmailRequest {
   attachments?: EmailAttachment[];
   entityType?: string; // 'lead', 'contact', 'account'
   entityId?: string;
+  // Set by the sequence scheduler, and only honoured when it calls with the service role key
+  sentBy?: string;
+  sequenceEnrollmentId?: string;
+  sequenceStepId?: string;
 }
 
-async function getAccessToken(): Promise<string> {
-  // Use email-specific Azure credentials
-  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
-  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
-  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
-
-  if (!tenantId || !clientId || !clientSecret) {
-    throw new Error("Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.");
-  }
-
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-
-  const params = new URLSearchParams();
-  params.append("client_id", clientId);
-  params.append("client_secret", clientSecret);
-  params.append("scope", "https://graph.microsoft.com/.default");
-  params.append("grant_type", "client_credentials");
-
-  console.log("Requesting access token from Azure AD...");
-
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/x-www-form-urlencoded",
-    },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Failed to get access token:", errorText);
-    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
-  }
-
-  const data = await response.json();
-  console.log("Successfully obtained access token");
-  return data.access_token as string;
-}
-
-async function sendEmail(accessToken: string, emailRequest: EmailRequest, emailHistoryId: string): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${emailRequest.from}/sendMail`;
-
-  // Build attachments array for Microsoft Graph API
-  const attachments = emailRequest.attachments?.map(att => ({
-    "@odata.type": "#microsoft.graph.fileAttachment",
-    name: att.name,
-    contentType: att.contentType,
-    contentBytes: att.contentBytes,
-  })) || [];
-
+// Tracking is added here, before any transport sees the message, so every transport sends the same HTML
+async function buildTrackedBody(body: string, emailHistoryId: string, withUnsubscribeLink: boolean): Promise<string> {
   // Generate tracking pixel URL
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const trackingPixelUrl = `${supabaseUrl}/functions/v1/track-email-open?id=${emailHistoryId}`;
-  
-  // Embed tracking pixel in email body (append to HTML content)
-  const trackingPixel = `<img src="${trackingPixelUrl}" width="1" height="1" style="display:none;" alt="" />`;
-  const bodyWithTracking = emailRequest.body + trackingPixel;
-
-  const emailPayload: any = {
-    message: {
-      subject: emailRequest.subject,
-      body: {
-        contentType: "HTML",
-        content: bodyWithTracking,
-      },
-      toRecipients: [
-        {
-          emailAddress: {
-            address: emailRequest.to,
-            name: emailRequest.toName || emailRequest.to,
-          },
-        },
-      ],
-    },
-    saveToSentItems: true,
-  };
-
-  // Add attachments if present
-  if (attachments.length > 0) {
-    emailPayload.message.attachments = attachments;
-    console.log(`Adding ${attachments.length} attachment(s) to email`);
-  }
 
-  console.log(`Sending email to ${emailRequest.to} with tracking pixel...`);
-
-  const response = await fetch(graphUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(emailPayload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Failed to send email:", errorText);
-    throw new Error(`Failed to send email: ${response.status} ${errorText}`);
-  }
+  // Route links through the click tracker, then embed the tracking pixel (append to HTML content)
+  const bodyWithTrackedLinks = await rewriteLinksForTracking(body, supabaseUrl, emailHistoryId);
 
-  console.log("Email sent successfully with tracking pixel embedded");
+  // Added after the rewrite so a click on it isn't counted as engagement
+  const unsubscribeFooter = withUnsubscribeLink
+    ? `<p style="font-size:12px;color:#888888;margin-top:24px;">Don't want these emails? <a href="${await buildUnsubscribeLink(supabaseUrl, emailHistoryId)}">Unsubscribe</a></p>`
+    : "";
+  const trackingPixel = `<img src="${trackingPixelUrl}" width="1" height="1" style="display:none;" alt="" />`;
+  return bodyWithTrackedLinks + unsubscribeFooter + trackingPixel;
 }
 
 const handler = async (req: Request): Promise<Response> => {
@@ -133,7 +47,9 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
-    const { to, subject, body, toName, from, attachments, entityType, entityId }: EmailRequest = await req.json();
+    const {
+      to, subject, body, toName, from, attachments, entityType, entityId, sentBy, sequenceEnrollmentId, sequenceStepId,
+    }: EmailRequest = await req.json();
 
     if (!to || !subject || !from) {
       return new Response(
@@ -155,13 +71,22 @@ const handler = async (req: Request): Promise<Response> => {
     // Get the user ID from the authorization header
     const authHeader = req.headers.get("authorization");
     let userId: string | null = null;
+    let isServiceCall = false;
     
     if (authHeader) {
       const token = authHeader.replace("Bearer ", "");
-      const { data: { user } } = await supabase.auth.getUser(token);
-      userId = user?.id || null;
+      isServiceCall = token === supabaseServiceKey;
+      if (isServiceCall) {
+        userId = sentBy || null;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser(token);
+        userId = user?.id || null;
+      }
     }
 
+    // Pick the transport before logging, so a misconfigured one doesn't leave a history row behind
+    const transport = await selectEmailTransport(supabase);
+
     // Create email history record first to get the ID for tracking
     const emailHistoryData: any = {
       recipient_email: to,
@@ -182,6 +107,12 @@ const handler = async (req: Request): Promise<Response> => {
       emailHistoryData.account_id = entityId;
     }
 
+    const isSequenceEmail = isServiceCall && !!sequenceEnrollmentId;
+    if (isSequenceEmail) {
+      emailHistoryData.sequence_enrollment_id = sequenceEnrollmentId;
+      emailHistoryData.sequence_step_id = sequenceStepId || null;
+    }
+
     const { data: emailRecord, error: insertError } = await supabase
       .from("email_history")
       .insert(emailHistoryData)
@@ -195,11 +126,16 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Created email history record with ID: ${emailRecord.id}`);
 
-    // Get access token from Azure AD
-    const accessToken = await getAccessToken();
+    const html = await buildTrackedBody(body, emailRecord.id, isSequenceEmail);
+
+    console.log(`Sending email to ${to} via ${transport.name} with tracking pixel and links...`);
+    if (attachments?.length) {
+      console.log(`Adding ${attachments.length} attachment(s) to email`);
+    }
+
+    await transport.send({ from, to, toName, subject, html, attachments: attachments || [] }, emailRecord.id);
 
-    // Send email via Microsoft Graph API with tracking pixel
-    await sendEmail(accessToken, { to, subject, body, toName, from, attachments }, emailRecord.id);
+    console.log("Email sent successfully with tracking pixel embedded");
 
     // Update email history to mark as delivered
     await supabase
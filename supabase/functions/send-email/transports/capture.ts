@@ -0,0 +1,40 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { EmailTransport, OutgoingEmail } from "./types.ts";
+
+// Development and test transport: nothing leaves the building. Messages are stored in
+// captured_emails and, when EMAIL_CAPTURE_FILE is set, appended to that file as JSON lines.
+export function createCaptureTransport(supabase: SupabaseClient): EmailTransport {
+  return {
+    name: "capture",
+    async send(message: OutgoingEmail, emailHistoryId: string): Promise<void> {
+      const attachments = message.attachments.map(att => ({
+        name: att.name,
+        contentType: att.contentType,
+        // Base64 length to bytes
+        size: Math.floor((att.contentBytes.length * 3) / 4),
+      }));
+
+      const { error } = await supabase.from("captured_emails").insert({
+        email_history_id: emailHistoryId,
+        sender_email: message.from,
+        recipient_email: message.to,
+        recipient_name: message.toName || null,
+        subject: message.subject,
+        html: message.html,
+        attachments,
+      });
+
+      if (error) {
+        throw new Error(`Failed to capture email: ${error.message}`);
+      }
+
+      const mailboxFile = Deno.env.get("EMAIL_CAPTURE_FILE");
+      if (mailboxFile) {
+        const line = JSON.stringify({ emailHistoryId, ...message, attachments, capturedAt: new Date().toISOString() });
+        await Deno.writeTextFile(mailboxFile, `${line}\n`, { append: true });
+      }
+
+      console.log(`Captured email to ${message.to} instead of sending it`);
+    },
+  };
+}
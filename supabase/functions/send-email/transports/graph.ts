@@ -0,0 +1,96 @@
+import type { EmailTransport, OutgoingEmail } from "./types.ts";
+
+async function getAccessToken(): Promise<string> {
+  // Use email-specific Azure credentials
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.");
+  }
+
+  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
+
+  const params = new URLSearchParams();
+  params.append("client_id", clientId);
+  params.append("client_secret", clientSecret);
+  params.append("scope", "https://graph.microsoft.com/.default");
+  params.append("grant_type", "client_credentials");
+
+  console.log("Requesting access token from Azure AD...");
+
+  const response = await fetch(tokenUrl, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: params.toString(),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Failed to get access token:", errorText);
+    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  console.log("Successfully obtained access token");
+  return data.access_token as string;
+}
+
+// Microsoft Graph sendMail as the sender's own mailbox, so the email lands in their Sent Items
+export const graphTransport: EmailTransport = {
+  name: "graph",
+  async send(message: OutgoingEmail): Promise<void> {
+    const accessToken = await getAccessToken();
+    const graphUrl = `https://graph.microsoft.com/v1.0/users/${message.from}/sendMail`;
+
+    // Build attachments array for Microsoft Graph API
+    const attachments = message.attachments.map(att => ({
+      "@odata.type": "#microsoft.graph.fileAttachment",
+      name: att.name,
+      contentType: att.contentType,
+      contentBytes: att.contentBytes,
+    }));
+
+    const emailPayload: any = {
+      message: {
+        subject: message.subject,
+        body: {
+          contentType: "HTML",
+          content: message.html,
+        },
+        toRecipients: [
+          {
+            emailAddress: {
+              address: message.to,
+              name: message.toName || message.to,
+            },
+          },
+        ],
+      },
+      saveToSentItems: true,
+    };
+
+    // Add attachments if present
+    if (attachments.length > 0) {
+      emailPayload.message.attachments = attachments;
+    }
+
+    const response = await fetch(graphUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(emailPayload),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Failed to send email:", errorText);
+      throw new Error(`Failed to send email: ${response.status} ${errorText}`);
+    }
+  },
+};
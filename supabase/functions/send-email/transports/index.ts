@@ -0,0 +1,40 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createCaptureTransport } from "./capture.ts";
+import { graphTransport } from "./graph.ts";
+import { createSmtpTransport } from "./smtp.ts";
+import type { EmailIntegrationConfig, EmailTransport } from "./types.ts";
+
+export type { EmailAttachment, EmailTransport, OutgoingEmail } from "./types.ts";
+
+const EMAIL_INTEGRATION_NAME = "Email (SMTP)";
+
+// EMAIL_TRANSPORT overrides the settings (e.g. "capture" in local development and tests).
+// Otherwise the enabled email integration picks the transport, and Microsoft Graph is the default.
+// An enabled row without a transport only means SMTP once a host is set.
+export async function selectEmailTransport(supabase: SupabaseClient): Promise<EmailTransport> {
+  const { data: integration, error } = await supabase
+    .from("integration_settings")
+    .select("is_enabled, config")
+    .eq("integration_name", EMAIL_INTEGRATION_NAME)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load email integration settings:", error);
+  }
+
+  const config = (integration?.config || {}) as EmailIntegrationConfig;
+  const override = Deno.env.get("EMAIL_TRANSPORT");
+  const fallback = config.host ? "smtp" : "graph";
+  const transport = override || (integration?.is_enabled ? config.transport || fallback : "graph");
+
+  switch (transport) {
+    case "capture":
+      return createCaptureTransport(supabase);
+    case "smtp":
+      return createSmtpTransport(config);
+    case "graph":
+      return graphTransport;
+    default:
+      throw new Error(`Unknown email transport: ${transport}`);
+  }
+}
@@ -0,0 +1,53 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import type { EmailIntegrationConfig, EmailTransport, OutgoingEmail } from "./types.ts";
+
+// Host, port and sender come from the integration settings; the password is an Edge Function secret
+export function createSmtpTransport(config: EmailIntegrationConfig): EmailTransport {
+  const password = Deno.env.get("SMTP_PASSWORD");
+  if (!config.host) {
+    throw new Error("SMTP host not configured. Set it under Settings > Integrations > Email (SMTP).");
+  }
+  if (config.username && !password) {
+    throw new Error("SMTP password not configured. Please set the SMTP_PASSWORD secret.");
+  }
+
+  const port = Number(config.port) || 587;
+  // Port 465 speaks TLS from the start; others upgrade with STARTTLS
+  const tls = config.secure === true || config.secure === "true" || port === 465;
+
+  return {
+    name: "smtp",
+    async send(message: OutgoingEmail): Promise<void> {
+      const client = new SMTPClient({
+        connection: {
+          hostname: config.host!,
+          port,
+          tls,
+          auth: config.username ? { username: config.username, password: password! } : undefined,
+        },
+      });
+
+      // Relays usually only accept their own sender address; replies still go to the user
+      const sender = config.sender_email || message.from;
+      const from = config.sender_name ? `${config.sender_name} <${sender}>` : sender;
+
+      try {
+        await client.send({
+          from,
+          to: message.toName ? `${message.toName} <${message.to}>` : message.to,
+          replyTo: sender !== message.from ? message.from : undefined,
+          subject: message.subject,
+          html: message.html,
+          attachments: message.attachments.map(att => ({
+            filename: att.name,
+            contentType: att.contentType,
+            content: att.contentBytes,
+            encoding: "base64" as const,
+          })),
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,31 @@
+export interface EmailAttachment {
+  name: string;
+  contentType: string;
+  contentBytes: string; // Base64 encoded
+}
+
+// A message ready to hand over: templates are merged and tracking is already in the HTML
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  toName?: string;
+  subject: string;
+  html: string;
+  attachments: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: "graph" | "smtp" | "capture";
+  send(message: OutgoingEmail, emailHistoryId: string): Promise<void>;
+}
+
+// The "Email (SMTP)" row in integration_settings
+export interface EmailIntegrationConfig {
+  transport?: string | null;
+  host?: string | null;
+  port?: number | string | null;
+  secure?: boolean | string | null;
+  username?: string | null;
+  sender_email?: string | null;
+  sender_name?: string | null;
+}
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyTrackingLink } from "../_shared/trackingLinks.ts";
+import { recordEmailEvent } from "../_shared/emailEvents.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,87 +18,53 @@ serve(async (req) => {
     const url = new URL(req.url);
     const emailId = url.searchParams.get('id');
     const redirectUrl = url.searchParams.get('url');
+    const signature = url.searchParams.get('sig');
 
-    if (!emailId) {
+    if (!emailId || !redirectUrl || !signature) {
       return new Response(
-        JSON.stringify({ error: 'Email ID is required' }),
+        JSON.stringify({ error: 'Email ID, URL and signature are required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
+    // Only links signed by send-email are followed; anything else would be an open redirect
+    if (!/^https?:\/\//i.test(redirectUrl) || !(await verifyTrackingLink(emailId, redirectUrl, signature))) {
+      console.warn(`Rejected unsigned or tampered tracking link for email ${emailId}`);
+      return new Response(
+        JSON.stringify({ error: 'Invalid tracking link' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Create Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Update email click tracking
     const { data: emailRecord, error: fetchError } = await supabase
       .from('email_history')
-      .select('click_count, status, contact_id, lead_id, account_id')
+      .select('sent_at')
       .eq('id', emailId)
       .single();
 
     if (fetchError) {
       console.error('Error fetching email record:', fetchError);
       // Still redirect even if tracking fails
-      if (redirectUrl) {
-        return Response.redirect(redirectUrl, 302);
-      }
-      return new Response(
-        JSON.stringify({ error: 'Email not found' }),
-        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const currentClickCount = emailRecord.click_count || 0;
-    const isFirstClick = currentClickCount === 0;
-
-    // Update email_history with click data
-    const { error: updateError } = await supabase
-      .from('email_history')
-      .update({
-        click_count: currentClickCount + 1,
-        clicked_at: isFirstClick ? new Date().toISOString() : undefined,
-        status: 'clicked',
-      })
-      .eq('id', emailId);
-
-    if (updateError) {
-      console.error('Error updating email click:', updateError);
+      return Response.redirect(redirectUrl, 302);
     }
 
-    // Update contact/lead/account email_clicks if this is the first click for this email
-    if (isFirstClick) {
-      if (emailRecord.contact_id) {
-        const { data: contact } = await supabase
-          .from('contacts')
-          .select('email_clicks')
-          .eq('id', emailRecord.contact_id)
-          .single();
+    // Record which link was followed; the event trigger updates the click counters for human clicks
+    const { isMachine } = await recordEmailEvent(supabase, req, {
+      emailId,
+      eventType: 'click',
+      sentAt: emailRecord.sent_at,
+      url: redirectUrl,
+    });
 
-        if (contact) {
-          await supabase
-            .from('contacts')
-            .update({
-              email_clicks: (contact.email_clicks || 0) + 1,
-            })
-            .eq('id', emailRecord.contact_id);
-        }
-      }
-    }
-
-    console.log(`Click tracked for email ${emailId}, total clicks: ${currentClickCount + 1}`);
+    console.log(`${isMachine ? 'Machine' : 'Human'} click tracked for email ${emailId}`);
 
     // Redirect to the original URL
-    if (redirectUrl) {
-      return Response.redirect(redirectUrl, 302);
-    }
-
-    // Return success response if no redirect URL
-    return new Response(
-      JSON.stringify({ success: true, clicks: currentClickCount + 1 }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return Response.redirect(redirectUrl, 302);
 
   } catch (error: unknown) {
     console.error('Error tracking click:', error);
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { recordEmailEvent } from "../_shared/emailEvents.ts";
 
 // 1x1 transparent GIF pixel
 const TRACKING_PIXEL = new Uint8Array([
@@ -33,34 +34,25 @@ const handler = async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Update email history with open tracking
-    const { error } = await supabase
+    const { data: emailData, error } = await supabase
       .from("email_history")
-      .update({
-        status: "opened",
-        open_count: supabase.rpc("increment_open_count", { row_id: emailId }),
-        opened_at: new Date().toISOString(),
-      })
-      .eq("id", emailId);
-
-    // Simple increment approach
-    const { data: emailData } = await supabase
-      .from("email_history")
-      .select("open_count")
+      .select("sent_at")
       .eq("id", emailId)
-      .single();
+      .maybeSingle();
 
+    if (error) {
+      console.error("Error fetching email record:", error);
+    }
+
+    // The event trigger counts the open on email_history unless it came from a machine
     if (emailData) {
-      await supabase
-        .from("email_history")
-        .update({
-          status: "opened",
-          open_count: (emailData.open_count || 0) + 1,
-          opened_at: new Date().toISOString(),
-        })
-        .eq("id", emailId);
+      const { isMachine } = await recordEmailEvent(supabase, req, {
+        emailId,
+        eventType: "open",
+        sentAt: emailData.sent_at,
+      });
 
-      console.log(`Successfully tracked open for email ${emailId}`);
+      console.log(`Successfully tracked ${isMachine ? "machine" : "human"} open for email ${emailId}`);
     }
 
     // Return the tracking pixel
@@ -0,0 +1,158 @@
+-- Drive deal stages from pipeline_stages instead of the hard-coded CHECK constraint
+
+-- Stage names are the key deals reference, so they must be unique
+CREATE UNIQUE INDEX IF NOT EXISTS pipeline_stages_stage_name_key
+  ON public.pipeline_stages (stage_name);
+
+-- The original seed put Discussions after Offered; fix the order of untouched default rows
+UPDATE public.pipeline_stages AS ps
+SET
+  stage_order = v.stage_order,
+  stage_probability = v.stage_probability
+FROM (VALUES
+  ('Lead', 0, 10),
+  ('Discussions', 1, 20),
+  ('Qualified', 2, 40),
+  ('RFQ', 3, 60),
+  ('Offered', 4, 80),
+  ('Won', 5, 100),
+  ('Lost', 6, 0),
+  ('Dropped', 7, 0)
+) AS v(stage_name, stage_order, stage_probability)
+WHERE ps.stage_name = v.stage_name
+  AND ps.updated_at = ps.created_at;
+
+-- Lost stages split into deals lost to someone else and deals the team walked away from;
+-- the deal form and the board's quick drop action look for the latter
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS is_drop_stage BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.pipeline_stages DROP CONSTRAINT IF EXISTS pipeline_stages_drop_is_lost_check;
+ALTER TABLE public.pipeline_stages
+  ADD CONSTRAINT pipeline_stages_drop_is_lost_check CHECK (NOT is_drop_stage OR COALESCE(is_lost_stage, false));
+
+UPDATE public.pipeline_stages
+SET is_drop_stage = true
+WHERE stage_name = 'Dropped' AND COALESCE(is_lost_stage, false);
+
+-- Any stage a deal already uses must exist as a (possibly inactive) pipeline stage
+INSERT INTO public.pipeline_stages (stage_name, stage_order, is_active)
+SELECT DISTINCT d.stage, 100, false
+FROM public.deals d
+WHERE d.stage IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.pipeline_stages ps WHERE ps.stage_name = d.stage);
+
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_stage_check;
+
+-- Deals may only be moved into an active pipeline stage
+CREATE OR REPLACE FUNCTION public.validate_deal_stage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  -- Stage renames and reassignments move deals as part of an admin operation
+  IF current_setting('app.pipeline_stage_migration', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE stage_name = NEW.stage AND COALESCE(is_active, true)
+  ) THEN
+    RAISE EXCEPTION 'Deal stage "%" is not an active pipeline stage', NEW.stage
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_deal_stage_trigger ON public.deals;
+CREATE TRIGGER validate_deal_stage_trigger
+  BEFORE INSERT OR UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.validate_deal_stage();
+
+-- Renaming a stage carries its deals along
+CREATE OR REPLACE FUNCTION public.cascade_pipeline_stage_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_name IS DISTINCT FROM OLD.stage_name THEN
+    PERFORM set_config('app.pipeline_stage_migration', 'on', true);
+    UPDATE public.deals SET stage = NEW.stage_name WHERE stage = OLD.stage_name;
+    PERFORM set_config('app.pipeline_stage_migration', 'off', true);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cascade_pipeline_stage_rename_trigger ON public.pipeline_stages;
+CREATE TRIGGER cascade_pipeline_stage_rename_trigger
+  AFTER UPDATE OF stage_name ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_pipeline_stage_rename();
+
+-- A stage that still holds deals cannot be deleted; reassign them first
+CREATE OR REPLACE FUNCTION public.prevent_pipeline_stage_delete_in_use()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.deals WHERE stage = OLD.stage_name) THEN
+    RAISE EXCEPTION 'Pipeline stage "%" still has deals; reassign them before deleting', OLD.stage_name
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_pipeline_stage_delete_in_use_trigger ON public.pipeline_stages;
+CREATE TRIGGER prevent_pipeline_stage_delete_in_use_trigger
+  BEFORE DELETE ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_pipeline_stage_delete_in_use();
+
+-- Migration path for deals on a stage that is being deactivated or removed
+CREATE OR REPLACE FUNCTION public.reassign_deals_stage(p_from_stage TEXT, p_to_stage TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can reassign deal stages';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE stage_name = p_to_stage AND COALESCE(is_active, true)
+  ) THEN
+    RAISE EXCEPTION 'Target stage "%" is not an active pipeline stage', p_to_stage;
+  END IF;
+
+  PERFORM set_config('app.pipeline_stage_migration', 'on', true);
+  UPDATE public.deals
+  SET stage = p_to_stage, modified_at = now(), modified_by = auth.uid()
+  WHERE stage = p_from_stage;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  PERFORM set_config('app.pipeline_stage_migration', 'off', true);
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,461 @@
+-- Runtime enforcement of approval_workflows for deals, leads and accounts
+
+-- Held changes live on the request until every step approves
+ALTER TABLE public.approval_requests
+  ADD COLUMN IF NOT EXISTS operation TEXT NOT NULL DEFAULT 'update', -- create, update
+  ADD COLUMN IF NOT EXISTS proposed_changes JSONB,
+  ADD COLUMN IF NOT EXISTS previous_values JSONB,
+  ADD COLUMN IF NOT EXISTS entity_label TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_pending_entity
+  ON public.approval_requests (entity_type, entity_id)
+  WHERE status = 'pending';
+
+-- action: approved, rejected, commented, cancelled
+ALTER TABLE public.approval_actions
+  ADD CONSTRAINT approval_actions_action_check CHECK (action IN ('approved', 'rejected', 'commented', 'cancelled'));
+
+-- Requests and their trail are only written by the enforcement trigger and the functions below;
+-- a submitter editing their own request could skip steps, resolve it or rewrite the held change
+DROP POLICY IF EXISTS "Users can create approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Admins and approvers can update approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Approvers can create approval actions" ON public.approval_actions;
+
+CREATE POLICY "Admins can update approval requests" ON public.approval_requests
+  FOR UPDATE USING (is_user_admin());
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS approval_request_id UUID REFERENCES public.approval_requests(id) ON DELETE CASCADE;
+
+-- Evaluate a {"field", "operator", "value"} trigger condition against a row
+CREATE OR REPLACE FUNCTION public.approval_condition_matches(p_conditions JSONB, p_record JSONB)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_field TEXT := p_conditions->>'field';
+  v_operator TEXT := COALESCE(p_conditions->>'operator', '=');
+  v_expected TEXT := p_conditions->>'value';
+  v_actual TEXT;
+  v_numeric_pattern CONSTANT TEXT := '^\s*-?[0-9]+(\.[0-9]+)?\s*$';
+BEGIN
+  -- A workflow without a condition never triggers on its own
+  IF p_conditions IS NULL OR v_field IS NULL OR v_expected IS NULL THEN
+    RETURN false;
+  END IF;
+
+  v_actual := p_record->>v_field;
+  IF v_actual IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF v_actual ~ v_numeric_pattern AND v_expected ~ v_numeric_pattern THEN
+    RETURN CASE v_operator
+      WHEN '>=' THEN v_actual::numeric >= v_expected::numeric
+      WHEN '>' THEN v_actual::numeric > v_expected::numeric
+      WHEN '<=' THEN v_actual::numeric <= v_expected::numeric
+      WHEN '<' THEN v_actual::numeric < v_expected::numeric
+      WHEN '=' THEN v_actual::numeric = v_expected::numeric
+      ELSE false
+    END;
+  END IF;
+
+  RETURN CASE v_operator
+    WHEN '=' THEN lower(v_actual) = lower(v_expected)
+    WHEN '>=' THEN v_actual >= v_expected
+    WHEN '>' THEN v_actual > v_expected
+    WHEN '<=' THEN v_actual <= v_expected
+    WHEN '<' THEN v_actual < v_expected
+    ELSE false
+  END;
+END;
+$$;
+
+-- Whether a user may approve/reject the request's current step
+CREATE OR REPLACE FUNCTION public.can_act_on_approval_step(p_request_id UUID, p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+  v_step JSONB;
+  v_role TEXT;
+BEGIN
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id;
+  IF NOT FOUND OR v_request.status <> 'pending' THEN
+    RETURN false;
+  END IF;
+
+  v_role := get_user_role(p_user_id);
+
+  -- Nobody signs off on their own change, except administrators
+  IF v_request.submitted_by = p_user_id AND v_role <> 'admin' THEN
+    RETURN false;
+  END IF;
+
+  SELECT step INTO v_step
+  FROM public.approval_workflows w, jsonb_array_elements(w.approval_steps) AS step
+  WHERE w.id = v_request.workflow_id
+    AND (step->>'step')::int = v_request.current_step;
+
+  IF v_step IS NULL THEN
+    RETURN v_role = 'admin';
+  END IF;
+
+  IF v_step->>'user_id' IS NOT NULL THEN
+    RETURN (v_step->>'user_id')::uuid = p_user_id OR v_role = 'admin';
+  END IF;
+
+  RETURN CASE v_step->>'role'
+    WHEN 'admin' THEN v_role = 'admin'
+    WHEN 'manager' THEN v_role IN ('manager', 'admin')
+    ELSE v_role = 'admin'
+  END;
+END;
+$$;
+
+-- Notify everyone who can act on the request's current step
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_request_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+  v_workflow_name TEXT;
+  v_step JSONB;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id;
+  SELECT w.name, step INTO v_workflow_name, v_step
+  FROM public.approval_workflows w
+  LEFT JOIN LATERAL jsonb_array_elements(w.approval_steps) AS step
+    ON (step->>'step')::int = v_request.current_step
+  WHERE w.id = v_request.workflow_id;
+
+  v_message := 'Approval needed: ' || COALESCE(v_request.entity_label, v_request.entity_type)
+    || ' (' || COALESCE(v_workflow_name, 'Approval') || ', step ' || v_request.current_step || ')';
+
+  IF v_step->>'user_id' IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, message, notification_type, approval_request_id)
+    VALUES ((v_step->>'user_id')::uuid, v_message, 'approval', p_request_id);
+  ELSE
+    INSERT INTO public.notifications (user_id, message, notification_type, approval_request_id)
+    SELECT ur.user_id, v_message, 'approval', p_request_id
+    FROM public.user_roles ur
+    WHERE ur.role::text = COALESCE(v_step->>'role', 'admin')
+      AND ur.user_id IS DISTINCT FROM v_request.submitted_by;
+  END IF;
+END;
+$$;
+
+-- Trigger: hold changes that match an enabled workflow until approved
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_new JSONB := to_jsonb(NEW);
+  v_old JSONB;
+  v_changes JSONB;
+  v_previous JSONB;
+  v_workflow RECORD;
+  v_field TEXT;
+  v_request_id UUID;
+  v_label TEXT;
+  v_ignored CONSTANT TEXT[] := ARRAY['modified_at', 'modified_by', 'modified_time', 'updated_at', 'created_at', 'created_time'];
+BEGIN
+  -- Approved changes are applied by act_on_approval_request; stage renames are admin bookkeeping
+  IF current_setting('app.approval_bypass', true) = 'on'
+    OR current_setting('app.pipeline_stage_migration', true) = 'on'
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_label := COALESCE(v_new->>'deal_name', v_new->>'lead_name', v_new->>'company_name');
+
+  IF TG_OP = 'UPDATE' THEN
+    v_old := to_jsonb(OLD);
+
+    IF EXISTS (
+      SELECT 1 FROM public.approval_requests
+      WHERE entity_type = TG_TABLE_NAME AND entity_id = OLD.id AND status = 'pending'
+    ) THEN
+      RAISE EXCEPTION 'This record is awaiting approval and cannot be changed until the request is resolved'
+        USING ERRCODE = 'P0001', HINT = 'approval_pending';
+    END IF;
+
+    SELECT jsonb_object_agg(key, value) INTO v_changes
+    FROM jsonb_each(v_new)
+    WHERE key <> ALL (v_ignored) AND v_old->key IS DISTINCT FROM value;
+
+    IF v_changes IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    FOR v_workflow IN
+      SELECT * FROM public.approval_workflows
+      WHERE entity_type = TG_TABLE_NAME AND COALESCE(is_enabled, true)
+      ORDER BY created_at
+    LOOP
+      v_field := v_workflow.trigger_conditions->>'field';
+
+      IF approval_condition_matches(v_workflow.trigger_conditions, v_new)
+        AND (
+          v_changes ? v_field
+          OR v_changes ? 'stage'
+          OR NOT approval_condition_matches(v_workflow.trigger_conditions, v_old)
+        )
+      THEN
+        SELECT jsonb_object_agg(key, v_old->key) INTO v_previous
+        FROM jsonb_object_keys(v_changes) AS key;
+
+        INSERT INTO public.approval_requests (
+          workflow_id, entity_type, entity_id, operation, proposed_changes, previous_values, entity_label, submitted_by
+        ) VALUES (
+          v_workflow.id, TG_TABLE_NAME, OLD.id, 'update', v_changes, v_previous, v_label, auth.uid()
+        ) RETURNING id INTO v_request_id;
+
+        PERFORM notify_approval_step(v_request_id);
+
+        -- Keep the stored row unchanged; the change is applied on final approval
+        RETURN OLD;
+      END IF;
+    END LOOP;
+
+    RETURN NEW;
+  END IF;
+
+  -- INSERT: the record is created but locked until the request is resolved
+  FOR v_workflow IN
+    SELECT * FROM public.approval_workflows
+    WHERE entity_type = TG_TABLE_NAME AND COALESCE(is_enabled, true)
+    ORDER BY created_at
+  LOOP
+    IF approval_condition_matches(v_workflow.trigger_conditions, v_new) THEN
+      INSERT INTO public.approval_requests (
+        workflow_id, entity_type, entity_id, operation, proposed_changes, entity_label, submitted_by
+      ) VALUES (
+        v_workflow.id, TG_TABLE_NAME, NEW.id, 'create', v_new, v_label, auth.uid()
+      ) RETURNING id INTO v_request_id;
+
+      PERFORM notify_approval_step(v_request_id);
+      EXIT;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_update ON public.deals;
+CREATE TRIGGER enforce_approval_workflows_update
+  BEFORE UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_insert ON public.deals;
+CREATE TRIGGER enforce_approval_workflows_insert
+  AFTER INSERT ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_update ON public.leads;
+CREATE TRIGGER enforce_approval_workflows_update
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_insert ON public.leads;
+CREATE TRIGGER enforce_approval_workflows_insert
+  AFTER INSERT ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_update ON public.accounts;
+CREATE TRIGGER enforce_approval_workflows_update
+  BEFORE UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_insert ON public.accounts;
+CREATE TRIGGER enforce_approval_workflows_insert
+  AFTER INSERT ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+-- Approve, reject or comment on a request; the final approval applies the held change
+CREATE OR REPLACE FUNCTION public.act_on_approval_request(
+  p_request_id UUID,
+  p_action TEXT,
+  p_comments TEXT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+  v_step_count INTEGER;
+  v_columns TEXT;
+  v_label TEXT;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected', 'commented') THEN
+    RAISE EXCEPTION 'Unknown approval action "%"', p_action;
+  END IF;
+
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  IF v_request.entity_type NOT IN ('deals', 'leads', 'accounts') THEN
+    RAISE EXCEPTION 'Unsupported approval entity "%"', v_request.entity_type;
+  END IF;
+
+  v_label := COALESCE(v_request.entity_label, v_request.entity_type);
+
+  IF p_action = 'commented' THEN
+    IF COALESCE(trim(p_comments), '') = '' THEN
+      RAISE EXCEPTION 'A comment is required';
+    END IF;
+
+    -- The discussion is between the submitter, the current step's approvers and admins
+    IF v_request.submitted_by IS DISTINCT FROM auth.uid() AND NOT is_user_admin()
+      AND NOT can_act_on_approval_step(p_request_id, auth.uid())
+    THEN
+      RAISE EXCEPTION 'Only the submitter, an approver for the current step or an admin can comment on this request';
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+      RAISE EXCEPTION 'Only pending requests can be commented on';
+    END IF;
+
+    INSERT INTO public.approval_actions (request_id, step_number, approver_id, action, comments)
+    VALUES (p_request_id, v_request.current_step, auth.uid(), 'commented', p_comments);
+
+    IF v_request.submitted_by IS NOT NULL AND v_request.submitted_by <> auth.uid() THEN
+      INSERT INTO public.notifications (user_id, message, notification_type, approval_request_id)
+      VALUES (v_request.submitted_by, 'New comment on approval request: ' || v_label, 'approval', p_request_id);
+    END IF;
+
+    RETURN v_request.status;
+  END IF;
+
+  IF NOT can_act_on_approval_step(p_request_id, auth.uid()) THEN
+    RAISE EXCEPTION 'You are not an approver for the current step of this request';
+  END IF;
+
+  INSERT INTO public.approval_actions (request_id, step_number, approver_id, action, comments)
+  VALUES (p_request_id, v_request.current_step, auth.uid(), p_action, p_comments);
+
+  PERFORM set_config('app.approval_bypass', 'on', true);
+
+  IF p_action = 'rejected' THEN
+    UPDATE public.approval_requests
+    SET status = 'rejected', completed_at = now()
+    WHERE id = p_request_id;
+
+    -- A rejected creation is withdrawn
+    IF v_request.operation = 'create' THEN
+      EXECUTE format('DELETE FROM public.%I WHERE id = $1', v_request.entity_type)
+        USING v_request.entity_id;
+    END IF;
+
+    IF v_request.submitted_by IS NOT NULL THEN
+      INSERT INTO public.notifications (user_id, message, notification_type, approval_request_id)
+      VALUES (v_request.submitted_by, 'Approval request rejected: ' || v_label, 'approval', p_request_id);
+    END IF;
+
+    PERFORM set_config('app.approval_bypass', 'off', true);
+    RETURN 'rejected';
+  END IF;
+
+  SELECT jsonb_array_length(approval_steps) INTO v_step_count
+  FROM public.approval_workflows WHERE id = v_request.workflow_id;
+
+  IF v_request.current_step < COALESCE(v_step_count, 1) THEN
+    UPDATE public.approval_requests
+    SET current_step = current_step + 1
+    WHERE id = p_request_id;
+
+    PERFORM notify_approval_step(p_request_id);
+    PERFORM set_config('app.approval_bypass', 'off', true);
+    RETURN 'pending';
+  END IF;
+
+  UPDATE public.approval_requests
+  SET status = 'approved', completed_at = now()
+  WHERE id = p_request_id;
+
+  IF v_request.operation = 'update' AND v_request.proposed_changes IS NOT NULL THEN
+    SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+    FROM jsonb_object_keys(v_request.proposed_changes) AS key;
+
+    EXECUTE format(
+      'UPDATE public.%1$I AS t SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)) WHERE t.id = $2',
+      v_request.entity_type, v_columns
+    ) USING v_request.proposed_changes, v_request.entity_id;
+  END IF;
+
+  IF v_request.submitted_by IS NOT NULL THEN
+    INSERT INTO public.notifications (user_id, message, notification_type, approval_request_id)
+    VALUES (v_request.submitted_by, 'Approval request approved: ' || v_label, 'approval', p_request_id);
+  END IF;
+
+  PERFORM set_config('app.approval_bypass', 'off', true);
+  RETURN 'approved';
+END;
+$$;
+
+-- The submitter (or an admin) withdraws a pending request; a held creation is withdrawn with it
+CREATE OR REPLACE FUNCTION public.cancel_approval_request(p_request_id UUID, p_comments TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.approval_requests%ROWTYPE;
+BEGIN
+  SELECT * INTO v_request FROM public.approval_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  IF v_request.submitted_by IS DISTINCT FROM auth.uid() AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only the submitter or an admin can cancel this request';
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending requests can be cancelled';
+  END IF;
+
+  IF v_request.entity_type NOT IN ('deals', 'leads', 'accounts') THEN
+    RAISE EXCEPTION 'Unsupported approval entity "%"', v_request.entity_type;
+  END IF;
+
+  INSERT INTO public.approval_actions (request_id, step_number, approver_id, action, comments)
+  VALUES (p_request_id, v_request.current_step, auth.uid(), 'cancelled', p_comments);
+
+  UPDATE public.approval_requests
+  SET status = 'cancelled', completed_at = now()
+  WHERE id = p_request_id;
+
+  IF v_request.operation = 'create' THEN
+    PERFORM set_config('app.approval_bypass', 'on', true);
+    EXECUTE format('DELETE FROM public.%I WHERE id = $1', v_request.entity_type)
+      USING v_request.entity_id;
+    PERFORM set_config('app.approval_bypass', 'off', true);
+  END IF;
+
+  RETURN 'cancelled';
+END;
+$$;
+
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access)
+SELECT 'Approvals', 'Approval inbox for held changes', '/approvals', true, true, true
+WHERE NOT EXISTS (SELECT 1 FROM public.page_permissions WHERE route = '/approvals');
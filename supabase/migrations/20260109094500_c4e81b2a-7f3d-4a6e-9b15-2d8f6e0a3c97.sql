@@ -0,0 +1,84 @@
+-- Enforce per-stage required deal fields on the backend, not only in the deal form
+
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS required_fields TEXT[] NOT NULL DEFAULT '{}';
+
+-- Seed the requirements the deal form has always shown for the default stages
+UPDATE public.pipeline_stages AS ps
+SET required_fields = v.required_fields
+FROM (VALUES
+  ('Lead', ARRAY['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority']),
+  ('Discussions', ARRAY['customer_need', 'relationship_strength', 'internal_comment']),
+  ('Qualified', ARRAY['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment']),
+  ('RFQ', ARRAY['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment']),
+  ('Offered', ARRAY['business_value', 'decision_maker_level', 'current_status', 'closing']),
+  ('Won', ARRAY['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status']),
+  ('Lost', ARRAY['lost_reason', 'need_improvement']),
+  ('Dropped', ARRAY['drop_reason'])
+) AS v(stage_name, required_fields)
+WHERE ps.stage_name = v.stage_name
+  AND ps.required_fields = '{}';
+
+-- Required fields of the target stage that are empty on the given deal row
+CREATE OR REPLACE FUNCTION public.get_missing_stage_fields(p_stage TEXT, p_deal JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(f.field ORDER BY f.ord), '{}')
+  FROM public.pipeline_stages ps,
+    unnest(ps.required_fields) WITH ORDINALITY AS f(field, ord)
+  WHERE ps.stage_name = p_stage
+    AND p_deal ? f.field
+    AND NULLIF(trim(p_deal->>f.field), '') IS NULL;
+$$;
+
+-- Reject deals created at, or moved to, a stage without its required fields, and updates that
+-- clear a required field of the current stage. Fields a deal was already missing before an
+-- unrelated edit don't block that edit. The DETAIL carries the field list as JSON so clients
+-- can ask for exactly what is missing.
+CREATE OR REPLACE FUNCTION public.check_deal_stage_requirements()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_missing TEXT[];
+  v_old JSONB;
+BEGIN
+  -- Stage renames and reassignments move deals as part of an admin operation
+  IF current_setting('app.pipeline_stage_migration', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  v_missing := get_missing_stage_fields(NEW.stage, to_jsonb(NEW));
+
+  -- Same stage: only the required fields this update emptied count
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    v_old := to_jsonb(OLD);
+    SELECT COALESCE(array_agg(f), '{}') INTO v_missing
+    FROM unnest(v_missing) AS f
+    WHERE NULLIF(trim(v_old->>f), '') IS NOT NULL;
+  END IF;
+
+  IF array_length(v_missing, 1) > 0 THEN
+    RAISE EXCEPTION 'Deal cannot be in "%" until required fields are completed: %',
+      NEW.stage, array_to_string(v_missing, ', ')
+      USING ERRCODE = 'check_violation',
+        HINT = 'stage_gate',
+        DETAIL = jsonb_build_object('stage', NEW.stage, 'missing_fields', to_jsonb(v_missing))::text;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before enforce_approval_workflows_update so gated moves are
+-- rejected outright instead of being held for approval
+DROP TRIGGER IF EXISTS check_deal_stage_requirements_trigger ON public.deals;
+CREATE TRIGGER check_deal_stage_requirements_trigger
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.check_deal_stage_requirements();
@@ -0,0 +1,337 @@
+-- Link deals to accounts and contacts by key instead of by customer_name / lead_name text
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deals_account_id ON public.deals(account_id);
+CREATE INDEX IF NOT EXISTS idx_deals_contact_id ON public.deals(contact_id);
+
+-- Lower-case, strip punctuation and common legal suffixes so "ACME GmbH." matches "Acme"
+CREATE OR REPLACE FUNCTION public.normalize_company_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(trim(regexp_replace(
+    regexp_replace(
+      regexp_replace(lower(COALESCE(p_name, '')), '[^a-z0-9 ]+', ' ', 'g'),
+      '\m(gmbh|ag|inc|ltd|llc|plc|co|corp|corporation|company|limited|sa|srl|bv|pvt|private)\M', ' ', 'g'
+    ),
+    '\s+', ' ', 'g'
+  )), '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_person_name(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(trim(regexp_replace(
+    regexp_replace(lower(COALESCE(p_name, '')), '[^a-z0-9 ]+', ' ', 'g'),
+    '\s+', ' ', 'g'
+  )), '');
+$$;
+
+-- The deal trigger looks names up by their normalized form
+CREATE INDEX IF NOT EXISTS idx_accounts_normalized_company_name ON public.accounts (normalize_company_name(company_name));
+CREATE INDEX IF NOT EXISTS idx_contacts_normalized_contact_name ON public.contacts (normalize_person_name(contact_name));
+
+-- Low-confidence matches wait here for a person to confirm
+CREATE TABLE IF NOT EXISTS public.deal_link_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('account', 'contact')),
+  source_value TEXT NOT NULL,
+  suggested_id UUID,
+  suggested_label TEXT,
+  confidence NUMERIC(4, 3),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  reviewed_by UUID,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS deal_link_reviews_pending_key
+  ON public.deal_link_reviews (deal_id, link_type)
+  WHERE status = 'pending';
+
+ALTER TABLE public.deal_link_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view deal link reviews"
+ON public.deal_link_reviews FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage deal link reviews"
+ON public.deal_link_reviews FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+-- Best account for a company name: exact normalized match scores 1, otherwise trigram similarity.
+-- Scores every account, so it is kept to the backfill; the deal trigger uses find_account_for_name
+CREATE OR REPLACE FUNCTION public.match_account_for_name(p_name TEXT)
+RETURNS TABLE (account_id UUID, company_name TEXT, confidence NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id, a.company_name,
+    CASE
+      WHEN normalize_company_name(a.company_name) = normalize_company_name(p_name) THEN 1
+      ELSE round(extensions.similarity(normalize_company_name(a.company_name), normalize_company_name(p_name))::numeric, 3)
+    END AS confidence
+  FROM public.accounts a
+  WHERE normalize_company_name(p_name) IS NOT NULL
+    AND normalize_company_name(a.company_name) IS NOT NULL
+  ORDER BY confidence DESC, a.created_at
+  LIMIT 1;
+$$;
+
+-- Best contact for a person name, preferring contacts of the given account. Scores every contact,
+-- so it is kept to the backfill; the deal trigger uses find_contact_for_name
+CREATE OR REPLACE FUNCTION public.match_contact_for_name(p_name TEXT, p_account_id UUID DEFAULT NULL)
+RETURNS TABLE (contact_id UUID, contact_name TEXT, confidence NUMERIC)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.contact_name,
+    CASE
+      WHEN normalize_person_name(c.contact_name) = normalize_person_name(p_name) THEN 1
+      ELSE round(extensions.similarity(normalize_person_name(c.contact_name), normalize_person_name(p_name))::numeric, 3)
+    END AS confidence
+  FROM public.contacts c
+  WHERE normalize_person_name(p_name) IS NOT NULL
+    AND normalize_person_name(c.contact_name) IS NOT NULL
+  ORDER BY confidence DESC, (c.account_id IS NOT DISTINCT FROM p_account_id) DESC, c.created_time
+  LIMIT 1;
+$$;
+
+-- Account whose normalized name equals the given one, through idx_accounts_normalized_company_name
+CREATE OR REPLACE FUNCTION public.find_account_for_name(p_name TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.id
+  FROM public.accounts a
+  WHERE normalize_company_name(a.company_name) = normalize_company_name(p_name)
+  ORDER BY a.created_at
+  LIMIT 1;
+$$;
+
+-- Contact whose normalized name equals the given one, preferring contacts of the given account
+CREATE OR REPLACE FUNCTION public.find_contact_for_name(p_name TEXT, p_account_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id
+  FROM public.contacts c
+  WHERE normalize_person_name(c.contact_name) = normalize_person_name(p_name)
+  ORDER BY (c.account_id IS NOT DISTINCT FROM p_account_id) DESC, c.created_time
+  LIMIT 1;
+$$;
+
+-- Keep links current when deals are created or their customer / lead text changes
+CREATE OR REPLACE FUNCTION public.link_deal_to_account_and_contact()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_match UUID;
+BEGIN
+  IF TG_OP = 'INSERT' OR (
+    NEW.customer_name IS DISTINCT FROM OLD.customer_name
+    AND NEW.account_id IS NOT DISTINCT FROM OLD.account_id
+  ) THEN
+    IF TG_OP = 'UPDATE' OR NEW.account_id IS NULL THEN
+      v_match := find_account_for_name(NEW.customer_name);
+      -- Only an exact match re-links; anything else, a typo fix included, keeps the current link
+      IF v_match IS NOT NULL THEN
+        NEW.account_id := v_match;
+      END IF;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (
+    NEW.lead_name IS DISTINCT FROM OLD.lead_name
+    AND NEW.contact_id IS NOT DISTINCT FROM OLD.contact_id
+  ) THEN
+    IF TG_OP = 'UPDATE' OR NEW.contact_id IS NULL THEN
+      v_match := find_contact_for_name(NEW.lead_name, NEW.account_id);
+      IF v_match IS NOT NULL THEN
+        NEW.contact_id := v_match;
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_deal_to_account_and_contact_trigger ON public.deals;
+CREATE TRIGGER link_deal_to_account_and_contact_trigger
+  BEFORE INSERT OR UPDATE OF customer_name, lead_name, account_id, contact_id ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.link_deal_to_account_and_contact();
+
+-- Backfill: confident matches are linked, plausible ones are queued for review
+DO $$
+DECLARE
+  v_deal RECORD;
+  v_match RECORD;
+  v_account_id UUID;
+  c_auto_link CONSTANT NUMERIC := 0.8;
+  c_review CONSTANT NUMERIC := 0.4;
+BEGIN
+  PERFORM set_config('app.approval_bypass', 'on', true);
+  PERFORM set_config('app.pipeline_stage_migration', 'on', true);
+
+  FOR v_deal IN SELECT id, customer_name, lead_name FROM public.deals LOOP
+    v_account_id := NULL;
+
+    SELECT * INTO v_match FROM match_account_for_name(v_deal.customer_name);
+    IF v_match.confidence >= c_auto_link THEN
+      v_account_id := v_match.account_id;
+      UPDATE public.deals SET account_id = v_match.account_id WHERE id = v_deal.id;
+    ELSIF v_match.confidence >= c_review THEN
+      INSERT INTO public.deal_link_reviews (deal_id, link_type, source_value, suggested_id, suggested_label, confidence)
+      VALUES (v_deal.id, 'account', v_deal.customer_name, v_match.account_id, v_match.company_name, v_match.confidence)
+      ON CONFLICT DO NOTHING;
+    END IF;
+
+    SELECT * INTO v_match FROM match_contact_for_name(v_deal.lead_name, v_account_id);
+    IF v_match.confidence >= c_auto_link THEN
+      UPDATE public.deals SET contact_id = v_match.contact_id WHERE id = v_deal.id;
+    ELSIF v_match.confidence >= c_review THEN
+      INSERT INTO public.deal_link_reviews (deal_id, link_type, source_value, suggested_id, suggested_label, confidence)
+      VALUES (v_deal.id, 'contact', v_deal.lead_name, v_match.contact_id, v_match.contact_name, v_match.confidence)
+      ON CONFLICT DO NOTHING;
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.pipeline_stage_migration', 'off', true);
+  PERFORM set_config('app.approval_bypass', 'off', true);
+END;
+$$;
+
+-- Accept (optionally with a different target) or reject a queued match
+CREATE OR REPLACE FUNCTION public.resolve_deal_link_review(
+  p_review_id UUID,
+  p_accept BOOLEAN,
+  p_target_id UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_review public.deal_link_reviews%ROWTYPE;
+  v_target UUID;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can resolve deal link reviews';
+  END IF;
+
+  SELECT * INTO v_review FROM public.deal_link_reviews WHERE id = p_review_id FOR UPDATE;
+  IF NOT FOUND OR v_review.status <> 'pending' THEN
+    RAISE EXCEPTION 'Deal link review not found or already resolved';
+  END IF;
+
+  v_target := COALESCE(p_target_id, v_review.suggested_id);
+
+  IF p_accept THEN
+    IF v_target IS NULL THEN
+      RAISE EXCEPTION 'Choose a record to link';
+    END IF;
+
+    PERFORM set_config('app.approval_bypass', 'on', true);
+    IF v_review.link_type = 'account' THEN
+      UPDATE public.deals SET account_id = v_target WHERE id = v_review.deal_id;
+    ELSE
+      UPDATE public.deals SET contact_id = v_target WHERE id = v_review.deal_id;
+    END IF;
+    PERFORM set_config('app.approval_bypass', 'off', true);
+  END IF;
+
+  UPDATE public.deal_link_reviews
+  SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'rejected' END,
+    suggested_id = CASE WHEN p_accept THEN v_target ELSE suggested_id END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now()
+  WHERE id = p_review_id;
+END;
+$$;
+
+-- Account stats now count deals by account_id; won revenue comes from won stages
+CREATE OR REPLACE FUNCTION public.update_account_stats(p_account_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bypass TEXT := current_setting('app.approval_bypass', true);
+BEGIN
+  -- Derived counters must not be held by account approval workflows
+  PERFORM set_config('app.approval_bypass', 'on', true);
+
+  UPDATE public.accounts
+  SET
+    contact_count = (SELECT COUNT(*) FROM public.contacts WHERE account_id = p_account_id),
+    deal_count = (SELECT COUNT(*) FROM public.deals WHERE account_id = p_account_id),
+    total_revenue = (
+      SELECT COALESCE(SUM(d.total_revenue), 0)
+      FROM public.deals d
+      JOIN public.pipeline_stages ps ON ps.stage_name = d.stage AND ps.is_won_stage
+      WHERE d.account_id = p_account_id
+    ),
+    last_activity_date = (SELECT MAX(activity_date) FROM public.account_activities WHERE account_id = p_account_id)
+  WHERE id = p_account_id;
+
+  PERFORM set_config('app.approval_bypass', COALESCE(v_bypass, 'off'), true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_account_stats_for_deal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.account_id IS NOT NULL THEN
+    PERFORM update_account_stats(OLD.account_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.account_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.account_id IS DISTINCT FROM OLD.account_id
+      OR NEW.stage IS DISTINCT FROM OLD.stage
+      OR NEW.total_revenue IS DISTINCT FROM OLD.total_revenue)
+  THEN
+    PERFORM update_account_stats(NEW.account_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_account_stats_for_deal_trigger ON public.deals;
+CREATE TRIGGER refresh_account_stats_for_deal_trigger
+  AFTER INSERT OR UPDATE OF account_id, stage, total_revenue OR DELETE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_account_stats_for_deal();
+
+SELECT public.update_account_stats(id) FROM public.accounts;
@@ -0,0 +1,231 @@
+-- Dated exchange rates and a company reporting currency for revenue aggregates
+
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate NUMERIC(18, 8) NOT NULL CHECK (rate > 0),
+  effective_date DATE NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT exchange_rates_distinct_currencies CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_pair_date_key UNIQUE (from_currency, to_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date
+  ON public.exchange_rates (from_currency, to_currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage exchange rates"
+ON public.exchange_rates FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE TRIGGER update_exchange_rates_updated_at
+BEFORE UPDATE ON public.exchange_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Single-row company settings; the reporting currency is what stored aggregates and targets are kept in
+CREATE TABLE IF NOT EXISTS public.company_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporting_currency TEXT NOT NULL DEFAULT 'EUR',
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.company_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view company settings"
+ON public.company_settings FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage company settings"
+ON public.company_settings FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE TRIGGER update_company_settings_updated_at
+BEFORE UPDATE ON public.company_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.company_settings (reporting_currency)
+SELECT 'EUR'
+WHERE NOT EXISTS (SELECT 1 FROM public.company_settings);
+
+CREATE OR REPLACE FUNCTION public.get_reporting_currency()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT reporting_currency FROM public.company_settings ORDER BY created_at LIMIT 1), 'EUR');
+$$;
+
+-- Latest rate on or before p_date for a direct pair, or the inverse of the reverse pair.
+-- Dates before the first recorded rate fall back to the earliest rate for the pair.
+CREATE OR REPLACE FUNCTION public.get_pair_rate(p_from TEXT, p_to TEXT, p_date DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rate FROM (
+    SELECT er.rate, er.effective_date
+    FROM public.exchange_rates er
+    WHERE er.from_currency = p_from AND er.to_currency = p_to
+    UNION ALL
+    SELECT 1 / er.rate, er.effective_date
+    FROM public.exchange_rates er
+    WHERE er.from_currency = p_to AND er.to_currency = p_from
+  ) rates
+  ORDER BY effective_date <= p_date DESC,
+    CASE WHEN effective_date <= p_date THEN effective_date END DESC,
+    effective_date
+  LIMIT 1;
+$$;
+
+-- Rate at p_date, pivoting through the reporting currency when there is no direct pair
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(p_from TEXT, p_to TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date DATE := COALESCE(p_date, CURRENT_DATE);
+  v_reporting TEXT := get_reporting_currency();
+  v_rate NUMERIC;
+BEGIN
+  IF p_from IS NULL OR p_to IS NULL OR p_from = p_to THEN
+    RETURN 1;
+  END IF;
+
+  v_rate := get_pair_rate(p_from, p_to, v_date);
+  IF v_rate IS NOT NULL THEN
+    RETURN v_rate;
+  END IF;
+
+  IF v_reporting NOT IN (p_from, p_to) THEN
+    v_rate := get_exchange_rate(p_from, v_reporting, v_date) * get_exchange_rate(v_reporting, p_to, v_date);
+  END IF;
+
+  RETURN v_rate;
+END;
+$$;
+
+-- NULL when no rate is known, so sums leave the amount out instead of counting it 1:1
+CREATE OR REPLACE FUNCTION public.convert_currency(p_amount NUMERIC, p_from TEXT, p_to TEXT, p_date DATE DEFAULT CURRENT_DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_amount * get_exchange_rate(p_from, p_to, p_date);
+$$;
+
+-- Account revenue is kept in the reporting currency, converted at each deal's signed date;
+-- deals in a currency without a rate are left out
+CREATE OR REPLACE FUNCTION public.update_account_stats(p_account_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bypass TEXT := current_setting('app.approval_bypass', true);
+  v_reporting TEXT := get_reporting_currency();
+BEGIN
+  -- Derived counters must not be held by account approval workflows
+  PERFORM set_config('app.approval_bypass', 'on', true);
+
+  UPDATE public.accounts
+  SET
+    contact_count = (SELECT COUNT(*) FROM public.contacts WHERE account_id = p_account_id),
+    deal_count = (SELECT COUNT(*) FROM public.deals WHERE account_id = p_account_id),
+    total_revenue = (
+      SELECT COALESCE(SUM(convert_currency(
+        d.total_revenue,
+        COALESCE(d.currency_type, v_reporting),
+        v_reporting,
+        COALESCE(d.signed_contract_date, d.expected_closing_date, CURRENT_DATE)
+      )), 0)
+      FROM public.deals d
+      JOIN public.pipeline_stages ps ON ps.stage_name = d.stage AND ps.is_won_stage
+      WHERE d.account_id = p_account_id
+    ),
+    last_activity_date = (SELECT MAX(activity_date) FROM public.account_activities WHERE account_id = p_account_id)
+  WHERE id = p_account_id;
+
+  PERFORM set_config('app.approval_bypass', COALESCE(v_bypass, 'off'), true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_account_stats_for_deal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.account_id IS NOT NULL THEN
+    PERFORM update_account_stats(OLD.account_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.account_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.account_id IS DISTINCT FROM OLD.account_id
+      OR NEW.stage IS DISTINCT FROM OLD.stage
+      OR NEW.total_revenue IS DISTINCT FROM OLD.total_revenue
+      OR NEW.currency_type IS DISTINCT FROM OLD.currency_type
+      OR NEW.signed_contract_date IS DISTINCT FROM OLD.signed_contract_date
+      OR NEW.expected_closing_date IS DISTINCT FROM OLD.expected_closing_date)
+  THEN
+    PERFORM update_account_stats(NEW.account_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_account_stats_for_deal_trigger ON public.deals;
+CREATE TRIGGER refresh_account_stats_for_deal_trigger
+  AFTER INSERT OR UPDATE OF account_id, stage, total_revenue, currency_type, signed_contract_date, expected_closing_date OR DELETE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_account_stats_for_deal();
+
+-- Rates or the reporting currency changing invalidates every stored account total
+CREATE OR REPLACE FUNCTION public.refresh_all_account_stats()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM update_account_stats(a.id)
+  FROM public.accounts a
+  WHERE EXISTS (SELECT 1 FROM public.deals d WHERE d.account_id = a.id);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_account_stats_on_rate_change ON public.exchange_rates;
+CREATE TRIGGER refresh_account_stats_on_rate_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.exchange_rates
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_all_account_stats();
+
+DROP TRIGGER IF EXISTS refresh_account_stats_on_reporting_currency_change ON public.company_settings;
+CREATE TRIGGER refresh_account_stats_on_reporting_currency_change
+  AFTER UPDATE OF reporting_currency ON public.company_settings
+  FOR EACH STATEMENT EXECUTE FUNCTION public.refresh_all_account_stats();
@@ -0,0 +1,103 @@
+-- Stage-transition history for every deal, written by trigger so drags, form saves,
+-- imports, approvals and reverts are all captured the same way
+
+CREATE TABLE IF NOT EXISTS public.deal_stage_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  from_stage TEXT,
+  to_stage TEXT NOT NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  changed_by UUID,
+  total_contract_value NUMERIC,
+  currency_type TEXT,
+  probability INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal ON public.deal_stage_history (deal_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_changed_at ON public.deal_stage_history (changed_at);
+
+ALTER TABLE public.deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view deal stage history"
+ON public.deal_stage_history FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage deal stage history"
+ON public.deal_stage_history FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE OR REPLACE FUNCTION public.record_deal_stage_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Held approval changes come back with the old stage and are not transitions
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.deal_stage_history (
+    deal_id, from_stage, to_stage, changed_at, changed_by,
+    total_contract_value, currency_type, probability
+  ) VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.stage END,
+    NEW.stage,
+    now(),
+    COALESCE(auth.uid(), NEW.modified_by, NEW.created_by),
+    NEW.total_contract_value,
+    NEW.currency_type,
+    NEW.probability
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_deal_stage_change_trigger ON public.deals;
+CREATE TRIGGER record_deal_stage_change_trigger
+  AFTER INSERT OR UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.record_deal_stage_change();
+
+-- Backfill from the stage changes the client audit log already recorded
+INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_at, changed_by, total_contract_value, currency_type, probability)
+SELECT
+  d.id,
+  sal.details->'field_changes'->'stage'->>'old',
+  sal.details->'field_changes'->'stage'->>'new',
+  COALESCE(sal.created_at, now()),
+  sal.user_id,
+  COALESCE(NULLIF(sal.details->'updated_fields'->>'total_contract_value', '')::numeric,
+    NULLIF(sal.details->'old_data'->>'total_contract_value', '')::numeric),
+  COALESCE(sal.details->'old_data'->>'currency_type', d.currency_type),
+  NULLIF(sal.details->'old_data'->>'probability', '')::integer
+FROM public.security_audit_log sal
+JOIN public.deals d ON d.id::text = sal.resource_id
+WHERE sal.resource_type = 'deals'
+  AND sal.action = 'UPDATE'
+  AND sal.details->'field_changes'->'stage'->>'new' IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.deal_stage_history h WHERE h.deal_id = d.id);
+
+-- Every deal starts with the stage it was created in: the first audited "from" stage, else its current stage
+INSERT INTO public.deal_stage_history (deal_id, from_stage, to_stage, changed_at, changed_by, total_contract_value, currency_type, probability)
+SELECT
+  d.id,
+  NULL,
+  COALESCE(
+    (SELECT h.from_stage FROM public.deal_stage_history h
+     WHERE h.deal_id = d.id AND h.from_stage IS NOT NULL
+     ORDER BY h.changed_at LIMIT 1),
+    d.stage
+  ),
+  COALESCE(d.created_at, now()),
+  d.created_by,
+  d.total_contract_value,
+  d.currency_type,
+  d.probability
+FROM public.deals d
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.deal_stage_history h WHERE h.deal_id = d.id AND h.from_stage IS NULL
+);
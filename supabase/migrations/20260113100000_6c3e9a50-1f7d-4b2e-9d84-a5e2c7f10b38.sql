@@ -0,0 +1,148 @@
+-- Forecast categories on deals and weekly forecast snapshots
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS forecast_category TEXT NOT NULL DEFAULT 'Pipeline'
+    CHECK (forecast_category IN ('Commit', 'Best Case', 'Pipeline'));
+
+CREATE TABLE IF NOT EXISTS public.forecast_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  week_start DATE NOT NULL UNIQUE,
+  reporting_currency TEXT NOT NULL,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  captured_by UUID
+);
+
+-- One row per open deal at capture time; deal_id is deliberately not a foreign key so history survives deletes
+CREATE TABLE IF NOT EXISTS public.forecast_snapshot_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  snapshot_id UUID NOT NULL REFERENCES public.forecast_snapshots(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL,
+  deal_name TEXT,
+  lead_owner TEXT,
+  region TEXT,
+  stage TEXT NOT NULL,
+  forecast_category TEXT NOT NULL,
+  probability INTEGER NOT NULL DEFAULT 0,
+  -- NULL when the deal's currency had no exchange rate at capture
+  amount NUMERIC,
+  weighted_amount NUMERIC,
+  expected_closing_date DATE
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshot_items_snapshot ON public.forecast_snapshot_items (snapshot_id);
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshot_items_deal ON public.forecast_snapshot_items (deal_id);
+
+ALTER TABLE public.forecast_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_snapshot_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view forecast snapshots"
+ON public.forecast_snapshots FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage forecast snapshots"
+ON public.forecast_snapshots FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Authenticated users can view forecast snapshot items"
+ON public.forecast_snapshot_items FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage forecast snapshot items"
+ON public.forecast_snapshot_items FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+-- Monday of the current week on the server's clock; the one place the current snapshot week is decided
+CREATE OR REPLACE FUNCTION public.current_forecast_week()
+RETURNS DATE
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT date_trunc('week', CURRENT_DATE)::date;
+$$;
+
+-- Captures (or re-captures) the snapshot for the week starting p_week_start, by default the current one.
+-- Amounts are stored in the reporting currency at each deal's expected closing date.
+-- Only admins (and the scheduler) may capture any week but the current one, so history stays fixed.
+CREATE OR REPLACE FUNCTION public.capture_forecast_snapshot(p_week_start DATE DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_week_start DATE := COALESCE(p_week_start, current_forecast_week());
+  v_reporting TEXT := get_reporting_currency();
+  v_snapshot_id UUID;
+BEGIN
+  IF auth.uid() IS NULL AND current_user NOT IN ('postgres', 'service_role') THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+    AND v_week_start <> current_forecast_week()
+    AND NOT is_user_admin()
+  THEN
+    RAISE EXCEPTION 'Only admins can capture a snapshot for another week';
+  END IF;
+
+  INSERT INTO public.forecast_snapshots (week_start, reporting_currency, captured_at, captured_by)
+  VALUES (v_week_start, v_reporting, now(), auth.uid())
+  ON CONFLICT (week_start) DO UPDATE
+    SET reporting_currency = EXCLUDED.reporting_currency,
+        captured_at = EXCLUDED.captured_at,
+        captured_by = EXCLUDED.captured_by
+  RETURNING id INTO v_snapshot_id;
+
+  DELETE FROM public.forecast_snapshot_items WHERE snapshot_id = v_snapshot_id;
+
+  INSERT INTO public.forecast_snapshot_items (
+    snapshot_id, deal_id, deal_name, lead_owner, region, stage, forecast_category,
+    probability, amount, weighted_amount, expected_closing_date
+  )
+  SELECT
+    v_snapshot_id,
+    d.id,
+    COALESCE(d.project_name, d.deal_name),
+    d.lead_owner,
+    d.region,
+    d.stage,
+    d.forecast_category,
+    p.probability,
+    p.amount,
+    p.amount * p.probability / 100,
+    d.expected_closing_date
+  FROM public.deals d
+  LEFT JOIN public.pipeline_stages ps ON ps.stage_name = d.stage
+  CROSS JOIN LATERAL (
+    SELECT
+      COALESCE(d.probability, ps.stage_probability, 0) AS probability,
+      convert_currency(
+        COALESCE(d.total_contract_value, 0),
+        COALESCE(d.currency_type, v_reporting),
+        v_reporting,
+        COALESCE(d.expected_closing_date, CURRENT_DATE)
+      ) AS amount
+  ) p
+  WHERE NOT COALESCE(ps.is_won_stage, false)
+    AND NOT COALESCE(ps.is_lost_stage, false);
+
+  RETURN v_snapshot_id;
+END;
+$$;
+
+-- Monday morning snapshot where pg_cron is available; the forecast page also captures a missing week on open
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('weekly-forecast-snapshot', '0 5 * * 1', 'SELECT public.capture_forecast_snapshot()');
+  END IF;
+END;
+$$;
+
+SELECT public.capture_forecast_snapshot();
+
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access)
+SELECT 'Forecast', 'Weighted forecast and weekly changes', '/forecast', true, true, true
+WHERE NOT EXISTS (SELECT 1 FROM public.page_permissions WHERE route = '/forecast');
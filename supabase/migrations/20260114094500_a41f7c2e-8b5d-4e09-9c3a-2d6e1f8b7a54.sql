@@ -0,0 +1,303 @@
+-- Product catalog, price books and deal line items.
+-- Deals with line items derive total_contract_value and the quarterly revenue split from them.
+
+CREATE TABLE IF NOT EXISTS public.products (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sku TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  category TEXT,
+  unit TEXT NOT NULL DEFAULT 'each',
+  billing_type TEXT NOT NULL DEFAULT 'one_time' CHECK (billing_type IN ('one_time', 'recurring')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.price_books (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS price_books_single_default ON public.price_books (is_default) WHERE is_default;
+
+-- List price of a product in one currency within a price book
+CREATE TABLE IF NOT EXISTS public.price_book_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  price_book_id UUID NOT NULL REFERENCES public.price_books(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL,
+  unit_price NUMERIC NOT NULL CHECK (unit_price >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT price_book_entries_book_product_currency_key UNIQUE (price_book_id, product_id, currency)
+);
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS price_book_id UUID REFERENCES public.price_books(id) ON DELETE SET NULL;
+
+-- term_months is the number of billing months for recurring lines; one-time lines leave it NULL
+CREATE TABLE IF NOT EXISTS public.deal_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  sku TEXT,
+  description TEXT,
+  quantity NUMERIC NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC NOT NULL DEFAULT 0 CHECK (unit_price >= 0),
+  discount_percent NUMERIC NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  term_months INTEGER CHECK (term_months IS NULL OR term_months > 0),
+  start_date DATE,
+  line_total NUMERIC NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_line_items_deal ON public.deal_line_items (deal_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_deal_line_items_product ON public.deal_line_items (product_id);
+
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_books ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_book_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.deal_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view products"
+ON public.products FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage products"
+ON public.products FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Authenticated users can view price books"
+ON public.price_books FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage price books"
+ON public.price_books FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Authenticated users can view price book entries"
+ON public.price_book_entries FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage price book entries"
+ON public.price_book_entries FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+-- Line items follow the deals table, which every authenticated user can edit
+CREATE POLICY "Authenticated users can manage deal line items"
+ON public.deal_line_items FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_products_updated_at
+BEFORE UPDATE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_books_updated_at
+BEFORE UPDATE ON public.price_books
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_price_book_entries_updated_at
+BEFORE UPDATE ON public.price_book_entries
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_deal_line_items_updated_at
+BEFORE UPDATE ON public.deal_line_items
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.price_books (name, description, is_default)
+SELECT 'Standard Price Book', 'Default list prices', true
+WHERE NOT EXISTS (SELECT 1 FROM public.price_books WHERE is_default);
+
+CREATE OR REPLACE FUNCTION public.calculate_deal_line_total()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.line_total := round(
+    NEW.quantity * NEW.unit_price * (1 - NEW.discount_percent / 100) * COALESCE(NEW.term_months, 1),
+    2
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER calculate_deal_line_total_trigger
+BEFORE INSERT OR UPDATE ON public.deal_line_items
+FOR EACH ROW EXECUTE FUNCTION public.calculate_deal_line_total();
+
+-- Contract value and the quarterly split for the deal's start year. Recurring lines spread their
+-- total evenly over term_months from their start; one-time lines land in the month they start.
+CREATE OR REPLACE FUNCTION public.get_deal_line_item_totals(p_deal_id UUID, p_default_start DATE)
+RETURNS TABLE (total NUMERIC, q1 NUMERIC, q2 NUMERIC, q3 NUMERIC, q4 NUMERIC, line_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH lines AS (
+    SELECT li.line_total, COALESCE(li.term_months, 1) AS months,
+      date_trunc('month', COALESCE(li.start_date, p_default_start, CURRENT_DATE))::date AS starts
+    FROM public.deal_line_items li
+    WHERE li.deal_id = p_deal_id
+  ),
+  schedule AS (
+    SELECT (l.starts + (m * INTERVAL '1 month'))::date AS month, l.line_total / l.months AS amount
+    FROM lines l
+    CROSS JOIN LATERAL generate_series(0, l.months - 1) AS m
+  ),
+  in_year AS (
+    SELECT EXTRACT(QUARTER FROM month)::int AS quarter, amount
+    FROM schedule
+    WHERE EXTRACT(YEAR FROM month) = EXTRACT(YEAR FROM COALESCE(p_default_start, CURRENT_DATE))
+  )
+  SELECT
+    (SELECT COALESCE(SUM(line_total), 0) FROM lines),
+    COALESCE(SUM(amount) FILTER (WHERE quarter = 1), 0),
+    COALESCE(SUM(amount) FILTER (WHERE quarter = 2), 0),
+    COALESCE(SUM(amount) FILTER (WHERE quarter = 3), 0),
+    COALESCE(SUM(amount) FILTER (WHERE quarter = 4), 0),
+    (SELECT COUNT(*)::int FROM lines)
+  FROM in_year;
+$$;
+
+-- Runs before the stage-gate and approval triggers (alphabetical order) so both see the derived values
+CREATE OR REPLACE FUNCTION public.apply_deal_line_item_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_totals RECORD;
+BEGIN
+  SELECT * INTO v_totals
+  FROM get_deal_line_item_totals(NEW.id, COALESCE(NEW.start_date, NEW.expected_closing_date));
+
+  IF v_totals.line_count > 0 THEN
+    NEW.total_contract_value := v_totals.total;
+    NEW.quarterly_revenue_q1 := round(v_totals.q1, 2);
+    NEW.quarterly_revenue_q2 := round(v_totals.q2, 2);
+    NEW.quarterly_revenue_q3 := round(v_totals.q3, 2);
+    NEW.quarterly_revenue_q4 := round(v_totals.q4, 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_deal_line_item_totals_trigger ON public.deals;
+CREATE TRIGGER apply_deal_line_item_totals_trigger
+  BEFORE UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.apply_deal_line_item_totals();
+
+-- A line item change whose recalculated deal an approval workflow holds: {"operation", "old", "new"}
+ALTER TABLE public.approval_requests
+  ADD COLUMN IF NOT EXISTS line_item_change JSONB;
+
+-- Touch the parent deal so apply_deal_line_item_totals recalculates it; a deal left without line items
+-- has its derived totals cleared instead
+CREATE OR REPLACE FUNCTION public.refresh_deal_from_line_items()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Undoing a rejected change restores line items the deal's stored totals still reflect
+  IF current_setting('app.line_item_revert', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    IF EXISTS (SELECT 1 FROM public.deal_line_items WHERE deal_id = OLD.deal_id) THEN
+      UPDATE public.deals SET modified_at = now() WHERE id = OLD.deal_id;
+    ELSE
+      UPDATE public.deals
+      SET total_contract_value = NULL,
+        quarterly_revenue_q1 = NULL,
+        quarterly_revenue_q2 = NULL,
+        quarterly_revenue_q3 = NULL,
+        quarterly_revenue_q4 = NULL,
+        modified_at = now()
+      WHERE id = OLD.deal_id;
+    END IF;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.deal_id IS DISTINCT FROM OLD.deal_id) THEN
+    UPDATE public.deals SET modified_at = now() WHERE id = NEW.deal_id;
+  END IF;
+
+  -- The approval trigger refuses changes to a deal already awaiting approval, so a pending request
+  -- on it now was raised by the updates above; keep the line item change with it
+  UPDATE public.approval_requests
+  SET line_item_change = jsonb_build_object(
+    'operation', TG_OP,
+    'old', CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+    'new', CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END
+  )
+  WHERE entity_type = 'deals'
+    AND entity_id IN (
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.deal_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.deal_id END
+    )
+    AND operation = 'update'
+    AND status = 'pending'
+    AND line_item_change IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_deal_from_line_items_trigger
+AFTER INSERT OR UPDATE OR DELETE ON public.deal_line_items
+FOR EACH ROW EXECUTE FUNCTION public.refresh_deal_from_line_items();
+
+-- A rejected or cancelled deal change takes the line item change behind it back out
+CREATE OR REPLACE FUNCTION public.revert_held_line_item_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change JSONB := NEW.line_item_change;
+BEGIN
+  PERFORM set_config('app.line_item_revert', 'on', true);
+
+  IF v_change->>'operation' IN ('INSERT', 'UPDATE') THEN
+    DELETE FROM public.deal_line_items WHERE id = (v_change->'new'->>'id')::uuid;
+  END IF;
+
+  IF v_change->>'operation' IN ('UPDATE', 'DELETE') THEN
+    INSERT INTO public.deal_line_items
+    SELECT li.*
+    FROM jsonb_populate_record(NULL::public.deal_line_items, v_change->'old') AS li
+    WHERE EXISTS (SELECT 1 FROM public.deals WHERE id = li.deal_id);
+  END IF;
+
+  PERFORM set_config('app.line_item_revert', 'off', true);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER revert_held_line_item_change_trigger
+AFTER UPDATE OF status ON public.approval_requests
+FOR EACH ROW
+WHEN (OLD.status = 'pending' AND NEW.status IN ('rejected', 'cancelled') AND NEW.line_item_change IS NOT NULL)
+EXECUTE FUNCTION public.revert_held_line_item_change();
@@ -0,0 +1,113 @@
+-- Versioned quote documents generated from deals
+
+CREATE SEQUENCE IF NOT EXISTS public.quote_number_seq;
+
+CREATE TABLE IF NOT EXISTS public.deal_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  deal_id UUID NOT NULL REFERENCES public.deals(id) ON DELETE CASCADE,
+  document_type TEXT NOT NULL DEFAULT 'quote' CHECK (document_type IN ('quote')),
+  -- Shared by every version of a deal's quote, e.g. Q-2026-00042
+  document_number TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  file_path TEXT,
+  file_name TEXT,
+  file_size INTEGER,
+  total_amount NUMERIC,
+  currency TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent')),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  sent_to TEXT,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT deal_documents_deal_type_version_key UNIQUE (deal_id, document_type, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_documents_deal ON public.deal_documents (deal_id, version DESC);
+
+ALTER TABLE public.deal_documents ENABLE ROW LEVEL SECURITY;
+
+-- Documents follow the deals table, which every authenticated user can edit
+CREATE POLICY "Authenticated users can manage deal documents"
+ON public.deal_documents FOR ALL
+TO authenticated
+USING (true)
+WITH CHECK (true);
+
+-- Numbers the next version; the first version of a deal's quote draws a new document number
+CREATE OR REPLACE FUNCTION public.assign_deal_document_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_latest RECORD;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('deal_documents:' || NEW.deal_id::text));
+
+  SELECT document_number, version INTO v_latest
+  FROM public.deal_documents
+  WHERE deal_id = NEW.deal_id AND document_type = NEW.document_type
+  ORDER BY version DESC
+  LIMIT 1;
+
+  NEW.version := COALESCE(v_latest.version, 0) + 1;
+  NEW.document_number := COALESCE(
+    v_latest.document_number,
+    'Q-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('public.quote_number_seq')::text, 5, '0')
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_deal_document_version_trigger
+BEFORE INSERT ON public.deal_documents
+FOR EACH ROW EXECUTE FUNCTION public.assign_deal_document_version();
+
+-- Sending a quote marks the RFQ as submitted unless it has already been decided
+CREATE OR REPLACE FUNCTION public.mark_rfq_submitted_on_quote_sent()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'sent' AND OLD.status IS DISTINCT FROM 'sent' THEN
+    -- Derived from the document, so approval workflows don't hold it
+    PERFORM set_config('app.approval_bypass', 'on', true);
+    UPDATE public.deals
+    SET rfq_status = 'Submitted'
+    WHERE id = NEW.deal_id
+      AND COALESCE(rfq_status, 'Drafted') = 'Drafted';
+    PERFORM set_config('app.approval_bypass', 'off', true);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER mark_rfq_submitted_on_quote_sent_trigger
+AFTER UPDATE OF status ON public.deal_documents
+FOR EACH ROW EXECUTE FUNCTION public.mark_rfq_submitted_on_quote_sent();
+
+-- Generated PDFs live in a private bucket under <deal_id>/
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('deal-documents', 'deal-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can upload deal documents"
+ON storage.objects
+FOR INSERT
+TO authenticated
+WITH CHECK (bucket_id = 'deal-documents');
+
+CREATE POLICY "Authenticated users can view deal documents"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'deal-documents');
+
+CREATE POLICY "Authenticated users can delete deal documents"
+ON storage.objects
+FOR DELETE
+TO authenticated
+USING (bucket_id = 'deal-documents');
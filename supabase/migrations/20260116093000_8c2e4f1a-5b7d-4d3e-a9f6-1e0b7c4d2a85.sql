@@ -0,0 +1,14 @@
+-- Named, reusable column mapping profiles for imports; a user can keep several per entity
+
+ALTER TABLE public.import_export_settings
+  ADD COLUMN IF NOT EXISTS profile_name TEXT NOT NULL DEFAULT 'Default',
+  ADD COLUMN IF NOT EXISTS last_used_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.import_export_settings
+  DROP CONSTRAINT IF EXISTS import_export_settings_user_id_entity_type_key;
+
+ALTER TABLE public.import_export_settings
+  ADD CONSTRAINT import_export_settings_user_entity_profile_key UNIQUE (user_id, entity_type, profile_name);
+
+CREATE INDEX IF NOT EXISTS idx_import_export_settings_user_entity
+  ON public.import_export_settings (user_id, entity_type, last_used_at DESC NULLS LAST);
@@ -0,0 +1,283 @@
+-- Every import is recorded as a job so an admin can roll the whole batch back
+
+CREATE TABLE IF NOT EXISTS public.import_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Also the name of the table the job wrote to
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('leads', 'contacts', 'accounts', 'deals', 'meetings', 'tasks')),
+  file_name TEXT,
+  mapping JSONB,
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed', 'rolled_back', 'partially_rolled_back')),
+  created_count INTEGER NOT NULL DEFAULT 0,
+  updated_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  -- Rows the import wrote but couldn't record; a rollback can't undo those
+  unrecorded_count INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  rolled_back_by UUID,
+  rolled_back_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS public.import_job_records (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.import_jobs(id) ON DELETE CASCADE,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('created', 'updated', 'skipped')),
+  -- Columns the import overwrote, as they were before
+  previous_values JSONB,
+  -- Columns the import wrote; counters and other trigger-kept columns are left out of conflict checks
+  written_columns TEXT[] NOT NULL DEFAULT '{}',
+  -- The written columns as the import left them, to spot edits made afterwards
+  imported_values JSONB,
+  rolled_back_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_created_at ON public.import_jobs (created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_import_job_records_job ON public.import_job_records (job_id, action);
+
+ALTER TABLE public.import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.import_job_records ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own import jobs"
+ON public.import_jobs FOR SELECT
+USING (auth.uid() = created_by OR is_user_admin());
+
+CREATE POLICY "Users can create their own import jobs"
+ON public.import_jobs FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE POLICY "Users can view records of their own import jobs"
+ON public.import_job_records FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.import_jobs j
+    WHERE j.id = job_id AND (j.created_by = auth.uid() OR is_user_admin())
+  )
+);
+
+CREATE POLICY "Users can add records to their own running import jobs"
+ON public.import_job_records FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.import_jobs j
+    WHERE j.id = job_id AND j.created_by = auth.uid() AND j.status = 'running'
+  )
+);
+
+-- The given columns of a row, as compared by the conflict checks
+CREATE OR REPLACE FUNCTION public.import_record_values(p_row JSONB, p_columns TEXT[])
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(jsonb_object_agg(c.key, c.value), '{}'::jsonb)
+  FROM jsonb_each(p_row) c
+  WHERE c.key = ANY(p_columns);
+$$;
+
+-- Closes a job: counts its records and snapshots the columns it wrote for later conflict checks
+CREATE OR REPLACE FUNCTION public.finish_import_job(
+  p_job_id UUID,
+  p_failed BOOLEAN DEFAULT false,
+  p_errors JSONB DEFAULT '[]'::jsonb,
+  p_unrecorded INTEGER DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.import_jobs%ROWTYPE;
+BEGIN
+  SELECT * INTO v_job FROM public.import_jobs WHERE id = p_job_id FOR UPDATE;
+
+  IF v_job.id IS NULL OR v_job.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+  IF v_job.status <> 'running' THEN
+    RAISE EXCEPTION 'Import job is already finished';
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.import_job_records r SET imported_values = import_record_values(to_jsonb(t), r.written_columns)
+     FROM public.%I t
+     WHERE r.job_id = $1 AND r.action <> ''skipped'' AND t.id = r.record_id',
+    v_job.entity_type
+  ) USING p_job_id;
+
+  UPDATE public.import_jobs
+  SET
+    status = CASE WHEN p_failed THEN 'failed' ELSE 'completed' END,
+    created_count = (SELECT count(*) FROM public.import_job_records WHERE job_id = p_job_id AND action = 'created'),
+    updated_count = (SELECT count(*) FROM public.import_job_records WHERE job_id = p_job_id AND action = 'updated'),
+    skipped_count = (SELECT count(*) FROM public.import_job_records WHERE job_id = p_job_id AND action = 'skipped'),
+    error_count = jsonb_array_length(COALESCE(p_errors, '[]'::jsonb)),
+    unrecorded_count = COALESCE(p_unrecorded, 0),
+    -- Enough to see what went wrong without storing every message of a bad file
+    errors = COALESCE((SELECT jsonb_agg(e) FROM (SELECT e FROM jsonb_array_elements(p_errors) e LIMIT 500) s), '[]'::jsonb),
+    finished_at = now()
+  WHERE id = p_job_id;
+END;
+$$;
+
+-- Records of a job edited since the import, or updated rows since deleted; those need a decision before rollback
+CREATE OR REPLACE FUNCTION public.get_import_job_conflicts(p_job_id UUID)
+RETURNS TABLE (record_id UUID, action TEXT, reason TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity TEXT;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back imports';
+  END IF;
+
+  SELECT entity_type INTO v_entity FROM public.import_jobs WHERE id = p_job_id;
+  IF v_entity IS NULL THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+
+  RETURN QUERY EXECUTE format(
+    'SELECT r.record_id, r.action,
+       CASE WHEN t.id IS NULL THEN ''deleted'' ELSE ''edited'' END
+     FROM public.import_job_records r
+     LEFT JOIN public.%I t ON t.id = r.record_id
+     WHERE r.job_id = $1
+       AND r.action <> ''skipped''
+       AND r.rolled_back_at IS NULL
+       AND r.imported_values IS NOT NULL
+       AND (
+         (t.id IS NULL AND r.action = ''updated'')
+         OR (t.id IS NOT NULL AND import_record_values(to_jsonb(t), r.written_columns) IS DISTINCT FROM r.imported_values)
+       )',
+    v_entity
+  ) USING p_job_id;
+END;
+$$;
+
+-- Deletes the rows a job created and restores the columns it overwrote. Conflicting records are left
+-- alone unless p_overwrite_conflicts is set; a created row that is still referenced elsewhere is kept.
+-- A record that fails to roll back is reported in the result and the rest carry on.
+-- Related rows an importer replaced, such as action items and line items, are not restored.
+CREATE OR REPLACE FUNCTION public.rollback_import_job(p_job_id UUID, p_overwrite_conflicts BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job public.import_jobs%ROWTYPE;
+  v_record RECORD;
+  v_current JSONB;
+  v_columns TEXT;
+  v_deleted INTEGER := 0;
+  v_restored INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_failed INTEGER := 0;
+  v_errors JSONB := '[]'::jsonb;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can roll back imports';
+  END IF;
+
+  SELECT * INTO v_job FROM public.import_jobs WHERE id = p_job_id FOR UPDATE;
+  IF v_job.id IS NULL THEN
+    RAISE EXCEPTION 'Import job not found';
+  END IF;
+  IF v_job.status NOT IN ('completed', 'failed', 'partially_rolled_back') THEN
+    RAISE EXCEPTION 'This import cannot be rolled back while it is %', v_job.status;
+  END IF;
+
+  -- Undoing an import is an admin correction, not a change for approval workflows to hold; a
+  -- restored deal stage goes back as it was, without the stage gate and active-stage checks
+  PERFORM set_config('app.approval_bypass', 'on', true);
+  PERFORM set_config('app.pipeline_stage_migration', 'on', true);
+
+  FOR v_record IN
+    SELECT * FROM public.import_job_records
+    WHERE job_id = p_job_id AND action <> 'skipped' AND rolled_back_at IS NULL
+    ORDER BY created_at DESC
+  LOOP
+    BEGIN
+      EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1', v_job.entity_type)
+        INTO v_current USING v_record.record_id;
+
+      IF v_current IS NULL THEN
+        -- Already deleted: nothing left to remove, and nothing to restore onto
+        IF v_record.action = 'created' THEN
+          UPDATE public.import_job_records SET rolled_back_at = now() WHERE id = v_record.id;
+        ELSE
+          v_skipped := v_skipped + 1;
+        END IF;
+        CONTINUE;
+      END IF;
+
+      IF v_record.imported_values IS NOT NULL
+        AND import_record_values(v_current, v_record.written_columns) IS DISTINCT FROM v_record.imported_values
+        AND NOT p_overwrite_conflicts
+      THEN
+        v_skipped := v_skipped + 1;
+        CONTINUE;
+      END IF;
+
+      IF v_record.action = 'created' THEN
+        BEGIN
+          EXECUTE format('DELETE FROM public.%I WHERE id = $1', v_job.entity_type) USING v_record.record_id;
+          v_deleted := v_deleted + 1;
+        EXCEPTION WHEN foreign_key_violation THEN
+          v_skipped := v_skipped + 1;
+          CONTINUE;
+        END;
+      ELSE
+        SELECT string_agg(quote_ident(key), ', ') INTO v_columns
+        FROM jsonb_object_keys(COALESCE(v_record.previous_values, '{}'::jsonb)) AS key
+        WHERE key <> 'id'
+          AND EXISTS (
+            SELECT 1 FROM information_schema.columns c
+            WHERE c.table_schema = 'public' AND c.table_name = v_job.entity_type AND c.column_name = key
+          );
+
+        IF v_columns IS NOT NULL THEN
+          EXECUTE format(
+            'UPDATE public.%1$I AS t SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::public.%1$I, $1)) WHERE t.id = $2',
+            v_job.entity_type, v_columns
+          ) USING v_record.previous_values, v_record.record_id;
+        END IF;
+        v_restored := v_restored + 1;
+      END IF;
+
+      UPDATE public.import_job_records SET rolled_back_at = now() WHERE id = v_record.id;
+    EXCEPTION WHEN OTHERS THEN
+      v_failed := v_failed + 1;
+      v_errors := v_errors || jsonb_build_array(format('%s: %s', v_record.record_id, SQLERRM));
+    END;
+  END LOOP;
+
+  PERFORM set_config('app.pipeline_stage_migration', 'off', true);
+  PERFORM set_config('app.approval_bypass', 'off', true);
+
+  UPDATE public.import_jobs
+  SET
+    status = CASE WHEN v_skipped > 0 OR v_failed > 0 THEN 'partially_rolled_back' ELSE 'rolled_back' END,
+    rolled_back_by = auth.uid(),
+    rolled_back_at = now()
+  WHERE id = p_job_id;
+
+  RETURN jsonb_build_object(
+    'deleted', v_deleted, 'restored', v_restored, 'skipped', v_skipped, 'failed', v_failed, 'errors', v_errors
+  );
+END;
+$$;
+
+INSERT INTO public.page_permissions (page_name, description, route, admin_access, manager_access, user_access)
+SELECT 'Import History', 'Import jobs and rollback', '/import-history', true, false, false
+WHERE NOT EXISTS (SELECT 1 FROM public.page_permissions WHERE route = '/import-history');
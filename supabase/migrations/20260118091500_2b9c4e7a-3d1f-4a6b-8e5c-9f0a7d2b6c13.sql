@@ -0,0 +1,15 @@
+-- Stable keys from outside systems (marketing lists, ERP exports) so imports can update the records they created
+
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_external_id ON public.contacts (external_id) WHERE external_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_external_id ON public.leads (external_id) WHERE external_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_external_id ON public.accounts (external_id) WHERE external_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_deals_external_id ON public.deals (external_id) WHERE external_id IS NOT NULL;
+
+-- Match key and per-field update rules of an upsert import, saved with the mapping profile
+ALTER TABLE public.import_export_settings
+  ADD COLUMN IF NOT EXISTS upsert_settings JSONB;
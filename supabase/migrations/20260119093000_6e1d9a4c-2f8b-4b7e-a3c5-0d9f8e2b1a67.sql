@@ -0,0 +1,99 @@
+-- Values of admin-defined fields (crm_custom_fields), keyed by field_name, so new fields need no schema change
+
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Tasks get custom fields too; names become JSON keys and import column names
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_entity_type_check
+    CHECK (entity_type IN ('lead', 'contact', 'deal', 'account', 'task')),
+  ADD CONSTRAINT crm_custom_fields_field_type_check
+    CHECK (field_type IN ('text', 'number', 'date', 'select', 'multiselect', 'boolean')),
+  ADD CONSTRAINT crm_custom_fields_field_name_check
+    CHECK (field_name ~ '^[a-z][a-z0-9_]{0,62}$');
+
+-- Type check of stored values against their field definitions. Required fields are enforced by the
+-- forms and imports only, so records created before a field became required can still be saved.
+CREATE OR REPLACE FUNCTION public.validate_custom_field_values()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_field RECORD;
+  v_value JSONB;
+  v_options JSONB;
+  v_item JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.custom_fields IS NOT DISTINCT FROM OLD.custom_fields THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.custom_fields) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'custom_fields must be a JSON object' USING ERRCODE = 'check_violation';
+  END IF;
+
+  FOR v_field IN
+    SELECT field_name, field_label, field_type, field_options
+    FROM crm_custom_fields
+    WHERE entity_type = TG_ARGV[0] AND NEW.custom_fields ? field_name
+  LOOP
+    v_value := NEW.custom_fields -> v_field.field_name;
+    CONTINUE WHEN jsonb_typeof(v_value) = 'null';
+    v_options := CASE WHEN jsonb_typeof(v_field.field_options) = 'array' THEN v_field.field_options END;
+
+    IF (v_field.field_type = 'number' AND jsonb_typeof(v_value) <> 'number')
+      OR (v_field.field_type = 'boolean' AND jsonb_typeof(v_value) <> 'boolean')
+      OR (v_field.field_type IN ('text', 'select') AND jsonb_typeof(v_value) <> 'string')
+      OR (v_field.field_type = 'date' AND (jsonb_typeof(v_value) <> 'string' OR v_value #>> '{}' !~ '^\d{4}-\d{2}-\d{2}$'))
+      OR (v_field.field_type = 'multiselect' AND jsonb_typeof(v_value) <> 'array')
+    THEN
+      RAISE EXCEPTION '% has a value of the wrong type for a % field', v_field.field_label, v_field.field_type
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_field.field_type = 'select' AND v_options IS NOT NULL AND NOT v_options @> jsonb_build_array(v_value) THEN
+      RAISE EXCEPTION '% must be one of its options', v_field.field_label USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_field.field_type = 'multiselect' THEN
+      FOR v_item IN SELECT * FROM jsonb_array_elements(v_value) LOOP
+        IF jsonb_typeof(v_item) <> 'string' OR (v_options IS NOT NULL AND NOT v_options @> jsonb_build_array(v_item)) THEN
+          RAISE EXCEPTION '% must only hold its options', v_field.field_label USING ERRCODE = 'check_violation';
+        END IF;
+      END LOOP;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_contacts_custom_fields ON public.contacts;
+CREATE TRIGGER validate_contacts_custom_fields
+  BEFORE INSERT OR UPDATE OF custom_fields ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.validate_custom_field_values('contact');
+
+DROP TRIGGER IF EXISTS validate_leads_custom_fields ON public.leads;
+CREATE TRIGGER validate_leads_custom_fields
+  BEFORE INSERT OR UPDATE OF custom_fields ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.validate_custom_field_values('lead');
+
+DROP TRIGGER IF EXISTS validate_accounts_custom_fields ON public.accounts;
+CREATE TRIGGER validate_accounts_custom_fields
+  BEFORE INSERT OR UPDATE OF custom_fields ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.validate_custom_field_values('account');
+
+DROP TRIGGER IF EXISTS validate_deals_custom_fields ON public.deals;
+CREATE TRIGGER validate_deals_custom_fields
+  BEFORE INSERT OR UPDATE OF custom_fields ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.validate_custom_field_values('deal');
+
+DROP TRIGGER IF EXISTS validate_tasks_custom_fields ON public.tasks;
+CREATE TRIGGER validate_tasks_custom_fields
+  BEFORE INSERT OR UPDATE OF custom_fields ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.validate_custom_field_values('task');
@@ -0,0 +1,44 @@
+-- Fields shown on each stage's deal form, configured in Pipeline Settings.
+-- Custom fields are listed as custom_fields.<name>; line_items places the
+-- line items and quote documents section.
+
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS form_fields TEXT[] NOT NULL DEFAULT '{}';
+
+-- Seed the fields the hand-written stage forms used to show
+UPDATE public.pipeline_stages AS ps
+SET form_fields = v.form_fields
+FROM (VALUES
+  ('Lead', ARRAY['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority']),
+  ('Discussions', ARRAY['customer_need', 'relationship_strength', 'internal_comment']),
+  ('Qualified', ARRAY['customer_challenges', 'budget', 'probability', 'forecast_category', 'expected_closing_date', 'is_recurring', 'internal_comment']),
+  ('RFQ', ARRAY['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment', 'line_items']),
+  ('Offered', ARRAY['business_value', 'decision_maker_level', 'current_status', 'closing', 'line_items']),
+  ('Won', ARRAY['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status']),
+  ('Lost', ARRAY['lost_reason', 'need_improvement']),
+  ('Dropped', ARRAY['drop_reason'])
+) AS v(stage_name, form_fields)
+WHERE ps.stage_name = v.stage_name
+  AND ps.form_fields = '{}';
+
+-- Required custom fields are read from the deal's custom_fields object;
+-- an empty multi-select counts as missing
+CREATE OR REPLACE FUNCTION public.get_missing_stage_fields(p_stage TEXT, p_deal JSONB)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(f.field ORDER BY f.ord), '{}')
+  FROM public.pipeline_stages ps,
+    unnest(ps.required_fields) WITH ORDINALITY AS f(field, ord)
+  WHERE ps.stage_name = p_stage
+    AND CASE
+      WHEN f.field LIKE 'custom\_fields.%' THEN
+        COALESCE(p_deal->'custom_fields'->substr(f.field, 15), 'null'::jsonb)
+          IN ('null'::jsonb, '""'::jsonb, '[]'::jsonb)
+      ELSE
+        p_deal ? f.field AND NULLIF(trim(p_deal->>f.field), '') IS NULL
+    END;
+$$;
@@ -0,0 +1,169 @@
+-- Central picklists: the values offered for region, industry, segment, sources, statuses and deal reasons
+
+CREATE TABLE IF NOT EXISTS public.picklist_values (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  list_key TEXT NOT NULL CHECK (list_key IN (
+    'region', 'industry', 'segment', 'contact_source', 'account_status', 'lead_status',
+    'won_reason', 'lost_reason', 'drop_reason'
+  )),
+  value TEXT NOT NULL CHECK (btrim(value) <> ''),
+  color TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  -- Inactive values stay valid on existing records but are no longer offered
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- "EU" and "eu" are the same value
+CREATE UNIQUE INDEX IF NOT EXISTS idx_picklist_values_unique
+ON public.picklist_values (list_key, lower(value));
+
+ALTER TABLE public.picklist_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view picklist values"
+ON public.picklist_values FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage picklist values"
+ON public.picklist_values FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE TRIGGER update_picklist_values_updated_at
+BEFORE UPDATE ON public.picklist_values
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Seed with the values the forms offered until now
+INSERT INTO public.picklist_values (list_key, value, sort_order)
+SELECT v.list_key, v.value, v.sort_order
+FROM (VALUES
+  ('region', 'EU', 0), ('region', 'US', 1), ('region', 'ASIA', 2), ('region', 'LATAM', 3),
+  ('region', 'MEA', 4), ('region', 'Other', 5),
+  ('industry', 'Automotive', 0), ('industry', 'Technology', 1), ('industry', 'Manufacturing', 2),
+  ('industry', 'Healthcare', 3), ('industry', 'Finance/Banking', 4), ('industry', 'Retail', 5),
+  ('industry', 'Energy', 6), ('industry', 'Aerospace', 7), ('industry', 'Telecommunications', 8),
+  ('industry', 'Logistics', 9), ('industry', 'Government', 10), ('industry', 'Education', 11),
+  ('industry', 'Consulting', 12), ('industry', 'Software', 13), ('industry', 'Electronics', 14),
+  ('industry', 'Other', 15),
+  ('segment', 'prospect', 0), ('segment', 'customer', 1), ('segment', 'partner', 2),
+  ('segment', 'vendor', 3), ('segment', 'competitor', 4),
+  ('contact_source', 'Website', 0), ('contact_source', 'Referral', 1), ('contact_source', 'LinkedIn', 2),
+  ('contact_source', 'Cold Call', 3), ('contact_source', 'Trade Show', 4), ('contact_source', 'Email Campaign', 5),
+  ('contact_source', 'Social Media', 6), ('contact_source', 'Partner', 7), ('contact_source', 'Other', 8),
+  ('account_status', 'New', 0), ('account_status', 'Working', 1), ('account_status', 'Warm', 2),
+  ('account_status', 'Hot', 3), ('account_status', 'Nurture', 4), ('account_status', 'Closed-Won', 5),
+  ('account_status', 'Closed-Lost', 6),
+  ('lead_status', 'New', 0), ('lead_status', 'Attempted', 1), ('lead_status', 'Follow-up', 2),
+  ('lead_status', 'Qualified', 3), ('lead_status', 'Disqualified', 4), ('lead_status', 'Converted', 5)
+) AS v(list_key, value, sort_order)
+ON CONFLICT DO NOTHING;
+
+-- Lead statuses were managed in their own table; keep their colors and any added there
+INSERT INTO public.picklist_values (list_key, value, color, sort_order, is_active)
+SELECT 'lead_status', status_name, status_color, 100 + COALESCE(status_order, 0), COALESCE(is_active, true)
+FROM public.lead_statuses
+ON CONFLICT DO NOTHING;
+
+UPDATE public.picklist_values p
+SET color = s.status_color
+FROM public.lead_statuses s
+WHERE p.list_key = 'lead_status' AND lower(p.value) = lower(s.status_name) AND p.color IS NULL;
+
+-- Values already on records become inactive entries, so an admin can merge them into the right one
+INSERT INTO public.picklist_values (list_key, value, sort_order, is_active)
+SELECT DISTINCT ON (d.list_key, lower(btrim(d.value))) d.list_key, btrim(d.value), 1000, false
+FROM (
+  SELECT 'region' AS list_key, region AS value FROM public.accounts
+  UNION ALL SELECT 'region', region FROM public.contacts
+  UNION ALL SELECT 'region', region FROM public.deals
+  UNION ALL SELECT 'industry', industry FROM public.accounts
+  UNION ALL SELECT 'industry', industry FROM public.contacts
+  UNION ALL SELECT 'industry', industry FROM public.leads
+  UNION ALL SELECT 'segment', segment FROM public.accounts
+  UNION ALL SELECT 'segment', segment FROM public.contacts
+  UNION ALL SELECT 'contact_source', contact_source FROM public.contacts
+  UNION ALL SELECT 'contact_source', contact_source FROM public.leads
+  UNION ALL SELECT 'account_status', status FROM public.accounts
+  UNION ALL SELECT 'lead_status', lead_status FROM public.leads
+  UNION ALL SELECT 'won_reason', won_reason FROM public.deals
+  UNION ALL SELECT 'lost_reason', lost_reason FROM public.deals
+  UNION ALL SELECT 'drop_reason', drop_reason FROM public.deals
+) d
+WHERE d.value IS NOT NULL AND btrim(d.value) <> ''
+ORDER BY d.list_key, lower(btrim(d.value)), d.value
+ON CONFLICT DO NOTHING;
+
+-- Columns that hold each list's values
+CREATE OR REPLACE FUNCTION public.picklist_columns(p_list_key TEXT)
+RETURNS TABLE (table_name TEXT, column_name TEXT)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT t.table_name, t.column_name
+  FROM (VALUES
+    ('region', 'accounts', 'region'), ('region', 'contacts', 'region'), ('region', 'deals', 'region'),
+    ('industry', 'accounts', 'industry'), ('industry', 'contacts', 'industry'), ('industry', 'leads', 'industry'),
+    ('segment', 'accounts', 'segment'), ('segment', 'contacts', 'segment'),
+    ('contact_source', 'contacts', 'contact_source'), ('contact_source', 'leads', 'contact_source'),
+    ('account_status', 'accounts', 'status'),
+    ('lead_status', 'leads', 'lead_status'),
+    ('won_reason', 'deals', 'won_reason'),
+    ('lost_reason', 'deals', 'lost_reason'),
+    ('drop_reason', 'deals', 'drop_reason')
+  ) AS t(list_key, table_name, column_name)
+  WHERE t.list_key = p_list_key
+$$;
+
+-- Rewrites every record holding p_from (in any letter case) to p_to, then removes p_from from the list.
+-- Returns the number of records changed.
+CREATE OR REPLACE FUNCTION public.merge_picklist_value(p_list_key TEXT, p_from TEXT, p_to TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_column RECORD;
+  v_count INTEGER;
+  v_total INTEGER := 0;
+  v_to TEXT;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can merge picklist values';
+  END IF;
+
+  IF lower(btrim(p_from)) = lower(btrim(p_to)) THEN
+    RAISE EXCEPTION 'Pick two different values to merge';
+  END IF;
+
+  -- Records get the target's spelling as stored in the list
+  SELECT value INTO v_to FROM public.picklist_values
+  WHERE list_key = p_list_key AND lower(value) = lower(btrim(p_to));
+  IF v_to IS NULL THEN
+    RAISE EXCEPTION 'Value "%" is not in the % list', p_to, p_list_key;
+  END IF;
+
+  -- Cleaning up values is an admin correction, not a change for approval workflows to hold
+  PERFORM set_config('app.approval_bypass', 'on', true);
+
+  FOR v_column IN SELECT * FROM public.picklist_columns(p_list_key) LOOP
+    EXECUTE format(
+      'UPDATE public.%I SET %I = $1 WHERE lower(btrim(%I)) = lower(btrim($2))',
+      v_column.table_name, v_column.column_name, v_column.column_name
+    ) USING v_to, p_from;
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_total := v_total + v_count;
+  END LOOP;
+
+  PERFORM set_config('app.approval_bypass', 'off', true);
+
+  DELETE FROM public.picklist_values
+  WHERE list_key = p_list_key AND lower(value) = lower(btrim(p_from));
+
+  RETURN v_total;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_picklist_value(TEXT, TEXT, TEXT) TO authenticated;
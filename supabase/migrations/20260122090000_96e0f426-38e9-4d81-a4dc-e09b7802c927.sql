@@ -0,0 +1,203 @@
+-- Full-text search across leads, contacts, accounts, deals, meetings, tasks and sent emails
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- array_to_string is only STABLE, which generated columns don't accept
+CREATE OR REPLACE FUNCTION public.search_tags_text(p_tags TEXT[])
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_to_string(p_tags, ' '), '');
+$$;
+
+-- Names weigh most (A), then contact details, tags and classifications (B), then free text (C)
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(lead_name, '') || ' ' || COALESCE(company_name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(email, '') || ' ' || COALESCE(position, '') || ' ' ||
+    COALESCE(industry, '') || ' ' || COALESCE(lead_status, '') || ' ' || COALESCE(country, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+) STORED;
+
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(contact_name, '') || ' ' || COALESCE(company_name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(email, '') || ' ' || COALESCE(position, '') || ' ' ||
+    COALESCE(industry, '') || ' ' || public.search_tags_text(tags)), 'B') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+) STORED;
+
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(company_name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(email, '') || ' ' || COALESCE(website, '') || ' ' ||
+    COALESCE(industry, '') || ' ' || COALESCE(country, '') || ' ' || public.search_tags_text(tags)), 'B') ||
+  setweight(to_tsvector('english', COALESCE(notes, '')), 'C')
+) STORED;
+
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(deal_name, '') || ' ' || COALESCE(project_name, '') || ' ' ||
+    COALESCE(customer_name, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(lead_name, '') || ' ' || COALESCE(stage, '') || ' ' ||
+    COALESCE(region, '')), 'B') ||
+  setweight(to_tsvector('english', COALESCE(customer_need, '') || ' ' || COALESCE(customer_challenges, '') || ' ' ||
+    COALESCE(business_value, '') || ' ' || COALESCE(action_items, '') || ' ' || COALESCE(internal_comment, '')), 'C')
+) STORED;
+
+ALTER TABLE public.meetings ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(subject, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(description, '') || ' ' || COALESCE(notes, '') || ' ' ||
+    COALESCE(outcome, '')), 'C')
+) STORED;
+
+ALTER TABLE public.tasks ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(title, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(category, '') || ' ' || public.search_tags_text(tags)), 'B') ||
+  setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+) STORED;
+
+-- Email bodies are HTML; only their text is indexed
+ALTER TABLE public.email_history ADD COLUMN IF NOT EXISTS search_vector tsvector
+GENERATED ALWAYS AS (
+  setweight(to_tsvector('english', COALESCE(subject, '')), 'A') ||
+  setweight(to_tsvector('english', COALESCE(recipient_name, '') || ' ' || COALESCE(recipient_email, '')), 'B') ||
+  setweight(to_tsvector('english', regexp_replace(COALESCE(body, ''), '<[^>]*>', ' ', 'g')), 'C')
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_leads_search_vector ON public.leads USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_contacts_search_vector ON public.contacts USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_accounts_search_vector ON public.accounts USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_deals_search_vector ON public.deals USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_meetings_search_vector ON public.meetings USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_tasks_search_vector ON public.tasks USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_email_history_search_vector ON public.email_history USING gin (search_vector);
+
+-- Trigram indexes let misspelled or partly typed names and emails still match
+CREATE INDEX IF NOT EXISTS idx_leads_name_trgm ON public.leads USING gin (lead_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_leads_email_trgm ON public.leads USING gin (email extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_name_trgm ON public.contacts USING gin (contact_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_contacts_email_trgm ON public.contacts USING gin (email extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_accounts_name_trgm ON public.accounts USING gin (company_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_accounts_email_trgm ON public.accounts USING gin (email extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_deals_name_trgm ON public.deals USING gin (deal_name extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_meetings_subject_trgm ON public.meetings USING gin (subject extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_tasks_title_trgm ON public.tasks USING gin (title extensions.gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_email_history_recipient_trgm ON public.email_history USING gin (recipient_email extensions.gin_trgm_ops);
+
+-- Ranked search over every module. Runs as the caller, so row level security decides what is found.
+-- Snippets mark matched words with chr(2) ... chr(3); the client turns those into highlights.
+CREATE OR REPLACE FUNCTION public.search_crm(p_query TEXT, p_types TEXT[] DEFAULT NULL, p_limit INTEGER DEFAULT 30)
+RETURNS TABLE (
+  record_type TEXT,
+  record_id UUID,
+  title TEXT,
+  subtitle TEXT,
+  snippet TEXT,
+  related_type TEXT,
+  related_id UUID,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_term TEXT := btrim(COALESCE(p_query, ''));
+  v_query tsquery;
+  v_headline TEXT := 'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+    ', MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+BEGIN
+  IF length(v_term) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_query := websearch_to_tsquery('english', v_term);
+
+  RETURN QUERY
+  WITH hits AS (
+    SELECT 'lead'::TEXT AS h_type, l.id AS h_id, l.lead_name AS h_title,
+      COALESCE(l.company_name, l.email) AS h_subtitle, l.description AS h_body,
+      NULL::TEXT AS h_related_type, NULL::UUID AS h_related_id,
+      ts_rank(l.search_vector, v_query)
+        + 0.5 * GREATEST(word_similarity(v_term, l.lead_name), word_similarity(v_term, COALESCE(l.email, ''))) AS h_rank
+    FROM public.leads l
+    WHERE (p_types IS NULL OR 'lead' = ANY(p_types))
+      AND (l.search_vector @@ v_query OR v_term <% l.lead_name OR v_term <% l.email)
+
+    UNION ALL
+    SELECT 'contact', c.id, c.contact_name, COALESCE(c.company_name, c.email), c.description,
+      NULL, NULL,
+      ts_rank(c.search_vector, v_query)
+        + 0.5 * GREATEST(word_similarity(v_term, c.contact_name), word_similarity(v_term, COALESCE(c.email, '')))
+    FROM public.contacts c
+    WHERE (p_types IS NULL OR 'contact' = ANY(p_types))
+      AND (c.search_vector @@ v_query OR v_term <% c.contact_name OR v_term <% c.email)
+
+    UNION ALL
+    SELECT 'account', a.id, a.company_name, COALESCE(a.industry, a.email), a.notes,
+      NULL, NULL,
+      ts_rank(a.search_vector, v_query)
+        + 0.5 * GREATEST(word_similarity(v_term, a.company_name), word_similarity(v_term, COALESCE(a.email, '')))
+    FROM public.accounts a
+    WHERE (p_types IS NULL OR 'account' = ANY(p_types))
+      AND (a.search_vector @@ v_query OR v_term <% a.company_name OR v_term <% a.email)
+
+    UNION ALL
+    SELECT 'deal', d.id, d.deal_name, COALESCE(d.customer_name, d.stage),
+      concat_ws(' ', d.customer_need, d.customer_challenges, d.business_value, d.action_items, d.internal_comment),
+      NULL, NULL,
+      ts_rank(d.search_vector, v_query) + 0.5 * word_similarity(v_term, d.deal_name)
+    FROM public.deals d
+    WHERE (p_types IS NULL OR 'deal' = ANY(p_types))
+      AND (d.search_vector @@ v_query OR v_term <% d.deal_name)
+
+    UNION ALL
+    SELECT 'meeting', m.id, m.subject, m.status, concat_ws(' ', m.description, m.notes, m.outcome),
+      NULL, NULL,
+      ts_rank(m.search_vector, v_query) + 0.5 * word_similarity(v_term, m.subject)
+    FROM public.meetings m
+    WHERE (p_types IS NULL OR 'meeting' = ANY(p_types))
+      AND (m.search_vector @@ v_query OR v_term <% m.subject)
+
+    UNION ALL
+    SELECT 'task', t.id, t.title, t.status, t.description,
+      NULL, NULL,
+      ts_rank(t.search_vector, v_query) + 0.5 * word_similarity(v_term, t.title)
+    FROM public.tasks t
+    WHERE (p_types IS NULL OR 'task' = ANY(p_types))
+      AND (t.search_vector @@ v_query OR v_term <% t.title)
+
+    -- Emails open on the record they were sent to
+    UNION ALL
+    SELECT 'email', e.id, COALESCE(e.subject, '(no subject)'), COALESCE(e.recipient_name, e.recipient_email),
+      regexp_replace(COALESCE(e.body, ''), '<[^>]*>', ' ', 'g'),
+      CASE
+        WHEN e.contact_id IS NOT NULL THEN 'contact'
+        WHEN e.lead_id IS NOT NULL THEN 'lead'
+        WHEN e.account_id IS NOT NULL THEN 'account'
+      END,
+      COALESCE(e.contact_id, e.lead_id, e.account_id),
+      ts_rank(e.search_vector, v_query) + 0.5 * word_similarity(v_term, COALESCE(e.recipient_email, ''))
+    FROM public.email_history e
+    WHERE (p_types IS NULL OR 'email' = ANY(p_types))
+      AND (e.search_vector @@ v_query OR v_term <% e.recipient_email)
+  ),
+  top_hits AS (
+    SELECT * FROM hits
+    ORDER BY h_rank DESC, h_title
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 30), 1), 100)
+  )
+  -- Snippets only for the rows returned; ts_headline is the expensive part
+  SELECT h.h_type, h.h_id, h.h_title, h.h_subtitle,
+    NULLIF(btrim(ts_headline('english', COALESCE(h.h_body, ''), v_query, v_headline)), ''),
+    h.h_related_type, h.h_related_id, h.h_rank::REAL
+  FROM top_hits h
+  ORDER BY h.h_rank DESC, h.h_title;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_crm(TEXT, TEXT[], INTEGER) TO authenticated;
@@ -0,0 +1,20 @@
+-- Per-link click events recorded by track-email-click; email_history keeps the totals
+
+CREATE TABLE IF NOT EXISTS public.email_link_clicks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email_history_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  user_agent TEXT,
+  clicked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_link_clicks_email ON public.email_link_clicks (email_history_id, clicked_at DESC);
+
+ALTER TABLE public.email_link_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Clicks are visible to whoever can see the email; only the tracking function writes them
+CREATE POLICY "Users can view clicks on visible emails"
+ON public.email_link_clicks FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.email_history eh WHERE eh.id = email_link_clicks.email_history_id
+));
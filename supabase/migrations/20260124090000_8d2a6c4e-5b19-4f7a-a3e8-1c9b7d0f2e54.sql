@@ -0,0 +1,109 @@
+-- Email engagement event stream: every open, click, bounce and reply, with machine traffic flagged.
+-- Mail scanners and privacy proxies fetch pixels and follow links without a person reading the email,
+-- so the counters on email_history and contacts only count human events.
+
+CREATE TABLE IF NOT EXISTS public.email_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email_history_id UUID NOT NULL REFERENCES public.email_history(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('open', 'click', 'bounce', 'reply')),
+  -- The link followed, for clicks
+  url TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  is_machine BOOLEAN NOT NULL DEFAULT false,
+  -- Which heuristic flagged the event, e.g. apple_privacy_proxy, scanner_user_agent, prefetch_timing
+  machine_reason TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_email ON public.email_events (email_history_id, event_type, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_events_occurred ON public.email_events (occurred_at DESC);
+
+-- Clicks recorded so far become click events; they were all counted as human
+INSERT INTO public.email_events (email_history_id, event_type, url, user_agent, created_by, occurred_at)
+SELECT email_history_id, 'click', url, user_agent, NULL, clicked_at
+FROM public.email_link_clicks;
+
+DROP TABLE IF EXISTS public.email_link_clicks;
+
+ALTER TABLE public.email_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view events on visible emails"
+ON public.email_events FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.email_history eh WHERE eh.id = email_events.email_history_id
+));
+
+-- Opens and clicks come from the tracking functions; people log replies and bounces they see
+CREATE POLICY "Users can log replies and bounces on visible emails"
+ON public.email_events FOR INSERT
+WITH CHECK (
+  event_type IN ('bounce', 'reply')
+  AND created_by = auth.uid()
+  AND EXISTS (SELECT 1 FROM public.email_history eh WHERE eh.id = email_events.email_history_id)
+);
+
+-- Keeps email_history and contact counters in step with the human events
+CREATE OR REPLACE FUNCTION public.apply_email_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email public.email_history%ROWTYPE;
+BEGIN
+  SELECT * INTO v_email FROM public.email_history WHERE id = NEW.email_history_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_type = 'bounce' THEN
+    UPDATE public.email_history SET status = 'bounced' WHERE id = v_email.id;
+  ELSIF NEW.event_type = 'reply' THEN
+    UPDATE public.email_history SET status = 'replied' WHERE id = v_email.id;
+  ELSIF NOT NEW.is_machine AND NEW.event_type = 'open' THEN
+    UPDATE public.email_history
+    SET open_count = COALESCE(open_count, 0) + 1,
+        opened_at = COALESCE(opened_at, NEW.occurred_at),
+        status = CASE WHEN status IN ('sent', 'delivered') THEN 'opened' ELSE status END
+    WHERE id = v_email.id;
+
+    IF v_email.opened_at IS NULL AND v_email.contact_id IS NOT NULL THEN
+      UPDATE public.contacts SET email_opens = COALESCE(email_opens, 0) + 1 WHERE id = v_email.contact_id;
+    END IF;
+  ELSIF NOT NEW.is_machine AND NEW.event_type = 'click' THEN
+    UPDATE public.email_history
+    SET click_count = COALESCE(click_count, 0) + 1,
+        clicked_at = COALESCE(clicked_at, NEW.occurred_at),
+        status = CASE WHEN status IN ('sent', 'delivered', 'opened') THEN 'clicked' ELSE status END
+    WHERE id = v_email.id;
+
+    IF v_email.clicked_at IS NULL AND v_email.contact_id IS NOT NULL THEN
+      UPDATE public.contacts SET email_clicks = COALESCE(email_clicks, 0) + 1 WHERE id = v_email.contact_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_email_event_trigger
+AFTER INSERT ON public.email_events
+FOR EACH ROW EXECUTE FUNCTION public.apply_email_event();
+
+-- Contact opens were bumped on every send; recount them as emails opened and clicked
+UPDATE public.contacts c
+SET email_opens = COALESCE(counts.opened, 0),
+    email_clicks = COALESCE(counts.clicked, 0)
+FROM public.contacts c2
+LEFT JOIN (
+  SELECT contact_id,
+         COUNT(*) FILTER (WHERE COALESCE(open_count, 0) > 0) AS opened,
+         COUNT(*) FILTER (WHERE COALESCE(click_count, 0) > 0) AS clicked
+  FROM public.email_history
+  WHERE contact_id IS NOT NULL
+  GROUP BY contact_id
+) counts ON counts.contact_id = c2.id
+WHERE c.id = c2.id;
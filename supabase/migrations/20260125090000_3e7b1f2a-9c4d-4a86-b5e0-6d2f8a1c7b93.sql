@@ -0,0 +1,35 @@
+-- Outgoing email goes through a pluggable transport: Microsoft Graph (default), SMTP, or capture.
+-- The capture transport stores messages here instead of delivering them, for development and tests.
+
+CREATE TABLE IF NOT EXISTS public.captured_emails (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE CASCADE,
+  sender_email TEXT NOT NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT NOT NULL,
+  -- The HTML as it would have been sent, tracking links and pixel included
+  html TEXT NOT NULL,
+  -- Attachment name, content type and size; the content itself is not kept
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_captured_emails_captured ON public.captured_emails (captured_at DESC);
+
+ALTER TABLE public.captured_emails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage captured emails"
+ON public.captured_emails FOR ALL
+USING (is_user_admin());
+
+-- The email integration now chooses the transport. Mail went out through Microsoft Graph until now,
+-- so existing rows keep Graph unless an SMTP host has been configured.
+UPDATE public.integration_settings
+SET config = jsonb_build_object(
+  'transport', CASE WHEN COALESCE(config->>'host', '') <> '' THEN 'smtp' ELSE 'graph' END,
+  'username', NULL,
+  'sender_email', NULL,
+  'sender_name', NULL
+) || config
+WHERE integration_name = 'Email (SMTP)';
@@ -0,0 +1,349 @@
+-- Email sequences: ordered template emails and manual tasks, each on a day offset from enrollment.
+-- The process-sequences function sends due steps through send-email within the sequence's business
+-- hours; replies, booked meetings, bounces and unsubscribes pause or stop the enrollment.
+
+CREATE TABLE public.email_sequences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- Steps only go out on these ISO weekdays (1 = Monday), between these local hours
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  business_hours_start SMALLINT NOT NULL DEFAULT 9 CHECK (business_hours_start BETWEEN 0 AND 23),
+  business_hours_end SMALLINT NOT NULL DEFAULT 17 CHECK (business_hours_end BETWEEN 1 AND 24),
+  business_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  reply_action TEXT NOT NULL DEFAULT 'stop' CHECK (reply_action IN ('stop', 'pause')),
+  meeting_action TEXT NOT NULL DEFAULT 'pause' CHECK (meeting_action IN ('stop', 'pause')),
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (business_hours_start < business_hours_end)
+);
+
+CREATE TABLE public.email_sequence_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  step_type TEXT NOT NULL CHECK (step_type IN ('email', 'task')),
+  -- Days after enrollment; day 0 is the first business window after enrolling
+  day_offset INTEGER NOT NULL DEFAULT 0 CHECK (day_offset >= 0),
+  template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL,
+  task_title TEXT,
+  task_description TEXT,
+  task_priority TEXT NOT NULL DEFAULT 'medium',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.email_sequence_enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'stopped')),
+  -- Why the enrollment paused or stopped: replied, meeting_booked, unsubscribed, bounced, no_email, manual
+  stop_reason TEXT,
+  -- Index of the next step to run, in position order
+  current_step INTEGER NOT NULL DEFAULT 0,
+  next_step_at TIMESTAMP WITH TIME ZONE,
+  last_step_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  enrolled_by UUID DEFAULT auth.uid(),
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((lead_id IS NULL) <> (contact_id IS NULL))
+);
+
+CREATE INDEX idx_email_sequence_steps_sequence ON public.email_sequence_steps (sequence_id, position);
+CREATE INDEX idx_email_sequence_enrollments_due ON public.email_sequence_enrollments (next_step_at) WHERE status = 'active';
+CREATE INDEX idx_email_sequence_enrollments_sequence ON public.email_sequence_enrollments (sequence_id, status);
+CREATE INDEX idx_email_sequence_enrollments_lead ON public.email_sequence_enrollments (lead_id) WHERE lead_id IS NOT NULL;
+CREATE INDEX idx_email_sequence_enrollments_contact ON public.email_sequence_enrollments (contact_id) WHERE contact_id IS NOT NULL;
+
+-- A person is in a sequence at most once at a time
+CREATE UNIQUE INDEX idx_email_sequence_enrollments_open_lead
+ON public.email_sequence_enrollments (sequence_id, lead_id) WHERE status IN ('active', 'paused');
+CREATE UNIQUE INDEX idx_email_sequence_enrollments_open_contact
+ON public.email_sequence_enrollments (sequence_id, contact_id) WHERE status IN ('active', 'paused');
+
+CREATE TRIGGER update_email_sequences_updated_at
+BEFORE UPDATE ON public.email_sequences
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_sequence_steps_updated_at
+BEFORE UPDATE ON public.email_sequence_steps
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_email_sequence_enrollments_updated_at
+BEFORE UPDATE ON public.email_sequence_enrollments
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Sequence emails are tied to the step that sent them, for step-level metrics
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS sequence_enrollment_id UUID REFERENCES public.email_sequence_enrollments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sequence_step_id UUID REFERENCES public.email_sequence_steps(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_history_sequence_step ON public.email_history (sequence_step_id) WHERE sequence_step_id IS NOT NULL;
+
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS email_opt_out BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS email_opt_out BOOLEAN NOT NULL DEFAULT false;
+
+-- Unsubscribe links in sequence emails are logged as events too
+ALTER TABLE public.email_events DROP CONSTRAINT IF EXISTS email_events_event_type_check;
+ALTER TABLE public.email_events ADD CONSTRAINT email_events_event_type_check
+  CHECK (event_type IN ('open', 'click', 'bounce', 'reply', 'unsubscribe'));
+
+ALTER TABLE public.email_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email sequences"
+ON public.email_sequences FOR SELECT USING (true);
+
+CREATE POLICY "Users can create email sequences"
+ON public.email_sequences FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Owners and admins can update email sequences"
+ON public.email_sequences FOR UPDATE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Owners and admins can delete email sequences"
+ON public.email_sequences FOR DELETE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can view email sequence steps"
+ON public.email_sequence_steps FOR SELECT USING (true);
+
+CREATE POLICY "Sequence owners and admins can manage steps"
+ON public.email_sequence_steps FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.email_sequences s
+  WHERE s.id = email_sequence_steps.sequence_id AND (is_user_admin() OR s.created_by = auth.uid())
+));
+
+CREATE POLICY "Authenticated users can view email sequence enrollments"
+ON public.email_sequence_enrollments FOR SELECT USING (true);
+
+CREATE POLICY "Users can enroll people in sequences"
+ON public.email_sequence_enrollments FOR INSERT WITH CHECK (enrolled_by = auth.uid());
+
+CREATE POLICY "Enrollers and admins can update enrollments"
+ON public.email_sequence_enrollments FOR UPDATE USING (is_user_admin() OR enrolled_by = auth.uid());
+
+CREATE POLICY "Admins can delete enrollments"
+ON public.email_sequence_enrollments FOR DELETE USING (is_user_admin());
+
+-- New enrollments wait for the first step's day offset
+CREATE OR REPLACE FUNCTION public.schedule_sequence_enrollment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_offset INTEGER;
+BEGIN
+  SELECT day_offset INTO v_offset
+  FROM public.email_sequence_steps
+  WHERE sequence_id = NEW.sequence_id
+  ORDER BY position
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sequence has no steps';
+  END IF;
+
+  NEW.current_step := 0;
+  NEW.next_step_at := NEW.enrolled_at + make_interval(days => v_offset);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER schedule_sequence_enrollment_trigger
+BEFORE INSERT ON public.email_sequence_enrollments
+FOR EACH ROW EXECUTE FUNCTION public.schedule_sequence_enrollment();
+
+-- Enrolls leads and contacts, skipping anyone already in the sequence or opted out of email.
+-- Runs as the caller, so enrollments are recorded against them.
+CREATE OR REPLACE FUNCTION public.enroll_in_sequence(
+  p_sequence_id UUID,
+  p_lead_ids UUID[] DEFAULT '{}',
+  p_contact_ids UUID[] DEFAULT '{}'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_leads INTEGER;
+  v_contacts INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.email_sequences WHERE id = p_sequence_id AND is_active) THEN
+    RAISE EXCEPTION 'Sequence is not active';
+  END IF;
+
+  INSERT INTO public.email_sequence_enrollments (sequence_id, lead_id)
+  SELECT p_sequence_id, l.id
+  FROM public.leads l
+  WHERE l.id = ANY(p_lead_ids)
+    AND NOT l.email_opt_out
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_sequence_enrollments e
+      WHERE e.sequence_id = p_sequence_id AND e.lead_id = l.id AND e.status IN ('active', 'paused')
+    );
+  GET DIAGNOSTICS v_leads = ROW_COUNT;
+
+  INSERT INTO public.email_sequence_enrollments (sequence_id, contact_id)
+  SELECT p_sequence_id, c.id
+  FROM public.contacts c
+  WHERE c.id = ANY(p_contact_ids)
+    AND NOT c.email_opt_out
+    AND NOT EXISTS (
+      SELECT 1 FROM public.email_sequence_enrollments e
+      WHERE e.sequence_id = p_sequence_id AND e.contact_id = c.id AND e.status IN ('active', 'paused')
+    );
+  GET DIAGNOSTICS v_contacts = ROW_COUNT;
+
+  RETURN v_leads + v_contacts;
+END;
+$$;
+
+-- Replies follow the sequence's reply_action; bounces stop; unsubscribes opt the person out,
+-- which stops every sequence through the opt-out trigger below
+CREATE OR REPLACE FUNCTION public.apply_email_event_to_sequences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email public.email_history%ROWTYPE;
+BEGIN
+  IF NEW.event_type NOT IN ('reply', 'bounce', 'unsubscribe') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_email FROM public.email_history WHERE id = NEW.email_history_id;
+  IF NOT FOUND OR (v_email.lead_id IS NULL AND v_email.contact_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.event_type = 'unsubscribe' THEN
+    -- An opt-out is never held by an approval workflow on the person
+    PERFORM set_config('app.approval_bypass', 'on', true);
+    UPDATE public.leads SET email_opt_out = true WHERE id = v_email.lead_id;
+    UPDATE public.contacts SET email_opt_out = true WHERE id = v_email.contact_id;
+    PERFORM set_config('app.approval_bypass', 'off', true);
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.email_sequence_enrollments e
+  SET status = CASE WHEN NEW.event_type = 'reply' AND s.reply_action = 'pause' THEN 'paused' ELSE 'stopped' END,
+      stop_reason = CASE WHEN NEW.event_type = 'reply' THEN 'replied' ELSE 'bounced' END
+  FROM public.email_sequences s
+  WHERE s.id = e.sequence_id
+    AND e.status IN ('active', 'paused')
+    AND (e.lead_id = v_email.lead_id OR e.contact_id = v_email.contact_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_email_event_to_sequences_trigger
+AFTER INSERT ON public.email_events
+FOR EACH ROW EXECUTE FUNCTION public.apply_email_event_to_sequences();
+
+CREATE OR REPLACE FUNCTION public.stop_sequences_on_opt_out()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.email_sequence_enrollments
+  SET status = 'stopped', stop_reason = 'unsubscribed'
+  WHERE status IN ('active', 'paused')
+    AND CASE WHEN TG_TABLE_NAME = 'leads' THEN lead_id = NEW.id ELSE contact_id = NEW.id END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stop_sequences_on_lead_opt_out
+AFTER UPDATE OF email_opt_out ON public.leads
+FOR EACH ROW WHEN (NEW.email_opt_out AND NOT OLD.email_opt_out)
+EXECUTE FUNCTION public.stop_sequences_on_opt_out();
+
+CREATE TRIGGER stop_sequences_on_contact_opt_out
+AFTER UPDATE OF email_opt_out ON public.contacts
+FOR EACH ROW WHEN (NEW.email_opt_out AND NOT OLD.email_opt_out)
+EXECUTE FUNCTION public.stop_sequences_on_opt_out();
+
+CREATE OR REPLACE FUNCTION public.apply_meeting_to_sequences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' OR (NEW.lead_id IS NULL AND NEW.contact_id IS NULL) THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.email_sequence_enrollments e
+  SET status = CASE WHEN s.meeting_action = 'pause' THEN 'paused' ELSE 'stopped' END,
+      stop_reason = 'meeting_booked'
+  FROM public.email_sequences s
+  WHERE s.id = e.sequence_id
+    AND e.status = 'active'
+    AND (e.lead_id = NEW.lead_id OR e.contact_id = NEW.contact_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_meeting_to_sequences_trigger
+AFTER INSERT ON public.meetings
+FOR EACH ROW EXECUTE FUNCTION public.apply_meeting_to_sequences();
+
+-- Per step: emails sent, and distinct emails opened, clicked, replied to or unsubscribed from (human events only)
+CREATE OR REPLACE FUNCTION public.get_sequence_step_metrics(p_sequence_id UUID)
+RETURNS TABLE (step_id UUID, sent BIGINT, opened BIGINT, clicked BIGINT, replied BIGINT, unsubscribed BIGINT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    st.id,
+    COUNT(DISTINCT eh.id),
+    COUNT(DISTINCT ev.email_history_id) FILTER (WHERE ev.event_type = 'open' AND NOT ev.is_machine),
+    COUNT(DISTINCT ev.email_history_id) FILTER (WHERE ev.event_type = 'click' AND NOT ev.is_machine),
+    COUNT(DISTINCT ev.email_history_id) FILTER (WHERE ev.event_type = 'reply'),
+    COUNT(DISTINCT ev.email_history_id) FILTER (WHERE ev.event_type = 'unsubscribe')
+  FROM public.email_sequence_steps st
+  LEFT JOIN public.email_history eh ON eh.sequence_step_id = st.id
+  LEFT JOIN public.email_events ev ON ev.email_history_id = eh.id
+  WHERE st.sequence_id = p_sequence_id
+  GROUP BY st.id;
+$$;
+
+-- Every 15 minutes where pg_cron and pg_net are available, using the project URL and service role key
+-- stored in Vault as project_url and service_role_key; the Sequences tab can also run it on demand
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'process-email-sequences',
+      '*/15 * * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-sequences',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      )
+      $cron$
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,35 @@
+-- Keep accounts.contact_count current as contacts are added, moved or removed, so the accounts
+-- list can sort on it server-side and show the same number it sorts by
+
+CREATE OR REPLACE FUNCTION public.refresh_account_stats_for_contact()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.account_id IS NOT NULL
+    AND (TG_OP = 'DELETE' OR NEW.account_id IS DISTINCT FROM OLD.account_id)
+  THEN
+    PERFORM update_account_stats(OLD.account_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.account_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.account_id IS DISTINCT FROM OLD.account_id)
+  THEN
+    PERFORM update_account_stats(NEW.account_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_account_stats_for_contact_trigger ON public.contacts;
+CREATE TRIGGER refresh_account_stats_for_contact_trigger
+  AFTER INSERT OR UPDATE OF account_id OR DELETE ON public.contacts
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_account_stats_for_contact();
+
+-- Counts stored before the trigger existed may have drifted
+SELECT public.update_account_stats(a.id)
+FROM public.accounts a
+WHERE a.contact_count IS DISTINCT FROM (SELECT COUNT(*) FROM public.contacts c WHERE c.account_id = a.id);